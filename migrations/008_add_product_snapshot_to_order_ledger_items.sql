@@ -0,0 +1,5 @@
+-- Order Ledger Items: catalog snapshot captured when the order is priced
+-- unit_price_cents now holds the real Inventory Service price; SKU and name are
+-- recorded alongside so later catalog edits don't change what the customer ordered
+ALTER TABLE order_ledger_items ADD COLUMN IF NOT EXISTS product_sku VARCHAR(100);
+ALTER TABLE order_ledger_items ADD COLUMN IF NOT EXISTS product_name VARCHAR(255);
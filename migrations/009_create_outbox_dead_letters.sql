@@ -0,0 +1,32 @@
+-- Attempt history: one entry appended per scheduled retry
+-- Shape: [{ "attempt": 1, "error_tag": "...", "error_reason": "...", "failed_at": "ISO-8601" }]
+ALTER TABLE outbox ADD COLUMN IF NOT EXISTS attempt_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Dead letters: outbox events that exhausted retries, failed compensation or could not be processed
+-- Holds a full copy of the event so it can be replayed after the root cause is fixed
+CREATE TABLE IF NOT EXISTS outbox_dead_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    outbox_event_id UUID NOT NULL UNIQUE REFERENCES outbox(id),
+    aggregate_type VARCHAR(100) NOT NULL,
+    aggregate_id UUID NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    -- MAX_RETRIES_EXCEEDED, COMPENSATION_FAILED, UNPROCESSABLE
+    reason VARCHAR(50) NOT NULL,
+    error_tag VARCHAR(100) NOT NULL,
+    error_message TEXT,
+    retry_count INT NOT NULL,
+    attempt_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+    compensation_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    event_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    dead_lettered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- Set when an operator replays the event; points at the fresh outbox row
+    replayed_at TIMESTAMP WITH TIME ZONE,
+    replayed_event_id UUID REFERENCES outbox(id)
+);
+
+-- Index for the operator queue (not yet replayed)
+CREATE INDEX IF NOT EXISTS idx_outbox_dead_letters_open ON outbox_dead_letters(dead_lettered_at) WHERE replayed_at IS NULL;
+
+-- Index for per-saga lookups
+CREATE INDEX IF NOT EXISTS idx_outbox_dead_letters_aggregate ON outbox_dead_letters(aggregate_id);
@@ -0,0 +1,23 @@
+-- Saga Step Events: Append-only audit trail of saga progress per order ledger
+-- Written by the orchestrator on every forward step, compensation step and ledger transition
+-- Read by the Edge API for GET /orders/{order_ledger_id}/history
+CREATE TABLE IF NOT EXISTS saga_step_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_ledger_id UUID NOT NULL REFERENCES order_ledger(id),
+    step_name VARCHAR(50) NOT NULL,
+    -- SUCCEEDED, FAILED, RETRY_SCHEDULED
+    outcome VARCHAR(20) NOT NULL,
+    from_status VARCHAR(50) NOT NULL,
+    -- NULL when the step did not move the ledger (failures, compensation actions)
+    to_status VARCHAR(50),
+    attempt INT NOT NULL,
+    error_tag VARCHAR(100),
+    error_reason TEXT,
+    duration_ms INT NOT NULL,
+    -- OpenTelemetry trace ID of the saga execution, for jumping to Tempo
+    trace_id VARCHAR(32),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Index for timeline queries
+CREATE INDEX IF NOT EXISTS idx_saga_step_events_ledger ON saga_step_events(order_ledger_id, created_at);
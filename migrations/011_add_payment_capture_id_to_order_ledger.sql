@@ -0,0 +1,4 @@
+-- Capture reference for refunds: compensation after PAYMENT_CAPTURED refunds this capture
+ALTER TABLE order_ledger ADD COLUMN IF NOT EXISTS payment_capture_id VARCHAR(255);
+
+COMMENT ON COLUMN order_ledger.payment_capture_id IS 'Reference to the payment capture made by saga step 3';
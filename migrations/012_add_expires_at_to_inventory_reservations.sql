@@ -0,0 +1,10 @@
+-- Reservation expiry: RESERVED rows past expires_at are released by the inventory service's sweeper
+-- NULL means the reservation is held indefinitely (the saga clears it before capturing payment)
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN inventory_reservations.expires_at IS 'When an unheld RESERVED reservation is swept back into stock';
+
+-- Partial index for the sweeper query - only live reservations with an expiry are candidates
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expires_at
+    ON inventory_reservations(expires_at)
+    WHERE status = 'RESERVED' AND expires_at IS NOT NULL;
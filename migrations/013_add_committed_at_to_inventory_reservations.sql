@@ -0,0 +1,5 @@
+-- Reservation commit: once the saga confirms an order its reservations move RESERVED -> COMMITTED
+-- COMMITTED rows are permanent stock deductions (sold), separating held stock from sold stock in reporting
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS committed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN inventory_reservations.committed_at IS 'When the reservation became a permanent deduction (order confirmed)';
@@ -0,0 +1,43 @@
+-- Payment state for the mock Payments service when PAYMENT_STORE=postgres
+-- Owned by the Payments service; IDs are the gateway-style prefixed strings (auth_..., cap_..., ref_...)
+CREATE TABLE IF NOT EXISTS payment_authorizations (
+    id VARCHAR(64) PRIMARY KEY,
+    user_id UUID NOT NULL,
+    amount_cents INT NOT NULL CHECK (amount_cents > 0),
+    currency VARCHAR(3) NOT NULL,
+    -- AUTHORIZED, CAPTURED, VOIDED
+    status VARCHAR(20) NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payment_captures (
+    id VARCHAR(64) PRIMARY KEY,
+    authorization_id VARCHAR(64) NOT NULL REFERENCES payment_authorizations(id),
+    amount_cents INT NOT NULL CHECK (amount_cents > 0),
+    idempotency_key VARCHAR(255) NOT NULL UNIQUE,
+    captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_captures_authorization ON payment_captures(authorization_id);
+
+CREATE TABLE IF NOT EXISTS payment_voids (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- An authorization is voided at most once
+    authorization_id VARCHAR(64) NOT NULL UNIQUE REFERENCES payment_authorizations(id),
+    idempotency_key VARCHAR(255) NOT NULL,
+    reason VARCHAR(255),
+    voided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+    id VARCHAR(64) PRIMARY KEY,
+    capture_id VARCHAR(64) NOT NULL REFERENCES payment_captures(id),
+    amount_cents INT NOT NULL CHECK (amount_cents > 0),
+    idempotency_key VARCHAR(255) NOT NULL UNIQUE,
+    reason VARCHAR(255),
+    refunded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_capture ON payment_refunds(capture_id);
@@ -0,0 +1,10 @@
+-- Authorization expiry for the mock Payments service: captures after expires_at are rejected
+ALTER TABLE payment_authorizations ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Rows written before this migration get the default 7-day hold
+UPDATE payment_authorizations SET expires_at = created_at + INTERVAL '7 days' WHERE expires_at IS NULL;
+
+ALTER TABLE payment_authorizations ALTER COLUMN expires_at SET NOT NULL;
+
+COMMENT ON COLUMN payment_authorizations.status IS 'AUTHORIZED, PARTIALLY_CAPTURED, CAPTURED or VOIDED';
+COMMENT ON COLUMN payment_authorizations.expires_at IS 'After this the uncaptured remainder can no longer be captured';
@@ -0,0 +1,2 @@
+-- 3-D Secure: an authorization can wait on the customer (REQUIRES_ACTION) and end DECLINED if the challenge fails
+COMMENT ON COLUMN payment_authorizations.status IS 'REQUIRES_ACTION, AUTHORIZED, DECLINED, PARTIALLY_CAPTURED, CAPTURED or VOIDED';
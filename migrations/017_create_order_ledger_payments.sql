@@ -0,0 +1,36 @@
+-- Order Ledger Payments: one row per payment instrument on an order (split tender)
+-- Written by the Edge API as it authorizes each instrument; the orchestrator records captures
+-- Sequence is authorization order: additional payments first, the primary payment method last
+CREATE TABLE IF NOT EXISTS order_ledger_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_ledger_id UUID NOT NULL REFERENCES order_ledger(id),
+    sequence INT NOT NULL CHECK (sequence >= 0),
+    method VARCHAR(20) NOT NULL,
+    amount_cents INT NOT NULL CHECK (amount_cents > 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    payment_authorization_id VARCHAR(255),
+    payment_capture_id VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (order_ledger_id, sequence)
+);
+
+COMMENT ON COLUMN order_ledger_payments.method IS 'card, wallet, store_credit or gift_card';
+COMMENT ON COLUMN order_ledger_payments.status IS 'Authorization outcome: PENDING, AUTHORIZED, REQUIRES_ACTION, DECLINED or VOIDED';
+COMMENT ON COLUMN order_ledger_payments.payment_capture_id IS 'Reference to the capture made by saga step 3';
+
+-- Trigger to auto-update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_order_ledger_payments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS order_ledger_payments_updated_at_trigger ON order_ledger_payments;
+CREATE TRIGGER order_ledger_payments_updated_at_trigger
+    BEFORE UPDATE ON order_ledger_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_order_ledger_payments_updated_at();
@@ -0,0 +1,21 @@
+-- FX rates: product prices are stored in the base currency (USD) and converted at quote time
+-- rate is units of the currency per 1 unit of the base currency; owned by the inventory service
+CREATE TABLE IF NOT EXISTS fx_rates (
+    currency VARCHAR(3) PRIMARY KEY,
+    rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN fx_rates.rate IS 'Units of this currency per 1 USD';
+
+INSERT INTO fx_rates (currency, rate) VALUES
+    ('USD', 1),
+    ('EUR', 0.92),
+    ('GBP', 0.79)
+ON CONFLICT (currency) DO NOTHING;
+
+-- Rate snapshot taken when the order was priced, so totals can be audited after rates move
+ALTER TABLE order_ledger ADD COLUMN IF NOT EXISTS fx_base_currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE order_ledger ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(18, 8) NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN order_ledger.fx_rate IS 'Units of currency per 1 fx_base_currency at pricing time';
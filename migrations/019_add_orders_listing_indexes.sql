@@ -0,0 +1,4 @@
+-- Keyset pagination for GET /orders: (created_at, id) is the sort key, id breaks ties
+-- The user-scoped index serves the customer "My orders" listing; the global one serves back-office queries
+CREATE INDEX IF NOT EXISTS idx_orders_user_created ON orders(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_created ON orders(created_at DESC, id DESC);
@@ -0,0 +1,2 @@
+-- Keyset pagination for the Edge API's GET /users/:user_id/orders: newest ledger entries first, id breaks ties
+CREATE INDEX IF NOT EXISTS idx_order_ledger_user_created ON order_ledger(user_id, created_at DESC, id DESC);
@@ -0,0 +1,7 @@
+-- Soft delete: archived products stay readable (orders reference them) but can no longer be reserved
+ALTER TABLE products ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Keyset pagination for GET /products: newest first, id breaks ties
+CREATE INDEX IF NOT EXISTS idx_products_created ON products(created_at DESC, id DESC);
+-- SKU prefix search (sku LIKE 'ABC%') cannot use the unique index under a non-C collation
+CREATE INDEX IF NOT EXISTS idx_products_sku_pattern ON products(sku text_pattern_ops);
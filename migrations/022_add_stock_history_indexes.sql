@@ -0,0 +1,7 @@
+-- Per-product history reads: GET /products/:id/adjustments pages by (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_product_created
+    ON inventory_adjustments(product_id, created_at DESC, id DESC);
+
+-- The stock movement view reads a product's reservations alongside its adjustments
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_product
+    ON inventory_reservations(product_id, created_at);
@@ -0,0 +1,52 @@
+-- Stock locations (warehouses, stores) - products.stock_quantity stays the total across all of them
+CREATE TABLE IF NOT EXISTS locations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(50) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    -- Lower ships first when the order carries no destination
+    priority INT NOT NULL DEFAULT 100 CHECK (priority >= 0),
+    latitude NUMERIC(9, 6) CHECK (latitude BETWEEN -90 AND 90),
+    longitude NUMERIC(9, 6) CHECK (longitude BETWEEN -180 AND 180),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+-- Per-location stock; the rows of a product always sum to its products.stock_quantity
+CREATE TABLE IF NOT EXISTS location_stock (
+    product_id UUID NOT NULL REFERENCES products(id),
+    location_id UUID NOT NULL REFERENCES locations(id),
+    quantity INT NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (product_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_stock_location ON location_stock(location_id);
+
+-- Stock received without a location, and everything held before locations existed, lives here
+INSERT INTO locations (code, name, priority) VALUES ('DEFAULT', 'Default location', 0)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO location_stock (product_id, location_id, quantity)
+SELECT p.id, l.id, p.stock_quantity
+FROM products p
+CROSS JOIN locations l
+WHERE l.code = 'DEFAULT'
+  AND p.stock_quantity > 0
+ON CONFLICT (product_id, location_id) DO NOTHING;
+
+-- NULL for adjustments recorded before locations existed
+ALTER TABLE inventory_adjustments ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id);
+
+-- Reservations name the location their stock was taken from, so a release puts it back there
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id);
+
+UPDATE inventory_reservations
+SET location_id = (SELECT id FROM locations WHERE code = 'DEFAULT')
+WHERE location_id IS NULL;
+
+ALTER TABLE inventory_reservations ALTER COLUMN location_id SET NOT NULL;
+
+-- A line item can now be split across locations: one reservation per order, product and location
+ALTER TABLE inventory_reservations DROP CONSTRAINT IF EXISTS inventory_reservations_order_id_product_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_reservations_order_product_location
+    ON inventory_reservations(order_id, product_id, location_id);
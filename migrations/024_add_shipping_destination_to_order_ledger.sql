@@ -0,0 +1,5 @@
+-- Optional shipping coordinates; inventory reserves stock from the locations nearest to them
+ALTER TABLE order_ledger ADD COLUMN IF NOT EXISTS shipping_latitude NUMERIC(9, 6)
+    CHECK (shipping_latitude BETWEEN -90 AND 90);
+ALTER TABLE order_ledger ADD COLUMN IF NOT EXISTS shipping_longitude NUMERIC(9, 6)
+    CHECK (shipping_longitude BETWEEN -180 AND 180);
@@ -0,0 +1,36 @@
+-- Backorders and pre-orders: products that keep taking orders once their stock runs out
+ALTER TABLE products ADD COLUMN IF NOT EXISTS backorder_policy VARCHAR(20) NOT NULL DEFAULT 'none'
+    CHECK (backorder_policy IN ('none', 'backorder', 'preorder'));
+-- Most units that may be waiting on stock at once; NULL for no cap
+ALTER TABLE products ADD COLUMN IF NOT EXISTS backorder_limit INT CHECK (backorder_limit >= 0);
+
+COMMENT ON COLUMN products.backorder_policy IS 'none, backorder or preorder';
+
+-- A BACKORDERED reservation holds no stock, so it has no location until stock is allocated to it
+ALTER TABLE inventory_reservations ALTER COLUMN location_id DROP NOT NULL;
+
+-- Set on reservations created as backorders, and kept once they are allocated
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS backordered_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN inventory_reservations.status IS 'RESERVED, BACKORDERED, COMMITTED or RELEASED';
+
+-- An allocated backorder may land on a location the order already holds stock at,
+-- so it is exempt from the per-location uniqueness and kept unique per line item instead
+DROP INDEX IF EXISTS idx_inventory_reservations_order_product_location;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_reservations_order_product_location
+    ON inventory_reservations(order_id, product_id, location_id)
+    WHERE backordered_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_reservations_order_product_backorder
+    ON inventory_reservations(order_id, product_id)
+    WHERE backordered_at IS NOT NULL;
+
+-- New stock is allocated to a product's backorders oldest first
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_backordered
+    ON inventory_reservations(product_id, created_at, id)
+    WHERE status = 'BACKORDERED';
+
+-- The sweeper releases expired backorders too (they hold no stock, so only the status changes)
+DROP INDEX IF EXISTS idx_inventory_reservations_expires_at;
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expires_at
+    ON inventory_reservations(expires_at)
+    WHERE status IN ('RESERVED', 'BACKORDERED') AND expires_at IS NOT NULL;
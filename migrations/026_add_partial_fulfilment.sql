@@ -0,0 +1,6 @@
+-- Orders that may ship whatever is in stock instead of cancelling when an item runs short
+ALTER TABLE order_ledger ADD COLUMN IF NOT EXISTS allow_partial BOOLEAN NOT NULL DEFAULT false;
+
+-- Units actually reserved for a line of a partially fulfilled order; NULL when the line was filled in full
+ALTER TABLE order_ledger_items ADD COLUMN IF NOT EXISTS fulfilled_quantity INT
+    CHECK (fulfilled_quantity >= 0);
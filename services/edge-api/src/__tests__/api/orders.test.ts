@@ -1,9 +1,31 @@
 import { describe, it, expect } from "vitest"
 import { Effect, Layer } from "effect"
 import { HttpServerResponse, HttpServerRequest, HttpRouter } from "@effect/platform"
-import { createOrder, getOrderStatus } from "../../api/orders.js"
-import { OrderService, type CreateOrderResult, type OrderStatusResult } from "../../services/OrderService.js"
-import { DuplicateRequestError, PaymentDeclinedError, PaymentGatewayError, OrderLedgerNotFoundError } from "../../domain/errors.js"
+import { createOrder, getOrderStatus, getOrderHistory, listUserOrders, cancelOrder, authenticationCallback } from "../../api/orders.js"
+import {
+  OrderService,
+  type CancelOrderResult,
+  type CompleteAuthorizationResult,
+  type CreateOrderResult,
+  type OrderHistoryResult,
+  type OrderStatusResult,
+  type UserOrdersPage
+} from "../../services/OrderService.js"
+import {
+  DuplicateRequestError,
+  PaymentDeclinedError,
+  PaymentGatewayError,
+  OrderLedgerNotFoundError,
+  OrderNotCancellableError,
+  OrderNotAwaitingCustomerActionError,
+  ProductNotFoundError,
+  InvalidPaymentSplitError,
+  MultipleAuthenticationsRequiredError,
+  InsufficientStockError,
+  InventoryServiceError,
+  OrdersServiceError,
+  InvalidCursorError
+} from "../../domain/errors.js"
 
 // Type for POST response body
 interface OrderResponse {
@@ -14,6 +36,16 @@ interface OrderResponse {
   details?: string
   decline_code?: string
   is_retryable?: boolean
+  product_ids?: string[]
+  total_amount_cents?: number
+  additional_amount_cents?: number
+  next_action?: { type: string; challenge_url: string }
+  items?: Array<{
+    product_id: string
+    sku: string | null
+    requested_quantity: number
+    available_quantity: number
+  }>
 }
 
 // Type for GET response body
@@ -32,11 +64,70 @@ interface GetOrderStatusResponse {
     product_id: string
     quantity: number
     unit_price_cents: number
+    sku: string | null
+    name: string | null
+  }>
+  error?: string
+  message?: string
+}
+
+// Type for GET history response body
+interface GetOrderHistoryResponse {
+  order_ledger_id?: string
+  status?: string
+  events?: Array<{
+    step_name: string
+    outcome: string
+    from_status: string
+    to_status: string | null
+    attempt: number
+    error_tag: string | null
+    error_reason: string | null
+    duration_ms: number
+    trace_id: string | null
+    created_at: string
   }>
   error?: string
   message?: string
 }
 
+// Type for GET user orders response body
+interface ListUserOrdersResponse {
+  orders?: Array<{
+    order_ledger_id: string
+    status: string
+    customer_status: string
+    total_amount_cents: number
+    currency: string
+    created_at: string
+    updated_at: string
+    items: Array<{
+      product_id: string
+      quantity: number
+      unit_price_cents: number
+      sku: string | null
+      name: string | null
+    }>
+    order: {
+      order_id: string
+      status: string
+      items: Array<{ product_id: string; quantity: number; unit_price_cents: number }>
+    } | null
+  }>
+  next_cursor?: string | null
+  error?: string
+  message?: string
+  is_retryable?: boolean
+}
+
+// Type for POST cancel response body
+interface CancelOrderResponse {
+  order_ledger_id?: string
+  status?: string
+  message?: string
+  error?: string
+}
+
 interface MockRequestOptions {
   headers?: Record<string, string>
   body?: unknown
@@ -62,7 +153,7 @@ const validRequestBody = {
 const createMockOrderService = (config: {
   shouldSucceed: boolean
   result?: CreateOrderResult
-  error?: DuplicateRequestError | PaymentDeclinedError | PaymentGatewayError
+  error?: DuplicateRequestError | PaymentDeclinedError | PaymentGatewayError | ProductNotFoundError | InvalidPaymentSplitError | MultipleAuthenticationsRequiredError | InsufficientStockError | InventoryServiceError
 }) => {
   return Layer.succeed(OrderService, {
     createOrder: () => {
@@ -77,7 +168,11 @@ const createMockOrderService = (config: {
         isRetryable: false
       }))
     },
-    getOrderStatus: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" }))
+    completeAuthorization: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderStatus: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderHistory: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    listUserOrders: () => Effect.die("listUserOrders not expected"),
+    cancelOrder: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" }))
   })
 }
 
@@ -89,6 +184,7 @@ const createMockOrderServiceForGet = (config: {
 }) => {
   return Layer.succeed(OrderService, {
     createOrder: () => Effect.fail(new PaymentGatewayError({ reason: "not-used", isRetryable: false })),
+    completeAuthorization: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
     getOrderStatus: () => {
       if (config.shouldSucceed && config.result) {
         return Effect.succeed(config.result)
@@ -97,7 +193,86 @@ const createMockOrderServiceForGet = (config: {
         return Effect.fail(config.error)
       }
       return Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "unknown" }))
-    }
+    },
+    getOrderHistory: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    listUserOrders: () => Effect.die("listUserOrders not expected"),
+    cancelOrder: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" }))
+  })
+}
+
+// Create mock OrderService layer for GET /orders/:order_ledger_id/history
+const createMockOrderServiceForHistory = (config: {
+  result?: OrderHistoryResult
+  error?: OrderLedgerNotFoundError
+}) => {
+  return Layer.succeed(OrderService, {
+    createOrder: () => Effect.fail(new PaymentGatewayError({ reason: "not-used", isRetryable: false })),
+    completeAuthorization: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderStatus: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderHistory: () => config.result
+      ? Effect.succeed(config.result)
+      : Effect.fail(config.error ?? new OrderLedgerNotFoundError({ orderLedgerId: "unknown" })),
+    listUserOrders: () => Effect.die("listUserOrders not expected"),
+    cancelOrder: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" }))
+  })
+}
+
+// Create mock OrderService layer for POST /orders/:order_ledger_id/cancel
+const createMockOrderServiceForCancel = (config: {
+  result?: CancelOrderResult
+  error?: OrderLedgerNotFoundError | OrderNotCancellableError
+}) => {
+  return Layer.succeed(OrderService, {
+    createOrder: () => Effect.fail(new PaymentGatewayError({ reason: "not-used", isRetryable: false })),
+    completeAuthorization: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderStatus: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderHistory: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    listUserOrders: () => Effect.die("listUserOrders not expected"),
+    cancelOrder: () => config.result
+      ? Effect.succeed(config.result)
+      : Effect.fail(config.error ?? new OrderLedgerNotFoundError({ orderLedgerId: "unknown" }))
+  })
+}
+
+// Create mock OrderService layer for GET /users/:user_id/orders
+const createMockOrderServiceForUserOrders = (config: {
+  result?: UserOrdersPage
+  error?: OrdersServiceError | InvalidCursorError
+  onList?: (userId: string, options: { readonly limit: number; readonly cursor?: string }) => void
+}) => {
+  return Layer.succeed(OrderService, {
+    createOrder: () => Effect.fail(new PaymentGatewayError({ reason: "not-used", isRetryable: false })),
+    completeAuthorization: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderStatus: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderHistory: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    listUserOrders: (userId, options) => {
+      config.onList?.(userId, options)
+      return config.error
+        ? Effect.fail(config.error)
+        : Effect.succeed(config.result ?? { orders: [], nextCursor: null })
+    },
+    cancelOrder: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" }))
+  })
+}
+
+// Create mock OrderService layer for POST /orders/:order_ledger_id/authentication-callback
+const createMockOrderServiceForCallback = (config: {
+  result?: CompleteAuthorizationResult
+  error?: OrderLedgerNotFoundError | OrderNotAwaitingCustomerActionError | PaymentDeclinedError
+  onComplete?: (orderLedgerId: string, authenticationResult: string) => void
+}) => {
+  return Layer.succeed(OrderService, {
+    createOrder: () => Effect.fail(new PaymentGatewayError({ reason: "not-used", isRetryable: false })),
+    completeAuthorization: (orderLedgerId, authenticationResult) => {
+      config.onComplete?.(orderLedgerId, authenticationResult)
+      return config.result
+        ? Effect.succeed(config.result)
+        : Effect.fail(config.error ?? new OrderLedgerNotFoundError({ orderLedgerId: "unknown" }))
+    },
+    getOrderStatus: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    getOrderHistory: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" })),
+    listUserOrders: () => Effect.die("listUserOrders not expected"),
+    cancelOrder: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId: "not-used" }))
   })
 }
 
@@ -178,6 +353,53 @@ const executeGetOrderStatus = async (
   )
 }
 
+// Execute the getOrderHistory effect and extract response data
+const executeGetOrderHistory = async (
+  orderServiceLayer: Layer.Layer<OrderService>,
+  pathParams: Record<string, string>
+): Promise<{ status: number; body: GetOrderHistoryResponse }> => {
+  const program = Effect.gen(function* () {
+    const response = yield* getOrderHistory
+    const status = response.status
+    const webResponse = HttpServerResponse.toWeb(response)
+    const body = yield* Effect.promise(() => webResponse.json() as Promise<GetOrderHistoryResponse>)
+    return { status, body }
+  })
+
+  const requestLayer = createMockRequestWithPathParams(pathParams)
+
+  return program.pipe(
+    Effect.provide(orderServiceLayer),
+    Effect.provide(requestLayer),
+    Effect.runPromise
+  )
+}
+
+// Execute the listUserOrders effect with path and query params and extract response data
+const executeListUserOrders = async (
+  orderServiceLayer: Layer.Layer<OrderService>,
+  pathParams: Record<string, string>,
+  searchParams: Record<string, string> = {}
+): Promise<{ status: number; body: ListUserOrdersResponse }> => {
+  const program = Effect.gen(function* () {
+    const response = yield* listUserOrders
+    const status = response.status
+    const webResponse = HttpServerResponse.toWeb(response)
+    const body = yield* Effect.promise(() => webResponse.json() as Promise<ListUserOrdersResponse>)
+    return { status, body }
+  })
+
+  const requestLayer = createMockRequestWithPathParams(pathParams).pipe(
+    Layer.merge(Layer.succeed(HttpServerRequest.ParsedSearchParams, searchParams))
+  )
+
+  return program.pipe(
+    Effect.provide(orderServiceLayer),
+    Effect.provide(requestLayer),
+    Effect.runPromise
+  )
+}
+
 describe("POST /orders", () => {
   describe("successful order creation", () => {
     it("should return 202 with order_ledger_id when order is created successfully", async () => {
@@ -185,7 +407,8 @@ describe("POST /orders", () => {
         shouldSucceed: true,
         result: {
           orderLedgerId: "550e8400-e29b-41d4-a716-446655440099",
-          status: "AUTHORIZED"
+          status: "AUTHORIZED",
+          challengeUrl: null
         }
       })
 
@@ -200,6 +423,32 @@ describe("POST /orders", () => {
       expect(result.body.order_ledger_id).toBe("550e8400-e29b-41d4-a716-446655440099")
       expect(result.body.status).toBe("AUTHORIZED")
       expect(result.body.message).toBe("Order received, processing")
+      expect(result.body.next_action).toBeUndefined()
+    })
+
+    it("should return 202 with the challenge when the customer must authenticate", async () => {
+      const orderServiceLayer = createMockOrderService({
+        shouldSucceed: true,
+        result: {
+          orderLedgerId: "550e8400-e29b-41d4-a716-446655440099",
+          status: "AWAITING_CUSTOMER_ACTION",
+          challengeUrl: "https://3ds.example.test/challenge/auth_3ds"
+        }
+      })
+
+      const requestLayer = createMockRequest({
+        headers: { "idempotency-key": "unique-request-id-123" },
+        body: validRequestBody
+      })
+
+      const result = await executeCreateOrder(orderServiceLayer, requestLayer)
+
+      expect(result.status).toBe(202)
+      expect(result.body.status).toBe("AWAITING_CUSTOMER_ACTION")
+      expect(result.body.next_action).toEqual({
+        type: "challenge",
+        challenge_url: "https://3ds.example.test/challenge/auth_3ds"
+      })
     })
   })
 
@@ -207,7 +456,7 @@ describe("POST /orders", () => {
     it("should return 400 when Idempotency-Key header is missing", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
-        result: { orderLedgerId: "test", status: "AUTHORIZED" }
+        result: { orderLedgerId: "test", status: "AUTHORIZED", challengeUrl: null }
       })
 
       const requestLayer = createMockRequest({
@@ -227,7 +476,7 @@ describe("POST /orders", () => {
     it("should return 400 for invalid email format", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
-        result: { orderLedgerId: "test", status: "AUTHORIZED" }
+        result: { orderLedgerId: "test", status: "AUTHORIZED", challengeUrl: null }
       })
 
       const requestLayer = createMockRequest({
@@ -247,7 +496,7 @@ describe("POST /orders", () => {
     it("should return 400 for empty items array", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
-        result: { orderLedgerId: "test", status: "AUTHORIZED" }
+        result: { orderLedgerId: "test", status: "AUTHORIZED", challengeUrl: null }
       })
 
       const requestLayer = createMockRequest({
@@ -267,7 +516,7 @@ describe("POST /orders", () => {
     it("should return 400 for invalid product_id UUID", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
-        result: { orderLedgerId: "test", status: "AUTHORIZED" }
+        result: { orderLedgerId: "test", status: "AUTHORIZED", challengeUrl: null }
       })
 
       const requestLayer = createMockRequest({
@@ -287,7 +536,7 @@ describe("POST /orders", () => {
     it("should return 400 for negative quantity", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
-        result: { orderLedgerId: "test", status: "AUTHORIZED" }
+        result: { orderLedgerId: "test", status: "AUTHORIZED", challengeUrl: null }
       })
 
       const requestLayer = createMockRequest({
@@ -307,7 +556,7 @@ describe("POST /orders", () => {
     it("should return 400 for empty payment token", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
-        result: { orderLedgerId: "test", status: "AUTHORIZED" }
+        result: { orderLedgerId: "test", status: "AUTHORIZED", challengeUrl: null }
       })
 
       const requestLayer = createMockRequest({
@@ -445,13 +694,129 @@ describe("POST /orders", () => {
     })
   })
 
+  describe("catalog pricing errors", () => {
+    it("should return 422 listing unknown product IDs", async () => {
+      const orderServiceLayer = createMockOrderService({
+        shouldSucceed: false,
+        error: new ProductNotFoundError({
+          productIds: ["550e8400-e29b-41d4-a716-446655440077"]
+        })
+      })
+
+      const requestLayer = createMockRequest({
+        headers: { "idempotency-key": "unique-request-id-123" },
+        body: validRequestBody
+      })
+
+      const result = await executeCreateOrder(orderServiceLayer, requestLayer)
+
+      expect(result.status).toBe(422)
+      expect(result.body.error).toBe("unknown_products")
+      expect(result.body.product_ids).toEqual(["550e8400-e29b-41d4-a716-446655440077"])
+    })
+
+    it("should return 422 when additional payments leave nothing for the primary payment", async () => {
+      const orderServiceLayer = createMockOrderService({
+        shouldSucceed: false,
+        error: new InvalidPaymentSplitError({
+          totalAmountCents: 2000,
+          additionalAmountCents: 2500
+        })
+      })
+
+      const requestLayer = createMockRequest({
+        headers: { "idempotency-key": "unique-request-id-123" },
+        body: validRequestBody
+      })
+
+      const result = await executeCreateOrder(orderServiceLayer, requestLayer)
+
+      expect(result.status).toBe(422)
+      expect(result.body.error).toBe("invalid_payment_split")
+      expect(result.body.total_amount_cents).toBe(2000)
+      expect(result.body.additional_amount_cents).toBe(2500)
+    })
+
+    it("should return 422 when more than one payment method requires 3-D Secure", async () => {
+      const orderServiceLayer = createMockOrderService({
+        shouldSucceed: false,
+        error: new MultipleAuthenticationsRequiredError({
+          orderLedgerId: "550e8400-e29b-41d4-a716-446655440099"
+        })
+      })
+
+      const requestLayer = createMockRequest({
+        headers: { "idempotency-key": "unique-request-id-123" },
+        body: validRequestBody
+      })
+
+      const result = await executeCreateOrder(orderServiceLayer, requestLayer)
+
+      expect(result.status).toBe(422)
+      expect(result.body.error).toBe("multiple_authentications_required")
+      expect(result.body.order_ledger_id).toBe("550e8400-e29b-41d4-a716-446655440099")
+    })
+
+    it("should return 409 listing each short product when the stock pre-check fails", async () => {
+      const orderServiceLayer = createMockOrderService({
+        shouldSucceed: false,
+        error: new InsufficientStockError({
+          shortages: [{
+            productId: "550e8400-e29b-41d4-a716-446655440001",
+            sku: "SKU-001",
+            requestedQuantity: 2,
+            availableQuantity: 1
+          }]
+        })
+      })
+
+      const requestLayer = createMockRequest({
+        headers: { "idempotency-key": "unique-request-id-123" },
+        body: validRequestBody
+      })
+
+      const result = await executeCreateOrder(orderServiceLayer, requestLayer)
+
+      expect(result.status).toBe(409)
+      expect(result.body.error).toBe("insufficient_stock")
+      expect(result.body.items).toEqual([{
+        product_id: "550e8400-e29b-41d4-a716-446655440001",
+        sku: "SKU-001",
+        requested_quantity: 2,
+        available_quantity: 1
+      }])
+    })
+
+    it("should return 503 when inventory service is unavailable", async () => {
+      const orderServiceLayer = createMockOrderService({
+        shouldSucceed: false,
+        error: new InventoryServiceError({
+          reason: "Connection error",
+          isRetryable: true
+        })
+      })
+
+      const requestLayer = createMockRequest({
+        headers: { "idempotency-key": "unique-request-id-123" },
+        body: validRequestBody
+      })
+
+      const result = await executeCreateOrder(orderServiceLayer, requestLayer)
+
+      expect(result.status).toBe(503)
+      expect(result.body.error).toBe("inventory_unavailable")
+      expect(result.body.is_retryable).toBe(true)
+    })
+  })
+
   describe("response format", () => {
     it("should use snake_case keys in response body", async () => {
       const orderServiceLayer = createMockOrderService({
         shouldSucceed: true,
         result: {
           orderLedgerId: "550e8400-e29b-41d4-a716-446655440099",
-          status: "AUTHORIZED"
+          status: "AUTHORIZED",
+          challengeUrl: null
         }
       })
 
@@ -481,6 +846,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: "auth_123",
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:05.000Z",
@@ -488,7 +856,10 @@ describe("GET /orders/:order_ledger_id", () => {
             {
               productId: "550e8400-e29b-41d4-a716-446655440001",
               quantity: 2,
-              unitPriceCents: 1000
+              unitPriceCents: 1000,
+              sku: "SKU-001",
+              name: "Test Product",
+              fulfilledQuantity: null
             }
           ]
         }
@@ -509,6 +880,8 @@ describe("GET /orders/:order_ledger_id", () => {
       expect(result.body.items?.[0].product_id).toBe("550e8400-e29b-41d4-a716-446655440001")
       expect(result.body.items?.[0].quantity).toBe(2)
       expect(result.body.items?.[0].unit_price_cents).toBe(1000)
+      expect(result.body.items?.[0].sku).toBe("SKU-001")
+      expect(result.body.items?.[0].name).toBe("Test Product")
     })
 
     it("should return order with AWAITING_AUTHORIZATION status", async () => {
@@ -522,6 +895,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: null,
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:00.000Z",
@@ -549,6 +925,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: null,
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:05.000Z",
@@ -556,7 +935,10 @@ describe("GET /orders/:order_ledger_id", () => {
             {
               productId: "550e8400-e29b-41d4-a716-446655440001",
               quantity: 2,
-              unitPriceCents: 1000
+              unitPriceCents: 1000,
+              sku: "SKU-001",
+              name: "Test Product",
+              fulfilledQuantity: null
             }
           ]
         }
@@ -581,6 +963,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: "auth_123",
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:35:00.000Z",
@@ -588,7 +973,10 @@ describe("GET /orders/:order_ledger_id", () => {
             {
               productId: "550e8400-e29b-41d4-a716-446655440001",
               quantity: 2,
-              unitPriceCents: 1000
+              unitPriceCents: 1000,
+              sku: "SKU-001",
+              name: "Test Product",
+              fulfilledQuantity: null
             }
           ]
         }
@@ -632,6 +1020,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: "auth_123",
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:05.000Z",
@@ -661,6 +1052,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: "auth_123",
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:05.000Z",
@@ -668,7 +1062,10 @@ describe("GET /orders/:order_ledger_id", () => {
             {
               productId: "550e8400-e29b-41d4-a716-446655440001",
               quantity: 2,
-              unitPriceCents: 1000
+              unitPriceCents: 1000,
+              sku: "SKU-001",
+              name: "Test Product",
+              fulfilledQuantity: null
             }
           ]
         }
@@ -714,6 +1111,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 0,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: "auth_123",
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:05.000Z",
@@ -740,6 +1140,9 @@ describe("GET /orders/:order_ledger_id", () => {
           email: "customer@example.com",
           totalAmountCents: 2000,
           currency: "USD",
+          fxBaseCurrency: "USD",
+          fxRate: 1,
+          allowPartial: false,
           paymentAuthorizationId: "auth_123",
           createdAt: "2024-01-15T10:30:00.000Z",
           updatedAt: "2024-01-15T10:30:05.000Z",
@@ -759,3 +1162,383 @@ describe("GET /orders/:order_ledger_id", () => {
     })
   })
 })
+
+// Execute the cancelOrder effect and extract response data
+const executeCancelOrder = async (
+  orderServiceLayer: Layer.Layer<OrderService>,
+  pathParams: Record<string, string>
+): Promise<{ status: number; body: CancelOrderResponse }> => {
+  const program = Effect.gen(function* () {
+    const response = yield* cancelOrder
+    const status = response.status
+    const webResponse = HttpServerResponse.toWeb(response)
+    const body = yield* Effect.promise(() => webResponse.json() as Promise<CancelOrderResponse>)
+    return { status, body }
+  })
+
+  const requestLayer = createMockRequestWithPathParams(pathParams)
+
+  return program.pipe(
+    Effect.provide(orderServiceLayer),
+    Effect.provide(requestLayer),
+    Effect.runPromise
+  )
+}
+
+// Execute the authenticationCallback effect and extract response data
+const executeAuthenticationCallback = async (
+  orderServiceLayer: Layer.Layer<OrderService>,
+  pathParams: Record<string, string>,
+  body: unknown
+): Promise<{ status: number; body: CancelOrderResponse }> => {
+  const program = Effect.gen(function* () {
+    const response = yield* authenticationCallback
+    const status = response.status
+    const webResponse = HttpServerResponse.toWeb(response)
+    const responseBody = yield* Effect.promise(() => webResponse.json() as Promise<CancelOrderResponse>)
+    return { status, body: responseBody }
+  })
+
+  const requestLayer = createMockRequest({ body }).pipe(
+    Layer.merge(Layer.succeed(HttpRouter.RouteContext, {
+      params: pathParams,
+      route: { path: "/orders/:order_ledger_id/authentication-callback", method: "POST" }
+    } as unknown as HttpRouter.RouteContext))
+  )
+
+  return program.pipe(
+    Effect.provide(orderServiceLayer),
+    Effect.provide(requestLayer),
+    Effect.runPromise
+  )
+}
+
+describe("GET /orders/:order_ledger_id/history", () => {
+  const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+  it("should return 200 with the step history in snake_case", async () => {
+    const orderServiceLayer = createMockOrderServiceForHistory({
+      result: {
+        orderLedgerId: ledgerId,
+        status: "INVENTORY_RESERVED",
+        events: [
+          {
+            stepName: "create_order",
+            outcome: "SUCCEEDED",
+            fromStatus: "AUTHORIZED",
+            toStatus: "ORDER_CREATED",
+            attempt: 1,
+            errorTag: null,
+            errorReason: null,
+            durationMs: 42,
+            traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            createdAt: "2024-01-15T10:30:01.000Z"
+          },
+          {
+            stepName: "reserve_inventory",
+            outcome: "RETRY_SCHEDULED",
+            fromStatus: "ORDER_CREATED",
+            toStatus: null,
+            attempt: 1,
+            errorTag: "ServiceConnectionError",
+            errorReason: "connect ECONNREFUSED",
+            durationMs: 5003,
+            traceId: null,
+            createdAt: "2024-01-15T10:30:06.000Z"
+          }
+        ]
+      }
+    })
+
+    const result = await executeGetOrderHistory(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(200)
+    expect(result.body.order_ledger_id).toBe(ledgerId)
+    expect(result.body.status).toBe("INVENTORY_RESERVED")
+    expect(result.body.events).toHaveLength(2)
+    expect(result.body.events![0]).toEqual({
+      step_name: "create_order",
+      outcome: "SUCCEEDED",
+      from_status: "AUTHORIZED",
+      to_status: "ORDER_CREATED",
+      attempt: 1,
+      error_tag: null,
+      error_reason: null,
+      duration_ms: 42,
+      trace_id: "4bf92f3577b34da6a3ce929d0e0e4736",
+      created_at: "2024-01-15T10:30:01.000Z"
+    })
+    expect(result.body.events![1].error_tag).toBe("ServiceConnectionError")
+    expect(result.body.events![1].to_status).toBeNull()
+  })
+
+  it("should return an empty history for an order the saga has not picked up", async () => {
+    const orderServiceLayer = createMockOrderServiceForHistory({
+      result: { orderLedgerId: ledgerId, status: "AUTHORIZED", events: [] }
+    })
+
+    const result = await executeGetOrderHistory(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(200)
+    expect(result.body.events).toEqual([])
+  })
+
+  it("should return 404 for non-existent order_ledger_id", async () => {
+    const orderServiceLayer = createMockOrderServiceForHistory({
+      error: new OrderLedgerNotFoundError({ orderLedgerId: ledgerId })
+    })
+
+    const result = await executeGetOrderHistory(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(404)
+    expect(result.body.error).toBe("not_found")
+  })
+
+  it("should return 400 for invalid UUID format", async () => {
+    const orderServiceLayer = createMockOrderServiceForHistory({})
+
+    const result = await executeGetOrderHistory(orderServiceLayer, { order_ledger_id: "not-a-uuid" })
+
+    expect(result.status).toBe(400)
+    expect(result.body.error).toBe("validation_error")
+  })
+})
+
+describe("GET /users/:user_id/orders", () => {
+  const userId = "550e8400-e29b-41d4-a716-446655440000"
+  const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+  it("should return 200 with the user's orders in snake_case", async () => {
+    let captured: { userId: string; options: { readonly limit: number; readonly cursor?: string } } | undefined
+    const orderServiceLayer = createMockOrderServiceForUserOrders({
+      result: {
+        orders: [{
+          orderLedgerId: ledgerId,
+          status: "COMPLETED",
+          customerStatus: "confirmed",
+          totalAmountCents: 2000,
+          currency: "USD",
+          createdAt: "2024-01-15T10:30:00.000Z",
+          updatedAt: "2024-01-15T10:31:00.000Z",
+          items: [{ productId: "550e8400-e29b-41d4-a716-446655440001", quantity: 2, unitPriceCents: 1000, sku: "SKU-001", name: "Test Product", fulfilledQuantity: null }],
+          order: {
+            orderId: "550e8400-e29b-41d4-a716-446655440300",
+            status: "CONFIRMED",
+            items: [{ productId: "550e8400-e29b-41d4-a716-446655440001", quantity: 2, unitPriceCents: 1000 }]
+          }
+        }],
+        nextCursor: ledgerId
+      },
+      onList: (userId, options) => { captured = { userId, options } }
+    })
+
+    const result = await executeListUserOrders(orderServiceLayer, { user_id: userId }, { limit: "1" })
+
+    expect(result.status).toBe(200)
+    expect(captured).toEqual({ userId, options: { limit: 1, cursor: undefined } })
+    expect(result.body.orders![0]).toEqual({
+      order_ledger_id: ledgerId,
+      status: "COMPLETED",
+      customer_status: "confirmed",
+      total_amount_cents: 2000,
+      currency: "USD",
+      created_at: "2024-01-15T10:30:00.000Z",
+      updated_at: "2024-01-15T10:31:00.000Z",
+      items: [{ product_id: "550e8400-e29b-41d4-a716-446655440001", quantity: 2, unit_price_cents: 1000, sku: "SKU-001", name: "Test Product", fulfilled_quantity: null }],
+      order: {
+        order_id: "550e8400-e29b-41d4-a716-446655440300",
+        status: "CONFIRMED",
+        items: [{ product_id: "550e8400-e29b-41d4-a716-446655440001", quantity: 2, unit_price_cents: 1000 }]
+      }
+    })
+    expect(result.body.next_cursor).toBe(ledgerId)
+  })
+
+  it("should default the page size and pass the cursor through", async () => {
+    let capturedOptions: { readonly limit: number; readonly cursor?: string } | undefined
+    const orderServiceLayer = createMockOrderServiceForUserOrders({
+      onList: (_userId, options) => { capturedOptions = options }
+    })
+
+    const result = await executeListUserOrders(orderServiceLayer, { user_id: userId }, { cursor: ledgerId })
+
+    expect(result.status).toBe(200)
+    expect(capturedOptions).toEqual({ limit: 10, cursor: ledgerId })
+    expect(result.body).toEqual({ orders: [], next_cursor: null })
+  })
+
+  it("should return 400 for a limit above 50", async () => {
+    const orderServiceLayer = createMockOrderServiceForUserOrders({})
+
+    const result = await executeListUserOrders(orderServiceLayer, { user_id: userId }, { limit: "51" })
+
+    expect(result.status).toBe(400)
+    expect(result.body.error).toBe("validation_error")
+  })
+
+  it("should return 400 for invalid user_id format", async () => {
+    const orderServiceLayer = createMockOrderServiceForUserOrders({})
+
+    const result = await executeListUserOrders(orderServiceLayer, { user_id: "not-a-uuid" })
+
+    expect(result.status).toBe(400)
+    expect(result.body.error).toBe("validation_error")
+  })
+
+  it("should return 503 when the orders service is unavailable", async () => {
+    const orderServiceLayer = createMockOrderServiceForUserOrders({
+      error: new OrdersServiceError({ reason: "Connection error", isRetryable: true })
+    })
+
+    const result = await executeListUserOrders(orderServiceLayer, { user_id: userId })
+
+    expect(result.status).toBe(503)
+    expect(result.body.error).toBe("orders_unavailable")
+    expect(result.body.is_retryable).toBe(true)
+  })
+  it("should return 400 for a cursor that is not one of the user's orders", async () => {
+    const orderServiceLayer = createMockOrderServiceForUserOrders({
+      error: new InvalidCursorError({ cursor: ledgerId })
+    })
+
+    const result = await executeListUserOrders(orderServiceLayer, { user_id: userId }, { cursor: ledgerId })
+
+    expect(result.status).toBe(400)
+    expect(result.body.error).toBe("validation_error")
+  })
+})
+
+describe("POST /orders/:order_ledger_id/cancel", () => {
+  const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+  it("should return 202 with CANCELLATION_REQUESTED", async () => {
+    const orderServiceLayer = createMockOrderServiceForCancel({
+      result: { orderLedgerId: ledgerId, status: "CANCELLATION_REQUESTED" }
+    })
+
+    const result = await executeCancelOrder(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(202)
+    expect(result.body).toEqual({
+      order_ledger_id: ledgerId,
+      status: "CANCELLATION_REQUESTED",
+      message: "Cancellation requested"
+    })
+  })
+
+  it("should return 202 for an order that is already cancelled", async () => {
+    const orderServiceLayer = createMockOrderServiceForCancel({
+      result: { orderLedgerId: ledgerId, status: "CANCELLED" }
+    })
+
+    const result = await executeCancelOrder(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(202)
+    expect(result.body.status).toBe("CANCELLED")
+    expect(result.body.message).toBe("Order already cancelled")
+  })
+
+  it("should return 409 when the order cannot be cancelled", async () => {
+    const orderServiceLayer = createMockOrderServiceForCancel({
+      error: new OrderNotCancellableError({ orderLedgerId: ledgerId, status: "FAILED" })
+    })
+
+    const result = await executeCancelOrder(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(409)
+    expect(result.body.error).toBe("order_not_cancellable")
+    expect(result.body.status).toBe("FAILED")
+  })
+
+  it("should return 404 for non-existent order_ledger_id", async () => {
+    const orderServiceLayer = createMockOrderServiceForCancel({
+      error: new OrderLedgerNotFoundError({ orderLedgerId: ledgerId })
+    })
+
+    const result = await executeCancelOrder(orderServiceLayer, { order_ledger_id: ledgerId })
+
+    expect(result.status).toBe(404)
+    expect(result.body.error).toBe("not_found")
+  })
+
+  it("should return 400 for invalid UUID format", async () => {
+    const orderServiceLayer = createMockOrderServiceForCancel({})
+
+    const result = await executeCancelOrder(orderServiceLayer, { order_ledger_id: "not-a-uuid" })
+
+    expect(result.status).toBe(400)
+    expect(result.body.error).toBe("validation_error")
+  })
+})
+
+describe("POST /orders/:order_ledger_id/authentication-callback", () => {
+  const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+  it("should return 202 with AUTHORIZED once authentication succeeds", async () => {
+    const calls: Array<{ orderLedgerId: string; authenticationResult: string }> = []
+    const orderServiceLayer = createMockOrderServiceForCallback({
+      result: { orderLedgerId: ledgerId, status: "AUTHORIZED" },
+      onComplete: (orderLedgerId, authenticationResult) => calls.push({ orderLedgerId, authenticationResult })
+    })
+
+    const result = await executeAuthenticationCallback(
+      orderServiceLayer,
+      { order_ledger_id: ledgerId },
+      { authentication_result: "succeeded" }
+    )
+
+    expect(result.status).toBe(202)
+    expect(result.body.status).toBe("AUTHORIZED")
+    expect(calls).toEqual([{ orderLedgerId: ledgerId, authenticationResult: "succeeded" }])
+  })
+
+  it("should return 402 when authentication fails", async () => {
+    const orderServiceLayer = createMockOrderServiceForCallback({
+      error: new PaymentDeclinedError({
+        userId: "550e8400-e29b-41d4-a716-446655440000",
+        amountCents: 2000,
+        declineCode: "authentication_failed",
+        reason: "Customer authentication failed",
+        isRetryable: false
+      })
+    })
+
+    const result = await executeAuthenticationCallback(
+      orderServiceLayer,
+      { order_ledger_id: ledgerId },
+      { authentication_result: "failed" }
+    )
+
+    expect(result.status).toBe(402)
+    expect(result.body.error).toBe("payment_declined")
+  })
+
+  it("should return 409 when the order is not awaiting customer action", async () => {
+    const orderServiceLayer = createMockOrderServiceForCallback({
+      error: new OrderNotAwaitingCustomerActionError({ orderLedgerId: ledgerId, status: "AUTHORIZATION_FAILED" })
+    })
+
+    const result = await executeAuthenticationCallback(
+      orderServiceLayer,
+      { order_ledger_id: ledgerId },
+      { authentication_result: "succeeded" }
+    )
+
+    expect(result.status).toBe(409)
+    expect(result.body.error).toBe("order_not_awaiting_customer_action")
+    expect(result.body.status).toBe("AUTHORIZATION_FAILED")
+  })
+
+  it("should return 400 for an unknown authentication result", async () => {
+    const orderServiceLayer = createMockOrderServiceForCallback({})
+
+    const result = await executeAuthenticationCallback(
+      orderServiceLayer,
+      { order_ledger_id: ledgerId },
+      { authentication_result: "maybe" }
+    )
+
+    expect(result.status).toBe(400)
+    expect(result.body.error).toBe("validation_error")
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest"
 import { Schema, Either } from "effect"
-import { CreateOrderRequest, OrderItemRequest, PaymentInfo } from "../../domain/OrderLedger.js"
+import { CreateOrderRequest, CustomerOrderStatus, OrderItemRequest, OrderLedgerStatus, PaymentInfo, customerStatusFor } from "../../domain/OrderLedger.js"
 
 const validOrderRequest = {
   user_id: "550e8400-e29b-41d4-a716-446655440000",
@@ -90,6 +90,13 @@ describe("PaymentInfo schema", () => {
     expect(Either.isRight(result)).toBe(true)
   })
 
+  it("should accept the split-tender payment methods", () => {
+    for (const method of ["wallet", "store_credit", "gift_card"]) {
+      const result = Schema.decodeUnknownEither(PaymentInfo)({ method, token: "tok_test_123" })
+      expect(Either.isRight(result)).toBe(true)
+    }
+  })
+
   it("should reject invalid payment method", () => {
     const payment = {
       method: "paypal",
@@ -181,6 +188,44 @@ describe("CreateOrderRequest schema", () => {
     expect(Either.isRight(result)).toBe(true)
   })
 
+  it("should accept additional payments for a split-tender order", () => {
+    const request = {
+      ...validOrderRequest,
+      additional_payments: [{ method: "gift_card", token: "gc_test_123", amount_cents: 500 }]
+    }
+
+    const result = Schema.decodeUnknownEither(CreateOrderRequest)(request)
+    expect(Either.isRight(result)).toBe(true)
+  })
+
+  it("should default the order currency to USD", () => {
+    const result = Schema.decodeUnknownEither(CreateOrderRequest)(validOrderRequest)
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right.currency).toBe("USD")
+    }
+  })
+
+  it("should reject an order in an unsupported currency", () => {
+    const request = {
+      ...validOrderRequest,
+      currency: "JPY"
+    }
+
+    const result = Schema.decodeUnknownEither(CreateOrderRequest)(request)
+    expect(Either.isLeft(result)).toBe(true)
+  })
+
+  it("should reject an additional payment without a positive amount", () => {
+    const request = {
+      ...validOrderRequest,
+      additional_payments: [{ method: "gift_card", token: "gc_test_123", amount_cents: 0 }]
+    }
+
+    const result = Schema.decodeUnknownEither(CreateOrderRequest)(request)
+    expect(Either.isLeft(result)).toBe(true)
+  })
+
   it("should reject order with more than 50 items", () => {
     const items = Array.from({ length: 51 }, () => ({
       product_id: "550e8400-e29b-41d4-a716-446655440001",
@@ -211,3 +256,24 @@ describe("CreateOrderRequest schema", () => {
     expect(Either.isRight(result)).toBe(true)
   })
 })
+
+describe("customerStatusFor", () => {
+  it("should map every ledger status to a customer status", () => {
+    for (const status of OrderLedgerStatus.literals) {
+      expect(CustomerOrderStatus.literals).toContain(customerStatusFor(status))
+    }
+  })
+
+  it("should keep failed payments apart from failed fulfilment", () => {
+    expect(customerStatusFor("AUTHORIZATION_FAILED")).toBe("payment_failed")
+    expect(customerStatusFor("FAILED")).toBe("failed")
+    expect(customerStatusFor("COMPENSATION_FAILED")).toBe("failed")
+  })
+
+  it("should report in-flight saga steps as processing", () => {
+    expect(customerStatusFor("AUTHORIZED")).toBe("processing")
+    expect(customerStatusFor("INVENTORY_RESERVED")).toBe("processing")
+    expect(customerStatusFor("AWAITING_CUSTOMER_ACTION")).toBe("action_required")
+    expect(customerStatusFor("COMPLETED")).toBe("confirmed")
+  })
+})
@@ -1,11 +1,13 @@
 import { describe, it, expect, beforeAll } from "vitest"
-import { Effect, Layer, Option, DateTime, Schema } from "effect"
+import { Effect, Layer, Option, DateTime, Schema, ConfigProvider } from "effect"
 import { OrderServiceLive } from "../../services/OrderServiceLive.js"
 import { OrderService } from "../../services/OrderService.js"
-import { OrderLedgerRepository } from "../../repositories/OrderLedgerRepository.js"
-import { PaymentClient, type AuthorizePaymentResult } from "../../services/PaymentClient.js"
-import { CreateOrderRequest, OrderLedger, OrderLedgerItem, type OrderLedgerId, type UserId, type ProductId } from "../../domain/OrderLedger.js"
-import { DuplicateRequestError, PaymentDeclinedError, PaymentGatewayError, OrderLedgerNotFoundError } from "../../domain/errors.js"
+import { OrderLedgerRepository, type CreateOrderLedgerParams, type FindByUserIdOptions } from "../../repositories/OrderLedgerRepository.js"
+import { PaymentClient, type AuthorizePaymentParams, type AuthorizePaymentResult, type CompleteAuthenticationParams } from "../../services/PaymentClient.js"
+import { InventoryClient, type ProductPrice, type ProductStock } from "../../services/InventoryClient.js"
+import { OrdersClient, type DownstreamOrder } from "../../services/OrdersClient.js"
+import { CreateOrderRequest, OrderLedger, OrderLedgerItem, OrderLedgerPayment, SagaStepEvent, type OrderLedgerId, type OrderLedgerPaymentStatus, type PaymentMethod, type UserId, type ProductId } from "../../domain/OrderLedger.js"
+import { DuplicateRequestError, PaymentDeclinedError, PaymentGatewayError, OrderLedgerNotFoundError, ProductNotFoundError, InsufficientStockError, InventoryServiceError, OrdersServiceError, type InvalidCursorError, type InvalidPaymentSplitError } from "../../domain/errors.js"
 
 // Valid order request data
 const validRequestData = {
@@ -48,6 +50,10 @@ const createMockOrderLedger = (overrides?: Partial<{
     status: (overrides?.status ?? "AWAITING_AUTHORIZATION") as "AWAITING_AUTHORIZATION" | "AUTHORIZED" | "AUTHORIZATION_FAILED",
     totalAmountCents: 2000,
     currency: "USD",
+    fxBaseCurrency: "USD",
+    fxRate: 1,
+    shippingDestination: null,
+    allowPartial: false,
     paymentAuthorizationId: overrides?.paymentAuthorizationId ?? null,
     createdAt: now,
     updatedAt: now
@@ -67,10 +73,37 @@ const createMockOrderLedgerItem = (overrides?: Partial<{
     productId: (overrides?.productId ?? "550e8400-e29b-41d4-a716-446655440001") as ProductId,
     quantity: overrides?.quantity ?? 2,
     unitPriceCents: overrides?.unitPriceCents ?? 1000,
+    productSku: "SKU-001",
+    productName: "Test Product",
+    fulfilledQuantity: null,
     createdAt: now
   })
 }
 
+// Create mock OrderLedgerPayment for testing
+const createMockOrderLedgerPayment = (overrides?: Partial<{
+  id: string
+  sequence: number
+  method: PaymentMethod
+  amountCents: number
+  status: OrderLedgerPaymentStatus
+  paymentAuthorizationId: string | null
+}>): OrderLedgerPayment => {
+  const sequence = overrides?.sequence ?? 0
+  return new OrderLedgerPayment({
+    id: overrides?.id ?? `550e8400-e29b-41d4-a716-4466554402${String(sequence).padStart(2, "0")}`,
+    orderLedgerId: "550e8400-e29b-41d4-a716-446655440099" as OrderLedgerId,
+    sequence,
+    method: overrides?.method ?? "card",
+    amountCents: overrides?.amountCents ?? 2000,
+    currency: "USD",
+    status: overrides?.status ?? "PENDING",
+    paymentAuthorizationId: overrides?.paymentAuthorizationId ?? null,
+    paymentCaptureId: null,
+    createdAt: DateTime.unsafeNow()
+  })
+}
+
 // Create mock repository layer
 const createMockRepository = (config: {
   findResult: Option.Option<OrderLedger>
@@ -79,16 +112,38 @@ const createMockRepository = (config: {
   shouldFailOnCreate?: boolean
   shouldFailOnUpdate?: boolean
   findByIdWithItemsResult?: Option.Option<{ ledger: OrderLedger; items: ReadonlyArray<OrderLedgerItem> }>
+  stepEvents?: ReadonlyArray<SagaStepEvent>
+  cancellationResult?: Option.Option<OrderLedger>
+  cancellationRequests?: Array<{ orderLedgerId: string; expectedStatus: string; postCompletion: boolean }>
+  customerActionResult?: Option.Option<OrderLedger>
+  customerActionCompletions?: Array<string>
+  authorizationFailures?: Array<string>
+  payments?: ReadonlyArray<OrderLedgerPayment>
+  createdPayments?: Array<{ sequence: number; method: string; amountCents: number }>
+  paymentUpdates?: Array<{ paymentId: string; status: OrderLedgerPaymentStatus; paymentAuthorizationId: string | null }>
+  createdLedgers?: Array<CreateOrderLedgerParams>
+  userLedgers?: ReadonlyArray<{ ledger: OrderLedger; items: ReadonlyArray<OrderLedgerItem> }>
+  userLedgerQueries?: Array<FindByUserIdOptions>
 }) => {
   return Layer.succeed(OrderLedgerRepository, {
     findByClientRequestId: () => Effect.succeed(config.findResult),
-    create: () => {
+    create: (params) => {
+      config.createdLedgers?.push(params)
       if (config.shouldFailOnCreate) {
         return Effect.die(new Error("Create failed"))
       }
       return Effect.succeed(config.createResult ?? createMockOrderLedger())
     },
     createItems: () => Effect.succeed([]),
+    createPayments: (payments) => {
+      config.createdPayments?.push(...payments.map(({ sequence, method, amountCents }) => ({ sequence, method, amountCents })))
+      return Effect.succeed(payments.map((payment) => createMockOrderLedgerPayment(payment)))
+    },
+    updatePaymentStatus: (paymentId, status, paymentAuthorizationId) => {
+      config.paymentUpdates?.push({ paymentId, status, paymentAuthorizationId })
+      return Effect.succeed(createMockOrderLedgerPayment({ id: paymentId, status, paymentAuthorizationId }))
+    },
+    findPayments: () => Effect.succeed(config.payments ?? []),
     updateWithAuthorizationAndOutbox: () => {
       if (config.shouldFailOnUpdate) {
         return Effect.die(new Error("Update failed"))
@@ -98,10 +153,35 @@ const createMockRepository = (config: {
         paymentAuthorizationId: "auth_123"
       }))
     },
-    markAuthorizationFailed: () => Effect.succeed(createMockOrderLedger({
-      status: "AUTHORIZATION_FAILED"
+    markAwaitingCustomerAction: (orderLedgerId, paymentAuthorizationId) => Effect.succeed(createMockOrderLedger({
+      id: orderLedgerId,
+      status: "AWAITING_CUSTOMER_ACTION",
+      paymentAuthorizationId
     })),
-    findByIdWithItems: () => Effect.succeed(config.findByIdWithItemsResult ?? Option.none())
+    completeCustomerActionWithOutbox: (orderLedgerId) => {
+      config.customerActionCompletions?.push(orderLedgerId)
+      return Effect.succeed(config.customerActionResult ?? Option.none())
+    },
+    markAuthorizationFailed: (orderLedgerId) => {
+      config.authorizationFailures?.push(orderLedgerId)
+      return Effect.succeed(createMockOrderLedger({
+        status: "AUTHORIZATION_FAILED"
+      }))
+    },
+    findByIdWithItems: () => Effect.succeed(config.findByIdWithItemsResult ?? Option.none()),
+    findByUserIdWithItems: (_userId, options) => {
+      config.userLedgerQueries?.push(options)
+      return Effect.succeed((config.userLedgers ?? []).slice(0, options.limit))
+    },
+    findStepEvents: () => Effect.succeed(config.stepEvents ?? []),
+    requestCancellation: (orderLedgerId, expectedStatus) => {
+      config.cancellationRequests?.push({ orderLedgerId, expectedStatus, postCompletion: false })
+      return Effect.succeed(config.cancellationResult ?? Option.none())
+    },
+    requestPostCompletionCancellation: (orderLedgerId) => {
+      config.cancellationRequests?.push({ orderLedgerId, expectedStatus: "COMPLETED", postCompletion: true })
+      return Effect.succeed(config.cancellationResult ?? Option.none())
+    }
   })
 }
 
@@ -110,9 +190,19 @@ const createMockPaymentClient = (config: {
   shouldSucceed: boolean
   result?: AuthorizePaymentResult
   error?: PaymentDeclinedError | PaymentGatewayError
+  completeAuthentication?: (
+    params: CompleteAuthenticationParams
+  ) => Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError>
+  authorize?: (
+    params: AuthorizePaymentParams
+  ) => Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError>
+  voids?: Array<string>
 }) => {
   return Layer.succeed(PaymentClient, {
-    authorize: () => {
+    authorize: (params) => {
+      if (config.authorize) {
+        return config.authorize(params)
+      }
       if (config.shouldSucceed && config.result) {
         return Effect.succeed(config.result)
       }
@@ -123,10 +213,79 @@ const createMockPaymentClient = (config: {
         reason: "Mock error",
         isRetryable: false
       }))
+    },
+    completeAuthentication: (params) =>
+      config.completeAuthentication?.(params) ?? Effect.die("completeAuthentication not expected"),
+    voidAuthorization: (params) => {
+      config.voids?.push(params.authorizationId)
+      return Effect.void
+    }
+  })
+}
+
+// Catalog prices returned by the mock inventory client
+const defaultPrices: ReadonlyArray<ProductPrice> = [
+  { productId: "550e8400-e29b-41d4-a716-446655440001", sku: "SKU-001", name: "Test Product", priceCents: 1000 },
+  { productId: "550e8400-e29b-41d4-a716-446655440002", sku: "SKU-002", name: "Other Product", priceCents: 2500 }
+]
+
+// Stock levels returned by the mock inventory client
+const defaultStock: ReadonlyArray<ProductStock> = [
+  { productId: "550e8400-e29b-41d4-a716-446655440001", sku: "SKU-001", stockQuantity: 100, backorderableQuantity: 0 },
+  { productId: "550e8400-e29b-41d4-a716-446655440002", sku: "SKU-002", stockQuantity: 1, backorderableQuantity: 0 }
+]
+
+// Create mock inventory client layer - returns the catalog entries matching the requested IDs
+const createMockInventoryClient = (config: {
+  prices?: ReadonlyArray<ProductPrice>
+  stock?: ReadonlyArray<ProductStock>
+  fxRate?: number
+  error?: InventoryServiceError
+  onGetAvailabilities?: () => void
+} = {}) => {
+  return Layer.succeed(InventoryClient, {
+    getProductPrices: (productIds, currency) => {
+      if (config.error) {
+        return Effect.fail(config.error)
+      }
+      const prices = config.prices ?? defaultPrices
+      return Effect.succeed({
+        currency,
+        baseCurrency: "USD",
+        fxRate: config.fxRate ?? 1,
+        prices: prices.filter((price) => productIds.includes(price.productId))
+      })
+    },
+    getAvailabilities: (productIds) => {
+      config.onGetAvailabilities?.()
+      const stock = config.stock ?? defaultStock
+      return Effect.succeed(stock.filter((entry) => productIds.includes(entry.productId)))
     }
   })
 }
 
+// Create mock orders client layer - returns the downstream orders matching the requested ledger IDs
+const createMockOrdersClient = (config: {
+  orders?: ReadonlyArray<DownstreamOrder>
+  error?: OrdersServiceError
+  requestedLedgerIds?: Array<ReadonlyArray<string>>
+} = {}) => {
+  return Layer.succeed(OrdersClient, {
+    findByLedgerIds: (orderLedgerIds) => {
+      config.requestedLedgerIds?.push(orderLedgerIds)
+      if (config.error) {
+        return Effect.fail(config.error)
+      }
+      return Effect.succeed((config.orders ?? []).filter((order) => orderLedgerIds.includes(order.orderLedgerId)))
+    }
+  })
+}
+
+// Config provider that switches on the synchronous stock pre-check
+const stockPrecheckConfig = Layer.setConfigProvider(
+  ConfigProvider.fromMap(new Map([["STOCK_PRECHECK_ENABLED", "true"]]))
+)
+
 describe("OrderService", () => {
   describe("createOrder", () => {
     describe("happy path", () => {
@@ -148,13 +307,16 @@ describe("OrderService", () => {
             status: "AUTHORIZED",
             amountCents: 2000,
             currency: "USD",
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
           }
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -190,13 +352,16 @@ describe("OrderService", () => {
             status: "AUTHORIZED",
             amountCents: 2000,
             currency: "USD",
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
           }
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -240,7 +405,9 @@ describe("OrderService", () => {
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -265,6 +432,44 @@ describe("OrderService", () => {
       })
     })
 
+    describe("3-D Secure", () => {
+      it("should wait for the customer without writing the outbox event when payment requires action", async () => {
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          createResult: createMockOrderLedger(),
+          // The OrderAuthorized outbox write must not happen yet
+          shouldFailOnUpdate: true
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          result: {
+            authorizationId: "auth_3ds",
+            status: "REQUIRES_ACTION",
+            amountCents: 2000,
+            currency: "USD",
+            createdAt: new Date().toISOString(),
+            challengeUrl: "https://3ds.example.test/challenge/auth_3ds"
+          }
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", validRequest)
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(result.status).toBe("AWAITING_CUSTOMER_ACTION")
+        expect(result.challengeUrl).toBe("https://3ds.example.test/challenge/auth_3ds")
+      })
+    })
+
     describe("payment gateway errors", () => {
       it("should fail with PaymentGatewayError when payment service is unavailable", async () => {
         const repositoryLayer = createMockRepository({
@@ -282,7 +487,9 @@ describe("OrderService", () => {
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -306,6 +513,323 @@ describe("OrderService", () => {
       })
     })
 
+    describe("split tender", () => {
+      const splitRequestData = {
+        ...validRequestData,
+        additional_payments: [{ method: "gift_card", token: "gc_test_500", amount_cents: 500 }]
+      }
+
+      const authorizedFor = (params: AuthorizePaymentParams): AuthorizePaymentResult => ({
+        authorizationId: `auth_${params.paymentToken}`,
+        status: "AUTHORIZED",
+        amountCents: params.amountCents,
+        currency: params.currency,
+        createdAt: new Date().toISOString(),
+        challengeUrl: null
+      })
+
+      it("should authorize additional payments first and the primary payment for the remainder", async () => {
+        const authorizeCalls: Array<AuthorizePaymentParams> = []
+        const createdPayments: Array<{ sequence: number; method: string; amountCents: number }> = []
+
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          createResult: createMockOrderLedger(),
+          createdPayments
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          authorize: (params) => {
+            authorizeCalls.push(params)
+            return Effect.succeed(authorizedFor(params))
+          }
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest(splitRequestData))
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(result.status).toBe("AUTHORIZED")
+        expect(createdPayments).toEqual([
+          { sequence: 0, method: "gift_card", amountCents: 500 },
+          { sequence: 1, method: "card", amountCents: 1500 }
+        ])
+        expect(authorizeCalls.map((call) => [call.paymentMethod, call.amountCents, call.idempotencyKey])).toEqual([
+          ["gift_card", 500, "unique-request-id-123"],
+          ["card", 1500, "unique-request-id-123-1"]
+        ])
+      })
+
+      it("should void earlier holds and mark the declined instrument when a later one is declined", async () => {
+        const voids: Array<string> = []
+        const failures: Array<string> = []
+        const paymentUpdates: Array<{ paymentId: string; status: OrderLedgerPaymentStatus; paymentAuthorizationId: string | null }> = []
+
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          createResult: createMockOrderLedger(),
+          authorizationFailures: failures,
+          paymentUpdates
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          voids,
+          authorize: (params) =>
+            params.paymentMethod === "card"
+              ? Effect.fail(new PaymentDeclinedError({
+                  userId: params.userId,
+                  amountCents: params.amountCents,
+                  declineCode: "insufficient_funds",
+                  reason: "Card has insufficient funds",
+                  isRetryable: false
+                }))
+              : Effect.succeed(authorizedFor(params))
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest(splitRequestData))
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("PaymentDeclinedError")
+        }
+        expect(voids).toEqual(["auth_gc_test_500"])
+        expect(paymentUpdates.map((update) => update.status)).toEqual(["AUTHORIZED", "VOIDED", "DECLINED"])
+        expect(failures).toHaveLength(1)
+      })
+
+      it("should void every hold and fail when more than one instrument requires 3-D Secure", async () => {
+        const voids: Array<string> = []
+        const failures: Array<string> = []
+
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          createResult: createMockOrderLedger(),
+          authorizationFailures: failures
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          voids,
+          authorize: (params) =>
+            Effect.succeed({
+              ...authorizedFor(params),
+              status: "REQUIRES_ACTION",
+              challengeUrl: `https://3ds.example.test/challenge/auth_${params.paymentToken}`
+            })
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest(splitRequestData))
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("MultipleAuthenticationsRequiredError")
+        }
+        expect(voids).toEqual(["auth_tok_test_123", "auth_gc_test_500"])
+        expect(failures).toHaveLength(1)
+      })
+
+      it("should fail with InvalidPaymentSplitError before creating a ledger when additional payments cover the total", async () => {
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          shouldFailOnCreate: true
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const request = parseRequest({
+          ...validRequestData,
+          additional_payments: [{ method: "store_credit", token: "sc_test", amount_cents: 2000 }]
+        })
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", request)
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("InvalidPaymentSplitError")
+          const error = result.left as InvalidPaymentSplitError
+          expect(error.totalAmountCents).toBe(2000)
+          expect(error.additionalAmountCents).toBe(2000)
+        }
+      })
+    })
+
+    describe("currency", () => {
+      it("should price, record and authorize the order in the requested currency", async () => {
+        const createdLedgers: Array<CreateOrderLedgerParams> = []
+        const authorizeCalls: Array<AuthorizePaymentParams> = []
+
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          createResult: createMockOrderLedger(),
+          createdLedgers
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          authorize: (params) => {
+            authorizeCalls.push(params)
+            return Effect.succeed({
+              authorizationId: "auth_123",
+              status: "AUTHORIZED",
+              amountCents: params.amountCents,
+              currency: params.currency,
+              createdAt: new Date().toISOString(),
+              challengeUrl: null
+            })
+          }
+        })
+
+        // The mock quotes the catalog prices as-is; the rate is only snapshotted
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient({ fxRate: 0.92 })),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest({ ...validRequestData, currency: "EUR" }))
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(createdLedgers).toHaveLength(1)
+        expect(createdLedgers[0].currency).toBe("EUR")
+        expect(createdLedgers[0].fxBaseCurrency).toBe("USD")
+        expect(createdLedgers[0].fxRate).toBe(0.92)
+        expect(authorizeCalls.map((call) => call.currency)).toEqual(["EUR"])
+      })
+
+      it("should void the hold and fail when the authorization comes back in another currency", async () => {
+        const voids: Array<string> = []
+        const failures: Array<string> = []
+
+        const repositoryLayer = createMockRepository({
+          findResult: Option.none(),
+          createResult: createMockOrderLedger(),
+          authorizationFailures: failures
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          voids,
+          authorize: (params) =>
+            Effect.succeed({
+              authorizationId: "auth_123",
+              status: "AUTHORIZED",
+              amountCents: params.amountCents,
+              currency: "USD",
+              createdAt: new Date().toISOString(),
+              challengeUrl: null
+            })
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest({ ...validRequestData, currency: "GBP" }))
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("PaymentGatewayError")
+          expect((result.left as PaymentGatewayError).isRetryable).toBe(false)
+        }
+        expect(voids).toEqual(["auth_123"])
+        expect(failures).toHaveLength(1)
+      })
+    })
+
+    describe("shipping destination", () => {
+      it("should record the shipping destination on the ledger, or null when none is given", async () => {
+        const createdLedgers: Array<CreateOrderLedgerParams> = []
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(createMockRepository({
+            findResult: Option.none(),
+            createResult: createMockOrderLedger(),
+            createdLedgers
+          })),
+          Layer.provide(createMockPaymentClient({
+            shouldSucceed: true,
+            result: {
+              authorizationId: "auth_123",
+              status: "AUTHORIZED",
+              amountCents: 2000,
+              currency: "USD",
+              createdAt: new Date().toISOString(),
+              challengeUrl: null
+            }
+          })),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        await Effect.gen(function* () {
+          const service = yield* OrderService
+          yield* service.createOrder("request-with-destination", parseRequest({
+            ...validRequestData,
+            shipping_destination: { latitude: 55.8642, longitude: -4.2518 }
+          }))
+          yield* service.createOrder("request-without-destination", validRequest)
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(createdLedgers).toHaveLength(2)
+        expect(createdLedgers[0].shippingDestination).toEqual({ latitude: 55.8642, longitude: -4.2518 })
+        expect(createdLedgers[1].shippingDestination).toBeNull()
+      })
+
+      it("should reject coordinates out of range", () => {
+        expect(() => parseRequest({
+          ...validRequestData,
+          shipping_destination: { latitude: 91, longitude: 0 }
+        })).toThrow()
+      })
+    })
+
     describe("total amount calculation", () => {
       it("should calculate total based on item quantities", async () => {
         let capturedAmount = 0
@@ -325,14 +849,19 @@ describe("OrderService", () => {
               status: "AUTHORIZED" as const,
               amountCents: params.amountCents,
               currency: params.currency,
-              createdAt: new Date().toISOString()
+              createdAt: new Date().toISOString(),
+              challengeUrl: null
             })
-          }
+          },
+          completeAuthentication: () => Effect.die("completeAuthentication not expected"),
+          voidAuthorization: () => Effect.die("voidAuthorization not expected")
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const requestWithMultipleItems = parseRequest({
@@ -355,8 +884,382 @@ describe("OrderService", () => {
           Effect.runPromise
         )
 
-        // 3 items + 2 items = 5 items * 1000 cents = 5000 cents
-        expect(capturedAmount).toBe(5000)
+        // 3 items * 1000 cents + 2 items * 2500 cents = 8000 cents
+        expect(capturedAmount).toBe(8000)
+      })
+
+      it("should persist catalog price and snapshot on each ledger item", async () => {
+        let capturedItems: ReadonlyArray<{ unitPriceCents: number; productSku: string; productName: string }> = []
+
+        const repositoryLayer = Layer.succeed(OrderLedgerRepository, {
+          findByClientRequestId: () => Effect.succeed(Option.none()),
+          create: () => Effect.succeed(createMockOrderLedger()),
+          createItems: (items) => {
+            capturedItems = items
+            return Effect.succeed([])
+          },
+          updateWithAuthorizationAndOutbox: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZED" })),
+          createPayments: (payments) => Effect.succeed(payments.map((payment) => createMockOrderLedgerPayment(payment))),
+          updatePaymentStatus: (id, status) => Effect.succeed(createMockOrderLedgerPayment({ id, status })),
+          findPayments: () => Effect.succeed([]),
+          markAwaitingCustomerAction: () => Effect.succeed(createMockOrderLedger({ status: "AWAITING_CUSTOMER_ACTION" })),
+          completeCustomerActionWithOutbox: () => Effect.succeed(Option.none()),
+          markAuthorizationFailed: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZATION_FAILED" })),
+          findByIdWithItems: () => Effect.succeed(Option.none()),
+          findByUserIdWithItems: () => Effect.succeed([]),
+          findStepEvents: () => Effect.succeed([]),
+          requestCancellation: () => Effect.succeed(Option.none()),
+          requestPostCompletionCancellation: () => Effect.succeed(Option.none())
+        })
+
+        const paymentLayer = createMockPaymentClient({
+          shouldSucceed: true,
+          result: {
+            authorizationId: "auth_123",
+            status: "AUTHORIZED",
+            amountCents: 2000,
+            currency: "USD",
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
+          }
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", validRequest)
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(capturedItems).toHaveLength(1)
+        expect(capturedItems[0].unitPriceCents).toBe(1000)
+        expect(capturedItems[0].productSku).toBe("SKU-001")
+        expect(capturedItems[0].productName).toBe("Test Product")
+      })
+    })
+
+    describe("catalog pricing", () => {
+      it("should fail with ProductNotFoundError listing unknown products without creating a ledger", async () => {
+        let ledgerCreated = false
+
+        const repositoryLayer = Layer.succeed(OrderLedgerRepository, {
+          findByClientRequestId: () => Effect.succeed(Option.none()),
+          create: () => {
+            ledgerCreated = true
+            return Effect.succeed(createMockOrderLedger())
+          },
+          createItems: () => Effect.succeed([]),
+          updateWithAuthorizationAndOutbox: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZED" })),
+          createPayments: (payments) => Effect.succeed(payments.map((payment) => createMockOrderLedgerPayment(payment))),
+          updatePaymentStatus: (id, status) => Effect.succeed(createMockOrderLedgerPayment({ id, status })),
+          findPayments: () => Effect.succeed([]),
+          markAwaitingCustomerAction: () => Effect.succeed(createMockOrderLedger({ status: "AWAITING_CUSTOMER_ACTION" })),
+          completeCustomerActionWithOutbox: () => Effect.succeed(Option.none()),
+          markAuthorizationFailed: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZATION_FAILED" })),
+          findByIdWithItems: () => Effect.succeed(Option.none()),
+          findByUserIdWithItems: () => Effect.succeed([]),
+          findStepEvents: () => Effect.succeed([]),
+          requestCancellation: () => Effect.succeed(Option.none()),
+          requestPostCompletionCancellation: () => Effect.succeed(Option.none())
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const request = parseRequest({
+          ...validRequestData,
+          items: [
+            { product_id: "550e8400-e29b-41d4-a716-446655440001", quantity: 1 },
+            { product_id: "550e8400-e29b-41d4-a716-446655440077", quantity: 1 }
+          ]
+        })
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", request)
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("ProductNotFoundError")
+          const error = result.left as ProductNotFoundError
+          expect(error.productIds).toEqual(["550e8400-e29b-41d4-a716-446655440077"])
+        }
+        expect(ledgerCreated).toBe(false)
+      })
+
+      it("should fail with InventoryServiceError when pricing lookup is unavailable", async () => {
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(createMockRepository({ findResult: Option.none() })),
+          Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+          Layer.provide(createMockInventoryClient({
+            error: new InventoryServiceError({ reason: "Connection error", isRetryable: true })
+          })),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", validRequest)
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("InventoryServiceError")
+        }
+      })
+    })
+    describe("stock pre-check", () => {
+      const multiItemRequestData = {
+        ...validRequestData,
+        items: [
+          { product_id: "550e8400-e29b-41d4-a716-446655440001", quantity: 3 },
+          { product_id: "550e8400-e29b-41d4-a716-446655440002", quantity: 2 }
+        ]
+      }
+
+      it("should not check stock when the pre-check is disabled (default)", async () => {
+        let stockChecked = false
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(createMockRepository({ findResult: Option.none() })),
+          Layer.provide(createMockPaymentClient({
+            shouldSucceed: true,
+            result: {
+              authorizationId: "auth_123",
+              status: "AUTHORIZED",
+              amountCents: 8000,
+              currency: "USD",
+              createdAt: new Date().toISOString(),
+              challengeUrl: null
+            }
+          })),
+          Layer.provide(createMockInventoryClient({ onGetAvailabilities: () => { stockChecked = true } })),
+          Layer.provide(createMockOrdersClient())
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest(multiItemRequestData))
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(result.status).toBe("AUTHORIZED")
+        expect(stockChecked).toBe(false)
+      })
+
+      it("should fail with InsufficientStockError listing each short product when enabled", async () => {
+        let ledgerCreated = false
+        let paymentAttempted = false
+
+        const repositoryLayer = Layer.succeed(OrderLedgerRepository, {
+          findByClientRequestId: () => Effect.succeed(Option.none()),
+          create: () => {
+            ledgerCreated = true
+            return Effect.succeed(createMockOrderLedger())
+          },
+          createItems: () => Effect.succeed([]),
+          updateWithAuthorizationAndOutbox: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZED" })),
+          createPayments: (payments) => Effect.succeed(payments.map((payment) => createMockOrderLedgerPayment(payment))),
+          updatePaymentStatus: (id, status) => Effect.succeed(createMockOrderLedgerPayment({ id, status })),
+          findPayments: () => Effect.succeed([]),
+          markAwaitingCustomerAction: () => Effect.succeed(createMockOrderLedger({ status: "AWAITING_CUSTOMER_ACTION" })),
+          completeCustomerActionWithOutbox: () => Effect.succeed(Option.none()),
+          markAuthorizationFailed: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZATION_FAILED" })),
+          findByIdWithItems: () => Effect.succeed(Option.none()),
+          findByUserIdWithItems: () => Effect.succeed([]),
+          findStepEvents: () => Effect.succeed([]),
+          requestCancellation: () => Effect.succeed(Option.none()),
+          requestPostCompletionCancellation: () => Effect.succeed(Option.none())
+        })
+
+        const paymentLayer = Layer.succeed(PaymentClient, {
+          authorize: () => {
+            paymentAttempted = true
+            return Effect.fail(new PaymentGatewayError({ reason: "not-used", isRetryable: false }))
+          },
+          completeAuthentication: () => Effect.die("completeAuthentication not expected"),
+          voidAuthorization: () => Effect.die("voidAuthorization not expected")
+        })
+
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(repositoryLayer),
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient()),
+          Layer.provide(stockPrecheckConfig)
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", parseRequest(multiItemRequestData))
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("InsufficientStockError")
+          const error = result.left as InsufficientStockError
+          expect(error.shortages).toEqual([{
+            productId: "550e8400-e29b-41d4-a716-446655440002",
+            sku: "SKU-002",
+            requestedQuantity: 2,
+            availableQuantity: 1
+          }])
+        }
+        expect(ledgerCreated).toBe(false)
+        expect(paymentAttempted).toBe(false)
+      })
+
+      it("should sum quantities for repeated products before comparing with stock", async () => {
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(createMockRepository({ findResult: Option.none() })),
+          Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+          Layer.provide(createMockInventoryClient({
+            stock: [{ productId: "550e8400-e29b-41d4-a716-446655440001", sku: "SKU-001", stockQuantity: 4, backorderableQuantity: 0 }]
+          })),
+          Layer.provide(createMockOrdersClient()),
+          Layer.provide(stockPrecheckConfig)
+        )
+
+        const request = parseRequest({
+          ...validRequestData,
+          items: [
+            { product_id: "550e8400-e29b-41d4-a716-446655440001", quantity: 3 },
+            { product_id: "550e8400-e29b-41d4-a716-446655440001", quantity: 2 }
+          ]
+        })
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", request)
+        }).pipe(Effect.provide(serviceLayer), Effect.either, Effect.runPromise)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          const error = result.left as InsufficientStockError
+          expect(error.shortages[0].requestedQuantity).toBe(5)
+          expect(error.shortages[0].availableQuantity).toBe(4)
+        }
+      })
+
+      it("should proceed to payment when all products have enough stock", async () => {
+        const serviceLayer = OrderServiceLive.pipe(
+          Layer.provide(createMockRepository({ findResult: Option.none() })),
+          Layer.provide(createMockPaymentClient({
+            shouldSucceed: true,
+            result: {
+              authorizationId: "auth_123",
+              status: "AUTHORIZED",
+              amountCents: 2000,
+              currency: "USD",
+              createdAt: new Date().toISOString(),
+              challengeUrl: null
+            }
+          })),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient()),
+          Layer.provide(stockPrecheckConfig)
+        )
+
+        const result = await Effect.gen(function* () {
+          const service = yield* OrderService
+          return yield* service.createOrder("unique-request-id-123", validRequest)
+        }).pipe(Effect.provide(serviceLayer), Effect.runPromise)
+
+        expect(result.status).toBe("AUTHORIZED")
+      })
+
+      it("should count units that may still be backordered as available", async () => {
+        const authorizedPayment = createMockPaymentClient({
+          shouldSucceed: true,
+          result: {
+            authorizationId: "auth_123",
+            status: "AUTHORIZED",
+            amountCents: 8000,
+            currency: "USD",
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
+          }
+        })
+        const createOrderWith = (stock: ReadonlyArray<ProductStock>) =>
+          Effect.gen(function* () {
+            const service = yield* OrderService
+            return yield* service.createOrder("unique-request-id-123", parseRequest(multiItemRequestData))
+          }).pipe(
+            Effect.provide(OrderServiceLive.pipe(
+              Layer.provide(createMockRepository({ findResult: Option.none() })),
+              Layer.provide(authorizedPayment),
+              Layer.provide(createMockInventoryClient({ stock })),
+              Layer.provide(createMockOrdersClient()),
+              Layer.provide(stockPrecheckConfig)
+            )),
+            Effect.either,
+            Effect.runPromise
+          )
+
+        // SKU-002 has 1 in stock and 2 are requested
+        const capped = await createOrderWith([
+          defaultStock[0],
+          { ...defaultStock[1], backorderableQuantity: 1 }
+        ])
+        expect(capped._tag).toBe("Right")
+
+        const uncapped = await createOrderWith([
+          defaultStock[0],
+          { ...defaultStock[1], stockQuantity: 0, backorderableQuantity: null }
+        ])
+        expect(uncapped._tag).toBe("Right")
+      })
+
+      it("should let a partial order through unless nothing at all is in stock", async () => {
+        const createdLedgers: Array<CreateOrderLedgerParams> = []
+        const createOrderWith = (stock: ReadonlyArray<ProductStock>) =>
+          Effect.gen(function* () {
+            const service = yield* OrderService
+            return yield* service.createOrder("unique-request-id-123", parseRequest({
+              ...multiItemRequestData,
+              allow_partial: true
+            }))
+          }).pipe(
+            Effect.provide(OrderServiceLive.pipe(
+              Layer.provide(createMockRepository({ findResult: Option.none(), createdLedgers })),
+              Layer.provide(createMockPaymentClient({
+                shouldSucceed: true,
+                result: {
+                  authorizationId: "auth_123",
+                  status: "AUTHORIZED",
+                  amountCents: 8000,
+                  currency: "USD",
+                  createdAt: new Date().toISOString(),
+                  challengeUrl: null
+                }
+              })),
+              Layer.provide(createMockInventoryClient({ stock })),
+              Layer.provide(createMockOrdersClient()),
+              Layer.provide(stockPrecheckConfig)
+            )),
+            Effect.either,
+            Effect.runPromise
+          )
+
+        // SKU-002 has 1 of the 2 requested - the order goes ahead and the saga ships what it can
+        const someShort = await createOrderWith(defaultStock)
+        expect(someShort._tag).toBe("Right")
+        expect(createdLedgers[0].allowPartial).toBe(true)
+
+        const noneInStock = await createOrderWith(defaultStock.map((entry) => ({ ...entry, stockQuantity: 0 })))
+        expect(noneInStock._tag).toBe("Left")
+        if (noneInStock._tag === "Left") {
+          expect((noneInStock.left as InsufficientStockError).shortages).toHaveLength(2)
+        }
       })
     })
   })
@@ -395,13 +1298,16 @@ describe("OrderService", () => {
             status: "AUTHORIZED",
             amountCents: 2000,
             currency: "USD",
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
           }
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -442,13 +1348,16 @@ describe("OrderService", () => {
             status: "AUTHORIZED",
             amountCents: 2000,
             currency: "USD",
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
           }
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -481,13 +1390,16 @@ describe("OrderService", () => {
             status: "AUTHORIZED",
             amountCents: 2000,
             currency: "USD",
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
           }
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -529,13 +1441,16 @@ describe("OrderService", () => {
             status: "AUTHORIZED",
             amountCents: 2000,
             currency: "USD",
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            challengeUrl: null
           }
         })
 
         const serviceLayer = OrderServiceLive.pipe(
           Layer.provide(repositoryLayer),
-          Layer.provide(paymentLayer)
+          Layer.provide(paymentLayer),
+          Layer.provide(createMockInventoryClient()),
+          Layer.provide(createMockOrdersClient())
         )
 
         const program = Effect.gen(function* () {
@@ -557,4 +1472,540 @@ describe("OrderService", () => {
       })
     })
   })
+
+  describe("getOrderHistory", () => {
+    const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+    const createServiceLayer = (repositoryLayer: Layer.Layer<OrderLedgerRepository>) =>
+      OrderServiceLive.pipe(
+        Layer.provide(repositoryLayer),
+        Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+        Layer.provide(createMockInventoryClient()),
+        Layer.provide(createMockOrdersClient())
+      )
+
+    it("should return the ledger status and step events with ISO timestamps", async () => {
+      const stepEvent = new SagaStepEvent({
+        id: "550e8400-e29b-41d4-a716-446655440200",
+        orderLedgerId: ledgerId as OrderLedgerId,
+        stepName: "create_order",
+        outcome: "SUCCEEDED",
+        fromStatus: "AUTHORIZED",
+        toStatus: "ORDER_CREATED",
+        attempt: 1,
+        errorTag: null,
+        errorReason: null,
+        durationMs: 42,
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        createdAt: DateTime.unsafeMake("2024-01-15T10:30:01.000Z")
+      })
+
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: Option.some({
+          ledger: createMockOrderLedger({ id: ledgerId, status: "ORDER_CREATED" }),
+          items: []
+        }),
+        stepEvents: [stepEvent]
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.getOrderHistory(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.runPromise)
+
+      expect(result.orderLedgerId).toBe(ledgerId)
+      expect(result.status).toBe("ORDER_CREATED")
+      expect(result.events).toEqual([{
+        stepName: "create_order",
+        outcome: "SUCCEEDED",
+        fromStatus: "AUTHORIZED",
+        toStatus: "ORDER_CREATED",
+        attempt: 1,
+        errorTag: null,
+        errorReason: null,
+        durationMs: 42,
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        createdAt: "2024-01-15T10:30:01.000Z"
+      }])
+    })
+
+    it("should fail with OrderLedgerNotFoundError when order does not exist", async () => {
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: Option.none()
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.getOrderHistory(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("OrderLedgerNotFoundError")
+      }
+    })
+  })
+
+  describe("listUserOrders", () => {
+    const userId = "550e8400-e29b-41d4-a716-446655440000"
+    const completedLedgerId = "550e8400-e29b-41d4-a716-446655440097"
+    const failedLedgerId = "550e8400-e29b-41d4-a716-446655440098"
+
+    const userLedgers = [
+      { ledger: createMockOrderLedger({ id: completedLedgerId, status: "COMPLETED" }), items: [createMockOrderLedgerItem()] },
+      { ledger: createMockOrderLedger({ id: failedLedgerId, status: "AUTHORIZATION_FAILED" }), items: [createMockOrderLedgerItem()] },
+      { ledger: createMockOrderLedger({ status: "AUTHORIZED" }), items: [] }
+    ]
+
+    const completedOrder: DownstreamOrder = {
+      orderId: "550e8400-e29b-41d4-a716-446655440300",
+      orderLedgerId: completedLedgerId,
+      status: "CONFIRMED",
+      items: [{ productId: "550e8400-e29b-41d4-a716-446655440001", quantity: 2, unitPriceCents: 1000 }]
+    }
+
+    const createServiceLayer = (
+      repositoryLayer: Layer.Layer<OrderLedgerRepository>,
+      ordersClientLayer: Layer.Layer<OrdersClient>
+    ) =>
+      OrderServiceLive.pipe(
+        Layer.provide(repositoryLayer),
+        Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+        Layer.provide(createMockInventoryClient()),
+        Layer.provide(ordersClientLayer)
+      )
+
+    it("should join ledger entries with their downstream orders and map customer statuses", async () => {
+      const userLedgerQueries: Array<FindByUserIdOptions> = []
+      const requestedLedgerIds: Array<ReadonlyArray<string>> = []
+      const repositoryLayer = createMockRepository({ findResult: Option.none(), userLedgers, userLedgerQueries })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.listUserOrders(userId, { limit: 2 })
+      }).pipe(
+        Effect.provide(createServiceLayer(repositoryLayer, createMockOrdersClient({ orders: [completedOrder], requestedLedgerIds }))),
+        Effect.runPromise
+      )
+
+      // One extra row is fetched to detect the next page
+      expect(userLedgerQueries).toEqual([{ limit: 3, after: undefined }])
+      expect(requestedLedgerIds).toEqual([[completedLedgerId, failedLedgerId]])
+      expect(result.orders).toHaveLength(2)
+      expect(result.orders[0].customerStatus).toBe("confirmed")
+      expect(result.orders[0].order).toEqual({
+        orderId: completedOrder.orderId,
+        status: "CONFIRMED",
+        items: completedOrder.items
+      })
+      expect(result.orders[0].items[0].sku).toBe("SKU-001")
+      expect(result.orders[1].status).toBe("AUTHORIZATION_FAILED")
+      expect(result.orders[1].customerStatus).toBe("payment_failed")
+      expect(result.orders[1].order).toBeNull()
+      expect(result.nextCursor).toBe(failedLedgerId)
+    })
+
+    it("should return an empty last page without calling the orders service", async () => {
+      const requestedLedgerIds: Array<ReadonlyArray<string>> = []
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: Option.some(userLedgers[1]),
+        userLedgers: []
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.listUserOrders(userId, { limit: 10, cursor: failedLedgerId })
+      }).pipe(
+        Effect.provide(createServiceLayer(repositoryLayer, createMockOrdersClient({ requestedLedgerIds }))),
+        Effect.runPromise
+      )
+
+      expect(result).toEqual({ orders: [], nextCursor: null })
+      expect(requestedLedgerIds).toEqual([])
+    })
+
+    it("should fail with InvalidCursorError when the cursor names no ledger entry", async () => {
+      const userLedgerQueries: Array<FindByUserIdOptions> = []
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: Option.none(),
+        userLedgers,
+        userLedgerQueries
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.listUserOrders(userId, { limit: 10, cursor: failedLedgerId })
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer, createMockOrdersClient())), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("InvalidCursorError")
+        expect((result.left as InvalidCursorError).cursor).toBe(failedLedgerId)
+      }
+      expect(userLedgerQueries).toEqual([])
+    })
+
+    it("should fail with InvalidCursorError when the cursor is another user's ledger entry", async () => {
+      const otherUsersLedger = new OrderLedger({
+        ...createMockOrderLedger({ id: failedLedgerId }),
+        userId: "550e8400-e29b-41d4-a716-446655440555" as UserId
+      })
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: Option.some({ ledger: otherUsersLedger, items: [] }),
+        userLedgers
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.listUserOrders(userId, { limit: 10, cursor: failedLedgerId })
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer, createMockOrdersClient())), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("InvalidCursorError")
+      }
+    })
+
+    it("should fail with OrdersServiceError when the orders service is unavailable", async () => {
+      const repositoryLayer = createMockRepository({ findResult: Option.none(), userLedgers })
+      const ordersClientLayer = createMockOrdersClient({
+        error: new OrdersServiceError({ reason: "Connection error", isRetryable: true })
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.listUserOrders(userId, { limit: 10 })
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer, ordersClientLayer)), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("OrdersServiceError")
+      }
+    })
+  })
+
+  describe("completeAuthorization", () => {
+    const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+    const ledgerWithStatus = (status: string) =>
+      Option.some({
+        ledger: createMockOrderLedger({ id: ledgerId, status, paymentAuthorizationId: "auth_3ds" }),
+        items: []
+      })
+
+    const authorizedResult: AuthorizePaymentResult = {
+      authorizationId: "auth_3ds",
+      status: "AUTHORIZED",
+      amountCents: 2000,
+      currency: "USD",
+      createdAt: new Date().toISOString(),
+      challengeUrl: null
+    }
+
+    const createServiceLayer = (
+      repositoryLayer: Layer.Layer<OrderLedgerRepository>,
+      completeAuthentication?: (
+        params: CompleteAuthenticationParams
+      ) => Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError>
+    ) =>
+      OrderServiceLive.pipe(
+        Layer.provide(repositoryLayer),
+        Layer.provide(createMockPaymentClient({ shouldSucceed: false, completeAuthentication })),
+        Layer.provide(createMockInventoryClient()),
+        Layer.provide(createMockOrdersClient())
+      )
+
+    it("should complete the payment, then authorize the ledger with its outbox event", async () => {
+      const completions: Array<string> = []
+      const paymentCalls: Array<CompleteAuthenticationParams> = []
+
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("AWAITING_CUSTOMER_ACTION"),
+        customerActionResult: Option.some(createMockOrderLedger({
+          id: ledgerId,
+          status: "AUTHORIZED",
+          paymentAuthorizationId: "auth_3ds"
+        })),
+        customerActionCompletions: completions
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.completeAuthorization(ledgerId, "succeeded")
+      }).pipe(
+        Effect.provide(createServiceLayer(repositoryLayer, (params) => {
+          paymentCalls.push(params)
+          return Effect.succeed(authorizedResult)
+        })),
+        Effect.runPromise
+      )
+
+      expect(result.status).toBe("AUTHORIZED")
+      expect(paymentCalls).toHaveLength(1)
+      expect(paymentCalls[0].authorizationId).toBe("auth_3ds")
+      expect(paymentCalls[0].authenticationResult).toBe("succeeded")
+      expect(completions).toEqual([ledgerId])
+    })
+
+    it("should mark the ledger failed and not write the outbox event when authentication fails", async () => {
+      const completions: Array<string> = []
+      const failures: Array<string> = []
+
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("AWAITING_CUSTOMER_ACTION"),
+        customerActionCompletions: completions,
+        authorizationFailures: failures
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.completeAuthorization(ledgerId, "failed")
+      }).pipe(
+        Effect.provide(createServiceLayer(repositoryLayer, () =>
+          Effect.fail(new PaymentDeclinedError({
+            userId: "550e8400-e29b-41d4-a716-446655440000",
+            amountCents: 2000,
+            declineCode: "authentication_failed",
+            reason: "Customer authentication failed",
+            isRetryable: false
+          }))
+        )),
+        Effect.either,
+        Effect.runPromise
+      )
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("PaymentDeclinedError")
+      }
+      expect(failures).toEqual([ledgerId])
+      expect(completions).toEqual([])
+    })
+
+    it("should complete every challenged instrument of a split-tender order", async () => {
+      const paymentCalls: Array<CompleteAuthenticationParams> = []
+      const paymentUpdates: Array<{ paymentId: string; status: OrderLedgerPaymentStatus; paymentAuthorizationId: string | null }> = []
+
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("AWAITING_CUSTOMER_ACTION"),
+        customerActionResult: Option.some(createMockOrderLedger({ id: ledgerId, status: "AUTHORIZED" })),
+        payments: [
+          createMockOrderLedgerPayment({
+            sequence: 0,
+            method: "wallet",
+            amountCents: 500,
+            status: "REQUIRES_ACTION",
+            paymentAuthorizationId: "auth_wallet"
+          }),
+          createMockOrderLedgerPayment({
+            sequence: 1,
+            amountCents: 1500,
+            status: "AUTHORIZED",
+            paymentAuthorizationId: "auth_card"
+          })
+        ],
+        paymentUpdates
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.completeAuthorization(ledgerId, "succeeded")
+      }).pipe(
+        Effect.provide(createServiceLayer(repositoryLayer, (params) => {
+          paymentCalls.push(params)
+          return Effect.succeed(authorizedResult)
+        })),
+        Effect.runPromise
+      )
+
+      expect(result.status).toBe("AUTHORIZED")
+      expect(paymentCalls.map((call) => [call.authorizationId, call.amountCents])).toEqual([["auth_wallet", 500]])
+      expect(paymentUpdates.map((update) => update.status)).toEqual(["AUTHORIZED"])
+    })
+
+    it("should return the current status for a repeat callback without calling the payment service", async () => {
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("ORDER_CREATED")
+      })
+
+      // The default mock dies if the payment service is called
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.completeAuthorization(ledgerId, "succeeded")
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.runPromise)
+
+      expect(result.status).toBe("ORDER_CREATED")
+    })
+
+    it("should fail with OrderNotAwaitingCustomerActionError for a declined order", async () => {
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("AUTHORIZATION_FAILED")
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.completeAuthorization(ledgerId, "succeeded")
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("OrderNotAwaitingCustomerActionError")
+      }
+    })
+  })
+
+  describe("cancelOrder", () => {
+    const ledgerId = "550e8400-e29b-41d4-a716-446655440099"
+
+    const createServiceLayer = (repositoryLayer: Layer.Layer<OrderLedgerRepository>) =>
+      OrderServiceLive.pipe(
+        Layer.provide(repositoryLayer),
+        Layer.provide(createMockPaymentClient({ shouldSucceed: false })),
+        Layer.provide(createMockInventoryClient()),
+        Layer.provide(createMockOrdersClient())
+      )
+
+    const ledgerWithStatus = (status: string) =>
+      Option.some({ ledger: createMockOrderLedger({ id: ledgerId, status }), items: [] })
+
+    it("should request cancellation of an in-flight saga from the status it was read in", async () => {
+      const cancellationRequests: Array<{ orderLedgerId: string; expectedStatus: string; postCompletion: boolean }> = []
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("INVENTORY_RESERVED"),
+        cancellationResult: Option.some(createMockOrderLedger({ id: ledgerId, status: "CANCELLATION_REQUESTED" })),
+        cancellationRequests
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.cancelOrder(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.runPromise)
+
+      expect(result).toEqual({ orderLedgerId: ledgerId, status: "CANCELLATION_REQUESTED" })
+      expect(cancellationRequests).toEqual([
+        { orderLedgerId: ledgerId, expectedStatus: "INVENTORY_RESERVED", postCompletion: false }
+      ])
+    })
+
+    it("should use the post-completion flow for a COMPLETED order", async () => {
+      const cancellationRequests: Array<{ orderLedgerId: string; expectedStatus: string; postCompletion: boolean }> = []
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("COMPLETED"),
+        cancellationResult: Option.some(createMockOrderLedger({ id: ledgerId, status: "CANCELLATION_REQUESTED" })),
+        cancellationRequests
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.cancelOrder(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.runPromise)
+
+      expect(result.status).toBe("CANCELLATION_REQUESTED")
+      expect(cancellationRequests).toHaveLength(1)
+      expect(cancellationRequests[0].postCompletion).toBe(true)
+    })
+
+    it("should return the current status for a repeat request without updating the ledger", async () => {
+      const cancellationRequests: Array<{ orderLedgerId: string; expectedStatus: string; postCompletion: boolean }> = []
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("CANCELLED"),
+        cancellationRequests
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.cancelOrder(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.runPromise)
+
+      expect(result.status).toBe("CANCELLED")
+      expect(cancellationRequests).toHaveLength(0)
+    })
+
+    it("should fail with OrderNotCancellableError for a failed order", async () => {
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: ledgerWithStatus("FAILED")
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.cancelOrder(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("OrderNotCancellableError")
+        if (result.left._tag === "OrderNotCancellableError") {
+          expect(result.left.status).toBe("FAILED")
+        }
+      }
+    })
+
+    it("should re-read the ledger when the saga moves on before the update", async () => {
+      // The saga completes between the read and the conditional update
+      const statuses = ["PAYMENT_CAPTURED", "COMPLETED"]
+      let reads = 0
+      let postCompletionRequests = 0
+
+      const repositoryLayer = Layer.succeed(OrderLedgerRepository, {
+        findByClientRequestId: () => Effect.succeed(Option.none()),
+        create: () => Effect.succeed(createMockOrderLedger()),
+        createItems: () => Effect.succeed([]),
+        updateWithAuthorizationAndOutbox: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZED" })),
+        createPayments: (payments) => Effect.succeed(payments.map((payment) => createMockOrderLedgerPayment(payment))),
+        updatePaymentStatus: (id, status) => Effect.succeed(createMockOrderLedgerPayment({ id, status })),
+        findPayments: () => Effect.succeed([]),
+        markAwaitingCustomerAction: () => Effect.succeed(createMockOrderLedger({ status: "AWAITING_CUSTOMER_ACTION" })),
+        completeCustomerActionWithOutbox: () => Effect.succeed(Option.none()),
+        markAuthorizationFailed: () => Effect.succeed(createMockOrderLedger({ status: "AUTHORIZATION_FAILED" })),
+        findByIdWithItems: () => Effect.succeed(ledgerWithStatus(statuses[Math.min(reads++, statuses.length - 1)])),
+        findByUserIdWithItems: () => Effect.succeed([]),
+        findStepEvents: () => Effect.succeed([]),
+        requestCancellation: () => Effect.succeed(Option.none()),
+        requestPostCompletionCancellation: () => {
+          postCompletionRequests++
+          return Effect.succeed(Option.some(createMockOrderLedger({ id: ledgerId, status: "CANCELLATION_REQUESTED" })))
+        }
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.cancelOrder(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.runPromise)
+
+      expect(result.status).toBe("CANCELLATION_REQUESTED")
+      expect(reads).toBe(2)
+      expect(postCompletionRequests).toBe(1)
+    })
+
+    it("should fail with OrderLedgerNotFoundError when order does not exist", async () => {
+      const repositoryLayer = createMockRepository({
+        findResult: Option.none(),
+        findByIdWithItemsResult: Option.none()
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.cancelOrder(ledgerId)
+      }).pipe(Effect.provide(createServiceLayer(repositoryLayer)), Effect.either, Effect.runPromise)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("OrderLedgerNotFoundError")
+      }
+    })
+  })
 })
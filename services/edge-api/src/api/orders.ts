@@ -3,14 +3,29 @@ import type { HttpServerError } from "@effect/platform"
 import { SqlError } from "@effect/sql"
 import { Effect, type ParseResult } from "effect"
 import { withTraceContext } from "@ecommerce/tracing"
-import { CreateOrderRequest, OrderLedgerIdParams } from "../domain/OrderLedger.js"
+import {
+  AuthenticationCallbackRequest,
+  CreateOrderRequest,
+  ListUserOrdersParams,
+  OrderLedgerIdParams,
+  UserIdParams
+} from "../domain/OrderLedger.js"
 import { OrderService } from "../services/OrderService.js"
 import {
   MissingIdempotencyKeyError,
   type PaymentDeclinedError,
   type PaymentGatewayError,
   type DuplicateRequestError,
-  type OrderLedgerNotFoundError
+  type OrderLedgerNotFoundError,
+  type OrderNotCancellableError,
+  type OrderNotAwaitingCustomerActionError,
+  type ProductNotFoundError,
+  type InvalidPaymentSplitError,
+  type MultipleAuthenticationsRequiredError,
+  type InsufficientStockError,
+  type InventoryServiceError,
+  type OrdersServiceError,
+  type InvalidCursorError
 } from "../domain/errors.js"
 
 // POST /orders - Create a new order
@@ -35,13 +50,20 @@ export const createOrder = withTraceContext(Effect.gen(function* () {
     status: result.status
   })
 
-  // 4. Return 202 Accepted
+  // 4. Return 202 Accepted - with the 3-D Secure challenge if the customer must act first
   return HttpServerResponse.json(
-    {
-      order_ledger_id: result.orderLedgerId,
-      status: result.status,
-      message: "Order received, processing"
-    },
+    result.challengeUrl === null
+      ? {
+          order_ledger_id: result.orderLedgerId,
+          status: result.status,
+          message: "Order received, processing"
+        }
+      : {
+          order_ledger_id: result.orderLedgerId,
+          status: result.status,
+          message: "Customer authentication required",
+          next_action: { type: "challenge", challenge_url: result.challengeUrl }
+        },
     { status: 202 }
   )
 })).pipe(
@@ -90,6 +112,70 @@ export const createOrder = withTraceContext(Effect.gen(function* () {
         { status: 409 }
       ),
 
+    // Unknown product IDs (422 Unprocessable Entity)
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "unknown_products",
+          message: "One or more products do not exist",
+          product_ids: error.productIds
+        },
+        { status: 422 }
+      ),
+
+    // Additional payments cover the whole order (422 Unprocessable Entity)
+    InvalidPaymentSplitError: (error: InvalidPaymentSplitError) =>
+      HttpServerResponse.json(
+        {
+          error: "invalid_payment_split",
+          message: "Additional payments must leave an amount for the primary payment method",
+          total_amount_cents: error.totalAmountCents,
+          additional_amount_cents: error.additionalAmountCents
+        },
+        { status: 422 }
+      ),
+
+    // More than one split-tender instrument needs 3-D Secure (422 Unprocessable Entity)
+    MultipleAuthenticationsRequiredError: (error: MultipleAuthenticationsRequiredError) =>
+      HttpServerResponse.json(
+        {
+          error: "multiple_authentications_required",
+          message: "Only one payment method may require 3-D Secure authentication",
+          order_ledger_id: error.orderLedgerId
+        },
+        { status: 422 }
+      ),
+
+    // Stock pre-check failed (409 Conflict)
+    InsufficientStockError: (error: InsufficientStockError) =>
+      HttpServerResponse.json(
+        {
+          error: "insufficient_stock",
+          message: "One or more products do not have enough stock",
+          items: error.shortages.map((shortage) => ({
+            product_id: shortage.productId,
+            sku: shortage.sku,
+            requested_quantity: shortage.requestedQuantity,
+            available_quantity: shortage.availableQuantity
+          }))
+        },
+        { status: 409 }
+      ),
+
+    // Inventory service unavailable for pricing or stock check (503 Service Unavailable)
+    InventoryServiceError: (error: InventoryServiceError) =>
+      Effect.gen(function* () {
+        yield* Effect.logWarning("Inventory service error", { reason: error.reason })
+        return HttpServerResponse.json(
+          {
+            error: "inventory_unavailable",
+            message: "Inventory service temporarily unavailable",
+            is_retryable: error.isRetryable
+          },
+          { status: 503 }
+        )
+      }).pipe(Effect.flatten),
+
     // Payment declined (402 Payment Required)
     PaymentDeclinedError: (error: PaymentDeclinedError) =>
       HttpServerResponse.json(
@@ -131,6 +217,112 @@ export const createOrder = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// POST /orders/:order_ledger_id/authentication-callback - Complete 3-D Secure for an order
+export const authenticationCallback = withTraceContext(Effect.gen(function* () {
+  // 1. Parse and validate path parameter and body
+  const { order_ledger_id: orderLedgerId } = yield* HttpRouter.schemaPathParams(OrderLedgerIdParams)
+  const body = yield* HttpServerRequest.schemaBodyJson(AuthenticationCallbackRequest)
+
+  // 2. Complete authorization
+  const orderService = yield* OrderService
+  const result = yield* orderService.completeAuthorization(orderLedgerId, body.authentication_result)
+
+  // 3. Return 202 Accepted - the saga processes the order asynchronously
+  return HttpServerResponse.json(
+    {
+      order_ledger_id: result.orderLedgerId,
+      status: result.status,
+      message: "Order received, processing"
+    },
+    { status: 202 }
+  )
+})).pipe(
+  Effect.withSpan("POST /orders/:order_ledger_id/authentication-callback"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter or body validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request data",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    // Request body parsing errors (400 Bad Request)
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        {
+          error: "request_error",
+          message: "Failed to parse request body"
+        },
+        { status: 400 }
+      ),
+
+    // Order ledger not found (404 Not Found)
+    OrderLedgerNotFoundError: (error: OrderLedgerNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Order with ID ${error.orderLedgerId} not found`
+        },
+        { status: 404 }
+      ),
+
+    // Order declined or never challenged (409 Conflict)
+    OrderNotAwaitingCustomerActionError: (error: OrderNotAwaitingCustomerActionError) =>
+      HttpServerResponse.json(
+        {
+          error: "order_not_awaiting_customer_action",
+          message: `Cannot complete authentication for order in ${error.status} status`,
+          status: error.status
+        },
+        { status: 409 }
+      ),
+
+    // Customer authentication failed (402 Payment Required)
+    PaymentDeclinedError: (error: PaymentDeclinedError) =>
+      HttpServerResponse.json(
+        {
+          error: "payment_declined",
+          decline_code: error.declineCode,
+          message: error.reason,
+          is_retryable: error.isRetryable
+        },
+        { status: 402 }
+      ),
+
+    // Payment gateway unavailable (503 Service Unavailable)
+    PaymentGatewayError: (error: PaymentGatewayError) =>
+      Effect.gen(function* () {
+        yield* Effect.logWarning("Payment gateway error", { reason: error.reason })
+        return HttpServerResponse.json(
+          {
+            error: "gateway_error",
+            message: "Payment service temporarily unavailable",
+            is_retryable: error.isRetryable
+          },
+          { status: 503 }
+        )
+      }).pipe(Effect.flatten),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in authenticationCallback", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
 // GET /orders/:order_ledger_id - Get order status and details
 export const getOrderStatus = withTraceContext(Effect.gen(function* () {
   // 1. Parse and validate path parameter
@@ -154,13 +346,19 @@ export const getOrderStatus = withTraceContext(Effect.gen(function* () {
     email: result.email,
     total_amount_cents: result.totalAmountCents,
     currency: result.currency,
+    fx_base_currency: result.fxBaseCurrency,
+    fx_rate: result.fxRate,
+    allow_partial: result.allowPartial,
     payment_authorization_id: result.paymentAuthorizationId,
     created_at: result.createdAt,
     updated_at: result.updatedAt,
     items: result.items.map(item => ({
       product_id: item.productId,
       quantity: item.quantity,
-      unit_price_cents: item.unitPriceCents
+      unit_price_cents: item.unitPriceCents,
+      sku: item.sku,
+      name: item.name,
+      fulfilled_quantity: item.fulfilledQuantity
     }))
   })
 })).pipe(
@@ -202,8 +400,253 @@ export const getOrderStatus = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// GET /orders/:order_ledger_id/history - Get the saga step history of an order
+export const getOrderHistory = withTraceContext(Effect.gen(function* () {
+  // 1. Parse and validate path parameter
+  const { order_ledger_id: orderLedgerId } = yield* HttpRouter.schemaPathParams(OrderLedgerIdParams)
+
+  // 2. Fetch history from service
+  const orderService = yield* OrderService
+  const result = yield* orderService.getOrderHistory(orderLedgerId)
+
+  yield* Effect.logInfo("Order history retrieved", {
+    orderLedgerId: result.orderLedgerId,
+    eventCount: result.events.length
+  })
+
+  // 3. Return 200 OK with snake_case response
+  return HttpServerResponse.json({
+    order_ledger_id: result.orderLedgerId,
+    status: result.status,
+    events: result.events.map(event => ({
+      step_name: event.stepName,
+      outcome: event.outcome,
+      from_status: event.fromStatus,
+      to_status: event.toStatus,
+      attempt: event.attempt,
+      error_tag: event.errorTag,
+      error_reason: event.errorReason,
+      duration_ms: event.durationMs,
+      trace_id: event.traceId,
+      created_at: event.createdAt
+    }))
+  })
+})).pipe(
+  Effect.withSpan("GET /orders/:order_ledger_id/history"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_ledger_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Order ledger not found (404 Not Found)
+    OrderLedgerNotFoundError: (error: OrderLedgerNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Order with ID ${error.orderLedgerId} not found`
+        },
+        { status: 404 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in getOrderHistory", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /users/:user_id/orders - List a user's orders, newest first
+export const listUserOrders = withTraceContext(Effect.gen(function* () {
+  // 1. Parse and validate path and query parameters
+  const { user_id: userId } = yield* HttpRouter.schemaPathParams(UserIdParams)
+  const params = yield* HttpServerRequest.schemaSearchParams(ListUserOrdersParams)
+
+  // 2. Fetch the page from service
+  const orderService = yield* OrderService
+  const result = yield* orderService.listUserOrders(userId, {
+    limit: params.limit,
+    cursor: params.cursor
+  })
+
+  yield* Effect.logInfo("User orders listed", {
+    userId,
+    count: result.orders.length
+  })
+
+  // 3. Return 200 OK with snake_case response
+  return HttpServerResponse.json({
+    orders: result.orders.map(order => ({
+      order_ledger_id: order.orderLedgerId,
+      status: order.status,
+      customer_status: order.customerStatus,
+      total_amount_cents: order.totalAmountCents,
+      currency: order.currency,
+      created_at: order.createdAt,
+      updated_at: order.updatedAt,
+      items: order.items.map(item => ({
+        product_id: item.productId,
+        quantity: item.quantity,
+        unit_price_cents: item.unitPriceCents,
+        sku: item.sku,
+        name: item.name,
+        fulfilled_quantity: item.fulfilledQuantity
+      })),
+      order: order.order === null
+        ? null
+        : {
+            order_id: order.order.orderId,
+            status: order.order.status,
+            items: order.order.items.map(item => ({
+              product_id: item.productId,
+              quantity: item.quantity,
+              unit_price_cents: item.unitPriceCents
+            }))
+          }
+    })),
+    next_cursor: result.nextCursor
+  })
+})).pipe(
+  Effect.withSpan("GET /users/:user_id/orders"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path or query parameter validation errors (400 Bad Request)
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request. user_id and cursor must be valid UUIDs and limit an integer between 1 and 50."
+        },
+        { status: 400 }
+      ),
+
+    // Cursor that is not one of the user's orders (400 Bad Request)
+    InvalidCursorError: (error: InvalidCursorError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: `Invalid cursor ${error.cursor}. Pass the next_cursor of a previous page.`
+        },
+        { status: 400 }
+      ),
+
+    // Orders service unavailable (503 Service Unavailable)
+    OrdersServiceError: (error: OrdersServiceError) =>
+      Effect.gen(function* () {
+        yield* Effect.logWarning("Orders service error", { reason: error.reason })
+        return HttpServerResponse.json(
+          {
+            error: "orders_unavailable",
+            message: "Orders service temporarily unavailable",
+            is_retryable: error.isRetryable
+          },
+          { status: 503 }
+        )
+      }).pipe(Effect.flatten),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in listUserOrders", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// POST /orders/:order_ledger_id/cancel - Request customer cancellation of an order
+export const cancelOrder = withTraceContext(Effect.gen(function* () {
+  // 1. Parse and validate path parameter
+  const { order_ledger_id: orderLedgerId } = yield* HttpRouter.schemaPathParams(OrderLedgerIdParams)
+
+  // 2. Request cancellation
+  const orderService = yield* OrderService
+  const result = yield* orderService.cancelOrder(orderLedgerId)
+
+  // 3. Return 202 Accepted - the orchestrator unwinds the order asynchronously
+  return HttpServerResponse.json(
+    {
+      order_ledger_id: result.orderLedgerId,
+      status: result.status,
+      message: result.status === "CANCELLED" ? "Order already cancelled" : "Cancellation requested"
+    },
+    { status: 202 }
+  )
+})).pipe(
+  Effect.withSpan("POST /orders/:order_ledger_id/cancel"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_ledger_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Order ledger not found (404 Not Found)
+    OrderLedgerNotFoundError: (error: OrderLedgerNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Order with ID ${error.orderLedgerId} not found`
+        },
+        { status: 404 }
+      ),
+
+    // Order already failed, being compensated, or still authorizing (409 Conflict)
+    OrderNotCancellableError: (error: OrderNotCancellableError) =>
+      HttpServerResponse.json(
+        {
+          error: "order_not_cancellable",
+          message: `Cannot cancel order in ${error.status} status`,
+          status: error.status
+        },
+        { status: 409 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in cancelOrder", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
 // Export routes
 export const OrderRoutes = HttpRouter.empty.pipe(
   HttpRouter.post("/orders", createOrder),
-  HttpRouter.get("/orders/:order_ledger_id", getOrderStatus)
+  HttpRouter.get("/orders/:order_ledger_id", getOrderStatus),
+  HttpRouter.get("/orders/:order_ledger_id/history", getOrderHistory),
+  HttpRouter.post("/orders/:order_ledger_id/cancel", cancelOrder),
+  HttpRouter.post("/orders/:order_ledger_id/authentication-callback", authenticationCallback),
+  HttpRouter.get("/users/:user_id/orders", listUserOrders)
 )
@@ -13,6 +13,8 @@ export type UserId = typeof UserId.Type
 // Order ledger status - matches database constraint
 export const OrderLedgerStatus = Schema.Literal(
   "AWAITING_AUTHORIZATION",
+  // Payment needs 3-D Secure; the authentication callback completes authorization
+  "AWAITING_CUSTOMER_ACTION",
   "AUTHORIZED",
   "AUTHORIZATION_FAILED",
   "ORDER_CREATED",
@@ -20,7 +22,11 @@ export const OrderLedgerStatus = Schema.Literal(
   "PAYMENT_CAPTURED",
   "COMPLETED",
   "COMPENSATING",
-  "FAILED"
+  "FAILED",
+  "COMPENSATION_FAILED",
+  // Customer cancellation: requested, then unwound by the orchestrator
+  "CANCELLATION_REQUESTED",
+  "CANCELLED"
 )
 export type OrderLedgerStatus = typeof OrderLedgerStatus.Type
 
@@ -33,14 +39,43 @@ export class OrderItemRequest extends Schema.Class<OrderItemRequest>("OrderItemR
   )
 }) {}
 
-// Payment information
+// Payment instrument types accepted at checkout
+export const PaymentMethod = Schema.Literal("card", "wallet", "store_credit", "gift_card")
+export type PaymentMethod = typeof PaymentMethod.Type
+
+// Payment information - the primary instrument, charged whatever the additional payments leave
 export class PaymentInfo extends Schema.Class<PaymentInfo>("PaymentInfo")({
-  method: Schema.Literal("card"),
+  method: PaymentMethod,
+  token: Schema.String.pipe(
+    Schema.minLength(1, { message: () => "Payment token is required" })
+  )
+}) {}
+
+// A fixed amount charged to another instrument first (split tender, e.g. a gift card)
+export class AdditionalPaymentInfo extends Schema.Class<AdditionalPaymentInfo>("AdditionalPaymentInfo")({
+  method: PaymentMethod,
   token: Schema.String.pipe(
     Schema.minLength(1, { message: () => "Payment token is required" })
+  ),
+  amount_cents: Schema.Int.pipe(
+    Schema.positive({ message: () => "Payment amount must be positive" })
+  )
+}) {}
+
+// Where the order ships to - the inventory service reserves stock from the nearest locations
+export class ShippingDestination extends Schema.Class<ShippingDestination>("ShippingDestination")({
+  latitude: Schema.Number.pipe(
+    Schema.between(-90, 90, { message: () => "Latitude must be between -90 and 90" })
+  ),
+  longitude: Schema.Number.pipe(
+    Schema.between(-180, 180, { message: () => "Longitude must be between -180 and 180" })
   )
 }) {}
 
+// Currencies an order can be placed and paid in
+export const OrderCurrency = Schema.Literal("USD", "EUR", "GBP")
+export type OrderCurrency = typeof OrderCurrency.Type
+
 // Full order request - body of POST /orders
 export class CreateOrderRequest extends Schema.Class<CreateOrderRequest>("CreateOrderRequest")({
   user_id: Schema.UUID,
@@ -52,7 +87,18 @@ export class CreateOrderRequest extends Schema.Class<CreateOrderRequest>("Create
     Schema.minItems(1, { message: () => "Order must contain at least one item" }),
     Schema.maxItems(50, { message: () => "Order cannot exceed 50 items" })
   ),
-  payment: PaymentInfo
+  // Prices are quoted, totalled and authorized in this currency
+  currency: Schema.optionalWith(OrderCurrency, { default: () => "USD" }),
+  payment: PaymentInfo,
+  additional_payments: Schema.optional(
+    Schema.Array(AdditionalPaymentInfo).pipe(
+      Schema.maxItems(4, { message: () => "Order cannot have more than 4 additional payments" })
+    )
+  ),
+  // Optional - without it stock is reserved by location priority
+  shipping_destination: Schema.optional(ShippingDestination),
+  // Ship what is in stock and charge only for that, rather than rejecting the order
+  allow_partial: Schema.optionalWith(Schema.Boolean, { default: () => false })
 }) {}
 
 // Order ledger item (line item stored in the ledger)
@@ -62,6 +108,11 @@ export class OrderLedgerItem extends Schema.Class<OrderLedgerItem>("OrderLedgerI
   productId: ProductId,
   quantity: Schema.Int,
   unitPriceCents: Schema.Int,
+  // Catalog snapshot at submission time (null for items recorded before pricing lookup existed)
+  productSku: Schema.NullOr(Schema.String),
+  productName: Schema.NullOr(Schema.String),
+  // Set by the saga when only part of the quantity could be reserved; null when filled in full
+  fulfilledQuantity: Schema.NullOr(Schema.Int),
   createdAt: Schema.DateTimeUtc
 }) {}
 
@@ -74,11 +125,63 @@ export class OrderLedger extends Schema.Class<OrderLedger>("OrderLedger")({
   status: OrderLedgerStatus,
   totalAmountCents: Schema.Int,
   currency: Schema.String,
+  // FX snapshot at pricing time: units of currency per 1 unit of the catalog's base currency
+  fxBaseCurrency: Schema.String,
+  fxRate: Schema.Number,
+  shippingDestination: Schema.NullOr(ShippingDestination),
+  allowPartial: Schema.Boolean,
   paymentAuthorizationId: Schema.NullOr(Schema.String),
   createdAt: Schema.DateTimeUtc,
   updatedAt: Schema.DateTimeUtc
 }) {}
 
+// Authorization outcome of one payment instrument
+export const OrderLedgerPaymentStatus = Schema.Literal(
+  "PENDING",
+  "AUTHORIZED",
+  "REQUIRES_ACTION",
+  "DECLINED",
+  // Released by the Edge API because another instrument on the order was declined
+  "VOIDED"
+)
+export type OrderLedgerPaymentStatus = typeof OrderLedgerPaymentStatus.Type
+
+// One payment instrument of an order, in authorization order (the primary payment is last)
+export class OrderLedgerPayment extends Schema.Class<OrderLedgerPayment>("OrderLedgerPayment")({
+  id: Schema.UUID,
+  orderLedgerId: OrderLedgerId,
+  sequence: Schema.Int,
+  method: PaymentMethod,
+  amountCents: Schema.Int,
+  currency: Schema.String,
+  status: OrderLedgerPaymentStatus,
+  paymentAuthorizationId: Schema.NullOr(Schema.String),
+  // Set by the orchestrator's capture step
+  paymentCaptureId: Schema.NullOr(Schema.String),
+  createdAt: Schema.DateTimeUtc
+}) {}
+
+// Saga step outcome - written by the orchestrator to saga_step_events
+export const SagaStepOutcome = Schema.Literal("SUCCEEDED", "FAILED", "RETRY_SCHEDULED")
+export type SagaStepOutcome = typeof SagaStepOutcome.Type
+
+// One entry in an order's saga history (read-only on the Edge side)
+export class SagaStepEvent extends Schema.Class<SagaStepEvent>("SagaStepEvent")({
+  id: Schema.UUID,
+  orderLedgerId: OrderLedgerId,
+  stepName: Schema.String,
+  outcome: SagaStepOutcome,
+  fromStatus: OrderLedgerStatus,
+  // null when the step did not move the ledger (failures, compensation actions)
+  toStatus: Schema.NullOr(OrderLedgerStatus),
+  attempt: Schema.Int,
+  errorTag: Schema.NullOr(Schema.String),
+  errorReason: Schema.NullOr(Schema.String),
+  durationMs: Schema.Int,
+  traceId: Schema.NullOr(Schema.String),
+  createdAt: Schema.DateTimeUtc
+}) {}
+
 // Success response (202 Accepted)
 export class CreateOrderResponse extends Schema.Class<CreateOrderResponse>("CreateOrderResponse")({
   order_ledger_id: Schema.String,
@@ -93,7 +196,60 @@ export class DuplicateOrderResponse extends Schema.Class<DuplicateOrderResponse>
   status: Schema.String
 }) {}
 
+// Body of POST /orders/:order_ledger_id/authentication-callback
+export class AuthenticationCallbackRequest extends Schema.Class<AuthenticationCallbackRequest>("AuthenticationCallbackRequest")({
+  authentication_result: Schema.Literal("succeeded", "failed")
+}) {}
+
 // Path parameter schema for GET /orders/:order_ledger_id
 export const OrderLedgerIdParams = Schema.Struct({
   order_ledger_id: OrderLedgerId
 })
+
+// Path parameter schema for /users/:user_id routes
+export const UserIdParams = Schema.Struct({
+  user_id: UserId
+})
+
+// Query string schema for GET /users/:user_id/orders
+// cursor is the next_cursor of the previous page - the ID of its last ledger entry
+export const ListUserOrdersParams = Schema.Struct({
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 50)),
+    { default: () => 10 }
+  ),
+  cursor: Schema.optional(OrderLedgerId)
+})
+
+// Order status as shown to customers - the saga's internal states collapsed into what they mean to a buyer
+export const CustomerOrderStatus = Schema.Literal(
+  "action_required",
+  "processing",
+  "confirmed",
+  "payment_failed",
+  "failed",
+  "cancelling",
+  "cancelled"
+)
+export type CustomerOrderStatus = typeof CustomerOrderStatus.Type
+
+const CUSTOMER_ORDER_STATUS: Record<OrderLedgerStatus, CustomerOrderStatus> = {
+  AWAITING_AUTHORIZATION: "processing",
+  AWAITING_CUSTOMER_ACTION: "action_required",
+  AUTHORIZED: "processing",
+  AUTHORIZATION_FAILED: "payment_failed",
+  ORDER_CREATED: "processing",
+  INVENTORY_RESERVED: "processing",
+  PAYMENT_CAPTURED: "processing",
+  COMPLETED: "confirmed",
+  // The saga is unwinding a failed order; the customer is not charged in the end
+  COMPENSATING: "failed",
+  FAILED: "failed",
+  COMPENSATION_FAILED: "failed",
+  CANCELLATION_REQUESTED: "cancelling",
+  CANCELLED: "cancelled"
+}
+
+/** The customer-facing status of a ledger entry */
+export const customerStatusFor = (status: OrderLedgerStatus): CustomerOrderStatus =>
+  CUSTOMER_ORDER_STATUS[status]
@@ -22,9 +22,42 @@ export class DuplicateRequestError extends Data.TaggedError("DuplicateRequestErr
   readonly existingStatus: string
 }> {}
 
-// Product not found when looking up prices
+// One or more products not found when looking up prices
 export class ProductNotFoundError extends Data.TaggedError("ProductNotFoundError")<{
-  readonly productId: string
+  readonly productIds: ReadonlyArray<string>
+}> {}
+
+// Stock pre-check found one or more products without enough stock
+export class InsufficientStockError extends Data.TaggedError("InsufficientStockError")<{
+  readonly shortages: ReadonlyArray<{
+    readonly productId: string
+    readonly sku: string | null
+    readonly requestedQuantity: number
+    readonly availableQuantity: number
+  }>
+}> {}
+
+// Additional payments leave nothing for the primary payment method to cover
+export class InvalidPaymentSplitError extends Data.TaggedError("InvalidPaymentSplitError")<{
+  readonly totalAmountCents: number
+  readonly additionalAmountCents: number
+}> {}
+
+// More than one split-tender instrument needs 3-D Secure - an order carries a single challenge
+export class MultipleAuthenticationsRequiredError extends Data.TaggedError("MultipleAuthenticationsRequiredError")<{
+  readonly orderLedgerId: string
+}> {}
+
+// Inventory service unavailable
+export class InventoryServiceError extends Data.TaggedError("InventoryServiceError")<{
+  readonly reason: string
+  readonly isRetryable: boolean
+}> {}
+
+// Orders service unavailable
+export class OrdersServiceError extends Data.TaggedError("OrdersServiceError")<{
+  readonly reason: string
+  readonly isRetryable: boolean
 }> {}
 
 // Missing idempotency key header
@@ -42,3 +75,20 @@ export class TransactionError extends Data.TaggedError("TransactionError")<{
 export class OrderLedgerNotFoundError extends Data.TaggedError("OrderLedgerNotFoundError")<{
   readonly orderLedgerId: string
 }> {}
+
+// Order is in a status the customer cannot cancel from
+export class OrderNotCancellableError extends Data.TaggedError("OrderNotCancellableError")<{
+  readonly orderLedgerId: string
+  readonly status: string
+}> {}
+
+// Authentication callback for an order that is not waiting on the customer
+export class OrderNotAwaitingCustomerActionError extends Data.TaggedError("OrderNotAwaitingCustomerActionError")<{
+  readonly orderLedgerId: string
+  readonly status: string
+}> {}
+
+// List cursor that names no ledger entry of the user
+export class InvalidCursorError extends Data.TaggedError("InvalidCursorError")<{
+  readonly cursor: string
+}> {}
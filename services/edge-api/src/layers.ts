@@ -5,6 +5,8 @@ import { EdgeApiConfigLive } from "./config.js"
 import { OrderLedgerRepositoryLive } from "./repositories/OrderLedgerRepositoryLive.js"
 import { OrderServiceLive } from "./services/OrderServiceLive.js"
 import { PaymentClientLive } from "./services/PaymentClientLive.js"
+import { InventoryClientLive } from "./services/InventoryClientLive.js"
+import { OrdersClientLive } from "./services/OrdersClientLive.js"
 
 // HTTP client layer for making external requests (with trace context propagation)
 const HttpClientLive = TracedHttpClientLive
@@ -19,10 +21,22 @@ const PaymentClientLayer = PaymentClientLive.pipe(
   Layer.provide(HttpClientLive)
 )
 
+// Inventory client depends on HTTP client
+const InventoryClientLayer = InventoryClientLive.pipe(
+  Layer.provide(HttpClientLive)
+)
+
+// Orders client depends on HTTP client
+const OrdersClientLayer = OrdersClientLive.pipe(
+  Layer.provide(HttpClientLive)
+)
+
 // Service layer depends on repositories and clients
 const ServiceLive = OrderServiceLive.pipe(
   Layer.provide(RepositoryLive),
-  Layer.provide(PaymentClientLayer)
+  Layer.provide(PaymentClientLayer),
+  Layer.provide(InventoryClientLayer),
+  Layer.provide(OrdersClientLayer)
 )
 
 // Export composed application layer
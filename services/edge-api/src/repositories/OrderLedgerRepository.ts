@@ -1,6 +1,17 @@
 import { Context, Effect, Option } from "effect"
 import type { SqlError } from "@effect/sql"
-import type { OrderLedger, OrderLedgerItem, OrderLedgerId, OrderLedgerStatus } from "../domain/OrderLedger.js"
+import type {
+  OrderLedger,
+  OrderLedgerItem,
+  OrderLedgerId,
+  OrderLedgerPayment,
+  OrderLedgerPaymentStatus,
+  OrderLedgerStatus,
+  PaymentMethod,
+  SagaStepEvent,
+  ShippingDestination,
+  UserId
+} from "../domain/OrderLedger.js"
 
 export interface CreateOrderLedgerParams {
   readonly clientRequestId: string
@@ -8,6 +19,13 @@ export interface CreateOrderLedgerParams {
   readonly email: string
   readonly totalAmountCents: number
   readonly currency: string
+  // Rate snapshot the prices were converted at
+  readonly fxBaseCurrency: string
+  readonly fxRate: number
+  // Passed on to inventory so stock is reserved from the nearest location
+  readonly shippingDestination: ShippingDestination | null
+  // Carried into OrderAuthorized so the saga reserves what it can
+  readonly allowPartial: boolean
 }
 
 export interface CreateOrderLedgerItemParams {
@@ -15,6 +33,16 @@ export interface CreateOrderLedgerItemParams {
   readonly productId: string
   readonly quantity: number
   readonly unitPriceCents: number
+  readonly productSku: string
+  readonly productName: string
+}
+
+export interface CreateOrderLedgerPaymentParams {
+  readonly orderLedgerId: OrderLedgerId
+  readonly sequence: number
+  readonly method: PaymentMethod
+  readonly amountCents: number
+  readonly currency: string
 }
 
 export interface UpdateLedgerWithAuthorizationParams {
@@ -23,6 +51,12 @@ export interface UpdateLedgerWithAuthorizationParams {
   readonly newStatus: OrderLedgerStatus
 }
 
+export interface FindByUserIdOptions {
+  readonly limit: number
+  // Return only ledger entries after this one in newest-first order
+  readonly after?: OrderLedgerId
+}
+
 export class OrderLedgerRepository extends Context.Tag("OrderLedgerRepository")<
   OrderLedgerRepository,
   {
@@ -47,6 +81,31 @@ export class OrderLedgerRepository extends Context.Tag("OrderLedgerRepository")<
       items: ReadonlyArray<CreateOrderLedgerItemParams>
     ) => Effect.Effect<ReadonlyArray<OrderLedgerItem>, SqlError.SqlError>
 
+    /**
+     * Create the ledger's payment instruments in PENDING status
+     */
+    readonly createPayments: (
+      payments: ReadonlyArray<CreateOrderLedgerPaymentParams>
+    ) => Effect.Effect<ReadonlyArray<OrderLedgerPayment>, SqlError.SqlError>
+
+    /**
+     * Record the authorization outcome of one payment instrument.
+     * A null authorization ID leaves the stored one untouched.
+     */
+    readonly updatePaymentStatus: (
+      paymentId: string,
+      status: OrderLedgerPaymentStatus,
+      paymentAuthorizationId: string | null
+    ) => Effect.Effect<OrderLedgerPayment, SqlError.SqlError>
+
+    /**
+     * Find the ledger's payment instruments in authorization order.
+     * Empty for ledgers created before split tender.
+     */
+    readonly findPayments: (
+      orderLedgerId: OrderLedgerId
+    ) => Effect.Effect<ReadonlyArray<OrderLedgerPayment>, SqlError.SqlError>
+
     /**
      * Atomically update ledger status, set authorization ID, write outbox event, and NOTIFY.
      * This is the critical transactional operation after payment authorization.
@@ -55,6 +114,47 @@ export class OrderLedgerRepository extends Context.Tag("OrderLedgerRepository")<
       params: UpdateLedgerWithAuthorizationParams
     ) => Effect.Effect<OrderLedger, SqlError.SqlError>
 
+    /**
+     * Park the ledger in AWAITING_CUSTOMER_ACTION with the pending authorization ID.
+     * No outbox event: the saga must not start until the customer completes 3-D Secure.
+     */
+    readonly markAwaitingCustomerAction: (
+      orderLedgerId: OrderLedgerId,
+      paymentAuthorizationId: string
+    ) => Effect.Effect<OrderLedger, SqlError.SqlError>
+
+    /**
+     * Atomically move an AWAITING_CUSTOMER_ACTION ledger to AUTHORIZED, write the
+     * OrderAuthorized outbox event, and NOTIFY.
+     * Returns None if the ledger is no longer AWAITING_CUSTOMER_ACTION.
+     */
+    readonly completeCustomerActionWithOutbox: (
+      orderLedgerId: OrderLedgerId
+    ) => Effect.Effect<Option.Option<OrderLedger>, SqlError.SqlError>
+
+    /**
+     * Atomically move the ledger to CANCELLATION_REQUESTED if it is still in the
+     * expected status, write a CancellationRequested outbox event, and NOTIFY.
+     * The running saga notices the new status at its next step and hands off to
+     * compensation; the event covers a saga whose OrderAuthorized event is no
+     * longer pending, and is a no-op otherwise.
+     * Returns None if the status has moved on since it was read.
+     */
+    readonly requestCancellation: (
+      orderLedgerId: OrderLedgerId,
+      expectedStatus: OrderLedgerStatus
+    ) => Effect.Effect<Option.Option<OrderLedger>, SqlError.SqlError>
+
+    /**
+     * Atomically move a COMPLETED ledger to CANCELLATION_REQUESTED, write a
+     * CancellationRequested outbox event, and NOTIFY. No saga is running for a
+     * completed order, so the event is what starts the refund and release.
+     * Returns None if the ledger is no longer COMPLETED.
+     */
+    readonly requestPostCompletionCancellation: (
+      orderLedgerId: OrderLedgerId
+    ) => Effect.Effect<Option.Option<OrderLedger>, SqlError.SqlError>
+
     /**
      * Update ledger status to AUTHORIZATION_FAILED
      */
@@ -69,5 +169,22 @@ export class OrderLedgerRepository extends Context.Tag("OrderLedgerRepository")<
     readonly findByIdWithItems: (
       orderLedgerId: OrderLedgerId
     ) => Effect.Effect<Option.Option<{ ledger: OrderLedger; items: ReadonlyArray<OrderLedgerItem> }>, SqlError.SqlError>
+
+    /**
+     * Find a user's ledger entries with their items, newest first, keyset-paginated on (created_at, id).
+     * Used for the GET /users/{user_id}/orders endpoint.
+     */
+    readonly findByUserIdWithItems: (
+      userId: UserId,
+      options: FindByUserIdOptions
+    ) => Effect.Effect<ReadonlyArray<{ ledger: OrderLedger; items: ReadonlyArray<OrderLedgerItem> }>, SqlError.SqlError>
+
+    /**
+     * Find the saga step history for an order ledger, oldest first.
+     * Used for the GET /orders/{order_ledger_id}/history endpoint.
+     */
+    readonly findStepEvents: (
+      orderLedgerId: OrderLedgerId
+    ) => Effect.Effect<ReadonlyArray<SagaStepEvent>, SqlError.SqlError>
   }
 >() {}
@@ -4,9 +4,24 @@ import {
   OrderLedgerRepository,
   type CreateOrderLedgerParams,
   type CreateOrderLedgerItemParams,
+  type CreateOrderLedgerPaymentParams,
+  type FindByUserIdOptions,
   type UpdateLedgerWithAuthorizationParams
 } from "./OrderLedgerRepository.js"
-import { OrderLedger, OrderLedgerItem, type OrderLedgerId, type OrderLedgerStatus, type UserId, type ProductId } from "../domain/OrderLedger.js"
+import {
+  OrderLedger,
+  OrderLedgerItem,
+  OrderLedgerPayment,
+  SagaStepEvent,
+  ShippingDestination,
+  type OrderLedgerId,
+  type OrderLedgerPaymentStatus,
+  type PaymentMethod,
+  type OrderLedgerStatus,
+  type SagaStepOutcome,
+  type UserId,
+  type ProductId
+} from "../domain/OrderLedger.js"
 
 // Row type for order_ledger table
 interface OrderLedgerRow {
@@ -17,6 +32,12 @@ interface OrderLedgerRow {
   status: string
   total_amount_cents: number
   currency: string
+  fx_base_currency: string
+  // NUMERIC comes back from pg as a string to preserve precision
+  fx_rate: string
+  shipping_latitude: string | null
+  shipping_longitude: string | null
+  allow_partial: boolean
   payment_authorization_id: string | null
   created_at: string
   updated_at: string
@@ -29,6 +50,23 @@ interface OrderLedgerItemRow {
   product_id: string
   quantity: number
   unit_price_cents: number
+  product_sku: string | null
+  product_name: string | null
+  fulfilled_quantity: number | null
+  created_at: string
+}
+
+// Row type for order_ledger_payments table
+interface OrderLedgerPaymentRow {
+  id: string
+  order_ledger_id: string
+  sequence: number
+  method: string
+  amount_cents: number
+  currency: string
+  status: string
+  payment_authorization_id: string | null
+  payment_capture_id: string | null
   created_at: string
 }
 
@@ -42,6 +80,12 @@ interface OrderLedgerWithItemsRow {
   status: string
   total_amount_cents: number
   currency: string
+  fx_base_currency: string
+  // NUMERIC comes back from pg as a string to preserve precision
+  fx_rate: string
+  shipping_latitude: string | null
+  shipping_longitude: string | null
+  allow_partial: boolean
   payment_authorization_id: string | null
   created_at: string
   updated_at: string
@@ -50,9 +94,28 @@ interface OrderLedgerWithItemsRow {
   product_id: string | null
   quantity: number | null
   unit_price_cents: number | null
+  product_sku: string | null
+  product_name: string | null
+  fulfilled_quantity: number | null
   item_created_at: string | null
 }
 
+// Row type for saga_step_events table
+interface SagaStepEventRow {
+  id: string
+  order_ledger_id: string
+  step_name: string
+  outcome: string
+  from_status: string
+  to_status: string | null
+  attempt: number
+  error_tag: string | null
+  error_reason: string | null
+  duration_ms: number
+  trace_id: string | null
+  created_at: string
+}
+
 // Convert database row to domain model
 const rowToOrderLedger = (row: OrderLedgerRow): OrderLedger =>
   new OrderLedger({
@@ -63,6 +126,16 @@ const rowToOrderLedger = (row: OrderLedgerRow): OrderLedger =>
     status: row.status as OrderLedgerStatus,
     totalAmountCents: row.total_amount_cents,
     currency: row.currency,
+    fxBaseCurrency: row.fx_base_currency,
+    fxRate: Number(row.fx_rate),
+    shippingDestination:
+      row.shipping_latitude === null || row.shipping_longitude === null
+        ? null
+        : new ShippingDestination({
+            latitude: Number(row.shipping_latitude),
+            longitude: Number(row.shipping_longitude)
+          }),
+    allowPartial: row.allow_partial,
     paymentAuthorizationId: row.payment_authorization_id,
     createdAt: DateTime.unsafeFromDate(new Date(row.created_at)),
     updatedAt: DateTime.unsafeFromDate(new Date(row.updated_at))
@@ -76,6 +149,41 @@ const rowToOrderLedgerItem = (row: OrderLedgerItemRow): OrderLedgerItem =>
     productId: row.product_id as ProductId,
     quantity: row.quantity,
     unitPriceCents: row.unit_price_cents,
+    productSku: row.product_sku,
+    productName: row.product_name,
+    fulfilledQuantity: row.fulfilled_quantity,
+    createdAt: DateTime.unsafeFromDate(new Date(row.created_at))
+  })
+
+// Convert database row to domain payment model
+const rowToOrderLedgerPayment = (row: OrderLedgerPaymentRow): OrderLedgerPayment =>
+  new OrderLedgerPayment({
+    id: row.id,
+    orderLedgerId: row.order_ledger_id as OrderLedgerId,
+    sequence: row.sequence,
+    method: row.method as PaymentMethod,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    status: row.status as OrderLedgerPaymentStatus,
+    paymentAuthorizationId: row.payment_authorization_id,
+    paymentCaptureId: row.payment_capture_id,
+    createdAt: DateTime.unsafeFromDate(new Date(row.created_at))
+  })
+
+// Convert database row to saga step event
+const rowToSagaStepEvent = (row: SagaStepEventRow): SagaStepEvent =>
+  new SagaStepEvent({
+    id: row.id,
+    orderLedgerId: row.order_ledger_id as OrderLedgerId,
+    stepName: row.step_name,
+    outcome: row.outcome as SagaStepOutcome,
+    fromStatus: row.from_status as OrderLedgerStatus,
+    toStatus: row.to_status as OrderLedgerStatus | null,
+    attempt: row.attempt,
+    errorTag: row.error_tag,
+    errorReason: row.error_reason,
+    durationMs: row.duration_ms,
+    traceId: row.trace_id,
     createdAt: DateTime.unsafeFromDate(new Date(row.created_at))
   })
 
@@ -84,12 +192,55 @@ export const OrderLedgerRepositoryLive = Layer.effect(
   Effect.gen(function* () {
     const sql = yield* PgClient.PgClient
 
+    // OrderAuthorized starts the saga - callers run this in the transaction that authorizes the ledger
+    const writeOrderAuthorized = (ledgerRow: OrderLedgerRow) =>
+      Effect.gen(function* () {
+        const outboxPayload = JSON.stringify({
+          order_ledger_id: ledgerRow.id,
+          user_id: ledgerRow.user_id,
+          email: ledgerRow.email,
+          total_amount_cents: ledgerRow.total_amount_cents,
+          currency: ledgerRow.currency,
+          payment_authorization_id: ledgerRow.payment_authorization_id,
+          shipping_destination:
+            ledgerRow.shipping_latitude === null || ledgerRow.shipping_longitude === null
+              ? null
+              : { latitude: Number(ledgerRow.shipping_latitude), longitude: Number(ledgerRow.shipping_longitude) },
+          allow_partial: ledgerRow.allow_partial
+        })
+
+        yield* sql`
+          INSERT INTO outbox (aggregate_type, aggregate_id, event_type, payload)
+          VALUES ('order_ledger', ${ledgerRow.id}, 'OrderAuthorized', ${outboxPayload}::jsonb)
+        `
+
+        // NOTIFY for real-time processing
+        yield* sql`SELECT pg_notify('order_events', 'OrderAuthorized')`
+      })
+
+    const writeCancellationRequested = (orderLedgerId: OrderLedgerId, previousStatus: OrderLedgerStatus) =>
+      Effect.gen(function* () {
+        const outboxPayload = JSON.stringify({
+          order_ledger_id: orderLedgerId,
+          previous_status: previousStatus
+        })
+
+        yield* sql`
+          INSERT INTO outbox (aggregate_type, aggregate_id, event_type, payload)
+          VALUES ('order_ledger', ${orderLedgerId}, 'CancellationRequested', ${outboxPayload}::jsonb)
+        `
+
+        // NOTIFY for real-time processing
+        yield* sql`SELECT pg_notify('order_events', 'CancellationRequested')`
+      })
+
     return {
       findByClientRequestId: (clientRequestId: string) =>
         Effect.gen(function* () {
           const rows = yield* sql<OrderLedgerRow>`
             SELECT id, client_request_id, user_id, email, status,
-                   total_amount_cents, currency, payment_authorization_id,
+                   total_amount_cents, currency, fx_base_currency, fx_rate,
+                   shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
                    created_at, updated_at
             FROM order_ledger
             WHERE client_request_id = ${clientRequestId}
@@ -105,10 +256,15 @@ export const OrderLedgerRepositoryLive = Layer.effect(
       create: (params: CreateOrderLedgerParams) =>
         Effect.gen(function* () {
           const rows = yield* sql<OrderLedgerRow>`
-            INSERT INTO order_ledger (client_request_id, user_id, email, total_amount_cents, currency)
-            VALUES (${params.clientRequestId}, ${params.userId}, ${params.email}, ${params.totalAmountCents}, ${params.currency})
+            INSERT INTO order_ledger (client_request_id, user_id, email, total_amount_cents, currency,
+                                      fx_base_currency, fx_rate, shipping_latitude, shipping_longitude, allow_partial)
+            VALUES (${params.clientRequestId}, ${params.userId}, ${params.email}, ${params.totalAmountCents}, ${params.currency},
+                    ${params.fxBaseCurrency}, ${params.fxRate},
+                    ${params.shippingDestination?.latitude ?? null}, ${params.shippingDestination?.longitude ?? null},
+                    ${params.allowPartial})
             RETURNING id, client_request_id, user_id, email, status,
-                      total_amount_cents, currency, payment_authorization_id,
+                      total_amount_cents, currency, fx_base_currency, fx_rate,
+                      shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
                       created_at, updated_at
           `
 
@@ -120,15 +276,60 @@ export const OrderLedgerRepositoryLive = Layer.effect(
           Effect.forEach(items, (item) =>
             Effect.gen(function* () {
               const rows = yield* sql<OrderLedgerItemRow>`
-                INSERT INTO order_ledger_items (order_ledger_id, product_id, quantity, unit_price_cents)
-                VALUES (${item.orderLedgerId}, ${item.productId}, ${item.quantity}, ${item.unitPriceCents})
-                RETURNING id, order_ledger_id, product_id, quantity, unit_price_cents, created_at
+                INSERT INTO order_ledger_items (order_ledger_id, product_id, quantity, unit_price_cents, product_sku, product_name)
+                VALUES (${item.orderLedgerId}, ${item.productId}, ${item.quantity}, ${item.unitPriceCents}, ${item.productSku}, ${item.productName})
+                RETURNING id, order_ledger_id, product_id, quantity, unit_price_cents, product_sku, product_name, fulfilled_quantity, created_at
               `
               return rowToOrderLedgerItem(rows[0])
             })
           )
         ),
 
+      createPayments: (payments: ReadonlyArray<CreateOrderLedgerPaymentParams>) =>
+        sql.withTransaction(
+          Effect.forEach(payments, (payment) =>
+            Effect.gen(function* () {
+              const rows = yield* sql<OrderLedgerPaymentRow>`
+                INSERT INTO order_ledger_payments (order_ledger_id, sequence, method, amount_cents, currency)
+                VALUES (${payment.orderLedgerId}, ${payment.sequence}, ${payment.method}, ${payment.amountCents}, ${payment.currency})
+                RETURNING id, order_ledger_id, sequence, method, amount_cents, currency, status,
+                          payment_authorization_id, payment_capture_id, created_at
+              `
+              return rowToOrderLedgerPayment(rows[0])
+            })
+          )
+        ),
+
+      updatePaymentStatus: (
+        paymentId: string,
+        status: OrderLedgerPaymentStatus,
+        paymentAuthorizationId: string | null
+      ) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OrderLedgerPaymentRow>`
+            UPDATE order_ledger_payments
+            SET status = ${status},
+                payment_authorization_id = COALESCE(${paymentAuthorizationId}, payment_authorization_id)
+            WHERE id = ${paymentId}
+            RETURNING id, order_ledger_id, sequence, method, amount_cents, currency, status,
+                      payment_authorization_id, payment_capture_id, created_at
+          `
+
+          return rowToOrderLedgerPayment(rows[0])
+        }),
+
+      findPayments: (orderLedgerId: OrderLedgerId) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OrderLedgerPaymentRow>`
+            SELECT id, order_ledger_id, sequence, method, amount_cents, currency, status,
+                   payment_authorization_id, payment_capture_id, created_at
+            FROM order_ledger_payments
+            WHERE order_ledger_id = ${orderLedgerId}
+            ORDER BY sequence ASC
+          `
+          return rows.map(rowToOrderLedgerPayment)
+        }),
+
       updateWithAuthorizationAndOutbox: (params: UpdateLedgerWithAuthorizationParams) =>
         Effect.gen(function* () {
           // CRITICAL: All operations must be in a single transaction
@@ -141,35 +342,115 @@ export const OrderLedgerRepositoryLive = Layer.effect(
                     payment_authorization_id = ${params.paymentAuthorizationId}
                 WHERE id = ${params.orderLedgerId}
                 RETURNING id, client_request_id, user_id, email, status,
-                          total_amount_cents, currency, payment_authorization_id,
+                          total_amount_cents, currency, fx_base_currency, fx_rate,
+                          shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
                           created_at, updated_at
               `
 
               const ledgerRow = ledgerRows[0]
 
-              // 2. Write outbox event
-              const outboxPayload = JSON.stringify({
-                order_ledger_id: params.orderLedgerId,
-                user_id: ledgerRow.user_id,
-                email: ledgerRow.email,
-                total_amount_cents: ledgerRow.total_amount_cents,
-                currency: ledgerRow.currency,
-                payment_authorization_id: params.paymentAuthorizationId
-              })
-
-              yield* sql`
-                INSERT INTO outbox (aggregate_type, aggregate_id, event_type, payload)
-                VALUES ('order_ledger', ${params.orderLedgerId}, 'OrderAuthorized', ${outboxPayload}::jsonb)
-              `
-
-              // 3. NOTIFY for real-time processing
-              yield* sql`SELECT pg_notify('order_events', 'OrderAuthorized')`
+              // 2. Write outbox event and NOTIFY
+              yield* writeOrderAuthorized(ledgerRow)
 
               return rowToOrderLedger(ledgerRow)
             })
           )
         }),
 
+      markAwaitingCustomerAction: (orderLedgerId: OrderLedgerId, paymentAuthorizationId: string) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OrderLedgerRow>`
+            UPDATE order_ledger
+            SET status = 'AWAITING_CUSTOMER_ACTION',
+                payment_authorization_id = ${paymentAuthorizationId}
+            WHERE id = ${orderLedgerId}
+            RETURNING id, client_request_id, user_id, email, status,
+                      total_amount_cents, currency, fx_base_currency, fx_rate,
+                      shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
+                      created_at, updated_at
+          `
+
+          return rowToOrderLedger(rows[0])
+        }),
+
+      completeCustomerActionWithOutbox: (orderLedgerId: OrderLedgerId) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // 1. Update ledger status, only if still waiting on the customer
+            const rows = yield* sql<OrderLedgerRow>`
+              UPDATE order_ledger
+              SET status = 'AUTHORIZED'
+              WHERE id = ${orderLedgerId}
+                AND status = 'AWAITING_CUSTOMER_ACTION'
+              RETURNING id, client_request_id, user_id, email, status,
+                        total_amount_cents, currency, fx_base_currency, fx_rate,
+                        shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
+                        created_at, updated_at
+            `
+
+            if (rows.length === 0) {
+              return Option.none()
+            }
+
+            // 2. Write outbox event and NOTIFY
+            yield* writeOrderAuthorized(rows[0])
+
+            return Option.some(rowToOrderLedger(rows[0]))
+          })
+        ),
+
+      requestCancellation: (orderLedgerId: OrderLedgerId, expectedStatus: OrderLedgerStatus) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // 1. Update ledger status, only if the saga has not moved on
+            const rows = yield* sql<OrderLedgerRow>`
+              UPDATE order_ledger
+              SET status = 'CANCELLATION_REQUESTED'
+              WHERE id = ${orderLedgerId}
+                AND status = ${expectedStatus}
+              RETURNING id, client_request_id, user_id, email, status,
+                        total_amount_cents, currency, fx_base_currency, fx_rate,
+                        shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
+                        created_at, updated_at
+            `
+
+            if (rows.length === 0) {
+              return Option.none()
+            }
+
+            // 2. Write outbox event and NOTIFY, in case the OrderAuthorized event is no longer pending
+            yield* writeCancellationRequested(orderLedgerId, expectedStatus)
+
+            return Option.some(rowToOrderLedger(rows[0]))
+          })
+        ),
+
+      requestPostCompletionCancellation: (orderLedgerId: OrderLedgerId) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // 1. Update ledger status, only if still COMPLETED
+            const rows = yield* sql<OrderLedgerRow>`
+              UPDATE order_ledger
+              SET status = 'CANCELLATION_REQUESTED'
+              WHERE id = ${orderLedgerId}
+                AND status = 'COMPLETED'
+              RETURNING id, client_request_id, user_id, email, status,
+                        total_amount_cents, currency, fx_base_currency, fx_rate,
+                        shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
+                        created_at, updated_at
+            `
+
+            if (rows.length === 0) {
+              return Option.none()
+            }
+
+            // 2. Write outbox event and NOTIFY
+            yield* writeCancellationRequested(orderLedgerId, "COMPLETED")
+
+            return Option.some(rowToOrderLedger(rows[0]))
+          })
+        ),
+
       markAuthorizationFailed: (orderLedgerId: OrderLedgerId) =>
         Effect.gen(function* () {
           const rows = yield* sql<OrderLedgerRow>`
@@ -177,7 +458,8 @@ export const OrderLedgerRepositoryLive = Layer.effect(
             SET status = 'AUTHORIZATION_FAILED'
             WHERE id = ${orderLedgerId}
             RETURNING id, client_request_id, user_id, email, status,
-                      total_amount_cents, currency, payment_authorization_id,
+                      total_amount_cents, currency, fx_base_currency, fx_rate,
+                      shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id,
                       created_at, updated_at
           `
 
@@ -190,10 +472,11 @@ export const OrderLedgerRepositoryLive = Layer.effect(
           const rows = yield* sql<OrderLedgerWithItemsRow>`
             SELECT
               ol.id, ol.client_request_id, ol.user_id, ol.email, ol.status,
-              ol.total_amount_cents, ol.currency, ol.payment_authorization_id,
+              ol.total_amount_cents, ol.currency, ol.fx_base_currency, ol.fx_rate,
+              ol.shipping_latitude, ol.shipping_longitude, ol.allow_partial, ol.payment_authorization_id,
               ol.created_at, ol.updated_at,
               oli.id as item_id, oli.product_id, oli.quantity, oli.unit_price_cents,
-              oli.created_at as item_created_at
+              oli.product_sku, oli.product_name, oli.fulfilled_quantity, oli.created_at as item_created_at
             FROM order_ledger ol
             LEFT JOIN order_ledger_items oli ON oli.order_ledger_id = ol.id
             WHERE ol.id = ${orderLedgerId}
@@ -217,11 +500,66 @@ export const OrderLedgerRepositoryLive = Layer.effect(
                 productId: row.product_id as ProductId,
                 quantity: row.quantity!,
                 unitPriceCents: row.unit_price_cents!,
+                productSku: row.product_sku,
+                productName: row.product_name,
+                fulfilledQuantity: row.fulfilled_quantity,
                 createdAt: DateTime.unsafeFromDate(new Date(row.item_created_at!))
               })
             )
 
           return Option.some({ ledger, items })
+        }),
+
+      findByUserIdWithItems: (userId: UserId, options: FindByUserIdOptions) =>
+        Effect.gen(function* () {
+          const conditions = [
+            sql`user_id = ${userId}`,
+            // Resolve the cursor's position in SQL so it keeps the column's full precision
+            ...(options.after !== undefined
+              ? [sql`(created_at, id) < (SELECT created_at, id FROM order_ledger WHERE id = ${options.after})`]
+              : [])
+          ]
+
+          const ledgerRows = yield* sql<OrderLedgerRow>`
+            SELECT id, client_request_id, user_id, email, status, total_amount_cents,
+                   currency, fx_base_currency, fx_rate,
+                   shipping_latitude, shipping_longitude, allow_partial, payment_authorization_id, created_at, updated_at
+            FROM order_ledger
+            WHERE ${sql.and(conditions)}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${options.limit}
+          `
+
+          if (ledgerRows.length === 0) {
+            return []
+          }
+
+          const ledgerIds = ledgerRows.map((row) => row.id)
+          const itemRows = yield* sql<OrderLedgerItemRow>`
+            SELECT id, order_ledger_id, product_id, quantity, unit_price_cents, product_sku, product_name, fulfilled_quantity, created_at
+            FROM order_ledger_items
+            WHERE order_ledger_id = ANY(${ledgerIds}::uuid[])
+            ORDER BY created_at ASC
+          `
+
+          return ledgerRows.map((row) => ({
+            ledger: rowToOrderLedger(row),
+            items: itemRows
+              .filter((item) => item.order_ledger_id === row.id)
+              .map(rowToOrderLedgerItem)
+          }))
+        }),
+
+      findStepEvents: (orderLedgerId: OrderLedgerId) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<SagaStepEventRow>`
+            SELECT id, order_ledger_id, step_name, outcome, from_status, to_status,
+                   attempt, error_tag, error_reason, duration_ms, trace_id, created_at
+            FROM saga_step_events
+            WHERE order_ledger_id = ${orderLedgerId}
+            ORDER BY created_at ASC, id ASC
+          `
+          return rows.map(rowToSagaStepEvent)
         })
     }
   })
@@ -0,0 +1,52 @@
+import { Context, Effect } from "effect"
+import type { InventoryServiceError } from "../domain/errors.js"
+
+// Catalog data for a single product, as priced by the Inventory Service
+export interface ProductPrice {
+  readonly productId: string
+  readonly sku: string
+  readonly name: string
+  readonly priceCents: number
+}
+
+// A batch of prices quoted in one currency, with the FX rate the quote was converted at
+export interface ProductPriceQuote {
+  readonly currency: string
+  readonly baseCurrency: string
+  readonly fxRate: number
+  readonly prices: ReadonlyArray<ProductPrice>
+}
+
+// Current stock for a single product, as reported by the Inventory Service
+export interface ProductStock {
+  readonly productId: string
+  readonly sku: string
+  readonly stockQuantity: number
+  // Units that may be ordered beyond stockQuantity as backorders; null when uncapped
+  readonly backorderableQuantity: number | null
+}
+
+export class InventoryClient extends Context.Tag("InventoryClient")<
+  InventoryClient,
+  {
+    /**
+     * Look up current catalog prices for a batch of products, quoted in `currency`.
+     * Unknown product IDs are simply absent from the result.
+     * Fails with InventoryServiceError if the service is unavailable, the currency
+     * is not supported, or the quote comes back in a different currency.
+     */
+    readonly getProductPrices: (
+      productIds: ReadonlyArray<string>,
+      currency: string
+    ) => Effect.Effect<ProductPriceQuote, InventoryServiceError>
+
+    /**
+     * Look up current stock levels for a batch of products.
+     * Unknown product IDs are simply absent from the result.
+     * Fails with InventoryServiceError if the service is unavailable.
+     */
+    readonly getAvailabilities: (
+      productIds: ReadonlyArray<string>
+    ) => Effect.Effect<ReadonlyArray<ProductStock>, InventoryServiceError>
+  }
+>() {}
@@ -0,0 +1,138 @@
+import { Layer, Effect, Config, Duration, Schema } from "effect"
+import { HttpClient, HttpClientRequest } from "@effect/platform"
+import { InventoryClient, type ProductPrice, type ProductPriceQuote, type ProductStock } from "./InventoryClient.js"
+import { InventoryServiceError } from "../domain/errors.js"
+
+// Schema for successful price lookup response
+const PriceLookupResponse = Schema.Struct({
+  products: Schema.Array(Schema.Struct({
+    product_id: Schema.String,
+    sku: Schema.String,
+    name: Schema.String,
+    price_cents: Schema.Number
+  })),
+  missing_product_ids: Schema.Array(Schema.String),
+  currency: Schema.String,
+  base_currency: Schema.String,
+  fx_rate: Schema.Number
+})
+
+// Schema for successful batch availability response
+const AvailabilityLookupResponse = Schema.Struct({
+  products: Schema.Array(Schema.Struct({
+    product_id: Schema.String,
+    sku: Schema.String,
+    stock_quantity: Schema.Number,
+    available: Schema.Boolean,
+    // null when backorders are uncapped
+    backorderable_quantity: Schema.optionalWith(Schema.NullOr(Schema.Number), { default: () => 0 })
+  })),
+  missing_product_ids: Schema.Array(Schema.String)
+})
+
+export const InventoryClientLive = Layer.effect(
+  InventoryClient,
+  Effect.gen(function* () {
+    const baseUrl = yield* Config.string("INVENTORY_SERVICE_URL").pipe(
+      Config.withDefault("http://localhost:3001")
+    )
+    const client = yield* HttpClient.HttpClient
+
+    // Both lookups are batched POSTs of product IDs with the same failure handling
+    const postProductLookup = <A, I>(path: string, body: { readonly productIds: ReadonlyArray<string>; readonly currency?: string }, schema: Schema.Schema<A, I>) =>
+      Effect.gen(function* () {
+        const request = HttpClientRequest.post(`${baseUrl}${path}`).pipe(
+          HttpClientRequest.bodyUnsafeJson(body)
+        )
+
+        const response = yield* client.execute(request).pipe(
+          Effect.timeout(Duration.seconds(10)),
+          Effect.catchTag("TimeoutException", () =>
+            Effect.fail(new InventoryServiceError({
+              reason: "Request timed out",
+              isRetryable: true
+            }))
+          ),
+          Effect.catchTag("ResponseError", () =>
+            Effect.fail(new InventoryServiceError({
+              reason: "HTTP response error",
+              isRetryable: true
+            }))
+          ),
+          Effect.catchTag("RequestError", () =>
+            Effect.fail(new InventoryServiceError({
+              reason: "Connection error",
+              isRetryable: true
+            }))
+          )
+        )
+
+        if (response.status === 200) {
+          const rawBody = yield* response.json.pipe(
+            Effect.catchAll(() =>
+              Effect.fail(new InventoryServiceError({
+                reason: "Failed to parse response JSON",
+                isRetryable: false
+              }))
+            )
+          )
+          return yield* Schema.decodeUnknown(schema)(rawBody).pipe(
+            Effect.mapError(() => new InventoryServiceError({
+              reason: "Invalid response format from inventory service",
+              isRetryable: false
+            }))
+          )
+        }
+
+        if (response.status === 422) {
+          return yield* Effect.fail(new InventoryServiceError({
+            reason: "Inventory service rejected the lookup (unsupported currency)",
+            isRetryable: false
+          }))
+        }
+
+        // Unexpected status - 5xx may be transient, anything else is a contract problem
+        return yield* Effect.fail(new InventoryServiceError({
+          reason: `Unexpected response status: ${response.status}`,
+          isRetryable: response.status >= 500
+        }))
+      })
+
+    return {
+      getProductPrices: (productIds: ReadonlyArray<string>, currency: string): Effect.Effect<ProductPriceQuote, InventoryServiceError> =>
+        postProductLookup("/products/prices", { productIds, currency }, PriceLookupResponse).pipe(
+          Effect.flatMap((body) =>
+            // Totals are computed from these prices, so a quote in any other currency is unusable
+            body.currency !== currency
+              ? Effect.fail(new InventoryServiceError({
+                  reason: `Prices quoted in ${body.currency}, expected ${currency}`,
+                  isRetryable: false
+                }))
+              : Effect.succeed({
+                  currency: body.currency,
+                  baseCurrency: body.base_currency,
+                  fxRate: body.fx_rate,
+                  prices: body.products.map((product) => ({
+                    productId: product.product_id,
+                    sku: product.sku,
+                    name: product.name,
+                    priceCents: product.price_cents
+                  }) satisfies ProductPrice)
+                } satisfies ProductPriceQuote)
+          )
+        ),
+
+      getAvailabilities: (productIds: ReadonlyArray<string>): Effect.Effect<ReadonlyArray<ProductStock>, InventoryServiceError> =>
+        postProductLookup("/products/availability", { productIds }, AvailabilityLookupResponse).pipe(
+          Effect.map((body) =>
+            body.products.map((product) => ({
+              productId: product.product_id,
+              sku: product.sku,
+              stockQuantity: product.stock_quantity,
+              backorderableQuantity: product.backorderable_quantity
+            }) satisfies ProductStock)
+          )
+        )
+    }
+  })
+)
@@ -1,16 +1,27 @@
 import { Context, Effect } from "effect"
-import type { CreateOrderRequest } from "../domain/OrderLedger.js"
+import type { CreateOrderRequest, CustomerOrderStatus } from "../domain/OrderLedger.js"
 import type {
   PaymentDeclinedError,
   PaymentGatewayError,
   DuplicateRequestError,
-  OrderLedgerNotFoundError
+  OrderLedgerNotFoundError,
+  OrderNotCancellableError,
+  OrderNotAwaitingCustomerActionError,
+  ProductNotFoundError,
+  InvalidPaymentSplitError,
+  MultipleAuthenticationsRequiredError,
+  InsufficientStockError,
+  InventoryServiceError,
+  OrdersServiceError,
+  InvalidCursorError
 } from "../domain/errors.js"
 import type { SqlError } from "@effect/sql"
 
 export interface CreateOrderResult {
   readonly orderLedgerId: string
   readonly status: string
+  // Set when the order is AWAITING_CUSTOMER_ACTION: where the customer completes 3-D Secure
+  readonly challengeUrl: string | null
 }
 
 // Result type for getOrderStatus
@@ -22,6 +33,9 @@ export interface OrderStatusResult {
   readonly email: string
   readonly totalAmountCents: number
   readonly currency: string
+  readonly fxBaseCurrency: string
+  readonly fxRate: number
+  readonly allowPartial: boolean
   readonly paymentAuthorizationId: string | null
   readonly createdAt: string
   readonly updatedAt: string
@@ -29,9 +43,82 @@ export interface OrderStatusResult {
     readonly productId: string
     readonly quantity: number
     readonly unitPriceCents: number
+    readonly sku: string | null
+    readonly name: string | null
+    // Set when only part of the quantity could be reserved (allow_partial); null when filled in full
+    readonly fulfilledQuantity: number | null
   }>
 }
 
+// Result type for getOrderHistory
+export interface OrderHistoryResult {
+  readonly orderLedgerId: string
+  readonly status: string
+  readonly events: ReadonlyArray<{
+    readonly stepName: string
+    readonly outcome: string
+    readonly fromStatus: string
+    readonly toStatus: string | null
+    readonly attempt: number
+    readonly errorTag: string | null
+    readonly errorReason: string | null
+    readonly durationMs: number
+    readonly traceId: string | null
+    readonly createdAt: string
+  }>
+}
+
+// Result type for cancelOrder
+// One entry of a user's order history: the ledger joined with the order the saga created for it
+export interface UserOrderSummary {
+  readonly orderLedgerId: string
+  readonly status: string
+  readonly customerStatus: CustomerOrderStatus
+  readonly totalAmountCents: number
+  readonly currency: string
+  readonly createdAt: string
+  readonly updatedAt: string
+  readonly items: ReadonlyArray<{
+    readonly productId: string
+    readonly quantity: number
+    readonly unitPriceCents: number
+    readonly sku: string | null
+    readonly name: string | null
+    // Set when only part of the quantity could be reserved (allow_partial); null when filled in full
+    readonly fulfilledQuantity: number | null
+  }>
+  // Null until the saga's first step creates the order, and for orders that never got that far
+  readonly order: {
+    readonly orderId: string
+    readonly status: string
+    readonly items: ReadonlyArray<{
+      readonly productId: string
+      readonly quantity: number
+      readonly unitPriceCents: number
+    }>
+  } | null
+}
+
+// Result type for listUserOrders
+export interface UserOrdersPage {
+  readonly orders: ReadonlyArray<UserOrderSummary>
+  // ID of the last ledger entry on this page, or null when there are no more
+  readonly nextCursor: string | null
+}
+
+export interface CancelOrderResult {
+  readonly orderLedgerId: string
+  // CANCELLATION_REQUESTED, or CANCELLED for a repeat request after compensation finished
+  readonly status: string
+}
+
+// Result type for completeAuthorization
+export interface CompleteAuthorizationResult {
+  readonly orderLedgerId: string
+  // AUTHORIZED, or wherever the saga has moved the order since
+  readonly status: string
+}
+
 export class OrderService extends Context.Tag("OrderService")<
   OrderService,
   {
@@ -39,9 +126,24 @@ export class OrderService extends Context.Tag("OrderService")<
      * Process a new order request.
      *
      * 1. Check for duplicate (idempotency)
-     * 2. Create ledger entry
-     * 3. Authorize payment
-     * 4. Update ledger with authorization result
+     * 2. Price items from the Inventory Service catalog
+     * 3. Optionally check stock (STOCK_PRECHECK_ENABLED)
+     * 4. Create ledger entry
+     * 5. Authorize payment
+     * 6. Update ledger with authorization result
+     *
+     * If the payment needs 3-D Secure the ledger waits in AWAITING_CUSTOMER_ACTION
+     * with no outbox event, and the result carries the challenge URL.
+     *
+     * Fails with ProductNotFoundError if any product ID is unknown to the catalog,
+     * and with InsufficientStockError if the pre-check is enabled and stock is short.
+     *
+     * Split tender: each additional payment is authorized for its amount, then the
+     * primary payment for the remainder. If any instrument fails, the holds already
+     * taken are voided. Fails with InvalidPaymentSplitError if the additional
+     * payments leave nothing for the primary payment, and with
+     * MultipleAuthenticationsRequiredError (holds voided, ledger AUTHORIZATION_FAILED)
+     * if more than one instrument needs 3-D Secure.
      *
      * Returns order_ledger_id and status on success.
      */
@@ -51,6 +153,34 @@ export class OrderService extends Context.Tag("OrderService")<
     ) => Effect.Effect<
       CreateOrderResult,
       | DuplicateRequestError
+      | ProductNotFoundError
+      | InvalidPaymentSplitError
+      | MultipleAuthenticationsRequiredError
+      | InsufficientStockError
+      | InventoryServiceError
+      | PaymentDeclinedError
+      | PaymentGatewayError
+      | SqlError.SqlError
+    >
+
+    /**
+     * Finish an AWAITING_CUSTOMER_ACTION order with the customer's 3-D Secure result.
+     *
+     * Completes the payment authorization, then moves the ledger to AUTHORIZED
+     * and writes the OrderAuthorized outbox event that starts the saga. A failed
+     * challenge marks the order AUTHORIZATION_FAILED and fails with
+     * PaymentDeclinedError.
+     *
+     * Repeat callbacks for an authorized order return the current status. Fails
+     * with OrderNotAwaitingCustomerActionError for a declined or never-challenged order.
+     */
+    readonly completeAuthorization: (
+      orderLedgerId: string,
+      authenticationResult: "succeeded" | "failed"
+    ) => Effect.Effect<
+      CompleteAuthorizationResult,
+      | OrderLedgerNotFoundError
+      | OrderNotAwaitingCustomerActionError
       | PaymentDeclinedError
       | PaymentGatewayError
       | SqlError.SqlError
@@ -67,5 +197,54 @@ export class OrderService extends Context.Tag("OrderService")<
       | OrderLedgerNotFoundError
       | SqlError.SqlError
     >
+
+    /**
+     * Get the saga step history of an order, oldest step first.
+     * An order that has not reached the saga yet has an empty history.
+     */
+    readonly getOrderHistory: (
+      orderLedgerId: string
+    ) => Effect.Effect<
+      OrderHistoryResult,
+      | OrderLedgerNotFoundError
+      | SqlError.SqlError
+    >
+
+    /**
+     * List a user's orders, newest first, including ones whose payment failed.
+     * Each ledger entry is joined with its downstream order from the Orders Service.
+     * Fails with InvalidCursorError if the cursor is not one of the user's ledger entries,
+     * and with OrdersServiceError if the Orders Service is unavailable.
+     */
+    readonly listUserOrders: (
+      userId: string,
+      options: { readonly limit: number; readonly cursor?: string }
+    ) => Effect.Effect<
+      UserOrdersPage,
+      | InvalidCursorError
+      | OrdersServiceError
+      | SqlError.SqlError
+    >
+
+    /**
+     * Request cancellation of an order on behalf of the customer.
+     *
+     * - In-flight sagas (AUTHORIZED through PAYMENT_CAPTURED) move to
+     *   CANCELLATION_REQUESTED; the orchestrator stops before the next step
+     *   and compensates.
+     * - COMPLETED orders move to CANCELLATION_REQUESTED with a
+     *   CancellationRequested outbox event that refunds and releases them.
+     *
+     * Repeat requests return the current status. Fails with
+     * OrderNotCancellableError for any other status.
+     */
+    readonly cancelOrder: (
+      orderLedgerId: string
+    ) => Effect.Effect<
+      CancelOrderResult,
+      | OrderLedgerNotFoundError
+      | OrderNotCancellableError
+      | SqlError.SqlError
+    >
   }
 >() {}
@@ -1,18 +1,89 @@
-import { Layer, Effect, Option, DateTime } from "effect"
-import { OrderService, type CreateOrderResult, type OrderStatusResult } from "./OrderService.js"
+import { Layer, Effect, Option, DateTime, Config } from "effect"
+import {
+  OrderService,
+  type CancelOrderResult,
+  type CompleteAuthorizationResult,
+  type CreateOrderResult,
+  type OrderHistoryResult,
+  type OrderStatusResult,
+  type UserOrdersPage
+} from "./OrderService.js"
 import { OrderLedgerRepository } from "../repositories/OrderLedgerRepository.js"
 import { PaymentClient } from "./PaymentClient.js"
-import type { CreateOrderRequest, OrderLedgerId } from "../domain/OrderLedger.js"
-import { DuplicateRequestError, OrderLedgerNotFoundError } from "../domain/errors.js"
+import { InventoryClient } from "./InventoryClient.js"
+import { OrdersClient } from "./OrdersClient.js"
+import {
+  customerStatusFor,
+  type CreateOrderRequest,
+  type OrderLedgerId,
+  type OrderLedgerStatus,
+  type UserId
+} from "../domain/OrderLedger.js"
+import {
+  DuplicateRequestError,
+  InsufficientStockError,
+  InvalidCursorError,
+  InvalidPaymentSplitError,
+  MultipleAuthenticationsRequiredError,
+  OrderLedgerNotFoundError,
+  OrderNotAwaitingCustomerActionError,
+  OrderNotCancellableError,
+  PaymentGatewayError,
+  ProductNotFoundError
+} from "../domain/errors.js"
+
+// Statuses with a saga still running - it stops at its next step once cancellation is requested
+const IN_FLIGHT_STATUSES: ReadonlyArray<OrderLedgerStatus> = [
+  "AUTHORIZED",
+  "ORDER_CREATED",
+  "INVENTORY_RESERVED",
+  "PAYMENT_CAPTURED"
+]
 
-// Placeholder price per item in cents - will be replaced with actual inventory lookup
-const PLACEHOLDER_PRICE_CENTS = 1000
+// The saga only moves forward, so losing the status race can only repeat a few times
+const MAX_CANCELLATION_ATTEMPTS = 5
+
+// The first instrument keeps the request's key, so single-instrument orders authorize as before
+const paymentIdempotencyKey = (idempotencyKey: string, sequence: number) =>
+  sequence === 0 ? idempotencyKey : `${idempotencyKey}-${sequence}`
 
 export const OrderServiceLive = Layer.effect(
   OrderService,
   Effect.gen(function* () {
     const ledgerRepo = yield* OrderLedgerRepository
     const paymentClient = yield* PaymentClient
+    const inventoryClient = yield* InventoryClient
+    const ordersClient = yield* OrdersClient
+    // Fail-fast stock check before payment; off by default so shortages surface through the saga
+    const stockPrecheckEnabled = yield* Config.boolean("STOCK_PRECHECK_ENABLED").pipe(
+      Config.withDefault(false)
+    )
+
+    // Best effort: release holds on an order that will never reach the saga.
+    // A void that fails here leaves the hold to expire at the gateway.
+    const releaseAuthorizations = (
+      orderLedgerId: OrderLedgerId,
+      payments: ReadonlyArray<{ readonly id: string; readonly authorizationId: string }>
+    ) =>
+      Effect.forEach(
+        [...payments].reverse(),
+        (payment) =>
+          paymentClient.voidAuthorization({
+            authorizationId: payment.authorizationId,
+            idempotencyKey: `void-${payment.id}`,
+            reason: "Order payment authorization failed"
+          }).pipe(
+            Effect.zipRight(ledgerRepo.updatePaymentStatus(payment.id, "VOIDED", null)),
+            Effect.catchAll((error) =>
+              Effect.logWarning("Failed to release payment authorization", {
+                orderLedgerId,
+                authorizationId: payment.authorizationId,
+                error
+              })
+            )
+          ),
+        { discard: true }
+      )
 
     return {
       createOrder: (idempotencyKey: string, request: CreateOrderRequest) =>
@@ -40,20 +111,89 @@ export const OrderServiceLive = Layer.effect(
             }))
           }
 
-          // Step 2: Calculate total amount
-          // TODO: In production, call Inventory Service to get actual prices
-          const totalAmountCents = request.items.reduce(
-            (total, item) => total + (item.quantity * PLACEHOLDER_PRICE_CENTS),
+          // Step 2: Look up catalog prices in the order currency, rejecting unknown products before any ledger write
+          const productIds = Array.from(new Set(request.items.map((item) => item.product_id)))
+          const quote = yield* inventoryClient.getProductPrices(productIds, request.currency)
+          const pricesById = new Map(quote.prices.map((price) => [price.productId, price]))
+
+          const missingProductIds = productIds.filter((id) => !pricesById.has(id))
+          if (missingProductIds.length > 0) {
+            yield* Effect.logWarning("Order references unknown products", {
+              idempotencyKey,
+              missingProductIds
+            })
+            return yield* Effect.fail(new ProductNotFoundError({ productIds: missingProductIds }))
+          }
+
+          const pricedItems = request.items.map((item) => ({
+            item,
+            price: pricesById.get(item.product_id)!
+          }))
+
+          const totalAmountCents = pricedItems.reduce(
+            (total, { item, price }) => total + (item.quantity * price.priceCents),
             0
           )
 
-          // Step 3: Create ledger entry with AWAITING_AUTHORIZATION status
+          // Split tender: the additional payments must leave something for the primary payment
+          const additionalPayments = request.additional_payments ?? []
+          const additionalAmountCents = additionalPayments.reduce(
+            (total, payment) => total + payment.amount_cents,
+            0
+          )
+          if (additionalPayments.length > 0 && additionalAmountCents >= totalAmountCents) {
+            return yield* Effect.fail(new InvalidPaymentSplitError({
+              totalAmountCents,
+              additionalAmountCents
+            }))
+          }
+
+          // Step 3 (optional): Synchronous stock pre-check, before any ledger write or payment
+          if (stockPrecheckEnabled) {
+            const requestedByProduct = new Map<string, number>()
+            for (const item of request.items) {
+              requestedByProduct.set(item.product_id, (requestedByProduct.get(item.product_id) ?? 0) + item.quantity)
+            }
+
+            const stock = yield* inventoryClient.getAvailabilities(productIds)
+            const stockById = new Map(stock.map((entry) => [entry.productId, entry]))
+
+            const shortages = Array.from(requestedByProduct.entries()).flatMap(([productId, requestedQuantity]) => {
+              const entry = stockById.get(productId)
+              // Uncapped backorders can never fall short
+              if (entry !== undefined && entry.backorderableQuantity === null) return []
+              const availableQuantity = (entry?.stockQuantity ?? 0) + (entry?.backorderableQuantity ?? 0)
+              return availableQuantity < requestedQuantity
+                ? [{ productId, sku: entry?.sku ?? null, requestedQuantity, availableQuantity }]
+                : []
+            })
+
+            // With allow_partial the order goes ahead as long as something can ship
+            const rejected = request.allow_partial
+              ? shortages.length === requestedByProduct.size &&
+                shortages.every((shortage) => shortage.availableQuantity === 0)
+              : shortages.length > 0
+
+            if (rejected) {
+              yield* Effect.logWarning("Stock pre-check failed", {
+                idempotencyKey,
+                shortProductIds: shortages.map((shortage) => shortage.productId)
+              })
+              return yield* Effect.fail(new InsufficientStockError({ shortages }))
+            }
+          }
+
+          // Step 4: Create ledger entry with AWAITING_AUTHORIZATION status
           const ledger = yield* ledgerRepo.create({
             clientRequestId: idempotencyKey,
             userId: request.user_id,
             email: request.email,
             totalAmountCents,
-            currency: "USD"
+            currency: request.currency,
+            fxBaseCurrency: quote.baseCurrency,
+            fxRate: quote.fxRate,
+            shippingDestination: request.shipping_destination ?? null,
+            allowPartial: request.allow_partial
           })
 
           yield* Effect.logInfo("Order ledger created", {
@@ -61,47 +201,133 @@ export const OrderServiceLive = Layer.effect(
             status: ledger.status
           })
 
-          // Step 4: Create ledger items
-          const itemParams = request.items.map((item) => ({
+          // Step 5: Create ledger items
+          const itemParams = pricedItems.map(({ item, price }) => ({
             orderLedgerId: ledger.id,
             productId: item.product_id,
             quantity: item.quantity,
-            unitPriceCents: PLACEHOLDER_PRICE_CENTS // TODO: Use actual price from inventory
+            unitPriceCents: price.priceCents,
+            productSku: price.sku,
+            productName: price.name
           }))
 
           yield* ledgerRepo.createItems(itemParams)
 
-          // Step 5: Authorize payment
-          const authResult = yield* paymentClient.authorize({
-            userId: request.user_id,
-            amountCents: totalAmountCents,
-            currency: "USD",
-            paymentToken: request.payment.token,
-            idempotencyKey
-          }).pipe(
-            Effect.catchTag("PaymentDeclinedError", (error) =>
-              Effect.gen(function* () {
-                // Mark ledger as failed before re-throwing
-                yield* ledgerRepo.markAuthorizationFailed(ledger.id)
-                yield* Effect.logWarning("Payment declined", {
-                  orderLedgerId: ledger.id,
-                  declineCode: error.declineCode,
-                  reason: error.reason
+          // Step 6: Record the payment instruments - additional payments first, the primary covers the rest
+          const instruments = [
+            ...additionalPayments.map((payment) => ({
+              method: payment.method,
+              token: payment.token,
+              amountCents: payment.amount_cents
+            })),
+            {
+              method: request.payment.method,
+              token: request.payment.token,
+              amountCents: totalAmountCents - additionalAmountCents
+            }
+          ]
+
+          const payments = yield* ledgerRepo.createPayments(
+            instruments.map((instrument, sequence) => ({
+              orderLedgerId: ledger.id,
+              sequence,
+              method: instrument.method,
+              amountCents: instrument.amountCents,
+              currency: request.currency
+            }))
+          )
+
+          // Step 7: Authorize each instrument in sequence, releasing earlier holds if one fails
+          const authorized: Array<{ readonly id: string; readonly authorizationId: string }> = []
+          let primaryAuthorizationId = ""
+          let challengeUrl: string | null = null
+
+          for (const [index, payment] of payments.entries()) {
+            const authResult = yield* paymentClient.authorize({
+              userId: request.user_id,
+              amountCents: payment.amountCents,
+              currency: request.currency,
+              paymentMethod: payment.method,
+              paymentToken: instruments[index].token,
+              idempotencyKey: paymentIdempotencyKey(idempotencyKey, payment.sequence)
+            }).pipe(
+              Effect.tapError(() => releaseAuthorizations(ledger.id, authorized)),
+              Effect.catchTag("PaymentDeclinedError", (error) =>
+                Effect.gen(function* () {
+                  // Mark ledger as failed before re-throwing
+                  yield* ledgerRepo.updatePaymentStatus(payment.id, "DECLINED", null)
+                  yield* ledgerRepo.markAuthorizationFailed(ledger.id)
+                  yield* Effect.logWarning("Payment declined", {
+                    orderLedgerId: ledger.id,
+                    paymentMethod: payment.method,
+                    sequence: payment.sequence,
+                    declineCode: error.declineCode,
+                    reason: error.reason
+                  })
+                  return yield* Effect.fail(error)
                 })
-                return yield* Effect.fail(error)
+              )
+            )
+
+            // A hold in any other currency cannot be captured against the ledger total
+            if (authResult.currency !== request.currency) {
+              yield* releaseAuthorizations(ledger.id, [
+                ...authorized,
+                { id: payment.id, authorizationId: authResult.authorizationId }
+              ])
+              yield* ledgerRepo.markAuthorizationFailed(ledger.id)
+              return yield* Effect.fail(new PaymentGatewayError({
+                reason: `Authorization held in ${authResult.currency}, expected ${request.currency}`,
+                isRetryable: false
+              }))
+            }
+
+            yield* ledgerRepo.updatePaymentStatus(payment.id, authResult.status, authResult.authorizationId)
+            authorized.push({ id: payment.id, authorizationId: authResult.authorizationId })
+            primaryAuthorizationId = authResult.authorizationId
+
+            // The order carries one challenge and the callback one result - a second cannot be completed
+            if (authResult.challengeUrl !== null && challengeUrl !== null) {
+              yield* releaseAuthorizations(ledger.id, authorized)
+              yield* ledgerRepo.markAuthorizationFailed(ledger.id)
+              yield* Effect.logWarning("More than one payment instrument requires customer authentication", {
+                orderLedgerId: ledger.id,
+                sequence: payment.sequence
               })
+              return yield* Effect.fail(new MultipleAuthenticationsRequiredError({ orderLedgerId: ledger.id }))
+            }
+            challengeUrl = challengeUrl ?? authResult.challengeUrl
+          }
+
+          // 3-D Secure: hold the order until the customer completes the challenge
+          if (challengeUrl !== null) {
+            const awaitingLedger = yield* ledgerRepo.markAwaitingCustomerAction(
+              ledger.id,
+              primaryAuthorizationId
             )
-          )
+
+            yield* Effect.logInfo("Payment requires customer authentication", {
+              orderLedgerId: ledger.id,
+              authorizationId: primaryAuthorizationId
+            })
+
+            return {
+              orderLedgerId: awaitingLedger.id,
+              status: awaitingLedger.status,
+              challengeUrl
+            } satisfies CreateOrderResult
+          }
 
           yield* Effect.logInfo("Payment authorized", {
             orderLedgerId: ledger.id,
-            authorizationId: authResult.authorizationId
+            authorizationId: primaryAuthorizationId,
+            instrumentCount: payments.length
           })
 
-          // Step 6: Update ledger with authorization and write outbox event
+          // Step 8: Update ledger with the primary authorization and write outbox event
           const updatedLedger = yield* ledgerRepo.updateWithAuthorizationAndOutbox({
             orderLedgerId: ledger.id,
-            paymentAuthorizationId: authResult.authorizationId,
+            paymentAuthorizationId: primaryAuthorizationId,
             newStatus: "AUTHORIZED"
           })
 
@@ -113,10 +339,116 @@ export const OrderServiceLive = Layer.effect(
 
           return {
             orderLedgerId: updatedLedger.id,
-            status: updatedLedger.status
+            status: updatedLedger.status,
+            challengeUrl: null
           } satisfies CreateOrderResult
         }),
 
+      completeAuthorization: (orderLedgerId: string, authenticationResult: "succeeded" | "failed") =>
+        Effect.gen(function* () {
+          const ledgerId = orderLedgerId as OrderLedgerId
+
+          const { ledger } = yield* ledgerRepo.findByIdWithItems(ledgerId).pipe(
+            Effect.flatMap(
+              Option.match({
+                onNone: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId })),
+                onSome: Effect.succeed
+              })
+            )
+          )
+
+          if (ledger.status !== "AWAITING_CUSTOMER_ACTION") {
+            // Declined, or never challenged - there is nothing to complete
+            if (ledger.status === "AWAITING_AUTHORIZATION" || ledger.status === "AUTHORIZATION_FAILED") {
+              return yield* Effect.fail(new OrderNotAwaitingCustomerActionError({
+                orderLedgerId,
+                status: ledger.status
+              }))
+            }
+
+            // Already authorized - a repeat callback reports where the order is now
+            return {
+              orderLedgerId: ledger.id,
+              status: ledger.status
+            } satisfies CompleteAuthorizationResult
+          }
+
+          // Ledgers from before split tender have no payment rows - the ledger's own authorization is the one
+          const payments = yield* ledgerRepo.findPayments(ledgerId)
+          const challenged = payments.length > 0
+            ? payments
+                .filter((payment) => payment.status === "REQUIRES_ACTION")
+                .map((payment) => ({
+                  id: payment.id as string | null,
+                  authorizationId: payment.paymentAuthorizationId!,
+                  amountCents: payment.amountCents
+                }))
+            : [{ id: null, authorizationId: ledger.paymentAuthorizationId!, amountCents: ledger.totalAmountCents }]
+
+          for (const payment of challenged) {
+            yield* paymentClient.completeAuthentication({
+              authorizationId: payment.authorizationId,
+              authenticationResult,
+              userId: ledger.userId,
+              amountCents: payment.amountCents
+            }).pipe(
+              Effect.catchTag("PaymentDeclinedError", (error) =>
+                Effect.gen(function* () {
+                  // Release the other instruments and mark ledger as failed before re-throwing
+                  if (payment.id !== null) {
+                    yield* ledgerRepo.updatePaymentStatus(payment.id, "DECLINED", null)
+                  }
+                  yield* releaseAuthorizations(
+                    ledgerId,
+                    payments
+                      .filter((other) =>
+                        other.id !== payment.id &&
+                        (other.status === "AUTHORIZED" || other.status === "REQUIRES_ACTION")
+                      )
+                      .map((other) => ({ id: other.id, authorizationId: other.paymentAuthorizationId! }))
+                  )
+                  yield* ledgerRepo.markAuthorizationFailed(ledgerId)
+                  yield* Effect.logWarning("Customer authentication failed", {
+                    orderLedgerId,
+                    declineCode: error.declineCode,
+                    reason: error.reason
+                  })
+                  return yield* Effect.fail(error)
+                })
+              )
+            )
+
+            if (payment.id !== null) {
+              yield* ledgerRepo.updatePaymentStatus(payment.id, "AUTHORIZED", null)
+            }
+          }
+
+          // Only now does the saga start - the update and outbox event are one transaction
+          const updated = yield* ledgerRepo.completeCustomerActionWithOutbox(ledgerId)
+
+          if (Option.isNone(updated)) {
+            // A concurrent callback authorized the order first
+            const current = yield* ledgerRepo.findByIdWithItems(ledgerId)
+            return {
+              orderLedgerId,
+              status: Option.match(current, {
+                onNone: () => "AUTHORIZED",
+                onSome: ({ ledger }) => ledger.status
+              })
+            } satisfies CompleteAuthorizationResult
+          }
+
+          yield* Effect.logInfo("Order authorized after customer authentication", {
+            orderLedgerId,
+            paymentAuthorizationId: updated.value.paymentAuthorizationId
+          })
+
+          return {
+            orderLedgerId: updated.value.id,
+            status: updated.value.status
+          } satisfies CompleteAuthorizationResult
+        }).pipe(Effect.withSpan("OrderService.completeAuthorization")),
+
       getOrderStatus: (orderLedgerId: string) =>
         Effect.gen(function* () {
           // Cast to branded type
@@ -141,16 +473,167 @@ export const OrderServiceLive = Layer.effect(
             email: result.ledger.email,
             totalAmountCents: result.ledger.totalAmountCents,
             currency: result.ledger.currency,
+            fxBaseCurrency: result.ledger.fxBaseCurrency,
+            fxRate: result.ledger.fxRate,
+            allowPartial: result.ledger.allowPartial,
             paymentAuthorizationId: result.ledger.paymentAuthorizationId,
             createdAt: DateTime.toDateUtc(result.ledger.createdAt).toISOString(),
             updatedAt: DateTime.toDateUtc(result.ledger.updatedAt).toISOString(),
             items: result.items.map(item => ({
               productId: item.productId,
               quantity: item.quantity,
-              unitPriceCents: item.unitPriceCents
+              unitPriceCents: item.unitPriceCents,
+              sku: item.productSku,
+              name: item.productName,
+              fulfilledQuantity: item.fulfilledQuantity
             }))
           } satisfies OrderStatusResult
-        }).pipe(Effect.withSpan("OrderService.getOrderStatus"))
+        }).pipe(Effect.withSpan("OrderService.getOrderStatus")),
+
+      getOrderHistory: (orderLedgerId: string) =>
+        Effect.gen(function* () {
+          const ledgerId = orderLedgerId as OrderLedgerId
+
+          const { ledger } = yield* ledgerRepo.findByIdWithItems(ledgerId).pipe(
+            Effect.flatMap(
+              Option.match({
+                onNone: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId })),
+                onSome: Effect.succeed
+              })
+            )
+          )
+
+          const events = yield* ledgerRepo.findStepEvents(ledgerId)
+
+          return {
+            orderLedgerId: ledger.id,
+            status: ledger.status,
+            events: events.map(event => ({
+              stepName: event.stepName,
+              outcome: event.outcome,
+              fromStatus: event.fromStatus,
+              toStatus: event.toStatus,
+              attempt: event.attempt,
+              errorTag: event.errorTag,
+              errorReason: event.errorReason,
+              durationMs: event.durationMs,
+              traceId: event.traceId,
+              createdAt: DateTime.toDateUtc(event.createdAt).toISOString()
+            }))
+          } satisfies OrderHistoryResult
+        }).pipe(Effect.withSpan("OrderService.getOrderHistory")),
+
+      listUserOrders: (userId: string, options: { readonly limit: number; readonly cursor?: string }) =>
+        Effect.gen(function* () {
+          // A cursor that is not one of the user's entries would otherwise read as an empty last page
+          if (options.cursor !== undefined) {
+            const cursorEntry = yield* ledgerRepo.findByIdWithItems(options.cursor as OrderLedgerId)
+            if (Option.isNone(cursorEntry) || cursorEntry.value.ledger.userId !== userId) {
+              return yield* Effect.fail(new InvalidCursorError({ cursor: options.cursor }))
+            }
+          }
+
+          // Fetch one extra row to learn whether another page follows
+          const rows = yield* ledgerRepo.findByUserIdWithItems(userId as UserId, {
+            limit: options.limit + 1,
+            after: options.cursor as OrderLedgerId | undefined
+          })
+          const page = rows.slice(0, options.limit)
+          const nextCursor = rows.length > options.limit ? page[page.length - 1].ledger.id : null
+
+          const downstreamOrders = page.length === 0
+            ? []
+            : yield* ordersClient.findByLedgerIds(page.map(({ ledger }) => ledger.id))
+          const orderByLedgerId = new Map(downstreamOrders.map((order) => [order.orderLedgerId, order]))
+
+          return {
+            orders: page.map(({ ledger, items }) => {
+              const order = orderByLedgerId.get(ledger.id)
+              return {
+                orderLedgerId: ledger.id,
+                status: ledger.status,
+                customerStatus: customerStatusFor(ledger.status),
+                totalAmountCents: ledger.totalAmountCents,
+                currency: ledger.currency,
+                createdAt: DateTime.toDateUtc(ledger.createdAt).toISOString(),
+                updatedAt: DateTime.toDateUtc(ledger.updatedAt).toISOString(),
+                items: items.map(item => ({
+                  productId: item.productId,
+                  quantity: item.quantity,
+                  unitPriceCents: item.unitPriceCents,
+                  sku: item.productSku,
+                  name: item.productName,
+                  fulfilledQuantity: item.fulfilledQuantity
+                })),
+                order: order === undefined
+                  ? null
+                  : { orderId: order.orderId, status: order.status, items: order.items }
+              }
+            }),
+            nextCursor
+          } satisfies UserOrdersPage
+        }).pipe(Effect.withSpan("OrderService.listUserOrders")),
+
+      cancelOrder: (orderLedgerId: string) =>
+        Effect.gen(function* () {
+          const ledgerId = orderLedgerId as OrderLedgerId
+          let lastSeenStatus: OrderLedgerStatus | null = null
+
+          for (let attempt = 1; attempt <= MAX_CANCELLATION_ATTEMPTS; attempt++) {
+            const { ledger } = yield* ledgerRepo.findByIdWithItems(ledgerId).pipe(
+              Effect.flatMap(
+                Option.match({
+                  onNone: () => Effect.fail(new OrderLedgerNotFoundError({ orderLedgerId })),
+                  onSome: Effect.succeed
+                })
+              )
+            )
+            lastSeenStatus = ledger.status
+
+            // Repeat requests are idempotent
+            if (ledger.status === "CANCELLATION_REQUESTED" || ledger.status === "CANCELLED") {
+              return {
+                orderLedgerId: ledger.id,
+                status: ledger.status
+              } satisfies CancelOrderResult
+            }
+
+            const isInFlight = IN_FLIGHT_STATUSES.includes(ledger.status)
+            if (!isInFlight && ledger.status !== "COMPLETED") {
+              return yield* Effect.fail(new OrderNotCancellableError({
+                orderLedgerId,
+                status: ledger.status
+              }))
+            }
+
+            // Only applied if the status is unchanged, so a step finishing meanwhile is not lost
+            const updated = isInFlight
+              ? yield* ledgerRepo.requestCancellation(ledgerId, ledger.status)
+              : yield* ledgerRepo.requestPostCompletionCancellation(ledgerId)
+
+            if (Option.isSome(updated)) {
+              yield* Effect.logInfo("Order cancellation requested", {
+                orderLedgerId,
+                previousStatus: ledger.status
+              })
+              return {
+                orderLedgerId: updated.value.id,
+                status: updated.value.status
+              } satisfies CancelOrderResult
+            }
+
+            yield* Effect.logDebug("Order status changed during cancellation - retrying", {
+              orderLedgerId,
+              previousStatus: ledger.status,
+              attempt
+            })
+          }
+
+          return yield* Effect.fail(new OrderNotCancellableError({
+            orderLedgerId,
+            status: lastSeenStatus ?? "UNKNOWN"
+          }))
+        }).pipe(Effect.withSpan("OrderService.cancelOrder"))
     }
   })
 )
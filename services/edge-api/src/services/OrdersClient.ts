@@ -0,0 +1,28 @@
+import { Context, Effect } from "effect"
+import type { OrdersServiceError } from "../domain/errors.js"
+
+// An order record in the Orders Service, created by the saga's first step
+export interface DownstreamOrder {
+  readonly orderId: string
+  readonly orderLedgerId: string
+  readonly status: string
+  readonly items: ReadonlyArray<{
+    readonly productId: string
+    readonly quantity: number
+    readonly unitPriceCents: number
+  }>
+}
+
+export class OrdersClient extends Context.Tag("OrdersClient")<
+  OrdersClient,
+  {
+    /**
+     * Look up the orders created for a batch of ledger entries (at most 100).
+     * Ledger entries the saga never turned into an order are simply absent.
+     * Fails with OrdersServiceError if the service is unavailable.
+     */
+    readonly findByLedgerIds: (
+      orderLedgerIds: ReadonlyArray<string>
+    ) => Effect.Effect<ReadonlyArray<DownstreamOrder>, OrdersServiceError>
+  }
+>() {}
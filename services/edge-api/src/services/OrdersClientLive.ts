@@ -0,0 +1,98 @@
+import { Layer, Effect, Config, Duration, Schema } from "effect"
+import { HttpClient, HttpClientRequest } from "@effect/platform"
+import { OrdersClient, type DownstreamOrder } from "./OrdersClient.js"
+import { OrdersServiceError } from "../domain/errors.js"
+
+// Schema for successful GET /orders response
+const ListOrdersResponse = Schema.Struct({
+  orders: Schema.Array(Schema.Struct({
+    id: Schema.String,
+    order_ledger_id: Schema.String,
+    status: Schema.String,
+    items: Schema.Array(Schema.Struct({
+      product_id: Schema.String,
+      quantity: Schema.Number,
+      unit_price_cents: Schema.Number
+    }))
+  })),
+  next_cursor: Schema.NullOr(Schema.String)
+})
+
+export const OrdersClientLive = Layer.effect(
+  OrdersClient,
+  Effect.gen(function* () {
+    const baseUrl = yield* Config.string("ORDERS_SERVICE_URL").pipe(
+      Config.withDefault("http://localhost:3003")
+    )
+    const client = yield* HttpClient.HttpClient
+
+    return {
+      findByLedgerIds: (orderLedgerIds: ReadonlyArray<string>): Effect.Effect<ReadonlyArray<DownstreamOrder>, OrdersServiceError> =>
+        Effect.gen(function* () {
+          // One ledger entry has at most one order, so a single page covers the batch
+          const request = HttpClientRequest.get(`${baseUrl}/orders`).pipe(
+            HttpClientRequest.setUrlParams({
+              order_ledger_ids: orderLedgerIds.join(","),
+              limit: String(orderLedgerIds.length)
+            })
+          )
+
+          const response = yield* client.execute(request).pipe(
+            Effect.timeout(Duration.seconds(10)),
+            Effect.catchTag("TimeoutException", () =>
+              Effect.fail(new OrdersServiceError({
+                reason: "Request timed out",
+                isRetryable: true
+              }))
+            ),
+            Effect.catchTag("ResponseError", () =>
+              Effect.fail(new OrdersServiceError({
+                reason: "HTTP response error",
+                isRetryable: true
+              }))
+            ),
+            Effect.catchTag("RequestError", () =>
+              Effect.fail(new OrdersServiceError({
+                reason: "Connection error",
+                isRetryable: true
+              }))
+            )
+          )
+
+          if (response.status !== 200) {
+            // 5xx may be transient, anything else is a contract problem
+            return yield* Effect.fail(new OrdersServiceError({
+              reason: `Unexpected response status: ${response.status}`,
+              isRetryable: response.status >= 500
+            }))
+          }
+
+          const rawBody = yield* response.json.pipe(
+            Effect.catchAll(() =>
+              Effect.fail(new OrdersServiceError({
+                reason: "Failed to parse response JSON",
+                isRetryable: false
+              }))
+            )
+          )
+          const body = yield* Schema.decodeUnknown(ListOrdersResponse)(rawBody).pipe(
+            Effect.mapError(() => new OrdersServiceError({
+              reason: "Invalid response format from orders service",
+              isRetryable: false
+            }))
+          )
+
+          return body.orders.map((order) => ({
+            orderId: order.id,
+            orderLedgerId: order.order_ledger_id,
+            status: order.status,
+            items: order.items.map((item) => ({
+              productId: item.product_id,
+              quantity: item.quantity,
+              unitPriceCents: item.unit_price_cents
+            }))
+          }) satisfies DownstreamOrder)
+        })
+    }
+  })
+)
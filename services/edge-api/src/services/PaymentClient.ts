@@ -1,20 +1,39 @@
 import { Context, Effect } from "effect"
+import type { PaymentMethod } from "../domain/OrderLedger.js"
 import type { PaymentDeclinedError, PaymentGatewayError } from "../domain/errors.js"
 
 export interface AuthorizePaymentParams {
   readonly userId: string
   readonly amountCents: number
   readonly currency: string
+  readonly paymentMethod: PaymentMethod
   readonly paymentToken: string
   readonly idempotencyKey: string
 }
 
 export interface AuthorizePaymentResult {
   readonly authorizationId: string
-  readonly status: "AUTHORIZED"
+  // REQUIRES_ACTION holds the authorization until the customer completes 3-D Secure
+  readonly status: "AUTHORIZED" | "REQUIRES_ACTION"
   readonly amountCents: number
   readonly currency: string
   readonly createdAt: string
+  // Where to send the customer when status is REQUIRES_ACTION
+  readonly challengeUrl: string | null
+}
+
+export interface CompleteAuthenticationParams {
+  readonly authorizationId: string
+  readonly authenticationResult: "succeeded" | "failed"
+  // For the PaymentDeclinedError raised on a failed challenge
+  readonly userId: string
+  readonly amountCents: number
+}
+
+export interface VoidAuthorizationParams {
+  readonly authorizationId: string
+  readonly idempotencyKey: string
+  readonly reason: string
 }
 
 export class PaymentClient extends Context.Tag("PaymentClient")<
@@ -29,5 +48,24 @@ export class PaymentClient extends Context.Tag("PaymentClient")<
     readonly authorize: (
       params: AuthorizePaymentParams
     ) => Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError>
+
+    /**
+     * Complete a REQUIRES_ACTION authorization with the customer's 3-D Secure result.
+     * Returns the now AUTHORIZED authorization.
+     * Fails with PaymentDeclinedError if authentication failed.
+     * Fails with PaymentGatewayError if the gateway is unavailable.
+     */
+    readonly completeAuthentication: (
+      params: CompleteAuthenticationParams
+    ) => Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError>
+
+    /**
+     * Void an authorization, releasing the hold on the customer's funds.
+     * Used to release the other instruments of a split-tender order when one is declined.
+     * Fails with PaymentGatewayError if the void did not go through.
+     */
+    readonly voidAuthorization: (
+      params: VoidAuthorizationParams
+    ) => Effect.Effect<void, PaymentGatewayError>
   }
 >() {}
@@ -1,15 +1,22 @@
 import { Layer, Effect, Config, Duration, Schema } from "effect"
-import { HttpClient, HttpClientRequest } from "@effect/platform"
-import { PaymentClient, type AuthorizePaymentParams, type AuthorizePaymentResult } from "./PaymentClient.js"
+import { HttpClient, HttpClientRequest, type HttpClientResponse } from "@effect/platform"
+import {
+  PaymentClient,
+  type AuthorizePaymentParams,
+  type AuthorizePaymentResult,
+  type CompleteAuthenticationParams,
+  type VoidAuthorizationParams
+} from "./PaymentClient.js"
 import { PaymentDeclinedError, PaymentGatewayError } from "../domain/errors.js"
 
 // Schema for successful authorization response
 const AuthorizeSuccessResponse = Schema.Struct({
   authorization_id: Schema.String,
-  status: Schema.Literal("AUTHORIZED"),
+  status: Schema.Literal("AUTHORIZED", "REQUIRES_ACTION"),
   amount_cents: Schema.Number,
   currency: Schema.String,
-  created_at: Schema.String
+  created_at: Schema.String,
+  challenge_url: Schema.optional(Schema.String)
 })
 
 // Schema for declined payment response
@@ -35,6 +42,115 @@ export const PaymentClientLive = Layer.effect(
     )
     const client = yield* HttpClient.HttpClient
 
+    const execute = (request: HttpClientRequest.HttpClientRequest) =>
+      client.execute(request).pipe(
+        Effect.timeout(Duration.seconds(10)),
+        Effect.catchTag("TimeoutException", () =>
+          Effect.fail(new PaymentGatewayError({
+            reason: "Request timed out",
+            isRetryable: true
+          }))
+        ),
+        Effect.catchTag("ResponseError", () =>
+          Effect.fail(new PaymentGatewayError({
+            reason: "HTTP response error",
+            isRetryable: true
+          }))
+        ),
+        Effect.catchTag("RequestError", () =>
+          Effect.fail(new PaymentGatewayError({
+            reason: "Connection error",
+            isRetryable: true
+          }))
+        )
+      )
+
+    // Authorize and complete-authentication share the same response shapes
+    const decodeAuthorizationResponse = (
+      response: HttpClientResponse.HttpClientResponse,
+      context: { readonly userId: string; readonly amountCents: number }
+    ): Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError> =>
+      Effect.gen(function* () {
+        // Check response status
+        if (response.status === 200) {
+          const rawBody = yield* response.json.pipe(
+            Effect.catchAll(() =>
+              Effect.fail(new PaymentGatewayError({
+                reason: "Failed to parse response JSON",
+                isRetryable: false
+              }))
+            )
+          )
+          const body = yield* Schema.decodeUnknown(AuthorizeSuccessResponse)(rawBody).pipe(
+            Effect.mapError(() => new PaymentGatewayError({
+              reason: "Invalid response format from payment service",
+              isRetryable: false
+            }))
+          )
+          return {
+            authorizationId: body.authorization_id,
+            status: body.status,
+            amountCents: body.amount_cents,
+            currency: body.currency,
+            createdAt: body.created_at,
+            challengeUrl: body.challenge_url ?? null
+          } satisfies AuthorizePaymentResult
+        }
+
+        if (response.status === 402) {
+          // Payment declined
+          const rawBody = yield* response.json.pipe(
+            Effect.catchAll(() =>
+              Effect.fail(new PaymentGatewayError({
+                reason: "Failed to parse declined response JSON",
+                isRetryable: false
+              }))
+            )
+          )
+          const body = yield* Schema.decodeUnknown(DeclinedResponse)(rawBody).pipe(
+            Effect.mapError(() => new PaymentGatewayError({
+              reason: "Invalid declined response format",
+              isRetryable: false
+            }))
+          )
+          return yield* Effect.fail(new PaymentDeclinedError({
+            userId: context.userId,
+            amountCents: context.amountCents,
+            declineCode: body.decline_code,
+            reason: body.message,
+            isRetryable: body.is_retryable
+          }))
+        }
+
+        if (response.status === 503) {
+          // Gateway unavailable
+          const rawBody = yield* response.json.pipe(
+            Effect.catchAll(() =>
+              Effect.fail(new PaymentGatewayError({
+                reason: "Failed to parse gateway error response JSON",
+                isRetryable: true
+              }))
+            )
+          )
+          const body = yield* Schema.decodeUnknown(GatewayErrorResponse)(rawBody).pipe(
+            Effect.mapError(() => new PaymentGatewayError({
+              reason: "Invalid gateway error response format",
+              isRetryable: true
+            }))
+          )
+          return yield* Effect.fail(new PaymentGatewayError({
+            reason: body.message,
+            isRetryable: body.is_retryable
+          }))
+        }
+
+        // Unexpected status
+        return yield* Effect.fail(new PaymentGatewayError({
+          reason: `Unexpected response status: ${response.status}`,
+          isRetryable: false
+        }))
+      })
+
     return {
       authorize: (params: AuthorizePaymentParams): Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError> =>
         Effect.gen(function* () {
@@ -43,109 +159,51 @@ export const PaymentClientLive = Layer.effect(
               user_id: params.userId,
               amount_cents: params.amountCents,
               currency: params.currency,
+              payment_method: params.paymentMethod,
               payment_token: params.paymentToken,
               idempotency_key: params.idempotencyKey
             })
           )
 
-          const response = yield* client.execute(request).pipe(
-            Effect.timeout(Duration.seconds(10)),
-            Effect.catchTag("TimeoutException", () =>
-              Effect.fail(new PaymentGatewayError({
-                reason: "Request timed out",
-                isRetryable: true
-              }))
-            ),
-            Effect.catchTag("ResponseError", () =>
-              Effect.fail(new PaymentGatewayError({
-                reason: "HTTP response error",
-                isRetryable: true
-              }))
-            ),
-            Effect.catchTag("RequestError", () =>
-              Effect.fail(new PaymentGatewayError({
-                reason: "Connection error",
-                isRetryable: true
-              }))
-            )
+          const response = yield* execute(request)
+          return yield* decodeAuthorizationResponse(response, params)
+        }),
+
+      completeAuthentication: (
+        params: CompleteAuthenticationParams
+      ): Effect.Effect<AuthorizePaymentResult, PaymentDeclinedError | PaymentGatewayError> =>
+        Effect.gen(function* () {
+          const request = HttpClientRequest.post(
+            `${baseUrl}/payments/authorize/${params.authorizationId}/complete`
+          ).pipe(
+            HttpClientRequest.bodyUnsafeJson({
+              authentication_result: params.authenticationResult
+            })
           )
 
-          // Check response status
-          if (response.status === 200) {
-            const rawBody = yield* response.json.pipe(
-              Effect.catchAll(() =>
-                Effect.fail(new PaymentGatewayError({
-                  reason: "Failed to parse response JSON",
-                  isRetryable: false
-                }))
-              )
-            )
-            const body = yield* Schema.decodeUnknown(AuthorizeSuccessResponse)(rawBody).pipe(
-              Effect.mapError(() => new PaymentGatewayError({
-                reason: "Invalid response format from payment service",
-                isRetryable: false
-              }))
-            )
-            return {
-              authorizationId: body.authorization_id,
-              status: body.status,
-              amountCents: body.amount_cents,
-              currency: body.currency,
-              createdAt: body.created_at
-            } satisfies AuthorizePaymentResult
-          }
+          const response = yield* execute(request)
+          return yield* decodeAuthorizationResponse(response, params)
+        }),
 
-          if (response.status === 402) {
-            // Payment declined
-            const rawBody = yield* response.json.pipe(
-              Effect.catchAll(() =>
-                Effect.fail(new PaymentGatewayError({
-                  reason: "Failed to parse declined response JSON",
-                  isRetryable: false
-                }))
-              )
-            )
-            const body = yield* Schema.decodeUnknown(DeclinedResponse)(rawBody).pipe(
-              Effect.mapError(() => new PaymentGatewayError({
-                reason: "Invalid declined response format",
-                isRetryable: false
-              }))
-            )
-            return yield* Effect.fail(new PaymentDeclinedError({
-              userId: params.userId,
-              amountCents: params.amountCents,
-              declineCode: body.decline_code,
-              reason: body.message,
-              isRetryable: body.is_retryable
-            }))
-          }
+      voidAuthorization: (params: VoidAuthorizationParams): Effect.Effect<void, PaymentGatewayError> =>
+        Effect.gen(function* () {
+          const request = HttpClientRequest.post(
+            `${baseUrl}/payments/void/${params.authorizationId}`
+          ).pipe(
+            HttpClientRequest.bodyUnsafeJson({
+              idempotency_key: params.idempotencyKey,
+              reason: params.reason
+            })
+          )
 
-          if (response.status === 503) {
-            // Gateway unavailable
-            const rawBody = yield* response.json.pipe(
-              Effect.catchAll(() =>
-                Effect.fail(new PaymentGatewayError({
-                  reason: "Failed to parse gateway error response JSON",
-                  isRetryable: true
-                }))
-              )
-            )
-            const body = yield* Schema.decodeUnknown(GatewayErrorResponse)(rawBody).pipe(
-              Effect.mapError(() => new PaymentGatewayError({
-                reason: "Invalid gateway error response format",
-                isRetryable: true
-              }))
-            )
-            return yield* Effect.fail(new PaymentGatewayError({
-              reason: body.message,
-              isRetryable: body.is_retryable
-            }))
+          const response = yield* execute(request)
+          if (response.status === 200) {
+            return
           }
 
-          // Unexpected status
           return yield* Effect.fail(new PaymentGatewayError({
-            reason: `Unexpected response status: ${response.status}`,
-            isRetryable: false
+            reason: `Void failed with status ${response.status}`,
+            isRetryable: response.status === 503
           }))
         })
     }
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest"
 import { Schema, Option, Either } from "effect"
-import { AddStockRequest, AdjustmentReason } from "../domain/Adjustment.js"
+import { AddStockRequest, AdjustStockRequest, AdjustmentReason, ListAdjustmentsParams } from "../domain/Adjustment.js"
 
 describe("Adjustment Domain Types", () => {
   describe("AdjustmentReason", () => {
@@ -172,4 +172,87 @@ describe("Adjustment Domain Types", () => {
       }
     })
   })
+
+  describe("AdjustStockRequest", () => {
+    const decode = Schema.decodeUnknownEither(AdjustStockRequest)
+
+    it("should accept a negative write-off", () => {
+      const result = decode({ reason: "damaged", quantityChange: -3, notes: "Crushed in transit" })
+      expect(Either.isRight(result)).toBe(true)
+
+      if (Either.isRight(result)) {
+        expect(result.right.quantityChange).toBe(-3)
+        expect(result.right.countedQuantity).toBeUndefined()
+        expect(Option.getOrNull(result.right.notes)).toBe("Crushed in transit")
+      }
+    })
+
+    it("should reject a write-off that increases stock", () => {
+      expect(Either.isLeft(decode({ reason: "shrinkage", quantityChange: 2 }))).toBe(true)
+    })
+
+    it("should reject a receiving adjustment that decreases stock", () => {
+      expect(Either.isLeft(decode({ reason: "warehouse_receiving", quantityChange: -2 }))).toBe(true)
+    })
+
+    it("should accept corrections in either direction", () => {
+      expect(Either.isRight(decode({ reason: "correction", quantityChange: -2 }))).toBe(true)
+      expect(Either.isRight(decode({ reason: "correction", quantityChange: 2 }))).toBe(true)
+    })
+
+    it("should reject a zero quantity change", () => {
+      expect(Either.isLeft(decode({ reason: "manual_adjustment", quantityChange: 0 }))).toBe(true)
+    })
+
+    it("should accept a cycle count with a counted quantity, including zero", () => {
+      const result = decode({ reason: "cycle_count", countedQuantity: 0 })
+      expect(Either.isRight(result)).toBe(true)
+    })
+
+    it("should reject a cycle count without a counted quantity or with a quantity change", () => {
+      expect(Either.isLeft(decode({ reason: "cycle_count" }))).toBe(true)
+      expect(Either.isLeft(decode({ reason: "cycle_count", quantityChange: -1, countedQuantity: 4 }))).toBe(true)
+    })
+
+    it("should reject a counted quantity on any other reason", () => {
+      expect(Either.isLeft(decode({ reason: "damaged", countedQuantity: 4 }))).toBe(true)
+    })
+
+    it("should reject a negative counted quantity", () => {
+      expect(Either.isLeft(decode({ reason: "cycle_count", countedQuantity: -1 }))).toBe(true)
+    })
+  })
+
+  describe("ListAdjustmentsParams", () => {
+    const decode = Schema.decodeUnknownEither(ListAdjustmentsParams)
+
+    it("should default the limit and leave filters unset", () => {
+      const result = decode({})
+      expect(Either.isRight(result)).toBe(true)
+
+      if (Either.isRight(result)) {
+        expect(result.right.limit).toBe(20)
+        expect(result.right.reason).toBeUndefined()
+      }
+    })
+
+    it("should split a comma-separated reason list, including system reasons", () => {
+      const result = decode({ reason: "damaged,reservation_expired" })
+      expect(Either.isRight(result)).toBe(true)
+
+      if (Either.isRight(result)) {
+        expect(result.right.reason).toEqual(["damaged", "reservation_expired"])
+      }
+    })
+
+    it("should reject an unknown reason", () => {
+      expect(Either.isLeft(decode({ reason: "damaged,stolen" }))).toBe(true)
+    })
+
+    it("should reject a limit outside 1-100 and a non-UUID cursor", () => {
+      expect(Either.isLeft(decode({ limit: "0" }))).toBe(true)
+      expect(Either.isLeft(decode({ limit: "101" }))).toBe(true)
+      expect(Either.isLeft(decode({ cursor: "not-a-uuid" }))).toBe(true)
+    })
+  })
 })
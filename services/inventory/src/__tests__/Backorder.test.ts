@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest"
+import { backorderHeadroom, selectBackordersToFill } from "../domain/Backorder.js"
+
+// Oldest first, as the repository reads them
+const backorders = [
+  { id: "first", quantity: 3 },
+  { id: "second", quantity: 5 },
+  { id: "third", quantity: 1 }
+]
+
+describe("Backorder Domain", () => {
+  describe("backorderHeadroom", () => {
+    it("should allow no backorders for a product that takes none", () => {
+      expect(backorderHeadroom("none", null, 0)).toBe(0)
+      expect(backorderHeadroom("none", 100, 0)).toBe(0)
+    })
+
+    it("should be uncapped without a limit", () => {
+      expect(backorderHeadroom("backorder", null, 250)).toBeNull()
+    })
+
+    it("should leave what the limit allows beyond the units already backordered", () => {
+      expect(backorderHeadroom("preorder", 100, 40)).toBe(60)
+      // Lowering the limit below what is backordered never goes negative
+      expect(backorderHeadroom("preorder", 10, 40)).toBe(0)
+    })
+  })
+
+  describe("selectBackordersToFill", () => {
+    it("should fill backorders oldest first while stock lasts", () => {
+      expect(selectBackordersToFill(9, backorders).map((b) => b.id)).toEqual(["first", "second", "third"])
+      expect(selectBackordersToFill(8, backorders).map((b) => b.id)).toEqual(["first", "second"])
+    })
+
+    it("should stop at the first backorder that cannot be filled whole", () => {
+      // 7 units cover "first" and would cover "third", but "second" is waiting ahead of it
+      expect(selectBackordersToFill(7, backorders).map((b) => b.id)).toEqual(["first"])
+      expect(selectBackordersToFill(2, backorders)).toEqual([])
+    })
+  })
+})
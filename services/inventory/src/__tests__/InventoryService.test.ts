@@ -2,17 +2,28 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, Option, DateTime, Exit } from "effect"
 import { InventoryService } from "../services/InventoryService.js"
 import { InventoryServiceLive } from "../services/InventoryServiceLive.js"
-import { StockAdjustmentRepository, AtomicAddStockResult } from "../repositories/StockAdjustmentRepository.js"
+import {
+  StockAdjustmentRepository,
+  AtomicReceiveStockResult,
+  AtomicAdjustStockParams,
+  AtomicAdjustStockResult,
+  ListAdjustmentsQuery
+} from "../repositories/StockAdjustmentRepository.js"
+import { StockMovementRepository, ListMovementsQuery, StockDiscrepancy } from "../repositories/StockMovementRepository.js"
 import { ProductRepository } from "../repositories/ProductRepository.js"
-import { ReservationRepository, AtomicReserveResult } from "../repositories/ReservationRepository.js"
+import { ReservationRepository, AtomicReserveResult, ExtendReservationResult, CommitReservationResult, BackorderedQuantity } from "../repositories/ReservationRepository.js"
 import { Product, ProductId } from "../domain/Product.js"
-import { InventoryAdjustment, AdjustmentId, AddStockRequest, AdjustmentReason } from "../domain/Adjustment.js"
-import { ProductNotFoundError, DuplicateAdjustmentError } from "../domain/errors.js"
+import { InventoryReservation, ReservationId } from "../domain/Reservation.js"
+import { StockMovement, StockMovementId } from "../domain/StockMovement.js"
+import { Destination, LocationId } from "../domain/Location.js"
+import { InventoryAdjustment, AdjustmentId, AddStockRequest, AdjustStockRequest, AdjustmentReason } from "../domain/Adjustment.js"
+import { ProductNotFoundError, DuplicateAdjustmentError, InsufficientStockError, LocationNotFoundError, ReservationNotFoundError, ReservationReleasedError, InvalidCursorError } from "../domain/errors.js"
 
 // Test fixtures
 const testProductId = "550e8400-e29b-41d4-a716-446655440000" as ProductId
 const testAdjustmentId = "660e8400-e29b-41d4-a716-446655440001" as AdjustmentId
 const testIdempotencyKey = "test-idempotency-key-001"
+const testLocationId = "990e8400-e29b-41d4-a716-446655440004" as LocationId
 
 const testProduct = new Product({
   id: testProductId,
@@ -20,14 +31,18 @@ const testProduct = new Product({
   sku: "TEST-001",
   priceCents: 2999,
   stockQuantity: 50,
+  backorderPolicy: "none",
+  backorderLimit: null,
   createdAt: DateTime.unsafeNow(),
-  updatedAt: DateTime.unsafeNow()
+  updatedAt: DateTime.unsafeNow(),
+  archivedAt: null
 })
 
 const testAdjustment = new InventoryAdjustment({
   id: testAdjustmentId,
   idempotencyKey: testIdempotencyKey,
   productId: testProductId,
+  locationId: testLocationId,
   quantityChange: 100,
   previousQuantity: 50,
   newQuantity: 150,
@@ -38,6 +53,22 @@ const testAdjustment = new InventoryAdjustment({
   createdAt: DateTime.unsafeNow()
 })
 
+const testOrderId = "770e8400-e29b-41d4-a716-446655440002"
+
+const testReservation = new InventoryReservation({
+  id: "880e8400-e29b-41d4-a716-446655440003" as ReservationId,
+  orderId: testOrderId,
+  productId: testProductId,
+  locationId: testLocationId,
+  quantity: 2,
+  status: "RESERVED",
+  createdAt: DateTime.unsafeNow(),
+  releasedAt: null,
+  committedAt: null,
+  expiresAt: null,
+  backorderedAt: null
+})
+
 const testAddStockRequest = new AddStockRequest({
   quantity: 100,
   reason: "warehouse_receiving" as AdjustmentReason,
@@ -47,44 +78,85 @@ const testAddStockRequest = new AddStockRequest({
 
 // Mock StockAdjustmentRepository factory
 const createMockStockAdjustmentRepo = (overrides: {
-  addStockAtomic?: (params: any) => Effect.Effect<AtomicAddStockResult>
+  addStockAtomic?: (params: any) => Effect.Effect<AtomicReceiveStockResult>
+  adjustStockAtomic?: (params: AtomicAdjustStockParams) => Effect.Effect<AtomicAdjustStockResult>
+  listByProduct?: (productId: ProductId, query: ListAdjustmentsQuery) => Effect.Effect<ReadonlyArray<InventoryAdjustment>>
+  existsForProduct?: (productId: ProductId, adjustmentId: AdjustmentId) => Effect.Effect<boolean>
 } = {}) => {
   return Layer.succeed(StockAdjustmentRepository, {
     addStockAtomic: overrides.addStockAtomic ?? (() =>
       Effect.succeed({
         _tag: "Created",
         adjustment: testAdjustment,
-        sku: "TEST-001"
-      } as const))
+        sku: "TEST-001",
+        allocatedBackorders: []
+      } as const)),
+    adjustStockAtomic: overrides.adjustStockAtomic ?? (() =>
+      Effect.die("adjustStockAtomic not expected")),
+    listByProduct: overrides.listByProduct ?? (() => Effect.succeed([])),
+    existsForProduct: overrides.existsForProduct ?? (() => Effect.succeed(true))
   })
 }
 
+// Mock StockMovementRepository factory
+const createMockStockMovementRepo = (overrides: {
+  listByProduct?: (productId: ProductId, query: ListMovementsQuery) => Effect.Effect<ReadonlyArray<StockMovement>>
+  existsForProduct?: (productId: ProductId, movementId: StockMovementId) => Effect.Effect<boolean>
+  findDiscrepancies?: (productIds?: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<StockDiscrepancy>>
+  correctDiscrepancy?: (productId: ProductId, createdBy: string) => Effect.Effect<Option.Option<AdjustmentId>>
+} = {}) =>
+  Layer.succeed(StockMovementRepository, {
+    listByProduct: overrides.listByProduct ?? (() => Effect.succeed([])),
+    existsForProduct: overrides.existsForProduct ?? (() => Effect.succeed(true)),
+    findDiscrepancies: overrides.findDiscrepancies ?? (() => Effect.succeed([])),
+    correctDiscrepancy: overrides.correctDiscrepancy ?? (() => Effect.die("correctDiscrepancy not expected"))
+  })
+
 // Mock ProductRepository factory
 const createMockProductRepo = (overrides: {
   findById?: (id: ProductId) => Effect.Effect<Option.Option<Product>>
   findBySku?: (sku: string) => Effect.Effect<Option.Option<Product>>
+  findByIds?: (ids: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<Product>>
   insert?: (row: any) => Effect.Effect<Product>
   updateStock?: (id: ProductId, quantity: number) => Effect.Effect<void>
 } = {}) => {
   return Layer.succeed(ProductRepository, {
     findById: overrides.findById ?? (() => Effect.succeed(Option.some(testProduct))),
     findBySku: overrides.findBySku ?? (() => Effect.succeed(Option.none())),
+    findByIds: overrides.findByIds ?? (() => Effect.succeed([])),
     insert: overrides.insert ?? (() => Effect.succeed(testProduct)),
-    updateStock: overrides.updateStock ?? (() => Effect.void)
+    updateStock: overrides.updateStock ?? (() => Effect.void),
+    updateDetails: () => Effect.die("updateDetails not expected"),
+    archive: () => Effect.die("archive not expected"),
+    list: () => Effect.die("list not expected")
   })
 }
 
 // Mock ReservationRepository factory
 const createMockReservationRepo = (overrides: {
-  reserveStockAtomic?: (orderId: string, items: readonly any[]) => Effect.Effect<AtomicReserveResult>
+  reserveStockAtomic?: (
+    orderId: string,
+    items: readonly any[],
+    ttlSeconds: number,
+    destination: Destination | null,
+    allowPartial: boolean
+  ) => Effect.Effect<AtomicReserveResult>
   findByOrderId?: (orderId: string) => Effect.Effect<readonly any[]>
   releaseByOrderId?: (orderId: string) => Effect.Effect<{ releasedCount: number; totalQuantityRestored: number; wasAlreadyReleased: boolean }>
+  extendByOrderId?: (orderId: string) => Effect.Effect<ExtendReservationResult>
+  commitByOrderId?: (orderId: string) => Effect.Effect<CommitReservationResult>
+  sumBackorderedByProducts?: (productIds: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<BackorderedQuantity>>
 } = {}) => {
   return Layer.succeed(ReservationRepository, {
     reserveStockAtomic: overrides.reserveStockAtomic ?? (() =>
       Effect.succeed({ _tag: "Reserved", reservations: [] } as const)),
     findByOrderId: overrides.findByOrderId ?? (() => Effect.succeed([])),
-    releaseByOrderId: overrides.releaseByOrderId ?? (() => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false }))
+    sumBackorderedByProducts: overrides.sumBackorderedByProducts ?? (() =>
+      Effect.die("sumBackorderedByProducts not expected")),
+    releaseByOrderId: overrides.releaseByOrderId ?? (() => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false })),
+    extendByOrderId: overrides.extendByOrderId ?? (() => Effect.succeed({ _tag: "NotFound" } as const)),
+    commitByOrderId: overrides.commitByOrderId ?? (() => Effect.succeed({ _tag: "NotFound" } as const)),
+    releaseExpired: () => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, orderIds: [] })
   })
 }
 
@@ -96,14 +168,15 @@ describe("InventoryService", () => {
           Effect.succeed({
             _tag: "Created",
             adjustment: testAdjustment,
-            sku: "TEST-001"
+            sku: "TEST-001",
+            allocatedBackorders: []
           } as const)
       })
       const mockProductRepo = createMockProductRepo()
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const result = await Effect.gen(function* () {
@@ -117,6 +190,83 @@ describe("InventoryService", () => {
       expect(result.addedQuantity).toBe(100)
       expect(result.newQuantity).toBe(150)
       expect(result.adjustmentId).toBe(testAdjustmentId)
+      expect(result.locationId).toBe(testLocationId)
+    })
+
+    it("should report the backorders filled from the received stock", async () => {
+      const allocation = {
+        reservationId: "990e8400-e29b-41d4-a716-446655440009" as ReservationId,
+        orderId: "order-backordered",
+        quantity: 30
+      }
+      const mockStockAdjustmentRepo = createMockStockAdjustmentRepo({
+        addStockAtomic: () =>
+          Effect.succeed({
+            _tag: "Created",
+            adjustment: testAdjustment,
+            sku: "TEST-001",
+            allocatedBackorders: [allocation]
+          } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, createMockProductRepo(), createMockReservationRepo(), createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.addStock(testProductId, testIdempotencyKey, testAddStockRequest)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.allocatedBackorders).toEqual([allocation])
+      expect(result.addedQuantity).toBe(100)
+    })
+
+    it("should receive stock at the requested location", async () => {
+      let capturedParams: any = null
+      const mockStockAdjustmentRepo = createMockStockAdjustmentRepo({
+        addStockAtomic: (params) => {
+          capturedParams = params
+          return Effect.succeed({ _tag: "Created", adjustment: testAdjustment, sku: "TEST-001", allocatedBackorders: [] } as const)
+        }
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, createMockProductRepo(), createMockReservationRepo(), createMockStockMovementRepo()))
+      )
+
+      await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.addStock(
+          testProductId,
+          testIdempotencyKey,
+          new AddStockRequest({ ...testAddStockRequest, locationId: testLocationId })
+        )
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedParams.locationId).toBe(testLocationId)
+    })
+
+    it("should fail with LocationNotFoundError naming the default location when none was given", async () => {
+      const mockStockAdjustmentRepo = createMockStockAdjustmentRepo({
+        addStockAtomic: () => Effect.succeed({ _tag: "LocationNotFound" } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, createMockProductRepo(), createMockReservationRepo(), createMockStockMovementRepo()))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.addStock(testProductId, testIdempotencyKey, testAddStockRequest)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as LocationNotFoundError
+        expect(error._tag).toBe("LocationNotFoundError")
+        expect(error.locationId).toBe("DEFAULT")
+      }
     })
 
     it("should fail with DuplicateAdjustmentError when idempotency key already used", async () => {
@@ -131,7 +281,7 @@ describe("InventoryService", () => {
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const exit = await Effect.gen(function* () {
@@ -166,7 +316,7 @@ describe("InventoryService", () => {
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const nonExistentProductId = "00000000-0000-0000-0000-000000000000" as ProductId
@@ -198,7 +348,8 @@ describe("InventoryService", () => {
           return Effect.succeed({
             _tag: "Created",
             adjustment: testAdjustment,
-            sku: "TEST-001"
+            sku: "TEST-001",
+            allocatedBackorders: []
           } as const)
         }
       })
@@ -206,7 +357,7 @@ describe("InventoryService", () => {
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       await Effect.gen(function* () {
@@ -248,7 +399,8 @@ describe("InventoryService", () => {
               referenceId: null,
               notes: null
             }),
-            sku: "TEST-001"
+            sku: "TEST-001",
+            allocatedBackorders: []
           } as const)
         }
       })
@@ -256,7 +408,7 @@ describe("InventoryService", () => {
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const result = await Effect.gen(function* () {
@@ -270,6 +422,370 @@ describe("InventoryService", () => {
     })
   })
 
+  describe("adjustStock", () => {
+    const writeOffAdjustment = new InventoryAdjustment({
+      ...testAdjustment,
+      quantityChange: -5,
+      previousQuantity: 50,
+      newQuantity: 45,
+      reason: "damaged"
+    })
+
+    const makeLayer = (adjustStockAtomic: (params: AtomicAdjustStockParams) => Effect.Effect<AtomicAdjustStockResult>) =>
+      InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo({ adjustStockAtomic }),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo()
+        ))
+      )
+
+    it("should apply a signed quantity change as a relative change", async () => {
+      let capturedParams: AtomicAdjustStockParams | null = null
+      const testLayer = makeLayer((params) => {
+        capturedParams = params
+        return Effect.succeed({ _tag: "Created", adjustment: writeOffAdjustment, sku: "TEST-001", allocatedBackorders: [] } as const)
+      })
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.adjustStock(
+          testProductId,
+          testIdempotencyKey,
+          new AdjustStockRequest({
+            reason: "damaged",
+            quantityChange: -5,
+            referenceId: Option.none(),
+            notes: Option.some("Water damage")
+          })
+        )
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedParams!.change).toEqual({ _tag: "Relative", quantity: -5 })
+      expect(capturedParams!.locationId).toBeNull()
+      expect(capturedParams!.reason).toBe("damaged")
+      expect(capturedParams!.notes).toBe("Water damage")
+      expect(capturedParams!.referenceId).toBeNull()
+      expect(result.reason).toBe("damaged")
+      expect(result.locationId).toBe(testLocationId)
+      expect(result.quantityChange).toBe(-5)
+      expect(result.newQuantity).toBe(45)
+    })
+
+    it("should send a cycle count as an absolute change", async () => {
+      let capturedParams: AtomicAdjustStockParams | null = null
+      const testLayer = makeLayer((params) => {
+        capturedParams = params
+        return Effect.succeed({ _tag: "Created", adjustment: writeOffAdjustment, sku: "TEST-001", allocatedBackorders: [] } as const)
+      })
+
+      await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.adjustStock(
+          testProductId,
+          testIdempotencyKey,
+          new AdjustStockRequest({
+            reason: "cycle_count",
+            countedQuantity: 45,
+            referenceId: Option.none(),
+            notes: Option.none()
+          })
+        )
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedParams!.change).toEqual({ _tag: "Absolute", quantity: 45 })
+    })
+
+    it("should fail with InsufficientStockError when the change would take stock below zero", async () => {
+      const testLayer = makeLayer(() =>
+        Effect.succeed({ _tag: "InsufficientStock", sku: "TEST-001", available: 3, requested: 5 } as const)
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.adjustStock(
+          testProductId,
+          testIdempotencyKey,
+          new AdjustStockRequest({
+            reason: "shrinkage",
+            quantityChange: -5,
+            referenceId: Option.none(),
+            notes: Option.none()
+          })
+        )
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as InsufficientStockError
+        expect(error._tag).toBe("InsufficientStockError")
+        expect(error.productSku).toBe("TEST-001")
+        expect(error.requested).toBe(5)
+        expect(error.available).toBe(3)
+      }
+    })
+
+    it("should fail with LocationNotFoundError for an unknown location", async () => {
+      let capturedParams: AtomicAdjustStockParams | null = null
+      const testLayer = makeLayer((params) => {
+        capturedParams = params
+        return Effect.succeed({ _tag: "LocationNotFound" } as const)
+      })
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.adjustStock(
+          testProductId,
+          testIdempotencyKey,
+          new AdjustStockRequest({
+            reason: "cycle_count",
+            locationId: testLocationId,
+            countedQuantity: 12,
+            referenceId: Option.none(),
+            notes: Option.none()
+          })
+        )
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(capturedParams!.locationId).toBe(testLocationId)
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as LocationNotFoundError
+        expect(error._tag).toBe("LocationNotFoundError")
+        expect(error.locationId).toBe(testLocationId)
+      }
+    })
+
+    it("should fail with DuplicateAdjustmentError carrying the original change", async () => {
+      const testLayer = makeLayer(() =>
+        Effect.succeed({ _tag: "AlreadyExists", adjustment: writeOffAdjustment } as const)
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.adjustStock(
+          testProductId,
+          testIdempotencyKey,
+          new AdjustStockRequest({
+            reason: "damaged",
+            quantityChange: -5,
+            referenceId: Option.none(),
+            notes: Option.none()
+          })
+        )
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as DuplicateAdjustmentError
+        expect(error._tag).toBe("DuplicateAdjustmentError")
+        expect(error.existingAdjustment.addedQuantity).toBe(-5)
+        expect(error.existingAdjustment.newQuantity).toBe(45)
+      }
+    })
+  })
+
+  describe("listAdjustments", () => {
+    it("should fetch one extra row and return its predecessor as the next cursor", async () => {
+      let capturedLimit: number | undefined
+      const second = new InventoryAdjustment({ ...testAdjustment, id: "660e8400-e29b-41d4-a716-446655440002" as AdjustmentId })
+      const third = new InventoryAdjustment({ ...testAdjustment, id: "660e8400-e29b-41d4-a716-446655440003" as AdjustmentId })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo({
+            listByProduct: (_productId, query) => {
+              capturedLimit = query.limit
+              return Effect.succeed([testAdjustment, second, third])
+            }
+          }),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo()
+        ))
+      )
+
+      const page = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.listAdjustments(testProductId, { reasons: ["damaged"], limit: 2 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedLimit).toBe(3)
+      expect(page.adjustments).toHaveLength(2)
+      expect(page.nextCursor).toBe(second.id)
+    })
+
+    it("should fail with ProductNotFoundError for an unknown product", async () => {
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo({ listByProduct: () => Effect.die("listByProduct not expected") }),
+          createMockProductRepo({ findById: () => Effect.succeed(Option.none()) }),
+          createMockReservationRepo(),
+          createMockStockMovementRepo()
+        ))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.listAdjustments(testProductId, { limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("ProductNotFoundError")
+      }
+    })
+
+    it("should fail with InvalidCursorError when the cursor is not one of the product's adjustments", async () => {
+      let checked: { productId: ProductId; adjustmentId: AdjustmentId } | undefined
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo({
+            listByProduct: () => Effect.die("listByProduct not expected"),
+            existsForProduct: (productId, adjustmentId) => {
+              checked = { productId, adjustmentId }
+              return Effect.succeed(false)
+            }
+          }),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo()
+        ))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.listAdjustments(testProductId, { after: testAdjustment.id, limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(checked).toEqual({ productId: testProductId, adjustmentId: testAdjustment.id })
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("InvalidCursorError")
+      }
+    })
+  })
+
+  describe("listMovements", () => {
+    it("should return the movements with the current stock level", async () => {
+      const reserved = new StockMovement({
+        id: `reservation:${testReservation.id}` as StockMovementId,
+        productId: testProductId,
+        type: "reservation",
+        reason: null,
+        quantityChange: -2,
+        referenceId: testOrderId,
+        occurredAt: DateTime.unsafeNow()
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo(),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo({ listByProduct: () => Effect.succeed([reserved]) })
+        ))
+      )
+
+      const page = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.listMovements(testProductId, { limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(page.stockQuantity).toBe(50)
+      expect(page.movements).toEqual([reserved])
+      expect(page.nextCursor).toBeNull()
+    })
+
+    it("should fail with InvalidCursorError when the cursor is not one of the product's movements", async () => {
+      const cursor = `adjustment:${testAdjustment.id}` as StockMovementId
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo(),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo({
+            listByProduct: () => Effect.die("listByProduct not expected"),
+            existsForProduct: () => Effect.succeed(false)
+          })
+        ))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.listMovements(testProductId, { after: cursor, limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("InvalidCursorError")
+        expect((exit.cause.error as InvalidCursorError).cursor).toBe(cursor)
+      }
+    })
+  })
+
+  describe("reconcileStock", () => {
+    const discrepancy: StockDiscrepancy = {
+      productId: testProductId,
+      sku: "TEST-001",
+      stockQuantity: 50,
+      expectedQuantity: 45
+    }
+
+    it("should report discrepancies without writing corrections by default", async () => {
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo(),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo({ findDiscrepancies: () => Effect.succeed([discrepancy]) })
+        ))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.reconcileStock({ applyCorrections: false })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].difference).toBe(5)
+      expect(result[0].correctionAdjustmentId).toBeNull()
+    })
+
+    it("should write a correction per discrepancy when asked to", async () => {
+      const corrected: Array<ProductId> = []
+      let checkedIds: ReadonlyArray<ProductId> | undefined
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          createMockStockAdjustmentRepo(),
+          createMockProductRepo(),
+          createMockReservationRepo(),
+          createMockStockMovementRepo({
+            findDiscrepancies: (productIds) => {
+              checkedIds = productIds
+              return Effect.succeed([discrepancy])
+            },
+            correctDiscrepancy: (productId, createdBy) => {
+              corrected.push(productId)
+              expect(createdBy).toBe("reconciliation")
+              return Effect.succeed(Option.some(testAdjustmentId))
+            }
+          })
+        ))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.reconcileStock({ productIds: [testProductId], applyCorrections: true })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(checkedIds).toEqual([testProductId])
+      expect(corrected).toEqual([testProductId])
+      expect(result[0].correctionAdjustmentId).toBe(testAdjustmentId)
+    })
+  })
+
   describe("getAvailability", () => {
     it("should return stock quantity when product exists", async () => {
       const mockStockAdjustmentRepo = createMockStockAdjustmentRepo()
@@ -279,7 +795,7 @@ describe("InventoryService", () => {
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const result = await Effect.gen(function* () {
@@ -298,7 +814,7 @@ describe("InventoryService", () => {
       const mockReservationRepo = createMockReservationRepo()
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const exit = await Effect.gen(function* () {
@@ -316,4 +832,268 @@ describe("InventoryService", () => {
       }
     })
   })
+
+  describe("getAvailabilities", () => {
+    it("should return sku and stock for each product found", async () => {
+      const mockProductRepo = createMockProductRepo({
+        findByIds: () => Effect.succeed([testProduct])
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), mockProductRepo, createMockReservationRepo(), createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.getAvailabilities([testProductId])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toEqual([{
+        productId: testProductId,
+        sku: testProduct.sku,
+        stockQuantity: 50,
+        backorderPolicy: "none",
+        backorderableQuantity: 0
+      }])
+    })
+
+    it("should report how many more units a capped backorder product can take", async () => {
+      let requested: ReadonlyArray<ProductId> = []
+      const mockProductRepo = createMockProductRepo({
+        findByIds: () => Effect.succeed([
+          new Product({ ...testProduct, stockQuantity: 0, backorderPolicy: "preorder", backorderLimit: 100 })
+        ])
+      })
+      const mockReservationRepo = createMockReservationRepo({
+        sumBackorderedByProducts: (productIds) => {
+          requested = productIds
+          return Effect.succeed([{ productId: testProductId, quantity: 40 }])
+        }
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.getAvailabilities([testProductId])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(requested).toEqual([testProductId])
+      expect(result[0].backorderPolicy).toBe("preorder")
+      expect(result[0].backorderableQuantity).toBe(60)
+    })
+
+    it("should omit unknown products instead of failing", async () => {
+      const mockProductRepo = createMockProductRepo({
+        findByIds: () => Effect.succeed([])
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), mockProductRepo, createMockReservationRepo(), createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.getAvailabilities([testProductId])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toEqual([])
+    })
+  })
+
+  describe("reserveStock", () => {
+    it("should give new reservations the default 15 minute TTL", async () => {
+      let capturedTtl: number | undefined
+      const mockReservationRepo = createMockReservationRepo({
+        reserveStockAtomic: (_orderId, _items, ttlSeconds) => {
+          capturedTtl = ttlSeconds
+          return Effect.succeed({ _tag: "Reserved", reservations: [testReservation] } as const)
+        }
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.reserveStock({ orderId: testOrderId, items: [{ productId: testProductId, quantity: 2 }] })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedTtl).toBe(900)
+    })
+
+    it("should pass the destination through so the nearest locations are used", async () => {
+      let capturedDestination: unknown
+      const mockReservationRepo = createMockReservationRepo({
+        reserveStockAtomic: (_orderId, _items, _ttlSeconds, destination) => {
+          capturedDestination = destination
+          return Effect.succeed({ _tag: "Reserved", reservations: [testReservation] } as const)
+        }
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const reserve = (destination?: Destination) =>
+        Effect.gen(function* () {
+          const service = yield* InventoryService
+          return yield* service.reserveStock({
+            orderId: testOrderId,
+            items: [{ productId: testProductId, quantity: 2 }],
+            destination
+          })
+        }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      const destination = new Destination({ latitude: 51.5, longitude: -0.12 })
+      await reserve(destination)
+      expect(capturedDestination).toBe(destination)
+
+      await reserve()
+      expect(capturedDestination).toBeNull()
+    })
+  })
+
+  describe("extendReservation", () => {
+    it("should return the extended reservations", async () => {
+      const mockReservationRepo = createMockReservationRepo({
+        extendByOrderId: () => Effect.succeed({ _tag: "Extended", reservations: [testReservation] } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.extendReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toEqual([testReservation])
+      expect(result[0].expiresAt).toBeNull()
+    })
+
+    it("should fail with ReservationNotFoundError when the order was never reserved", async () => {
+      const mockReservationRepo = createMockReservationRepo({
+        extendByOrderId: () => Effect.succeed({ _tag: "NotFound" } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.extendReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error).toBeInstanceOf(ReservationNotFoundError)
+      }
+    })
+
+    it("should fail with ReservationReleasedError when the reservation already expired", async () => {
+      const mockReservationRepo = createMockReservationRepo({
+        extendByOrderId: () => Effect.succeed({ _tag: "AlreadyReleased" } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.extendReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error).toBeInstanceOf(ReservationReleasedError)
+        expect((exit.cause.error as ReservationReleasedError).orderId).toBe(testOrderId)
+      }
+    })
+  })
+
+  describe("commitReservation", () => {
+    const committedReservation = new InventoryReservation({
+      ...testReservation,
+      status: "COMMITTED",
+      committedAt: DateTime.unsafeNow()
+    })
+
+    it("should return the committed reservations", async () => {
+      const mockReservationRepo = createMockReservationRepo({
+        commitByOrderId: () => Effect.succeed({ _tag: "Committed", reservations: [committedReservation] } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.commitReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].status).toBe("COMMITTED")
+    })
+
+    it("should be idempotent when the reservations are already committed", async () => {
+      const mockReservationRepo = createMockReservationRepo({
+        commitByOrderId: () => Effect.succeed({ _tag: "AlreadyCommitted", reservations: [committedReservation] } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.commitReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.map((r) => r.id)).toEqual([committedReservation.id])
+    })
+
+    it("should fail with ReservationReleasedError when the reservations were released", async () => {
+      const mockReservationRepo = createMockReservationRepo({
+        commitByOrderId: () => Effect.succeed({ _tag: "AlreadyReleased" } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.commitReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error).toBeInstanceOf(ReservationReleasedError)
+      }
+    })
+
+    it("should fail with ReservationNotFoundError when the order was never reserved", async () => {
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), createMockReservationRepo(), createMockStockMovementRepo()))
+      )
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.commitReservation(testOrderId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error).toBeInstanceOf(ReservationNotFoundError)
+      }
+    })
+  })
 })
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest"
+import { Schema, Either } from "effect"
+import {
+  CreateLocationRequest,
+  Destination,
+  LocationId,
+  allocateAcrossLocations,
+  distanceKm,
+  rankLocations,
+  type LocationStockCandidate
+} from "../domain/Location.js"
+
+// London, Manchester and Edinburgh warehouses
+const london: LocationStockCandidate = {
+  locationId: "550e8400-e29b-41d4-a716-446655440001" as LocationId,
+  code: "LON",
+  priority: 10,
+  latitude: 51.5074,
+  longitude: -0.1278,
+  quantity: 5
+}
+const manchester: LocationStockCandidate = {
+  locationId: "550e8400-e29b-41d4-a716-446655440002" as LocationId,
+  code: "MAN",
+  priority: 20,
+  latitude: 53.4808,
+  longitude: -2.2426,
+  quantity: 10
+}
+const edinburgh: LocationStockCandidate = {
+  locationId: "550e8400-e29b-41d4-a716-446655440003" as LocationId,
+  code: "EDI",
+  priority: 30,
+  latitude: 55.9533,
+  longitude: -3.1883,
+  quantity: 3
+}
+// No coordinates - only ever ranked by priority
+const defaultLocation: LocationStockCandidate = {
+  locationId: "550e8400-e29b-41d4-a716-446655440000" as LocationId,
+  code: "DEFAULT",
+  priority: 0,
+  latitude: null,
+  longitude: null,
+  quantity: 2
+}
+
+const glasgow = new Destination({ latitude: 55.8642, longitude: -4.2518 })
+
+describe("Location Domain", () => {
+  describe("distanceKm", () => {
+    it("should be zero between a point and itself", () => {
+      expect(distanceKm(glasgow, glasgow)).toBe(0)
+    })
+
+    it("should approximate the great-circle distance", () => {
+      // London to Manchester is roughly 262 km as the crow flies
+      const distance = distanceKm(
+        { latitude: london.latitude!, longitude: london.longitude! },
+        { latitude: manchester.latitude!, longitude: manchester.longitude! }
+      )
+      expect(distance).toBeGreaterThan(255)
+      expect(distance).toBeLessThan(270)
+    })
+  })
+
+  describe("rankLocations", () => {
+    it("should rank by priority without a destination", () => {
+      const ranked = rankLocations([edinburgh, london, defaultLocation, manchester], null)
+      expect(ranked.map((c) => c.code)).toEqual(["DEFAULT", "LON", "MAN", "EDI"])
+    })
+
+    it("should rank the nearest first with a destination, locations without coordinates last", () => {
+      const ranked = rankLocations([london, defaultLocation, manchester, edinburgh], glasgow)
+      expect(ranked.map((c) => c.code)).toEqual(["EDI", "MAN", "LON", "DEFAULT"])
+    })
+
+    it("should break ties on priority, then code", () => {
+      const twin = { ...london, locationId: "550e8400-e29b-41d4-a716-446655440004" as LocationId, code: "LON-2" }
+      const ranked = rankLocations([twin, london], glasgow)
+      expect(ranked.map((c) => c.code)).toEqual(["LON", "LON-2"])
+    })
+  })
+
+  describe("allocateAcrossLocations", () => {
+    it("should take the whole quantity from the best location that holds enough", () => {
+      // Edinburgh is nearest but only holds 3
+      const allocations = allocateAcrossLocations(4, [london, manchester, edinburgh], glasgow)
+      expect(allocations).toEqual([{ locationId: manchester.locationId, quantity: 4 }])
+    })
+
+    it("should split in rank order when no single location holds enough", () => {
+      const allocations = allocateAcrossLocations(14, [london, manchester, edinburgh], glasgow)
+      expect(allocations).toEqual([
+        { locationId: edinburgh.locationId, quantity: 3 },
+        { locationId: manchester.locationId, quantity: 10 },
+        { locationId: london.locationId, quantity: 1 }
+      ])
+    })
+
+    it("should skip locations that hold none of the product", () => {
+      const empty = { ...edinburgh, quantity: 0 }
+      const allocations = allocateAcrossLocations(3, [empty, defaultLocation, london], null)
+      expect(allocations).toEqual([{ locationId: london.locationId, quantity: 3 }])
+    })
+
+    it("should return no allocations when the locations together hold too little", () => {
+      expect(allocateAcrossLocations(21, [london, manchester, edinburgh, defaultLocation], null)).toEqual([])
+      expect(allocateAcrossLocations(1, [], null)).toEqual([])
+    })
+  })
+
+  describe("CreateLocationRequest", () => {
+    it("should default the priority and accept a location without coordinates", () => {
+      const result = Schema.decodeUnknownEither(CreateLocationRequest)({ code: "STORE-1", name: "High Street store" })
+      expect(Either.isRight(result)).toBe(true)
+      if (Either.isRight(result)) {
+        expect(result.right.priority).toBe(100)
+        expect(result.right.latitude).toBeUndefined()
+      }
+    })
+
+    it("should reject a latitude without a longitude", () => {
+      const result = Schema.decodeUnknownEither(CreateLocationRequest)({
+        code: "STORE-1",
+        name: "High Street store",
+        latitude: 51.5
+      })
+      expect(Either.isLeft(result)).toBe(true)
+    })
+
+    it("should reject out-of-range coordinates and lowercase codes", () => {
+      const decode = Schema.decodeUnknownEither(CreateLocationRequest)
+      expect(Either.isLeft(decode({ code: "LON", name: "London", latitude: 91, longitude: 0 }))).toBe(true)
+      expect(Either.isLeft(decode({ code: "lon", name: "London" }))).toBe(true)
+    })
+  })
+})
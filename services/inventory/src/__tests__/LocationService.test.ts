@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Layer, Option, DateTime, Exit } from "effect"
+import { LocationService } from "../services/LocationService.js"
+import { LocationServiceLive } from "../services/LocationServiceLive.js"
+import {
+  LocationRepository,
+  type CreateLocationRow,
+  type LocationStockLevel
+} from "../repositories/LocationRepository.js"
+import { CreateLocationRequest, Location, LocationId } from "../domain/Location.js"
+import type { ProductId } from "../domain/Product.js"
+import { DuplicateLocationCodeError } from "../domain/errors.js"
+
+const testLocation = new Location({
+  id: "550e8400-e29b-41d4-a716-446655440001" as LocationId,
+  code: "LON",
+  name: "London warehouse",
+  priority: 10,
+  latitude: 51.5074,
+  longitude: -0.1278,
+  createdAt: DateTime.unsafeNow()
+})
+
+const createMockRepo = (overrides: {
+  insert?: (row: CreateLocationRow) => Effect.Effect<Location>
+  findByCode?: (code: string) => Effect.Effect<Option.Option<Location>>
+  findStockByProducts?: (productIds: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<LocationStockLevel>>
+} = {}) =>
+  Layer.succeed(LocationRepository, {
+    insert: overrides.insert ?? (() => Effect.succeed(testLocation)),
+    findByCode: overrides.findByCode ?? (() => Effect.succeed(Option.none())),
+    list: () => Effect.succeed([testLocation]),
+    findStockByProducts: overrides.findStockByProducts ?? (() => Effect.succeed([]))
+  })
+
+const run = <A, E>(effect: Effect.Effect<A, E, LocationService>, repo: Layer.Layer<LocationRepository>) =>
+  effect.pipe(Effect.provide(LocationServiceLive.pipe(Layer.provide(repo))), Effect.runPromiseExit)
+
+describe("LocationService", () => {
+  describe("create", () => {
+    it("should insert a new location, leaving missing coordinates null", async () => {
+      let inserted: CreateLocationRow | null = null
+      const repo = createMockRepo({
+        insert: (row) => {
+          inserted = row
+          return Effect.succeed(testLocation)
+        }
+      })
+
+      const exit = await run(
+        Effect.flatMap(LocationService, (service) =>
+          service.create(new CreateLocationRequest({ code: "STORE-1", name: "High Street store", priority: 50 }))
+        ),
+        repo
+      )
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      expect(inserted).toEqual({
+        code: "STORE-1",
+        name: "High Street store",
+        priority: 50,
+        latitude: null,
+        longitude: null
+      })
+    })
+
+    it("should fail with DuplicateLocationCodeError when the code is taken", async () => {
+      const repo = createMockRepo({
+        findByCode: () => Effect.succeed(Option.some(testLocation)),
+        insert: () => Effect.die("insert not expected")
+      })
+
+      const exit = await run(
+        Effect.flatMap(LocationService, (service) =>
+          service.create(new CreateLocationRequest({ code: "LON", name: "Another London", priority: 100 }))
+        ),
+        repo
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as DuplicateLocationCodeError
+        expect(error._tag).toBe("DuplicateLocationCodeError")
+        expect(error.existingLocationId).toBe(testLocation.id)
+      }
+    })
+  })
+
+  describe("findStockByProducts", () => {
+    it("should look each product up once", async () => {
+      let requested: ReadonlyArray<ProductId> = []
+      const productId = "660e8400-e29b-41d4-a716-446655440000" as ProductId
+      const repo = createMockRepo({
+        findStockByProducts: (productIds) => {
+          requested = productIds
+          return Effect.succeed([])
+        }
+      })
+
+      await run(
+        Effect.flatMap(LocationService, (service) => service.findStockByProducts([productId, productId])),
+        repo
+      )
+
+      expect(requested).toEqual([productId])
+    })
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest"
 import { Schema, Either } from "effect"
-import { CreateProductRequest } from "../domain/Product.js"
+import { CreateProductRequest, ListProductsParams, UpdateProductRequest } from "../domain/Product.js"
 
 describe("CreateProductRequest", () => {
   const decode = Schema.decodeUnknownEither(CreateProductRequest)
@@ -244,6 +244,35 @@ describe("CreateProductRequest", () => {
     })
   })
 
+  describe("backorder settings", () => {
+    const base = { name: "Widget", sku: "WIDGET-001", priceCents: 999 }
+
+    it("should default to taking no backorders", () => {
+      const result = decode(base)
+
+      expect(Either.isRight(result)).toBe(true)
+      if (Either.isRight(result)) {
+        expect(result.right.backorderPolicy).toBe("none")
+        expect(result.right.backorderLimit).toBeUndefined()
+      }
+    })
+
+    it("should accept a pre-order product with a cap", () => {
+      const result = decode({ ...base, backorderPolicy: "preorder", backorderLimit: 500 })
+
+      expect(Either.isRight(result)).toBe(true)
+      if (Either.isRight(result)) {
+        expect(result.right.backorderPolicy).toBe("preorder")
+        expect(result.right.backorderLimit).toBe(500)
+      }
+    })
+
+    it("should reject an unknown policy or a negative cap", () => {
+      expect(Either.isLeft(decode({ ...base, backorderPolicy: "always" }))).toBe(true)
+      expect(Either.isLeft(decode({ ...base, backorderPolicy: "backorder", backorderLimit: -1 }))).toBe(true)
+    })
+  })
+
   describe("missing required fields", () => {
     it("should reject missing name", () => {
       const input = {
@@ -279,3 +308,70 @@ describe("CreateProductRequest", () => {
     })
   })
 })
+
+describe("UpdateProductRequest", () => {
+  const decode = Schema.decodeUnknownEither(UpdateProductRequest)
+
+  it("should accept a price change with the expected updatedAt", () => {
+    const result = decode({ priceCents: 3499, expectedUpdatedAt: "2024-01-15T10:30:00.000Z" })
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right.priceCents).toBe(3499)
+      expect(result.right.name).toBeUndefined()
+    }
+  })
+
+  it("should reject a request without expectedUpdatedAt", () => {
+    const result = decode({ name: "Widget Pro" })
+    expect(Either.isLeft(result)).toBe(true)
+  })
+
+  it("should reject a request that changes nothing", () => {
+    const result = decode({ expectedUpdatedAt: "2024-01-15T10:30:00.000Z" })
+    expect(Either.isLeft(result)).toBe(true)
+  })
+
+  it("should accept clearing the backorder cap on its own", () => {
+    const result = decode({ backorderLimit: null, expectedUpdatedAt: "2024-01-15T10:30:00.000Z" })
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right.backorderLimit).toBeNull()
+      expect(result.right.backorderPolicy).toBeUndefined()
+    }
+  })
+
+  it("should apply the create validation rules to changed fields", () => {
+    const result = decode({ name: "", priceCents: 0, expectedUpdatedAt: "2024-01-15T10:30:00.000Z" })
+    expect(Either.isLeft(result)).toBe(true)
+  })
+})
+
+describe("ListProductsParams", () => {
+  const decode = Schema.decodeUnknownEither(ListProductsParams)
+
+  it("should default to the first 20 unarchived products", () => {
+    const result = decode({})
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right).toEqual({ in_stock: false, include_archived: false, limit: 20 })
+    }
+  })
+
+  it("should decode filters from query string values", () => {
+    const result = decode({ q: "widget", sku_prefix: "WID-", in_stock: "true", limit: "50" })
+
+    expect(Either.isRight(result)).toBe(true)
+    if (Either.isRight(result)) {
+      expect(result.right.in_stock).toBe(true)
+      expect(result.right.limit).toBe(50)
+    }
+  })
+
+  it("should reject a limit above 100", () => {
+    const result = decode({ limit: "101" })
+    expect(Either.isLeft(result)).toBe(true)
+  })
+})
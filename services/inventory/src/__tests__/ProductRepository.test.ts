@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { Effect, Layer, Option } from "effect"
+import { Effect, Layer, Option, DateTime } from "effect"
 import { SqlClient } from "@effect/sql"
 import { ProductRepository } from "../repositories/ProductRepository.js"
 import { ProductRepositoryLive } from "../repositories/ProductRepositoryLive.js"
@@ -24,8 +24,11 @@ describe("ProductRepository", () => {
         sku: "TEST-001",
         price_cents: 2999,
         stock_quantity: 100,
+        backorder_policy: "none",
+        backorder_limit: null,
         created_at: new Date("2024-01-15T10:30:00Z"),
-        updated_at: new Date("2024-01-15T10:30:00Z")
+        updated_at: new Date("2024-01-15T10:30:00Z"),
+        archived_at: null
       }
 
       const mockSqlClient = createMockSqlClient(() => [mockRow])
@@ -50,8 +53,11 @@ describe("ProductRepository", () => {
         sku: "TEST-001",
         price_cents: 10000,  // $100.00
         stock_quantity: 100,
+        backorder_policy: "none",
+        backorder_limit: null,
         created_at: new Date("2024-01-15T10:30:00Z"),
-        updated_at: new Date("2024-01-15T10:30:00Z")
+        updated_at: new Date("2024-01-15T10:30:00Z"),
+        archived_at: null
       }
 
       const mockSqlClient = createMockSqlClient(() => [mockRow])
@@ -90,8 +96,11 @@ describe("ProductRepository", () => {
         sku: "TEST-001",
         price_cents: 2999,
         stock_quantity: 100,
+        backorder_policy: "none",
+        backorder_limit: null,
         created_at: new Date("2024-01-15T10:30:00Z"),
-        updated_at: new Date("2024-01-15T10:30:00Z")
+        updated_at: new Date("2024-01-15T10:30:00Z"),
+        archived_at: null
       }
 
       const mockSqlClient = createMockSqlClient(() => [mockRow])
@@ -112,6 +121,49 @@ describe("ProductRepository", () => {
     })
   })
 
+  describe("archive", () => {
+    it("should map archived_at of the archived product", async () => {
+      const mockRow = {
+        id: "550e8400-e29b-41d4-a716-446655440000",
+        name: "Test Widget",
+        sku: "TEST-001",
+        price_cents: 2999,
+        stock_quantity: 100,
+        backorder_policy: "none",
+        backorder_limit: null,
+        created_at: new Date("2024-01-15T10:30:00Z"),
+        updated_at: new Date("2024-01-16T09:00:00Z"),
+        archived_at: new Date("2024-01-16T09:00:00Z")
+      }
+
+      const mockSqlClient = createMockSqlClient(() => [mockRow])
+      const testLayer = ProductRepositoryLive.pipe(Layer.provide(mockSqlClient))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* ProductRepository
+        return yield* repo.archive("550e8400-e29b-41d4-a716-446655440000" as ProductId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(Option.isSome(result)).toBe(true)
+      if (Option.isSome(result)) {
+        expect(result.value.archivedAt).not.toBeNull()
+        expect(DateTime.formatIso(result.value.archivedAt!)).toBe("2024-01-16T09:00:00.000Z")
+      }
+    })
+
+    it("should return Option.none when no unarchived product matched", async () => {
+      const mockSqlClient = createMockSqlClient(() => [])
+      const testLayer = ProductRepositoryLive.pipe(Layer.provide(mockSqlClient))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* ProductRepository
+        return yield* repo.archive("550e8400-e29b-41d4-a716-446655440000" as ProductId)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(Option.isNone(result)).toBe(true)
+    })
+  })
+
   describe("findBySku", () => {
     it("should return Option.none when SKU not found", async () => {
       const mockSqlClient = createMockSqlClient(() => [])
@@ -132,8 +184,11 @@ describe("ProductRepository", () => {
         sku: "TEST-001",
         price_cents: 2999,
         stock_quantity: 100,
+        backorder_policy: "none",
+        backorder_limit: null,
         created_at: new Date("2024-01-15T10:30:00Z"),
-        updated_at: new Date("2024-01-15T10:30:00Z")
+        updated_at: new Date("2024-01-15T10:30:00Z"),
+        archived_at: null
       }
 
       const mockSqlClient = createMockSqlClient(() => [mockRow])
@@ -165,8 +220,11 @@ describe("ProductRepository", () => {
           sku: "NEW-001",
           price_cents: 2999,
           stock_quantity: 50,
+          backorder_policy: "none",
+          backorder_limit: null,
           created_at: new Date(),
-          updated_at: new Date()
+          updated_at: new Date(),
+          archived_at: null
         }])
       }) as any)
 
@@ -178,7 +236,9 @@ describe("ProductRepository", () => {
           name: "New Product",
           sku: "NEW-001",
           priceCents: 2999,  // 2999 cents = $29.99
-          stockQuantity: 50
+          stockQuantity: 50,
+          backorderPolicy: "none",
+          backorderLimit: null
         })
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
@@ -194,8 +254,11 @@ describe("ProductRepository", () => {
         sku: "NEW-001",
         price_cents: 2999,
         stock_quantity: 50,
+        backorder_policy: "none",
+        backorder_limit: null,
         created_at: new Date("2024-01-15T10:30:00Z"),
-        updated_at: new Date("2024-01-15T10:30:00Z")
+        updated_at: new Date("2024-01-15T10:30:00Z"),
+        archived_at: null
       }
 
       const mockSqlClient = createMockSqlClient(() => [mockRow])
@@ -207,7 +270,9 @@ describe("ProductRepository", () => {
           name: "New Product",
           sku: "NEW-001",
           priceCents: 2999,
-          stockQuantity: 50
+          stockQuantity: 50,
+          backorderPolicy: "none",
+          backorderLimit: null
         })
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
@@ -218,4 +283,66 @@ describe("ProductRepository", () => {
       expect(result.stockQuantity).toBe(50)
     })
   })
+
+  describe("findByIds", () => {
+    it("should return an empty array without querying when no IDs are given", async () => {
+      let queried = false
+      const mockSqlClient = createMockSqlClient(() => {
+        queried = true
+        return []
+      })
+      const testLayer = ProductRepositoryLive.pipe(Layer.provide(mockSqlClient))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* ProductRepository
+        return yield* repo.findByIds([])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toEqual([])
+      expect(queried).toBe(false)
+    })
+
+    it("should map every returned row to a product", async () => {
+      const rows = [
+        {
+          id: "550e8400-e29b-41d4-a716-446655440000",
+          name: "Test Widget",
+          sku: "TEST-001",
+          price_cents: 2999,
+          stock_quantity: 100,
+          backorder_policy: "none",
+          backorder_limit: null,
+          created_at: new Date("2024-01-15T10:30:00Z"),
+          updated_at: new Date("2024-01-15T10:30:00Z"),
+          archived_at: null
+        },
+        {
+          id: "660e8400-e29b-41d4-a716-446655440001",
+          name: "Other Widget",
+          sku: "TEST-002",
+          price_cents: 1500,
+          stock_quantity: 5,
+          backorder_policy: "none",
+          backorder_limit: null,
+          created_at: new Date("2024-01-15T10:30:00Z"),
+          updated_at: new Date("2024-01-15T10:30:00Z"),
+          archived_at: null
+        }
+      ]
+
+      const mockSqlClient = createMockSqlClient(() => rows)
+      const testLayer = ProductRepositoryLive.pipe(Layer.provide(mockSqlClient))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* ProductRepository
+        return yield* repo.findByIds([
+          "550e8400-e29b-41d4-a716-446655440000" as ProductId,
+          "660e8400-e29b-41d4-a716-446655440001" as ProductId
+        ])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.map((p) => p.sku)).toEqual(["TEST-001", "TEST-002"])
+      expect(result[1].priceCents).toBe(1500)
+    })
+  })
 })
@@ -2,9 +2,17 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, Option, DateTime, Exit } from "effect"
 import { ProductService } from "../services/ProductService.js"
 import { ProductServiceLive } from "../services/ProductServiceLive.js"
-import { ProductRepository } from "../repositories/ProductRepository.js"
-import { Product, ProductId, CreateProductRequest } from "../domain/Product.js"
-import { DuplicateSkuError, ProductNotFoundError } from "../domain/errors.js"
+import { ProductRepository, type ListProductsQuery, type UpdateProductRow } from "../repositories/ProductRepository.js"
+import { FxRateRepository } from "../repositories/FxRateRepository.js"
+import { Product, ProductId, CreateProductRequest, UpdateProductRequest } from "../domain/Product.js"
+import { FxRate, convertFromBase } from "../domain/FxRate.js"
+import {
+  DuplicateSkuError,
+  InvalidCursorError,
+  ProductNotFoundError,
+  ProductUpdateConflictError,
+  UnsupportedCurrencyError
+} from "../domain/errors.js"
 
 // Test fixtures
 const testProduct = new Product({
@@ -13,8 +21,11 @@ const testProduct = new Product({
   sku: "TEST-001",
   priceCents: 2999,
   stockQuantity: 100,
+  backorderPolicy: "none",
+  backorderLimit: null,
   createdAt: DateTime.unsafeNow(),
-  updatedAt: DateTime.unsafeNow()
+  updatedAt: DateTime.unsafeNow(),
+  archivedAt: null
 })
 
 const testCreateRequest = new CreateProductRequest({
@@ -27,16 +38,30 @@ const testCreateRequest = new CreateProductRequest({
 // Mock repository factory
 const createMockRepo = (overrides: {
   findBySku?: (sku: string) => Effect.Effect<Option.Option<Product>>
+  findByIds?: (ids: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<Product>>
   findById?: (id: ProductId) => Effect.Effect<Option.Option<Product>>
   insert?: (row: any) => Effect.Effect<Product>
   updateStock?: (id: ProductId, quantity: number) => Effect.Effect<void>
+  updateDetails?: (id: ProductId, row: UpdateProductRow, expectedUpdatedAt: Date) => Effect.Effect<Option.Option<Product>>
+  archive?: (id: ProductId) => Effect.Effect<Option.Option<Product>>
+  list?: (query: ListProductsQuery) => Effect.Effect<ReadonlyArray<Product>>
+  findFxRate?: (currency: string) => Effect.Effect<Option.Option<FxRate>>
 } = {}) => {
-  return Layer.succeed(ProductRepository, {
-    findBySku: overrides.findBySku ?? (() => Effect.succeed(Option.none())),
-    findById: overrides.findById ?? (() => Effect.succeed(Option.none())),
-    insert: overrides.insert ?? (() => Effect.succeed(testProduct)),
-    updateStock: overrides.updateStock ?? (() => Effect.void)
-  })
+  return Layer.mergeAll(
+    Layer.succeed(ProductRepository, {
+      findBySku: overrides.findBySku ?? (() => Effect.succeed(Option.none())),
+      findById: overrides.findById ?? (() => Effect.succeed(Option.none())),
+      findByIds: overrides.findByIds ?? (() => Effect.succeed([])),
+      insert: overrides.insert ?? (() => Effect.succeed(testProduct)),
+      updateStock: overrides.updateStock ?? (() => Effect.void),
+      updateDetails: overrides.updateDetails ?? (() => Effect.succeed(Option.none())),
+      archive: overrides.archive ?? (() => Effect.succeed(Option.none())),
+      list: overrides.list ?? (() => Effect.succeed([]))
+    }),
+    Layer.succeed(FxRateRepository, {
+      findByCurrency: overrides.findFxRate ?? (() => Effect.succeed(Option.none()))
+    })
+  )
 }
 
 describe("ProductService", () => {
@@ -200,4 +225,321 @@ describe("ProductService", () => {
       }
     })
   })
+
+  describe("findByIds", () => {
+    it("should return the products found by the repository", async () => {
+      const mockRepo = createMockRepo({
+        findByIds: () => Effect.succeed([testProduct])
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.findByIds([testProduct.id])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].priceCents).toBe(2999)
+    })
+
+    it("should de-duplicate IDs before querying the repository", async () => {
+      let capturedIds: ReadonlyArray<ProductId> = []
+      const mockRepo = createMockRepo({
+        findByIds: (ids) => {
+          capturedIds = ids
+          return Effect.succeed([testProduct])
+        }
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.findByIds([testProduct.id, testProduct.id])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedIds).toEqual([testProduct.id])
+    })
+  })
+
+  describe("findFxRate", () => {
+    const eurRate = new FxRate({ currency: "EUR", rate: 0.92, updatedAt: DateTime.unsafeNow() })
+
+    it("should resolve the base currency at rate 1 without querying the repository", async () => {
+      let queried = false
+      const mockRepo = createMockRepo({
+        findFxRate: () => {
+          queried = true
+          return Effect.succeed(Option.none())
+        }
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.findFxRate("USD")
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.rate).toBe(1)
+      expect(queried).toBe(false)
+    })
+
+    it("should return the stored rate and convert base prices with it", async () => {
+      const mockRepo = createMockRepo({
+        findFxRate: () => Effect.succeed(Option.some(eurRate))
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.findFxRate("EUR")
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.currency).toBe("EUR")
+      // 2999 * 0.92 = 2759.08, rounded to the nearest cent
+      expect(convertFromBase(testProduct.priceCents, result)).toBe(2759)
+    })
+
+    it("should fail with UnsupportedCurrencyError when no rate is configured", async () => {
+      const mockRepo = createMockRepo({
+        findFxRate: () => Effect.succeed(Option.none())
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.findFxRate("JPY")
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("UnsupportedCurrencyError")
+        expect((exit.cause.error as UnsupportedCurrencyError).currency).toBe("JPY")
+      }
+    })
+  })
+
+  describe("list", () => {
+    const productIds = [
+      "550e8400-e29b-41d4-a716-446655440010" as ProductId,
+      "550e8400-e29b-41d4-a716-446655440011" as ProductId,
+      "550e8400-e29b-41d4-a716-446655440012" as ProductId
+    ]
+    const products = productIds.map((id) => new Product({ ...testProduct, id }))
+
+    it("should fetch one extra row and return the last product on the page as the cursor", async () => {
+      let capturedQuery: ListProductsQuery | undefined
+      const mockRepo = createMockRepo({
+        list: (query) => {
+          capturedQuery = query
+          return Effect.succeed(products.slice(0, query.limit))
+        }
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.list({ skuPrefix: "TEST-", inStockOnly: true, includeArchived: false, limit: 2 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedQuery).toEqual({ skuPrefix: "TEST-", inStockOnly: true, includeArchived: false, limit: 3 })
+      expect(result.products.map((product) => product.id)).toEqual(productIds.slice(0, 2))
+      expect(result.nextCursor).toBe(productIds[1])
+    })
+
+    it("should return a null cursor on the last page", async () => {
+      const mockRepo = createMockRepo({ list: () => Effect.succeed(products) })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.list({ inStockOnly: false, includeArchived: false, limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.products).toHaveLength(3)
+      expect(result.nextCursor).toBeNull()
+    })
+
+    it("should resume after a product that exists", async () => {
+      let capturedQuery: ListProductsQuery | undefined
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.some(products[0])),
+        list: (query) => {
+          capturedQuery = query
+          return Effect.succeed(products.slice(1))
+        }
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.list({ inStockOnly: false, includeArchived: false, after: productIds[0], limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedQuery?.after).toBe(productIds[0])
+      expect(result.products.map((product) => product.id)).toEqual(productIds.slice(1))
+    })
+
+    it("should fail with InvalidCursorError when the cursor names no product", async () => {
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.none()),
+        list: () => Effect.die("list not expected")
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.list({ inStockOnly: false, includeArchived: false, after: productIds[0], limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("InvalidCursorError")
+        expect((exit.cause.error as InvalidCursorError).cursor).toBe(productIds[0])
+      }
+    })
+  })
+
+  describe("update", () => {
+    const readAt = DateTime.unsafeMake("2024-01-15T10:30:00.000Z")
+    const request = new UpdateProductRequest({ priceCents: 3499, expectedUpdatedAt: readAt })
+
+    it("should pass the changed fields and the expected updated_at to the repository", async () => {
+      let captured: { row: UpdateProductRow; expectedUpdatedAt: Date } | undefined
+      const updatedProduct = new Product({ ...testProduct, priceCents: 3499 })
+      const mockRepo = createMockRepo({
+        updateDetails: (_id, row, expectedUpdatedAt) => {
+          captured = { row, expectedUpdatedAt }
+          return Effect.succeed(Option.some(updatedProduct))
+        }
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.update(testProduct.id, request)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.priceCents).toBe(3499)
+      expect(captured?.row).toEqual({ name: undefined, priceCents: 3499 })
+      expect(captured?.expectedUpdatedAt.toISOString()).toBe("2024-01-15T10:30:00.000Z")
+    })
+
+    it("should fail with ProductUpdateConflictError when the product changed since it was read", async () => {
+      const currentUpdatedAt = DateTime.unsafeMake("2024-01-15T10:31:00.000Z")
+      const mockRepo = createMockRepo({
+        updateDetails: () => Effect.succeed(Option.none()),
+        findById: () => Effect.succeed(Option.some(new Product({ ...testProduct, updatedAt: currentUpdatedAt })))
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.update(testProduct.id, request)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("ProductUpdateConflictError")
+        expect((exit.cause.error as ProductUpdateConflictError).currentUpdatedAt).toBe("2024-01-15T10:31:00.000Z")
+      }
+    })
+
+    it("should fail with ProductArchivedError when the product is archived", async () => {
+      const mockRepo = createMockRepo({
+        updateDetails: () => Effect.succeed(Option.none()),
+        findById: () => Effect.succeed(Option.some(new Product({ ...testProduct, archivedAt: DateTime.unsafeNow() })))
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.update(testProduct.id, request)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("ProductArchivedError")
+      }
+    })
+
+    it("should fail with ProductNotFoundError when the product does not exist", async () => {
+      const mockRepo = createMockRepo({
+        updateDetails: () => Effect.succeed(Option.none()),
+        findById: () => Effect.succeed(Option.none())
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.update(testProduct.id, request)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("ProductNotFoundError")
+      }
+    })
+  })
+
+  describe("archive", () => {
+    it("should return the archived product", async () => {
+      const archivedProduct = new Product({ ...testProduct, archivedAt: DateTime.unsafeNow() })
+      const mockRepo = createMockRepo({ archive: () => Effect.succeed(Option.some(archivedProduct)) })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.archive(testProduct.id)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.archivedAt).not.toBeNull()
+    })
+
+    it("should return an already archived product unchanged", async () => {
+      const archivedAt = DateTime.unsafeMake("2024-01-15T10:30:00.000Z")
+      const mockRepo = createMockRepo({
+        archive: () => Effect.succeed(Option.none()),
+        findById: () => Effect.succeed(Option.some(new Product({ ...testProduct, archivedAt })))
+      })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.archive(testProduct.id)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.archivedAt).toEqual(archivedAt)
+    })
+
+    it("should fail with ProductNotFoundError when the product does not exist", async () => {
+      const mockRepo = createMockRepo({ archive: () => Effect.succeed(Option.none()) })
+
+      const testLayer = ProductServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* ProductService
+        return yield* service.archive(testProduct.id)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("ProductNotFoundError")
+      }
+    })
+  })
 })
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Layer } from "effect"
+import { SqlClient } from "@effect/sql"
+import { ReservationRepository } from "../repositories/ReservationRepository.js"
+import { ReservationRepositoryLive } from "../repositories/ReservationRepositoryLive.js"
+import { ProductId } from "../domain/Product.js"
+
+interface ExecutedQuery {
+  readonly text: string
+  readonly values: readonly unknown[]
+}
+
+// Mock SQL client that records every statement and answers from the handler
+const createMockSqlClient = (
+  queryHandler: (text: string, values: readonly unknown[]) => unknown[],
+  executed: ExecutedQuery[]
+) => {
+  const mockSql = Object.assign(
+    (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?").replace(/\s+/g, " ").trim()
+      executed.push({ text, values })
+      return Effect.succeed(queryHandler(text, values))
+    },
+    {
+      withTransaction: <A, E, R>(effect: Effect.Effect<A, E, R>) => effect
+    }
+  )
+
+  return Layer.succeed(SqlClient.SqlClient, mockSql as any)
+}
+
+// Test fixtures
+const ORDER_ID = "550e8400-e29b-41d4-a716-446655440000"
+const PRODUCT_ID = "660e8400-e29b-41d4-a716-446655440001" as ProductId
+const LOCATION_ID = "770e8400-e29b-41d4-a716-446655440002"
+const RESERVATION_ID = "880e8400-e29b-41d4-a716-446655440003"
+
+// Answers the statements of a reservation of one product held at one location
+const reserveHandler = (inStock: number) => (text: string, values: readonly unknown[]) => {
+  if (text.startsWith("SELECT id, sku, stock_quantity")) {
+    return [{
+      id: PRODUCT_ID,
+      sku: "WIDGET-001",
+      stock_quantity: inStock,
+      backorder_policy: "none",
+      backorder_limit: null,
+      archived_at: null
+    }]
+  }
+  if (text.startsWith("SELECT ls.product_id")) {
+    return [{
+      product_id: PRODUCT_ID,
+      location_id: LOCATION_ID,
+      code: "MAIN",
+      priority: 100,
+      latitude: null,
+      longitude: null,
+      quantity: inStock
+    }]
+  }
+  if (text.startsWith("UPDATE products")) {
+    return [{ previous_quantity: inStock, new_quantity: inStock - (values[0] as number) }]
+  }
+  if (text.startsWith("INSERT INTO inventory_reservations")) {
+    return [{
+      id: RESERVATION_ID,
+      order_id: ORDER_ID,
+      product_id: PRODUCT_ID,
+      location_id: LOCATION_ID,
+      quantity: values[3],
+      status: "RESERVED",
+      created_at: new Date("2024-01-15T10:00:00Z"),
+      released_at: null,
+      committed_at: null,
+      expires_at: new Date("2024-01-15T10:15:00Z"),
+      backordered_at: null
+    }]
+  }
+  return []
+}
+
+const reserveDuplicateLines = (inStock: number, executed: ExecutedQuery[]) =>
+  Effect.gen(function* () {
+    const repo = yield* ReservationRepository
+    return yield* repo.reserveStockAtomic(
+      ORDER_ID,
+      [
+        { productId: PRODUCT_ID, quantity: 2 },
+        { productId: PRODUCT_ID, quantity: 5 }
+      ],
+      900,
+      null,
+      false
+    )
+  }).pipe(
+    Effect.provide(ReservationRepositoryLive.pipe(Layer.provide(createMockSqlClient(reserveHandler(inStock), executed)))),
+    Effect.runPromise
+  )
+
+describe("ReservationRepository", () => {
+  describe("reserveStockAtomic", () => {
+    it("should reserve duplicate lines for a product as one", async () => {
+      const executed: ExecutedQuery[] = []
+      const result = await reserveDuplicateLines(10, executed)
+
+      expect(result._tag).toBe("Reserved")
+      if (result._tag === "Reserved") {
+        expect(result.reservations.map((reservation) => reservation.quantity)).toEqual([7])
+      }
+
+      // Stock goes down by the 7 units asked for, once, in total and at the location
+      const stockUpdates = executed.filter((query) => query.text.startsWith("UPDATE products"))
+      expect(stockUpdates).toHaveLength(1)
+      expect(stockUpdates[0].values[0]).toBe(7)
+      const locationUpdates = executed.filter((query) => query.text.startsWith("UPDATE location_stock"))
+      expect(locationUpdates).toHaveLength(1)
+      expect(locationUpdates[0].values[0]).toBe(7)
+    })
+
+    it("should check duplicate lines against stock by their combined quantity", async () => {
+      const executed: ExecutedQuery[] = []
+      const result = await reserveDuplicateLines(6, executed)
+
+      expect(result).toEqual({
+        _tag: "InsufficientStock",
+        productId: PRODUCT_ID,
+        productSku: "WIDGET-001",
+        requested: 7,
+        available: 6
+      })
+      expect(executed.some((query) => query.text.startsWith("UPDATE"))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest"
+import { Schema, Either } from "effect"
+import { ListStockMovementsParams, StockMovementId } from "../domain/StockMovement.js"
+
+describe("StockMovement Domain Types", () => {
+  describe("StockMovementId", () => {
+    it("should accept each movement type prefix", () => {
+      for (const type of ["adjustment", "reservation", "release"]) {
+        const result = Schema.decodeUnknownEither(StockMovementId)(`${type}:550e8400-e29b-41d4-a716-446655440000`)
+        expect(Either.isRight(result)).toBe(true)
+      }
+    })
+
+    it("should reject a bare UUID or an unknown prefix", () => {
+      expect(Either.isLeft(Schema.decodeUnknownEither(StockMovementId)("550e8400-e29b-41d4-a716-446655440000"))).toBe(true)
+      expect(Either.isLeft(Schema.decodeUnknownEither(StockMovementId)("commit:550e8400-e29b-41d4-a716-446655440000"))).toBe(true)
+    })
+  })
+
+  describe("ListStockMovementsParams", () => {
+    it("should parse the date range and cursor", () => {
+      const result = Schema.decodeUnknownEither(ListStockMovementsParams)({
+        occurred_from: "2024-01-01T00:00:00Z",
+        occurred_to: "2024-02-01T00:00:00Z",
+        limit: "50",
+        cursor: "release:550e8400-e29b-41d4-a716-446655440000"
+      })
+      expect(Either.isRight(result)).toBe(true)
+
+      if (Either.isRight(result)) {
+        expect(result.right.limit).toBe(50)
+        expect(result.right.cursor).toBe("release:550e8400-e29b-41d4-a716-446655440000")
+      }
+    })
+
+    it("should reject an invalid timestamp", () => {
+      const result = Schema.decodeUnknownEither(ListStockMovementsParams)({ occurred_from: "yesterday" })
+      expect(Either.isLeft(result)).toBe(true)
+    })
+  })
+})
@@ -4,6 +4,9 @@ import { HttpRouter } from "@effect/platform"
 import { SqlError } from "@effect/sql"
 import { ProductService } from "../../services/ProductService.js"
 import { InventoryService } from "../../services/InventoryService.js"
+import { LocationService } from "../../services/LocationService.js"
+import type { LocationStockLevel } from "../../repositories/LocationRepository.js"
+import type { LocationId } from "../../domain/Location.js"
 import { Product, ProductId, ProductIdParams } from "../../domain/Product.js"
 import { ProductNotFoundError } from "../../domain/errors.js"
 
@@ -15,8 +18,11 @@ const testProduct = new Product({
   sku: "TEST-001",
   priceCents: 2999,
   stockQuantity: 100,
+  backorderPolicy: "none",
+  backorderLimit: null,
   createdAt: DateTime.unsafeNow(),
-  updatedAt: DateTime.unsafeNow()
+  updatedAt: DateTime.unsafeNow(),
+  archivedAt: null
 })
 
 const testProductZeroStock = new Product({
@@ -25,10 +31,28 @@ const testProductZeroStock = new Product({
   sku: "TEST-ZERO-001",
   priceCents: 2999,
   stockQuantity: 0,
+  backorderPolicy: "none",
+  backorderLimit: null,
   createdAt: DateTime.unsafeNow(),
-  updatedAt: DateTime.unsafeNow()
+  updatedAt: DateTime.unsafeNow(),
+  archivedAt: null
 })
 
+const testLocationStock: ReadonlyArray<LocationStockLevel> = [
+  {
+    productId: testProductId,
+    locationId: "660e8400-e29b-41d4-a716-446655440000" as LocationId,
+    locationCode: "DEFAULT",
+    quantity: 60
+  },
+  {
+    productId: testProductId,
+    locationId: "660e8400-e29b-41d4-a716-446655440001" as LocationId,
+    locationCode: "LON",
+    quantity: 40
+  }
+]
+
 // Response type for our helper function
 interface AvailabilityResponse {
   status: number
@@ -37,6 +61,8 @@ interface AvailabilityResponse {
     sku?: string
     stock_quantity?: number
     available?: boolean
+    backorder_policy?: string
+    locations?: ReadonlyArray<{ location_id: string; location_code: string; stock_quantity: number }>
     error?: string
     message?: string
   }
@@ -49,7 +75,12 @@ const createMockProductService = (overrides: {
   return Layer.succeed(ProductService, {
     create: () => Effect.succeed(testProduct),
     findById: overrides.findById ?? (() => Effect.succeed(testProduct)),
-    findBySku: () => Effect.succeed(testProduct)
+    findBySku: () => Effect.succeed(testProduct),
+    findByIds: () => Effect.succeed([testProduct]),
+    list: () => Effect.die("list not expected"),
+    update: () => Effect.die("update not expected"),
+    archive: () => Effect.die("archive not expected"),
+    findFxRate: () => Effect.die("findFxRate not expected")
   })
 }
 
@@ -59,12 +90,30 @@ const createMockInventoryService = (overrides: {
 } = {}) => {
   return Layer.succeed(InventoryService, {
     addStock: () => Effect.succeed({} as any),
+    adjustStock: () => Effect.succeed({} as any),
+    listAdjustments: () => Effect.succeed({ adjustments: [], nextCursor: null }),
+    listMovements: () => Effect.succeed({ stockQuantity: 0, movements: [], nextCursor: null }),
+    reconcileStock: () => Effect.succeed([]),
     getAvailability: overrides.getAvailability ?? (() => Effect.succeed(100)),
-    reserveStock: () => Effect.succeed([]),
-    releaseStock: () => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false })
+    getAvailabilities: () => Effect.succeed([]),
+    reserveStock: () => Effect.succeed({ reservationIds: [], shortfalls: [] }),
+    releaseStock: () => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false }),
+    extendReservation: () => Effect.succeed([]),
+    commitReservation: () => Effect.succeed([])
   })
 }
 
+// Mock LocationService factory
+const createMockLocationService = (
+  findStockByProducts: (productIds: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<LocationStockLevel>> =
+    () => Effect.succeed(testLocationStock)
+) =>
+  Layer.succeed(LocationService, {
+    create: () => Effect.die("create not expected"),
+    list: () => Effect.die("list not expected"),
+    findStockByProducts
+  })
+
 // Mock RouteContext factory - provides path params to the handler
 const createMockRouteContext = (params: Record<string, string | undefined>) => {
   // Create a proper RouteContext with the required symbol
@@ -81,11 +130,12 @@ const createMockRouteContext = (params: Record<string, string | undefined>) => {
 const runGetAvailability = async (
   productIdParam: string | undefined,
   productService: Layer.Layer<ProductService>,
-  inventoryService: Layer.Layer<InventoryService>
+  inventoryService: Layer.Layer<InventoryService>,
+  locationService: Layer.Layer<LocationService> = createMockLocationService()
 ): Promise<AvailabilityResponse> => {
   // Create mock RouteContext with the product_id param
   const routeContextLayer = createMockRouteContext({ product_id: productIdParam })
-  const testLayer = Layer.mergeAll(routeContextLayer, productService, inventoryService)
+  const testLayer = Layer.mergeAll(routeContextLayer, productService, inventoryService, locationService)
 
   // Execute the handler logic using schemaPathParams (matching the real implementation)
   return Effect.gen(function* () {
@@ -95,10 +145,12 @@ const runGetAvailability = async (
     // Get services
     const productSvc = yield* ProductService
     const inventorySvc = yield* InventoryService
+    const locationSvc = yield* LocationService
 
     // Call services
     const product = yield* productSvc.findById(productId)
     const stockQuantity = yield* inventorySvc.getAvailability(productId)
+    const locationStock = yield* locationSvc.findStockByProducts([productId])
 
     return {
       status: 200,
@@ -106,7 +158,13 @@ const runGetAvailability = async (
         product_id: productId,
         sku: product.sku,
         stock_quantity: stockQuantity,
-        available: stockQuantity > 0
+        available: stockQuantity > 0,
+        backorder_policy: product.backorderPolicy,
+        locations: locationStock.map((level) => ({
+          location_id: level.locationId,
+          location_code: level.locationCode,
+          stock_quantity: level.quantity
+        }))
       }
     } as AvailabilityResponse
   }).pipe(
@@ -163,7 +221,12 @@ describe("GET /products/:product_id/availability", () => {
         product_id: testProductId,
         sku: "TEST-001",
         stock_quantity: 100,
-        available: true
+        available: true,
+        backorder_policy: "none",
+        locations: [
+          { location_id: "660e8400-e29b-41d4-a716-446655440000", location_code: "DEFAULT", stock_quantity: 60 },
+          { location_id: "660e8400-e29b-41d4-a716-446655440001", location_code: "LON", stock_quantity: 40 }
+        ]
       })
     })
 
@@ -178,7 +241,8 @@ describe("GET /products/:product_id/availability", () => {
       const result = await runGetAvailability(
         testProductId,
         mockProductService,
-        mockInventoryService
+        mockInventoryService,
+        createMockLocationService(() => Effect.succeed([]))
       )
 
       expect(result.status).toBe(200)
@@ -186,7 +250,9 @@ describe("GET /products/:product_id/availability", () => {
         product_id: testProductId,
         sku: "TEST-ZERO-001",
         stock_quantity: 0,
-        available: false
+        available: false,
+        backorder_policy: "none",
+        locations: []
       })
     })
 
@@ -26,7 +26,12 @@ const createMockProductService = () => {
   return Layer.succeed(ProductService, {
     create: () => Effect.succeed({} as any),
     findById: () => Effect.succeed({} as any),
-    findBySku: () => Effect.succeed({} as any)
+    findBySku: () => Effect.succeed({} as any),
+    findByIds: () => Effect.succeed([]),
+    list: () => Effect.die("list not expected"),
+    update: () => Effect.die("update not expected"),
+    archive: () => Effect.die("archive not expected"),
+    findFxRate: () => Effect.die("findFxRate not expected")
   })
 }
 
@@ -36,13 +41,20 @@ const createMockInventoryService = (overrides: {
 } = {}) => {
   return Layer.succeed(InventoryService, {
     addStock: () => Effect.succeed({} as any),
+    adjustStock: () => Effect.succeed({} as any),
+    listAdjustments: () => Effect.succeed({ adjustments: [], nextCursor: null }),
+    listMovements: () => Effect.succeed({ stockQuantity: 0, movements: [], nextCursor: null }),
+    reconcileStock: () => Effect.succeed([]),
     getAvailability: () => Effect.succeed(100),
-    reserveStock: () => Effect.succeed([]),
+    getAvailabilities: () => Effect.succeed([]),
+    reserveStock: () => Effect.succeed({ reservationIds: [], shortfalls: [] }),
     releaseStock: overrides.releaseStock ?? (() => Effect.succeed({
       releasedCount: 0,
       totalQuantityRestored: 0,
       wasAlreadyReleased: false
-    }))
+    })),
+    extendReservation: () => Effect.succeed([]),
+    commitReservation: () => Effect.succeed([])
   })
 }
 
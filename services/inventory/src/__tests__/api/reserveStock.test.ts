@@ -2,7 +2,7 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, DateTime, Schema } from "effect"
 import { SqlError } from "@effect/sql"
 import { ProductService } from "../../services/ProductService.js"
-import { InventoryService, ReserveStockRequest } from "../../services/InventoryService.js"
+import { InventoryService, ReserveStockRequest, ReserveStockResult } from "../../services/InventoryService.js"
 import { Product, ProductId } from "../../domain/Product.js"
 import { ReserveStockHttpRequest } from "../../domain/Reservation.js"
 import { ProductNotFoundError, InsufficientStockError } from "../../domain/errors.js"
@@ -20,8 +20,11 @@ const testProduct = new Product({
   sku: "TEST-001",
   priceCents: 2999,
   stockQuantity: 100,
+  backorderPolicy: "none",
+  backorderLimit: null,
   createdAt: DateTime.unsafeNow(),
-  updatedAt: DateTime.unsafeNow()
+  updatedAt: DateTime.unsafeNow(),
+  archivedAt: null
 })
 
 // Response type for our helper function
@@ -32,6 +35,7 @@ interface ReserveStockResponse {
     reservation_ids?: string[]
     line_items_reserved?: number
     total_quantity_reserved?: number
+    shortfalls?: Array<{ product_id: string; requested_quantity: number; reserved_quantity: number }>
     error?: string
     message?: string
     product_id?: string
@@ -47,19 +51,31 @@ const createMockProductService = () => {
   return Layer.succeed(ProductService, {
     create: () => Effect.succeed(testProduct),
     findById: () => Effect.succeed(testProduct),
-    findBySku: () => Effect.succeed(testProduct)
+    findBySku: () => Effect.succeed(testProduct),
+    findByIds: () => Effect.succeed([testProduct]),
+    list: () => Effect.die("list not expected"),
+    update: () => Effect.die("update not expected"),
+    archive: () => Effect.die("archive not expected"),
+    findFxRate: () => Effect.die("findFxRate not expected")
   })
 }
 
 // Mock InventoryService factory
 const createMockInventoryService = (overrides: {
-  reserveStock?: (request: ReserveStockRequest) => Effect.Effect<ReadonlyArray<string>, ProductNotFoundError | InsufficientStockError | SqlError.SqlError>
+  reserveStock?: (request: ReserveStockRequest) => Effect.Effect<ReserveStockResult, ProductNotFoundError | InsufficientStockError | SqlError.SqlError>
 } = {}) => {
   return Layer.succeed(InventoryService, {
     addStock: () => Effect.succeed({} as any),
+    adjustStock: () => Effect.succeed({} as any),
+    listAdjustments: () => Effect.succeed({ adjustments: [], nextCursor: null }),
+    listMovements: () => Effect.succeed({ stockQuantity: 0, movements: [], nextCursor: null }),
+    reconcileStock: () => Effect.succeed([]),
     getAvailability: () => Effect.succeed(100),
-    reserveStock: overrides.reserveStock ?? (() => Effect.succeed([testReservationId1])),
-    releaseStock: () => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false })
+    getAvailabilities: () => Effect.succeed([]),
+    reserveStock: overrides.reserveStock ?? (() => Effect.succeed({ reservationIds: [testReservationId1], shortfalls: [] })),
+    releaseStock: () => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false }),
+    extendReservation: () => Effect.succeed([]),
+    commitReservation: () => Effect.succeed([])
   })
 }
 
@@ -77,23 +93,33 @@ const runReserveStock = async (
 
     // Get service and execute reservation
     const svc = yield* InventoryService
-    const reservationIds = yield* svc.reserveStock({
+    const { reservationIds, shortfalls } = yield* svc.reserveStock({
       orderId: body.orderId,
       items: body.items.map(item => ({
         productId: item.productId,
         quantity: item.quantity
-      }))
+      })),
+      allowPartial: body.allowPartial
     })
 
-    const totalQuantity = body.items.reduce((sum, item) => sum + item.quantity, 0)
+    const quantityShort = shortfalls.reduce((sum, shortfall) => sum + shortfall.requestedQuantity - shortfall.reservedQuantity, 0)
+    const totalQuantity = body.items.reduce((sum, item) => sum + item.quantity, 0) - quantityShort
+    const lineItemsReserved = body.items.filter(item =>
+      !shortfalls.some(shortfall => shortfall.productId === item.productId && shortfall.reservedQuantity === 0)
+    ).length
 
     return {
       status: 201,
       body: {
         order_id: body.orderId,
         reservation_ids: reservationIds as string[],
-        line_items_reserved: body.items.length,
-        total_quantity_reserved: totalQuantity
+        line_items_reserved: lineItemsReserved,
+        total_quantity_reserved: totalQuantity,
+        shortfalls: shortfalls.map(shortfall => ({
+          product_id: shortfall.productId,
+          requested_quantity: shortfall.requestedQuantity,
+          reserved_quantity: shortfall.reservedQuantity
+        }))
       }
     } as ReserveStockResponse
   }).pipe(
@@ -147,7 +173,7 @@ describe("POST /reservations", () => {
   describe("successful requests", () => {
     it("should return 201 with reservation IDs for valid request", async () => {
       const mockInventoryService = createMockInventoryService({
-        reserveStock: () => Effect.succeed([testReservationId1])
+        reserveStock: () => Effect.succeed({ reservationIds: [testReservationId1], shortfalls: [] })
       })
 
       const result = await runReserveStock(
@@ -167,7 +193,7 @@ describe("POST /reservations", () => {
 
     it("should return 201 with multiple reservation IDs for multiple items", async () => {
       const mockInventoryService = createMockInventoryService({
-        reserveStock: () => Effect.succeed([testReservationId1, testReservationId2])
+        reserveStock: () => Effect.succeed({ reservationIds: [testReservationId1, testReservationId2], shortfalls: [] })
       })
 
       const result = await runReserveStock(
@@ -188,9 +214,42 @@ describe("POST /reservations", () => {
       expect(result.body.total_quantity_reserved).toBe(3)
     })
 
+    it("should report the shortfall of a partial reservation", async () => {
+      let capturedRequest: ReserveStockRequest | null = null
+      const mockInventoryService = createMockInventoryService({
+        reserveStock: (request) => {
+          capturedRequest = request
+          return Effect.succeed({
+            reservationIds: [testReservationId1],
+            shortfalls: [{ productId: testProductId2, requestedQuantity: 3, reservedQuantity: 0 }]
+          })
+        }
+      })
+
+      const result = await runReserveStock(
+        {
+          orderId: testOrderId,
+          items: [
+            { productId: testProductId1, quantity: 2 },
+            { productId: testProductId2, quantity: 3 }
+          ],
+          allowPartial: true
+        },
+        mockInventoryService
+      )
+
+      expect(capturedRequest!.allowPartial).toBe(true)
+      expect(result.status).toBe(201)
+      expect(result.body.line_items_reserved).toBe(1)
+      expect(result.body.total_quantity_reserved).toBe(2)
+      expect(result.body.shortfalls).toEqual([
+        { product_id: testProductId2, requested_quantity: 3, reserved_quantity: 0 }
+      ])
+    })
+
     it("should return same response on idempotent retry", async () => {
       const mockInventoryService = createMockInventoryService({
-        reserveStock: () => Effect.succeed([testReservationId1])
+        reserveStock: () => Effect.succeed({ reservationIds: [testReservationId1], shortfalls: [] })
       })
 
       const result = await runReserveStock(
@@ -369,7 +428,7 @@ describe("POST /reservations", () => {
   describe("response format", () => {
     it("should use snake_case keys in response body", async () => {
       const mockInventoryService = createMockInventoryService({
-        reserveStock: () => Effect.succeed([testReservationId1])
+        reserveStock: () => Effect.succeed({ reservationIds: [testReservationId1], shortfalls: [] })
       })
 
       const result = await runReserveStock(
@@ -392,7 +451,7 @@ describe("POST /reservations", () => {
 
     it("should include all expected fields in successful response", async () => {
       const mockInventoryService = createMockInventoryService({
-        reserveStock: () => Effect.succeed([testReservationId1])
+        reserveStock: () => Effect.succeed({ reservationIds: [testReservationId1], shortfalls: [] })
       })
 
       const result = await runReserveStock(
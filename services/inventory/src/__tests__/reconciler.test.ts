@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Layer } from "effect"
+import { StockMovementRepository, type StockDiscrepancy } from "../repositories/StockMovementRepository.js"
+import type { ProductId } from "../domain/Product.js"
+import { detectStockDrift } from "../reconciler.js"
+
+const createMockStockMovementRepo = (
+  findDiscrepancies: (productIds?: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<StockDiscrepancy>>
+) =>
+  Layer.succeed(StockMovementRepository, {
+    listByProduct: () => Effect.die("listByProduct not expected"),
+    existsForProduct: () => Effect.die("existsForProduct not expected"),
+    findDiscrepancies,
+    correctDiscrepancy: () => Effect.die("correctDiscrepancy not expected")
+  })
+
+describe("detectStockDrift", () => {
+  it("should check every product and return the discrepancies", async () => {
+    let checkedIds: ReadonlyArray<ProductId> | undefined = []
+    const mockRepo = createMockStockMovementRepo((productIds) => {
+      checkedIds = productIds
+      return Effect.succeed([{
+        productId: "550e8400-e29b-41d4-a716-446655440000" as ProductId,
+        sku: "TEST-001",
+        stockQuantity: 10,
+        expectedQuantity: 7
+      }])
+    })
+
+    const result = await detectStockDrift.pipe(
+      Effect.provide(mockRepo),
+      Effect.runPromise
+    )
+
+    expect(checkedIds).toBeUndefined()
+    expect(result).toHaveLength(1)
+    expect(result[0].stockQuantity - result[0].expectedQuantity).toBe(3)
+  })
+
+  it("should report drift without writing corrections", async () => {
+    // correctDiscrepancy dies in the mock, so any correction would fail the run
+    const mockRepo = createMockStockMovementRepo(() =>
+      Effect.succeed([{
+        productId: "550e8400-e29b-41d4-a716-446655440001" as ProductId,
+        sku: "TEST-002",
+        stockQuantity: 0,
+        expectedQuantity: 4
+      }])
+    )
+
+    const result = await detectStockDrift.pipe(
+      Effect.provide(mockRepo),
+      Effect.runPromise
+    )
+
+    expect(result).toHaveLength(1)
+  })
+})
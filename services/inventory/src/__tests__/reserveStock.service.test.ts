@@ -2,12 +2,14 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, Option, DateTime, Exit } from "effect"
 import { InventoryService, ReserveStockRequest } from "../services/InventoryService.js"
 import { InventoryServiceLive } from "../services/InventoryServiceLive.js"
-import { StockAdjustmentRepository, AtomicAddStockResult } from "../repositories/StockAdjustmentRepository.js"
+import { StockAdjustmentRepository, AtomicReceiveStockResult } from "../repositories/StockAdjustmentRepository.js"
+import { StockMovementRepository } from "../repositories/StockMovementRepository.js"
 import { ProductRepository } from "../repositories/ProductRepository.js"
-import { ReservationRepository, AtomicReserveResult } from "../repositories/ReservationRepository.js"
+import { ReservationRepository, AtomicReserveResult, ExtendReservationResult, CommitReservationResult } from "../repositories/ReservationRepository.js"
 import { Product, ProductId } from "../domain/Product.js"
 import { InventoryReservation, ReservationId } from "../domain/Reservation.js"
-import { ProductNotFoundError, InsufficientStockError } from "../domain/errors.js"
+import { Destination, LocationId } from "../domain/Location.js"
+import { ProductNotFoundError, ProductArchivedError, InsufficientStockError } from "../domain/errors.js"
 
 // Test fixtures
 const testProductId1 = "550e8400-e29b-41d4-a716-446655440000" as ProductId
@@ -15,6 +17,7 @@ const testProductId2 = "550e8400-e29b-41d4-a716-446655440001" as ProductId
 const testOrderId = "660e8400-e29b-41d4-a716-446655440000"
 const testReservationId1 = "770e8400-e29b-41d4-a716-446655440000" as ReservationId
 const testReservationId2 = "770e8400-e29b-41d4-a716-446655440001" as ReservationId
+const testLocationId = "880e8400-e29b-41d4-a716-446655440000" as LocationId
 
 const testProduct = new Product({
   id: testProductId1,
@@ -22,62 +25,98 @@ const testProduct = new Product({
   sku: "TEST-001",
   priceCents: 2999,
   stockQuantity: 50,
+  backorderPolicy: "none",
+  backorderLimit: null,
   createdAt: DateTime.unsafeNow(),
-  updatedAt: DateTime.unsafeNow()
+  updatedAt: DateTime.unsafeNow(),
+  archivedAt: null
 })
 
 const testReservation1 = new InventoryReservation({
   id: testReservationId1,
   orderId: testOrderId,
   productId: testProductId1,
+  locationId: testLocationId,
   quantity: 2,
   status: "RESERVED",
   createdAt: DateTime.unsafeNow(),
-  releasedAt: null
+  releasedAt: null,
+  committedAt: null,
+  expiresAt: null,
+  backorderedAt: null
 })
 
 const testReservation2 = new InventoryReservation({
   id: testReservationId2,
   orderId: testOrderId,
   productId: testProductId2,
+  locationId: testLocationId,
   quantity: 1,
   status: "RESERVED",
   createdAt: DateTime.unsafeNow(),
-  releasedAt: null
+  releasedAt: null,
+  committedAt: null,
+  expiresAt: null,
+  backorderedAt: null
 })
 
 // Mock StockAdjustmentRepository factory
 const createMockStockAdjustmentRepo = (overrides: {
-  addStockAtomic?: (params: any) => Effect.Effect<AtomicAddStockResult>
+  addStockAtomic?: (params: any) => Effect.Effect<AtomicReceiveStockResult>
 } = {}) => {
   return Layer.succeed(StockAdjustmentRepository, {
     addStockAtomic: overrides.addStockAtomic ?? (() =>
       Effect.succeed({
         _tag: "ProductNotFound"
-      } as const))
+      } as const)),
+    adjustStockAtomic: () => Effect.die("adjustStockAtomic not expected"),
+    listByProduct: () => Effect.die("listByProduct not expected"),
+    existsForProduct: () => Effect.die("existsForProduct not expected")
   })
 }
 
+// Mock StockMovementRepository factory
+const createMockStockMovementRepo = () =>
+  Layer.succeed(StockMovementRepository, {
+    listByProduct: () => Effect.die("listByProduct not expected"),
+    existsForProduct: () => Effect.die("existsForProduct not expected"),
+    findDiscrepancies: () => Effect.die("findDiscrepancies not expected"),
+    correctDiscrepancy: () => Effect.die("correctDiscrepancy not expected")
+  })
+
 // Mock ProductRepository factory
 const createMockProductRepo = (overrides: {
   findById?: (id: ProductId) => Effect.Effect<Option.Option<Product>>
   findBySku?: (sku: string) => Effect.Effect<Option.Option<Product>>
+  findByIds?: (ids: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<Product>>
   insert?: (row: any) => Effect.Effect<Product>
   updateStock?: (id: ProductId, quantity: number) => Effect.Effect<void>
 } = {}) => {
   return Layer.succeed(ProductRepository, {
     findById: overrides.findById ?? (() => Effect.succeed(Option.some(testProduct))),
     findBySku: overrides.findBySku ?? (() => Effect.succeed(Option.none())),
+    findByIds: overrides.findByIds ?? (() => Effect.succeed([])),
     insert: overrides.insert ?? (() => Effect.succeed(testProduct)),
-    updateStock: overrides.updateStock ?? (() => Effect.void)
+    updateStock: overrides.updateStock ?? (() => Effect.void),
+    updateDetails: () => Effect.die("updateDetails not expected"),
+    archive: () => Effect.die("archive not expected"),
+    list: () => Effect.die("list not expected")
   })
 }
 
 // Mock ReservationRepository factory
 const createMockReservationRepo = (overrides: {
-  reserveStockAtomic?: (orderId: string, items: readonly any[]) => Effect.Effect<AtomicReserveResult>
+  reserveStockAtomic?: (
+    orderId: string,
+    items: readonly any[],
+    ttlSeconds: number,
+    destination: Destination | null,
+    allowPartial: boolean
+  ) => Effect.Effect<AtomicReserveResult>
   findByOrderId?: (orderId: string) => Effect.Effect<ReadonlyArray<InventoryReservation>>
   releaseByOrderId?: (orderId: string) => Effect.Effect<{ releasedCount: number; totalQuantityRestored: number; wasAlreadyReleased: boolean }>
+  extendByOrderId?: (orderId: string) => Effect.Effect<ExtendReservationResult>
+  commitByOrderId?: (orderId: string) => Effect.Effect<CommitReservationResult>
 } = {}) => {
   return Layer.succeed(ReservationRepository, {
     reserveStockAtomic: overrides.reserveStockAtomic ?? (() =>
@@ -86,7 +125,11 @@ const createMockReservationRepo = (overrides: {
         reservations: [testReservation1]
       } as const)),
     findByOrderId: overrides.findByOrderId ?? (() => Effect.succeed([])),
-    releaseByOrderId: overrides.releaseByOrderId ?? (() => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false }))
+    sumBackorderedByProducts: () => Effect.die("sumBackorderedByProducts not expected"),
+    releaseByOrderId: overrides.releaseByOrderId ?? (() => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, wasAlreadyReleased: false })),
+    extendByOrderId: overrides.extendByOrderId ?? (() => Effect.succeed({ _tag: "NotFound" } as const)),
+    commitByOrderId: overrides.commitByOrderId ?? (() => Effect.succeed({ _tag: "NotFound" } as const)),
+    releaseExpired: () => Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, orderIds: [] })
   })
 }
 
@@ -104,7 +147,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const request: ReserveStockRequest = {
@@ -117,8 +160,9 @@ describe("InventoryService", () => {
         return yield* service.reserveStock(request)
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result).toHaveLength(1)
-      expect(result[0]).toBe(testReservationId1)
+      expect(result.reservationIds).toHaveLength(1)
+      expect(result.reservationIds[0]).toBe(testReservationId1)
+      expect(result.shortfalls).toEqual([])
     })
 
     it("should successfully reserve stock for multiple items", async () => {
@@ -133,7 +177,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const request: ReserveStockRequest = {
@@ -149,9 +193,9 @@ describe("InventoryService", () => {
         return yield* service.reserveStock(request)
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result).toHaveLength(2)
-      expect(result).toContain(testReservationId1)
-      expect(result).toContain(testReservationId2)
+      expect(result.reservationIds).toHaveLength(2)
+      expect(result.reservationIds).toContain(testReservationId1)
+      expect(result.reservationIds).toContain(testReservationId2)
     })
 
     it("should fail with ProductNotFoundError when product does not exist", async () => {
@@ -166,7 +210,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const request: ReserveStockRequest = {
@@ -192,6 +236,38 @@ describe("InventoryService", () => {
       }
     })
 
+    it("should fail with ProductArchivedError when a product has been archived", async () => {
+      const mockStockAdjustmentRepo = createMockStockAdjustmentRepo()
+      const mockProductRepo = createMockProductRepo()
+      const mockReservationRepo = createMockReservationRepo({
+        reserveStockAtomic: () =>
+          Effect.succeed({
+            _tag: "ProductArchived",
+            productId: testProductId1
+          } as const)
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      const request: ReserveStockRequest = {
+        orderId: testOrderId,
+        items: [{ productId: testProductId1, quantity: 2 }]
+      }
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.reserveStock(request)
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("ProductArchivedError")
+        expect((exit.cause.error as ProductArchivedError).productId).toBe(testProductId1)
+      }
+    })
+
     it("should fail with InsufficientStockError when stock is insufficient", async () => {
       const mockStockAdjustmentRepo = createMockStockAdjustmentRepo()
       const mockProductRepo = createMockProductRepo()
@@ -207,7 +283,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const request: ReserveStockRequest = {
@@ -247,7 +323,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const request: ReserveStockRequest = {
@@ -263,9 +339,46 @@ describe("InventoryService", () => {
         return yield* service.reserveStock(request)
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result).toHaveLength(2)
-      expect(result).toContain(testReservationId1)
-      expect(result).toContain(testReservationId2)
+      expect(result.reservationIds).toHaveLength(2)
+      expect(result.reservationIds).toContain(testReservationId1)
+      expect(result.reservationIds).toContain(testReservationId2)
+    })
+
+    it("should report what a partial reservation left short, again on retry", async () => {
+      let capturedAllowPartial: boolean | undefined
+      const mockReservationRepo = createMockReservationRepo({
+        reserveStockAtomic: (_orderId, _items, _ttlSeconds, _destination, allowPartial) => {
+          capturedAllowPartial = allowPartial
+          return Effect.succeed({
+            _tag: "AlreadyReserved",
+            reservations: [testReservation1]
+          } as const)
+        }
+      })
+
+      const testLayer = InventoryServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(createMockStockAdjustmentRepo(), createMockProductRepo(), mockReservationRepo, createMockStockMovementRepo()))
+      )
+
+      // Only 2 of product 1 were reserved, and none of product 2
+      const result = await Effect.gen(function* () {
+        const service = yield* InventoryService
+        return yield* service.reserveStock({
+          orderId: testOrderId,
+          items: [
+            { productId: testProductId1, quantity: 4 },
+            { productId: testProductId2, quantity: 1 }
+          ],
+          allowPartial: true
+        })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedAllowPartial).toBe(true)
+      expect(result.reservationIds).toEqual([testReservationId1])
+      expect(result.shortfalls).toEqual([
+        { productId: testProductId1, requestedQuantity: 4, reservedQuantity: 2 },
+        { productId: testProductId2, requestedQuantity: 1, reservedQuantity: 0 }
+      ])
     })
 
     it("should pass correct parameters to repository", async () => {
@@ -286,7 +399,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       const request: ReserveStockRequest = {
@@ -321,7 +434,7 @@ describe("InventoryService", () => {
       })
 
       const testLayer = InventoryServiceLive.pipe(
-        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo))
+        Layer.provide(Layer.mergeAll(mockStockAdjustmentRepo, mockProductRepo, mockReservationRepo, createMockStockMovementRepo()))
       )
 
       await Effect.gen(function* () {
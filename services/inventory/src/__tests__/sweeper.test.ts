@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Layer } from "effect"
+import { ReservationRepository, type ReleaseExpiredResult } from "../repositories/ReservationRepository.js"
+import { sweepExpiredReservations } from "../sweeper.js"
+
+const createMockReservationRepo = (
+  releaseExpired: (batchSize: number) => Effect.Effect<ReleaseExpiredResult>
+) =>
+  Layer.succeed(ReservationRepository, {
+    reserveStockAtomic: () => Effect.die("reserveStockAtomic not expected"),
+    findByOrderId: () => Effect.succeed([]),
+    sumBackorderedByProducts: () => Effect.die("sumBackorderedByProducts not expected"),
+    releaseByOrderId: () => Effect.die("releaseByOrderId not expected"),
+    extendByOrderId: () => Effect.die("extendByOrderId not expected"),
+    commitByOrderId: () => Effect.die("commitByOrderId not expected"),
+    releaseExpired
+  })
+
+describe("sweepExpiredReservations", () => {
+  it("should release one batch of expired reservations", async () => {
+    let capturedBatchSize: number | undefined
+    const mockRepo = createMockReservationRepo((batchSize) => {
+      capturedBatchSize = batchSize
+      return Effect.succeed({
+        releasedCount: 3,
+        totalQuantityRestored: 7,
+        orderIds: ["550e8400-e29b-41d4-a716-446655440000", "550e8400-e29b-41d4-a716-446655440001"]
+      })
+    })
+
+    const result = await sweepExpiredReservations(50).pipe(
+      Effect.provide(mockRepo),
+      Effect.runPromise
+    )
+
+    expect(capturedBatchSize).toBe(50)
+    expect(result.releasedCount).toBe(3)
+    expect(result.totalQuantityRestored).toBe(7)
+    expect(result.orderIds).toHaveLength(2)
+  })
+
+  it("should succeed with nothing released when no reservation has expired", async () => {
+    const mockRepo = createMockReservationRepo(() =>
+      Effect.succeed({ releasedCount: 0, totalQuantityRestored: 0, orderIds: [] })
+    )
+
+    const result = await sweepExpiredReservations(100).pipe(
+      Effect.provide(mockRepo),
+      Effect.runPromise
+    )
+
+    expect(result.releasedCount).toBe(0)
+  })
+})
@@ -0,0 +1,112 @@
+import { HttpRouter, HttpServerRequest, HttpServerResponse } from "@effect/platform"
+import type { HttpServerError } from "@effect/platform"
+import { SqlError } from "@effect/sql"
+import { DateTime, Effect, ParseResult } from "effect"
+import { withTraceContext } from "@ecommerce/tracing"
+import { CreateLocationRequest, type Location } from "../domain/Location.js"
+import { LocationService } from "../services/LocationService.js"
+import type { DuplicateLocationCodeError } from "../domain/errors.js"
+
+// Map domain model to the location resource
+const toLocationResponse = (location: Location) => ({
+  id: location.id,
+  code: location.code,
+  name: location.name,
+  priority: location.priority,
+  latitude: location.latitude,
+  longitude: location.longitude,
+  createdAt: DateTime.formatIso(location.createdAt)
+})
+
+// POST /locations - Create a stock location
+const createLocation = withTraceContext(Effect.gen(function* () {
+  const body = yield* HttpServerRequest.schemaBodyJson(CreateLocationRequest)
+
+  const locationService = yield* LocationService
+  const location = yield* locationService.create(body)
+
+  yield* Effect.logInfo("Location created", { locationId: location.id, code: location.code })
+
+  return HttpServerResponse.json(toLocationResponse(location), { status: 201 })
+})).pipe(
+  Effect.withSpan("POST /locations"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Schema validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request data",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    // Duplicate code (409 Conflict)
+    DuplicateLocationCodeError: (error: DuplicateLocationCodeError) =>
+      HttpServerResponse.json(
+        {
+          error: "duplicate_location_code",
+          message: `Location with code '${error.code}' already exists`,
+          existingLocationId: error.existingLocationId
+        },
+        { status: 409 }
+      ),
+
+    // Request body parsing errors (400 Bad Request)
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        {
+          error: "request_error",
+          message: "Failed to parse request body"
+        },
+        { status: 400 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in createLocation", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /locations - All locations, in the order stock is taken from them without a destination
+const listLocations = withTraceContext(Effect.gen(function* () {
+  const locationService = yield* LocationService
+  const locations = yield* locationService.list()
+
+  return HttpServerResponse.json({
+    locations: locations.map(toLocationResponse)
+  }, { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /locations"),
+  Effect.flatten,
+  Effect.catchTags({
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in listLocations", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+export const LocationRoutes = HttpRouter.empty.pipe(
+  HttpRouter.post("/locations", createLocation),
+  HttpRouter.get("/locations", listLocations)
+)
@@ -3,37 +3,548 @@ import type { HttpServerError } from "@effect/platform"
 import { SqlError } from "@effect/sql"
 import { Effect, DateTime, ParseResult } from "effect"
 import { withTraceContext } from "@ecommerce/tracing"
-import { CreateProductRequest, ProductIdParams } from "../domain/Product.js"
-import { AddStockRequest } from "../domain/Adjustment.js"
+import {
+  AvailabilityLookupRequest,
+  CreateProductRequest,
+  ListProductsParams,
+  PriceLookupRequest,
+  ProductIdParams,
+  ProductSkuParams,
+  UpdateProductRequest,
+  type Product
+} from "../domain/Product.js"
+import {
+  AddStockRequest,
+  AdjustStockRequest,
+  ListAdjustmentsParams,
+  type InventoryAdjustment
+} from "../domain/Adjustment.js"
+import { ListStockMovementsParams, type StockMovement } from "../domain/StockMovement.js"
+import { BASE_CURRENCY, convertFromBase } from "../domain/FxRate.js"
 import { ProductService } from "../services/ProductService.js"
 import { InventoryService } from "../services/InventoryService.js"
-import type { DuplicateSkuError, ProductNotFoundError, DuplicateAdjustmentError } from "../domain/errors.js"
+import { LocationService } from "../services/LocationService.js"
+import type { LocationStockLevel } from "../repositories/LocationRepository.js"
+import type {
+  DuplicateSkuError,
+  ProductNotFoundError,
+  ProductArchivedError,
+  ProductUpdateConflictError,
+  DuplicateAdjustmentError,
+  InsufficientStockError,
+  LocationNotFoundError,
+  UnsupportedCurrencyError,
+  InvalidCursorError
+} from "../domain/errors.js"
+
+// Per-location breakdown included in the availability responses
+const toLocationStockResponse = (level: LocationStockLevel) => ({
+  location_id: level.locationId,
+  location_code: level.locationCode,
+  stock_quantity: level.quantity
+})
+
+// Map domain model to the product resource returned by the catalog endpoints
+const toProductResponse = (product: Product) => ({
+  id: product.id,
+  name: product.name,
+  sku: product.sku,
+  priceCents: product.priceCents,
+  stockQuantity: product.stockQuantity,
+  backorderPolicy: product.backorderPolicy,
+  backorderLimit: product.backorderLimit,
+  createdAt: DateTime.formatIso(product.createdAt),
+  updatedAt: DateTime.formatIso(product.updatedAt),
+  archivedAt: product.archivedAt === null ? null : DateTime.formatIso(product.archivedAt)
+})
+
+// Map an audit record to the snake_case shape used by the stock endpoints
+const toAdjustmentResponse = (adjustment: InventoryAdjustment) => ({
+  adjustment_id: adjustment.id,
+  reason: adjustment.reason,
+  location_id: adjustment.locationId,
+  quantity_change: adjustment.quantityChange,
+  previous_quantity: adjustment.previousQuantity,
+  new_quantity: adjustment.newQuantity,
+  reference_id: adjustment.referenceId,
+  notes: adjustment.notes,
+  created_by: adjustment.createdBy,
+  created_at: DateTime.formatIso(adjustment.createdAt)
+})
+
+const toMovementResponse = (movement: StockMovement) => ({
+  movement_id: movement.id,
+  type: movement.type,
+  reason: movement.reason,
+  quantity_change: movement.quantityChange,
+  reference_id: movement.referenceId,
+  occurred_at: DateTime.formatIso(movement.occurredAt)
+})
 
 const createProduct = withTraceContext(Effect.gen(function* () {
   // Parse and validate request body
   const body = yield* HttpServerRequest.schemaBodyJson(CreateProductRequest)
 
-  // Get the service and create the product
-  const productService = yield* ProductService
-  const product = yield* productService.create(body)
+  // Get the service and create the product
+  const productService = yield* ProductService
+  const product = yield* productService.create(body)
+
+  yield* Effect.logInfo("Product created", { productId: product.id, sku: product.sku })
+
+  return HttpServerResponse.json(toProductResponse(product), { status: 201 })
+})).pipe(
+  Effect.withSpan("POST /products"),
+  Effect.flatten,
+  // Error handling - map domain errors to HTTP responses
+  Effect.catchTags({
+    // Schema validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request data",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    // Duplicate SKU (409 Conflict)
+    DuplicateSkuError: (error: DuplicateSkuError) =>
+      HttpServerResponse.json(
+        {
+          error: "duplicate_sku",
+          message: `Product with SKU '${error.sku}' already exists`,
+          existingProductId: error.existingProductId
+        },
+        { status: 409 }
+      ),
+
+    // Request body parsing errors (400 Bad Request)
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        {
+          error: "request_error",
+          message: "Failed to parse request body"
+        },
+        { status: 400 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in createProduct", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /products - List the catalog with filters and keyset pagination
+const listProducts = withTraceContext(Effect.gen(function* () {
+  // Parse and validate query parameters
+  const params = yield* HttpServerRequest.schemaSearchParams(ListProductsParams)
+
+  const productService = yield* ProductService
+  const page = yield* productService.list({
+    nameContains: params.q,
+    skuPrefix: params.sku_prefix,
+    inStockOnly: params.in_stock,
+    includeArchived: params.include_archived,
+    after: params.cursor,
+    limit: params.limit
+  })
+
+  yield* Effect.logInfo("Products listed", { count: page.products.length })
+
+  return HttpServerResponse.json({
+    products: page.products.map(toProductResponse),
+    next_cursor: page.nextCursor
+  }, { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /products"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Query parameter validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid query parameters",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    // Cursor that names no product (400 Bad Request)
+    InvalidCursorError: (error: InvalidCursorError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: `Invalid cursor ${error.cursor}. Pass the next_cursor of a previous page.`
+        },
+        { status: 400 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in listProducts", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /products/:product_id - Get a product by ID (archived products included)
+const getProduct = withTraceContext(Effect.gen(function* () {
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+
+  const productService = yield* ProductService
+  const product = yield* productService.findById(productId)
+
+  return HttpServerResponse.json(toProductResponse(product), { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /products/:product_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: (_error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid product_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Product not found (404)
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    // SQL errors (500)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in getProduct", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /products/by-sku/:sku - Get a product by SKU (archived products included)
+const getProductBySku = withTraceContext(Effect.gen(function* () {
+  const { sku } = yield* HttpRouter.schemaPathParams(ProductSkuParams)
+
+  const productService = yield* ProductService
+  const product = yield* productService.findBySku(sku)
+
+  return HttpServerResponse.json(toProductResponse(product), { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /products/by-sku/:sku"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: (_error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "SKU is required"
+        },
+        { status: 400 }
+      ),
+
+    // Product not found (404)
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with SKU ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    // SQL errors (500)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in getProductBySku", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// PATCH /products/:product_id - Update name and/or price with an optimistic concurrency check
+const updateProduct = withTraceContext(Effect.gen(function* () {
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+  const body = yield* HttpServerRequest.schemaBodyJson(UpdateProductRequest)
+
+  const productService = yield* ProductService
+  const product = yield* productService.update(productId, body)
+
+  yield* Effect.logInfo("Product updated", { productId: product.id, sku: product.sku })
+
+  return HttpServerResponse.json(toProductResponse(product), { status: 200 })
+})).pipe(
+  Effect.withSpan("PATCH /products/:product_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path or body validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request data",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    // Product not found (404)
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    // Archived products are read-only (409 Conflict)
+    ProductArchivedError: (error: ProductArchivedError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_archived",
+          message: `Product ${error.productId} has been archived`
+        },
+        { status: 409 }
+      ),
+
+    // Product changed since the client read it (409 Conflict) - re-read and retry
+    ProductUpdateConflictError: (error: ProductUpdateConflictError) =>
+      HttpServerResponse.json(
+        {
+          error: "update_conflict",
+          message: `Product ${error.productId} was modified since it was read`,
+          currentUpdatedAt: error.currentUpdatedAt
+        },
+        { status: 409 }
+      ),
+
+    // Request body parsing errors (400 Bad Request)
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        {
+          error: "request_error",
+          message: "Failed to parse request body"
+        },
+        { status: 400 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in updateProduct", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// DELETE /products/:product_id - Archive (soft-delete) a product
+const archiveProduct = withTraceContext(Effect.gen(function* () {
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+
+  const productService = yield* ProductService
+  const product = yield* productService.archive(productId)
+
+  yield* Effect.logInfo("Product archived", { productId: product.id, sku: product.sku })
+
+  return HttpServerResponse.json(toProductResponse(product), { status: 200 })
+})).pipe(
+  Effect.withSpan("DELETE /products/:product_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: (_error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid product_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Product not found (404)
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    // SQL errors (500)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in archiveProduct", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /products/:product_id/availability - Get product availability
+const getAvailability = withTraceContext(Effect.gen(function* () {
+  // Extract and validate product_id from path parameters using schema
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+
+  // Get product to retrieve SKU (via ProductService)
+  const productService = yield* ProductService
+  const product = yield* productService.findById(productId)
+
+  // Get stock availability (via InventoryService)
+  const inventoryService = yield* InventoryService
+  const stockQuantity = yield* inventoryService.getAvailability(productId)
+
+  const locationService = yield* LocationService
+  const locationStock = yield* locationService.findStockByProducts([productId])
+
+  yield* Effect.logInfo("Availability queried", {
+    productId,
+    sku: product.sku,
+    stockQuantity
+  })
+
+  // Build and return response (snake_case for JSON)
+  const response = {
+    product_id: productId,
+    sku: product.sku,
+    stock_quantity: stockQuantity,
+    available: stockQuantity > 0,
+    backorder_policy: product.backorderPolicy,
+    // Sums to stock_quantity
+    locations: locationStock.map(toLocationStockResponse)
+  }
+
+  return HttpServerResponse.json(response, { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /products/:product_id/availability"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: (_error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid product_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Product not found (404)
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    // SQL errors (500)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in getAvailability", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// POST /products/availability - Batch availability lookup (used by the Edge API stock pre-check)
+const getAvailabilities = withTraceContext(Effect.gen(function* () {
+  // Parse and validate request body
+  const body = yield* HttpServerRequest.schemaBodyJson(AvailabilityLookupRequest)
+
+  const inventoryService = yield* InventoryService
+  const availabilities = yield* inventoryService.getAvailabilities(body.productIds)
+
+  const locationService = yield* LocationService
+  const locationStock = yield* locationService.findStockByProducts(
+    availabilities.map((availability) => availability.productId)
+  )
 
-  yield* Effect.logInfo("Product created", { productId: product.id, sku: product.sku })
+  const foundIds = new Set<string>(availabilities.map((availability) => availability.productId))
+  const missingProductIds = Array.from(new Set(body.productIds)).filter((id) => !foundIds.has(id))
+
+  yield* Effect.logInfo("Batch availability queried", {
+    requested: body.productIds.length,
+    found: availabilities.length,
+    missing: missingProductIds.length
+  })
 
-  // Map domain model to response
   const response = {
-    id: product.id,
-    name: product.name,
-    sku: product.sku,
-    priceCents: product.priceCents,
-    stockQuantity: product.stockQuantity,
-    createdAt: DateTime.formatIso(product.createdAt)
+    products: availabilities.map((availability) => ({
+      product_id: availability.productId,
+      sku: availability.sku,
+      stock_quantity: availability.stockQuantity,
+      available: availability.stockQuantity > 0,
+      backorder_policy: availability.backorderPolicy,
+      // Units that may be ordered beyond stock_quantity; null when uncapped
+      backorderable_quantity: availability.backorderableQuantity,
+      locations: locationStock
+        .filter((level) => level.productId === availability.productId)
+        .map(toLocationStockResponse)
+    })),
+    missing_product_ids: missingProductIds
   }
 
-  return HttpServerResponse.json(response, { status: 201 })
+  return HttpServerResponse.json(response, { status: 200 })
 })).pipe(
-  Effect.withSpan("POST /products"),
+  Effect.withSpan("POST /products/availability"),
   Effect.flatten,
-  // Error handling - map domain errors to HTTP responses
   Effect.catchTags({
     // Schema validation errors (400 Bad Request)
     ParseError: (error: ParseResult.ParseError) =>
@@ -46,17 +557,6 @@ const createProduct = withTraceContext(Effect.gen(function* () {
         { status: 400 }
       ),
 
-    // Duplicate SKU (409 Conflict)
-    DuplicateSkuError: (error: DuplicateSkuError) =>
-      HttpServerResponse.json(
-        {
-          error: "duplicate_sku",
-          message: `Product with SKU '${error.sku}' already exists`,
-          existingProductId: error.existingProductId
-        },
-        { status: 409 }
-      ),
-
     // Request body parsing errors (400 Bad Request)
     RequestError: (_error: HttpServerError.RequestError) =>
       HttpServerResponse.json(
@@ -70,7 +570,7 @@ const createProduct = withTraceContext(Effect.gen(function* () {
     // SQL errors (500 Internal Server Error)
     SqlError: (error: SqlError.SqlError) =>
       Effect.gen(function* () {
-        yield* Effect.logError("Database error in createProduct", { error })
+        yield* Effect.logError("Database error in getAvailabilities", { error })
         return HttpServerResponse.json(
           {
             error: "internal_error",
@@ -82,62 +582,83 @@ const createProduct = withTraceContext(Effect.gen(function* () {
   })
 )
 
-// GET /products/:product_id/availability - Get product availability
-const getAvailability = withTraceContext(Effect.gen(function* () {
-  // Extract and validate product_id from path parameters using schema
-  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+// POST /products/prices - Batch price lookup (used by the Edge API to price orders)
+const lookupPrices = withTraceContext(Effect.gen(function* () {
+  // Parse and validate request body
+  const body = yield* HttpServerRequest.schemaBodyJson(PriceLookupRequest)
 
-  // Get product to retrieve SKU (via ProductService)
   const productService = yield* ProductService
-  const product = yield* productService.findById(productId)
+  const fxRate = yield* productService.findFxRate(body.currency)
+  // Archived products are no longer sold, so they are reported as missing
+  const products = (yield* productService.findByIds(body.productIds)).filter((product) => product.archivedAt === null)
 
-  // Get stock availability (via InventoryService)
-  const inventoryService = yield* InventoryService
-  const stockQuantity = yield* inventoryService.getAvailability(productId)
+  const foundIds = new Set<string>(products.map((product) => product.id))
+  const missingProductIds = Array.from(new Set(body.productIds)).filter((id) => !foundIds.has(id))
 
-  yield* Effect.logInfo("Availability queried", {
-    productId,
-    sku: product.sku,
-    stockQuantity
+  yield* Effect.logInfo("Prices looked up", {
+    requested: body.productIds.length,
+    found: products.length,
+    missing: missingProductIds.length,
+    currency: fxRate.currency
   })
 
-  // Build and return response (snake_case for JSON)
+  // Unknown IDs are reported alongside the found products so the caller can
+  // decide how to surface them (the Edge API rejects the whole order).
+  // The rate is echoed back so the caller can snapshot what the prices were quoted at.
   const response = {
-    product_id: productId,
-    sku: product.sku,
-    stock_quantity: stockQuantity,
-    available: stockQuantity > 0
+    products: products.map((product) => ({
+      product_id: product.id,
+      sku: product.sku,
+      name: product.name,
+      price_cents: convertFromBase(product.priceCents, fxRate)
+    })),
+    missing_product_ids: missingProductIds,
+    currency: fxRate.currency,
+    base_currency: BASE_CURRENCY,
+    fx_rate: fxRate.rate
   }
 
   return HttpServerResponse.json(response, { status: 200 })
 })).pipe(
-  Effect.withSpan("GET /products/:product_id/availability"),
+  Effect.withSpan("POST /products/prices"),
   Effect.flatten,
   Effect.catchTags({
-    // Path parameter validation errors (400 Bad Request)
-    ParseError: (_error: ParseResult.ParseError) =>
+    // Schema validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
       HttpServerResponse.json(
         {
           error: "validation_error",
-          message: "Invalid product_id format. Must be a valid UUID."
+          message: "Invalid request data",
+          details: error.message
         },
         { status: 400 }
       ),
 
-    // Product not found (404)
-    ProductNotFoundError: (error: ProductNotFoundError) =>
+    // Request body parsing errors (400 Bad Request)
+    RequestError: (_error: HttpServerError.RequestError) =>
       HttpServerResponse.json(
         {
-          error: "product_not_found",
-          message: `Product with ID ${error.productId} does not exist`
+          error: "request_error",
+          message: "Failed to parse request body"
         },
-        { status: 404 }
+        { status: 400 }
       ),
 
-    // SQL errors (500)
+    // No FX rate for the requested currency (422 Unprocessable Entity)
+    UnsupportedCurrencyError: (error: UnsupportedCurrencyError) =>
+      HttpServerResponse.json(
+        {
+          error: "unsupported_currency",
+          message: `Prices cannot be quoted in ${error.currency}`,
+          currency: error.currency
+        },
+        { status: 422 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
     SqlError: (error: SqlError.SqlError) =>
       Effect.gen(function* () {
-        yield* Effect.logError("Database error in getAvailability", { error })
+        yield* Effect.logError("Database error in lookupPrices", { error })
         return HttpServerResponse.json(
           {
             error: "internal_error",
@@ -185,11 +706,17 @@ const addStock = withTraceContext(Effect.gen(function* () {
   const response = {
     product_id: result.productId,
     sku: result.sku,
+    location_id: result.locationId,
     previous_quantity: result.previousQuantity,
     added_quantity: result.addedQuantity,
     new_quantity: result.newQuantity,
     adjustment_id: result.adjustmentId,
-    created_at: DateTime.formatIso(result.createdAt)
+    created_at: DateTime.formatIso(result.createdAt),
+    backorders_allocated: result.allocatedBackorders.map((backorder) => ({
+      reservation_id: backorder.reservationId,
+      order_id: backorder.orderId,
+      quantity: backorder.quantity
+    }))
   }
 
   return HttpServerResponse.json(response, { status: 200 })
@@ -218,6 +745,16 @@ const addStock = withTraceContext(Effect.gen(function* () {
         { status: 404 }
       ),
 
+    // Location not found (404 Not Found)
+    LocationNotFoundError: (error: LocationNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "location_not_found",
+          message: `Location ${error.locationId} does not exist`
+        },
+        { status: 404 }
+      ),
+
     // Duplicate idempotency key (409 Conflict - idempotent retry)
     // Return the ORIGINAL result for true idempotency
     DuplicateAdjustmentError: (error: DuplicateAdjustmentError) =>
@@ -257,8 +794,274 @@ const addStock = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// POST /products/:product_id/adjustments - Record a write-off, correction or cycle count
+const adjustStock = withTraceContext(Effect.gen(function* () {
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+
+  const request = yield* HttpServerRequest.HttpServerRequest
+  const idempotencyKey = request.headers["idempotency-key"]
+  if (!idempotencyKey) {
+    return yield* HttpServerResponse.json(
+      {
+        error: "missing_idempotency_key",
+        message: "Idempotency-Key header is required"
+      },
+      { status: 400 }
+    )
+  }
+
+  const body = yield* HttpServerRequest.schemaBodyJson(AdjustStockRequest)
+
+  const inventoryService = yield* InventoryService
+  const result = yield* inventoryService.adjustStock(productId, idempotencyKey, body)
+
+  yield* Effect.logInfo("Stock adjusted", {
+    productId: result.productId,
+    sku: result.sku,
+    reason: result.reason,
+    quantityChange: result.quantityChange,
+    newQuantity: result.newQuantity
+  })
+
+  return HttpServerResponse.json(
+    {
+      product_id: result.productId,
+      sku: result.sku,
+      location_id: result.locationId,
+      reason: result.reason,
+      previous_quantity: result.previousQuantity,
+      quantity_change: result.quantityChange,
+      new_quantity: result.newQuantity,
+      adjustment_id: result.adjustmentId,
+      created_at: DateTime.formatIso(result.createdAt)
+    },
+    { status: 201 }
+  )
+})).pipe(
+  Effect.withSpan("POST /products/:product_id/adjustments"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request data",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    LocationNotFoundError: (error: LocationNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "location_not_found",
+          message: `Location ${error.locationId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    // The change would take the location's stock below zero - nothing was written
+    InsufficientStockError: (error: InsufficientStockError) =>
+      HttpServerResponse.json(
+        {
+          error: "insufficient_stock",
+          message: `Adjustment would take stock for product ${error.productSku} below zero at this location`,
+          product_id: error.productId,
+          product_sku: error.productSku,
+          requested: error.requested,
+          available: error.available
+        },
+        { status: 409 }
+      ),
+
+    // Idempotent retry - return the original adjustment
+    DuplicateAdjustmentError: (error: DuplicateAdjustmentError) =>
+      HttpServerResponse.json(
+        {
+          adjustment_id: error.existingAdjustment.adjustmentId,
+          message: "This adjustment was already processed",
+          previous_quantity: error.existingAdjustment.previousQuantity,
+          quantity_change: error.existingAdjustment.addedQuantity,
+          new_quantity: error.existingAdjustment.newQuantity
+        },
+        { status: 409 }
+      ),
+
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        {
+          error: "request_error",
+          message: "Failed to parse request body"
+        },
+        { status: 400 }
+      ),
+
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in adjustStock", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /products/:product_id/adjustments - A product's adjustment history, newest first
+const listAdjustments = withTraceContext(Effect.gen(function* () {
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+  const params = yield* HttpServerRequest.schemaSearchParams(ListAdjustmentsParams)
+
+  const inventoryService = yield* InventoryService
+  const page = yield* inventoryService.listAdjustments(productId, {
+    reasons: params.reason,
+    createdBy: params.created_by,
+    createdFrom: params.created_from,
+    createdTo: params.created_to,
+    after: params.cursor,
+    limit: params.limit
+  })
+
+  return HttpServerResponse.json({
+    product_id: productId,
+    adjustments: page.adjustments.map(toAdjustmentResponse),
+    next_cursor: page.nextCursor
+  }, { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /products/:product_id/adjustments"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request. product_id and cursor must be UUIDs; reason must be a comma-separated list of adjustment reasons; created_from/created_to must be ISO 8601 timestamps; limit must be 1-100.",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    InvalidCursorError: (error: InvalidCursorError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: `Invalid cursor ${error.cursor}. Pass the next_cursor of a previous page.`
+        },
+        { status: 400 }
+      ),
+
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in listAdjustments", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// GET /products/:product_id/movements - Adjustments interleaved with reservations and releases
+const listMovements = withTraceContext(Effect.gen(function* () {
+  const { product_id: productId } = yield* HttpRouter.schemaPathParams(ProductIdParams)
+  const params = yield* HttpServerRequest.schemaSearchParams(ListStockMovementsParams)
+
+  const inventoryService = yield* InventoryService
+  const page = yield* inventoryService.listMovements(productId, {
+    occurredFrom: params.occurred_from,
+    occurredTo: params.occurred_to,
+    after: params.cursor,
+    limit: params.limit
+  })
+
+  return HttpServerResponse.json({
+    product_id: productId,
+    stock_quantity: page.stockQuantity,
+    movements: page.movements.map(toMovementResponse),
+    next_cursor: page.nextCursor
+  }, { status: 200 })
+})).pipe(
+  Effect.withSpan("GET /products/:product_id/movements"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request. product_id must be a UUID; cursor must be a movement_id from a previous page; occurred_from/occurred_to must be ISO 8601 timestamps; limit must be 1-100.",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    ProductNotFoundError: (error: ProductNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_not_found",
+          message: `Product with ID ${error.productId} does not exist`
+        },
+        { status: 404 }
+      ),
+
+    InvalidCursorError: (error: InvalidCursorError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: `Invalid cursor ${error.cursor}. Pass the next_cursor of a previous page.`
+        },
+        { status: 400 }
+      ),
+
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in listMovements", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
 export const ProductRoutes = HttpRouter.empty.pipe(
   HttpRouter.post("/products", createProduct),
+  HttpRouter.get("/products", listProducts),
+  HttpRouter.get("/products/by-sku/:sku", getProductBySku),
+  HttpRouter.get("/products/:product_id", getProduct),
+  HttpRouter.patch("/products/:product_id", updateProduct),
+  HttpRouter.del("/products/:product_id", archiveProduct),
+  HttpRouter.post("/products/prices", lookupPrices),
+  HttpRouter.post("/products/availability", getAvailabilities),
   HttpRouter.post("/products/:product_id/stock", addStock),
+  HttpRouter.post("/products/:product_id/adjustments", adjustStock),
+  HttpRouter.get("/products/:product_id/adjustments", listAdjustments),
+  HttpRouter.get("/products/:product_id/movements", listMovements),
   HttpRouter.get("/products/:product_id/availability", getAvailability),
 )
@@ -0,0 +1,80 @@
+import { HttpRouter, HttpServerRequest, HttpServerResponse } from "@effect/platform"
+import type { HttpServerError } from "@effect/platform"
+import { SqlError } from "@effect/sql"
+import { Effect, ParseResult } from "effect"
+import { withTraceContext } from "@ecommerce/tracing"
+import { ReconcileStockRequest } from "../domain/StockMovement.js"
+import { InventoryService } from "../services/InventoryService.js"
+
+// POST /stock/reconciliation - Report (and optionally correct) drift between stock and its movements
+const reconcileStock = withTraceContext(Effect.gen(function* () {
+  const body = yield* HttpServerRequest.schemaBodyJson(ReconcileStockRequest)
+
+  const inventoryService = yield* InventoryService
+  const discrepancies = yield* inventoryService.reconcileStock({
+    productIds: body.productIds,
+    applyCorrections: body.applyCorrections
+  })
+
+  const correctedCount = discrepancies.filter((d) => d.correctionAdjustmentId !== null).length
+  yield* Effect.logInfo("Stock reconciled", {
+    discrepancyCount: discrepancies.length,
+    correctedCount
+  })
+
+  return HttpServerResponse.json({
+    apply_corrections: body.applyCorrections,
+    discrepancy_count: discrepancies.length,
+    corrected_count: correctedCount,
+    discrepancies: discrepancies.map((d) => ({
+      product_id: d.productId,
+      sku: d.sku,
+      stock_quantity: d.stockQuantity,
+      expected_quantity: d.expectedQuantity,
+      difference: d.difference,
+      correction_adjustment_id: d.correctionAdjustmentId
+    }))
+  }, { status: 200 })
+})).pipe(
+  Effect.withSpan("POST /stock/reconciliation"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Schema validation errors (400 Bad Request)
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid request data",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+
+    // Request body parsing errors (400 Bad Request)
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        {
+          error: "request_error",
+          message: "Failed to parse request body"
+        },
+        { status: 400 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in reconcileStock", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+export const ReconciliationRoutes = HttpRouter.empty.pipe(
+  HttpRouter.post("/stock/reconciliation", reconcileStock)
+)
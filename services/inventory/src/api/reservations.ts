@@ -5,7 +5,13 @@ import { Effect, ParseResult } from "effect"
 import { withTraceContext } from "@ecommerce/tracing"
 import { ReserveStockHttpRequest, OrderIdParams } from "../domain/Reservation.js"
 import { InventoryService } from "../services/InventoryService.js"
-import type { ProductNotFoundError, InsufficientStockError } from "../domain/errors.js"
+import type {
+  ProductNotFoundError,
+  ProductArchivedError,
+  InsufficientStockError,
+  ReservationNotFoundError,
+  ReservationReleasedError
+} from "../domain/errors.js"
 
 
 // POST /reservations - Reserve stock for an order
@@ -15,20 +21,28 @@ const reserveStock = withTraceContext(Effect.gen(function* () {
 
   // Get service and execute reservation
   const inventoryService = yield* InventoryService
-  const reservationIds = yield* inventoryService.reserveStock({
+  const { reservationIds, shortfalls } = yield* inventoryService.reserveStock({
     orderId: body.orderId,
     items: body.items.map(item => ({
       productId: item.productId,
       quantity: item.quantity
-    }))
+    })),
+    destination: body.destination,
+    allowPartial: body.allowPartial
   })
 
-  const totalQuantity = body.items.reduce((sum, item) => sum + item.quantity, 0)
+  // A partial reservation may leave out some of each short product, or all of it
+  const quantityShort = shortfalls.reduce((sum, shortfall) => sum + shortfall.requestedQuantity - shortfall.reservedQuantity, 0)
+  const totalQuantity = body.items.reduce((sum, item) => sum + item.quantity, 0) - quantityShort
+  const lineItemsReserved = body.items.filter(item =>
+    !shortfalls.some(shortfall => shortfall.productId === item.productId && shortfall.reservedQuantity === 0)
+  ).length
 
   yield* Effect.logInfo("Stock reserved", {
     orderId: body.orderId,
-    lineItems: body.items.length,
+    lineItems: lineItemsReserved,
     totalQuantity,
+    quantityShort,
     reservationIds
   })
 
@@ -36,8 +50,13 @@ const reserveStock = withTraceContext(Effect.gen(function* () {
   const response = {
     order_id: body.orderId,
     reservation_ids: reservationIds,
-    line_items_reserved: body.items.length,
-    total_quantity_reserved: totalQuantity
+    line_items_reserved: lineItemsReserved,
+    total_quantity_reserved: totalQuantity,
+    shortfalls: shortfalls.map(shortfall => ({
+      product_id: shortfall.productId,
+      requested_quantity: shortfall.requestedQuantity,
+      reserved_quantity: shortfall.reservedQuantity
+    }))
   }
 
   return HttpServerResponse.json(response, { status: 201 })
@@ -66,6 +85,17 @@ const reserveStock = withTraceContext(Effect.gen(function* () {
         { status: 404 }
       ),
 
+    // Archived product (409 Conflict) - no longer sold, so retrying cannot help
+    ProductArchivedError: (error: ProductArchivedError) =>
+      HttpServerResponse.json(
+        {
+          error: "product_archived",
+          message: `Product ${error.productId} has been archived`,
+          product_id: error.productId
+        },
+        { status: 409 }
+      ),
+
     // Insufficient stock (409 Conflict)
     // Using 409 because the request conflicts with current resource state
     InsufficientStockError: (error: InsufficientStockError) =>
@@ -170,8 +200,154 @@ const releaseReservation = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// POST /reservations/:order_id/extend - Hold reservations so they never expire
+const extendReservation = withTraceContext(Effect.gen(function* () {
+  // Extract and validate order_id from path parameters
+  const { order_id: orderId } = yield* HttpRouter.schemaPathParams(OrderIdParams)
+
+  // Get service and clear the expiry
+  const inventoryService = yield* InventoryService
+  const reservations = yield* inventoryService.extendReservation(orderId)
+
+  yield* Effect.logInfo("Reservations extended", {
+    orderId,
+    reservationCount: reservations.length
+  })
+
+  // Return response (snake_case for JSON)
+  const response = {
+    order_id: orderId,
+    reservation_ids: reservations.map(r => r.id),
+    expires_at: null,
+    message: `Extended ${reservations.length} reservation(s) until the order is released`
+  }
+
+  return HttpServerResponse.json(response, { status: 200 })
+})).pipe(
+  Effect.withSpan("POST /reservations/:order_id/extend"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: (_error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Order was never reserved (404 Not Found)
+    ReservationNotFoundError: (error: ReservationNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "reservation_not_found",
+          message: `No reservations found for order ${error.orderId}`
+        },
+        { status: 404 }
+      ),
+
+    // Reservations were released or swept on expiry (409 Conflict)
+    ReservationReleasedError: (error: ReservationReleasedError) =>
+      HttpServerResponse.json(
+        {
+          error: "reservation_released",
+          message: `Reservations for order ${error.orderId} were already released`
+        },
+        { status: 409 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in extendReservation", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
+// POST /reservations/:order_id/commit - Turn reservations into permanent deductions
+const commitReservation = withTraceContext(Effect.gen(function* () {
+  // Extract and validate order_id from path parameters
+  const { order_id: orderId } = yield* HttpRouter.schemaPathParams(OrderIdParams)
+
+  // Get service and commit the reservations
+  const inventoryService = yield* InventoryService
+  const reservations = yield* inventoryService.commitReservation(orderId)
+
+  yield* Effect.logInfo("Reservations committed", {
+    orderId,
+    reservationCount: reservations.length
+  })
+
+  // Return response (snake_case for JSON)
+  const response = {
+    order_id: orderId,
+    reservation_ids: reservations.map(r => r.id),
+    committed_count: reservations.length,
+    message: `Committed ${reservations.length} reservation(s)`
+  }
+
+  return HttpServerResponse.json(response, { status: 200 })
+})).pipe(
+  Effect.withSpan("POST /reservations/:order_id/commit"),
+  Effect.flatten,
+  Effect.catchTags({
+    // Path parameter validation errors (400 Bad Request)
+    ParseError: (_error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    // Order was never reserved (404 Not Found)
+    ReservationNotFoundError: (error: ReservationNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "reservation_not_found",
+          message: `No reservations found for order ${error.orderId}`
+        },
+        { status: 404 }
+      ),
+
+    // Released stock cannot be committed (409 Conflict)
+    ReservationReleasedError: (error: ReservationReleasedError) =>
+      HttpServerResponse.json(
+        {
+          error: "reservation_released",
+          message: `Reservations for order ${error.orderId} were already released`
+        },
+        { status: 409 }
+      ),
+
+    // SQL errors (500 Internal Server Error)
+    SqlError: (error: SqlError.SqlError) =>
+      Effect.gen(function* () {
+        yield* Effect.logError("Database error in commitReservation", { error })
+        return HttpServerResponse.json(
+          {
+            error: "internal_error",
+            message: "An unexpected error occurred"
+          },
+          { status: 500 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
 
 export const ReservationRoutes = HttpRouter.empty.pipe(
   HttpRouter.post("/reservations", reserveStock),
-  HttpRouter.del("/reservations/:order_id", releaseReservation)
+  HttpRouter.del("/reservations/:order_id", releaseReservation),
+  HttpRouter.post("/reservations/:order_id/extend", extendReservation),
+  HttpRouter.post("/reservations/:order_id/commit", commitReservation)
 )
\ No newline at end of file
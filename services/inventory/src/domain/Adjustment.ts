@@ -1,5 +1,7 @@
 import { Schema } from "effect"
 import { ProductId } from "./Product.js"
+import { LocationId } from "./Location.js"
+import type { BackorderAllocation } from "./Backorder.js"
 
 export const AdjustmentId = Schema.UUID.pipe(Schema.brand("AdjustmentId"))
 export type AdjustmentId = typeof AdjustmentId.Type
@@ -13,48 +15,152 @@ export const AdjustmentReason = Schema.Literal(
 )
 export type AdjustmentReason = typeof AdjustmentReason.Type
 
+// Stock that left the shelf without being sold - only valid as a decrease
+export const WriteOffReason = Schema.Literal("damaged", "shrinkage")
+export type WriteOffReason = typeof WriteOffReason.Type
+
+// Physical count - the request carries the counted quantity and the change is computed from it
+export const CycleCountReason = Schema.Literal("cycle_count")
+export type CycleCountReason = typeof CycleCountReason.Type
+
+// Every reason accepted on the adjustments endpoint
+export const StockAdjustmentReason = Schema.Union(AdjustmentReason, WriteOffReason, CycleCountReason)
+export type StockAdjustmentReason = typeof StockAdjustmentReason.Type
+
+// Reasons only the service itself records - not accepted on the add-stock endpoint
+// Every stock mutation writes one, so the adjustments add up to products.stock_quantity
+export const SystemAdjustmentReason = Schema.Literal(
+  "initial_stock",
+  "reservation",
+  "reservation_released",
+  "reservation_expired"
+)
+export type SystemAdjustmentReason = typeof SystemAdjustmentReason.Type
+
 // Domain model for an inventory adjustment (audit record)
 export class InventoryAdjustment extends Schema.Class<InventoryAdjustment>("InventoryAdjustment")({
   id: AdjustmentId,
   idempotencyKey: Schema.String,
   productId: ProductId,
+  // Location whose stock changed; null for adjustments recorded before locations existed
+  // and for reconciliation corrections, which do not move stock
+  locationId: Schema.NullOr(LocationId),
+  // Quantities are the product's total across locations
   quantityChange: Schema.Int,
   previousQuantity: Schema.Int,
   newQuantity: Schema.Int,
-  reason: AdjustmentReason,
+  reason: Schema.Union(StockAdjustmentReason, SystemAdjustmentReason),
   referenceId: Schema.NullOr(Schema.String),
   notes: Schema.NullOr(Schema.String),
   createdBy: Schema.NullOr(Schema.String),
   createdAt: Schema.DateTimeUtc
 }) {}
 
+const ReferenceId = Schema.String.pipe(
+  Schema.maxLength(255, { message: () => "Reference ID cannot exceed 255 characters" })
+)
+
+const Notes = Schema.String.pipe(
+  Schema.maxLength(1000, { message: () => "Notes cannot exceed 1000 characters" })
+)
+
 // Request schema with validation
 export class AddStockRequest extends Schema.Class<AddStockRequest>("AddStockRequest")({
   quantity: Schema.Int.pipe(
     Schema.positive({ message: () => "Quantity must be positive" })
   ),
   reason: AdjustmentReason,
-  referenceId: Schema.optionalWith(
-    Schema.String.pipe(
-      Schema.maxLength(255, { message: () => "Reference ID cannot exceed 255 characters" })
+  // The default location when omitted
+  locationId: Schema.optional(LocationId),
+  referenceId: Schema.optionalWith(ReferenceId, { as: "Option" }),
+  notes: Schema.optionalWith(Notes, { as: "Option" })
+}) {}
+
+// Reasons that only ever put stock back on the shelf
+const INCREASE_ONLY_REASONS: ReadonlySet<StockAdjustmentReason> = new Set(["warehouse_receiving", "return_to_stock"])
+
+const validateAdjustmentShape = (request: {
+  readonly reason: StockAdjustmentReason
+  readonly quantityChange?: number
+  readonly countedQuantity?: number
+}): string | undefined => {
+  if (request.reason === "cycle_count") {
+    if (request.countedQuantity === undefined) return "countedQuantity is required for a cycle_count adjustment"
+    if (request.quantityChange !== undefined) return "quantityChange cannot be combined with countedQuantity"
+    return undefined
+  }
+  if (request.countedQuantity !== undefined) return "countedQuantity is only accepted for a cycle_count adjustment"
+  if (request.quantityChange === undefined) return "quantityChange is required"
+  if (Schema.is(WriteOffReason)(request.reason) && request.quantityChange > 0) {
+    return `A ${request.reason} adjustment must decrease stock`
+  }
+  if (INCREASE_ONLY_REASONS.has(request.reason) && request.quantityChange < 0) {
+    return `A ${request.reason} adjustment must increase stock`
+  }
+  return undefined
+}
+
+// Request schema for POST /products/:product_id/adjustments
+// Either a signed quantityChange, or (for cycle_count) the absolute countedQuantity found on the shelf
+// Both apply to one location - the default location when locationId is omitted
+export class AdjustStockRequest extends Schema.Class<AdjustStockRequest>("AdjustStockRequest")(
+  Schema.Struct({
+    reason: StockAdjustmentReason,
+    locationId: Schema.optional(LocationId),
+    quantityChange: Schema.optional(
+      Schema.Int.pipe(Schema.filter((n) => n !== 0 || "Quantity change cannot be zero"))
     ),
-    { as: "Option" }
-  ),
-  notes: Schema.optionalWith(
-    Schema.String.pipe(
-      Schema.maxLength(1000, { message: () => "Notes cannot exceed 1000 characters" })
+    countedQuantity: Schema.optional(
+      Schema.Int.pipe(Schema.nonNegative({ message: () => "Counted quantity cannot be negative" }))
     ),
-    { as: "Option" }
-  )
-}) {}
+    referenceId: Schema.optionalWith(ReferenceId, { as: "Option" }),
+    notes: Schema.optionalWith(Notes, { as: "Option" })
+  }).pipe(Schema.filter(validateAdjustmentShape))
+) {}
+
+// Query string schema for GET /products/:product_id/adjustments
+// cursor is the next_cursor of the previous page - the ID of its last adjustment
+export const ListAdjustmentsParams = Schema.Struct({
+  // Comma-separated, e.g. reason=damaged,shrinkage
+  reason: Schema.optional(
+    Schema.compose(
+      Schema.split(","),
+      Schema.Array(Schema.Union(StockAdjustmentReason, SystemAdjustmentReason))
+    ).pipe(Schema.minItems(1))
+  ),
+  created_by: Schema.optional(Schema.String.pipe(Schema.minLength(1), Schema.maxLength(255))),
+  created_from: Schema.optional(Schema.DateTimeUtc),
+  created_to: Schema.optional(Schema.DateTimeUtc),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100)),
+    { default: () => 20 }
+  ),
+  cursor: Schema.optional(AdjustmentId)
+})
 
 // Response type for add stock operation
 export interface AddStockResponse {
   readonly productId: ProductId
   readonly sku: string
+  readonly locationId: LocationId
   readonly previousQuantity: number
   readonly addedQuantity: number
   readonly newQuantity: number
   readonly adjustmentId: AdjustmentId
   readonly createdAt: typeof Schema.DateTimeUtc.Type
+  // Backorders filled from the received stock, oldest first
+  readonly allocatedBackorders: ReadonlyArray<BackorderAllocation>
+}
+
+// Response type for a signed or cycle-count adjustment
+export interface AdjustStockResponse {
+  readonly productId: ProductId
+  readonly sku: string
+  readonly locationId: LocationId
+  readonly reason: StockAdjustmentReason
+  readonly previousQuantity: number
+  readonly quantityChange: number
+  readonly newQuantity: number
+  readonly adjustmentId: AdjustmentId
+  readonly createdAt: typeof Schema.DateTimeUtc.Type
 }
@@ -0,0 +1,43 @@
+import type { BackorderPolicy } from "./Product.js"
+import type { ReservationId } from "./Reservation.js"
+
+// A backorder filled from newly received stock
+export interface BackorderAllocation {
+  readonly reservationId: ReservationId
+  readonly orderId: string
+  readonly quantity: number
+}
+
+/**
+ * How many more units of a product may be backordered: 0 when the product
+ * takes no backorders, null when there is no cap.
+ */
+export const backorderHeadroom = (
+  policy: BackorderPolicy,
+  limit: number | null,
+  backorderedQuantity: number
+): number | null => {
+  if (policy === "none") return 0
+  if (limit === null) return null
+  return Math.max(0, limit - backorderedQuantity)
+}
+
+/**
+ * Pick the backorders that `available` units can fill, oldest first.
+ * Each backorder is filled whole so its line ships complete, and filling stops
+ * at the first one that does not fit, so a large early backorder is never
+ * overtaken by later, smaller ones.
+ */
+export const selectBackordersToFill = <A extends { readonly quantity: number }>(
+  available: number,
+  backorders: ReadonlyArray<A>
+): ReadonlyArray<A> => {
+  const filled: Array<A> = []
+  let remaining = available
+  for (const backorder of backorders) {
+    if (backorder.quantity > remaining) break
+    filled.push(backorder)
+    remaining -= backorder.quantity
+  }
+  return filled
+}
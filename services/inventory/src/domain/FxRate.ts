@@ -0,0 +1,19 @@
+import { Schema } from "effect"
+
+// Product prices are stored in this currency and converted at quote time
+export const BASE_CURRENCY = "USD"
+
+export const CurrencyCode = Schema.String.pipe(
+  Schema.pattern(/^[A-Z]{3}$/, { message: () => "Currency must be a 3-letter ISO 4217 code" })
+)
+
+// Domain model for an FX rate - units of currency per 1 unit of BASE_CURRENCY
+export class FxRate extends Schema.Class<FxRate>("FxRate")({
+  currency: Schema.String,
+  rate: Schema.Number.pipe(Schema.positive()),
+  updatedAt: Schema.DateTimeUtc
+}) {}
+
+/** Convert a base-currency amount to the rate's currency, rounding to the nearest minor unit */
+export const convertFromBase = (baseCents: number, rate: FxRate): number =>
+  Math.round(baseCents * rate.rate)
@@ -0,0 +1,147 @@
+import { Schema } from "effect"
+
+export const LocationId = Schema.UUID.pipe(Schema.brand("LocationId"))
+export type LocationId = typeof LocationId.Type
+
+// Seeded by migration 023; stock added without a location goes here
+export const DEFAULT_LOCATION_CODE = "DEFAULT"
+
+const Latitude = Schema.Number.pipe(
+  Schema.between(-90, 90, { message: () => "Latitude must be between -90 and 90" })
+)
+
+const Longitude = Schema.Number.pipe(
+  Schema.between(-180, 180, { message: () => "Longitude must be between -180 and 180" })
+)
+
+export class Location extends Schema.Class<Location>("Location")({
+  id: LocationId,
+  code: Schema.String,
+  name: Schema.String,
+  // Lower ships first when the order carries no destination
+  priority: Schema.Int,
+  // Both null when the location has no coordinates - it is then ranked after every located one
+  latitude: Schema.NullOr(Schema.Number),
+  longitude: Schema.NullOr(Schema.Number),
+  createdAt: Schema.DateTimeUtc
+}) {}
+
+// Where an order ships to - reservations prefer the locations nearest to it
+export class Destination extends Schema.Class<Destination>("Destination")({
+  latitude: Latitude,
+  longitude: Longitude
+}) {}
+
+// Request schema for POST /locations
+export class CreateLocationRequest extends Schema.Class<CreateLocationRequest>("CreateLocationRequest")(
+  Schema.Struct({
+    code: Schema.String.pipe(
+      Schema.minLength(1, { message: () => "Location code cannot be empty" }),
+      Schema.maxLength(50, { message: () => "Location code cannot exceed 50 characters" }),
+      Schema.pattern(/^[A-Z0-9\-_]+$/, {
+        message: () => "Location code can only contain uppercase letters, digits, hyphens, and underscores"
+      })
+    ),
+    name: Schema.String.pipe(
+      Schema.minLength(1, { message: () => "Location name cannot be empty" }),
+      Schema.maxLength(255, { message: () => "Location name cannot exceed 255 characters" })
+    ),
+    priority: Schema.optionalWith(
+      Schema.Int.pipe(Schema.nonNegative({ message: () => "Priority cannot be negative" })),
+      { default: () => 100 }
+    ),
+    latitude: Schema.optional(Latitude),
+    longitude: Schema.optional(Longitude)
+  }).pipe(
+    Schema.filter((request) =>
+      (request.latitude === undefined) === (request.longitude === undefined)
+        ? undefined
+        : "latitude and longitude must be given together"
+    )
+  )
+) {}
+
+// Stock a location holds for one product, as seen when allocating a reservation
+export interface LocationStockCandidate {
+  readonly locationId: LocationId
+  readonly code: string
+  readonly priority: number
+  readonly latitude: number | null
+  readonly longitude: number | null
+  readonly quantity: number
+}
+
+export interface LocationAllocation {
+  readonly locationId: LocationId
+  readonly quantity: number
+}
+
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Great-circle (haversine) distance - close enough to pick the nearest warehouse
+export const distanceKm = (
+  from: { readonly latitude: number; readonly longitude: number },
+  to: { readonly latitude: number; readonly longitude: number }
+): number => {
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Order locations by preference: nearest to the destination first (locations
+ * without coordinates last), or by priority when there is no destination.
+ * Ties fall back to priority, then code, so the order is stable.
+ */
+export const rankLocations = <A extends LocationStockCandidate>(
+  candidates: ReadonlyArray<A>,
+  destination: Destination | null
+): ReadonlyArray<A> => {
+  const distance = (candidate: A) =>
+    destination === null || candidate.latitude === null || candidate.longitude === null
+      ? Number.POSITIVE_INFINITY
+      : distanceKm(destination, { latitude: candidate.latitude, longitude: candidate.longitude })
+
+  return [...candidates]
+    .map((candidate) => ({ candidate, distance: distance(candidate) }))
+    .sort((a, b) =>
+      (a.distance === b.distance ? 0 : a.distance < b.distance ? -1 : 1) ||
+      a.candidate.priority - b.candidate.priority ||
+      a.candidate.code.localeCompare(b.candidate.code)
+    )
+    .map(({ candidate }) => candidate)
+}
+
+/**
+ * Decide which locations a line item is taken from. The best-ranked location
+ * that can fill the whole quantity wins, so the item ships in one parcel; only
+ * when none can is the quantity split across locations in rank order.
+ * Returns an empty array if the locations together hold too little.
+ */
+export const allocateAcrossLocations = (
+  quantity: number,
+  candidates: ReadonlyArray<LocationStockCandidate>,
+  destination: Destination | null
+): ReadonlyArray<LocationAllocation> => {
+  const ranked = rankLocations(candidates.filter((candidate) => candidate.quantity > 0), destination)
+
+  const single = ranked.find((candidate) => candidate.quantity >= quantity)
+  if (single !== undefined) {
+    return [{ locationId: single.locationId, quantity }]
+  }
+
+  const allocations: Array<LocationAllocation> = []
+  let remaining = quantity
+  for (const candidate of ranked) {
+    if (remaining === 0) break
+    const taken = Math.min(candidate.quantity, remaining)
+    allocations.push({ locationId: candidate.locationId, quantity: taken })
+    remaining -= taken
+  }
+  return remaining === 0 ? allocations : []
+}
@@ -1,4 +1,5 @@
 import { Schema } from "effect"
+import { BASE_CURRENCY, CurrencyCode } from "./FxRate.js"
 
 export const ProductId = Schema.UUID.pipe(Schema.brand("ProductId"))
 export type ProductId = typeof ProductId.Type
@@ -8,21 +9,48 @@ export const ProductIdParams = Schema.Struct({
   product_id: ProductId
 })
 
+// Schema for extracting the SKU from GET /products/by-sku/:sku path parameters
+export const ProductSkuParams = Schema.Struct({
+  sku: Schema.String.pipe(Schema.minLength(1))
+})
+
+// What happens when an order asks for more than is in stock
+// none: the reservation fails
+// backorder / preorder: the shortfall is held as a BACKORDERED reservation and filled
+// when stock arrives; the two differ only in how the storefront labels the product
+export const BackorderPolicy = Schema.Literal("none", "backorder", "preorder")
+export type BackorderPolicy = typeof BackorderPolicy.Type
+
 export class Product extends Schema.Class<Product>("Product")({
   id: ProductId,
   name: Schema.String,
   sku: Schema.String,
   priceCents: Schema.Int,
   stockQuantity: Schema.Int,
+  backorderPolicy: BackorderPolicy,
+  // Most units that may be backordered at once; null for no cap
+  backorderLimit: Schema.NullOr(Schema.Int),
   createdAt: Schema.DateTimeUtc,
-  updatedAt: Schema.DateTimeUtc
+  updatedAt: Schema.DateTimeUtc,
+  // Set when the product is archived; archived products cannot be reserved
+  archivedAt: Schema.NullOr(Schema.DateTimeUtc)
 }) {}
 
+const ProductName = Schema.String.pipe(
+  Schema.minLength(1, { message: () => "Product name cannot be empty" }),
+  Schema.maxLength(255, { message: () => "Product name cannot exceed 255 characters" })
+)
+
+const PriceCents = Schema.Int.pipe(
+  Schema.positive({ message: () => "Price must be positive" })
+)
+
+const BackorderLimit = Schema.Int.pipe(
+  Schema.nonNegative({ message: () => "Backorder limit cannot be negative" })
+)
+
 export class CreateProductRequest extends Schema.Class<CreateProductRequest>("CreateProductRequest")({
-  name: Schema.String.pipe(
-    Schema.minLength(1, { message: () => "Product name cannot be empty" }),
-    Schema.maxLength(255, { message: () => "Product name cannot exceed 255 characters" })
-  ),
+  name: ProductName,
   sku: Schema.String.pipe(
     Schema.minLength(1, { message: () => "SKU cannot be empty" }),
     Schema.maxLength(100, { message: () => "SKU cannot exceed 100 characters" }),
@@ -30,13 +58,68 @@ export class CreateProductRequest extends Schema.Class<CreateProductRequest>("Cr
       message: () => "SKU can only contain alphanumeric characters, hyphens, and underscores"
     })
   ),
-  priceCents: Schema.Int.pipe(
-    Schema.positive({ message: () => "Price must be positive" })
-  ),
+  priceCents: PriceCents,
   initialStock: Schema.optionalWith(
     Schema.Int.pipe(
       Schema.nonNegative({ message: () => "Initial stock cannot be negative" })
     ),
     { default: () => 0 }
+  ),
+  backorderPolicy: Schema.optionalWith(BackorderPolicy, { default: () => "none" as const }),
+  backorderLimit: Schema.optional(BackorderLimit)
+}) {}
+
+// Request schema for POST /products/prices - batch price lookup used by order pricing
+export class PriceLookupRequest extends Schema.Class<PriceLookupRequest>("PriceLookupRequest")({
+  productIds: Schema.Array(ProductId).pipe(
+    Schema.minItems(1, { message: () => "At least one product ID is required" }),
+    Schema.maxItems(100, { message: () => "Cannot look up more than 100 products at once" })
+  ),
+  // Prices are quoted in this currency, converted from the base currency
+  currency: Schema.optionalWith(CurrencyCode, { default: () => BASE_CURRENCY })
+}) {}
+
+// Request schema for POST /products/availability - batch stock lookup used by the order pre-check
+export class AvailabilityLookupRequest extends Schema.Class<AvailabilityLookupRequest>("AvailabilityLookupRequest")({
+  productIds: Schema.Array(ProductId).pipe(
+    Schema.minItems(1, { message: () => "At least one product ID is required" }),
+    Schema.maxItems(100, { message: () => "Cannot look up more than 100 products at once" })
   )
 }) {}
+
+// Request schema for PATCH /products/:product_id
+// expectedUpdatedAt is the updatedAt the client last read; the update is rejected if the product changed since
+export class UpdateProductRequest extends Schema.Class<UpdateProductRequest>("UpdateProductRequest")(
+  Schema.Struct({
+    name: Schema.optional(ProductName),
+    priceCents: Schema.optional(PriceCents),
+    backorderPolicy: Schema.optional(BackorderPolicy),
+    // null removes the cap
+    backorderLimit: Schema.optional(Schema.NullOr(BackorderLimit)),
+    expectedUpdatedAt: Schema.DateTimeUtc
+  }).pipe(
+    Schema.filter((request) =>
+      request.name !== undefined ||
+      request.priceCents !== undefined ||
+      request.backorderPolicy !== undefined ||
+      request.backorderLimit !== undefined
+        ? undefined
+        : "At least one of name, priceCents, backorderPolicy or backorderLimit is required"
+    )
+  )
+) {}
+
+// Query string schema for GET /products
+// cursor is the next_cursor of the previous page - the ID of its last product
+export const ListProductsParams = Schema.Struct({
+  // Case-insensitive substring match on the product name
+  q: Schema.optional(Schema.String.pipe(Schema.minLength(1), Schema.maxLength(255))),
+  sku_prefix: Schema.optional(Schema.String.pipe(Schema.minLength(1), Schema.maxLength(100))),
+  in_stock: Schema.optionalWith(Schema.BooleanFromString, { default: () => false }),
+  include_archived: Schema.optionalWith(Schema.BooleanFromString, { default: () => false }),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100)),
+    { default: () => 20 }
+  ),
+  cursor: Schema.optional(ProductId)
+})
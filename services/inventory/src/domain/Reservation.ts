@@ -1,12 +1,17 @@
 import { Schema } from "effect"
 import { ProductId } from "./Product.js"
+import { Destination, LocationId } from "./Location.js"
 
 // Branded type for reservation IDs
 export const ReservationId = Schema.UUID.pipe(Schema.brand("ReservationId"))
 export type ReservationId = typeof ReservationId.Type
 
 // Reservation status enum
-export const ReservationStatus = Schema.Literal("RESERVED", "RELEASED")
+// RESERVED: stock held for an in-flight order
+// BACKORDERED: the order is waiting on stock that has not arrived - nothing is held yet
+// COMMITTED: order confirmed - a permanent deduction
+// RELEASED: stock returned (compensation, cancellation or expiry)
+export const ReservationStatus = Schema.Literal("RESERVED", "BACKORDERED", "COMMITTED", "RELEASED")
 export type ReservationStatus = typeof ReservationStatus.Type
 
 // Domain model for a reservation
@@ -14,10 +19,18 @@ export class InventoryReservation extends Schema.Class<InventoryReservation>("In
   id: ReservationId,
   orderId: Schema.String,
   productId: ProductId,
+  // Location the stock is held at; a line item split across locations has one reservation per location.
+  // null while BACKORDERED - the location is only known once stock is allocated
+  locationId: Schema.NullOr(LocationId),
   quantity: Schema.Int.pipe(Schema.positive()),
   status: ReservationStatus,
   createdAt: Schema.DateTimeUtc,
-  releasedAt: Schema.NullOr(Schema.DateTimeUtc)
+  releasedAt: Schema.NullOr(Schema.DateTimeUtc),
+  committedAt: Schema.NullOr(Schema.DateTimeUtc),
+  // NULL once the saga holds the reservation - held reservations are never swept
+  expiresAt: Schema.NullOr(Schema.DateTimeUtc),
+  // Set when the reservation was created as a backorder, and kept once it is allocated
+  backorderedAt: Schema.NullOr(Schema.DateTimeUtc)
 }) {}
 
 // Request schema for a single item in the reserve request
@@ -29,10 +42,41 @@ export class ReserveItemRequest extends Schema.Class<ReserveItemRequest>("Reserv
 // Full request schema for the HTTP endpoint
 export class ReserveStockHttpRequest extends Schema.Class<ReserveStockHttpRequest>("ReserveStockHttpRequest")({
   orderId: Schema.UUID,
-  items: Schema.Array(ReserveItemRequest).pipe(Schema.minItems(1))
+  items: Schema.Array(ReserveItemRequest).pipe(Schema.minItems(1)),
+  // Stock is taken from the locations nearest to it; by location priority when omitted
+  destination: Schema.optional(Destination),
+  // Reserve what is available instead of failing the order when an item is short
+  allowPartial: Schema.optionalWith(Schema.Boolean, { default: () => false })
 }) {}
 
-// Path parameter schema for DELETE /reservations/:order_id
+// How much of a product an order asked for and how much was actually reserved (or backordered)
+export interface ReservationShortfall {
+  readonly productId: ProductId
+  readonly requestedQuantity: number
+  readonly reservedQuantity: number
+}
+
+/**
+ * The products an order's reservations don't fully cover. Computed from the
+ * reservations rather than remembered, so an idempotent retry reports the same shortfall.
+ */
+export const reservationShortfalls = (
+  items: ReadonlyArray<{ readonly productId: ProductId; readonly quantity: number }>,
+  reservations: ReadonlyArray<InventoryReservation>
+): ReadonlyArray<ReservationShortfall> => {
+  const requested = new Map<ProductId, number>()
+  for (const item of items) {
+    requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity)
+  }
+  return Array.from(requested.entries()).flatMap(([productId, requestedQuantity]) => {
+    const reservedQuantity = reservations
+      .filter((reservation) => reservation.productId === productId)
+      .reduce((sum, reservation) => sum + reservation.quantity, 0)
+    return reservedQuantity < requestedQuantity ? [{ productId, requestedQuantity, reservedQuantity }] : []
+  })
+}
+
+// Path parameter schema for DELETE /reservations/:order_id and the extend/commit endpoints
 export class OrderIdParams extends Schema.Class<OrderIdParams>("OrderIdParams")({
   order_id: Schema.UUID
 }) {}
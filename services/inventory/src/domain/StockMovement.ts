@@ -0,0 +1,48 @@
+import { Schema } from "effect"
+import { ProductId } from "./Product.js"
+
+// Kinds of stock movement, in the order they can happen to a unit of stock
+// adjustment: a row in inventory_adjustments (receiving, write-offs, counts, expiries)
+// reservation: stock taken by an order's reservation
+// release: stock returned when a reservation is released (compensation or cancellation)
+export const StockMovementType = Schema.Literal("adjustment", "reservation", "release")
+export type StockMovementType = typeof StockMovementType.Type
+
+// Movement IDs are "{type}:{source row id}" - a reservation yields two movements from one row
+export const StockMovementId = Schema.String.pipe(
+  Schema.pattern(/^(adjustment|reservation|release):[0-9a-fA-F-]{36}$/),
+  Schema.brand("StockMovementId")
+)
+export type StockMovementId = typeof StockMovementId.Type
+
+// Read model interleaving adjustments with reservation events for one product
+export class StockMovement extends Schema.Class<StockMovement>("StockMovement")({
+  id: StockMovementId,
+  productId: ProductId,
+  type: StockMovementType,
+  // Adjustment reason; null for reservation and release movements
+  reason: Schema.NullOr(Schema.String),
+  quantityChange: Schema.Int,
+  // Adjustment reference, or the order ID for reservation and release movements
+  referenceId: Schema.NullOr(Schema.String),
+  occurredAt: Schema.DateTimeUtc
+}) {}
+
+// Query string schema for GET /products/:product_id/movements
+// cursor is the next_cursor of the previous page - the ID of its last movement
+export const ListStockMovementsParams = Schema.Struct({
+  occurred_from: Schema.optional(Schema.DateTimeUtc),
+  occurred_to: Schema.optional(Schema.DateTimeUtc),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100)),
+    { default: () => 20 }
+  ),
+  cursor: Schema.optional(StockMovementId)
+})
+
+// Request schema for POST /stock/reconciliation
+// Omitting productIds checks every product; corrections are only written when asked for
+export class ReconcileStockRequest extends Schema.Class<ReconcileStockRequest>("ReconcileStockRequest")({
+  productIds: Schema.optional(Schema.Array(ProductId).pipe(Schema.minItems(1), Schema.maxItems(100))),
+  applyCorrections: Schema.optionalWith(Schema.Boolean, { default: () => false })
+}) {}
@@ -42,3 +42,67 @@ export class DuplicateAdjustmentError extends Data.TaggedError("DuplicateAdjustm
     readonly newQuantity: number
   }
 }> {}
+
+/**
+ * No reservations exist for the order.
+ * Returned when extending a reservation that was never made.
+ */
+export class ReservationNotFoundError extends Data.TaggedError("ReservationNotFoundError")<{
+  readonly orderId: string
+}> {}
+
+/**
+ * The order's reservations were already released (compensated or swept on expiry).
+ * The stock may have been sold to someone else, so the reservation cannot be revived.
+ */
+export class ReservationReleasedError extends Data.TaggedError("ReservationReleasedError")<{
+  readonly orderId: string
+}> {}
+
+/**
+ * No FX rate is configured for the requested currency.
+ * Prices are stored in the base currency, so they cannot be quoted in this one.
+ */
+export class UnsupportedCurrencyError extends Data.TaggedError("UnsupportedCurrencyError")<{
+  readonly currency: string
+}> {}
+
+/**
+ * The product was archived and can no longer be reserved or edited.
+ */
+export class ProductArchivedError extends Data.TaggedError("ProductArchivedError")<{
+  readonly productId: string
+}> {}
+
+/**
+ * The product changed after the client read it (optimistic concurrency check on updated_at).
+ * Includes the current updated_at so the client can re-read and retry.
+ */
+export class ProductUpdateConflictError extends Data.TaggedError("ProductUpdateConflictError")<{
+  readonly productId: string
+  readonly currentUpdatedAt: string
+}> {}
+
+/**
+ * No stock location exists with the given ID.
+ */
+export class LocationNotFoundError extends Data.TaggedError("LocationNotFoundError")<{
+  readonly locationId: string
+}> {}
+
+/**
+ * Attempted to create a location with a code that already exists.
+ * Includes the existing location ID for potential recovery/redirect.
+ */
+export class DuplicateLocationCodeError extends Data.TaggedError("DuplicateLocationCodeError")<{
+  readonly code: string
+  readonly existingLocationId: string
+}> {}
+
+/**
+ * A list cursor names no row of the listing.
+ * Without this check a stale or mistyped cursor reads as an empty last page.
+ */
+export class InvalidCursorError extends Data.TaggedError("InvalidCursorError")<{
+  readonly cursor: string
+}> {}
@@ -2,22 +2,36 @@ import { Layer } from "effect"
 import { DatabaseLive } from "./db.js"
 import { ProductRepositoryLive } from "./repositories/ProductRepositoryLive.js"
 import { StockAdjustmentRepositoryLive } from "./repositories/StockAdjustmentRepositoryLive.js"
+import { StockMovementRepositoryLive } from "./repositories/StockMovementRepositoryLive.js"
 import { ReservationRepositoryLive } from "./repositories/ReservationRepositoryLive.js"
+import { FxRateRepositoryLive } from "./repositories/FxRateRepositoryLive.js"
+import { LocationRepositoryLive } from "./repositories/LocationRepositoryLive.js"
 import { ProductServiceLive } from "./services/ProductServiceLive.js"
 import { InventoryServiceLive } from "./services/InventoryServiceLive.js"
+import { LocationServiceLive } from "./services/LocationServiceLive.js"
+import { ReservationSweeperLive } from "./sweeper.js"
+import { StockReconciliationLive } from "./reconciler.js"
 
 // Repository layer depends on database
 const RepositoryLive = Layer.mergeAll(
   ProductRepositoryLive,
   StockAdjustmentRepositoryLive,
-  ReservationRepositoryLive
+  StockMovementRepositoryLive,
+  ReservationRepositoryLive,
+  FxRateRepositoryLive,
+  LocationRepositoryLive
 ).pipe(Layer.provide(DatabaseLive))
 
 // Service layer depends on repositories
 const ServiceLive = Layer.mergeAll(
   ProductServiceLive,
-  InventoryServiceLive
+  InventoryServiceLive,
+  LocationServiceLive
 ).pipe(Layer.provide(RepositoryLive))
 
+// Background expiry sweeper and drift check depend on repositories
+const SweeperLive = ReservationSweeperLive.pipe(Layer.provide(RepositoryLive))
+const ReconcilerLive = StockReconciliationLive.pipe(Layer.provide(RepositoryLive))
+
 // Export composed application layer
-export const AppLive = Layer.mergeAll(DatabaseLive, ServiceLive)
+export const AppLive = Layer.mergeAll(DatabaseLive, ServiceLive, SweeperLive, ReconcilerLive)
@@ -0,0 +1,48 @@
+import { Config, Duration, Effect, Layer, Schedule } from "effect"
+import { StockMovementRepository } from "./repositories/StockMovementRepository.js"
+
+// Log at most this many product IDs per run; the rest are counted
+const MAX_LOGGED_PRODUCTS = 20
+
+/**
+ * Compare every product's stock_quantity with the sum of its movements.
+ * Report only: corrections are written through POST /stock/reconciliation.
+ */
+export const detectStockDrift = Effect.gen(function* () {
+  const stockMovementRepo = yield* StockMovementRepository
+  const discrepancies = yield* stockMovementRepo.findDiscrepancies()
+
+  if (discrepancies.length > 0) {
+    yield* Effect.logWarning("Stock drift detected", {
+      productCount: discrepancies.length,
+      products: discrepancies.slice(0, MAX_LOGGED_PRODUCTS).map((d) => ({
+        productId: d.productId,
+        sku: d.sku,
+        stockQuantity: d.stockQuantity,
+        expectedQuantity: d.expectedQuantity
+      }))
+    })
+  }
+
+  return discrepancies
+}).pipe(Effect.withSpan("detectStockDrift"))
+
+/**
+ * Background fiber that checks for stock drift every
+ * STOCK_RECONCILIATION_INTERVAL_MS. Errors are logged and the next tick retries.
+ */
+export const StockReconciliationLive = Layer.scopedDiscard(
+  Effect.gen(function* () {
+    const intervalMs = yield* Config.number("STOCK_RECONCILIATION_INTERVAL_MS").pipe(
+      Config.withDefault(3600000)
+    )
+
+    yield* Effect.logInfo("Starting stock reconciliation job", { intervalMs })
+
+    yield* detectStockDrift.pipe(
+      Effect.catchAll((error) => Effect.logError("Stock reconciliation failed", { error })),
+      Effect.repeat(Schedule.spaced(Duration.millis(intervalMs))),
+      Effect.forkScoped
+    )
+  })
+)
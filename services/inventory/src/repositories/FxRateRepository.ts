@@ -0,0 +1,10 @@
+import { Context, Effect, Option } from "effect"
+import { SqlError } from "@effect/sql"
+import type { FxRate } from "../domain/FxRate.js"
+
+export class FxRateRepository extends Context.Tag("FxRateRepository")<
+  FxRateRepository,
+  {
+    readonly findByCurrency: (currency: string) => Effect.Effect<Option.Option<FxRate>, SqlError.SqlError>
+  }
+>() {}
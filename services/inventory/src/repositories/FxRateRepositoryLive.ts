@@ -0,0 +1,37 @@
+import { Layer, Effect, Option, DateTime } from "effect"
+import { SqlClient } from "@effect/sql"
+import { FxRateRepository } from "./FxRateRepository.js"
+import { FxRate } from "../domain/FxRate.js"
+
+interface FxRateRow {
+  currency: string
+  // NUMERIC comes back from pg as a string to preserve precision
+  rate: string
+  updated_at: Date
+}
+
+const mapRowToFxRate = (row: FxRateRow): FxRate =>
+  new FxRate({
+    currency: row.currency,
+    rate: Number(row.rate),
+    updatedAt: DateTime.unsafeFromDate(row.updated_at)
+  })
+
+export const FxRateRepositoryLive = Layer.effect(
+  FxRateRepository,
+  Effect.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+
+    return {
+      findByCurrency: (currency: string) =>
+        Effect.gen(function* () {
+          const result = yield* sql<FxRateRow>`
+            SELECT currency, rate, updated_at FROM fx_rates WHERE currency = ${currency}
+          `
+          return result.length > 0
+            ? Option.some(mapRowToFxRate(result[0]))
+            : Option.none()
+        })
+    }
+  })
+)
@@ -0,0 +1,39 @@
+import { Context, Effect, Option } from "effect"
+import { SqlError } from "@effect/sql"
+import type { Location, LocationId } from "../domain/Location.js"
+import type { ProductId } from "../domain/Product.js"
+
+export interface CreateLocationRow {
+  readonly code: string
+  readonly name: string
+  readonly priority: number
+  readonly latitude: number | null
+  readonly longitude: number | null
+}
+
+// What one location holds of one product
+export interface LocationStockLevel {
+  readonly productId: ProductId
+  readonly locationId: LocationId
+  readonly locationCode: string
+  readonly quantity: number
+}
+
+export class LocationRepository extends Context.Tag("LocationRepository")<
+  LocationRepository,
+  {
+    readonly insert: (row: CreateLocationRow) => Effect.Effect<Location, SqlError.SqlError>
+    readonly findByCode: (code: string) => Effect.Effect<Option.Option<Location>, SqlError.SqlError>
+    /**
+     * Every location, in the order stock is taken from them without a destination.
+     */
+    readonly list: () => Effect.Effect<ReadonlyArray<Location>, SqlError.SqlError>
+    /**
+     * Per-location stock of the given products, ordered by product then location priority.
+     * Locations that never held a product have no row for it.
+     */
+    readonly findStockByProducts: (
+      productIds: ReadonlyArray<ProductId>
+    ) => Effect.Effect<ReadonlyArray<LocationStockLevel>, SqlError.SqlError>
+  }
+>() {}
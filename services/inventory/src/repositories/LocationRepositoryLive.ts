@@ -0,0 +1,91 @@
+import { Layer, Effect, Option, DateTime } from "effect"
+import { SqlClient } from "@effect/sql"
+import { LocationRepository, type CreateLocationRow } from "./LocationRepository.js"
+import { Location, type LocationId } from "../domain/Location.js"
+import type { ProductId } from "../domain/Product.js"
+
+interface LocationRow {
+  id: string
+  code: string
+  name: string
+  priority: number
+  // NUMERIC comes back from pg as a string to preserve precision
+  latitude: string | null
+  longitude: string | null
+  created_at: Date
+}
+
+interface LocationStockRow {
+  product_id: string
+  location_id: string
+  code: string
+  quantity: number
+}
+
+const mapRowToLocation = (row: LocationRow): Location =>
+  new Location({
+    id: row.id as LocationId,
+    code: row.code,
+    name: row.name,
+    priority: row.priority,
+    latitude: row.latitude === null ? null : Number(row.latitude),
+    longitude: row.longitude === null ? null : Number(row.longitude),
+    createdAt: DateTime.unsafeFromDate(row.created_at)
+  })
+
+export const LocationRepositoryLive = Layer.effect(
+  LocationRepository,
+  Effect.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+
+    return {
+      insert: (row: CreateLocationRow) =>
+        Effect.gen(function* () {
+          const result = yield* sql<LocationRow>`
+            INSERT INTO locations (code, name, priority, latitude, longitude)
+            VALUES (${row.code}, ${row.name}, ${row.priority}, ${row.latitude}, ${row.longitude})
+            RETURNING *
+          `
+          return mapRowToLocation(result[0])
+        }),
+
+      findByCode: (code: string) =>
+        Effect.gen(function* () {
+          const result = yield* sql<LocationRow>`
+            SELECT * FROM locations WHERE code = ${code}
+          `
+          return result.length > 0
+            ? Option.some(mapRowToLocation(result[0]))
+            : Option.none()
+        }),
+
+      list: () =>
+        Effect.gen(function* () {
+          const result = yield* sql<LocationRow>`
+            SELECT * FROM locations ORDER BY priority, code
+          `
+          return result.map(mapRowToLocation)
+        }),
+
+      findStockByProducts: (productIds: ReadonlyArray<ProductId>) =>
+        Effect.gen(function* () {
+          if (productIds.length === 0) {
+            return []
+          }
+          const result = yield* sql<LocationStockRow>`
+            SELECT ls.product_id::text AS product_id, ls.location_id::text AS location_id, l.code, ls.quantity
+            FROM location_stock ls
+            JOIN locations l ON l.id = ls.location_id
+            WHERE ls.product_id = ANY(${productIds}::uuid[])
+            ORDER BY ls.product_id, l.priority, l.code
+          `
+          return result.map((row) => ({
+            productId: row.product_id as ProductId,
+            locationId: row.location_id as LocationId,
+            locationCode: row.code,
+            quantity: row.quantity
+          }))
+        })
+    }
+  })
+)
@@ -1,12 +1,32 @@
 import { Context, Effect, Option } from "effect"
 import { SqlError } from "@effect/sql"
-import type { Product, ProductId } from "../domain/Product.js"
+import type { BackorderPolicy, Product, ProductId } from "../domain/Product.js"
 
 export interface CreateProductRow {
   readonly name: string
   readonly sku: string
   readonly priceCents: number
   readonly stockQuantity: number
+  readonly backorderPolicy: BackorderPolicy
+  readonly backorderLimit: number | null
+}
+
+export interface UpdateProductRow {
+  readonly name?: string
+  readonly priceCents?: number
+  readonly backorderPolicy?: BackorderPolicy
+  // null removes the cap; undefined leaves it unchanged
+  readonly backorderLimit?: number | null
+}
+
+export interface ListProductsQuery {
+  readonly nameContains?: string
+  readonly skuPrefix?: string
+  readonly inStockOnly: boolean
+  readonly includeArchived: boolean
+  // Return only products after this one in newest-first order
+  readonly after?: ProductId
+  readonly limit: number
 }
 
 export class ProductRepository extends Context.Tag("ProductRepository")<
@@ -15,6 +35,24 @@ export class ProductRepository extends Context.Tag("ProductRepository")<
     readonly insert: (row: CreateProductRow) => Effect.Effect<Product, SqlError.SqlError>
     readonly findById: (id: ProductId) => Effect.Effect<Option.Option<Product>, SqlError.SqlError>
     readonly findBySku: (sku: string) => Effect.Effect<Option.Option<Product>, SqlError.SqlError>
+    readonly findByIds: (ids: ReadonlyArray<ProductId>) => Effect.Effect<ReadonlyArray<Product>, SqlError.SqlError>
     readonly updateStock: (id: ProductId, quantity: number) => Effect.Effect<void, SqlError.SqlError>
+    /**
+     * Update name, price and/or backorder settings if the product is unarchived and its updated_at still equals
+     * expectedUpdatedAt. Returns None if either check fails.
+     */
+    readonly updateDetails: (
+      id: ProductId,
+      row: UpdateProductRow,
+      expectedUpdatedAt: Date
+    ) => Effect.Effect<Option.Option<Product>, SqlError.SqlError>
+    /**
+     * Set archived_at on an unarchived product. Returns None if it does not exist or is already archived.
+     */
+    readonly archive: (id: ProductId) => Effect.Effect<Option.Option<Product>, SqlError.SqlError>
+    /**
+     * Newest products first, keyset-paginated on (created_at, id).
+     */
+    readonly list: (query: ListProductsQuery) => Effect.Effect<ReadonlyArray<Product>, SqlError.SqlError>
   }
 >() {}
@@ -1,7 +1,13 @@
 import { Layer, Effect, Option, DateTime } from "effect"
 import { SqlClient } from "@effect/sql"
-import { ProductRepository, type CreateProductRow } from "./ProductRepository.js"
-import { Product, ProductId } from "../domain/Product.js"
+import {
+  ProductRepository,
+  type CreateProductRow,
+  type ListProductsQuery,
+  type UpdateProductRow
+} from "./ProductRepository.js"
+import { Product, ProductId, type BackorderPolicy } from "../domain/Product.js"
+import { DEFAULT_LOCATION_CODE } from "../domain/Location.js"
 
 interface ProductRow {
   id: string
@@ -9,10 +15,16 @@ interface ProductRow {
   sku: string
   price_cents: number
   stock_quantity: number
+  backorder_policy: string
+  backorder_limit: number | null
   created_at: Date
   updated_at: Date
+  archived_at: Date | null
 }
 
+// Escape LIKE wildcards so user input only ever matches literally
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, (char) => `\\${char}`)
+
 const mapRowToProduct = (row: ProductRow): Product =>
   new Product({
     id: row.id as ProductId,
@@ -20,8 +32,11 @@ const mapRowToProduct = (row: ProductRow): Product =>
     sku: row.sku,
     priceCents: row.price_cents,
     stockQuantity: row.stock_quantity,
+    backorderPolicy: row.backorder_policy as BackorderPolicy,
+    backorderLimit: row.backorder_limit,
     createdAt: DateTime.unsafeFromDate(row.created_at),
-    updatedAt: DateTime.unsafeFromDate(row.updated_at)
+    updatedAt: DateTime.unsafeFromDate(row.updated_at),
+    archivedAt: row.archived_at === null ? null : DateTime.unsafeFromDate(row.archived_at)
   })
 
 export const ProductRepositoryLive = Layer.effect(
@@ -32,10 +47,37 @@ export const ProductRepositoryLive = Layer.effect(
     return {
       insert: (row: CreateProductRow) =>
         Effect.gen(function* () {
+          // Initial stock is recorded as a movement in the same statement,
+          // so the audit trail accounts for every unit from the start.
+          // It is held at the default location until moved by adjustments.
           const result = yield* sql<ProductRow>`
-            INSERT INTO products (name, sku, price_cents, stock_quantity)
-            VALUES (${row.name}, ${row.sku}, ${row.priceCents}, ${row.stockQuantity})
-            RETURNING *
+            WITH inserted AS (
+              INSERT INTO products (name, sku, price_cents, stock_quantity, backorder_policy, backorder_limit)
+              VALUES (
+                ${row.name}, ${row.sku}, ${row.priceCents}, ${row.stockQuantity},
+                ${row.backorderPolicy}, ${row.backorderLimit}
+              )
+              RETURNING *
+            ),
+            default_location AS (
+              SELECT id FROM locations WHERE code = ${DEFAULT_LOCATION_CODE}
+            ),
+            initial_location_stock AS (
+              INSERT INTO location_stock (product_id, location_id, quantity)
+              SELECT i.id, dl.id, i.stock_quantity
+              FROM inserted i, default_location dl
+              WHERE i.stock_quantity > 0
+            ),
+            initial_stock AS (
+              INSERT INTO inventory_adjustments (
+                idempotency_key, product_id, quantity_change,
+                previous_quantity, new_quantity, reason, location_id
+              )
+              SELECT 'initial-stock-' || i.id, i.id, i.stock_quantity, 0, i.stock_quantity, 'initial_stock', dl.id
+              FROM inserted i, default_location dl
+              WHERE i.stock_quantity > 0
+            )
+            SELECT * FROM inserted
           `
           return mapRowToProduct(result[0])
         }),
@@ -60,6 +102,17 @@ export const ProductRepositoryLive = Layer.effect(
             : Option.none()
         }),
 
+      findByIds: (ids: ReadonlyArray<ProductId>) =>
+        Effect.gen(function* () {
+          if (ids.length === 0) {
+            return []
+          }
+          const result = yield* sql<ProductRow>`
+            SELECT * FROM products WHERE id = ANY(${ids}::uuid[])
+          `
+          return result.map(mapRowToProduct)
+        }),
+
       updateStock: (id: ProductId, quantity: number) =>
         Effect.gen(function* () {
           yield* sql`
@@ -67,6 +120,68 @@ export const ProductRepositoryLive = Layer.effect(
             SET stock_quantity = ${quantity}, updated_at = NOW()
             WHERE id = ${id}
           `
+        }),
+
+      updateDetails: (id: ProductId, row: UpdateProductRow, expectedUpdatedAt: Date) =>
+        Effect.gen(function* () {
+          // updated_at has microsecond precision but clients only ever saw milliseconds
+          const result = yield* sql<ProductRow>`
+            UPDATE products
+            SET name = COALESCE(${row.name ?? null}, name),
+                price_cents = COALESCE(${row.priceCents ?? null}, price_cents),
+                backorder_policy = COALESCE(${row.backorderPolicy ?? null}, backorder_policy),
+                -- The limit can be cleared, so null cannot mean "unchanged" here
+                backorder_limit = CASE WHEN ${row.backorderLimit !== undefined}
+                                       THEN ${row.backorderLimit ?? null}::int
+                                       ELSE backorder_limit END,
+                updated_at = NOW()
+            WHERE id = ${id}
+              AND archived_at IS NULL
+              AND date_trunc('milliseconds', updated_at) = ${expectedUpdatedAt}
+            RETURNING *
+          `
+          return result.length > 0
+            ? Option.some(mapRowToProduct(result[0]))
+            : Option.none()
+        }),
+
+      archive: (id: ProductId) =>
+        Effect.gen(function* () {
+          const result = yield* sql<ProductRow>`
+            UPDATE products
+            SET archived_at = NOW(), updated_at = NOW()
+            WHERE id = ${id} AND archived_at IS NULL
+            RETURNING *
+          `
+          return result.length > 0
+            ? Option.some(mapRowToProduct(result[0]))
+            : Option.none()
+        }),
+
+      list: (query: ListProductsQuery) =>
+        Effect.gen(function* () {
+          const conditions = [
+            ...(query.includeArchived ? [] : [sql`archived_at IS NULL`]),
+            ...(query.nameContains !== undefined
+              ? [sql`name ILIKE ${`%${escapeLike(query.nameContains)}%`}`]
+              : []),
+            ...(query.skuPrefix !== undefined
+              ? [sql`sku LIKE ${`${escapeLike(query.skuPrefix)}%`}`]
+              : []),
+            ...(query.inStockOnly ? [sql`stock_quantity > 0`] : []),
+            // Resolve the cursor's position in SQL so it keeps the column's full precision
+            ...(query.after !== undefined
+              ? [sql`(created_at, id) < (SELECT created_at, id FROM products WHERE id = ${query.after})`]
+              : [])
+          ]
+
+          const result = yield* sql<ProductRow>`
+            SELECT * FROM products
+            WHERE ${sql.and(conditions)}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${query.limit}
+          `
+          return result.map(mapRowToProduct)
         })
     }
   })
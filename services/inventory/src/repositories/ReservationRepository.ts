@@ -2,6 +2,7 @@ import { Context, Effect } from "effect"
 import { SqlError } from "@effect/sql"
 import type { ProductId } from "../domain/Product.js"
 import type { InventoryReservation } from "../domain/Reservation.js"
+import type { Destination } from "../domain/Location.js"
 
 // Input type for a single reservation item
 export interface ReserveItemInput {
@@ -13,8 +14,10 @@ export interface ReserveItemInput {
 export type AtomicReserveResult =
   | { readonly _tag: "Reserved"; readonly reservations: ReadonlyArray<InventoryReservation> }
   | { readonly _tag: "AlreadyReserved"; readonly reservations: ReadonlyArray<InventoryReservation> }
+  // available is the product's stock summed across every location, plus whatever may still be backordered
   | { readonly _tag: "InsufficientStock"; readonly productId: string; readonly productSku: string; readonly requested: number; readonly available: number }
   | { readonly _tag: "ProductNotFound"; readonly productId: string }
+  | { readonly _tag: "ProductArchived"; readonly productId: string }
 
 // Result type for release operation
 export interface ReleaseReservationResult {
@@ -23,17 +26,54 @@ export interface ReleaseReservationResult {
   readonly wasAlreadyReleased: boolean
 }
 
+// Result type for extend operation - discriminated union
+export type ExtendReservationResult =
+  | { readonly _tag: "Extended"; readonly reservations: ReadonlyArray<InventoryReservation> }
+  | { readonly _tag: "AlreadyReleased" }
+  | { readonly _tag: "NotFound" }
+
+// Result type for commit operation - discriminated union
+export type CommitReservationResult =
+  | { readonly _tag: "Committed"; readonly reservations: ReadonlyArray<InventoryReservation> }
+  | { readonly _tag: "AlreadyCommitted"; readonly reservations: ReadonlyArray<InventoryReservation> }
+  | { readonly _tag: "AlreadyReleased" }
+  | { readonly _tag: "NotFound" }
+
+// Units of a product held as BACKORDERED reservations
+export interface BackorderedQuantity {
+  readonly productId: ProductId
+  readonly quantity: number
+}
+
+// Result type for a single sweep of expired reservations
+export interface ReleaseExpiredResult {
+  readonly releasedCount: number
+  readonly totalQuantityRestored: number
+  readonly orderIds: ReadonlyArray<string>
+}
+
 export class ReservationRepository extends Context.Tag("ReservationRepository")<
   ReservationRepository,
   {
     /**
      * Atomically reserve stock for multiple items in a single transaction.
      * Uses SELECT FOR UPDATE to prevent oversell.
+     * New reservations expire ttlSeconds from now unless extended.
+     * Each item is taken from the locations nearest to destination (by location
+     * priority when null), split across locations only when no single one holds enough.
+     * Writes a reservation adjustment per reservation so the stock movement is audited.
+     * An item short of stock fails the order unless its product takes backorders: then
+     * everything in stock is reserved and the shortfall held as a BACKORDERED reservation,
+     * up to the product's backorder limit. With allowPartial, a short item takes what
+     * there is instead, possibly nothing; the order fails only if nothing at all is reserved.
      * Returns discriminated union indicating success or specific failure reason.
      */
     readonly reserveStockAtomic: (
       orderId: string,
-      items: ReadonlyArray<ReserveItemInput>
+      items: ReadonlyArray<ReserveItemInput>,
+      ttlSeconds: number,
+      destination: Destination | null,
+      allowPartial: boolean
     ) => Effect.Effect<AtomicReserveResult, SqlError.SqlError>
 
     /**
@@ -43,13 +83,50 @@ export class ReservationRepository extends Context.Tag("ReservationRepository")<
       orderId: string
     ) => Effect.Effect<ReadonlyArray<InventoryReservation>, SqlError.SqlError>
 
+    /**
+     * Units each product has waiting on stock. Products with no backorders are omitted.
+     */
+    readonly sumBackorderedByProducts: (
+      productIds: ReadonlyArray<ProductId>
+    ) => Effect.Effect<ReadonlyArray<BackorderedQuantity>, SqlError.SqlError>
+
     /**
      * Release all reservations for an order (compensation action).
-     * Updates status to RELEASED and restores stock quantities.
+     * Updates RESERVED, BACKORDERED and COMMITTED rows to RELEASED, restores stock
+     * quantities at the location each reservation was taken from and writes a
+     * reservation_released adjustment per reservation. Backorders hold no stock,
+     * so releasing them only changes their status.
      * Returns details about what was released for logging/debugging.
      */
     readonly releaseByOrderId: (
       orderId: string
     ) => Effect.Effect<ReleaseReservationResult, SqlError.SqlError>
+
+    /**
+     * Clear the expiry on an order's RESERVED and BACKORDERED reservations so the
+     * sweeper never releases them. Idempotent: extending an already-extended order succeeds.
+     */
+    readonly extendByOrderId: (
+      orderId: string
+    ) => Effect.Effect<ExtendReservationResult, SqlError.SqlError>
+
+    /**
+     * Turn an order's RESERVED reservations into permanent deductions (COMMITTED).
+     * Its backorders are marked committed and become COMMITTED when stock is allocated.
+     * Idempotent: committing an already-committed order returns AlreadyCommitted.
+     */
+    readonly commitByOrderId: (
+      orderId: string
+    ) => Effect.Effect<CommitReservationResult, SqlError.SqlError>
+
+    /**
+     * Release up to batchSize RESERVED or BACKORDERED reservations whose expiry has passed.
+     * Restores stock to its location and writes a reservation_expired adjustment per
+     * reservation; expired backorders held no stock and are only marked released.
+     * Uses SKIP LOCKED so concurrent sweepers never release the same row twice.
+     */
+    readonly releaseExpired: (
+      batchSize: number
+    ) => Effect.Effect<ReleaseExpiredResult, SqlError.SqlError>
   }
 >() {}
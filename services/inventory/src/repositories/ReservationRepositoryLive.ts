@@ -1,24 +1,55 @@
 import { Layer, Effect, DateTime, Schema } from "effect"
 import { SqlClient } from "@effect/sql"
-import { ReservationRepository, type ReserveItemInput } from "./ReservationRepository.js"
+import { ReservationRepository, type AtomicReserveResult, type ReserveItemInput } from "./ReservationRepository.js"
 import { InventoryReservation, ReservationId, ReservationStatus } from "../domain/Reservation.js"
-import { ProductId } from "../domain/Product.js"
+import { ProductId, type BackorderPolicy } from "../domain/Product.js"
+import { backorderHeadroom } from "../domain/Backorder.js"
+import {
+  LocationId,
+  allocateAcrossLocations,
+  type Destination,
+  type LocationAllocation,
+  type LocationStockCandidate
+} from "../domain/Location.js"
 
 // Row types for database results
 interface ProductStockRow {
   id: string
   sku: string
   stock_quantity: number
+  backorder_policy: string
+  backorder_limit: number | null
+  archived_at: Date | null
 }
 
 interface ReservationRow {
   id: string
   order_id: string
   product_id: string
+  location_id: string | null
   quantity: number
   status: string
   created_at: Date
   released_at: Date | null
+  committed_at: Date | null
+  expires_at: Date | null
+  backordered_at: Date | null
+}
+
+interface StockChangeRow {
+  previous_quantity: number
+  new_quantity: number
+}
+
+interface LocationStockRow {
+  product_id: string
+  location_id: string
+  code: string
+  priority: number
+  // NUMERIC comes back from pg as a string to preserve precision
+  latitude: string | null
+  longitude: string | null
+  quantity: number
 }
 
 export const ReservationRepositoryLive = Layer.effect(
@@ -33,32 +64,69 @@ export const ReservationRepositoryLive = Layer.effect(
         id: Schema.decodeUnknownSync(ReservationId)(row.id),
         orderId: row.order_id,
         productId: Schema.decodeUnknownSync(ProductId)(row.product_id),
+        locationId: row.location_id === null ? null : Schema.decodeUnknownSync(LocationId)(row.location_id),
         quantity: row.quantity,
         status: Schema.decodeUnknownSync(ReservationStatus)(row.status),
         createdAt: DateTime.unsafeFromDate(row.created_at),
-        releasedAt: row.released_at ? DateTime.unsafeFromDate(row.released_at) : null
+        releasedAt: row.released_at ? DateTime.unsafeFromDate(row.released_at) : null,
+        committedAt: row.committed_at ? DateTime.unsafeFromDate(row.committed_at) : null,
+        expiresAt: row.expires_at ? DateTime.unsafeFromDate(row.expires_at) : null,
+        backorderedAt: row.backordered_at ? DateTime.unsafeFromDate(row.backordered_at) : null
       })
     }
 
+    const toCandidate = (row: LocationStockRow): LocationStockCandidate => ({
+      locationId: row.location_id as LocationId,
+      code: row.code,
+      priority: row.priority,
+      latitude: row.latitude === null ? null : Number(row.latitude),
+      longitude: row.longitude === null ? null : Number(row.longitude),
+      quantity: row.quantity
+    })
+
+    // Put a reservation's stock back at the location it was taken from.
+    // An upsert, because the location may hold no row for the product if stock
+    // was reserved before locations existed
+    const restoreLocationStock = (res: ReservationRow) =>
+      sql`
+        INSERT INTO location_stock (product_id, location_id, quantity)
+        VALUES (${res.product_id}::uuid, ${res.location_id}::uuid, ${res.quantity})
+        ON CONFLICT (product_id, location_id) DO UPDATE
+        SET quantity = location_stock.quantity + EXCLUDED.quantity,
+            updated_at = NOW()
+      `
+
     return {
-      reserveStockAtomic: (orderId: string, items: ReadonlyArray<ReserveItemInput>) =>
+      reserveStockAtomic: (
+        orderId: string,
+        items: ReadonlyArray<ReserveItemInput>,
+        ttlSeconds: number,
+        destination: Destination | null,
+        allowPartial: boolean
+      ) =>
         // IMPORTANT: Multiple SQL statements in Effect.gen do NOT automatically share a transaction.
         // We MUST use sql.withTransaction to ensure all operations are atomic.
         // Without this, SELECT FOR UPDATE locks would be released between statements, allowing oversell.
         sql.withTransaction(
           Effect.gen(function* () {
+            // Lines for the same product are reserved as one - allocations and backorders are kept per product.
             // Sort product IDs to ensure consistent lock ordering (prevents deadlocks)
-            const sortedItems = [...items].sort((a, b) =>
+            const quantities = new Map<ProductId, number>()
+            for (const item of items) {
+              quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity)
+            }
+            const sortedItems = Array.from(quantities, ([productId, quantity]) => ({ productId, quantity })).sort((a, b) =>
               a.productId.localeCompare(b.productId)
             )
             const productIds = sortedItems.map(item => item.productId)
 
             // Step 1: Check for existing reservations (idempotency)
             const existingReservations = yield* sql<ReservationRow>`
-              SELECT id, order_id, product_id, quantity, status, created_at, released_at
+              SELECT id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                     expires_at, backordered_at
               FROM inventory_reservations
               WHERE order_id = ${orderId}::uuid
-                AND status = 'RESERVED'
+                AND status IN ('RESERVED', 'BACKORDERED', 'COMMITTED')
             `
 
             if (existingReservations.length > 0) {
@@ -69,60 +137,190 @@ export const ReservationRepositoryLive = Layer.effect(
 
             // Step 2: Lock product rows and get current stock (SELECT FOR UPDATE)
             const products = yield* sql<ProductStockRow>`
-              SELECT id, sku, stock_quantity
+              SELECT id, sku, stock_quantity, backorder_policy, backorder_limit, archived_at
               FROM products
               WHERE id = ANY(${productIds}::uuid[])
               ORDER BY id
               FOR UPDATE
             `
 
-            // Step 3: Verify all products exist
+            // Step 3: Verify all products exist and are still sold
             const productMap = new Map(products.map(p => [p.id, p]))
             for (const item of sortedItems) {
-              if (!productMap.has(item.productId)) {
+              const product = productMap.get(item.productId)
+              if (!product) {
                 return { _tag: "ProductNotFound", productId: item.productId } as const
               }
+              if (product.archived_at !== null) {
+                return { _tag: "ProductArchived", productId: item.productId } as const
+              }
             }
 
-            // Step 4: Verify sufficient stock for all items
+            // Units already waiting on stock, which count against each product's backorder limit
+            const backordered = yield* sql<{ product_id: string; quantity: number }>`
+              SELECT product_id, SUM(quantity)::int AS quantity
+              FROM inventory_reservations
+              WHERE product_id = ANY(${productIds}::uuid[])
+                AND status = 'BACKORDERED'
+              GROUP BY product_id
+            `
+            const backorderedByProduct = new Map(backordered.map(row => [row.product_id, row.quantity]))
+
+            // Step 4: Lock each product's stock at every location (after the products - same lock order
+            // as the stock adjustments) and decide where each item is taken from
+            const locationStock = yield* sql<LocationStockRow>`
+              SELECT ls.product_id, ls.location_id, l.code, l.priority, l.latitude, l.longitude, ls.quantity
+              FROM location_stock ls
+              JOIN locations l ON l.id = ls.location_id
+              WHERE ls.product_id = ANY(${productIds}::uuid[])
+                AND ls.quantity > 0
+              ORDER BY ls.product_id, ls.location_id
+              FOR UPDATE OF ls
+            `
+
+            const allocations = new Map<string, ReadonlyArray<LocationAllocation>>()
+            // Part of each item held as a backorder
+            const backorders = new Map<string, number>()
+            // First item that couldn't be filled, reported if a partial order ends up with nothing
+            let firstShort: Extract<AtomicReserveResult, { _tag: "InsufficientStock" }> | null = null
             for (const item of sortedItems) {
               const product = productMap.get(item.productId)!
-              if (product.stock_quantity < item.quantity) {
-                return {
+              const candidates = locationStock
+                .filter(row => row.product_id === item.productId)
+                .map(toCandidate)
+              const allocation = allocateAcrossLocations(item.quantity, candidates, destination)
+              if (allocation.length > 0) {
+                allocations.set(item.productId, allocation)
+                continue
+              }
+
+              // Short - take everything in stock and backorder the rest, if the product allows it
+              const inStock = candidates.reduce((sum, candidate) => sum + candidate.quantity, 0)
+              const headroom = backorderHeadroom(
+                product.backorder_policy as BackorderPolicy,
+                product.backorder_limit,
+                backorderedByProduct.get(item.productId) ?? 0
+              )
+              const shortfall = item.quantity - inStock
+              // A partial order takes whatever stock and backorder headroom there is
+              let backorderQuantity = shortfall
+              if (headroom !== null && shortfall > headroom) {
+                const insufficient = {
                   _tag: "InsufficientStock",
                   productId: item.productId,
                   productSku: product.sku,
                   requested: item.quantity,
-                  available: product.stock_quantity
+                  available: inStock + headroom
                 } as const
+                if (!allowPartial) {
+                  return insufficient
+                }
+                firstShort ??= insufficient
+                backorderQuantity = headroom
+              }
+              allocations.set(item.productId, allocateAcrossLocations(inStock, candidates, destination))
+              if (backorderQuantity > 0) {
+                backorders.set(item.productId, backorderQuantity)
               }
             }
 
-            // Step 5: Decrement stock for all products
+            // Nothing at all could be reserved - a partial order still fails
+            const anythingReserved = sortedItems.some(item =>
+              allocations.get(item.productId)!.length > 0 || backorders.has(item.productId)
+            )
+            if (!anythingReserved && firstShort !== null) {
+              return firstShort
+            }
+
+            // Step 5: Decrement stock for all products, in total and at each allocated location
+            // A backordered or partially filled item takes only what is in stock
+            const stockChanges = new Map<string, StockChangeRow>()
             for (const item of sortedItems) {
-              yield* sql`
+              const allocated = allocations.get(item.productId)!.reduce((sum, allocation) => sum + allocation.quantity, 0)
+              if (allocated === 0) continue
+
+              const stock = yield* sql<StockChangeRow>`
                 UPDATE products
-                SET stock_quantity = stock_quantity - ${item.quantity},
+                SET stock_quantity = stock_quantity - ${allocated},
                     updated_at = NOW()
                 WHERE id = ${item.productId}::uuid
+                RETURNING stock_quantity + ${allocated} AS previous_quantity,
+                          stock_quantity AS new_quantity
               `
+              stockChanges.set(item.productId, stock[0])
+
+              for (const allocation of allocations.get(item.productId)!) {
+                yield* sql`
+                  UPDATE location_stock
+                  SET quantity = quantity - ${allocation.quantity},
+                      updated_at = NOW()
+                  WHERE product_id = ${item.productId}::uuid
+                    AND location_id = ${allocation.locationId}::uuid
+                `
+              }
             }
 
-            // Step 6: Insert reservation records
+            // Step 6: Insert a reservation per allocated location, each with its stock movement,
+            // and a BACKORDERED reservation for any backordered part
             const reservations: InventoryReservation[] = []
             for (const item of sortedItems) {
-              const inserted = yield* sql<ReservationRow>`
-                INSERT INTO inventory_reservations (order_id, product_id, quantity, status)
-                VALUES (${orderId}::uuid, ${item.productId}::uuid, ${item.quantity}, 'RESERVED')
-                RETURNING id, order_id, product_id, quantity, status, created_at, released_at
-              `
-              // INSERT with RETURNING should always return exactly 1 row
-              if (inserted.length !== 1) {
-                return yield* Effect.die(
-                  new Error(`INSERT reservation failed: expected 1 row, got ${inserted.length}`)
-                )
+              // The movements of a split item step the product's total down one location at a time
+              let quantityBefore = stockChanges.get(item.productId)?.previous_quantity ?? 0
+
+              for (const allocation of allocations.get(item.productId)!) {
+                const inserted = yield* sql<ReservationRow>`
+                  INSERT INTO inventory_reservations (order_id, product_id, location_id, quantity, status, expires_at)
+                  VALUES (
+                    ${orderId}::uuid, ${item.productId}::uuid, ${allocation.locationId}::uuid, ${allocation.quantity},
+                    'RESERVED', NOW() + make_interval(secs => ${ttlSeconds})
+                  )
+                  RETURNING id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                            expires_at, backordered_at
+                `
+                // INSERT with RETURNING should always return exactly 1 row
+                if (inserted.length !== 1) {
+                  return yield* Effect.die(
+                    new Error(`INSERT reservation failed: expected 1 row, got ${inserted.length}`)
+                  )
+                }
+                reservations.push(mapRowToReservation(inserted[0]))
+
+                yield* sql`
+                  INSERT INTO inventory_adjustments (
+                    idempotency_key, product_id, quantity_change,
+                    previous_quantity, new_quantity, reason, reference_id, location_id
+                  )
+                  VALUES (
+                    ${`reservation-${inserted[0].id}`},
+                    ${item.productId}::uuid,
+                    ${-allocation.quantity},
+                    ${quantityBefore},
+                    ${quantityBefore - allocation.quantity},
+                    'reservation',
+                    ${orderId},
+                    ${allocation.locationId}::uuid
+                  )
+                `
+                quantityBefore -= allocation.quantity
+              }
+
+              // No stock moves until the backorder is allocated, so it has no adjustment yet.
+              // It expires like any reservation, until the saga holds it
+              const backorderQuantity = backorders.get(item.productId)
+              if (backorderQuantity !== undefined) {
+                const backorder = yield* sql<ReservationRow>`
+                  INSERT INTO inventory_reservations (
+                    order_id, product_id, location_id, quantity, status, expires_at, backordered_at
+                  )
+                  VALUES (
+                    ${orderId}::uuid, ${item.productId}::uuid, NULL, ${backorderQuantity},
+                    'BACKORDERED', NOW() + make_interval(secs => ${ttlSeconds}), NOW()
+                  )
+                  RETURNING id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                            expires_at, backordered_at
+                `
+                reservations.push(mapRowToReservation(backorder[0]))
               }
-              reservations.push(mapRowToReservation(inserted[0]))
             }
 
             return { _tag: "Reserved", reservations } as const
@@ -132,23 +330,39 @@ export const ReservationRepositoryLive = Layer.effect(
       findByOrderId: (orderId: string) =>
         Effect.gen(function* () {
           const rows = yield* sql<ReservationRow>`
-            SELECT id, order_id, product_id, quantity, status, created_at, released_at
+            SELECT id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                   expires_at, backordered_at
             FROM inventory_reservations
             WHERE order_id = ${orderId}::uuid
           `
           return rows.map(mapRowToReservation)
         }),
 
+      sumBackorderedByProducts: (productIds: ReadonlyArray<ProductId>) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<{ product_id: string; quantity: number }>`
+            SELECT product_id::text AS product_id, SUM(quantity)::int AS quantity
+            FROM inventory_reservations
+            WHERE product_id = ANY(${productIds}::uuid[])
+              AND status = 'BACKORDERED'
+            GROUP BY product_id
+          `
+          return rows.map((row) => ({ productId: row.product_id as ProductId, quantity: row.quantity }))
+        }),
+
       releaseByOrderId: (orderId: string) =>
         // Transaction ensures stock restoration and status update are atomic
         sql.withTransaction(
           Effect.gen(function* () {
             // Step 1: Get reservations to release (lock for update)
+            // COMMITTED stock is returned too - a confirmed order can still be cancelled.
+            // Backorders are locked before any product row, as addStockAtomic does
             const reservations = yield* sql<ReservationRow>`
-              SELECT id, order_id, product_id, quantity, status, created_at, released_at
+              SELECT id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                     expires_at, backordered_at
               FROM inventory_reservations
               WHERE order_id = ${orderId}::uuid
-                AND status = 'RESERVED'
+                AND status IN ('RESERVED', 'BACKORDERED', 'COMMITTED')
               FOR UPDATE
             `
 
@@ -170,19 +384,41 @@ export const ReservationRepositoryLive = Layer.effect(
               }
             }
 
-            // Step 2: Calculate total quantity to restore
-            const totalQuantityRestored = reservations.reduce(
+            // Step 2: Calculate total quantity to restore - backorders hold no stock
+            const holdingStock = reservations.filter(res => res.status !== "BACKORDERED")
+            const totalQuantityRestored = holdingStock.reduce(
               (sum, res) => sum + res.quantity,
               0
             )
 
-            // Step 3: Restore stock for each reservation
-            for (const res of reservations) {
-              yield* sql`
+            // Step 3: Restore stock and record the movement for each reservation
+            for (const res of holdingStock) {
+              const stock = yield* sql<StockChangeRow>`
                 UPDATE products
                 SET stock_quantity = stock_quantity + ${res.quantity},
                     updated_at = NOW()
                 WHERE id = ${res.product_id}::uuid
+                RETURNING stock_quantity - ${res.quantity} AS previous_quantity,
+                          stock_quantity AS new_quantity
+              `
+              yield* restoreLocationStock(res)
+
+              // A reservation is released at most once, so its ID keys the movement
+              yield* sql`
+                INSERT INTO inventory_adjustments (
+                  idempotency_key, product_id, quantity_change,
+                  previous_quantity, new_quantity, reason, reference_id, location_id
+                )
+                VALUES (
+                  ${`reservation-released-${res.id}`},
+                  ${res.product_id}::uuid,
+                  ${res.quantity},
+                  ${stock[0].previous_quantity},
+                  ${stock[0].new_quantity},
+                  'reservation_released',
+                  ${res.order_id},
+                  ${res.location_id}::uuid
+                )
               `
             }
 
@@ -192,7 +428,7 @@ export const ReservationRepositoryLive = Layer.effect(
               SET status = 'RELEASED',
                   released_at = NOW()
               WHERE order_id = ${orderId}::uuid
-                AND status = 'RESERVED'
+                AND status IN ('RESERVED', 'BACKORDERED', 'COMMITTED')
             `
 
             return {
@@ -201,6 +437,149 @@ export const ReservationRepositoryLive = Layer.effect(
               wasAlreadyReleased: false
             }
           })
+        ),
+
+      extendByOrderId: (orderId: string) =>
+        Effect.gen(function* () {
+          // Single statement - clearing the expiry and checking the status are atomic
+          // COMMITTED reservations never expire, so extending them is a no-op success.
+          // Backorders are held too, so they keep their place in the queue until stock arrives
+          const extended = yield* sql<ReservationRow>`
+            UPDATE inventory_reservations
+            SET expires_at = NULL
+            WHERE order_id = ${orderId}::uuid
+              AND status IN ('RESERVED', 'BACKORDERED', 'COMMITTED')
+            RETURNING id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                      expires_at, backordered_at
+          `
+
+          if (extended.length > 0) {
+            return { _tag: "Extended", reservations: extended.map(mapRowToReservation) } as const
+          }
+
+          // Nothing live to extend - distinguish "released/expired" from "never reserved"
+          const existing = yield* sql<{ count: number }>`
+            SELECT COUNT(*)::int AS count
+            FROM inventory_reservations
+            WHERE order_id = ${orderId}::uuid
+          `
+          return existing[0]?.count > 0
+            ? { _tag: "AlreadyReleased" } as const
+            : { _tag: "NotFound" } as const
+        }),
+
+      commitByOrderId: (orderId: string) =>
+        Effect.gen(function* () {
+          // Stock was already decremented at reserve time - committing only changes the status.
+          // A backorder stays BACKORDERED but is marked committed, and becomes COMMITTED once allocated
+          const committed = yield* sql<ReservationRow>`
+            UPDATE inventory_reservations
+            SET status = CASE WHEN status = 'BACKORDERED' THEN status ELSE 'COMMITTED' END,
+                committed_at = NOW(),
+                expires_at = NULL
+            WHERE order_id = ${orderId}::uuid
+              AND status IN ('RESERVED', 'BACKORDERED')
+              AND committed_at IS NULL
+            RETURNING id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                      expires_at, backordered_at
+          `
+
+          if (committed.length > 0) {
+            return { _tag: "Committed", reservations: committed.map(mapRowToReservation) } as const
+          }
+
+          // Nothing left to commit - idempotent retry, released, or never reserved
+          const existing = yield* sql<ReservationRow>`
+            SELECT id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                   expires_at, backordered_at
+            FROM inventory_reservations
+            WHERE order_id = ${orderId}::uuid
+          `
+          if (existing.length === 0) {
+            return { _tag: "NotFound" } as const
+          }
+          const alreadyCommitted = existing.filter(row => row.status !== "RELEASED" && row.committed_at !== null)
+          return alreadyCommitted.length > 0
+            ? { _tag: "AlreadyCommitted", reservations: alreadyCommitted.map(mapRowToReservation) } as const
+            : { _tag: "AlreadyReleased" } as const
+        }),
+
+      releaseExpired: (batchSize: number) =>
+        // Transaction ensures stock restoration, audit rows and status update are atomic
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // Step 1: Claim expired reservations (SKIP LOCKED - concurrent sweepers take disjoint rows)
+            const expired = yield* sql<ReservationRow>`
+              SELECT id, order_id, product_id, location_id, quantity, status, created_at, released_at, committed_at,
+                     expires_at, backordered_at
+              FROM inventory_reservations
+              WHERE status IN ('RESERVED', 'BACKORDERED')
+                AND expires_at <= NOW()
+              ORDER BY expires_at
+              LIMIT ${batchSize}
+              FOR UPDATE SKIP LOCKED
+            `
+
+            if (expired.length === 0) {
+              return { releasedCount: 0, totalQuantityRestored: 0, orderIds: [] }
+            }
+
+            // Step 2: Restore stock and record an adjustment for each reservation - backorders hold none
+            // Sort by product ID to lock products in the same order as reserveStockAtomic
+            const holdingStock = expired.filter(res => res.status !== "BACKORDERED")
+            const sorted = [...holdingStock].sort((a, b) => a.product_id.localeCompare(b.product_id))
+            for (const res of sorted) {
+              const stock = yield* sql<StockChangeRow>`
+                UPDATE products
+                SET stock_quantity = stock_quantity + ${res.quantity},
+                    updated_at = NOW()
+                WHERE id = ${res.product_id}::uuid
+                RETURNING stock_quantity - ${res.quantity} AS previous_quantity,
+                          stock_quantity AS new_quantity
+              `
+              if (stock.length !== 1) {
+                return yield* Effect.die(
+                  new Error(`Restoring stock for reservation ${res.id} failed: product ${res.product_id} not found`)
+                )
+              }
+              yield* restoreLocationStock(res)
+
+              // Idempotency key derived from the reservation - a row can only expire once
+              yield* sql`
+                INSERT INTO inventory_adjustments (
+                  idempotency_key, product_id, quantity_change,
+                  previous_quantity, new_quantity, reason,
+                  reference_id, notes, location_id
+                )
+                VALUES (
+                  ${`reservation-expired-${res.id}`},
+                  ${res.product_id}::uuid,
+                  ${res.quantity},
+                  ${stock[0].previous_quantity},
+                  ${stock[0].new_quantity},
+                  'reservation_expired',
+                  ${res.order_id},
+                  'Reservation expired before it was extended',
+                  ${res.location_id}::uuid
+                )
+              `
+            }
+
+            // Step 3: Mark the claimed reservations as released
+            const ids = expired.map(res => res.id)
+            yield* sql`
+              UPDATE inventory_reservations
+              SET status = 'RELEASED',
+                  released_at = NOW()
+              WHERE id = ANY(${ids}::uuid[])
+            `
+
+            return {
+              releasedCount: expired.length,
+              totalQuantityRestored: holdingStock.reduce((sum, res) => sum + res.quantity, 0),
+              orderIds: Array.from(new Set(expired.map(res => res.order_id)))
+            }
+          })
         )
     }
   })
@@ -1,11 +1,21 @@
-import { Context, Effect } from "effect"
+import { Context, DateTime, Effect } from "effect"
 import { SqlError } from "@effect/sql"
-import type { InventoryAdjustment, AdjustmentReason } from "../domain/Adjustment.js"
+import type {
+  AdjustmentId,
+  InventoryAdjustment,
+  AdjustmentReason,
+  StockAdjustmentReason,
+  SystemAdjustmentReason
+} from "../domain/Adjustment.js"
 import type { ProductId } from "../domain/Product.js"
+import type { LocationId } from "../domain/Location.js"
+import type { BackorderAllocation } from "../domain/Backorder.js"
 
 export interface AtomicAddStockParams {
   readonly idempotencyKey: string
   readonly productId: ProductId
+  // null for the default location
+  readonly locationId: LocationId | null
   readonly quantity: number
   readonly reason: AdjustmentReason
   readonly referenceId: string | null
@@ -17,6 +27,53 @@ export type AtomicAddStockResult =
   | { readonly _tag: "Created"; readonly adjustment: InventoryAdjustment; readonly sku: string }
   | { readonly _tag: "AlreadyExists"; readonly adjustment: InventoryAdjustment }
   | { readonly _tag: "ProductNotFound" }
+  | { readonly _tag: "LocationNotFound" }
+
+// Received stock may fill waiting backorders, which are reported alongside the adjustment
+export type AtomicReceiveStockResult =
+  | Exclude<AtomicAddStockResult, { readonly _tag: "Created" }>
+  | {
+      readonly _tag: "Created"
+      readonly adjustment: InventoryAdjustment
+      readonly sku: string
+      readonly allocatedBackorders: ReadonlyArray<BackorderAllocation>
+    }
+
+// Relative applies a signed delta; Absolute sets stock to a counted quantity and records the difference
+export type StockChange =
+  | { readonly _tag: "Relative"; readonly quantity: number }
+  | { readonly _tag: "Absolute"; readonly quantity: number }
+
+export interface AtomicAdjustStockParams {
+  readonly idempotencyKey: string
+  readonly productId: ProductId
+  // null for the default location
+  readonly locationId: LocationId | null
+  readonly change: StockChange
+  readonly reason: StockAdjustmentReason
+  readonly referenceId: string | null
+  readonly notes: string | null
+  readonly createdBy: string | null
+}
+
+export type AtomicAdjustStockResult =
+  | AtomicAddStockResult
+  | {
+      readonly _tag: "InsufficientStock"
+      readonly sku: string
+      readonly available: number
+      readonly requested: number
+    }
+
+export interface ListAdjustmentsQuery {
+  readonly reasons?: ReadonlyArray<StockAdjustmentReason | SystemAdjustmentReason>
+  readonly createdBy?: string
+  readonly createdFrom?: DateTime.Utc
+  readonly createdTo?: DateTime.Utc
+  // Keyset cursor - the ID of the last adjustment on the previous page
+  readonly after?: AdjustmentId
+  readonly limit: number
+}
 
 export class StockAdjustmentRepository extends Context.Tag("StockAdjustmentRepository")<
   StockAdjustmentRepository,
@@ -28,12 +85,47 @@ export class StockAdjustmentRepository extends Context.Tag("StockAdjustmentRepos
      * 1. Creates a new adjustment and updates stock (if idempotency key is new)
      * 2. Returns the existing adjustment (if idempotency key already used)
      * 3. Returns ProductNotFound (if product doesn't exist)
+     * 4. Returns LocationNotFound (if the location doesn't exist)
+     *
+     * The stock is added to the location as well as to the product's total.
+     * In the same transaction, the product's backorders are then filled from the
+     * location's stock, oldest first, each with a reservation adjustment.
      *
      * There is NO race condition window - concurrent requests with the same
      * idempotency key will never double-increment stock.
      */
     readonly addStockAtomic: (
       params: AtomicAddStockParams
-    ) => Effect.Effect<AtomicAddStockResult, SqlError.SqlError>
+    ) => Effect.Effect<AtomicReceiveStockResult, SqlError.SqlError>
+
+    /**
+     * Atomically applies a signed or absolute stock change with the same
+     * idempotency guarantee as addStockAtomic.
+     *
+     * The product row, then the location's stock row, is locked before the
+     * change is computed, so an absolute count is diffed against what the
+     * location holds right now. A change that would take the location below
+     * zero writes nothing and returns InsufficientStock instead of tripping
+     * the quantity >= 0 check constraint.
+     */
+    readonly adjustStockAtomic: (
+      params: AtomicAdjustStockParams
+    ) => Effect.Effect<AtomicAdjustStockResult, SqlError.SqlError>
+
+    /**
+     * A product's adjustments, newest first. createdFrom is inclusive and createdTo exclusive.
+     */
+    readonly listByProduct: (
+      productId: ProductId,
+      query: ListAdjustmentsQuery
+    ) => Effect.Effect<ReadonlyArray<InventoryAdjustment>, SqlError.SqlError>
+
+    /**
+     * Whether the adjustment exists and belongs to the product - checks a list cursor.
+     */
+    readonly existsForProduct: (
+      productId: ProductId,
+      adjustmentId: AdjustmentId
+    ) => Effect.Effect<boolean, SqlError.SqlError>
   }
 >() {}
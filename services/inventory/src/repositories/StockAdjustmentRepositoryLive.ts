@@ -1,16 +1,25 @@
 import { Layer, Effect, DateTime } from "effect"
 import { SqlClient } from "@effect/sql"
-import { StockAdjustmentRepository, type AtomicAddStockParams } from "./StockAdjustmentRepository.js"
-import { InventoryAdjustment, AdjustmentId, AdjustmentReason } from "../domain/Adjustment.js"
+import {
+  StockAdjustmentRepository,
+  type AtomicAddStockParams,
+  type AtomicAdjustStockParams,
+  type ListAdjustmentsQuery
+} from "./StockAdjustmentRepository.js"
+import { InventoryAdjustment, AdjustmentId, StockAdjustmentReason } from "../domain/Adjustment.js"
 import type { ProductId } from "../domain/Product.js"
+import { DEFAULT_LOCATION_CODE, type LocationId } from "../domain/Location.js"
+import type { ReservationId } from "../domain/Reservation.js"
+import { selectBackordersToFill, type BackorderAllocation } from "../domain/Backorder.js"
 
 interface AtomicResultRow {
   // Discriminator for result type
-  result_type: "created" | "already_exists" | "product_not_found"
-  // Adjustment fields (null if product_not_found)
+  result_type: "created" | "already_exists" | "product_not_found" | "location_not_found"
+  // Adjustment fields (null if product_not_found or location_not_found)
   adjustment_id: string | null
   idempotency_key: string | null
   product_id: string | null
+  location_id: string | null
   quantity_change: number | null
   previous_quantity: number | null
   new_quantity: number | null
@@ -23,22 +32,74 @@ interface AtomicResultRow {
   sku: string | null
 }
 
+interface AtomicAdjustResultRow extends Omit<AtomicResultRow, "result_type"> {
+  result_type: AtomicResultRow["result_type"] | "insufficient_stock"
+  // Locked stock level of the location and computed change (null unless the change was attempted)
+  current_quantity: number | null
+  requested_change: number | null
+}
+
+interface BackorderRow {
+  id: string
+  order_id: string
+  quantity: number
+}
+
+// Adjustment columns shared by the atomic result rows and plain table reads
+type AdjustmentColumns = Omit<AtomicResultRow, "result_type" | "sku">
+
+const toAdjustment = (row: AdjustmentColumns) =>
+  new InventoryAdjustment({
+    id: row.adjustment_id as AdjustmentId,
+    idempotencyKey: row.idempotency_key!,
+    productId: row.product_id as ProductId,
+    locationId: row.location_id as LocationId | null,
+    quantityChange: row.quantity_change!,
+    previousQuantity: row.previous_quantity!,
+    newQuantity: row.new_quantity!,
+    reason: row.reason as StockAdjustmentReason,
+    referenceId: row.reference_id,
+    notes: row.notes,
+    createdBy: row.created_by,
+    createdAt: DateTime.unsafeFromDate(row.created_at!)
+  })
+
 export const StockAdjustmentRepositoryLive = Layer.effect(
   StockAdjustmentRepository,
   Effect.gen(function* () {
     const sql = yield* SqlClient.SqlClient
 
+    // Matches the requested location, or the default one when none was given
+    const locationMatch = (locationId: LocationId | null) =>
+      locationId === null
+        ? sql`code = ${DEFAULT_LOCATION_CODE}`
+        : sql`id = ${locationId}::uuid`
+
     return {
       addStockAtomic: (params: AtomicAddStockParams) =>
-        Effect.gen(function* () {
+        // Filling backorders takes several statements after the CTE, so they share a transaction
+        sql.withTransaction(Effect.gen(function* () {
+          // Lock the product's backorders before the CTE locks the product row -
+          // reservation rows first, then the product, the same order as releaseByOrderId
+          const backorders = yield* sql<BackorderRow>`
+            SELECT id, order_id, quantity
+            FROM inventory_reservations
+            WHERE product_id = ${params.productId}::uuid
+              AND status = 'BACKORDERED'
+            ORDER BY created_at, id
+            FOR UPDATE
+          `
+
           /**
            * Atomic CTE-based operation:
            *
            * 1. check_existing: Look for existing adjustment with this idempotency key
-           * 2. check_product: Verify product exists (only if no existing adjustment)
-           * 3. update_stock: Conditionally update stock (only if new and product exists)
-           * 4. insert_adjustment: Conditionally insert adjustment record
-           * 5. Final SELECT: Return appropriate result based on what happened
+           * 2. target_location: Resolve the location the stock is received at
+           * 3. check_product: Verify product exists (only if no existing adjustment)
+           * 4. update_stock: Conditionally update stock (only if new and product and location exist)
+           * 5. update_location_stock: Add the same quantity to the location's stock
+           * 6. insert_adjustment: Conditionally insert adjustment record
+           * 7. Final SELECT: Return appropriate result based on what happened
            *
            * The key insight is that all CTEs execute in a single statement,
            * so there's no window for concurrent requests to interleave.
@@ -51,6 +112,9 @@ export const StockAdjustmentRepositoryLive = Layer.effect(
               JOIN products p ON p.id = ia.product_id
               WHERE ia.idempotency_key = ${params.idempotencyKey}
             ),
+            target_location AS (
+              SELECT id FROM locations WHERE ${locationMatch(params.locationId)}
+            ),
             check_product AS (
               -- Get product info (only needed if no existing adjustment)
               SELECT id, sku, stock_quantity
@@ -59,7 +123,7 @@ export const StockAdjustmentRepositoryLive = Layer.effect(
                 AND NOT EXISTS (SELECT 1 FROM check_existing)
             ),
             update_stock AS (
-              -- Update stock only if: no existing adjustment AND product exists
+              -- Update stock only if: no existing adjustment AND product and location exist
               UPDATE products
               SET
                 stock_quantity = stock_quantity + ${params.quantity},
@@ -67,17 +131,27 @@ export const StockAdjustmentRepositoryLive = Layer.effect(
               WHERE id = ${params.productId}::uuid
                 AND NOT EXISTS (SELECT 1 FROM check_existing)
                 AND EXISTS (SELECT 1 FROM check_product)
+                AND EXISTS (SELECT 1 FROM target_location)
               RETURNING
                 id,
                 stock_quantity - ${params.quantity} AS previous_quantity,
                 stock_quantity AS new_quantity
             ),
+            update_location_stock AS (
+              -- Reads update_stock, so the product row is locked first, as in reserveStockAtomic
+              INSERT INTO location_stock (product_id, location_id, quantity)
+              SELECT us.id, tl.id, ${params.quantity}
+              FROM update_stock us, target_location tl
+              ON CONFLICT (product_id, location_id) DO UPDATE
+              SET quantity = location_stock.quantity + EXCLUDED.quantity,
+                  updated_at = NOW()
+            ),
             insert_adjustment AS (
               -- Insert adjustment only if stock was updated
               INSERT INTO inventory_adjustments (
                 idempotency_key, product_id, quantity_change,
                 previous_quantity, new_quantity, reason,
-                reference_id, notes, created_by
+                reference_id, notes, created_by, location_id
               )
               SELECT
                 ${params.idempotencyKey},
@@ -88,8 +162,9 @@ export const StockAdjustmentRepositoryLive = Layer.effect(
                 ${params.reason},
                 ${params.referenceId},
                 ${params.notes},
-                ${params.createdBy}
-              FROM update_stock us
+                ${params.createdBy},
+                tl.id
+              FROM update_stock us, target_location tl
               RETURNING *
             )
             -- Return the appropriate result
@@ -97,11 +172,13 @@ export const StockAdjustmentRepositoryLive = Layer.effect(
               CASE
                 WHEN EXISTS (SELECT 1 FROM check_existing) THEN 'already_exists'
                 WHEN EXISTS (SELECT 1 FROM insert_adjustment) THEN 'created'
+                WHEN EXISTS (SELECT 1 FROM check_product) THEN 'location_not_found'
                 ELSE 'product_not_found'
               END AS result_type,
               COALESCE(ia.id, ce.id)::text AS adjustment_id,
               COALESCE(ia.idempotency_key, ce.idempotency_key) AS idempotency_key,
               COALESCE(ia.product_id, ce.product_id)::text AS product_id,
+              COALESCE(ia.location_id, ce.location_id)::text AS location_id,
               COALESCE(ia.quantity_change, ce.quantity_change) AS quantity_change,
               COALESCE(ia.previous_quantity, ce.previous_quantity) AS previous_quantity,
               COALESCE(ia.new_quantity, ce.new_quantity) AS new_quantity,
@@ -123,26 +200,261 @@ export const StockAdjustmentRepositoryLive = Layer.effect(
             return { _tag: "ProductNotFound" } as const
           }
 
-          const adjustment = new InventoryAdjustment({
-            id: row.adjustment_id as AdjustmentId,
-            idempotencyKey: row.idempotency_key!,
-            productId: row.product_id as ProductId,
-            quantityChange: row.quantity_change!,
-            previousQuantity: row.previous_quantity!,
-            newQuantity: row.new_quantity!,
-            reason: row.reason as AdjustmentReason,
-            referenceId: row.reference_id,
-            notes: row.notes,
-            createdBy: row.created_by,
-            createdAt: DateTime.unsafeFromDate(row.created_at!)
-          })
+          if (row.result_type === "location_not_found") {
+            return { _tag: "LocationNotFound" } as const
+          }
+
+          const adjustment = toAdjustment(row)
+
+          if (row.result_type === "already_exists") {
+            return { _tag: "AlreadyExists", adjustment } as const
+          }
+
+          const allocatedBackorders: Array<BackorderAllocation> = []
+          if (backorders.length > 0) {
+            // The CTE's upsert holds this row's lock, so the quantity can't move underneath us
+            const locationStock = yield* sql<{ quantity: number }>`
+              SELECT quantity FROM location_stock
+              WHERE product_id = ${params.productId}::uuid
+                AND location_id = ${adjustment.locationId}::uuid
+            `
+
+            for (const backorder of selectBackordersToFill(locationStock[0].quantity, backorders)) {
+              const stock = yield* sql<{ previous_quantity: number; new_quantity: number }>`
+                UPDATE products
+                SET stock_quantity = stock_quantity - ${backorder.quantity},
+                    updated_at = NOW()
+                WHERE id = ${params.productId}::uuid
+                RETURNING stock_quantity + ${backorder.quantity} AS previous_quantity,
+                          stock_quantity AS new_quantity
+              `
+              yield* sql`
+                UPDATE location_stock
+                SET quantity = quantity - ${backorder.quantity},
+                    updated_at = NOW()
+                WHERE product_id = ${params.productId}::uuid
+                  AND location_id = ${adjustment.locationId}::uuid
+              `
+              // An order that was committed while waiting goes straight to COMMITTED
+              yield* sql`
+                UPDATE inventory_reservations
+                SET status = CASE WHEN committed_at IS NULL THEN 'RESERVED' ELSE 'COMMITTED' END,
+                    location_id = ${adjustment.locationId}::uuid
+                WHERE id = ${backorder.id}::uuid
+              `
+              yield* sql`
+                INSERT INTO inventory_adjustments (
+                  idempotency_key, product_id, quantity_change,
+                  previous_quantity, new_quantity, reason, reference_id, location_id
+                )
+                VALUES (
+                  ${`reservation-${backorder.id}`},
+                  ${params.productId}::uuid,
+                  ${-backorder.quantity},
+                  ${stock[0].previous_quantity},
+                  ${stock[0].new_quantity},
+                  'reservation',
+                  ${backorder.order_id},
+                  ${adjustment.locationId}::uuid
+                )
+              `
+              allocatedBackorders.push({
+                reservationId: backorder.id as ReservationId,
+                orderId: backorder.order_id,
+                quantity: backorder.quantity
+              })
+            }
+          }
+
+          return { _tag: "Created", adjustment, sku: row.sku!, allocatedBackorders } as const
+        })),
+
+      adjustStockAtomic: (params: AtomicAdjustStockParams) =>
+        Effect.gen(function* () {
+          // The change is computed against the locked rows: a cycle count diffs
+          // the counted quantity with what the location holds right now
+          const change = params.change._tag === "Absolute"
+            ? sql`${params.change.quantity}::int - location_quantity`
+            : sql`${params.change.quantity}::int`
+
+          /**
+           * Same shape as addStockAtomic, except that:
+           *
+           * - check_product locks the product row (FOR UPDATE)
+           * - check_location_stock then locks the location's stock row and computes the change
+           * - update_stock only applies a change that keeps the location's stock >= 0
+           * - a locked product with no update means the change was refused
+           */
+          const result = yield* sql<AtomicAdjustResultRow>`
+            WITH check_existing AS (
+              SELECT ia.*, p.sku
+              FROM inventory_adjustments ia
+              JOIN products p ON p.id = ia.product_id
+              WHERE ia.idempotency_key = ${params.idempotencyKey}
+            ),
+            target_location AS (
+              SELECT id FROM locations WHERE ${locationMatch(params.locationId)}
+            ),
+            check_product AS (
+              SELECT id, sku, stock_quantity
+              FROM products
+              WHERE id = ${params.productId}::uuid
+                AND NOT EXISTS (SELECT 1 FROM check_existing)
+              FOR UPDATE
+            ),
+            check_location_stock AS (
+              -- Reads check_product, so the product row is locked first, as in reserveStockAtomic
+              SELECT product_id, location_id, location_quantity, ${change} AS quantity_change
+              FROM (
+                SELECT
+                  cp.id AS product_id,
+                  tl.id AS location_id,
+                  COALESCE((
+                    SELECT ls.quantity
+                    FROM location_stock ls
+                    WHERE ls.product_id = cp.id AND ls.location_id = tl.id
+                    FOR UPDATE
+                  ), 0) AS location_quantity
+                FROM check_product cp, target_location tl
+              ) locked
+            ),
+            update_stock AS (
+              UPDATE products p
+              SET
+                stock_quantity = p.stock_quantity + cls.quantity_change,
+                updated_at = NOW()
+              FROM check_location_stock cls
+              WHERE p.id = cls.product_id
+                AND cls.location_quantity + cls.quantity_change >= 0
+              RETURNING
+                p.id,
+                cls.location_id,
+                cls.quantity_change,
+                p.stock_quantity - cls.quantity_change AS previous_quantity,
+                p.stock_quantity AS new_quantity
+            ),
+            update_location_stock AS (
+              INSERT INTO location_stock (product_id, location_id, quantity)
+              SELECT id, location_id, quantity_change
+              FROM update_stock
+              ON CONFLICT (product_id, location_id) DO UPDATE
+              SET quantity = location_stock.quantity + EXCLUDED.quantity,
+                  updated_at = NOW()
+            ),
+            insert_adjustment AS (
+              INSERT INTO inventory_adjustments (
+                idempotency_key, product_id, quantity_change,
+                previous_quantity, new_quantity, reason,
+                reference_id, notes, created_by, location_id
+              )
+              SELECT
+                ${params.idempotencyKey},
+                us.id,
+                us.quantity_change,
+                us.previous_quantity,
+                us.new_quantity,
+                ${params.reason},
+                ${params.referenceId},
+                ${params.notes},
+                ${params.createdBy},
+                us.location_id
+              FROM update_stock us
+              RETURNING *
+            )
+            SELECT
+              CASE
+                WHEN EXISTS (SELECT 1 FROM check_existing) THEN 'already_exists'
+                WHEN EXISTS (SELECT 1 FROM insert_adjustment) THEN 'created'
+                WHEN EXISTS (SELECT 1 FROM check_location_stock) THEN 'insufficient_stock'
+                WHEN EXISTS (SELECT 1 FROM check_product) THEN 'location_not_found'
+                ELSE 'product_not_found'
+              END AS result_type,
+              COALESCE(ia.id, ce.id)::text AS adjustment_id,
+              COALESCE(ia.idempotency_key, ce.idempotency_key) AS idempotency_key,
+              COALESCE(ia.product_id, ce.product_id)::text AS product_id,
+              COALESCE(ia.location_id, ce.location_id)::text AS location_id,
+              COALESCE(ia.quantity_change, ce.quantity_change) AS quantity_change,
+              COALESCE(ia.previous_quantity, ce.previous_quantity) AS previous_quantity,
+              COALESCE(ia.new_quantity, ce.new_quantity) AS new_quantity,
+              COALESCE(ia.reason, ce.reason) AS reason,
+              COALESCE(ia.reference_id, ce.reference_id) AS reference_id,
+              COALESCE(ia.notes, ce.notes) AS notes,
+              COALESCE(ia.created_by, ce.created_by) AS created_by,
+              COALESCE(ia.created_at, ce.created_at) AS created_at,
+              COALESCE(cp.sku, ce.sku) AS sku,
+              cls.location_quantity AS current_quantity,
+              cls.quantity_change AS requested_change
+            FROM (SELECT 1) AS dummy
+            LEFT JOIN insert_adjustment ia ON true
+            LEFT JOIN check_existing ce ON true
+            LEFT JOIN check_product cp ON true
+            LEFT JOIN check_location_stock cls ON true
+          `
+
+          const row = result[0]
+
+          if (row.result_type === "product_not_found") {
+            return { _tag: "ProductNotFound" } as const
+          }
+
+          if (row.result_type === "location_not_found") {
+            return { _tag: "LocationNotFound" } as const
+          }
+
+          if (row.result_type === "insufficient_stock") {
+            return {
+              _tag: "InsufficientStock",
+              sku: row.sku!,
+              available: row.current_quantity!,
+              requested: -row.requested_change!
+            } as const
+          }
+
+          const adjustment = toAdjustment(row)
 
           if (row.result_type === "already_exists") {
             return { _tag: "AlreadyExists", adjustment } as const
           }
 
           return { _tag: "Created", adjustment, sku: row.sku! } as const
-        })
+        }),
+
+      listByProduct: (productId: ProductId, query: ListAdjustmentsQuery) =>
+        Effect.gen(function* () {
+          const conditions = [
+            sql`product_id = ${productId}::uuid`,
+            ...(query.reasons !== undefined ? [sql`reason = ANY(${query.reasons}::text[])`] : []),
+            ...(query.createdBy !== undefined ? [sql`created_by = ${query.createdBy}`] : []),
+            ...(query.createdFrom !== undefined
+              ? [sql`created_at >= ${DateTime.toDateUtc(query.createdFrom)}`]
+              : []),
+            ...(query.createdTo !== undefined
+              ? [sql`created_at < ${DateTime.toDateUtc(query.createdTo)}`]
+              : []),
+            // Resolve the cursor's position in SQL so it keeps the column's full precision
+            ...(query.after !== undefined
+              ? [sql`(created_at, id) < (SELECT created_at, id FROM inventory_adjustments WHERE id = ${query.after}::uuid)`]
+              : [])
+          ]
+
+          const rows = yield* sql<AdjustmentColumns>`
+            SELECT
+              id::text AS adjustment_id, idempotency_key, product_id::text AS product_id,
+              location_id::text AS location_id, quantity_change, previous_quantity, new_quantity, reason,
+              reference_id, notes, created_by, created_at
+            FROM inventory_adjustments
+            WHERE ${sql.and(conditions)}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${query.limit}
+          `
+          return rows.map(toAdjustment)
+        }),
+
+      existsForProduct: (productId: ProductId, adjustmentId: AdjustmentId) =>
+        sql<{ id: string }>`
+          SELECT id FROM inventory_adjustments
+          WHERE id = ${adjustmentId}::uuid AND product_id = ${productId}::uuid
+        `.pipe(Effect.map((rows) => rows.length > 0))
     }
   })
 )
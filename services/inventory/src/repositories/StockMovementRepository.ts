@@ -0,0 +1,66 @@
+import { Context, DateTime, Effect, Option } from "effect"
+import { SqlError } from "@effect/sql"
+import type { AdjustmentId } from "../domain/Adjustment.js"
+import type { ProductId } from "../domain/Product.js"
+import type { StockMovement, StockMovementId } from "../domain/StockMovement.js"
+
+export interface ListMovementsQuery {
+  readonly occurredFrom?: DateTime.Utc
+  readonly occurredTo?: DateTime.Utc
+  // Keyset cursor - the ID of the last movement on the previous page
+  readonly after?: StockMovementId
+  readonly limit: number
+}
+
+// A product whose stock_quantity differs from the sum of its movements
+export interface StockDiscrepancy {
+  readonly productId: ProductId
+  readonly sku: string
+  readonly stockQuantity: number
+  readonly expectedQuantity: number
+}
+
+export class StockMovementRepository extends Context.Tag("StockMovementRepository")<
+  StockMovementRepository,
+  {
+    /**
+     * A product's stock movements, newest first: adjustments interleaved with
+     * reservations taking stock and releases returning it.
+     *
+     * Reservations made before they wrote their own adjustments are derived
+     * from inventory_reservations, so each movement appears exactly once.
+     * occurredFrom is inclusive and occurredTo exclusive.
+     */
+    readonly listByProduct: (
+      productId: ProductId,
+      query: ListMovementsQuery
+    ) => Effect.Effect<ReadonlyArray<StockMovement>, SqlError.SqlError>
+
+    /**
+     * Whether the movement is one of the product's - checks a list cursor.
+     */
+    readonly existsForProduct: (
+      productId: ProductId,
+      movementId: StockMovementId
+    ) => Effect.Effect<boolean, SqlError.SqlError>
+
+    /**
+     * Products (all, or the given ones) whose stock_quantity is not the sum of
+     * their movements, ordered by product ID. Reads a single snapshot, no locks.
+     */
+    readonly findDiscrepancies: (
+      productIds?: ReadonlyArray<ProductId>
+    ) => Effect.Effect<ReadonlyArray<StockDiscrepancy>, SqlError.SqlError>
+
+    /**
+     * Lock the product, recompute its discrepancy and, if one remains, write a
+     * correction adjustment that brings the movements in line with stock_quantity.
+     * stock_quantity itself is left unchanged - it is treated as the truth.
+     * Returns none if the product is unknown or already reconciles.
+     */
+    readonly correctDiscrepancy: (
+      productId: ProductId,
+      createdBy: string
+    ) => Effect.Effect<Option.Option<AdjustmentId>, SqlError.SqlError>
+  }
+>() {}
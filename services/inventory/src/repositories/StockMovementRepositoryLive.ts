@@ -0,0 +1,209 @@
+import { Layer, Effect, DateTime, Option } from "effect"
+import { SqlClient } from "@effect/sql"
+import { StockMovementRepository, type ListMovementsQuery } from "./StockMovementRepository.js"
+import { StockMovement, type StockMovementId, type StockMovementType } from "../domain/StockMovement.js"
+import type { AdjustmentId } from "../domain/Adjustment.js"
+import type { ProductId } from "../domain/Product.js"
+
+interface StockMovementRow {
+  id: string
+  type: StockMovementType
+  reason: string | null
+  quantity_change: number
+  reference_id: string | null
+  occurred_at: Date
+}
+
+interface StockDiscrepancyRow {
+  product_id: string
+  sku: string
+  stock_quantity: number
+  expected_quantity: number
+}
+
+export const StockMovementRepositoryLive = Layer.effect(
+  StockMovementRepository,
+  Effect.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+
+    /**
+     * Every stock movement, optionally limited to some products.
+     *
+     * Reservations and releases write their own adjustments; older ones did not,
+     * so they are derived from inventory_reservations unless the adjustment exists.
+     * The sweeper has always written reservation_expired adjustments. Backorders
+     * are never derived: they move no stock until allocated, which writes the adjustment.
+     */
+    const movementsFor = (productIds: ReadonlyArray<ProductId> | undefined) => {
+      const inProducts = productIds === undefined
+        ? sql`TRUE`
+        : sql`product_id = ANY(${productIds}::uuid[])`
+
+      return sql`
+        SELECT
+          'adjustment:' || ia.id AS id,
+          ia.product_id,
+          CASE
+            WHEN ia.reason = 'reservation' THEN 'reservation'
+            WHEN ia.reason IN ('reservation_released', 'reservation_expired') THEN 'release'
+            ELSE 'adjustment'
+          END AS type,
+          ia.reason,
+          ia.quantity_change,
+          ia.reference_id,
+          ia.created_at AS occurred_at
+        FROM inventory_adjustments ia
+        WHERE ${inProducts}
+        UNION ALL
+        SELECT
+          'reservation:' || r.id,
+          r.product_id,
+          'reservation',
+          NULL,
+          -r.quantity,
+          r.order_id::text,
+          r.created_at
+        FROM inventory_reservations r
+        WHERE ${inProducts}
+          AND r.backordered_at IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM inventory_adjustments ia
+            WHERE ia.idempotency_key = 'reservation-' || r.id
+          )
+        UNION ALL
+        SELECT
+          'release:' || r.id,
+          r.product_id,
+          'release',
+          NULL,
+          r.quantity,
+          r.order_id::text,
+          r.released_at
+        FROM inventory_reservations r
+        WHERE ${inProducts}
+          AND r.released_at IS NOT NULL
+          AND r.backordered_at IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM inventory_adjustments ia
+            WHERE ia.idempotency_key IN ('reservation-released-' || r.id, 'reservation-expired-' || r.id)
+          )
+      `
+    }
+
+    return {
+      listByProduct: (productId: ProductId, query: ListMovementsQuery) =>
+        Effect.gen(function* () {
+          const conditions = [
+            ...(query.occurredFrom !== undefined
+              ? [sql`occurred_at >= ${DateTime.toDateUtc(query.occurredFrom)}`]
+              : []),
+            ...(query.occurredTo !== undefined
+              ? [sql`occurred_at < ${DateTime.toDateUtc(query.occurredTo)}`]
+              : []),
+            ...(query.after !== undefined
+              ? [sql`(occurred_at, id) < (SELECT occurred_at, id FROM movements WHERE id = ${query.after})`]
+              : [])
+          ]
+
+          const rows = yield* sql<StockMovementRow>`
+            WITH movements AS (${movementsFor([productId])})
+            SELECT id, type, reason, quantity_change, reference_id, occurred_at
+            FROM movements
+            WHERE ${sql.and(conditions)}
+            ORDER BY occurred_at DESC, id DESC
+            LIMIT ${query.limit}
+          `
+
+          return rows.map((row) =>
+            new StockMovement({
+              id: row.id as StockMovementId,
+              productId,
+              type: row.type,
+              reason: row.reason,
+              quantityChange: row.quantity_change,
+              referenceId: row.reference_id,
+              occurredAt: DateTime.unsafeFromDate(row.occurred_at)
+            })
+          )
+        }),
+
+      existsForProduct: (productId: ProductId, movementId: StockMovementId) =>
+        sql<{ id: string }>`
+          WITH movements AS (${movementsFor([productId])})
+          SELECT id FROM movements WHERE id = ${movementId}
+        `.pipe(Effect.map((rows) => rows.length > 0)),
+
+      findDiscrepancies: (productIds?: ReadonlyArray<ProductId>) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<StockDiscrepancyRow>`
+            WITH movements AS (${movementsFor(productIds)}),
+            expected AS (
+              SELECT product_id, SUM(quantity_change)::int AS quantity
+              FROM movements
+              GROUP BY product_id
+            )
+            SELECT
+              p.id::text AS product_id,
+              p.sku,
+              p.stock_quantity,
+              COALESCE(e.quantity, 0) AS expected_quantity
+            FROM products p
+            LEFT JOIN expected e ON e.product_id = p.id
+            WHERE ${productIds === undefined ? sql`TRUE` : sql`p.id = ANY(${productIds}::uuid[])`}
+              AND p.stock_quantity <> COALESCE(e.quantity, 0)
+            ORDER BY p.id
+          `
+
+          return rows.map((row) => ({
+            productId: row.product_id as ProductId,
+            sku: row.sku,
+            stockQuantity: row.stock_quantity,
+            expectedQuantity: row.expected_quantity
+          }))
+        }),
+
+      correctDiscrepancy: (productId: ProductId, createdBy: string) =>
+        // The product lock holds off reservations and releases, which lock it too,
+        // so the sum and the stock level below come from the same point in time
+        sql.withTransaction(
+          Effect.gen(function* () {
+            const locked = yield* sql<{ stock_quantity: number }>`
+              SELECT stock_quantity FROM products WHERE id = ${productId}::uuid FOR UPDATE
+            `
+            if (locked.length === 0) {
+              return Option.none<AdjustmentId>()
+            }
+
+            const expected = yield* sql<{ quantity: number }>`
+              WITH movements AS (${movementsFor([productId])})
+              SELECT COALESCE(SUM(quantity_change), 0)::int AS quantity FROM movements
+            `
+            const stockQuantity = locked[0].stock_quantity
+            const expectedQuantity = expected[0].quantity
+            if (stockQuantity === expectedQuantity) {
+              return Option.none<AdjustmentId>()
+            }
+
+            const inserted = yield* sql<{ id: string }>`
+              INSERT INTO inventory_adjustments (
+                idempotency_key, product_id, quantity_change,
+                previous_quantity, new_quantity, reason, notes, created_by
+              )
+              VALUES (
+                'reconciliation-' || gen_random_uuid(),
+                ${productId}::uuid,
+                ${stockQuantity - expectedQuantity},
+                ${expectedQuantity},
+                ${stockQuantity},
+                'correction',
+                ${`Reconciliation: movements added up to ${expectedQuantity}, stock is ${stockQuantity}`},
+                ${createdBy}
+              )
+              RETURNING id::text AS id
+            `
+            return Option.some(inserted[0].id as AdjustmentId)
+          })
+        )
+    }
+  })
+)
@@ -5,6 +5,8 @@ import { createServer } from "node:http"
 import { HealthRoutes } from "./api/health.js"
 import { ProductRoutes } from "./api/products.js"
 import { ReservationRoutes } from "./api/reservations.js"
+import { ReconciliationRoutes } from "./api/reconciliation.js"
+import { LocationRoutes } from "./api/locations.js"
 import { AppLive } from "./layers.js"
 import { TelemetryLive } from "./telemetry.js"
 
@@ -19,7 +21,9 @@ const router = HttpRouter.empty.pipe(
   HttpRouter.mount("/", rootRoute),
   HttpRouter.mount("/", HealthRoutes),
   HttpRouter.mount("/", ProductRoutes),
-  HttpRouter.mount("/", ReservationRoutes)
+  HttpRouter.mount("/", ReservationRoutes),
+  HttpRouter.mount("/", ReconciliationRoutes),
+  HttpRouter.mount("/", LocationRoutes)
 )
 
 const HttpLive = router.pipe(
@@ -1,13 +1,30 @@
 import { Context, Effect } from "effect"
 import { SqlError } from "@effect/sql"
-import type { ProductId } from "../domain/Product.js"
-import type { AddStockRequest, AddStockResponse } from "../domain/Adjustment.js"
+import type { BackorderPolicy, ProductId } from "../domain/Product.js"
+import type {
+  AddStockRequest,
+  AddStockResponse,
+  AdjustStockRequest,
+  AdjustStockResponse,
+  AdjustmentId,
+  InventoryAdjustment
+} from "../domain/Adjustment.js"
+import type { StockMovement, StockMovementId } from "../domain/StockMovement.js"
+import type { Destination } from "../domain/Location.js"
 import type {
   DuplicateAdjustmentError,
   InsufficientStockError,
-  ProductNotFoundError
+  InvalidCursorError,
+  LocationNotFoundError,
+  ProductNotFoundError,
+  ProductArchivedError,
+  ReservationNotFoundError,
+  ReservationReleasedError
 } from "../domain/errors.js"
+import type { InventoryReservation, ReservationShortfall } from "../domain/Reservation.js"
 import type { ReleaseReservationResult } from "../repositories/ReservationRepository.js"
+import type { ListAdjustmentsQuery } from "../repositories/StockAdjustmentRepository.js"
+import type { ListMovementsQuery, StockDiscrepancy } from "../repositories/StockMovementRepository.js"
 
 export interface ReserveStockRequest {
   readonly orderId: string
@@ -15,6 +32,52 @@ export interface ReserveStockRequest {
     readonly productId: ProductId
     readonly quantity: number
   }>
+  // Where the order ships to - stock is taken from the nearest locations
+  readonly destination?: Destination
+  // Reserve what is available instead of failing on a short item
+  readonly allowPartial?: boolean
+}
+
+export interface ReserveStockResult {
+  readonly reservationIds: ReadonlyArray<string>
+  // Products not fully reserved - only ever non-empty for a partial reservation
+  readonly shortfalls: ReadonlyArray<ReservationShortfall>
+}
+
+// Current stock for a single product, as returned by the batched availability lookup
+export interface ProductAvailability {
+  readonly productId: ProductId
+  readonly sku: string
+  readonly stockQuantity: number
+  readonly backorderPolicy: BackorderPolicy
+  // Units that may still be ordered beyond stockQuantity; null when backorders are uncapped
+  readonly backorderableQuantity: number | null
+}
+
+// One page of a product's adjustment history; nextCursor is null on the last page
+export interface AdjustmentPage {
+  readonly adjustments: ReadonlyArray<InventoryAdjustment>
+  readonly nextCursor: AdjustmentId | null
+}
+
+// One page of a product's stock movements, with the stock level they lead up to
+export interface StockMovementPage {
+  readonly stockQuantity: number
+  readonly movements: ReadonlyArray<StockMovement>
+  readonly nextCursor: StockMovementId | null
+}
+
+export interface ReconcileStockOptions {
+  // Every product when omitted
+  readonly productIds?: ReadonlyArray<ProductId>
+  readonly applyCorrections: boolean
+}
+
+// A discrepancy found by reconciliation; difference is stockQuantity - expectedQuantity
+export interface ReconciledProduct extends StockDiscrepancy {
+  readonly difference: number
+  // Set when a correction adjustment was written for this product
+  readonly correctionAdjustmentId: AdjustmentId | null
 }
 
 export class InventoryService extends Context.Tag("InventoryService")<
@@ -24,18 +87,99 @@ export class InventoryService extends Context.Tag("InventoryService")<
       productId: ProductId,
       idempotencyKey: string,
       request: AddStockRequest
-    ) => Effect.Effect<AddStockResponse, ProductNotFoundError | DuplicateAdjustmentError | SqlError.SqlError>
+    ) => Effect.Effect<
+      AddStockResponse,
+      ProductNotFoundError | LocationNotFoundError | DuplicateAdjustmentError | SqlError.SqlError
+    >
+
+    /**
+     * Record a signed stock change (write-offs, corrections) or a cycle count at one location.
+     * Fails with InsufficientStockError rather than taking the location's stock below zero.
+     */
+    readonly adjustStock: (
+      productId: ProductId,
+      idempotencyKey: string,
+      request: AdjustStockRequest
+    ) => Effect.Effect<
+      AdjustStockResponse,
+      | ProductNotFoundError
+      | LocationNotFoundError
+      | DuplicateAdjustmentError
+      | InsufficientStockError
+      | SqlError.SqlError
+    >
+
+    readonly listAdjustments: (
+      productId: ProductId,
+      query: ListAdjustmentsQuery
+    ) => Effect.Effect<AdjustmentPage, ProductNotFoundError | InvalidCursorError | SqlError.SqlError>
+
+    /**
+     * Adjustments interleaved with reservations and releases, newest first.
+     * The page carries the product's current stock_quantity to reconcile against.
+     */
+    readonly listMovements: (
+      productId: ProductId,
+      query: ListMovementsQuery
+    ) => Effect.Effect<StockMovementPage, ProductNotFoundError | InvalidCursorError | SqlError.SqlError>
+
+    /**
+     * Recompute each product's expected stock from its movements and report the
+     * products where stock_quantity disagrees. With applyCorrections, a correction
+     * adjustment is written for each so the movements add up to stock_quantity again.
+     */
+    readonly reconcileStock: (
+      options: ReconcileStockOptions
+    ) => Effect.Effect<ReadonlyArray<ReconciledProduct>, SqlError.SqlError>
 
     readonly getAvailability: (
       productId: ProductId
     ) => Effect.Effect<number, ProductNotFoundError | SqlError.SqlError>
 
+    /**
+     * Batched form of getAvailability. Unknown product IDs are omitted from the
+     * result rather than failing the whole lookup.
+     */
+    readonly getAvailabilities: (
+      productIds: ReadonlyArray<ProductId>
+    ) => Effect.Effect<ReadonlyArray<ProductAvailability>, SqlError.SqlError>
+
+    /**
+     * Reservations expire after RESERVATION_TTL_SECONDS unless extended.
+     * Fails with ProductArchivedError if any product has been archived.
+     * With allowPartial, short items are reported as shortfalls instead of failing the order.
+     */
     readonly reserveStock: (
       request: ReserveStockRequest
-    ) => Effect.Effect<ReadonlyArray<string>, InsufficientStockError | ProductNotFoundError | SqlError.SqlError>
+    ) => Effect.Effect<
+      ReserveStockResult,
+      InsufficientStockError | ProductNotFoundError | ProductArchivedError | SqlError.SqlError
+    >
 
     readonly releaseStock: (
       orderId: string
     ) => Effect.Effect<ReleaseReservationResult, SqlError.SqlError>
+
+    /**
+     * Hold an order's reservations indefinitely so the expiry sweeper skips them.
+     * Fails if the reservations were already released - the stock is gone.
+     */
+    readonly extendReservation: (
+      orderId: string
+    ) => Effect.Effect<
+      ReadonlyArray<InventoryReservation>,
+      ReservationNotFoundError | ReservationReleasedError | SqlError.SqlError
+    >
+
+    /**
+     * Turn an order's reservations into permanent stock deductions once the
+     * order is confirmed. Idempotent: already-committed reservations are returned as-is.
+     */
+    readonly commitReservation: (
+      orderId: string
+    ) => Effect.Effect<
+      ReadonlyArray<InventoryReservation>,
+      ReservationNotFoundError | ReservationReleasedError | SqlError.SqlError
+    >
   }
 >() {}
@@ -1,18 +1,67 @@
-import { Layer, Effect, Option, Match } from "effect"
-import { InventoryService } from "./InventoryService.js"
-import { StockAdjustmentRepository } from "../repositories/StockAdjustmentRepository.js"
+import { Layer, Effect, Option, Match, Config } from "effect"
+import {
+  InventoryService,
+  type ReconcileStockOptions,
+  type ReserveStockRequest,
+  type ReserveStockResult
+} from "./InventoryService.js"
+import { StockAdjustmentRepository, type ListAdjustmentsQuery } from "../repositories/StockAdjustmentRepository.js"
+import { StockMovementRepository, type ListMovementsQuery } from "../repositories/StockMovementRepository.js"
 import { ProductRepository } from "../repositories/ProductRepository.js"
 import { ReservationRepository } from "../repositories/ReservationRepository.js"
-import { ProductNotFoundError, DuplicateAdjustmentError, InsufficientStockError } from "../domain/errors.js"
+import {
+  ProductNotFoundError,
+  ProductArchivedError,
+  LocationNotFoundError,
+  DuplicateAdjustmentError,
+  InsufficientStockError,
+  InvalidCursorError,
+  ReservationNotFoundError,
+  ReservationReleasedError
+} from "../domain/errors.js"
 import type { ProductId } from "../domain/Product.js"
-import type { AddStockRequest, AddStockResponse, AdjustmentId } from "../domain/Adjustment.js"
+import { backorderHeadroom } from "../domain/Backorder.js"
+import { reservationShortfalls, type InventoryReservation } from "../domain/Reservation.js"
+import { DEFAULT_LOCATION_CODE, type LocationId } from "../domain/Location.js"
+import type {
+  AddStockRequest,
+  AddStockResponse,
+  AdjustStockRequest,
+  AdjustStockResponse,
+  AdjustmentId
+} from "../domain/Adjustment.js"
 
 export const InventoryServiceLive = Layer.effect(
   InventoryService,
   Effect.gen(function* () {
     const stockAdjustmentRepo = yield* StockAdjustmentRepository
+    const stockMovementRepo = yield* StockMovementRepository
     const productRepo = yield* ProductRepository
     const reservationRepo = yield* ReservationRepository
+    // How long a reservation holds stock before the sweeper returns it (default 15 minutes)
+    const reservationTtlSeconds = yield* Config.number("RESERVATION_TTL_SECONDS").pipe(
+      Config.withDefault(900)
+    )
+
+    // A missing default location is reported by its code, as no ID was given
+    const locationNotFound = (locationId: LocationId | undefined) =>
+      Effect.fail(new LocationNotFoundError({ locationId: locationId ?? DEFAULT_LOCATION_CODE }))
+
+    const toReserveStockResult = (
+      request: ReserveStockRequest,
+      reservations: ReadonlyArray<InventoryReservation>
+    ): ReserveStockResult => ({
+      reservationIds: reservations.map(r => r.id),
+      shortfalls: reservationShortfalls(request.items, reservations)
+    })
+
+    const findProductOrFail = (productId: ProductId) =>
+      productRepo.findById(productId).pipe(
+        Effect.flatMap(Option.match({
+          onNone: () => Effect.fail(new ProductNotFoundError({ productId, searchedBy: "id" })),
+          onSome: Effect.succeed
+        }))
+      )
 
     return {
       addStock: (productId: ProductId, idempotencyKey: string, request: AddStockRequest) =>
@@ -22,10 +71,12 @@ export const InventoryServiceLive = Layer.effect(
           // 2. Product existence check
           // 3. Stock update
           // 4. Adjustment record creation
-          // All in a single SQL statement with no race condition window
+          // All in a single SQL statement with no race condition window,
+          // followed in the same transaction by filling waiting backorders
           const result = yield* stockAdjustmentRepo.addStockAtomic({
             idempotencyKey,
             productId,
+            locationId: request.locationId ?? null,
             quantity: request.quantity,
             reason: request.reason,
             referenceId: Option.getOrNull(request.referenceId),
@@ -33,11 +84,12 @@ export const InventoryServiceLive = Layer.effect(
             createdBy: null // Could be populated from auth context in future
           })
 
-          // Handle the three possible outcomes using exhaustive pattern matching
+          // Handle the possible outcomes using exhaustive pattern matching
           const response = Match.value(result).pipe(
             Match.tag("ProductNotFound", () =>
               Effect.fail(new ProductNotFoundError({ productId, searchedBy: "id" }))
             ),
+            Match.tag("LocationNotFound", () => locationNotFound(request.locationId)),
             Match.tag("AlreadyExists", ({ adjustment }) =>
               Effect.fail(new DuplicateAdjustmentError({
                 idempotencyKey,
@@ -49,15 +101,17 @@ export const InventoryServiceLive = Layer.effect(
                 }
               }))
             ),
-            Match.tag("Created", ({ adjustment, sku }) =>
+            Match.tag("Created", ({ adjustment, sku, allocatedBackorders }) =>
               Effect.succeed({
                 productId: adjustment.productId,
                 sku,
+                locationId: adjustment.locationId!,
                 previousQuantity: adjustment.previousQuantity,
                 addedQuantity: adjustment.quantityChange,
                 newQuantity: adjustment.newQuantity,
                 adjustmentId: adjustment.id as AdjustmentId,
-                createdAt: adjustment.createdAt
+                createdAt: adjustment.createdAt,
+                allocatedBackorders
               } as AddStockResponse)
             ),
             Match.exhaustive
@@ -66,6 +120,110 @@ export const InventoryServiceLive = Layer.effect(
           return yield* response
         }),
 
+      adjustStock: (productId: ProductId, idempotencyKey: string, request: AdjustStockRequest) =>
+        Effect.gen(function* () {
+          // The schema guarantees exactly one of the two is set for the reason
+          const change = request.countedQuantity !== undefined
+            ? { _tag: "Absolute", quantity: request.countedQuantity } as const
+            : { _tag: "Relative", quantity: request.quantityChange! } as const
+
+          const result = yield* stockAdjustmentRepo.adjustStockAtomic({
+            idempotencyKey,
+            productId,
+            locationId: request.locationId ?? null,
+            change,
+            reason: request.reason,
+            referenceId: Option.getOrNull(request.referenceId),
+            notes: Option.getOrNull(request.notes),
+            createdBy: null
+          })
+
+          const response = Match.value(result).pipe(
+            Match.tag("ProductNotFound", () =>
+              Effect.fail(new ProductNotFoundError({ productId, searchedBy: "id" }))
+            ),
+            Match.tag("LocationNotFound", () => locationNotFound(request.locationId)),
+            Match.tag("InsufficientStock", ({ sku, available, requested }) =>
+              Effect.fail(new InsufficientStockError({ productId, productSku: sku, requested, available }))
+            ),
+            Match.tag("AlreadyExists", ({ adjustment }) =>
+              Effect.fail(new DuplicateAdjustmentError({
+                idempotencyKey,
+                existingAdjustment: {
+                  adjustmentId: adjustment.id,
+                  previousQuantity: adjustment.previousQuantity,
+                  addedQuantity: adjustment.quantityChange,
+                  newQuantity: adjustment.newQuantity
+                }
+              }))
+            ),
+            Match.tag("Created", ({ adjustment, sku }) =>
+              Effect.succeed({
+                productId: adjustment.productId,
+                sku,
+                locationId: adjustment.locationId!,
+                reason: request.reason,
+                previousQuantity: adjustment.previousQuantity,
+                quantityChange: adjustment.quantityChange,
+                newQuantity: adjustment.newQuantity,
+                adjustmentId: adjustment.id as AdjustmentId,
+                createdAt: adjustment.createdAt
+              } as AdjustStockResponse)
+            ),
+            Match.exhaustive
+          )
+
+          return yield* response
+        }),
+
+      listAdjustments: (productId: ProductId, query: ListAdjustmentsQuery) =>
+        Effect.gen(function* () {
+          yield* findProductOrFail(productId)
+          // A cursor that is not one of the product's adjustments would otherwise read as an empty last page
+          if (query.after !== undefined && !(yield* stockAdjustmentRepo.existsForProduct(productId, query.after))) {
+            return yield* Effect.fail(new InvalidCursorError({ cursor: query.after }))
+          }
+
+          // Fetch one extra row to learn whether another page follows
+          const rows = yield* stockAdjustmentRepo.listByProduct(productId, { ...query, limit: query.limit + 1 })
+          const adjustments = rows.slice(0, query.limit)
+          const nextCursor = rows.length > query.limit ? adjustments[adjustments.length - 1].id : null
+          return { adjustments, nextCursor }
+        }),
+
+      listMovements: (productId: ProductId, query: ListMovementsQuery) =>
+        Effect.gen(function* () {
+          const product = yield* findProductOrFail(productId)
+          if (query.after !== undefined && !(yield* stockMovementRepo.existsForProduct(productId, query.after))) {
+            return yield* Effect.fail(new InvalidCursorError({ cursor: query.after }))
+          }
+
+          const rows = yield* stockMovementRepo.listByProduct(productId, { ...query, limit: query.limit + 1 })
+          const movements = rows.slice(0, query.limit)
+          const nextCursor = rows.length > query.limit ? movements[movements.length - 1].id : null
+          return { stockQuantity: product.stockQuantity, movements, nextCursor }
+        }),
+
+      reconcileStock: (options: ReconcileStockOptions) =>
+        Effect.gen(function* () {
+          const discrepancies = yield* stockMovementRepo.findDiscrepancies(options.productIds)
+
+          return yield* Effect.forEach(discrepancies, (discrepancy) =>
+            Effect.gen(function* () {
+              // Re-checked under the product lock - a concurrent reservation may have settled it
+              const correction = options.applyCorrections
+                ? yield* stockMovementRepo.correctDiscrepancy(discrepancy.productId, "reconciliation")
+                : Option.none()
+
+              return {
+                ...discrepancy,
+                difference: discrepancy.stockQuantity - discrepancy.expectedQuantity,
+                correctionAdjustmentId: Option.getOrNull(correction)
+              }
+            })
+          )
+        }),
+
       getAvailability: (productId: ProductId) =>
         Effect.gen(function* () {
           const product = yield* productRepo.findById(productId)
@@ -75,11 +233,37 @@ export const InventoryServiceLive = Layer.effect(
           })
         }),
 
+      getAvailabilities: (productIds: ReadonlyArray<ProductId>) =>
+        Effect.gen(function* () {
+          const products = yield* productRepo.findByIds(Array.from(new Set(productIds)))
+
+          // Only a capped backorder limit depends on what is already backordered
+          const capped = products.filter((p) => p.backorderPolicy !== "none" && p.backorderLimit !== null)
+          const backordered = capped.length > 0
+            ? yield* reservationRepo.sumBackorderedByProducts(capped.map((p) => p.id))
+            : []
+
+          return products.map((p) => ({
+            productId: p.id,
+            sku: p.sku,
+            stockQuantity: p.stockQuantity,
+            backorderPolicy: p.backorderPolicy,
+            backorderableQuantity: backorderHeadroom(
+              p.backorderPolicy,
+              p.backorderLimit,
+              backordered.find((b) => b.productId === p.id)?.quantity ?? 0
+            )
+          }))
+        }),
+
       reserveStock: (request) =>
         Effect.gen(function* () {
           const result = yield* reservationRepo.reserveStockAtomic(
             request.orderId,
-            request.items
+            request.items,
+            reservationTtlSeconds,
+            request.destination ?? null,
+            request.allowPartial ?? false
           )
 
           // Handle the discriminated union result using exhaustive pattern matching
@@ -87,6 +271,9 @@ export const InventoryServiceLive = Layer.effect(
             Match.tag("ProductNotFound", ({ productId }) =>
               Effect.fail(new ProductNotFoundError({ productId, searchedBy: "id" }))
             ),
+            Match.tag("ProductArchived", ({ productId }) =>
+              Effect.fail(new ProductArchivedError({ productId }))
+            ),
             Match.tag("InsufficientStock", ({ productId, productSku, requested, available }) =>
               Effect.fail(new InsufficientStockError({
                 productId,
@@ -97,17 +284,57 @@ export const InventoryServiceLive = Layer.effect(
             ),
             Match.tag("AlreadyReserved", ({ reservations }) =>
               // Idempotent retry - return existing reservation IDs
-              Effect.succeed(reservations.map(r => r.id))
+              Effect.succeed(toReserveStockResult(request, reservations))
             ),
             Match.tag("Reserved", ({ reservations }) =>
-              Effect.succeed(reservations.map(r => r.id))
+              Effect.succeed(toReserveStockResult(request, reservations))
             ),
             Match.exhaustive
           )
         }),
 
       releaseStock: (orderId) =>
-        reservationRepo.releaseByOrderId(orderId)
+        reservationRepo.releaseByOrderId(orderId),
+
+      extendReservation: (orderId) =>
+        Effect.gen(function* () {
+          const result = yield* reservationRepo.extendByOrderId(orderId)
+
+          return yield* Match.value(result).pipe(
+            Match.tag("NotFound", () =>
+              Effect.fail(new ReservationNotFoundError({ orderId }))
+            ),
+            Match.tag("AlreadyReleased", () =>
+              Effect.fail(new ReservationReleasedError({ orderId }))
+            ),
+            Match.tag("Extended", ({ reservations }) =>
+              Effect.succeed(reservations)
+            ),
+            Match.exhaustive
+          )
+        }),
+
+      commitReservation: (orderId) =>
+        Effect.gen(function* () {
+          const result = yield* reservationRepo.commitByOrderId(orderId)
+
+          return yield* Match.value(result).pipe(
+            Match.tag("NotFound", () =>
+              Effect.fail(new ReservationNotFoundError({ orderId }))
+            ),
+            Match.tag("AlreadyReleased", () =>
+              Effect.fail(new ReservationReleasedError({ orderId }))
+            ),
+            Match.tag("AlreadyCommitted", ({ reservations }) =>
+              // Idempotent retry - return the existing commit
+              Effect.succeed(reservations)
+            ),
+            Match.tag("Committed", ({ reservations }) =>
+              Effect.succeed(reservations)
+            ),
+            Match.exhaustive
+          )
+        })
     }
   })
 )
@@ -0,0 +1,25 @@
+import { Context, Effect } from "effect"
+import { SqlError } from "@effect/sql"
+import type { CreateLocationRequest, Location } from "../domain/Location.js"
+import type { ProductId } from "../domain/Product.js"
+import type { DuplicateLocationCodeError } from "../domain/errors.js"
+import type { LocationStockLevel } from "../repositories/LocationRepository.js"
+
+export class LocationService extends Context.Tag("LocationService")<
+  LocationService,
+  {
+    readonly create: (
+      request: CreateLocationRequest
+    ) => Effect.Effect<Location, DuplicateLocationCodeError | SqlError.SqlError>
+
+    readonly list: () => Effect.Effect<ReadonlyArray<Location>, SqlError.SqlError>
+
+    /**
+     * Per-location breakdown of the given products' stock. The quantities of a
+     * product add up to its stock_quantity.
+     */
+    readonly findStockByProducts: (
+      productIds: ReadonlyArray<ProductId>
+    ) => Effect.Effect<ReadonlyArray<LocationStockLevel>, SqlError.SqlError>
+  }
+>() {}
@@ -0,0 +1,40 @@
+import { Layer, Effect, Option } from "effect"
+import { LocationService } from "./LocationService.js"
+import { LocationRepository } from "../repositories/LocationRepository.js"
+import { DuplicateLocationCodeError } from "../domain/errors.js"
+import type { CreateLocationRequest } from "../domain/Location.js"
+import type { ProductId } from "../domain/Product.js"
+
+export const LocationServiceLive = Layer.effect(
+  LocationService,
+  Effect.gen(function* () {
+    const repo = yield* LocationRepository
+
+    return {
+      create: (request: CreateLocationRequest) =>
+        repo.findByCode(request.code).pipe(
+          Effect.andThen(
+            Option.match({
+              onSome: (location) =>
+                Effect.fail(
+                  new DuplicateLocationCodeError({ code: request.code, existingLocationId: location.id })
+                ),
+              onNone: () =>
+                repo.insert({
+                  code: request.code,
+                  name: request.name,
+                  priority: request.priority,
+                  latitude: request.latitude ?? null,
+                  longitude: request.longitude ?? null
+                })
+            })
+          )
+        ),
+
+      list: () => repo.list(),
+
+      findStockByProducts: (productIds: ReadonlyArray<ProductId>) =>
+        repo.findStockByProducts(Array.from(new Set(productIds)))
+    }
+  })
+)
@@ -1,7 +1,22 @@
 import { Context, Effect } from "effect"
 import { SqlError } from "@effect/sql"
-import type { CreateProductRequest, Product, ProductId } from "../domain/Product.js"
-import type { DuplicateSkuError, ProductNotFoundError } from "../domain/errors.js"
+import type { CreateProductRequest, Product, ProductId, UpdateProductRequest } from "../domain/Product.js"
+import type { FxRate } from "../domain/FxRate.js"
+import type {
+  DuplicateSkuError,
+  InvalidCursorError,
+  ProductArchivedError,
+  ProductNotFoundError,
+  ProductUpdateConflictError,
+  UnsupportedCurrencyError
+} from "../domain/errors.js"
+import type { ListProductsQuery } from "../repositories/ProductRepository.js"
+
+export interface ProductPage {
+  readonly products: ReadonlyArray<Product>
+  // ID of the last product on this page, or null when there are no more
+  readonly nextCursor: ProductId | null
+}
 
 export class ProductService extends Context.Tag("ProductService")<
   ProductService,
@@ -17,5 +32,49 @@ export class ProductService extends Context.Tag("ProductService")<
     readonly findBySku: (
       sku: string
     ) => Effect.Effect<Product, ProductNotFoundError | SqlError.SqlError>
+
+    /**
+     * Batch lookup by ID. Unknown IDs are omitted from the result rather than
+     * failing, so callers can report every missing product at once.
+     */
+    readonly findByIds: (
+      ids: ReadonlyArray<ProductId>
+    ) => Effect.Effect<ReadonlyArray<Product>, SqlError.SqlError>
+
+    /**
+     * One page of the catalog, newest first. Archived products are excluded unless requested.
+     * Fails with InvalidCursorError if the cursor names no product.
+     */
+    readonly list: (
+      query: ListProductsQuery
+    ) => Effect.Effect<ProductPage, InvalidCursorError | SqlError.SqlError>
+
+    /**
+     * Update name, price and/or backorder settings. Fails with ProductUpdateConflictError if the product
+     * changed since expectedUpdatedAt, and ProductArchivedError if it is archived.
+     */
+    readonly update: (
+      id: ProductId,
+      request: UpdateProductRequest
+    ) => Effect.Effect<
+      Product,
+      ProductNotFoundError | ProductArchivedError | ProductUpdateConflictError | SqlError.SqlError
+    >
+
+    /**
+     * Archive (soft-delete) a product so it can no longer be reserved.
+     * Archiving an archived product returns it unchanged.
+     */
+    readonly archive: (
+      id: ProductId
+    ) => Effect.Effect<Product, ProductNotFoundError | SqlError.SqlError>
+
+    /**
+     * FX rate for quoting base-currency prices in `currency`.
+     * The base currency itself always resolves (rate 1) even without a table row.
+     */
+    readonly findFxRate: (
+      currency: string
+    ) => Effect.Effect<FxRate, UnsupportedCurrencyError | SqlError.SqlError>
   }
 >() {}
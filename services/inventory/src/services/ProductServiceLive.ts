@@ -1,8 +1,18 @@
-import { Layer, Effect, Option } from "effect"
+import { Layer, Effect, Option, DateTime } from "effect"
 import { ProductService } from "./ProductService.js"
 import { ProductRepository } from "../repositories/ProductRepository.js"
-import { DuplicateSkuError, ProductNotFoundError } from "../domain/errors.js"
-import type { CreateProductRequest, ProductId } from "../domain/Product.js"
+import { FxRateRepository } from "../repositories/FxRateRepository.js"
+import { BASE_CURRENCY, FxRate } from "../domain/FxRate.js"
+import {
+  DuplicateSkuError,
+  InvalidCursorError,
+  ProductArchivedError,
+  ProductNotFoundError,
+  ProductUpdateConflictError,
+  UnsupportedCurrencyError
+} from "../domain/errors.js"
+import type { CreateProductRequest, ProductId, UpdateProductRequest } from "../domain/Product.js"
+import type { ListProductsQuery } from "../repositories/ProductRepository.js"
 
 /** Converts an Option to an Effect, failing with the provided error if None */
 const fromOption =
@@ -14,6 +24,7 @@ export const ProductServiceLive = Layer.effect(
   ProductService,
   Effect.gen(function* () {
     const repo = yield* ProductRepository
+    const fxRateRepo = yield* FxRateRepository
 
     return {
       create: (request: CreateProductRequest) =>
@@ -29,7 +40,9 @@ export const ProductServiceLive = Layer.effect(
                   name: request.name,
                   sku: request.sku,
                   priceCents: request.priceCents,
-                  stockQuantity: request.initialStock
+                  stockQuantity: request.initialStock,
+                  backorderPolicy: request.backorderPolicy,
+                  backorderLimit: request.backorderLimit ?? null
                 })
             })
           )
@@ -43,7 +56,74 @@ export const ProductServiceLive = Layer.effect(
       findBySku: (sku: string) =>
         repo.findBySku(sku).pipe(
           Effect.flatMap(fromOption(() => new ProductNotFoundError({ productId: sku, searchedBy: "sku" })))
-        )
+        ),
+
+      findByIds: (ids: ReadonlyArray<ProductId>) =>
+        repo.findByIds(Array.from(new Set(ids))),
+
+      list: (query: ListProductsQuery) =>
+        Effect.gen(function* () {
+          // A cursor that names no product would otherwise read as an empty last page
+          if (query.after !== undefined && Option.isNone(yield* repo.findById(query.after))) {
+            return yield* Effect.fail(new InvalidCursorError({ cursor: query.after }))
+          }
+
+          // Fetch one extra row to learn whether another page follows
+          const rows = yield* repo.list({ ...query, limit: query.limit + 1 })
+          const products = rows.slice(0, query.limit)
+          const nextCursor = rows.length > query.limit ? products[products.length - 1].id : null
+          return { products, nextCursor }
+        }),
+
+      update: (id: ProductId, request: UpdateProductRequest) =>
+        Effect.gen(function* () {
+          const updated = yield* repo.updateDetails(
+            id,
+            {
+              name: request.name,
+              priceCents: request.priceCents,
+              backorderPolicy: request.backorderPolicy,
+              backorderLimit: request.backorderLimit
+            },
+            DateTime.toDateUtc(request.expectedUpdatedAt)
+          )
+          if (Option.isSome(updated)) {
+            return updated.value
+          }
+
+          // The conditional update matched nothing - find out which check failed
+          const current = yield* repo.findById(id).pipe(
+            Effect.flatMap(fromOption(() => new ProductNotFoundError({ productId: id, searchedBy: "id" })))
+          )
+          if (current.archivedAt !== null) {
+            return yield* Effect.fail(new ProductArchivedError({ productId: id }))
+          }
+          return yield* Effect.fail(new ProductUpdateConflictError({
+            productId: id,
+            currentUpdatedAt: DateTime.formatIso(current.updatedAt)
+          }))
+        }),
+
+      archive: (id: ProductId) =>
+        repo.archive(id).pipe(
+          Effect.flatMap(
+            Option.match({
+              onSome: Effect.succeed,
+              // Already archived (idempotent) or missing
+              onNone: () =>
+                repo.findById(id).pipe(
+                  Effect.flatMap(fromOption(() => new ProductNotFoundError({ productId: id, searchedBy: "id" })))
+                )
+            })
+          )
+        ),
+
+      findFxRate: (currency: string) =>
+        currency === BASE_CURRENCY
+          ? Effect.succeed(new FxRate({ currency, rate: 1, updatedAt: DateTime.unsafeNow() }))
+          : fxRateRepo.findByCurrency(currency).pipe(
+              Effect.flatMap(fromOption(() => new UnsupportedCurrencyError({ currency })))
+            )
     }
   })
 )
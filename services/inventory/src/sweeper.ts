@@ -0,0 +1,46 @@
+import { Config, Duration, Effect, Layer, Schedule } from "effect"
+import { ReservationRepository } from "./repositories/ReservationRepository.js"
+
+/**
+ * Release one batch of expired reservations.
+ * Reservations expire when the orchestrator reserves stock and then never
+ * extends or releases it (e.g. it died mid-saga); this returns the stock.
+ */
+export const sweepExpiredReservations = (batchSize: number) =>
+  Effect.gen(function* () {
+    const reservationRepo = yield* ReservationRepository
+    const result = yield* reservationRepo.releaseExpired(batchSize)
+
+    if (result.releasedCount > 0) {
+      yield* Effect.logWarning("Released expired reservations", {
+        releasedCount: result.releasedCount,
+        totalQuantityRestored: result.totalQuantityRestored,
+        orderIds: result.orderIds
+      })
+    }
+
+    return result
+  }).pipe(Effect.withSpan("sweepExpiredReservations"))
+
+/**
+ * Background fiber that sweeps expired reservations every
+ * RESERVATION_SWEEP_INTERVAL_MS. Errors are logged and the next tick retries.
+ */
+export const ReservationSweeperLive = Layer.scopedDiscard(
+  Effect.gen(function* () {
+    const intervalMs = yield* Config.number("RESERVATION_SWEEP_INTERVAL_MS").pipe(
+      Config.withDefault(30000)
+    )
+    const batchSize = yield* Config.number("RESERVATION_SWEEP_BATCH_SIZE").pipe(
+      Config.withDefault(100)
+    )
+
+    yield* Effect.logInfo("Starting reservation expiry sweeper", { intervalMs, batchSize })
+
+    yield* sweepExpiredReservations(batchSize).pipe(
+      Effect.catchAll((error) => Effect.logError("Reservation sweep failed", { error })),
+      Effect.repeat(Schedule.spaced(Duration.millis(intervalMs))),
+      Effect.forkScoped
+    )
+  })
+)
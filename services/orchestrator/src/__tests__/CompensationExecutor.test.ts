@@ -1,14 +1,23 @@
 import { describe, it, expect } from "vitest"
-import { Effect, Layer } from "effect"
+import { DateTime, Effect, Layer } from "effect"
 import { CompensationExecutor, type CompensationContext } from "../services/CompensationExecutor.js"
 import { CompensationExecutorLive } from "../services/CompensationExecutorLive.js"
 import { OrdersClient, type CancelOrderResult } from "../clients/OrdersClient.js"
 import { InventoryClient, type ReleaseStockResult, type ReleaseStockParams } from "../clients/InventoryClient.js"
-import { PaymentsClient, type VoidPaymentResult, type VoidPaymentParams } from "../clients/PaymentsClient.js"
+import {
+  PaymentsClient,
+  type VoidPaymentResult,
+  type VoidPaymentParams,
+  type RefundPaymentResult,
+  type RefundPaymentParams
+} from "../clients/PaymentsClient.js"
+import { SagaStepRepository, type RecordSagaStepParams } from "../repositories/SagaStepRepository.js"
+import { OrderLedgerPayment, type OrderLedgerId } from "../domain/OrderLedger.js"
 import {
   OrderCancellationError,
   InventoryReleaseError,
   PaymentVoidError,
+  PaymentRefundError,
   ServiceConnectionError
 } from "../domain/errors.js"
 
@@ -23,6 +32,14 @@ const testVoidPaymentResult: VoidPaymentResult = {
   voidedAt: "2024-01-15T10:30:00Z"
 }
 
+const testRefundPaymentResult: RefundPaymentResult = {
+  refundId: "ref-123",
+  captureId: "cap-123",
+  status: "REFUNDED",
+  amountCents: 5999,
+  refundedAt: "2024-01-15T10:30:00Z"
+}
+
 const testReleaseStockResult: ReleaseStockResult = {
   orderId: "order-789",
   releasedCount: 2,
@@ -34,6 +51,20 @@ const testCancelOrderResult: CancelOrderResult = {
   status: "CANCELLED"
 }
 
+// Split-tender instrument: a gift card at sequence 0, the primary card at sequence 1
+const createTestPayment = (sequence: number, paymentCaptureId: string | null): OrderLedgerPayment =>
+  new OrderLedgerPayment({
+    id: `payment-${sequence}`,
+    orderLedgerId: "ledger-123" as OrderLedgerId,
+    sequence,
+    method: sequence === 0 ? "gift_card" : "card",
+    amountCents: sequence === 0 ? 1000 : 4999,
+    status: "AUTHORIZED",
+    paymentAuthorizationId: `auth-${sequence}`,
+    paymentCaptureId,
+    createdAt: DateTime.unsafeMake("2024-01-15T10:00:00Z")
+  })
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Mock Factories
 // ═══════════════════════════════════════════════════════════════════════════
@@ -43,6 +74,7 @@ const createMockOrdersClient = (overrides: {
 } = {}) => {
   return Layer.succeed(OrdersClient, {
     createOrder: () => Effect.succeed({ orderId: "order-789", status: "CREATED" }),
+    adjustOrder: () => Effect.die("adjustOrder not expected"),
     confirmOrder: () => Effect.succeed({ orderId: "order-789", status: "CONFIRMED" }),
     cancelOrder: overrides.cancelOrder ?? (() => Effect.succeed(testCancelOrderResult))
   })
@@ -52,29 +84,45 @@ const createMockInventoryClient = (overrides: {
   releaseStock?: (params: ReleaseStockParams) => Effect.Effect<ReleaseStockResult, InventoryReleaseError | ServiceConnectionError>
 } = {}) => {
   return Layer.succeed(InventoryClient, {
-    reserveStock: () => Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2 }),
-    releaseStock: overrides.releaseStock ?? (() => Effect.succeed(testReleaseStockResult))
+    reserveStock: () => Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2, shortfalls: [] }),
+    releaseStock: overrides.releaseStock ?? (() => Effect.succeed(testReleaseStockResult)),
+    extendReservation: () => Effect.die("extendReservation not expected"),
+    commitReservation: () => Effect.die("commitReservation not expected")
   })
 }
 
 const createMockPaymentsClient = (overrides: {
   voidPayment?: (params: VoidPaymentParams) => Effect.Effect<VoidPaymentResult, PaymentVoidError | ServiceConnectionError>
+  refundPayment?: (params: RefundPaymentParams) => Effect.Effect<RefundPaymentResult, PaymentRefundError | ServiceConnectionError>
 } = {}) => {
   return Layer.succeed(PaymentsClient, {
     capturePayment: () => Effect.succeed({ captureId: "cap-123", authorizationId: "auth-456", status: "CAPTURED", amountCents: 5999, currency: "USD", capturedAt: "2024-01-15T10:30:00Z" }),
-    voidPayment: overrides.voidPayment ?? (() => Effect.succeed(testVoidPaymentResult))
+    voidPayment: overrides.voidPayment ?? (() => Effect.succeed(testVoidPaymentResult)),
+    refundPayment: overrides.refundPayment ?? (() => Effect.succeed(testRefundPaymentResult))
+  })
+}
+
+const createMockSagaStepRepo = (recorded: RecordSagaStepParams[] = []) => {
+  return Layer.succeed(SagaStepRepository, {
+    record: (params) => {
+      recorded.push(params)
+      return Effect.void
+    },
+    findSucceededSteps: () => Effect.succeed([])
   })
 }
 
 const createTestLayer = (
   ordersClientOverrides: Parameters<typeof createMockOrdersClient>[0] = {},
   inventoryClientOverrides: Parameters<typeof createMockInventoryClient>[0] = {},
-  paymentsClientOverrides: Parameters<typeof createMockPaymentsClient>[0] = {}
+  paymentsClientOverrides: Parameters<typeof createMockPaymentsClient>[0] = {},
+  recordedSteps: RecordSagaStepParams[] = []
 ) => {
   return CompensationExecutorLive.pipe(
     Layer.provide(createMockOrdersClient(ordersClientOverrides)),
     Layer.provide(createMockInventoryClient(inventoryClientOverrides)),
-    Layer.provide(createMockPaymentsClient(paymentsClientOverrides))
+    Layer.provide(createMockPaymentsClient(paymentsClientOverrides)),
+    Layer.provide(createMockSagaStepRepo(recordedSteps))
   )
 }
 
@@ -89,6 +137,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "ORDER_CREATED"
       }
 
@@ -111,6 +160,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "INVENTORY_RESERVED"
       }
 
@@ -127,11 +177,63 @@ describe("CompensationExecutor", () => {
       expect(result.stepsExecuted).toContain("cancel_order")
     })
 
-    it("should release inventory and cancel order (no void) when last status is PAYMENT_CAPTURED", async () => {
+    it("should refund payment, release inventory, and cancel order (no void) when last status is PAYMENT_CAPTURED", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-456",
+        paymentCaptureId: "cap-123",
+        lastSuccessfulStatus: "PAYMENT_CAPTURED"
+      }
+      let refundParams: RefundPaymentParams | undefined
+
+      const testLayer = createTestLayer({}, {}, {
+        refundPayment: (params) => {
+          refundParams = params
+          return Effect.succeed(testRefundPaymentResult)
+        }
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(result.stepsExecuted).toEqual(["refund_payment", "release_inventory", "cancel_order"])
+      expect(refundParams).toEqual({
+        captureId: "cap-123",
+        idempotencyKey: "refund-ledger-123",
+        reason: "Saga compensation"
+      })
+    })
+
+    it("should unwind a cancelled COMPLETED order like PAYMENT_CAPTURED", async () => {
       const context: CompensationContext = {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: "cap-123",
+        lastSuccessfulStatus: "COMPLETED"
+      }
+
+      const testLayer = createTestLayer()
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(result.stepsExecuted).toEqual(["refund_payment", "release_inventory", "cancel_order"])
+    })
+
+    it("should skip the refund when no capture ID is recorded for PAYMENT_CAPTURED", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "PAYMENT_CAPTURED"
       }
 
@@ -144,6 +246,7 @@ describe("CompensationExecutor", () => {
 
       expect(result._tag).toBe("CompensationCompleted")
       expect(result.stepsExecuted).not.toContain("void_payment")
+      expect(result.stepsExecuted).not.toContain("refund_payment")
       expect(result.stepsExecuted).toContain("release_inventory")
       expect(result.stepsExecuted).toContain("cancel_order")
     })
@@ -153,6 +256,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: null,
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "AUTHORIZED"
       }
 
@@ -176,6 +280,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "INVENTORY_RESERVED"
       }
 
@@ -204,6 +309,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "INVENTORY_RESERVED"
       }
 
@@ -235,11 +341,46 @@ describe("CompensationExecutor", () => {
       }
     })
 
+    it("should continue with other steps when refund payment fails", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-456",
+        paymentCaptureId: "cap-123",
+        lastSuccessfulStatus: "PAYMENT_CAPTURED"
+      }
+
+      const testLayer = createTestLayer(
+        {},
+        {},
+        {
+          refundPayment: () => Effect.fail(new PaymentRefundError({
+            captureId: "cap-123",
+            reason: "Payment gateway unavailable",
+            statusCode: 503,
+            isRetryable: true
+          }))
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationFailed")
+      expect(result.stepsExecuted).toEqual(["release_inventory", "cancel_order"])
+      if (result._tag === "CompensationFailed") {
+        expect(result.errors).toEqual(["refund_payment: PaymentRefundError"])
+      }
+    })
+
     it("should continue with other steps when release inventory fails", async () => {
       const context: CompensationContext = {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "INVENTORY_RESERVED"
       }
 
@@ -272,6 +413,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "INVENTORY_RESERVED"
       }
 
@@ -304,6 +446,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "INVENTORY_RESERVED"
       }
 
@@ -349,12 +492,241 @@ describe("CompensationExecutor", () => {
     })
   })
 
+  describe("executeCompensation - step history", () => {
+    it("should record each compensation action with its outcome", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
+        lastSuccessfulStatus: "INVENTORY_RESERVED"
+      }
+      const recordedSteps: RecordSagaStepParams[] = []
+
+      const testLayer = createTestLayer(
+        {},
+        {
+          releaseStock: () => Effect.fail(new InventoryReleaseError({
+            orderId: "order-789",
+            reason: "Server error",
+            statusCode: 500,
+            isRetryable: true
+          }))
+        },
+        {},
+        recordedSteps
+      )
+
+      await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(recordedSteps.map((s) => [s.stepName, s.outcome])).toEqual([
+        ["void_payment", "SUCCEEDED"],
+        ["release_inventory", "FAILED"],
+        ["cancel_order", "SUCCEEDED"]
+      ])
+      expect(recordedSteps[1]).toMatchObject({
+        orderLedgerId: "ledger-123",
+        fromStatus: "COMPENSATING",
+        toStatus: null,
+        errorTag: "InventoryReleaseError",
+        errorReason: "Server error"
+      })
+    })
+
+    it("should skip steps that already succeeded and tag records with the attempt", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
+        lastSuccessfulStatus: "INVENTORY_RESERVED",
+        completedSteps: ["void_payment", "cancel_order"],
+        attempt: 3
+      }
+      const recordedSteps: RecordSagaStepParams[] = []
+      let voidCalls = 0
+
+      const testLayer = createTestLayer(
+        {},
+        {},
+        {
+          voidPayment: () => {
+            voidCalls++
+            return Effect.succeed(testVoidPaymentResult)
+          }
+        },
+        recordedSteps
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(result.stepsExecuted).toEqual(["release_inventory"])
+      expect(voidCalls).toBe(0)
+      expect(recordedSteps.map((s) => [s.stepName, s.attempt])).toEqual([["release_inventory", 3]])
+    })
+  })
+
+  describe("executeCompensation - split tender", () => {
+    it("should refund every captured instrument, last authorized first", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-1",
+        paymentCaptureId: "cap-1",
+        payments: [createTestPayment(0, "cap-0"), createTestPayment(1, "cap-1")],
+        lastSuccessfulStatus: "PAYMENT_CAPTURED"
+      }
+      const refunds: RefundPaymentParams[] = []
+      const recordedSteps: RecordSagaStepParams[] = []
+
+      const testLayer = createTestLayer(
+        {},
+        {},
+        {
+          voidPayment: () => Effect.die("voidPayment not expected"),
+          refundPayment: (params) => {
+            refunds.push(params)
+            return Effect.succeed(testRefundPaymentResult)
+          }
+        },
+        recordedSteps
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(refunds.map((r) => [r.captureId, r.idempotencyKey])).toEqual([
+        ["cap-1", "refund-ledger-123-1"],
+        ["cap-0", "refund-ledger-123"]
+      ])
+      // One history entry for the step, not one per instrument
+      expect(recordedSteps.map((s) => s.stepName)).toEqual(["refund_payment", "release_inventory", "cancel_order"])
+    })
+
+    it("should refund instruments captured before a part-way capture failure and void the rest", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-1",
+        paymentCaptureId: null,
+        payments: [createTestPayment(0, "cap-0"), createTestPayment(1, null)],
+        lastSuccessfulStatus: "INVENTORY_RESERVED"
+      }
+      const calls: string[] = []
+
+      const testLayer = createTestLayer(
+        {},
+        {},
+        {
+          voidPayment: (params) => {
+            calls.push(`void ${params.authorizationId} ${params.idempotencyKey}`)
+            return Effect.succeed(testVoidPaymentResult)
+          },
+          refundPayment: (params) => {
+            calls.push(`refund ${params.captureId} ${params.idempotencyKey}`)
+            return Effect.succeed(testRefundPaymentResult)
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(calls).toEqual([
+        "void auth-1 void-ledger-123-1",
+        "refund cap-0 refund-ledger-123"
+      ])
+      expect(result.stepsExecuted).toEqual(["void_payment", "refund_payment", "release_inventory", "cancel_order"])
+    })
+
+    it("should void an instrument that partial fulfilment left with nothing to capture", async () => {
+      // The 4999 taken off the order comes off the card, so only the gift card was captured
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-1",
+        paymentCaptureId: "cap-0",
+        payments: [createTestPayment(0, "cap-0"), createTestPayment(1, null)],
+        unfulfilledAmountCents: 4999,
+        lastSuccessfulStatus: "PAYMENT_CAPTURED"
+      }
+      const calls: string[] = []
+
+      const testLayer = createTestLayer(
+        {},
+        {},
+        {
+          voidPayment: (params) => {
+            calls.push(`void ${params.authorizationId} ${params.idempotencyKey}`)
+            return Effect.succeed(testVoidPaymentResult)
+          },
+          refundPayment: (params) => {
+            calls.push(`refund ${params.captureId} ${params.idempotencyKey}`)
+            return Effect.succeed(testRefundPaymentResult)
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(calls).toEqual([
+        "void auth-1 void-ledger-123-1",
+        "refund cap-0 refund-ledger-123"
+      ])
+      expect(result.stepsExecuted).toEqual(["void_payment", "refund_payment", "release_inventory", "cancel_order"])
+    })
+
+    it("should not void a captured instrument whose capture ID is missing", async () => {
+      const context: CompensationContext = {
+        orderLedgerId: "ledger-123",
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-1",
+        paymentCaptureId: "cap-0",
+        payments: [createTestPayment(0, "cap-0"), createTestPayment(1, null)],
+        unfulfilledAmountCents: 999,
+        lastSuccessfulStatus: "PAYMENT_CAPTURED"
+      }
+
+      const testLayer = createTestLayer(
+        {},
+        {},
+        { voidPayment: () => Effect.die("voidPayment not expected") }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* CompensationExecutor
+        return yield* executor.executeCompensation(context)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationCompleted")
+      expect(result.stepsExecuted).toEqual(["refund_payment", "release_inventory", "cancel_order"])
+    })
+  })
+
   describe("executeCompensation - edge cases", () => {
     it("should handle null orderId gracefully (no order cancel attempt)", async () => {
       const context: CompensationContext = {
         orderLedgerId: "ledger-123",
         orderId: null,
         paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
         lastSuccessfulStatus: "ORDER_CREATED" // This shouldn't happen in practice, but handle gracefully
       }
 
@@ -375,6 +747,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: "order-789",
         paymentAuthorizationId: null,
+        paymentCaptureId: null,
         lastSuccessfulStatus: "ORDER_CREATED"
       }
 
@@ -395,6 +768,7 @@ describe("CompensationExecutor", () => {
         orderLedgerId: "ledger-123",
         orderId: null,
         paymentAuthorizationId: null,
+        paymentCaptureId: null,
         lastSuccessfulStatus: "AUTHORIZED"
       }
 
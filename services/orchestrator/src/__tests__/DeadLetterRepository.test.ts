@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Layer, Option, DateTime } from "effect"
+import { SqlClient } from "@effect/sql"
+import { DeadLetterRepository } from "../repositories/DeadLetterRepository.js"
+import { DeadLetterRepositoryLive } from "../repositories/DeadLetterRepositoryLive.js"
+import { OutboxEvent, type AttemptRecord, type OutboxEventId } from "../domain/OutboxEvent.js"
+import type { DeadLetterId } from "../domain/DeadLetter.js"
+
+interface ExecutedQuery {
+  readonly text: string
+  readonly values: readonly unknown[]
+}
+
+// Mock SQL client that records every statement and answers from the handler
+const createMockSqlClient = (
+  queryHandler: (text: string, values: readonly unknown[]) => unknown[],
+  executed: ExecutedQuery[] = []
+) => {
+  const mockSql = Object.assign(
+    (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?").replace(/\s+/g, " ").trim()
+      executed.push({ text, values })
+      return Effect.succeed(queryHandler(text, values))
+    },
+    {
+      withTransaction: <A, E, R>(effect: Effect.Effect<A, E, R>) => effect
+    }
+  )
+
+  return Layer.succeed(SqlClient.SqlClient, mockSql as any)
+}
+
+// Test fixtures
+const DEAD_LETTER_ID = "550e8400-e29b-41d4-a716-446655440000" as DeadLetterId
+const FAILED_EVENT_ID = "660e8400-e29b-41d4-a716-446655440001"
+const REPLAYED_EVENT_ID = "770e8400-e29b-41d4-a716-446655440002"
+const LEDGER_ID = "880e8400-e29b-41d4-a716-446655440003"
+
+const testAttempt: AttemptRecord = {
+  attempt: 1,
+  error_tag: "PaymentVoidError",
+  error_reason: "Gateway timeout",
+  failed_at: "2024-01-15T10:00:00.000Z"
+}
+
+const deadLetterRow = (replayedEventId: string | null = null) => ({
+  id: DEAD_LETTER_ID,
+  outbox_event_id: FAILED_EVENT_ID,
+  aggregate_type: "OrderLedger",
+  aggregate_id: LEDGER_ID,
+  event_type: "CompensationRequested",
+  payload: { order_ledger_id: LEDGER_ID, last_successful_status: "INVENTORY_RESERVED" },
+  reason: "COMPENSATION_FAILED",
+  error_tag: "CompensationFailed",
+  error_message: "void_payment: PaymentVoidError",
+  retry_count: 5,
+  attempt_history: [testAttempt],
+  compensation_errors: ["void_payment: PaymentVoidError"],
+  event_created_at: new Date("2024-01-15T09:00:00Z"),
+  dead_lettered_at: new Date("2024-01-15T10:00:00Z"),
+  replayed_at: replayedEventId ? new Date("2024-01-15T11:00:00Z") : null,
+  replayed_event_id: replayedEventId
+})
+
+const replayedOutboxRow = {
+  id: REPLAYED_EVENT_ID,
+  aggregate_type: "OrderLedger",
+  aggregate_id: LEDGER_ID,
+  event_type: "CompensationRequested",
+  payload: { order_ledger_id: LEDGER_ID, last_successful_status: "INVENTORY_RESERVED" },
+  status: "PENDING",
+  created_at: new Date("2024-01-15T11:00:00Z"),
+  processed_at: null,
+  retry_count: 0,
+  next_retry_at: null,
+  attempt_history: []
+}
+
+// Answers the three statements replay issues: lock, insert, mark replayed
+const replayHandler = (lockedRows: unknown[]) => (text: string) => {
+  if (text.startsWith("SELECT * FROM outbox_dead_letters")) return lockedRows
+  if (text.startsWith("INSERT INTO outbox")) return [replayedOutboxRow]
+  if (text.startsWith("UPDATE outbox_dead_letters")) return [deadLetterRow(REPLAYED_EVENT_ID)]
+  return []
+}
+
+describe("DeadLetterRepository", () => {
+  describe("record", () => {
+    it("should copy the event with its attempt history and be a no-op for a recorded event", async () => {
+      const executed: ExecutedQuery[] = []
+      const testLayer = DeadLetterRepositoryLive.pipe(Layer.provide(createMockSqlClient(() => [], executed)))
+      const now = DateTime.unsafeNow()
+      const event = new OutboxEvent({
+        id: FAILED_EVENT_ID as OutboxEventId,
+        aggregateType: "OrderLedger",
+        aggregateId: LEDGER_ID,
+        eventType: "CompensationRequested",
+        payload: { order_ledger_id: LEDGER_ID },
+        status: "FAILED",
+        createdAt: now,
+        processedAt: now,
+        retryCount: 5,
+        nextRetryAt: null
+      })
+
+      await Effect.gen(function* () {
+        const repo = yield* DeadLetterRepository
+        yield* repo.record({
+          event,
+          reason: "COMPENSATION_FAILED",
+          errorTag: "CompensationFailed",
+          errorMessage: "void_payment: PaymentVoidError",
+          attemptHistory: [testAttempt],
+          compensationErrors: ["void_payment: PaymentVoidError"]
+        })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(executed).toHaveLength(1)
+      expect(executed[0].text).toContain("ON CONFLICT (outbox_event_id) DO NOTHING")
+      expect(executed[0].values).toContain(FAILED_EVENT_ID)
+      expect(executed[0].values).toContain(JSON.stringify([testAttempt]))
+      expect(executed[0].values).toContain(JSON.stringify(["void_payment: PaymentVoidError"]))
+    })
+  })
+
+  describe("findById", () => {
+    it("should map the dead letter row", async () => {
+      const testLayer = DeadLetterRepositoryLive.pipe(Layer.provide(createMockSqlClient(() => [deadLetterRow()])))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* DeadLetterRepository
+        return yield* repo.findById(DEAD_LETTER_ID)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(Option.isSome(result)).toBe(true)
+      if (Option.isSome(result)) {
+        expect(result.value.reason).toBe("COMPENSATION_FAILED")
+        expect(result.value.attemptHistory).toEqual([testAttempt])
+        expect(result.value.replayedAt).toBeNull()
+      }
+    })
+  })
+
+  describe("replay", () => {
+    it("should lock the dead letter, enqueue a fresh event and notify the orchestrator", async () => {
+      const executed: ExecutedQuery[] = []
+      const testLayer = DeadLetterRepositoryLive.pipe(
+        Layer.provide(createMockSqlClient(replayHandler([deadLetterRow()]), executed))
+      )
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* DeadLetterRepository
+        return yield* repo.replay(DEAD_LETTER_ID)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(executed.map((query) => query.text.split(" ")[0])).toEqual(["SELECT", "INSERT", "UPDATE", "SELECT"])
+
+      // Only a dead letter that has not been replayed yet is locked
+      expect(executed[0].text).toContain("replayed_at IS NULL")
+      expect(executed[0].text).toContain("FOR UPDATE")
+
+      // The fresh event carries the original type, aggregate and payload
+      expect(executed[1].values).toEqual([
+        "OrderLedger",
+        LEDGER_ID,
+        "CompensationRequested",
+        JSON.stringify(deadLetterRow().payload)
+      ])
+
+      // The dead letter is linked to the new event
+      expect(executed[2].values).toEqual([REPLAYED_EVENT_ID, DEAD_LETTER_ID])
+
+      expect(executed[3].text).toContain("pg_notify('order_events'")
+      expect(executed[3].values).toEqual(["CompensationRequested"])
+
+      expect(Option.isSome(result)).toBe(true)
+      if (Option.isSome(result)) {
+        expect(result.value.event.id).toBe(REPLAYED_EVENT_ID)
+        expect(result.value.event.status).toBe("PENDING")
+        expect(result.value.event.retryCount).toBe(0)
+        expect(result.value.event.attemptHistory).toEqual([])
+        expect(result.value.deadLetter.replayedEventId).toBe(REPLAYED_EVENT_ID)
+      }
+    })
+
+    it("should return None without enqueueing when already replayed or missing", async () => {
+      const executed: ExecutedQuery[] = []
+      const testLayer = DeadLetterRepositoryLive.pipe(
+        Layer.provide(createMockSqlClient(replayHandler([]), executed))
+      )
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* DeadLetterRepository
+        return yield* repo.replay(DEAD_LETTER_ID)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(Option.isNone(result)).toBe(true)
+      expect(executed).toHaveLength(1)
+      expect(executed.some((query) => query.text.startsWith("INSERT"))).toBe(false)
+    })
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest"
 import { Effect, Layer, Option, DateTime } from "effect"
 import { LedgerRepository, type LedgerWithItems } from "../repositories/LedgerRepository.js"
-import { OrderLedger, OrderLedgerItem, type OrderLedgerId, type OrderLedgerStatus, type UserId, type ProductId } from "../domain/OrderLedger.js"
+import { OrderLedger, OrderLedgerItem, OrderLedgerPayment, type OrderLedgerId, type OrderLedgerStatus, type UserId, type ProductId } from "../domain/OrderLedger.js"
 
 // Test fixtures
 const createTestLedger = (
@@ -19,6 +19,7 @@ const createTestLedger = (
     totalAmountCents: 5999,
     currency: "USD",
     paymentAuthorizationId: "auth-456",
+    paymentCaptureId: null,
     orderId,
     createdAt: now,
     updatedAt: now
@@ -33,6 +34,7 @@ const createTestItem = (id: string, ledgerId: string): OrderLedgerItem => {
     productId: `product-${id}` as ProductId,
     quantity: 2,
     unitPriceCents: 1500,
+    fulfilledQuantity: null,
     createdAt: now
   })
 }
@@ -40,14 +42,24 @@ const createTestItem = (id: string, ledgerId: string): OrderLedgerItem => {
 // Mock repository factory
 const createMockLedgerRepo = (overrides: {
   findByIdWithItems?: (id: OrderLedgerId) => Effect.Effect<Option.Option<LedgerWithItems>>
+  findPayments?: (id: OrderLedgerId) => Effect.Effect<readonly OrderLedgerPayment[]>
+  recordPaymentCapture?: (paymentId: string, captureId: string) => Effect.Effect<void>
+  recordFulfilledQuantities?: (items: readonly OrderLedgerItem[]) => Effect.Effect<void>
   updateStatus?: (id: OrderLedgerId, newStatus: OrderLedgerStatus) => Effect.Effect<OrderLedger>
+  advanceStatus?: (id: OrderLedgerId, newStatus: OrderLedgerStatus) => Effect.Effect<OrderLedger>
   updateStatusWithOrderId?: (id: OrderLedgerId, newStatus: OrderLedgerStatus, orderId: string) => Effect.Effect<OrderLedger>
+  updateStatusWithCaptureId?: (id: OrderLedgerId, newStatus: OrderLedgerStatus, captureId: string) => Effect.Effect<OrderLedger>
 } = {}) => {
   const defaultLedger = createTestLedger("default-id")
   return Layer.succeed(LedgerRepository, {
     findByIdWithItems: overrides.findByIdWithItems ?? (() => Effect.succeed(Option.none())),
+    findPayments: overrides.findPayments ?? (() => Effect.succeed([])),
+    recordPaymentCapture: overrides.recordPaymentCapture ?? (() => Effect.void),
+    recordFulfilledQuantities: overrides.recordFulfilledQuantities ?? (() => Effect.void),
     updateStatus: overrides.updateStatus ?? (() => Effect.succeed(defaultLedger)),
-    updateStatusWithOrderId: overrides.updateStatusWithOrderId ?? (() => Effect.succeed(defaultLedger))
+    advanceStatus: overrides.advanceStatus ?? (() => Effect.succeed(defaultLedger)),
+    updateStatusWithOrderId: overrides.updateStatusWithOrderId ?? (() => Effect.succeed(defaultLedger)),
+    updateStatusWithCaptureId: overrides.updateStatusWithCaptureId ?? (() => Effect.succeed(defaultLedger))
   })
 }
 
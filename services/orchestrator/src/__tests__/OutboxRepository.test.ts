@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest"
-import { Effect, Layer, DateTime } from "effect"
-import { OutboxRepository, type ClaimResult } from "../repositories/OutboxRepository.js"
-import { OutboxEvent, type OutboxEventId } from "../domain/OutboxEvent.js"
+import { Effect, Layer, DateTime, Option } from "effect"
+import { OutboxRepository, type ClaimResult, type EnqueueEventParams } from "../repositories/OutboxRepository.js"
+import { OutboxEvent, type AttemptRecord, type OutboxEventId, type OutboxEventStatus } from "../domain/OutboxEvent.js"
 
 // Test fixtures
 const createTestEvent = (
@@ -32,18 +32,37 @@ const createTestEvent = (
   })
 }
 
+const testAttempt = (attempt: number): AttemptRecord => ({
+  attempt,
+  error_tag: "ServiceConnectionError",
+  error_reason: "Connection refused",
+  failed_at: "2024-01-15T10:00:00.000Z"
+})
+
 // Mock repository factory
 const createMockOutboxRepo = (overrides: {
   claimPendingEvents?: (limit?: number) => Effect.Effect<ClaimResult>
   markProcessed?: (eventId: OutboxEventId) => Effect.Effect<void>
   markFailed?: (eventId: OutboxEventId) => Effect.Effect<void>
-  scheduleRetry?: (eventId: OutboxEventId, nextRetryAt: DateTime.Utc) => Effect.Effect<{ retryCount: number }>
+  scheduleRetry?: (eventId: OutboxEventId, nextRetryAt: DateTime.Utc, attempt: AttemptRecord) => Effect.Effect<{ retryCount: number }>
+  findById?: (eventId: OutboxEventId) => Effect.Effect<Option.Option<OutboxEvent>>
+  listByStatus?: (status: OutboxEventStatus, limit: number) => Effect.Effect<readonly OutboxEvent[]>
+  findByAggregateId?: (aggregateId: string) => Effect.Effect<readonly OutboxEvent[]>
+  resetForRetry?: (eventId: OutboxEventId) => Effect.Effect<Option.Option<OutboxEvent>>
+  failPendingForAggregate?: (aggregateId: string) => Effect.Effect<number>
+  enqueue?: (params: EnqueueEventParams) => Effect.Effect<OutboxEvent>
 } = {}) => {
   return Layer.succeed(OutboxRepository, {
     claimPendingEvents: overrides.claimPendingEvents ?? (() => Effect.succeed({ events: [] })),
     markProcessed: overrides.markProcessed ?? (() => Effect.void),
     markFailed: overrides.markFailed ?? (() => Effect.void),
-    scheduleRetry: overrides.scheduleRetry ?? (() => Effect.succeed({ retryCount: 1 }))
+    scheduleRetry: overrides.scheduleRetry ?? (() => Effect.succeed({ retryCount: 1 })),
+    findById: overrides.findById ?? (() => Effect.succeed(Option.none())),
+    listByStatus: overrides.listByStatus ?? (() => Effect.succeed([])),
+    findByAggregateId: overrides.findByAggregateId ?? (() => Effect.succeed([])),
+    resetForRetry: overrides.resetForRetry ?? (() => Effect.succeed(Option.none())),
+    failPendingForAggregate: overrides.failPendingForAggregate ?? (() => Effect.succeed(0)),
+    enqueue: overrides.enqueue ?? (() => Effect.die("enqueue not mocked"))
   })
 }
 
@@ -215,14 +234,16 @@ describe("OutboxRepository", () => {
   })
 
   describe("scheduleRetry", () => {
-    it("should accept event ID and next retry time", async () => {
+    it("should accept event ID, next retry time and failed attempt", async () => {
       let capturedEventId: OutboxEventId | undefined
       let capturedNextRetryAt: DateTime.Utc | undefined
+      let capturedAttempt: AttemptRecord | undefined
 
       const mockRepo = createMockOutboxRepo({
-        scheduleRetry: (eventId, nextRetryAt) => {
+        scheduleRetry: (eventId, nextRetryAt, attempt) => {
           capturedEventId = eventId
           capturedNextRetryAt = nextRetryAt
+          capturedAttempt = attempt
           return Effect.succeed({ retryCount: 1 })
         }
       })
@@ -231,11 +252,12 @@ describe("OutboxRepository", () => {
 
       await Effect.gen(function* () {
         const repo = yield* OutboxRepository
-        yield* repo.scheduleRetry("event-123" as OutboxEventId, nextRetry)
+        yield* repo.scheduleRetry("event-123" as OutboxEventId, nextRetry, testAttempt(1))
       }).pipe(Effect.provide(mockRepo), Effect.runPromise)
 
       expect(capturedEventId).toBe("event-123")
       expect(capturedNextRetryAt).toBeDefined()
+      expect(capturedAttempt?.error_tag).toBe("ServiceConnectionError")
     })
 
     it("should return the new retry count", async () => {
@@ -247,7 +269,8 @@ describe("OutboxRepository", () => {
         const repo = yield* OutboxRepository
         return yield* repo.scheduleRetry(
           "event-123" as OutboxEventId,
-          DateTime.unsafeMake("2024-01-15T10:00:05Z")
+          DateTime.unsafeMake("2024-01-15T10:00:05Z"),
+          testAttempt(3)
         )
       }).pipe(Effect.provide(mockRepo), Effect.runPromise)
 
@@ -269,9 +292,9 @@ describe("OutboxRepository", () => {
       const results = await Effect.gen(function* () {
         const repo = yield* OutboxRepository
         const eventId = "event-123" as OutboxEventId
-        const r1 = yield* repo.scheduleRetry(eventId, DateTime.unsafeMake("2024-01-15T10:00:01Z"))
-        const r2 = yield* repo.scheduleRetry(eventId, DateTime.unsafeMake("2024-01-15T10:00:04Z"))
-        const r3 = yield* repo.scheduleRetry(eventId, DateTime.unsafeMake("2024-01-15T10:00:16Z"))
+        const r1 = yield* repo.scheduleRetry(eventId, DateTime.unsafeMake("2024-01-15T10:00:01Z"), testAttempt(1))
+        const r2 = yield* repo.scheduleRetry(eventId, DateTime.unsafeMake("2024-01-15T10:00:04Z"), testAttempt(2))
+        const r3 = yield* repo.scheduleRetry(eventId, DateTime.unsafeMake("2024-01-15T10:00:16Z"), testAttempt(3))
         return [r1.retryCount, r2.retryCount, r3.retryCount]
       }).pipe(Effect.provide(mockRepo), Effect.runPromise)
 
@@ -0,0 +1,531 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Layer, Option, DateTime } from "effect"
+import { SagaAdmin } from "../services/SagaAdmin.js"
+import { SagaAdminLive } from "../services/SagaAdminLive.js"
+import { CompensationExecutor, type CompensationContext, type CompensationResult } from "../services/CompensationExecutor.js"
+import { LedgerRepository, type LedgerWithItems } from "../repositories/LedgerRepository.js"
+import { OutboxRepository } from "../repositories/OutboxRepository.js"
+import { DeadLetterRepository, type ReplayResult } from "../repositories/DeadLetterRepository.js"
+import { SagaStepRepository, type RecordSagaStepParams } from "../repositories/SagaStepRepository.js"
+import { DeadLetter, type DeadLetterId } from "../domain/DeadLetter.js"
+import { OutboxEvent, type OutboxEventId, type OutboxEventStatus } from "../domain/OutboxEvent.js"
+import type { SagaStepName } from "../domain/SagaStepEvent.js"
+import {
+  OrderLedger,
+  OrderLedgerItem,
+  type OrderLedgerId,
+  type OrderLedgerStatus,
+  type UserId,
+  type ProductId
+} from "../domain/OrderLedger.js"
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test Fixtures
+// ═══════════════════════════════════════════════════════════════════════════
+
+const LEDGER_ID = "ledger-123"
+
+const createTestLedger = (
+  status: OrderLedgerStatus = "AUTHORIZED",
+  orderId: string | null = null,
+  paymentCaptureId: string | null = null
+): OrderLedger => {
+  const now = DateTime.unsafeNow()
+  return new OrderLedger({
+    id: LEDGER_ID as OrderLedgerId,
+    clientRequestId: "client-req-123",
+    userId: "user-123" as UserId,
+    email: "test@example.com",
+    status,
+    totalAmountCents: 5999,
+    currency: "USD",
+    paymentAuthorizationId: "auth-456",
+    paymentCaptureId,
+    orderId,
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+const createTestItem = (): OrderLedgerItem =>
+  new OrderLedgerItem({
+    id: "item-1",
+    orderLedgerId: LEDGER_ID as OrderLedgerId,
+    productId: "product-1" as ProductId,
+    quantity: 2,
+    unitPriceCents: 1500,
+    fulfilledQuantity: null,
+    createdAt: DateTime.unsafeNow()
+  })
+
+const createTestEvent = (
+  status: OutboxEventStatus = "PENDING",
+  retryCount = 0
+): OutboxEvent => {
+  const now = DateTime.unsafeNow()
+  return new OutboxEvent({
+    id: "event-123" as OutboxEventId,
+    aggregateType: "OrderLedger",
+    aggregateId: LEDGER_ID,
+    eventType: "OrderAuthorized",
+    payload: { order_ledger_id: LEDGER_ID },
+    status,
+    createdAt: now,
+    processedAt: status === "PENDING" ? null : now,
+    retryCount,
+    nextRetryAt: status === "PENDING" ? now : null
+  })
+}
+
+const createTestDeadLetter = (replayedEventId: string | null = null): DeadLetter => {
+  const now = DateTime.unsafeNow()
+  return new DeadLetter({
+    id: "dead-letter-1" as DeadLetterId,
+    outboxEventId: "event-123" as OutboxEventId,
+    aggregateType: "OrderLedger",
+    aggregateId: LEDGER_ID,
+    eventType: "OrderAuthorized",
+    payload: { order_ledger_id: LEDGER_ID },
+    reason: "MAX_RETRIES_EXCEEDED",
+    errorTag: "ServiceConnectionError",
+    errorMessage: "Connection refused",
+    retryCount: 5,
+    attemptHistory: [],
+    compensationErrors: [],
+    eventCreatedAt: now,
+    deadLetteredAt: now,
+    replayedAt: replayedEventId ? now : null,
+    replayedEventId: replayedEventId as OutboxEventId | null
+  })
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Test Layer
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface Recorder {
+  statusUpdates: OrderLedgerStatus[]
+  compensationContexts: CompensationContext[]
+  failedAggregates: string[]
+  steps: RecordSagaStepParams[]
+}
+
+const createTestLayer = (options: {
+  ledger?: LedgerWithItems | null
+  events?: readonly OutboxEvent[]
+  resetResult?: OutboxEvent | null
+  compensationResult?: CompensationResult
+  deadLetter?: DeadLetter | null
+  replayResult?: ReplayResult | null
+  recorder?: Recorder
+  succeededSteps?: readonly SagaStepName[]
+} = {}) => {
+  const recorder = options.recorder ?? newRecorder()
+  const events = options.events ?? []
+  const ledgerRepo = Layer.succeed(LedgerRepository, {
+    findByIdWithItems: () => Effect.succeed(Option.fromNullable(options.ledger ?? null)),
+    findPayments: () => Effect.succeed([]),
+    recordPaymentCapture: () => Effect.void,
+    recordFulfilledQuantities: () => Effect.void,
+    updateStatus: (_id, status) => {
+      recorder.statusUpdates.push(status)
+      return Effect.succeed(createTestLedger(status))
+    },
+    advanceStatus: (_id, status) => Effect.succeed(createTestLedger(status)),
+    updateStatusWithOrderId: (_id, status, orderId) => Effect.succeed(createTestLedger(status, orderId)),
+    updateStatusWithCaptureId: (_id, status) => Effect.succeed(createTestLedger(status))
+  })
+
+  const outboxRepo = Layer.succeed(OutboxRepository, {
+    claimPendingEvents: () => Effect.succeed({ events: [] }),
+    markProcessed: () => Effect.void,
+    markFailed: () => Effect.void,
+    scheduleRetry: () => Effect.succeed({ retryCount: 1 }),
+    findById: (eventId) => Effect.succeed(Option.fromNullable(events.find((e) => e.id === eventId))),
+    listByStatus: (status, limit) => Effect.succeed(events.filter((e) => e.status === status).slice(0, limit)),
+    findByAggregateId: (aggregateId) => Effect.succeed(events.filter((e) => e.aggregateId === aggregateId)),
+    resetForRetry: () => Effect.succeed(Option.fromNullable(options.resetResult ?? null)),
+    failPendingForAggregate: (aggregateId) => {
+      recorder.failedAggregates.push(aggregateId)
+      return Effect.succeed(events.filter((e) => e.status === "PENDING").length)
+    },
+    enqueue: () => Effect.die("enqueue not expected")
+  })
+
+  const compensationExecutor = Layer.succeed(CompensationExecutor, {
+    executeCompensation: (context) => {
+      recorder.compensationContexts.push(context)
+      return Effect.succeed(options.compensationResult ?? {
+        _tag: "CompensationCompleted",
+        orderLedgerId: context.orderLedgerId,
+        stepsExecuted: ["void_payment"]
+      })
+    }
+  })
+
+  const deadLetterRepo = Layer.succeed(DeadLetterRepository, {
+    record: () => Effect.void,
+    findById: () => Effect.succeed(Option.fromNullable(options.deadLetter ?? null)),
+    list: () => Effect.succeed(options.deadLetter ? [options.deadLetter] : []),
+    replay: () => Effect.succeed(Option.fromNullable(options.replayResult ?? null))
+  })
+
+  const sagaStepRepo = Layer.succeed(SagaStepRepository, {
+    record: (params) => {
+      recorder.steps.push(params)
+      return Effect.void
+    },
+    findSucceededSteps: () => Effect.succeed(options.succeededSteps ?? [])
+  })
+
+  return SagaAdminLive.pipe(
+    Layer.provide(ledgerRepo),
+    Layer.provide(outboxRepo),
+    Layer.provide(deadLetterRepo),
+    Layer.provide(sagaStepRepo),
+    Layer.provide(compensationExecutor)
+  )
+}
+
+const newRecorder = (): Recorder => ({ statusUpdates: [], compensationContexts: [], failedAggregates: [], steps: [] })
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("SagaAdmin", () => {
+  describe("listEvents", () => {
+    it("should return events matching the requested status", async () => {
+      const layer = createTestLayer({
+        events: [createTestEvent("PENDING"), createTestEvent("FAILED")]
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.listEvents("FAILED", 10)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].status).toBe("FAILED")
+    })
+  })
+
+  describe("getSaga", () => {
+    it("should return ledger, items and outbox events", async () => {
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("ORDER_CREATED", "order-789"), items: [createTestItem()] },
+        events: [createTestEvent("PENDING", 2)]
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.getSaga(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.ledger.status).toBe("ORDER_CREATED")
+      expect(result.items).toHaveLength(1)
+      expect(result.events[0].retryCount).toBe(2)
+    })
+
+    it("should fail with LedgerNotFoundError for unknown ledger", async () => {
+      const layer = createTestLayer({ ledger: null })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.getSaga("missing")
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("LedgerNotFoundError")
+    })
+  })
+
+  describe("forceRetry", () => {
+    it("should return the reset event", async () => {
+      const reset = createTestEvent("PENDING", 3)
+      const layer = createTestLayer({
+        events: [createTestEvent("FAILED", 3)],
+        resetResult: reset
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.forceRetry("event-123" as OutboxEventId)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.status).toBe("PENDING")
+      expect(result.retryCount).toBe(3)
+    })
+
+    it("should fail with OutboxEventNotFoundError for unknown event", async () => {
+      const layer = createTestLayer({ events: [] })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.forceRetry("missing" as OutboxEventId)
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("OutboxEventNotFoundError")
+    })
+
+    it("should fail with EventNotRetryableError for processed event", async () => {
+      const layer = createTestLayer({
+        events: [createTestEvent("PROCESSED")],
+        resetResult: null
+      })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.forceRetry("event-123" as OutboxEventId)
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("EventNotRetryableError")
+      if (error._tag === "EventNotRetryableError") {
+        expect(error.status).toBe("PROCESSED")
+      }
+    })
+  })
+
+  describe("compensate", () => {
+    it("should compensate, mark ledger FAILED and fail pending events", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("INVENTORY_RESERVED", "order-789"), items: [] },
+        events: [createTestEvent("PENDING")],
+        recorder
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.previousStatus).toBe("INVENTORY_RESERVED")
+      expect(result.finalStatus).toBe("FAILED")
+      expect(result.eventsFailed).toBe(1)
+      expect(recorder.statusUpdates).toEqual(["COMPENSATING", "FAILED"])
+      expect(recorder.compensationContexts[0].lastSuccessfulStatus).toBe("INVENTORY_RESERVED")
+      expect(recorder.failedAggregates).toEqual([LEDGER_ID])
+      expect(recorder.steps.map((s) => [s.stepName, s.fromStatus, s.toStatus])).toEqual([
+        ["compensation_started", "INVENTORY_RESERVED", "COMPENSATING"],
+        ["compensation_finished", "COMPENSATING", "FAILED"]
+      ])
+    })
+
+    it("should mark ledger COMPENSATION_FAILED when compensation fails", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("AUTHORIZED"), items: [] },
+        compensationResult: {
+          _tag: "CompensationFailed",
+          orderLedgerId: LEDGER_ID,
+          stepsExecuted: [],
+          error: "void_payment: PaymentVoidError",
+          errors: ["void_payment: PaymentVoidError"]
+        },
+        recorder
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.finalStatus).toBe("COMPENSATION_FAILED")
+      expect(recorder.statusUpdates).toEqual(["COMPENSATING", "COMPENSATION_FAILED"])
+      expect(recorder.steps.at(-1)?.outcome).toBe("FAILED")
+    })
+
+    it("should retry a COMPENSATION_FAILED saga, skipping steps that already succeeded", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("COMPENSATION_FAILED", "order-789"), items: [] },
+        succeededSteps: ["release_inventory", "cancel_order"],
+        recorder
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.finalStatus).toBe("FAILED")
+      expect(recorder.statusUpdates).toEqual(["COMPENSATING", "FAILED"])
+      expect(recorder.compensationContexts[0].lastSuccessfulStatus).toBe("INVENTORY_RESERVED")
+      expect(recorder.compensationContexts[0].completedSteps).toEqual(["release_inventory", "cancel_order"])
+    })
+
+    it("should infer last successful step for a ledger already COMPENSATING", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("COMPENSATING", "order-789"), items: [] },
+        recorder
+      })
+
+      await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(recorder.compensationContexts[0].lastSuccessfulStatus).toBe("INVENTORY_RESERVED")
+      expect(recorder.statusUpdates).toEqual(["FAILED"])
+    })
+
+    it("should refund a COMPENSATING ledger that recorded a capture", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("COMPENSATING", "order-789", "cap-123"), items: [] },
+        recorder
+      })
+
+      await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(recorder.compensationContexts[0].lastSuccessfulStatus).toBe("PAYMENT_CAPTURED")
+      expect(recorder.compensationContexts[0].paymentCaptureId).toBe("cap-123")
+    })
+
+    it("should finish a cancellation stuck in CANCELLATION_REQUESTED as CANCELLED", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("CANCELLATION_REQUESTED", "order-789"), items: [] },
+        recorder
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.previousStatus).toBe("CANCELLATION_REQUESTED")
+      expect(result.finalStatus).toBe("CANCELLED")
+      expect(recorder.statusUpdates).toEqual(["COMPENSATING", "CANCELLED"])
+      expect(recorder.compensationContexts[0].lastSuccessfulStatus).toBe("INVENTORY_RESERVED")
+      expect(recorder.steps.map((s) => [s.stepName, s.fromStatus, s.toStatus])).toEqual([
+        ["cancellation_requested", "CANCELLATION_REQUESTED", null],
+        ["compensation_started", "CANCELLATION_REQUESTED", "COMPENSATING"],
+        ["compensation_finished", "COMPENSATING", "CANCELLED"]
+      ])
+    })
+
+    it("should end a re-driven cancellation in CANCELLED", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("COMPENSATION_FAILED", "order-789", "cap-123"), items: [] },
+        succeededSteps: ["cancellation_requested", "release_inventory"],
+        recorder
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.finalStatus).toBe("CANCELLED")
+      expect(recorder.statusUpdates).toEqual(["COMPENSATING", "CANCELLED"])
+      expect(recorder.steps.map((s) => s.stepName)).toEqual(["compensation_started", "compensation_finished"])
+    })
+
+    it("should reject completed sagas", async () => {
+      const recorder = newRecorder()
+      const layer = createTestLayer({
+        ledger: { ledger: createTestLedger("COMPLETED", "order-789"), items: [] },
+        recorder
+      })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.compensate(LEDGER_ID)
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("SagaNotCompensableError")
+      expect(recorder.compensationContexts).toHaveLength(0)
+    })
+  })
+
+  describe("replayDeadLetter", () => {
+    it("should return the dead letter and the fresh outbox event", async () => {
+      const fresh = createTestEvent("PENDING", 0)
+      const layer = createTestLayer({
+        deadLetter: createTestDeadLetter(),
+        replayResult: { deadLetter: createTestDeadLetter("event-456"), event: fresh }
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.replayDeadLetter("dead-letter-1" as DeadLetterId)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.event.retryCount).toBe(0)
+      expect(result.deadLetter.replayedEventId).toBe("event-456")
+    })
+
+    it("should fail with DeadLetterNotFoundError for unknown dead letter", async () => {
+      const layer = createTestLayer({ deadLetter: null })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.replayDeadLetter("missing" as DeadLetterId)
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("DeadLetterNotFoundError")
+    })
+
+    it("should fail with DeadLetterAlreadyReplayedError when already replayed", async () => {
+      const layer = createTestLayer({
+        deadLetter: createTestDeadLetter("event-456"),
+        replayResult: null
+      })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.replayDeadLetter("dead-letter-1" as DeadLetterId)
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("DeadLetterAlreadyReplayedError")
+      if (error._tag === "DeadLetterAlreadyReplayedError") {
+        expect(error.replayedEventId).toBe("event-456")
+      }
+    })
+
+    it("should reject a MAX_RETRIES_EXCEEDED entry whose saga was handed off to compensation", async () => {
+      const layer = createTestLayer({
+        deadLetter: createTestDeadLetter(),
+        ledger: { ledger: createTestLedger("COMPENSATING", "order-789"), items: [] },
+        replayResult: { deadLetter: createTestDeadLetter("event-456"), event: createTestEvent("PENDING", 0) }
+      })
+
+      const error = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.replayDeadLetter("dead-letter-1" as DeadLetterId)
+      }).pipe(Effect.flip, Effect.provide(layer), Effect.runPromise)
+
+      expect(error._tag).toBe("DeadLetterNotReplayableError")
+      if (error._tag === "DeadLetterNotReplayableError") {
+        expect(error.orderLedgerId).toBe(LEDGER_ID)
+        expect(error.status).toBe("COMPENSATING")
+      }
+    })
+
+    it("should replay a CompensationRequested entry for a COMPENSATION_FAILED saga", async () => {
+      const deadLetter = new DeadLetter({
+        ...createTestDeadLetter(),
+        eventType: "CompensationRequested",
+        reason: "COMPENSATION_FAILED"
+      })
+      const layer = createTestLayer({
+        deadLetter,
+        ledger: { ledger: createTestLedger("COMPENSATION_FAILED", "order-789"), items: [] },
+        replayResult: { deadLetter, event: createTestEvent("PENDING", 0) }
+      })
+
+      const result = await Effect.gen(function* () {
+        const admin = yield* SagaAdmin
+        return yield* admin.replayDeadLetter("dead-letter-1" as DeadLetterId)
+      }).pipe(Effect.provide(layer), Effect.runPromise)
+
+      expect(result.event.status).toBe("PENDING")
+    })
+  })
+})
@@ -4,16 +4,38 @@ import { SagaExecutor } from "../services/SagaExecutor.js"
 import { SagaExecutorLive } from "../services/SagaExecutorLive.js"
 import { CompensationExecutor, type CompensationContext, type CompensationResult } from "../services/CompensationExecutor.js"
 import { LedgerRepository, type LedgerWithItems } from "../repositories/LedgerRepository.js"
-import { OutboxRepository, type ClaimResult } from "../repositories/OutboxRepository.js"
+import { OutboxRepository, type ClaimResult, type EnqueueEventParams } from "../repositories/OutboxRepository.js"
+import { SagaStepRepository, type RecordSagaStepParams } from "../repositories/SagaStepRepository.js"
 import { OrchestratorConfig } from "../config.js"
-import { OrdersClient, type CreateOrderParams, type CreateOrderResult, type ConfirmOrderResult, type CancelOrderResult } from "../clients/OrdersClient.js"
-import { InventoryClient, type ReserveStockParams, type ReserveStockResult, type ReleaseStockParams, type ReleaseStockResult } from "../clients/InventoryClient.js"
+import {
+  OrdersClient,
+  type CreateOrderParams,
+  type CreateOrderResult,
+  type AdjustOrderParams,
+  type AdjustOrderResult,
+  type ConfirmOrderResult,
+  type CancelOrderResult
+} from "../clients/OrdersClient.js"
+import {
+  InventoryClient,
+  type ReserveStockParams,
+  type ReserveStockResult,
+  type ReleaseStockParams,
+  type ReleaseStockResult,
+  type ExtendReservationParams,
+  type ExtendReservationResult,
+  type CommitReservationParams,
+  type CommitReservationResult
+} from "../clients/InventoryClient.js"
 import { PaymentsClient, type CapturePaymentParams, type CapturePaymentResult, type VoidPaymentParams, type VoidPaymentResult } from "../clients/PaymentsClient.js"
-import { OutboxEvent, type OutboxEventId } from "../domain/OutboxEvent.js"
-import { OrderLedger, OrderLedgerItem, type OrderLedgerId, type OrderLedgerStatus, type UserId, type ProductId } from "../domain/OrderLedger.js"
+import { OutboxEvent, type AttemptRecord, type OutboxEventId, type OutboxEventStatus } from "../domain/OutboxEvent.js"
+import { OrderLedger, OrderLedgerItem, OrderLedgerPayment, type OrderLedgerId, type OrderLedgerStatus, type UserId, type ProductId } from "../domain/OrderLedger.js"
+import type { SagaStepName } from "../domain/SagaStepEvent.js"
 import {
   OrderCreationError,
+  OrderAdjustmentError,
   InventoryReservationError,
+  InventoryCommitError,
   PaymentCaptureError,
   ServiceConnectionError
 } from "../domain/errors.js"
@@ -22,7 +44,12 @@ import {
 // Test Fixtures
 // ═══════════════════════════════════════════════════════════════════════════
 
-const createTestOutboxEvent = (ledgerId: string, retryCount = 0): OutboxEvent => {
+const createTestOutboxEvent = (
+  ledgerId: string,
+  retryCount = 0,
+  shippingDestination?: { latitude: number; longitude: number },
+  allowPartial?: boolean
+): OutboxEvent => {
   const now = DateTime.unsafeNow()
   return new OutboxEvent({
     id: `event-${ledgerId}` as OutboxEventId,
@@ -35,7 +62,36 @@ const createTestOutboxEvent = (ledgerId: string, retryCount = 0): OutboxEvent =>
       email: "test@example.com",
       total_amount_cents: 5999,
       currency: "USD",
-      payment_authorization_id: "auth-456"
+      payment_authorization_id: "auth-456",
+      ...(shippingDestination !== undefined && { shipping_destination: shippingDestination }),
+      ...(allowPartial !== undefined && { allow_partial: allowPartial })
+    },
+    status: "PENDING",
+    createdAt: now,
+    processedAt: null,
+    retryCount,
+    nextRetryAt: null
+  })
+}
+
+const createCompensationEvent = (
+  ledgerId: string,
+  retryCount = 0,
+  lastSuccessfulStatus: OrderLedgerStatus = "INVENTORY_RESERVED",
+  failureReason: "permanent_failure" | "cancellation_requested" = "permanent_failure"
+): OutboxEvent => {
+  const now = DateTime.unsafeNow()
+  return new OutboxEvent({
+    id: `compensation-${ledgerId}` as OutboxEventId,
+    aggregateType: "OrderLedger",
+    aggregateId: ledgerId,
+    eventType: "CompensationRequested",
+    payload: {
+      order_ledger_id: ledgerId,
+      last_successful_status: lastSuccessfulStatus,
+      failure_reason: failureReason,
+      error_tag: "PaymentCaptureError",
+      error_reason: "Card expired"
     },
     status: "PENDING",
     createdAt: now,
@@ -45,6 +101,25 @@ const createTestOutboxEvent = (ledgerId: string, retryCount = 0): OutboxEvent =>
   })
 }
 
+const createCancellationEvent = (ledgerId: string, previousStatus: OrderLedgerStatus = "COMPLETED"): OutboxEvent => {
+  const now = DateTime.unsafeNow()
+  return new OutboxEvent({
+    id: `cancellation-${ledgerId}` as OutboxEventId,
+    aggregateType: "order_ledger",
+    aggregateId: ledgerId,
+    eventType: "CancellationRequested",
+    payload: {
+      order_ledger_id: ledgerId,
+      previous_status: previousStatus
+    },
+    status: "PENDING",
+    createdAt: now,
+    processedAt: null,
+    retryCount: 0,
+    nextRetryAt: null
+  })
+}
+
 const createTestLedger = (
   id: string,
   status: OrderLedgerStatus = "AUTHORIZED",
@@ -60,6 +135,7 @@ const createTestLedger = (
     totalAmountCents: 5999,
     currency: "USD",
     paymentAuthorizationId: "auth-456",
+    paymentCaptureId: null,
     orderId,
     createdAt: now,
     updatedAt: now
@@ -74,6 +150,7 @@ const createTestItem = (id: string, ledgerId: string): OrderLedgerItem => {
     productId: `product-${id}` as ProductId,
     quantity: 2,
     unitPriceCents: 1500,
+    fulfilledQuantity: null,
     createdAt: now
   })
 }
@@ -90,7 +167,11 @@ const createMockConfig = () => {
     paymentsServiceUrl: "http://localhost:3002",
     maxRetryAttempts: 5,
     retryBaseDelayMs: 1000,
-    retryBackoffMultiplier: 4
+    retryBackoffMultiplier: 4,
+    compensationMaxRetryAttempts: 8,
+    compensationRetryBaseDelayMs: 1000,
+    compensationRetryBackoffMultiplier: 3,
+    adminPort: 3004
   })
 }
 
@@ -98,35 +179,61 @@ const createMockOutboxRepo = (overrides: {
   claimPendingEvents?: (limit?: number) => Effect.Effect<ClaimResult>
   markProcessed?: (eventId: OutboxEventId) => Effect.Effect<void>
   markFailed?: (eventId: OutboxEventId) => Effect.Effect<void>
-  scheduleRetry?: (eventId: OutboxEventId, nextRetryAt: DateTime.Utc) => Effect.Effect<{ retryCount: number }>
+  scheduleRetry?: (eventId: OutboxEventId, nextRetryAt: DateTime.Utc, attempt: AttemptRecord) => Effect.Effect<{ retryCount: number }>
+  findById?: (eventId: OutboxEventId) => Effect.Effect<Option.Option<OutboxEvent>>
+  listByStatus?: (status: OutboxEventStatus, limit: number) => Effect.Effect<readonly OutboxEvent[]>
+  findByAggregateId?: (aggregateId: string) => Effect.Effect<readonly OutboxEvent[]>
+  resetForRetry?: (eventId: OutboxEventId) => Effect.Effect<Option.Option<OutboxEvent>>
+  failPendingForAggregate?: (aggregateId: string) => Effect.Effect<number>
+  enqueue?: (params: EnqueueEventParams) => Effect.Effect<OutboxEvent>
 } = {}) => {
   return Layer.succeed(OutboxRepository, {
     claimPendingEvents: overrides.claimPendingEvents ?? (() => Effect.succeed({ events: [] })),
     markProcessed: overrides.markProcessed ?? (() => Effect.void),
     markFailed: overrides.markFailed ?? (() => Effect.void),
-    scheduleRetry: overrides.scheduleRetry ?? (() => Effect.succeed({ retryCount: 1 }))
+    scheduleRetry: overrides.scheduleRetry ?? (() => Effect.succeed({ retryCount: 1 })),
+    findById: overrides.findById ?? (() => Effect.succeed(Option.none())),
+    listByStatus: overrides.listByStatus ?? (() => Effect.succeed([])),
+    findByAggregateId: overrides.findByAggregateId ?? (() => Effect.succeed([])),
+    resetForRetry: overrides.resetForRetry ?? (() => Effect.succeed(Option.none())),
+    failPendingForAggregate: overrides.failPendingForAggregate ?? (() => Effect.succeed(0)),
+    enqueue: overrides.enqueue ?? ((params) => Effect.succeed(createCompensationEvent(params.aggregateId)))
   })
 }
 
 const createMockLedgerRepo = (overrides: {
   findByIdWithItems?: (id: OrderLedgerId) => Effect.Effect<Option.Option<LedgerWithItems>>
+  findPayments?: (id: OrderLedgerId) => Effect.Effect<readonly OrderLedgerPayment[]>
+  recordPaymentCapture?: (paymentId: string, captureId: string) => Effect.Effect<void>
+  recordFulfilledQuantities?: (items: readonly OrderLedgerItem[]) => Effect.Effect<void>
   updateStatus?: (id: OrderLedgerId, newStatus: OrderLedgerStatus) => Effect.Effect<OrderLedger>
+  advanceStatus?: (id: OrderLedgerId, newStatus: OrderLedgerStatus) => Effect.Effect<OrderLedger>
   updateStatusWithOrderId?: (id: OrderLedgerId, newStatus: OrderLedgerStatus, orderId: string) => Effect.Effect<OrderLedger>
+  updateStatusWithCaptureId?: (id: OrderLedgerId, newStatus: OrderLedgerStatus, captureId: string) => Effect.Effect<OrderLedger>
 } = {}) => {
+  const updateStatus = overrides.updateStatus ?? ((id, status) => Effect.succeed(createTestLedger(id, status)))
   return Layer.succeed(LedgerRepository, {
     findByIdWithItems: overrides.findByIdWithItems ?? (() => Effect.succeed(Option.none())),
-    updateStatus: overrides.updateStatus ?? ((id, status) => Effect.succeed(createTestLedger(id, status))),
-    updateStatusWithOrderId: overrides.updateStatusWithOrderId ?? ((id, status, orderId) => Effect.succeed(createTestLedger(id, status, orderId)))
+    findPayments: overrides.findPayments ?? (() => Effect.succeed([])),
+    recordPaymentCapture: overrides.recordPaymentCapture ?? (() => Effect.void),
+    recordFulfilledQuantities: overrides.recordFulfilledQuantities ?? (() => Effect.void),
+    updateStatus,
+    // Forward step transitions record through the updateStatus override unless a test needs otherwise
+    advanceStatus: overrides.advanceStatus ?? updateStatus,
+    updateStatusWithOrderId: overrides.updateStatusWithOrderId ?? ((id, status, orderId) => Effect.succeed(createTestLedger(id, status, orderId))),
+    updateStatusWithCaptureId: overrides.updateStatusWithCaptureId ?? ((id, status) => Effect.succeed(createTestLedger(id, status)))
   })
 }
 
 const createMockOrdersClient = (overrides: {
   createOrder?: (params: CreateOrderParams) => Effect.Effect<CreateOrderResult, OrderCreationError | ServiceConnectionError>
+  adjustOrder?: (params: AdjustOrderParams) => Effect.Effect<AdjustOrderResult, any>
   confirmOrder?: (orderId: string) => Effect.Effect<ConfirmOrderResult, any>
   cancelOrder?: (orderId: string) => Effect.Effect<CancelOrderResult, any>
 } = {}) => {
   return Layer.succeed(OrdersClient, {
     createOrder: overrides.createOrder ?? (() => Effect.succeed({ orderId: "order-789", status: "CREATED" })),
+    adjustOrder: overrides.adjustOrder ?? (() => Effect.die("adjustOrder not expected")),
     confirmOrder: overrides.confirmOrder ?? (() => Effect.succeed({ orderId: "order-789", status: "CONFIRMED" })),
     cancelOrder: overrides.cancelOrder ?? (() => Effect.succeed({ orderId: "order-789", status: "CANCELLED" }))
   })
@@ -135,18 +242,30 @@ const createMockOrdersClient = (overrides: {
 const createMockInventoryClient = (overrides: {
   reserveStock?: (params: ReserveStockParams) => Effect.Effect<ReserveStockResult, InventoryReservationError | ServiceConnectionError>
   releaseStock?: (params: ReleaseStockParams) => Effect.Effect<ReleaseStockResult, any>
+  extendReservation?: (params: ExtendReservationParams) => Effect.Effect<ExtendReservationResult, InventoryReservationError | ServiceConnectionError>
+  commitReservation?: (params: CommitReservationParams) => Effect.Effect<CommitReservationResult, InventoryCommitError | ServiceConnectionError>
 } = {}) => {
   return Layer.succeed(InventoryClient, {
     reserveStock: overrides.reserveStock ?? (() => Effect.succeed({
       orderId: "order-789",
       reservationIds: ["res-1"],
       lineItemsReserved: 1,
-      totalQuantityReserved: 2
+      totalQuantityReserved: 2,
+      shortfalls: []
     })),
     releaseStock: overrides.releaseStock ?? (() => Effect.succeed({
       orderId: "order-789",
       releasedCount: 2,
       totalQuantityRestored: 5
+    })),
+    extendReservation: overrides.extendReservation ?? (() => Effect.succeed({
+      orderId: "order-789",
+      reservationIds: ["res-1"]
+    })),
+    commitReservation: overrides.commitReservation ?? (() => Effect.succeed({
+      orderId: "order-789",
+      reservationIds: ["res-1"],
+      committedCount: 1
     }))
   })
 }
@@ -169,7 +288,14 @@ const createMockPaymentsClient = (overrides: {
       authorizationId: "auth-456",
       status: "VOIDED",
       voidedAt: "2024-01-15T10:30:00Z"
-    }))
+    })),
+    refundPayment: () => Effect.succeed({
+      refundId: "ref-123",
+      captureId: "cap-123",
+      status: "REFUNDED",
+      amountCents: 5999,
+      refundedAt: "2024-01-15T10:30:00Z"
+    })
   })
 }
 
@@ -185,13 +311,27 @@ const createMockCompensationExecutor = (overrides: {
   })
 }
 
+const createMockSagaStepRepo = (options: {
+  recorded?: RecordSagaStepParams[]
+  succeededSteps?: readonly SagaStepName[]
+} = {}) => {
+  return Layer.succeed(SagaStepRepository, {
+    record: (params) => {
+      options.recorded?.push(params)
+      return Effect.void
+    },
+    findSucceededSteps: () => Effect.succeed(options.succeededSteps ?? [])
+  })
+}
+
 const createTestLayer = (
   ledgerRepoOverrides: Parameters<typeof createMockLedgerRepo>[0] = {},
   ordersClientOverrides: Parameters<typeof createMockOrdersClient>[0] = {},
   inventoryClientOverrides: Parameters<typeof createMockInventoryClient>[0] = {},
   paymentsClientOverrides: Parameters<typeof createMockPaymentsClient>[0] = {},
   compensationExecutorOverrides: Parameters<typeof createMockCompensationExecutor>[0] = {},
-  outboxRepoOverrides: Parameters<typeof createMockOutboxRepo>[0] = {}
+  outboxRepoOverrides: Parameters<typeof createMockOutboxRepo>[0] = {},
+  sagaStepRepoOptions: Parameters<typeof createMockSagaStepRepo>[0] = {}
 ) => {
   return SagaExecutorLive.pipe(
     Layer.provide(createMockConfig()),
@@ -200,7 +340,8 @@ const createTestLayer = (
     Layer.provide(createMockOrdersClient(ordersClientOverrides)),
     Layer.provide(createMockInventoryClient(inventoryClientOverrides)),
     Layer.provide(createMockPaymentsClient(paymentsClientOverrides)),
-    Layer.provide(createMockCompensationExecutor(compensationExecutorOverrides))
+    Layer.provide(createMockCompensationExecutor(compensationExecutorOverrides)),
+    Layer.provide(createMockSagaStepRepo(sagaStepRepoOptions))
   )
 }
 
@@ -210,11 +351,12 @@ const createTestLayer = (
 
 describe("SagaExecutor", () => {
   describe("executeSaga - happy path", () => {
-    it("should execute all 4 saga steps successfully from AUTHORIZED status", async () => {
+    it("should execute all 5 saga steps successfully from AUTHORIZED status", async () => {
       const ledgerId = "ledger-123"
       const ledger = createTestLedger(ledgerId, "AUTHORIZED")
       const items = [createTestItem("item-1", ledgerId)]
       const statusUpdates: { id: string; status: OrderLedgerStatus }[] = []
+      let storedCaptureId: string | undefined
 
       const testLayer = createTestLayer(
         {
@@ -226,10 +368,15 @@ describe("SagaExecutor", () => {
           updateStatusWithOrderId: (id, status, orderId) => {
             statusUpdates.push({ id, status })
             return Effect.succeed(createTestLedger(id, status, orderId))
+          },
+          updateStatusWithCaptureId: (id, status, captureId) => {
+            statusUpdates.push({ id, status })
+            storedCaptureId = captureId
+            return Effect.succeed(createTestLedger(id, status))
           }
         },
         { createOrder: () => Effect.succeed({ orderId: "order-789", status: "CREATED" }) },
-        { reserveStock: () => Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2 }) },
+        { reserveStock: () => Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2, shortfalls: [] }) },
         { capturePayment: () => Effect.succeed({ captureId: "cap-123", authorizationId: "auth-456", status: "CAPTURED", amountCents: 5999, currency: "USD", capturedAt: "2024-01-15T10:30:00Z" }) }
       )
 
@@ -247,6 +394,8 @@ describe("SagaExecutor", () => {
       expect(statusUpdates.map(u => u.status)).toContain("INVENTORY_RESERVED")
       expect(statusUpdates.map(u => u.status)).toContain("PAYMENT_CAPTURED")
       expect(statusUpdates.map(u => u.status)).toContain("COMPLETED")
+      // Capture ID is kept so compensation can refund it
+      expect(storedCaptureId).toBe("cap-123")
     })
 
     it("should be idempotent for already completed saga", async () => {
@@ -278,6 +427,10 @@ describe("SagaExecutor", () => {
           updateStatus: (id, status) => {
             statusUpdates.push(status)
             return Effect.succeed(createTestLedger(id, status))
+          },
+          updateStatusWithCaptureId: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
           }
         }
       )
@@ -294,6 +447,40 @@ describe("SagaExecutor", () => {
       expect(statusUpdates).toContain("COMPLETED")
     })
 
+    it("should reserve stock towards the order's shipping destination", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const items = [createTestItem("item-1", ledgerId)]
+      const reserveCalls: ReserveStockParams[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
+          updateStatus: (id, status) => Effect.succeed(createTestLedger(id, status)),
+          updateStatusWithCaptureId: (id, status) => Effect.succeed(createTestLedger(id, status))
+        },
+        {},
+        {
+          reserveStock: (params) => {
+            reserveCalls.push(params)
+            return Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2, shortfalls: [] })
+          }
+        }
+      )
+
+      await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 0, { latitude: 55.8642, longitude: -4.2518 }))
+        // Events written before orders carried a destination reserve by location priority
+        yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(reserveCalls.map((call) => call.destination)).toEqual([
+        { latitude: 55.8642, longitude: -4.2518 },
+        null
+      ])
+    })
+
     it("should resume from INVENTORY_RESERVED status", async () => {
       const ledgerId = "ledger-123"
       const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
@@ -304,6 +491,10 @@ describe("SagaExecutor", () => {
         updateStatus: (id, status) => {
           statusUpdates.push(status)
           return Effect.succeed(createTestLedger(id, status))
+        },
+        updateStatusWithCaptureId: (id, status) => {
+          statusUpdates.push(status)
+          return Effect.succeed(createTestLedger(id, status))
         }
       })
 
@@ -319,6 +510,37 @@ describe("SagaExecutor", () => {
       expect(statusUpdates).not.toContain("INVENTORY_RESERVED")
     })
 
+    it("should extend the reservation before capturing payment", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const calls: string[] = []
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {
+          extendReservation: (params) => {
+            calls.push(`extend:${params.orderId}`)
+            return Effect.succeed({ orderId: params.orderId, reservationIds: ["res-1"] })
+          }
+        },
+        {
+          capturePayment: () => {
+            calls.push("capture")
+            return Effect.succeed({ captureId: "cap-123", authorizationId: "auth-456", status: "CAPTURED", amountCents: 5999, currency: "USD", capturedAt: "2024-01-15T10:30:00Z" })
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Completed")
+      expect(calls).toEqual(["extend:order-789", "capture"])
+    })
+
     it("should resume from PAYMENT_CAPTURED status", async () => {
       const ledgerId = "ledger-123"
       const ledger = createTestLedger(ledgerId, "PAYMENT_CAPTURED", "order-789")
@@ -342,109 +564,127 @@ describe("SagaExecutor", () => {
     })
   })
 
-  describe("executeSaga - error handling", () => {
-    it("should return Failed when ledger not found", async () => {
-      const testLayer = createTestLayer({
-        findByIdWithItems: () => Effect.succeed(Option.none())
-      })
-
-      const result = await Effect.gen(function* () {
-        const executor = yield* SagaExecutor
-        return yield* executor.executeSaga(createTestOutboxEvent("nonexistent"))
-      }).pipe(Effect.provide(testLayer), Effect.runPromise)
-
-      expect(result._tag).toBe("Failed")
-      if (result._tag === "Failed") {
-        expect(result.error).toContain("not found")
-      }
-    })
-
-    it("should return Failed when saga is in FAILED state", async () => {
+  describe("executeSaga - inventory commit", () => {
+    it("should commit the reservation after confirming the order", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "FAILED")
+      const ledger = createTestLedger(ledgerId, "PAYMENT_CAPTURED", "order-789")
+      const calls: string[] = []
 
-      const testLayer = createTestLayer({
-        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] }))
-      })
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            calls.push(`ledger:${status}`)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {
+          confirmOrder: (orderId) => {
+            calls.push("confirm")
+            return Effect.succeed({ orderId, status: "CONFIRMED" })
+          }
+        },
+        {
+          commitReservation: (params) => {
+            calls.push(`commit:${params.orderId}`)
+            return Effect.succeed({ orderId: params.orderId, reservationIds: ["res-1"], committedCount: 1 })
+          }
+        }
+      )
 
       const result = await Effect.gen(function* () {
         const executor = yield* SagaExecutor
         return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("Failed")
-      expect(result.finalStatus).toBe("FAILED")
+      expect(result._tag).toBe("Completed")
+      expect(calls).toEqual(["confirm", "commit:order-789", "ledger:COMPLETED"])
     })
 
-    it("should return Failed when saga is in COMPENSATING state", async () => {
+    it("should retry without completing when the commit fails transiently", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "COMPENSATING")
+      const ledger = createTestLedger(ledgerId, "PAYMENT_CAPTURED", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
 
-      const testLayer = createTestLayer({
-        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] }))
-      })
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {
+          commitReservation: () => Effect.fail(new InventoryCommitError({
+            orderId: "order-789",
+            reason: "Server error: 503",
+            statusCode: 503,
+            isRetryable: true
+          }))
+        }
+      )
 
       const result = await Effect.gen(function* () {
         const executor = yield* SagaExecutor
         return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("Failed")
-      expect(result.finalStatus).toBe("COMPENSATING")
+      expect(result._tag).toBe("RequiresRetry")
+      expect(result.finalStatus).toBe("PAYMENT_CAPTURED")
+      expect(statusUpdates).toEqual([])
     })
+  })
 
-    it("should return Failed for invalid payload", async () => {
-      const event = new OutboxEvent({
-        id: "event-123" as OutboxEventId,
-        aggregateType: "OrderLedger",
-        aggregateId: "ledger-123",
-        eventType: "OrderAuthorized",
-        payload: { invalid: "payload" }, // Missing required fields
-        status: "PENDING",
-        createdAt: DateTime.unsafeNow(),
-        processedAt: null,
-        retryCount: 0,
-        nextRetryAt: null
+  describe("executeSaga - split tender", () => {
+    const createTestPayment = (sequence: number, paymentCaptureId: string | null = null) =>
+      new OrderLedgerPayment({
+        id: `payment-${sequence}`,
+        orderLedgerId: "ledger-123" as OrderLedgerId,
+        sequence,
+        method: sequence === 0 ? "gift_card" : "card",
+        amountCents: sequence === 0 ? 1000 : 4999,
+        status: "AUTHORIZED",
+        paymentAuthorizationId: `auth-${sequence}`,
+        paymentCaptureId,
+        createdAt: DateTime.unsafeNow()
       })
 
-      const testLayer = createTestLayer()
-
-      const result = await Effect.gen(function* () {
-        const executor = yield* SagaExecutor
-        return yield* executor.executeSaga(event)
-      }).pipe(Effect.provide(testLayer), Effect.runPromise)
-
-      expect(result._tag).toBe("Failed")
-      if (result._tag === "Failed") {
-        expect(result.error).toBeDefined()
-      }
+    const captureResult = (params: CapturePaymentParams): CapturePaymentResult => ({
+      captureId: `cap-${params.authorizationId}`,
+      authorizationId: params.authorizationId,
+      status: "CAPTURED",
+      amountCents: 1000,
+      currency: "USD",
+      capturedAt: "2024-01-15T10:30:00Z"
     })
-  })
 
-  describe("executeSaga - retryable errors", () => {
-    it("should return RequiresRetry for retryable OrderCreationError", async () => {
+    it("should capture every instrument in sequence and record each capture", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
-      const items = [createTestItem("item-1", ledgerId)]
-      let scheduledRetry = false
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const captures: CapturePaymentParams[] = []
+      const recordedCaptures: Array<[string, string]> = []
+      const ledgerCaptureIds: string[] = []
 
       const testLayer = createTestLayer(
-        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
         {
-          createOrder: () => Effect.fail(new OrderCreationError({
-            orderLedgerId: ledgerId,
-            reason: "Server error",
-            statusCode: 500,
-            isRetryable: true
-          }))
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          findPayments: () => Effect.succeed([createTestPayment(0), createTestPayment(1)]),
+          recordPaymentCapture: (paymentId, captureId) => {
+            recordedCaptures.push([paymentId, captureId])
+            return Effect.void
+          },
+          updateStatusWithCaptureId: (id, status, captureId) => {
+            ledgerCaptureIds.push(captureId)
+            return Effect.succeed(createTestLedger(id, status))
+          }
         },
         {},
         {},
-        {},
         {
-          scheduleRetry: () => {
-            scheduledRetry = true
-            return Effect.succeed({ retryCount: 1 })
+          capturePayment: (params) => {
+            captures.push(params)
+            return Effect.succeed(captureResult(params))
           }
         }
       )
@@ -454,35 +694,36 @@ describe("SagaExecutor", () => {
         return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("RequiresRetry")
-      if (result._tag === "RequiresRetry") {
-        expect(result.error).toBe("OrderCreationError")
-        expect(result.retryCount).toBe(1)
-        expect(result.nextRetryAt).toBeDefined()
-      }
-      expect(scheduledRetry).toBe(true)
+      expect(result._tag).toBe("Completed")
+      expect(captures.map((c) => [c.authorizationId, c.idempotencyKey])).toEqual([
+        ["auth-0", "capture-ledger-123"],
+        ["auth-1", "capture-ledger-123-1"]
+      ])
+      expect(recordedCaptures).toEqual([
+        ["payment-0", "cap-auth-0"],
+        ["payment-1", "cap-auth-1"]
+      ])
+      // The ledger keeps the primary payment's capture, matching its authorization
+      expect(ledgerCaptureIds).toEqual(["cap-auth-1"])
     })
 
-    it("should return RequiresRetry for ServiceConnectionError", async () => {
+    it("should skip instruments captured on an earlier attempt", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
-      const items = [createTestItem("item-1", ledgerId)]
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const captures: CapturePaymentParams[] = []
 
       const testLayer = createTestLayer(
-        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
-        {},
         {
-          reserveStock: () => Effect.fail(new ServiceConnectionError({
-            service: "inventory",
-            operation: "reserveStock",
-            reason: "Connection timeout",
-            isRetryable: true
-          }))
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          findPayments: () => Effect.succeed([createTestPayment(0, "cap-earlier"), createTestPayment(1)])
         },
         {},
         {},
         {
-          scheduleRetry: () => Effect.succeed({ retryCount: 1 })
+          capturePayment: (params) => {
+            captures.push(params)
+            return Effect.succeed(captureResult(params))
+          }
         }
       )
 
@@ -491,68 +732,1005 @@ describe("SagaExecutor", () => {
         return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("RequiresRetry")
-      if (result._tag === "RequiresRetry") {
-        expect(result.error).toBe("ServiceConnectionError")
-      }
+      expect(result._tag).toBe("Completed")
+      expect(captures.map((c) => c.authorizationId)).toEqual(["auth-1"])
     })
+  })
 
-    it("should return RequiresRetry for retryable PaymentCaptureError (503)", async () => {
+  describe("executeSaga - partial fulfilment", () => {
+    it("should adjust the order to the stock reserved and capture the reduced total", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const item = createTestItem("item-1", ledgerId)
+      let reserveParams: ReserveStockParams | null = null
+      let adjustParams: AdjustOrderParams | null = null
+      let recordedItems: readonly OrderLedgerItem[] = []
+      const captures: CapturePaymentParams[] = []
+      const recorded: RecordSagaStepParams[] = []
 
       const testLayer = createTestLayer(
-        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
-        {},
-        {},
         {
-          capturePayment: () => Effect.fail(new PaymentCaptureError({
-            authorizationId: "auth-456",
-            reason: "Gateway unavailable",
-            statusCode: 503,
-            isRetryable: true
-          }))
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [item] })),
+          recordFulfilledQuantities: (items) => {
+            recordedItems = items
+            return Effect.void
+          }
         },
-        {},
         {
-          scheduleRetry: () => Effect.succeed({ retryCount: 1 })
-        }
-      )
-
+          adjustOrder: (params) => {
+            adjustParams = params
+            return Effect.succeed({ orderId: params.orderId, totalAmountCents: 4499 })
+          }
+        },
+        {
+          reserveStock: (params) => {
+            reserveParams = params
+            return Effect.succeed({
+              orderId: "order-789",
+              reservationIds: ["res-1"],
+              lineItemsReserved: 1,
+              totalQuantityReserved: 1,
+              shortfalls: [{ productId: item.productId, requestedQuantity: 2, reservedQuantity: 1 }]
+            })
+          }
+        },
+        {
+          capturePayment: (params) => {
+            captures.push(params)
+            return Effect.succeed({
+              captureId: "cap-123",
+              authorizationId: params.authorizationId,
+              status: "CAPTURED",
+              amountCents: params.amountCents ?? 5999,
+              currency: "USD",
+              capturedAt: "2024-01-15T10:30:00Z"
+            })
+          }
+        },
+        {},
+        {},
+        { recorded }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 0, undefined, true))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Completed")
+      expect(reserveParams!.allowPartial).toBe(true)
+      expect(adjustParams).toEqual({ orderId: "order-789", items: [{ productId: item.productId, quantity: 1 }] })
+      expect(recordedItems.map((i) => [i.id, i.fulfilledQuantity])).toEqual([["item-1", 1]])
+      // One unit at 1500 taken off the 5999 authorized
+      expect(captures.map((c) => c.amountCents)).toEqual([4499])
+      expect(recorded.map((r) => r.stepName)).toContain("adjust_order")
+    })
+
+    it("should take a reduction off the primary instrument first on a resumed attempt", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      // Recorded by step 2 on the earlier attempt: one unit at 4999 not fulfilled
+      const item = new OrderLedgerItem({
+        ...createTestItem("item-1", ledgerId),
+        unitPriceCents: 4999,
+        fulfilledQuantity: 1
+      })
+      const payment = (sequence: number) =>
+        new OrderLedgerPayment({
+          id: `payment-${sequence}`,
+          orderLedgerId: ledgerId as OrderLedgerId,
+          sequence,
+          method: sequence === 0 ? "gift_card" : "card",
+          amountCents: sequence === 0 ? 1000 : 4999,
+          status: "AUTHORIZED",
+          paymentAuthorizationId: `auth-${sequence}`,
+          paymentCaptureId: null,
+          createdAt: DateTime.unsafeNow()
+        })
+      const captures: CapturePaymentParams[] = []
+      const ledgerCaptureIds: string[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [item] })),
+          findPayments: () => Effect.succeed([payment(0), payment(1)]),
+          updateStatusWithCaptureId: (id, status, captureId) => {
+            ledgerCaptureIds.push(captureId)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {},
+        {
+          capturePayment: (params) => {
+            captures.push(params)
+            return Effect.succeed({
+              captureId: `cap-${params.authorizationId}`,
+              authorizationId: params.authorizationId,
+              status: "CAPTURED",
+              amountCents: params.amountCents ?? 0,
+              currency: "USD",
+              capturedAt: "2024-01-15T10:30:00Z"
+            })
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 1, undefined, true))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Completed")
+      // The card covered exactly the unfulfilled unit, so only the gift card is captured
+      expect(captures.map((c) => [c.authorizationId, c.amountCents])).toEqual([["auth-0", 1000]])
+      expect(ledgerCaptureIds).toEqual(["cap-auth-0"])
+    })
+
+    it("should schedule compensation when the order adjustment is rejected", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const item = createTestItem("item-1", ledgerId)
+      let captured = false
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [item] })) },
+        {
+          adjustOrder: (params) => Effect.fail(new OrderAdjustmentError({
+            orderId: params.orderId,
+            reason: "Cannot adjust order in CANCELLED status",
+            statusCode: 409,
+            isRetryable: false
+          }))
+        },
+        {
+          reserveStock: () => Effect.succeed({
+            orderId: "order-789",
+            reservationIds: ["res-1"],
+            lineItemsReserved: 1,
+            totalQuantityReserved: 1,
+            shortfalls: [{ productId: item.productId, requestedQuantity: 2, reservedQuantity: 1 }]
+          })
+        },
+        {
+          capturePayment: () => {
+            captured = true
+            return Effect.die("capturePayment not expected")
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 0, undefined, true))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.errorTag).toBe("OrderAdjustmentError")
+      }
+      expect(captured).toBe(false)
+    })
+  })
+
+  describe("executeSaga - error handling", () => {
+    it("should return Failed when ledger not found", async () => {
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.none())
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent("nonexistent"))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Failed")
+      if (result._tag === "Failed") {
+        expect(result.error).toContain("not found")
+      }
+    })
+
+    it("should return Failed when saga is in FAILED state", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "FAILED")
+
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] }))
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Failed")
+      expect(result.finalStatus).toBe("FAILED")
+    })
+
+    it("should return Failed when saga is in COMPENSATING state", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING")
+
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] }))
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Failed")
+      expect(result.finalStatus).toBe("COMPENSATING")
+    })
+
+    it("should return Failed for invalid payload", async () => {
+      const event = new OutboxEvent({
+        id: "event-123" as OutboxEventId,
+        aggregateType: "OrderLedger",
+        aggregateId: "ledger-123",
+        eventType: "OrderAuthorized",
+        payload: { invalid: "payload" }, // Missing required fields
+        status: "PENDING",
+        createdAt: DateTime.unsafeNow(),
+        processedAt: null,
+        retryCount: 0,
+        nextRetryAt: null
+      })
+
+      const testLayer = createTestLayer()
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(event)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Failed")
+      if (result._tag === "Failed") {
+        expect(result.error).toBeDefined()
+      }
+    })
+  })
+
+  describe("executeSaga - retryable errors", () => {
+    it("should return RequiresRetry for retryable OrderCreationError", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
+      const items = [createTestItem("item-1", ledgerId)]
+      let scheduledRetry = false
+      let recordedAttempt: AttemptRecord | undefined
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
+        {
+          createOrder: () => Effect.fail(new OrderCreationError({
+            orderLedgerId: ledgerId,
+            reason: "Server error",
+            statusCode: 500,
+            isRetryable: true
+          }))
+        },
+        {},
+        {},
+        {},
+        {
+          scheduleRetry: (_eventId, _nextRetryAt, attempt) => {
+            scheduledRetry = true
+            recordedAttempt = attempt
+            return Effect.succeed({ retryCount: 1 })
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("RequiresRetry")
+      if (result._tag === "RequiresRetry") {
+        expect(result.error).toBe("OrderCreationError")
+        expect(result.retryCount).toBe(1)
+        expect(result.nextRetryAt).toBeDefined()
+      }
+      expect(scheduledRetry).toBe(true)
+      expect(recordedAttempt).toMatchObject({
+        attempt: 1,
+        error_tag: "OrderCreationError",
+        error_reason: "Server error"
+      })
+    })
+
+    it("should return RequiresRetry for ServiceConnectionError", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const items = [createTestItem("item-1", ledgerId)]
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
+        {},
+        {
+          reserveStock: () => Effect.fail(new ServiceConnectionError({
+            service: "inventory",
+            operation: "reserveStock",
+            reason: "Connection timeout",
+            isRetryable: true
+          }))
+        },
+        {},
+        {},
+        {
+          scheduleRetry: () => Effect.succeed({ retryCount: 1 })
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("RequiresRetry")
+      if (result._tag === "RequiresRetry") {
+        expect(result.error).toBe("ServiceConnectionError")
+      }
+    })
+
+    it("should return RequiresRetry for retryable PaymentCaptureError (503)", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {},
+        {
+          capturePayment: () => Effect.fail(new PaymentCaptureError({
+            authorizationId: "auth-456",
+            reason: "Gateway unavailable",
+            statusCode: 503,
+            isRetryable: true
+          }))
+        },
+        {},
+        {
+          scheduleRetry: () => Effect.succeed({ retryCount: 1 })
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("RequiresRetry")
+      if (result._tag === "RequiresRetry") {
+        expect(result.error).toBe("PaymentCaptureError")
+      }
+    })
+  })
+
+  describe("executeSaga - permanent errors triggering compensation", () => {
+    it("should schedule compensation for non-retryable OrderCreationError", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
+      const items = [createTestItem("item-1", ledgerId)]
+      const statusUpdates: OrderLedgerStatus[] = []
+      const enqueued: EnqueueEventParams[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {
+          createOrder: () => Effect.fail(new OrderCreationError({
+            orderLedgerId: ledgerId,
+            reason: "Validation failed",
+            statusCode: 400,
+            isRetryable: false
+          }))
+        },
+        {},
+        {},
+        {},
+        {
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.finalStatus).toBe("COMPENSATING")
+        expect(result.failureReason).toBe("permanent_failure")
+        expect(result.compensationEventId).toBe(`compensation-${ledgerId}`)
+      }
+      // Compensation itself runs from the CompensationRequested event
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+      expect(enqueued).toHaveLength(1)
+      expect(enqueued[0]).toMatchObject({
+        aggregateId: ledgerId,
+        eventType: "CompensationRequested",
+        payload: {
+          order_ledger_id: ledgerId,
+          last_successful_status: "AUTHORIZED",
+          failure_reason: "permanent_failure",
+          error_tag: "OrderCreationError",
+          error_reason: "Validation failed"
+        }
+      })
+    })
+
+    it("should schedule compensation for insufficient stock", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const items = [createTestItem("item-1", ledgerId)]
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {
+          reserveStock: () => Effect.fail(new InventoryReservationError({
+            orderId: "order-789",
+            reason: "Insufficient stock",
+            statusCode: 409,
+            isRetryable: false,
+            insufficientStock: {
+              productId: "product-1",
+              requested: 10,
+              available: 5
+            }
+          }))
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.errorTag).toBe("InventoryReservationError")
+      }
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+    })
+
+    it("should schedule compensation for voided authorization during payment capture", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {},
+        {
+          capturePayment: () => Effect.fail(new PaymentCaptureError({
+            authorizationId: "auth-456",
+            reason: "Authorization already voided",
+            statusCode: 409,
+            isRetryable: false
+          }))
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+    })
+
+    it("should schedule compensation when the capture settles in another currency", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {},
+        {
+          capturePayment: () => Effect.succeed({ captureId: "cap-123", authorizationId: "auth-456", status: "CAPTURED", amountCents: 5999, currency: "EUR", capturedAt: "2024-01-15T10:30:00Z" })
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.errorTag).toBe("PaymentCaptureError")
+      }
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+    })
+
+    it("should schedule compensation without capturing when the reservation already expired", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+      let captureCalled = false
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {
+          extendReservation: () => Effect.fail(new InventoryReservationError({
+            orderId: "order-789",
+            reason: "Reservation expired or was released",
+            statusCode: 409,
+            isRetryable: false
+          }))
+        },
+        {
+          capturePayment: () => {
+            captureCalled = true
+            return Effect.die("capturePayment should not be called")
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.failureReason).toBe("permanent_failure")
+        expect(result.errorTag).toBe("InventoryReservationError")
+      }
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+      expect(captureCalled).toBe(false)
+    })
+
+    it("should schedule compensation when the reservation cannot be committed", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "PAYMENT_CAPTURED", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {
+          commitReservation: () => Effect.fail(new InventoryCommitError({
+            orderId: "order-789",
+            reason: "Reservation was already released",
+            statusCode: 409,
+            isRetryable: false
+          }))
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.errorTag).toBe("InventoryCommitError")
+      }
+      // Never reaches COMPLETED
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+    })
+
+    it("should not run compensation inline", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      let compensationCalls = 0
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {
+          reserveStock: () => Effect.fail(new InventoryReservationError({
+            orderId: "order-789",
+            reason: "Insufficient stock",
+            statusCode: 409,
+            isRetryable: false
+          }))
+        },
+        {},
+        {
+          executeCompensation: (ctx) => {
+            compensationCalls++
+            return Effect.succeed({
+              _tag: "CompensationCompleted" as const,
+              orderLedgerId: ctx.orderLedgerId,
+              stepsExecuted: []
+            })
+          }
+        }
+      )
+
+      await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(compensationCalls).toBe(0)
+    })
+  })
+
+  describe("executeSaga - max retries exceeded", () => {
+    it("should trigger compensation when max retries reached", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
+      const items = [createTestItem("item-1", ledgerId)]
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      // Config with maxRetryAttempts=5, current retryCount=5 (already exhausted)
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {
+          createOrder: () => Effect.fail(new OrderCreationError({
+            orderLedgerId: ledgerId,
+            reason: "Server error",
+            statusCode: 500,
+            isRetryable: true  // Retryable but max retries exceeded
+          }))
+        }
+      )
+
+      // Pass event with retryCount=5 (already at max)
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 5))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      // Should compensate instead of retry
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.failureReason).toBe("max_retries_exceeded")
+        expect(result.errorTag).toBe("OrderCreationError")
+      }
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+    })
+  })
+
+  describe("executeSaga - CompensationRequested events", () => {
+    it("should run compensation and mark the ledger FAILED", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+      const contexts: CompensationContext[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {},
+        {},
+        {
+          executeCompensation: (ctx) => {
+            contexts.push(ctx)
+            return Effect.succeed({
+              _tag: "CompensationCompleted" as const,
+              orderLedgerId: ctx.orderLedgerId,
+              stepsExecuted: ["void_payment", "release_inventory", "cancel_order"]
+            })
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Compensated")
+      if (result._tag === "Compensated") {
+        expect(result.finalStatus).toBe("FAILED")
+        expect(result.compensationSteps).toEqual(["void_payment", "release_inventory", "cancel_order"])
+      }
+      expect(statusUpdates).toEqual(["FAILED"])
+      expect(contexts[0]).toMatchObject({
+        orderLedgerId: ledgerId,
+        orderId: "order-789",
+        paymentAuthorizationId: "auth-456",
+        paymentCaptureId: null,
+        lastSuccessfulStatus: "INVENTORY_RESERVED",
+        attempt: 1
+      })
+    })
+
+    it("should skip steps that succeeded on an earlier attempt", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING", "order-789")
+      const contexts: CompensationContext[] = []
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {},
+        {},
+        {
+          executeCompensation: (ctx) => {
+            contexts.push(ctx)
+            return Effect.succeed({
+              _tag: "CompensationCompleted" as const,
+              orderLedgerId: ctx.orderLedgerId,
+              stepsExecuted: ["release_inventory"]
+            })
+          }
+        },
+        {},
+        { succeededSteps: ["create_order", "void_payment", "cancel_order"] }
+      )
+
+      await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId, 2))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(contexts[0].completedSteps).toEqual(["create_order", "void_payment", "cancel_order"])
+      expect(contexts[0].attempt).toBe(3)
+    })
+
+    it("should schedule a retry when a compensation step fails", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+      let recordedAttempt: AttemptRecord | undefined
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {},
+        {},
+        {
+          executeCompensation: (ctx) => Effect.succeed({
+            _tag: "CompensationFailed" as const,
+            orderLedgerId: ctx.orderLedgerId,
+            stepsExecuted: ["release_inventory", "cancel_order"],
+            error: "void_payment: ServiceConnectionError",
+            errors: ["void_payment: ServiceConnectionError"]
+          })
+        },
+        {
+          scheduleRetry: (_eventId, _nextRetryAt, attempt) => {
+            recordedAttempt = attempt
+            return Effect.succeed({ retryCount: 1 })
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("RequiresRetry")
+      if (result._tag === "RequiresRetry") {
+        expect(result.error).toBe("CompensationFailed")
+        expect(result.finalStatus).toBe("COMPENSATING")
+      }
+      expect(recordedAttempt).toMatchObject({
+        attempt: 1,
+        error_tag: "CompensationFailed",
+        error_reason: "void_payment: ServiceConnectionError"
+      })
+      // Ledger stays COMPENSATING while retries remain
+      expect(statusUpdates).toEqual([])
+    })
+
+    it("should move the ledger to COMPENSATION_FAILED when retries are exhausted", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+      const recordedSteps: RecordSagaStepParams[] = []
+
+      const testLayer = createTestLayer(
+        {
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+          updateStatus: (id, status) => {
+            statusUpdates.push(status)
+            return Effect.succeed(createTestLedger(id, status))
+          }
+        },
+        {},
+        {},
+        {},
+        {
+          executeCompensation: (ctx) => Effect.succeed({
+            _tag: "CompensationFailed" as const,
+            orderLedgerId: ctx.orderLedgerId,
+            stepsExecuted: [],
+            error: "void_payment: PaymentVoidError",
+            errors: ["void_payment: PaymentVoidError"]
+          })
+        },
+        {},
+        { recorded: recordedSteps }
+      )
+
+      // compensationMaxRetryAttempts is 8
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId, 8))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationFailed")
+      if (result._tag === "CompensationFailed") {
+        expect(result.finalStatus).toBe("COMPENSATION_FAILED")
+        expect(result.compensationErrors).toEqual(["void_payment: PaymentVoidError"])
+      }
+      expect(statusUpdates).toEqual(["COMPENSATION_FAILED"])
+      expect(recordedSteps.at(-1)).toMatchObject({
+        stepName: "compensation_finished",
+        outcome: "FAILED",
+        toStatus: "COMPENSATION_FAILED",
+        attempt: 9
+      })
+    })
+
+    it("should finish a replayed compensation for a COMPENSATION_FAILED ledger", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATION_FAILED", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+        updateStatus: (id, status) => {
+          statusUpdates.push(status)
+          return Effect.succeed(createTestLedger(id, status))
+        }
+      })
+
       const result = await Effect.gen(function* () {
         const executor = yield* SagaExecutor
-        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("RequiresRetry")
-      if (result._tag === "RequiresRetry") {
-        expect(result.error).toBe("PaymentCaptureError")
+      expect(result._tag).toBe("Compensated")
+      expect(statusUpdates).toEqual(["FAILED"])
+    })
+
+    it("should be a no-op when the ledger is already FAILED", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "FAILED", "order-789")
+      let compensationCalls = 0
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {},
+        {},
+        {
+          executeCompensation: (ctx) => {
+            compensationCalls++
+            return Effect.succeed({
+              _tag: "CompensationCompleted" as const,
+              orderLedgerId: ctx.orderLedgerId,
+              stepsExecuted: []
+            })
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Compensated")
+      expect(compensationCalls).toBe(0)
+    })
+
+    it("should return Failed when the ledger is not compensating", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPLETED", "order-789")
+
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] }))
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCompensationEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Failed")
+      if (result._tag === "Failed") {
+        expect(result.errorTag).toBe("SagaNotCompensating")
       }
     })
   })
 
-  describe("executeSaga - permanent errors triggering compensation", () => {
-    it("should return Compensated for non-retryable OrderCreationError", async () => {
+  describe("executeSaga - cancellation", () => {
+    it("should hand off to compensation when cancelled before the attempt started", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
-      const items = [createTestItem("item-1", ledgerId)]
+      const ledger = createTestLedger(ledgerId, "CANCELLATION_REQUESTED", "order-789")
       const statusUpdates: OrderLedgerStatus[] = []
+      const enqueued: EnqueueEventParams[] = []
+      let reserveCalls = 0
 
       const testLayer = createTestLayer(
         {
-          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
+          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
           updateStatus: (id, status) => {
             statusUpdates.push(status)
             return Effect.succeed(createTestLedger(id, status))
           }
         },
+        {},
         {
-          createOrder: () => Effect.fail(new OrderCreationError({
-            orderLedgerId: ledgerId,
-            reason: "Validation failed",
-            statusCode: 400,
-            isRetryable: false
-          }))
+          reserveStock: () => {
+            reserveCalls++
+            return Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2, shortfalls: [] })
+          }
+        },
+        {},
+        {},
+        {
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
         }
       )
 
@@ -561,43 +1739,48 @@ describe("SagaExecutor", () => {
         return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("Compensated")
-      if (result._tag === "Compensated") {
-        expect(result.finalStatus).toBe("FAILED")
-        expect(result.compensationSteps).toBeDefined()
+      expect(result._tag).toBe("CompensationScheduled")
+      if (result._tag === "CompensationScheduled") {
+        expect(result.failureReason).toBe("cancellation_requested")
       }
-      // Verify state transitions
-      expect(statusUpdates).toContain("COMPENSATING")
-      expect(statusUpdates).toContain("FAILED")
+      expect(reserveCalls).toBe(0)
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+      // Order was created but the ledger no longer says how far it got
+      expect(enqueued[0].payload).toMatchObject({
+        last_successful_status: "INVENTORY_RESERVED",
+        failure_reason: "cancellation_requested",
+        error_tag: "CancellationRequested"
+      })
     })
 
-    it("should return Compensated for insufficient stock", async () => {
+    it("should stop after the step during which the customer cancelled", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
       const items = [createTestItem("item-1", ledgerId)]
-      const statusUpdates: OrderLedgerStatus[] = []
+      const enqueued: EnqueueEventParams[] = []
+      let reserveCalls = 0
 
       const testLayer = createTestLayer(
         {
           findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
-          updateStatus: (id, status) => {
-            statusUpdates.push(status)
-            return Effect.succeed(createTestLedger(id, status))
+          // The order ID is stored but the pending cancellation is kept
+          updateStatusWithOrderId: (id, _status, orderId) =>
+            Effect.succeed(createTestLedger(id, "CANCELLATION_REQUESTED", orderId))
+        },
+        { createOrder: () => Effect.succeed({ orderId: "order-789", status: "CREATED" }) },
+        {
+          reserveStock: () => {
+            reserveCalls++
+            return Effect.succeed({ orderId: "order-789", reservationIds: ["res-1"], lineItemsReserved: 1, totalQuantityReserved: 2, shortfalls: [] })
           }
         },
         {},
+        {},
         {
-          reserveStock: () => Effect.fail(new InventoryReservationError({
-            orderId: "order-789",
-            reason: "Insufficient stock",
-            statusCode: 409,
-            isRetryable: false,
-            insufficientStock: {
-              productId: "product-1",
-              requested: 10,
-              available: 5
-            }
-          }))
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
         }
       )
 
@@ -606,18 +1789,20 @@ describe("SagaExecutor", () => {
         return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("Compensated")
-      if (result._tag === "Compensated") {
-        expect(result.finalStatus).toBe("FAILED")
-      }
-      expect(statusUpdates).toContain("COMPENSATING")
-      expect(statusUpdates).toContain("FAILED")
+      expect(result._tag).toBe("CompensationScheduled")
+      expect(reserveCalls).toBe(0)
+      expect(enqueued[0].payload).toMatchObject({
+        last_successful_status: "ORDER_CREATED",
+        failure_reason: "cancellation_requested"
+      })
     })
 
-    it("should return Compensated for voided authorization during payment capture", async () => {
+    it("should hand a cancelled COMPLETED order off to compensation", async () => {
       const ledgerId = "ledger-123"
-      const ledger = createTestLedger(ledgerId, "INVENTORY_RESERVED", "order-789")
+      const ledger = createTestLedger(ledgerId, "CANCELLATION_REQUESTED", "order-789")
       const statusUpdates: OrderLedgerStatus[] = []
+      const enqueued: EnqueueEventParams[] = []
+      const recorded: RecordSagaStepParams[] = []
 
       const testLayer = createTestLayer(
         {
@@ -629,108 +1814,273 @@ describe("SagaExecutor", () => {
         },
         {},
         {},
+        {},
+        {},
         {
-          capturePayment: () => Effect.fail(new PaymentCaptureError({
-            authorizationId: "auth-456",
-            reason: "Authorization already voided",
-            statusCode: 409,
-            isRetryable: false
-          }))
-        }
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
+        },
+        { recorded }
       )
 
       const result = await Effect.gen(function* () {
         const executor = yield* SagaExecutor
-        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+        return yield* executor.executeSaga(createCancellationEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(result._tag).toBe("Compensated")
-      if (result._tag === "Compensated") {
-        expect(result.finalStatus).toBe("FAILED")
-      }
-      expect(statusUpdates).toContain("COMPENSATING")
-      expect(statusUpdates).toContain("FAILED")
+      expect(result._tag).toBe("CompensationScheduled")
+      expect(statusUpdates).toEqual(["COMPENSATING"])
+      expect(enqueued[0]).toMatchObject({
+        eventType: "CompensationRequested",
+        payload: {
+          last_successful_status: "COMPLETED",
+          failure_reason: "cancellation_requested"
+        }
+      })
+      expect(recorded.map((step) => [step.stepName, step.fromStatus, step.toStatus])).toEqual([
+        ["cancellation_requested", "CANCELLATION_REQUESTED", null],
+        ["compensation_started", "CANCELLATION_REQUESTED", "COMPENSATING"]
+      ])
     })
 
-    it("should include compensation steps in result", async () => {
+    it("should return Failed for a CancellationRequested event when the ledger is not awaiting cancellation", async () => {
       const ledgerId = "ledger-123"
       const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
-      const items = [createTestItem("item-1", ledgerId)]
 
-      // Custom compensation executor to verify steps
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] }))
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCancellationEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Failed")
+      if (result._tag === "Failed") {
+        expect(result.errorTag).toBe("SagaNotCancelling")
+      }
+    })
+
+    it("should skip a CancellationRequested event the forward saga already handed off", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING", "order-789")
+      const enqueued: EnqueueEventParams[] = []
+
       const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {},
+        {},
+        {},
         {
-          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
-          updateStatus: (id, status) => Effect.succeed(createTestLedger(id, status))
-        },
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCancellationEvent(ledgerId, "ORDER_CREATED"))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Skipped")
+      expect(result.finalStatus).toBe("COMPENSATING")
+      expect(enqueued).toHaveLength(0)
+    })
+
+    it("should leave an in-flight cancellation to a pending OrderAuthorized event", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "CANCELLATION_REQUESTED", "order-789")
+      const enqueued: EnqueueEventParams[] = []
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {},
+        {},
         {},
         {
-          reserveStock: () => Effect.fail(new InventoryReservationError({
-            orderId: "order-789",
-            reason: "Insufficient stock",
-            statusCode: 409,
-            isRetryable: false
-          }))
-        },
+          findByAggregateId: () => Effect.succeed([createTestOutboxEvent(ledgerId)]),
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
+        }
+      )
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createCancellationEvent(ledgerId, "ORDER_CREATED"))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("Skipped")
+      expect(enqueued).toHaveLength(0)
+    })
+
+    it("should hand off an in-flight cancellation whose OrderAuthorized event is no longer pending", async () => {
+      const ledgerId = "ledger-123"
+      // Step 2 finished after the customer cancelled from ORDER_CREATED
+      const ledger = createTestLedger(ledgerId, "CANCELLATION_REQUESTED", "order-789")
+      const enqueued: EnqueueEventParams[] = []
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })) },
+        {},
+        {},
+        {},
         {},
         {
-          executeCompensation: (ctx) => Effect.succeed({
-            _tag: "CompensationCompleted" as const,
-            orderLedgerId: ctx.orderLedgerId,
-            stepsExecuted: ["void_payment", "cancel_order"]
-          })
+          findByAggregateId: () => Effect.succeed([
+            new OutboxEvent({ ...createTestOutboxEvent(ledgerId), status: "FAILED" })
+          ]),
+          enqueue: (params) => {
+            enqueued.push(params)
+            return Effect.succeed(createCompensationEvent(params.aggregateId))
+          }
         }
       )
 
       const result = await Effect.gen(function* () {
         const executor = yield* SagaExecutor
-        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+        return yield* executor.executeSaga(createCancellationEvent(ledgerId, "ORDER_CREATED"))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result._tag).toBe("CompensationScheduled")
+      expect(enqueued[0].payload).toMatchObject({
+        last_successful_status: "INVENTORY_RESERVED",
+        failure_reason: "cancellation_requested"
+      })
+    })
+
+    it("should mark the ledger CANCELLED when compensation for a cancellation finishes", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "COMPENSATING", "order-789")
+      const statusUpdates: OrderLedgerStatus[] = []
+
+      const testLayer = createTestLayer({
+        findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items: [] })),
+        updateStatus: (id, status) => {
+          statusUpdates.push(status)
+          return Effect.succeed(createTestLedger(id, status))
+        }
+      })
+
+      const result = await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(
+          createCompensationEvent(ledgerId, 0, "COMPLETED", "cancellation_requested")
+        )
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
       expect(result._tag).toBe("Compensated")
-      if (result._tag === "Compensated") {
-        expect(result.compensationSteps).toContain("void_payment")
-        expect(result.compensationSteps).toContain("cancel_order")
-      }
+      expect(result.finalStatus).toBe("CANCELLED")
+      expect(statusUpdates).toEqual(["CANCELLED"])
     })
   })
 
-  describe("executeSaga - max retries exceeded", () => {
-    it("should trigger compensation when max retries reached", async () => {
+  describe("executeSaga - step history", () => {
+    it("should record every forward step with its status transition", async () => {
       const ledgerId = "ledger-123"
       const ledger = createTestLedger(ledgerId, "AUTHORIZED")
       const items = [createTestItem("item-1", ledgerId)]
-      const statusUpdates: OrderLedgerStatus[] = []
+      const recordedSteps: RecordSagaStepParams[] = []
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
+        {}, {}, {}, {}, {},
+        { recorded: recordedSteps }
+      )
+
+      await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(recordedSteps.map((s) => [s.stepName, s.fromStatus, s.toStatus, s.outcome])).toEqual([
+        ["create_order", "AUTHORIZED", "ORDER_CREATED", "SUCCEEDED"],
+        ["reserve_inventory", "ORDER_CREATED", "INVENTORY_RESERVED", "SUCCEEDED"],
+        ["extend_reservation", "INVENTORY_RESERVED", null, "SUCCEEDED"],
+        ["capture_payment", "INVENTORY_RESERVED", "PAYMENT_CAPTURED", "SUCCEEDED"],
+        ["confirm_order", "PAYMENT_CAPTURED", null, "SUCCEEDED"],
+        ["commit_inventory", "PAYMENT_CAPTURED", "COMPLETED", "SUCCEEDED"]
+      ])
+      expect(recordedSteps.every((s) => s.orderLedgerId === ledgerId && s.attempt === 1)).toBe(true)
+      expect(recordedSteps.every((s) => s.durationMs >= 0)).toBe(true)
+    })
+
+    it("should record a scheduled retry with the attempt number and error", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "ORDER_CREATED", "order-789")
+      const items = [createTestItem("item-1", ledgerId)]
+      const recordedSteps: RecordSagaStepParams[] = []
 
-      // Config with maxRetryAttempts=5, current retryCount=5 (already exhausted)
       const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
+        {},
         {
-          findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })),
-          updateStatus: (id, status) => {
-            statusUpdates.push(status)
-            return Effect.succeed(createTestLedger(id, status))
-          }
+          reserveStock: () => Effect.fail(new InventoryReservationError({
+            orderId: "order-789",
+            reason: "Server error",
+            statusCode: 503,
+            isRetryable: true
+          }))
         },
+        {}, {}, {},
+        { recorded: recordedSteps }
+      )
+
+      await Effect.gen(function* () {
+        const executor = yield* SagaExecutor
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 2))
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(recordedSteps).toHaveLength(1)
+      expect(recordedSteps[0]).toMatchObject({
+        stepName: "reserve_inventory",
+        outcome: "RETRY_SCHEDULED",
+        fromStatus: "ORDER_CREATED",
+        toStatus: null,
+        attempt: 3,
+        errorTag: "InventoryReservationError",
+        errorReason: "Server error"
+      })
+    })
+
+    it("should record the failed step and the hand-off to compensation", async () => {
+      const ledgerId = "ledger-123"
+      const ledger = createTestLedger(ledgerId, "AUTHORIZED")
+      const items = [createTestItem("item-1", ledgerId)]
+      const recordedSteps: RecordSagaStepParams[] = []
+
+      const testLayer = createTestLayer(
+        { findByIdWithItems: () => Effect.succeed(Option.some({ ledger, items })) },
         {
           createOrder: () => Effect.fail(new OrderCreationError({
             orderLedgerId: ledgerId,
-            reason: "Server error",
-            statusCode: 500,
-            isRetryable: true  // Retryable but max retries exceeded
+            reason: "Validation failed",
+            statusCode: 400,
+            isRetryable: false
           }))
-        }
+        },
+        {}, {}, {}, {},
+        { recorded: recordedSteps }
       )
 
-      // Pass event with retryCount=5 (already at max)
-      const result = await Effect.gen(function* () {
+      await Effect.gen(function* () {
         const executor = yield* SagaExecutor
-        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId, 5))
+        return yield* executor.executeSaga(createTestOutboxEvent(ledgerId))
       }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      // Should compensate instead of retry
-      expect(result._tag).toBe("Compensated")
-      expect(statusUpdates).toContain("COMPENSATING")
-      expect(statusUpdates).toContain("FAILED")
+      expect(recordedSteps.map((s) => [s.stepName, s.outcome, s.fromStatus, s.toStatus])).toEqual([
+        ["create_order", "FAILED", "AUTHORIZED", null],
+        ["compensation_started", "SUCCEEDED", "AUTHORIZED", "COMPENSATING"]
+      ])
+      expect(recordedSteps[0].errorTag).toBe("OrderCreationError")
     })
   })
 
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Exit, Layer } from "effect"
+import { SqlClient, SqlError } from "@effect/sql"
+import { SagaStepRepository, type RecordSagaStepParams } from "../repositories/SagaStepRepository.js"
+import { SagaStepRepositoryLive } from "../repositories/SagaStepRepositoryLive.js"
+
+// Mock SQL client whose statements all fail or all succeed
+const createMockSqlClient = (shouldFail: boolean, executed: string[] = []) => {
+  const mockSql = Object.assign(
+    (strings: TemplateStringsArray) => {
+      executed.push(strings.join("?").replace(/\s+/g, " ").trim())
+      return shouldFail
+        ? Effect.fail(new SqlError.SqlError({ cause: new Error("Connection lost"), message: "Database connection error" }))
+        : Effect.succeed([])
+    },
+    {
+      withTransaction: <A, E, R>(effect: Effect.Effect<A, E, R>) => effect
+    }
+  )
+
+  return Layer.succeed(SqlClient.SqlClient, mockSql as any)
+}
+
+// Test fixtures
+const testStep: RecordSagaStepParams = {
+  orderLedgerId: "880e8400-e29b-41d4-a716-446655440003",
+  stepName: "capture_payment",
+  outcome: "SUCCEEDED",
+  fromStatus: "INVENTORY_RESERVED",
+  toStatus: "PAYMENT_CAPTURED",
+  attempt: 1,
+  errorTag: null,
+  errorReason: null,
+  durationMs: 42
+}
+
+const recordStep = (shouldFail: boolean, executed: string[] = []) =>
+  Effect.gen(function* () {
+    const repo = yield* SagaStepRepository
+    return yield* repo.record(testStep)
+  }).pipe(
+    Effect.provide(SagaStepRepositoryLive.pipe(Layer.provide(createMockSqlClient(shouldFail, executed)))),
+    Effect.runPromiseExit
+  )
+
+describe("SagaStepRepository", () => {
+  describe("record", () => {
+    it("should insert the step into the audit trail", async () => {
+      const executed: string[] = []
+      const exit = await recordStep(false, executed)
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      expect(executed).toHaveLength(1)
+      expect(executed[0]).toContain("INSERT INTO saga_step_events")
+    })
+
+    it("should succeed when the audit write fails so the saga step is not aborted", async () => {
+      const exit = await recordStep(true)
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+    })
+  })
+})
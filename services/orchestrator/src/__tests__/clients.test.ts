@@ -1,16 +1,43 @@
 import { describe, it, expect } from "vitest"
 import { Effect, Layer, Exit } from "effect"
-import { OrdersClient, type CreateOrderParams, type CreateOrderResult, type ConfirmOrderResult, type CancelOrderResult } from "../clients/OrdersClient.js"
-import { InventoryClient, type ReserveStockParams, type ReserveStockResult, type ReleaseStockParams, type ReleaseStockResult } from "../clients/InventoryClient.js"
-import { PaymentsClient, type CapturePaymentParams, type CapturePaymentResult, type VoidPaymentParams, type VoidPaymentResult } from "../clients/PaymentsClient.js"
+import {
+  OrdersClient,
+  type CreateOrderParams,
+  type CreateOrderResult,
+  type AdjustOrderParams,
+  type AdjustOrderResult,
+  type ConfirmOrderResult,
+  type CancelOrderResult
+} from "../clients/OrdersClient.js"
+import {
+  InventoryClient,
+  type ReserveStockParams,
+  type ReserveStockResult,
+  type ReleaseStockParams,
+  type ReleaseStockResult,
+  type ExtendReservationParams,
+  type ExtendReservationResult,
+  type CommitReservationResult
+} from "../clients/InventoryClient.js"
+import {
+  PaymentsClient,
+  type CapturePaymentParams,
+  type CapturePaymentResult,
+  type VoidPaymentParams,
+  type VoidPaymentResult,
+  type RefundPaymentParams,
+  type RefundPaymentResult
+} from "../clients/PaymentsClient.js"
 import {
   OrderCreationError,
+  OrderAdjustmentError,
   OrderConfirmationError,
   OrderCancellationError,
   InventoryReservationError,
   InventoryReleaseError,
   PaymentCaptureError,
   PaymentVoidError,
+  PaymentRefundError,
   ServiceConnectionError
 } from "../domain/errors.js"
 
@@ -34,6 +61,11 @@ const testCreateOrderResult: CreateOrderResult = {
   status: "CREATED"
 }
 
+const testAdjustOrderResult: AdjustOrderResult = {
+  orderId: "order-789",
+  totalAmountCents: 2999
+}
+
 const testConfirmOrderResult: ConfirmOrderResult = {
   orderId: "order-789",
   status: "CONFIRMED"
@@ -44,14 +76,17 @@ const testReserveStockParams: ReserveStockParams = {
   items: [
     { productId: "product-1", quantity: 2 },
     { productId: "product-2", quantity: 1 }
-  ]
+  ],
+  destination: null,
+  allowPartial: false
 }
 
 const testReserveStockResult: ReserveStockResult = {
   orderId: "order-789",
   reservationIds: ["res-1", "res-2"],
   lineItemsReserved: 2,
-  totalQuantityReserved: 3
+  totalQuantityReserved: 3,
+  shortfalls: []
 }
 
 const testCapturePaymentParams: CapturePaymentParams = {
@@ -81,6 +116,20 @@ const testVoidPaymentResult: VoidPaymentResult = {
   voidedAt: "2024-01-15T10:30:00Z"
 }
 
+const testRefundPaymentParams: RefundPaymentParams = {
+  captureId: "cap-789",
+  idempotencyKey: "refund-ledger-456",
+  reason: "Saga compensation"
+}
+
+const testRefundPaymentResult: RefundPaymentResult = {
+  refundId: "ref-789",
+  captureId: "cap-789",
+  status: "REFUNDED",
+  amountCents: 5999,
+  refundedAt: "2024-01-15T10:30:00Z"
+}
+
 const testReleaseStockParams: ReleaseStockParams = {
   orderId: "order-789"
 }
@@ -91,6 +140,17 @@ const testReleaseStockResult: ReleaseStockResult = {
   totalQuantityRestored: 5
 }
 
+const testExtendReservationResult: ExtendReservationResult = {
+  orderId: "order-789",
+  reservationIds: ["res-1", "res-2"]
+}
+
+const testCommitReservationResult: CommitReservationResult = {
+  orderId: "order-789",
+  reservationIds: ["res-1", "res-2"],
+  committedCount: 2
+}
+
 const testCancelOrderResult: CancelOrderResult = {
   orderId: "order-789",
   status: "CANCELLED"
@@ -102,11 +162,13 @@ const testCancelOrderResult: CancelOrderResult = {
 
 const createMockOrdersClient = (overrides: {
   createOrder?: (params: CreateOrderParams) => Effect.Effect<CreateOrderResult, OrderCreationError | ServiceConnectionError>
+  adjustOrder?: (params: AdjustOrderParams) => Effect.Effect<AdjustOrderResult, OrderAdjustmentError | ServiceConnectionError>
   confirmOrder?: (orderId: string) => Effect.Effect<ConfirmOrderResult, OrderConfirmationError | ServiceConnectionError>
   cancelOrder?: (orderId: string) => Effect.Effect<CancelOrderResult, OrderCancellationError | ServiceConnectionError>
 } = {}) => {
   return Layer.succeed(OrdersClient, {
     createOrder: overrides.createOrder ?? (() => Effect.succeed(testCreateOrderResult)),
+    adjustOrder: overrides.adjustOrder ?? (() => Effect.succeed(testAdjustOrderResult)),
     confirmOrder: overrides.confirmOrder ?? (() => Effect.succeed(testConfirmOrderResult)),
     cancelOrder: overrides.cancelOrder ?? (() => Effect.succeed(testCancelOrderResult))
   })
@@ -115,20 +177,25 @@ const createMockOrdersClient = (overrides: {
 const createMockInventoryClient = (overrides: {
   reserveStock?: (params: ReserveStockParams) => Effect.Effect<ReserveStockResult, InventoryReservationError | ServiceConnectionError>
   releaseStock?: (params: ReleaseStockParams) => Effect.Effect<ReleaseStockResult, InventoryReleaseError | ServiceConnectionError>
+  extendReservation?: (params: ExtendReservationParams) => Effect.Effect<ExtendReservationResult, InventoryReservationError | ServiceConnectionError>
 } = {}) => {
   return Layer.succeed(InventoryClient, {
     reserveStock: overrides.reserveStock ?? (() => Effect.succeed(testReserveStockResult)),
-    releaseStock: overrides.releaseStock ?? (() => Effect.succeed(testReleaseStockResult))
+    releaseStock: overrides.releaseStock ?? (() => Effect.succeed(testReleaseStockResult)),
+    extendReservation: overrides.extendReservation ?? (() => Effect.succeed(testExtendReservationResult)),
+    commitReservation: () => Effect.succeed(testCommitReservationResult)
   })
 }
 
 const createMockPaymentsClient = (overrides: {
   capturePayment?: (params: CapturePaymentParams) => Effect.Effect<CapturePaymentResult, PaymentCaptureError | ServiceConnectionError>
   voidPayment?: (params: VoidPaymentParams) => Effect.Effect<VoidPaymentResult, PaymentVoidError | ServiceConnectionError>
+  refundPayment?: (params: RefundPaymentParams) => Effect.Effect<RefundPaymentResult, PaymentRefundError | ServiceConnectionError>
 } = {}) => {
   return Layer.succeed(PaymentsClient, {
     capturePayment: overrides.capturePayment ?? (() => Effect.succeed(testCapturePaymentResult)),
-    voidPayment: overrides.voidPayment ?? (() => Effect.succeed(testVoidPaymentResult))
+    voidPayment: overrides.voidPayment ?? (() => Effect.succeed(testVoidPaymentResult)),
+    refundPayment: overrides.refundPayment ?? (() => Effect.succeed(testRefundPaymentResult))
   })
 }
 
@@ -217,6 +284,49 @@ describe("OrdersClient", () => {
     })
   })
 
+  describe("adjustOrder", () => {
+    it("should pass the quantities to keep to the service", async () => {
+      let captured: AdjustOrderParams | undefined
+
+      const mockClient = createMockOrdersClient({
+        adjustOrder: (params) => {
+          captured = params
+          return Effect.succeed(testAdjustOrderResult)
+        }
+      })
+
+      const result = await Effect.gen(function* () {
+        const client = yield* OrdersClient
+        return yield* client.adjustOrder({ orderId: "order-789", items: [{ productId: "prod-1", quantity: 1 }] })
+      }).pipe(Effect.provide(mockClient), Effect.runPromise)
+
+      expect(result.totalAmountCents).toBe(2999)
+      expect(captured?.items).toEqual([{ productId: "prod-1", quantity: 1 }])
+    })
+
+    it("should fail with a non-retryable OrderAdjustmentError when the adjustment is rejected", async () => {
+      const mockClient = createMockOrdersClient({
+        adjustOrder: () => Effect.fail(new OrderAdjustmentError({
+          orderId: "order-789",
+          reason: "Cannot increase the quantity of product prod-1",
+          statusCode: 422,
+          isRetryable: false
+        }))
+      })
+
+      const exit = await Effect.gen(function* () {
+        const client = yield* OrdersClient
+        return yield* client.adjustOrder({ orderId: "order-789", items: [{ productId: "prod-1", quantity: 5 }] })
+      }).pipe(Effect.provide(mockClient), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("OrderAdjustmentError")
+        expect((exit.cause.error as OrderAdjustmentError).isRetryable).toBe(false)
+      }
+    })
+  })
+
   describe("confirmOrder", () => {
     it("should confirm an order successfully", async () => {
       const mockClient = createMockOrdersClient()
@@ -560,6 +670,50 @@ describe("InventoryClient", () => {
     })
   })
 
+  describe("extendReservation", () => {
+    it("should extend reservations successfully", async () => {
+      let capturedParams: ExtendReservationParams | undefined
+      const mockClient = createMockInventoryClient({
+        extendReservation: (params) => {
+          capturedParams = params
+          return Effect.succeed(testExtendReservationResult)
+        }
+      })
+
+      const result = await Effect.gen(function* () {
+        const client = yield* InventoryClient
+        return yield* client.extendReservation({ orderId: "order-789" })
+      }).pipe(Effect.provide(mockClient), Effect.runPromise)
+
+      expect(capturedParams?.orderId).toBe("order-789")
+      expect(result.reservationIds).toEqual(["res-1", "res-2"])
+    })
+
+    it("should fail non-retryably when the reservation already expired (409)", async () => {
+      const mockClient = createMockInventoryClient({
+        extendReservation: () => Effect.fail(new InventoryReservationError({
+          orderId: "order-789",
+          reason: "Reservation expired or was released",
+          statusCode: 409,
+          isRetryable: false
+        }))
+      })
+
+      const exit = await Effect.gen(function* () {
+        const client = yield* InventoryClient
+        return yield* client.extendReservation({ orderId: "order-789" })
+      }).pipe(Effect.provide(mockClient), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("InventoryReservationError")
+        const error = exit.cause.error as InventoryReservationError
+        expect(error.statusCode).toBe(409)
+        expect(error.isRetryable).toBe(false)
+      }
+    })
+  })
+
   describe("InventoryClient interface", () => {
     it("should be a Context.Tag with the correct identifier", () => {
       expect(InventoryClient.key).toBe("InventoryClient")
@@ -816,6 +970,63 @@ describe("PaymentsClient", () => {
     })
   })
 
+  describe("refundPayment", () => {
+    it("should refund payment successfully", async () => {
+      const mockClient = createMockPaymentsClient()
+
+      const result = await Effect.gen(function* () {
+        const client = yield* PaymentsClient
+        return yield* client.refundPayment(testRefundPaymentParams)
+      }).pipe(Effect.provide(mockClient), Effect.runPromise)
+
+      expect(result.refundId).toBe("ref-789")
+      expect(result.captureId).toBe("cap-789")
+      expect(result.status).toBe("REFUNDED")
+    })
+
+    it("should pass all parameters to the service", async () => {
+      let capturedParams: RefundPaymentParams | undefined
+
+      const mockClient = createMockPaymentsClient({
+        refundPayment: (params) => {
+          capturedParams = params
+          return Effect.succeed(testRefundPaymentResult)
+        }
+      })
+
+      await Effect.gen(function* () {
+        const client = yield* PaymentsClient
+        return yield* client.refundPayment({ ...testRefundPaymentParams, amountCents: 1000 })
+      }).pipe(Effect.provide(mockClient), Effect.runPromise)
+
+      expect(capturedParams).toEqual({ ...testRefundPaymentParams, amountCents: 1000 })
+    })
+
+    it("should fail with PaymentRefundError when capture not found (404)", async () => {
+      const mockClient = createMockPaymentsClient({
+        refundPayment: () => Effect.fail(new PaymentRefundError({
+          captureId: "cap-789",
+          reason: "Capture not found",
+          statusCode: 404,
+          isRetryable: false
+        }))
+      })
+
+      const exit = await Effect.gen(function* () {
+        const client = yield* PaymentsClient
+        return yield* client.refundPayment(testRefundPaymentParams)
+      }).pipe(Effect.provide(mockClient), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("PaymentRefundError")
+        const error = exit.cause.error as PaymentRefundError
+        expect(error.captureId).toBe("cap-789")
+        expect(error.isRetryable).toBe(false)
+      }
+    })
+  })
+
   describe("PaymentsClient interface", () => {
     it("should be a Context.Tag with the correct identifier", () => {
       expect(PaymentsClient.key).toBe("PaymentsClient")
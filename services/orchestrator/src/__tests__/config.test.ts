@@ -175,10 +175,12 @@ describe("OrchestratorConfig", () => {
       expect(result).toHaveProperty("ordersServiceUrl")
       expect(result).toHaveProperty("inventoryServiceUrl")
       expect(result).toHaveProperty("paymentsServiceUrl")
+      expect(result).toHaveProperty("adminPort")
       expect(typeof result.pollIntervalMs).toBe("number")
       expect(typeof result.ordersServiceUrl).toBe("string")
       expect(typeof result.inventoryServiceUrl).toBe("string")
       expect(typeof result.paymentsServiceUrl).toBe("string")
+      expect(typeof result.adminPort).toBe("number")
     })
   })
 })
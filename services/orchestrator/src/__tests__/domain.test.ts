@@ -1,7 +1,17 @@
 import { describe, it, expect } from "vitest"
 import { Schema, DateTime } from "effect"
 import { OutboxEvent, OutboxEventId, OutboxEventStatus, OrderAuthorizedPayload } from "../domain/OutboxEvent.js"
-import { OrderLedger, OrderLedgerId, OrderLedgerStatus, OrderLedgerItem, UserId, ProductId } from "../domain/OrderLedger.js"
+import {
+  OrderLedger,
+  OrderLedgerId,
+  OrderLedgerStatus,
+  OrderLedgerItem,
+  UserId,
+  ProductId,
+  applyShortfalls,
+  captureAmounts,
+  unfulfilledAmountCents
+} from "../domain/OrderLedger.js"
 import { isValidTransition, SAGA_STEPS, getSagaStepIndex, VALID_TRANSITIONS } from "../domain/SagaState.js"
 import {
   OrderCreationError,
@@ -54,6 +64,10 @@ describe("OutboxEvent", () => {
       expect(result.total_amount_cents).toBe(2999)
       expect(result.currency).toBe("USD")
       expect(result.payment_authorization_id).toBe("auth-789")
+      // Payloads written before orders carried a destination
+      expect(result.shipping_destination).toBeNull()
+      // ...or before partial fulfilment
+      expect(result.allow_partial).toBe(false)
     })
 
     it("should reject payload missing required fields", () => {
@@ -106,7 +120,9 @@ describe("OrderLedger", () => {
         "PAYMENT_CAPTURED",
         "COMPLETED",
         "COMPENSATING",
-        "FAILED"
+        "FAILED",
+        "CANCELLATION_REQUESTED",
+        "CANCELLED"
       ]
 
       validStatuses.forEach(status => {
@@ -132,6 +148,7 @@ describe("OrderLedger", () => {
         totalAmountCents: 5999,
         currency: "USD",
         paymentAuthorizationId: "auth-123",
+        paymentCaptureId: null,
         orderId: null,
         createdAt: now,
         updatedAt: now
@@ -153,6 +170,7 @@ describe("OrderLedger", () => {
         productId: "product-789" as ProductId,
         quantity: 2,
         unitPriceCents: 1500,
+        fulfilledQuantity: null,
         createdAt: now
       })
 
@@ -169,10 +187,48 @@ describe("OrderLedger", () => {
         productId: "product-789" as ProductId,
         quantity: 0,
         unitPriceCents: 1500,
+        fulfilledQuantity: null,
         createdAt: now
       })).toThrow()
     })
   })
+
+  describe("partial fulfilment", () => {
+    const item = (id: string, productId: string, quantity: number, seconds: number) =>
+      new OrderLedgerItem({
+        id,
+        orderLedgerId: "ledger-456" as OrderLedgerId,
+        productId: productId as ProductId,
+        quantity,
+        unitPriceCents: 1000,
+        fulfilledQuantity: null,
+        createdAt: DateTime.unsafeMake(1_700_000_000_000 + seconds * 1000)
+      })
+
+    it("should keep a short product's reserved quantity on its earliest items", () => {
+      const items = [item("b", "p1", 2, 1), item("a", "p1", 2, 0), item("c", "p2", 1, 2)]
+
+      const adjusted = applyShortfalls(items, [{ productId: "p1", reservedQuantity: 3 }])
+
+      // Returned in the order given; p2 was not short
+      expect(adjusted.map((i) => [i.id, i.fulfilledQuantity])).toEqual([["b", 1], ["a", null], ["c", null]])
+      expect(unfulfilledAmountCents(adjusted)).toBe(1000)
+    })
+
+    it("should mark an item with nothing reserved as fulfilled with 0", () => {
+      const adjusted = applyShortfalls([item("a", "p1", 2, 0)], [{ productId: "p1", reservedQuantity: 0 }])
+      expect(adjusted[0].fulfilledQuantity).toBe(0)
+      expect(unfulfilledAmountCents(adjusted)).toBe(2000)
+    })
+
+    it("should take a capture reduction off the primary instrument first", () => {
+      const instruments = [{ sequence: 0, amountCents: 1000 }, { sequence: 1, amountCents: 4000 }]
+
+      expect(captureAmounts(instruments, 0)).toEqual([1000, 4000])
+      expect(captureAmounts(instruments, 1500)).toEqual([1000, 2500])
+      expect(captureAmounts(instruments, 4500)).toEqual([500, 0])
+    })
+  })
 })
 
 describe("SagaState", () => {
@@ -214,6 +270,23 @@ describe("SagaState", () => {
     it("should allow COMPENSATING -> FAILED", () => {
       expect(isValidTransition("COMPENSATING", "FAILED")).toBe(true)
     })
+
+    it("should allow COMPENSATING -> COMPENSATION_FAILED and recovery from it", () => {
+      expect(isValidTransition("COMPENSATING", "COMPENSATION_FAILED")).toBe(true)
+      expect(isValidTransition("COMPENSATION_FAILED", "COMPENSATING")).toBe(true)
+      expect(isValidTransition("COMPENSATION_FAILED", "FAILED")).toBe(true)
+      expect(isValidTransition("COMPENSATION_FAILED", "ORDER_CREATED")).toBe(false)
+    })
+
+    it("should allow customer cancellation from in-flight and COMPLETED sagas only", () => {
+      expect(isValidTransition("AUTHORIZED", "CANCELLATION_REQUESTED")).toBe(true)
+      expect(isValidTransition("PAYMENT_CAPTURED", "CANCELLATION_REQUESTED")).toBe(true)
+      expect(isValidTransition("COMPLETED", "CANCELLATION_REQUESTED")).toBe(true)
+      expect(isValidTransition("FAILED", "CANCELLATION_REQUESTED")).toBe(false)
+      expect(isValidTransition("CANCELLATION_REQUESTED", "COMPENSATING")).toBe(true)
+      expect(isValidTransition("COMPENSATING", "CANCELLED")).toBe(true)
+      expect(isValidTransition("CANCELLED", "COMPENSATING")).toBe(false)
+    })
   })
 
   describe("SAGA_STEPS", () => {
@@ -245,6 +318,7 @@ describe("SagaState", () => {
     it("should have entries for all statuses", () => {
       const allStatuses = [
         "AWAITING_AUTHORIZATION",
+        "AWAITING_CUSTOMER_ACTION",
         "AUTHORIZED",
         "AUTHORIZATION_FAILED",
         "ORDER_CREATED",
@@ -252,7 +326,9 @@ describe("SagaState", () => {
         "PAYMENT_CAPTURED",
         "COMPLETED",
         "COMPENSATING",
-        "FAILED"
+        "FAILED",
+        "CANCELLATION_REQUESTED",
+        "CANCELLED"
       ] as const
 
       allStatuses.forEach(status => {
@@ -1,10 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest"
-import { Effect, Layer, Queue, DateTime } from "effect"
+import { Effect, Layer, Queue, DateTime, Option } from "effect"
 import { SqlClient } from "@effect/sql"
 import { OrchestratorConfig } from "../config.js"
-import { processEvents } from "../main.js"
+import { processEvents, toDeadLetter } from "../main.js"
 import { OutboxRepository, type ClaimResult } from "../repositories/OutboxRepository.js"
-import { SagaExecutor, type SagaExecutionResult } from "../services/SagaExecutor.js"
+import { DeadLetterRepository, type RecordDeadLetterParams } from "../repositories/DeadLetterRepository.js"
+import {
+  SagaExecutor,
+  type SagaExecutionResult,
+  type SagaCompensationScheduled,
+  type SagaCompensationFailed
+} from "../services/SagaExecutor.js"
 import { OutboxEvent, type OutboxEventId } from "../domain/OutboxEvent.js"
 
 const createTestConfig = (overrides: Partial<{
@@ -15,6 +21,10 @@ const createTestConfig = (overrides: Partial<{
   maxRetryAttempts: number
   retryBaseDelayMs: number
   retryBackoffMultiplier: number
+  compensationMaxRetryAttempts: number
+  compensationRetryBaseDelayMs: number
+  compensationRetryBackoffMultiplier: number
+  adminPort: number
 }> = {}) =>
   Layer.succeed(OrchestratorConfig, {
     pollIntervalMs: overrides.pollIntervalMs ?? 1000,
@@ -23,7 +33,11 @@ const createTestConfig = (overrides: Partial<{
     paymentsServiceUrl: overrides.paymentsServiceUrl ?? "http://localhost:3002",
     maxRetryAttempts: overrides.maxRetryAttempts ?? 5,
     retryBaseDelayMs: overrides.retryBaseDelayMs ?? 1000,
-    retryBackoffMultiplier: overrides.retryBackoffMultiplier ?? 4
+    retryBackoffMultiplier: overrides.retryBackoffMultiplier ?? 4,
+    compensationMaxRetryAttempts: overrides.compensationMaxRetryAttempts ?? 8,
+    compensationRetryBaseDelayMs: overrides.compensationRetryBaseDelayMs ?? 1000,
+    compensationRetryBackoffMultiplier: overrides.compensationRetryBackoffMultiplier ?? 3,
+    adminPort: overrides.adminPort ?? 3004
   })
 
 // Mock SqlClient that supports withTransaction
@@ -37,7 +51,13 @@ const createMockOutboxRepo = (events: OutboxEvent[] = []) =>
     claimPendingEvents: () => Effect.succeed({ events } satisfies ClaimResult),
     markProcessed: () => Effect.void,
     markFailed: () => Effect.void,
-    scheduleRetry: () => Effect.succeed({ retryCount: 1 })
+    scheduleRetry: () => Effect.succeed({ retryCount: 1 }),
+    findById: () => Effect.succeed(Option.none()),
+    listByStatus: () => Effect.succeed([]),
+    findByAggregateId: () => Effect.succeed([]),
+    resetForRetry: () => Effect.succeed(Option.none()),
+    failPendingForAggregate: () => Effect.succeed(0),
+    enqueue: () => Effect.die("enqueue not expected")
   })
 
 const createMockSagaExecutor = (result: SagaExecutionResult = { _tag: "Completed", orderLedgerId: "test", finalStatus: "COMPLETED" }) =>
@@ -45,13 +65,74 @@ const createMockSagaExecutor = (result: SagaExecutionResult = { _tag: "Completed
     executeSaga: () => Effect.succeed(result)
   })
 
-const createProcessEventsTestLayer = (events: OutboxEvent[] = []) =>
+const createMockDeadLetterRepo = (recorded: RecordDeadLetterParams[] = []) =>
+  Layer.succeed(DeadLetterRepository, {
+    record: (params) => {
+      recorded.push(params)
+      return Effect.void
+    },
+    findById: () => Effect.succeed(Option.none()),
+    list: () => Effect.succeed([]),
+    replay: () => Effect.succeed(Option.none())
+  })
+
+const createProcessEventsTestLayer = (
+  events: OutboxEvent[] = [],
+  result?: SagaExecutionResult,
+  deadLetters: RecordDeadLetterParams[] = []
+) =>
   Layer.mergeAll(
     createMockSqlClient(),
     createMockOutboxRepo(events),
-    createMockSagaExecutor()
+    createMockDeadLetterRepo(deadLetters),
+    createMockSagaExecutor(result)
   )
 
+const createTestEvent = (retryCount = 0) =>
+  new OutboxEvent({
+    id: "event-123" as OutboxEventId,
+    aggregateType: "OrderLedger",
+    aggregateId: "ledger-123",
+    eventType: "OrderAuthorized",
+    payload: { order_ledger_id: "ledger-123" },
+    status: "PENDING",
+    createdAt: DateTime.unsafeNow(),
+    processedAt: null,
+    retryCount,
+    nextRetryAt: null,
+    attemptHistory: Array.from({ length: retryCount }, (_, i) => ({
+      attempt: i + 1,
+      error_tag: "ServiceConnectionError",
+      error_reason: "Connection refused",
+      failed_at: "2024-01-15T10:00:00.000Z"
+    }))
+  })
+
+const createScheduledResult = (
+  overrides: Partial<SagaCompensationScheduled> = {}
+): SagaCompensationScheduled => ({
+  _tag: "CompensationScheduled",
+  orderLedgerId: "ledger-123",
+  finalStatus: "COMPENSATING",
+  compensationEventId: "compensation-123" as OutboxEventId,
+  failureReason: "max_retries_exceeded",
+  errorTag: "ServiceConnectionError",
+  errorReason: "Connection refused",
+  ...overrides
+})
+
+const createCompensationFailedResult = (
+  overrides: Partial<SagaCompensationFailed> = {}
+): SagaCompensationFailed => ({
+  _tag: "CompensationFailed",
+  orderLedgerId: "ledger-123",
+  finalStatus: "COMPENSATION_FAILED",
+  compensationSteps: [],
+  error: "void_payment: PaymentVoidError",
+  compensationErrors: ["void_payment: PaymentVoidError"],
+  ...overrides
+})
+
 describe("processEvents", () => {
   it("should complete successfully when no events pending", async () => {
     const testLayer = createProcessEventsTestLayer([])
@@ -95,8 +176,15 @@ describe("processEvents", () => {
           return Effect.void
         },
         markFailed: () => Effect.void,
-        scheduleRetry: () => Effect.succeed({ retryCount: 1 })
+        scheduleRetry: () => Effect.succeed({ retryCount: 1 }),
+        findById: () => Effect.succeed(Option.none()),
+        listByStatus: () => Effect.succeed([]),
+        findByAggregateId: () => Effect.succeed([]),
+        resetForRetry: () => Effect.succeed(Option.none()),
+        failPendingForAggregate: () => Effect.succeed(0),
+        enqueue: () => Effect.die("enqueue not expected")
       }),
+      createMockDeadLetterRepo(),
       createMockSagaExecutor()
     )
 
@@ -125,6 +213,129 @@ describe("processEvents", () => {
   })
 })
 
+describe("dead-lettering", () => {
+  it("should dead-letter events whose retries are exhausted", async () => {
+    const deadLetters: RecordDeadLetterParams[] = []
+    const testLayer = createProcessEventsTestLayer([createTestEvent(5)], createScheduledResult(), deadLetters)
+
+    await processEvents.pipe(Effect.provide(testLayer), Effect.runPromise)
+
+    expect(deadLetters).toHaveLength(1)
+    expect(deadLetters[0].reason).toBe("MAX_RETRIES_EXCEEDED")
+    expect(deadLetters[0].attemptHistory).toHaveLength(6)
+  })
+
+  it("should not dead-letter a permanent failure handed off to compensation", async () => {
+    const deadLetters: RecordDeadLetterParams[] = []
+    const testLayer = createProcessEventsTestLayer(
+      [createTestEvent()],
+      createScheduledResult({ failureReason: "permanent_failure", errorTag: "InventoryReservationError" }),
+      deadLetters
+    )
+
+    await processEvents.pipe(Effect.provide(testLayer), Effect.runPromise)
+
+    expect(deadLetters).toHaveLength(0)
+  })
+
+  it("should mark a compensated CompensationRequested event as processed", async () => {
+    const deadLetters: RecordDeadLetterParams[] = []
+    const testLayer = createProcessEventsTestLayer(
+      [createTestEvent()],
+      { _tag: "Compensated", orderLedgerId: "ledger-123", finalStatus: "FAILED", compensationSteps: ["void_payment"] },
+      deadLetters
+    )
+
+    await processEvents.pipe(Effect.provide(testLayer), Effect.runPromise)
+
+    expect(deadLetters).toHaveLength(0)
+  })
+
+  it("should mark a skipped duplicate event as processed", async () => {
+    const deadLetters: RecordDeadLetterParams[] = []
+    const testLayer = createProcessEventsTestLayer(
+      [createTestEvent()],
+      {
+        _tag: "Skipped",
+        orderLedgerId: "ledger-123",
+        finalStatus: "COMPENSATING",
+        reason: "Cancellation already handed off to compensation"
+      },
+      deadLetters
+    )
+
+    await processEvents.pipe(Effect.provide(testLayer), Effect.runPromise)
+
+    expect(deadLetters).toHaveLength(0)
+  })
+
+  it("should dead-letter compensations whose retries are exhausted", async () => {
+    const deadLetters: RecordDeadLetterParams[] = []
+    const testLayer = createProcessEventsTestLayer([createTestEvent(8)], createCompensationFailedResult(), deadLetters)
+
+    await processEvents.pipe(Effect.provide(testLayer), Effect.runPromise)
+
+    expect(deadLetters).toHaveLength(1)
+    expect(deadLetters[0].reason).toBe("COMPENSATION_FAILED")
+    expect(deadLetters[0].compensationErrors).toEqual(["void_payment: PaymentVoidError"])
+  })
+
+  it("should dead-letter unprocessable events", async () => {
+    const deadLetters: RecordDeadLetterParams[] = []
+    const testLayer = createProcessEventsTestLayer(
+      [createTestEvent()],
+      {
+        _tag: "Failed",
+        orderLedgerId: "ledger-123",
+        finalStatus: "UNKNOWN",
+        error: "Ledger entry not found",
+        errorTag: "LedgerNotFoundError"
+      },
+      deadLetters
+    )
+
+    await processEvents.pipe(Effect.provide(testLayer), Effect.runPromise)
+
+    expect(deadLetters).toHaveLength(1)
+    expect(deadLetters[0].reason).toBe("UNPROCESSABLE")
+    expect(deadLetters[0].errorMessage).toBe("Ledger entry not found")
+  })
+})
+
+describe("toDeadLetter", () => {
+  const failedAt = DateTime.unsafeMake("2024-01-15T10:05:00Z")
+
+  it("should map exhausted compensation to COMPENSATION_FAILED", () => {
+    const result = toDeadLetter(createTestEvent(8), createCompensationFailedResult(), failedAt)
+
+    expect(result?.reason).toBe("COMPENSATION_FAILED")
+    expect(result?.errorTag).toBe("CompensationFailed")
+    expect(result?.compensationErrors).toEqual(["void_payment: PaymentVoidError"])
+  })
+
+  it("should return null for a permanent failure handed off to compensation", () => {
+    const result = toDeadLetter(
+      createTestEvent(),
+      createScheduledResult({ failureReason: "permanent_failure" }),
+      failedAt
+    )
+
+    expect(result).toBeNull()
+  })
+
+  it("should append the final attempt to the attempt history", () => {
+    const result = toDeadLetter(createTestEvent(2), createScheduledResult(), failedAt)
+
+    expect(result?.attemptHistory.map((a) => a.attempt)).toEqual([1, 2, 3])
+    expect(result?.attemptHistory[2]).toEqual({
+      attempt: 3,
+      error_tag: "ServiceConnectionError",
+      error_reason: "Connection refused",
+      failed_at: "2024-01-15T10:05:00.000Z"
+    })
+  })
+})
+
 describe("createPollingLoop", () => {
   it("should require OrchestratorConfig", async () => {
     const result = await Effect.gen(function* () {
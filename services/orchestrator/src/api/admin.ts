@@ -0,0 +1,358 @@
+import { HttpRouter, HttpServerRequest, HttpServerResponse } from "@effect/platform"
+import { Effect, DateTime, type ParseResult } from "effect"
+import { withTraceContext } from "@ecommerce/tracing"
+import { SagaAdmin } from "../services/SagaAdmin.js"
+import { ListOutboxEventsParams, OutboxEventIdParams, type OutboxEvent, type OutboxEventId } from "../domain/OutboxEvent.js"
+import { OrderLedgerIdParams, type OrderLedger, type OrderLedgerItem } from "../domain/OrderLedger.js"
+import { DeadLetterIdParams, ListDeadLettersParams, type DeadLetter, type DeadLetterId } from "../domain/DeadLetter.js"
+import type {
+  LedgerNotFoundError,
+  OutboxEventNotFoundError,
+  EventNotRetryableError,
+  SagaNotCompensableError,
+  DeadLetterNotFoundError,
+  DeadLetterAlreadyReplayedError,
+  DeadLetterNotReplayableError
+} from "../domain/errors.js"
+
+// Map domain models to snake_case JSON
+const toEventResponse = (event: OutboxEvent) => ({
+  id: event.id,
+  aggregate_type: event.aggregateType,
+  aggregate_id: event.aggregateId,
+  event_type: event.eventType,
+  status: event.status,
+  payload: event.payload,
+  retry_count: event.retryCount,
+  next_retry_at: event.nextRetryAt ? DateTime.formatIso(event.nextRetryAt) : null,
+  attempt_history: event.attemptHistory,
+  created_at: DateTime.formatIso(event.createdAt),
+  processed_at: event.processedAt ? DateTime.formatIso(event.processedAt) : null
+})
+
+const toDeadLetterResponse = (deadLetter: DeadLetter) => ({
+  id: deadLetter.id,
+  outbox_event_id: deadLetter.outboxEventId,
+  aggregate_type: deadLetter.aggregateType,
+  aggregate_id: deadLetter.aggregateId,
+  event_type: deadLetter.eventType,
+  payload: deadLetter.payload,
+  reason: deadLetter.reason,
+  error_tag: deadLetter.errorTag,
+  error_message: deadLetter.errorMessage,
+  retry_count: deadLetter.retryCount,
+  attempt_history: deadLetter.attemptHistory,
+  compensation_errors: deadLetter.compensationErrors,
+  event_created_at: DateTime.formatIso(deadLetter.eventCreatedAt),
+  dead_lettered_at: DateTime.formatIso(deadLetter.deadLetteredAt),
+  replayed_at: deadLetter.replayedAt ? DateTime.formatIso(deadLetter.replayedAt) : null,
+  replayed_event_id: deadLetter.replayedEventId
+})
+
+const toLedgerResponse = (ledger: OrderLedger) => ({
+  order_ledger_id: ledger.id,
+  client_request_id: ledger.clientRequestId,
+  status: ledger.status,
+  user_id: ledger.userId,
+  email: ledger.email,
+  total_amount_cents: ledger.totalAmountCents,
+  currency: ledger.currency,
+  payment_authorization_id: ledger.paymentAuthorizationId,
+  payment_capture_id: ledger.paymentCaptureId,
+  order_id: ledger.orderId,
+  created_at: DateTime.formatIso(ledger.createdAt),
+  updated_at: DateTime.formatIso(ledger.updatedAt)
+})
+
+const toItemResponse = (item: OrderLedgerItem) => ({
+  product_id: item.productId,
+  quantity: item.quantity,
+  unit_price_cents: item.unitPriceCents
+})
+
+// GET /admin/outbox?status=PENDING&limit=50 - List outbox events by status
+export const listOutboxEvents = withTraceContext(Effect.gen(function* () {
+  const { status, limit } = yield* HttpServerRequest.schemaSearchParams(ListOutboxEventsParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const events = yield* sagaAdmin.listEvents(status, limit)
+
+  return HttpServerResponse.json({
+    status,
+    count: events.length,
+    events: events.map(toEventResponse)
+  })
+})).pipe(
+  Effect.withSpan("GET /admin/outbox"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid query parameters. status must be PENDING, PROCESSED or FAILED; limit must be 1-500.",
+          details: error.message
+        },
+        { status: 400 }
+      )
+  })
+)
+
+// GET /admin/sagas/:order_ledger_id - Ledger, items and outbox/retry history for a saga
+export const getSaga = withTraceContext(Effect.gen(function* () {
+  const { order_ledger_id: orderLedgerId } = yield* HttpRouter.schemaPathParams(OrderLedgerIdParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const saga = yield* sagaAdmin.getSaga(orderLedgerId)
+
+  return HttpServerResponse.json({
+    ledger: toLedgerResponse(saga.ledger),
+    items: saga.items.map(toItemResponse),
+    events: saga.events.map(toEventResponse),
+    total_retries: saga.events.reduce((total, event) => total + event.retryCount, 0)
+  })
+})).pipe(
+  Effect.withSpan("GET /admin/sagas/:order_ledger_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_ledger_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    LedgerNotFoundError: (error: LedgerNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Order ledger ${error.orderLedgerId} not found`
+        },
+        { status: 404 }
+      )
+  })
+)
+
+// POST /admin/outbox/:event_id/retry - Make a PENDING/FAILED event claimable immediately
+export const retryOutboxEvent = withTraceContext(Effect.gen(function* () {
+  const { event_id: eventId } = yield* HttpRouter.schemaPathParams(OutboxEventIdParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const event = yield* sagaAdmin.forceRetry(eventId as OutboxEventId)
+
+  return HttpServerResponse.json({
+    message: "Event queued for immediate retry",
+    event: toEventResponse(event)
+  })
+})).pipe(
+  Effect.withSpan("POST /admin/outbox/:event_id/retry"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid event_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    OutboxEventNotFoundError: (error: OutboxEventNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Outbox event ${error.eventId} not found`
+        },
+        { status: 404 }
+      ),
+
+    EventNotRetryableError: (error: EventNotRetryableError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_retryable",
+          message: `Outbox event ${error.eventId} is ${error.status} and cannot be retried`,
+          status: error.status
+        },
+        { status: 409 }
+      )
+  })
+)
+
+// POST /admin/sagas/:order_ledger_id/compensate - Manually compensate a stuck saga
+export const compensateSaga = withTraceContext(Effect.gen(function* () {
+  const { order_ledger_id: orderLedgerId } = yield* HttpRouter.schemaPathParams(OrderLedgerIdParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const result = yield* sagaAdmin.compensate(orderLedgerId)
+
+  return HttpServerResponse.json({
+    order_ledger_id: result.orderLedgerId,
+    previous_status: result.previousStatus,
+    final_status: result.finalStatus,
+    compensation_result: result.compensation._tag,
+    steps_executed: result.compensation.stepsExecuted,
+    compensation_error: result.compensation._tag === "CompensationFailed" ? result.compensation.error : null,
+    events_failed: result.eventsFailed
+  })
+})).pipe(
+  Effect.withSpan("POST /admin/sagas/:order_ledger_id/compensate"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_ledger_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    LedgerNotFoundError: (error: LedgerNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Order ledger ${error.orderLedgerId} not found`
+        },
+        { status: 404 }
+      ),
+
+    SagaNotCompensableError: (error: SagaNotCompensableError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_compensable",
+          message: `Saga in ${error.status} status cannot be compensated`,
+          status: error.status
+        },
+        { status: 409 }
+      )
+  })
+)
+
+// GET /admin/dead-letters?include_replayed=false&limit=50 - List dead-lettered events
+export const listDeadLetters = withTraceContext(Effect.gen(function* () {
+  const { include_replayed: includeReplayed, limit } = yield* HttpServerRequest.schemaSearchParams(ListDeadLettersParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const deadLetters = yield* sagaAdmin.listDeadLetters(includeReplayed, limit)
+
+  return HttpServerResponse.json({
+    count: deadLetters.length,
+    dead_letters: deadLetters.map(toDeadLetterResponse)
+  })
+})).pipe(
+  Effect.withSpan("GET /admin/dead-letters"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid query parameters. include_replayed must be true or false; limit must be 1-500.",
+          details: error.message
+        },
+        { status: 400 }
+      )
+  })
+)
+
+// GET /admin/dead-letters/:dead_letter_id - Dead letter with attempt history
+export const getDeadLetter = withTraceContext(Effect.gen(function* () {
+  const { dead_letter_id: deadLetterId } = yield* HttpRouter.schemaPathParams(DeadLetterIdParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const deadLetter = yield* sagaAdmin.getDeadLetter(deadLetterId as DeadLetterId)
+
+  return HttpServerResponse.json(toDeadLetterResponse(deadLetter))
+})).pipe(
+  Effect.withSpan("GET /admin/dead-letters/:dead_letter_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid dead_letter_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    DeadLetterNotFoundError: (error: DeadLetterNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Dead letter ${error.deadLetterId} not found`
+        },
+        { status: 404 }
+      )
+  })
+)
+
+// POST /admin/dead-letters/:dead_letter_id/replay - Re-enqueue with a fresh retry budget
+export const replayDeadLetter = withTraceContext(Effect.gen(function* () {
+  const { dead_letter_id: deadLetterId } = yield* HttpRouter.schemaPathParams(DeadLetterIdParams)
+
+  const sagaAdmin = yield* SagaAdmin
+  const { deadLetter, event } = yield* sagaAdmin.replayDeadLetter(deadLetterId as DeadLetterId)
+
+  return HttpServerResponse.json({
+    message: "Dead letter replayed into outbox",
+    dead_letter: toDeadLetterResponse(deadLetter),
+    event: toEventResponse(event)
+  })
+})).pipe(
+  Effect.withSpan("POST /admin/dead-letters/:dead_letter_id/replay"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: () =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid dead_letter_id format. Must be a valid UUID."
+        },
+        { status: 400 }
+      ),
+
+    DeadLetterNotFoundError: (error: DeadLetterNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_found",
+          message: `Dead letter ${error.deadLetterId} not found`
+        },
+        { status: 404 }
+      ),
+
+    DeadLetterAlreadyReplayedError: (error: DeadLetterAlreadyReplayedError) =>
+      HttpServerResponse.json(
+        {
+          error: "already_replayed",
+          message: `Dead letter ${error.deadLetterId} has already been replayed`,
+          replayed_event_id: error.replayedEventId
+        },
+        { status: 409 }
+      ),
+
+    DeadLetterNotReplayableError: (error: DeadLetterNotReplayableError) =>
+      HttpServerResponse.json(
+        {
+          error: "not_replayable",
+          message: `Saga ${error.orderLedgerId} is ${error.status} and has been handed off to compensation; ` +
+            "replay its CompensationRequested dead letter or compensate it instead",
+          order_ledger_id: error.orderLedgerId,
+          status: error.status
+        },
+        { status: 409 }
+      )
+  })
+)
+
+export const AdminRoutes = HttpRouter.empty.pipe(
+  HttpRouter.get("/admin/outbox", listOutboxEvents),
+  HttpRouter.post("/admin/outbox/:event_id/retry", retryOutboxEvent),
+  HttpRouter.get("/admin/sagas/:order_ledger_id", getSaga),
+  HttpRouter.post("/admin/sagas/:order_ledger_id/compensate", compensateSaga),
+  HttpRouter.get("/admin/dead-letters", listDeadLetters),
+  HttpRouter.get("/admin/dead-letters/:dead_letter_id", getDeadLetter),
+  HttpRouter.post("/admin/dead-letters/:dead_letter_id/replay", replayDeadLetter)
+)
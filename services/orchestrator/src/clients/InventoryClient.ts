@@ -1,5 +1,10 @@
 import { Context, Effect } from "effect"
-import type { InventoryReservationError, InventoryReleaseError, ServiceConnectionError } from "../domain/errors.js"
+import type {
+  InventoryReservationError,
+  InventoryReleaseError,
+  InventoryCommitError,
+  ServiceConnectionError
+} from "../domain/errors.js"
 
 export interface ReserveStockParams {
   readonly orderId: string
@@ -7,6 +12,20 @@ export interface ReserveStockParams {
     readonly productId: string
     readonly quantity: number
   }[]
+  // Inventory takes stock from the locations nearest to it; null ranks locations by priority
+  readonly destination: {
+    readonly latitude: number
+    readonly longitude: number
+  } | null
+  // Reserve what is in stock and report the rest as shortfalls instead of failing
+  readonly allowPartial: boolean
+}
+
+// A product that could only be partly reserved
+export interface ReservationShortfall {
+  readonly productId: string
+  readonly requestedQuantity: number
+  readonly reservedQuantity: number
 }
 
 export interface ReserveStockResult {
@@ -14,6 +33,8 @@ export interface ReserveStockResult {
   readonly reservationIds: readonly string[]
   readonly lineItemsReserved: number
   readonly totalQuantityReserved: number
+  // Always empty unless allowPartial was set
+  readonly shortfalls: readonly ReservationShortfall[]
 }
 
 export interface ReleaseStockParams {
@@ -26,12 +47,32 @@ export interface ReleaseStockResult {
   readonly totalQuantityRestored: number
 }
 
+export interface ExtendReservationParams {
+  readonly orderId: string
+}
+
+export interface ExtendReservationResult {
+  readonly orderId: string
+  readonly reservationIds: readonly string[]
+}
+
+export interface CommitReservationParams {
+  readonly orderId: string
+}
+
+export interface CommitReservationResult {
+  readonly orderId: string
+  readonly reservationIds: readonly string[]
+  readonly committedCount: number
+}
+
 export class InventoryClient extends Context.Tag("InventoryClient")<
   InventoryClient,
   {
     /**
      * Reserve stock for an order.
      * Uses SELECT FOR UPDATE to prevent oversell.
+     * With allowPartial, fails only when nothing at all can be reserved.
      * Idempotent: returns existing reservation if already reserved.
      */
     readonly reserveStock: (
@@ -45,5 +86,22 @@ export class InventoryClient extends Context.Tag("InventoryClient")<
     readonly releaseStock: (
       params: ReleaseStockParams
     ) => Effect.Effect<ReleaseStockResult, InventoryReleaseError | ServiceConnectionError>
+
+    /**
+     * Hold an order's reservations so the inventory expiry sweeper never releases them.
+     * Idempotent: extending an already-extended reservation succeeds.
+     * Fails non-retryably if the reservations already expired.
+     */
+    readonly extendReservation: (
+      params: ExtendReservationParams
+    ) => Effect.Effect<ExtendReservationResult, InventoryReservationError | ServiceConnectionError>
+
+    /**
+     * Turn an order's reservations into permanent stock deductions after confirmation.
+     * Idempotent: committing an already-committed order succeeds.
+     */
+    readonly commitReservation: (
+      params: CommitReservationParams
+    ) => Effect.Effect<CommitReservationResult, InventoryCommitError | ServiceConnectionError>
   }
 >() {}
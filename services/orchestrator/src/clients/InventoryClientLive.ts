@@ -1,13 +1,31 @@
 import { Layer, Effect, Config, Duration, Schema } from "effect"
 import { HttpClient, HttpClientRequest } from "@effect/platform"
-import { InventoryClient, type ReserveStockParams, type ReserveStockResult, type ReleaseStockParams, type ReleaseStockResult } from "./InventoryClient.js"
-import { InventoryReservationError, InventoryReleaseError, ServiceConnectionError } from "../domain/errors.js"
+import {
+  InventoryClient,
+  type ReserveStockParams,
+  type ReserveStockResult,
+  type ReleaseStockParams,
+  type ReleaseStockResult,
+  type ExtendReservationParams,
+  type ExtendReservationResult,
+  type CommitReservationParams,
+  type CommitReservationResult
+} from "./InventoryClient.js"
+import { InventoryReservationError, InventoryReleaseError, InventoryCommitError, ServiceConnectionError } from "../domain/errors.js"
 
 const ReserveSuccessResponse = Schema.Struct({
   order_id: Schema.String,
   reservation_ids: Schema.Array(Schema.String),
   line_items_reserved: Schema.Number,
-  total_quantity_reserved: Schema.Number
+  total_quantity_reserved: Schema.Number,
+  shortfalls: Schema.optionalWith(
+    Schema.Array(Schema.Struct({
+      product_id: Schema.String,
+      requested_quantity: Schema.Number,
+      reserved_quantity: Schema.Number
+    })),
+    { default: () => [] }
+  )
 })
 
 const InsufficientStockResponse = Schema.Struct({
@@ -25,6 +43,17 @@ const ReleaseSuccessResponse = Schema.Struct({
   message: Schema.String
 })
 
+const ExtendSuccessResponse = Schema.Struct({
+  order_id: Schema.String,
+  reservation_ids: Schema.Array(Schema.String)
+})
+
+const CommitSuccessResponse = Schema.Struct({
+  order_id: Schema.String,
+  reservation_ids: Schema.Array(Schema.String),
+  committed_count: Schema.Number
+})
+
 export const InventoryClientLive = Layer.effect(
   InventoryClient,
   Effect.gen(function* () {
@@ -55,7 +84,10 @@ export const InventoryClientLive = Layer.effect(
               items: params.items.map(item => ({
                 productId: item.productId,
                 quantity: item.quantity
-              }))
+              })),
+              // Omitted rather than null - inventory then takes stock in location priority order
+              destination: params.destination ?? undefined,
+              allowPartial: params.allowPartial
             })
           )
 
@@ -93,7 +125,12 @@ export const InventoryClientLive = Layer.effect(
               orderId: body.order_id,
               reservationIds: body.reservation_ids,
               lineItemsReserved: body.line_items_reserved,
-              totalQuantityReserved: body.total_quantity_reserved
+              totalQuantityReserved: body.total_quantity_reserved,
+              shortfalls: body.shortfalls.map((shortfall) => ({
+                productId: shortfall.product_id,
+                requestedQuantity: shortfall.requested_quantity,
+                reservedQuantity: shortfall.reserved_quantity
+              }))
             } satisfies ReserveStockResult
           }
 
@@ -223,6 +260,166 @@ export const InventoryClientLive = Layer.effect(
             statusCode: response.status,
             isRetryable: false
           }))
+        }),
+
+      extendReservation: (params: ExtendReservationParams) =>
+        Effect.gen(function* () {
+          yield* Effect.logDebug("Extending reservation via Inventory Service", {
+            orderId: params.orderId
+          })
+
+          const request = HttpClientRequest.post(`${baseUrl}/reservations/${params.orderId}/extend`)
+
+          const response = yield* client.execute(request).pipe(
+            Effect.timeout(Duration.seconds(10)),
+            Effect.catchTag("TimeoutException", handleConnectionError("extendReservation")),
+            Effect.catchTag("RequestError", handleConnectionError("extendReservation")),
+            Effect.catchTag("ResponseError", handleConnectionError("extendReservation"))
+          )
+
+          if (response.status === 200) {
+            const rawBody = yield* response.json.pipe(
+              Effect.catchAll(() =>
+                Effect.fail(new InventoryReservationError({
+                  orderId: params.orderId,
+                  reason: "Failed to parse response JSON",
+                  isRetryable: false
+                }))
+              )
+            )
+            const body = yield* Schema.decodeUnknown(ExtendSuccessResponse)(rawBody).pipe(
+              Effect.mapError(() => new InventoryReservationError({
+                orderId: params.orderId,
+                reason: "Invalid response format",
+                isRetryable: false
+              }))
+            )
+
+            yield* Effect.logInfo("Reservation extended successfully", {
+              orderId: params.orderId,
+              reservationIds: body.reservation_ids
+            })
+
+            return {
+              orderId: body.order_id,
+              reservationIds: body.reservation_ids
+            } satisfies ExtendReservationResult
+          }
+
+          if (response.status === 404) {
+            return yield* Effect.fail(new InventoryReservationError({
+              orderId: params.orderId,
+              reason: "No reservations found for order",
+              statusCode: 404,
+              isRetryable: false
+            }))
+          }
+
+          // 409: Released or swept on expiry - the stock may already be sold
+          if (response.status === 409) {
+            return yield* Effect.fail(new InventoryReservationError({
+              orderId: params.orderId,
+              reason: "Reservation expired or was released",
+              statusCode: 409,
+              isRetryable: false
+            }))
+          }
+
+          if (response.status >= 500) {
+            return yield* Effect.fail(new InventoryReservationError({
+              orderId: params.orderId,
+              reason: `Server error: ${response.status}`,
+              statusCode: response.status,
+              isRetryable: true
+            }))
+          }
+
+          return yield* Effect.fail(new InventoryReservationError({
+            orderId: params.orderId,
+            reason: `Client error: ${response.status}`,
+            statusCode: response.status,
+            isRetryable: false
+          }))
+        }),
+
+      commitReservation: (params: CommitReservationParams) =>
+        Effect.gen(function* () {
+          yield* Effect.logDebug("Committing reservation via Inventory Service", {
+            orderId: params.orderId
+          })
+
+          const request = HttpClientRequest.post(`${baseUrl}/reservations/${params.orderId}/commit`)
+
+          const response = yield* client.execute(request).pipe(
+            Effect.timeout(Duration.seconds(10)),
+            Effect.catchTag("TimeoutException", handleConnectionError("commitReservation")),
+            Effect.catchTag("RequestError", handleConnectionError("commitReservation")),
+            Effect.catchTag("ResponseError", handleConnectionError("commitReservation"))
+          )
+
+          if (response.status === 200) {
+            const rawBody = yield* response.json.pipe(
+              Effect.catchAll(() =>
+                Effect.fail(new InventoryCommitError({
+                  orderId: params.orderId,
+                  reason: "Failed to parse response JSON",
+                  isRetryable: false
+                }))
+              )
+            )
+            const body = yield* Schema.decodeUnknown(CommitSuccessResponse)(rawBody).pipe(
+              Effect.mapError(() => new InventoryCommitError({
+                orderId: params.orderId,
+                reason: "Invalid response format",
+                isRetryable: false
+              }))
+            )
+
+            yield* Effect.logInfo("Reservation committed successfully", {
+              orderId: params.orderId,
+              committedCount: body.committed_count
+            })
+
+            return {
+              orderId: body.order_id,
+              reservationIds: body.reservation_ids,
+              committedCount: body.committed_count
+            } satisfies CommitReservationResult
+          }
+
+          if (response.status === 404) {
+            return yield* Effect.fail(new InventoryCommitError({
+              orderId: params.orderId,
+              reason: "No reservations found for order",
+              statusCode: 404,
+              isRetryable: false
+            }))
+          }
+
+          if (response.status === 409) {
+            return yield* Effect.fail(new InventoryCommitError({
+              orderId: params.orderId,
+              reason: "Reservation was already released",
+              statusCode: 409,
+              isRetryable: false
+            }))
+          }
+
+          if (response.status >= 500) {
+            return yield* Effect.fail(new InventoryCommitError({
+              orderId: params.orderId,
+              reason: `Server error: ${response.status}`,
+              statusCode: response.status,
+              isRetryable: true
+            }))
+          }
+
+          return yield* Effect.fail(new InventoryCommitError({
+            orderId: params.orderId,
+            reason: `Client error: ${response.status}`,
+            statusCode: response.status,
+            isRetryable: false
+          }))
         })
     }
   })
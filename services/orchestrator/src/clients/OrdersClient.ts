@@ -1,5 +1,11 @@
 import { Context, Effect } from "effect"
-import type { OrderCreationError, OrderConfirmationError, OrderCancellationError, ServiceConnectionError } from "../domain/errors.js"
+import type {
+  OrderCreationError,
+  OrderAdjustmentError,
+  OrderConfirmationError,
+  OrderCancellationError,
+  ServiceConnectionError
+} from "../domain/errors.js"
 
 export interface CreateOrderParams {
   readonly orderLedgerId: string
@@ -18,6 +24,20 @@ export interface CreateOrderResult {
   readonly status: string
 }
 
+export interface AdjustOrderParams {
+  readonly orderId: string
+  // The quantity of each product the order keeps
+  readonly items: readonly {
+    readonly productId: string
+    readonly quantity: number
+  }[]
+}
+
+export interface AdjustOrderResult {
+  readonly orderId: string
+  readonly totalAmountCents: number
+}
+
 export interface ConfirmOrderResult {
   readonly orderId: string
   readonly status: "CONFIRMED"
@@ -39,6 +59,14 @@ export class OrdersClient extends Context.Tag("OrdersClient")<
       params: CreateOrderParams
     ) => Effect.Effect<CreateOrderResult, OrderCreationError | ServiceConnectionError>
 
+    /**
+     * Reduce an order's items to what inventory could reserve (partial fulfilment).
+     * Idempotent: repeating the same adjustment changes nothing.
+     */
+    readonly adjustOrder: (
+      params: AdjustOrderParams
+    ) => Effect.Effect<AdjustOrderResult, OrderAdjustmentError | ServiceConnectionError>
+
     /**
      * Confirm an order (final saga step).
      * Idempotent: returns success if already confirmed.
@@ -1,13 +1,32 @@
 import { Layer, Effect, Config, Duration, Schema } from "effect"
 import { HttpClient, HttpClientRequest } from "@effect/platform"
-import { OrdersClient, type CreateOrderParams, type CreateOrderResult, type ConfirmOrderResult, type CancelOrderResult } from "./OrdersClient.js"
-import { OrderCreationError, OrderConfirmationError, OrderCancellationError, ServiceConnectionError } from "../domain/errors.js"
+import {
+  OrdersClient,
+  type CreateOrderParams,
+  type CreateOrderResult,
+  type AdjustOrderParams,
+  type AdjustOrderResult,
+  type ConfirmOrderResult,
+  type CancelOrderResult
+} from "./OrdersClient.js"
+import {
+  OrderCreationError,
+  OrderAdjustmentError,
+  OrderConfirmationError,
+  OrderCancellationError,
+  ServiceConnectionError
+} from "../domain/errors.js"
 
 const CreateOrderSuccessResponse = Schema.Struct({
   id: Schema.String,
   status: Schema.String
 })
 
+const AdjustOrderSuccessResponse = Schema.Struct({
+  id: Schema.String,
+  total_amount_cents: Schema.Number
+})
+
 const ConfirmOrderSuccessResponse = Schema.Struct({
   id: Schema.String,
   status: Schema.Literal("CONFIRMED")
@@ -121,6 +140,79 @@ export const OrdersClientLive = Layer.effect(
           }))
         }),
 
+      adjustOrder: (params: AdjustOrderParams) =>
+        Effect.gen(function* () {
+          yield* Effect.logDebug("Adjusting order via Orders Service", {
+            orderId: params.orderId,
+            itemCount: params.items.length
+          })
+
+          const request = HttpClientRequest.post(`${baseUrl}/orders/${params.orderId}/adjustment`).pipe(
+            HttpClientRequest.bodyUnsafeJson({
+              items: params.items.map(item => ({
+                productId: item.productId,
+                quantity: item.quantity
+              }))
+            })
+          )
+
+          const response = yield* client.execute(request).pipe(
+            Effect.timeout(Duration.seconds(10)),
+            Effect.catchTag("TimeoutException", handleConnectionError("adjustOrder")),
+            Effect.catchTag("RequestError", handleConnectionError("adjustOrder")),
+            Effect.catchTag("ResponseError", handleConnectionError("adjustOrder"))
+          )
+
+          if (response.status === 200) {
+            const rawBody = yield* response.json.pipe(
+              Effect.catchAll(() =>
+                Effect.fail(new OrderAdjustmentError({
+                  orderId: params.orderId,
+                  reason: "Failed to parse response JSON",
+                  isRetryable: false
+                }))
+              )
+            )
+            const body = yield* Schema.decodeUnknown(AdjustOrderSuccessResponse)(rawBody).pipe(
+              Effect.mapError(() => new OrderAdjustmentError({
+                orderId: params.orderId,
+                reason: "Invalid response format",
+                isRetryable: false
+              }))
+            )
+
+            yield* Effect.logInfo("Order adjusted successfully", {
+              orderId: params.orderId,
+              totalAmountCents: body.total_amount_cents
+            })
+
+            return {
+              orderId: body.id,
+              totalAmountCents: body.total_amount_cents
+            } satisfies AdjustOrderResult
+          }
+
+          // 409 (order no longer CREATED) and 422 (adjustment rejected) will not change on retry
+          if (response.status >= 400 && response.status < 500) {
+            const rawBody = yield* response.json.pipe(Effect.catchAll(() => Effect.succeed({})))
+            const errorBody = Schema.decodeUnknownOption(ErrorResponse)(rawBody)
+            const message = errorBody._tag === "Some" ? errorBody.value.message : `HTTP ${response.status}`
+            return yield* Effect.fail(new OrderAdjustmentError({
+              orderId: params.orderId,
+              reason: message,
+              statusCode: response.status,
+              isRetryable: false
+            }))
+          }
+
+          return yield* Effect.fail(new OrderAdjustmentError({
+            orderId: params.orderId,
+            reason: `Server error: ${response.status}`,
+            statusCode: response.status,
+            isRetryable: true
+          }))
+        }),
+
       confirmOrder: (orderId: string) =>
         Effect.gen(function* () {
           yield* Effect.logDebug("Confirming order via Orders Service", { orderId })
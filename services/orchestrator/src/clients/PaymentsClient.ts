@@ -1,5 +1,5 @@
 import { Context, Effect } from "effect"
-import type { PaymentCaptureError, PaymentVoidError, ServiceConnectionError } from "../domain/errors.js"
+import type { PaymentCaptureError, PaymentVoidError, PaymentRefundError, ServiceConnectionError } from "../domain/errors.js"
 
 export interface CapturePaymentParams {
   readonly authorizationId: string
@@ -29,6 +29,22 @@ export interface VoidPaymentResult {
   readonly voidedAt: string
 }
 
+export interface RefundPaymentParams {
+  readonly captureId: string
+  readonly idempotencyKey: string
+  // Omit to refund everything not yet refunded on the capture
+  readonly amountCents?: number
+  readonly reason?: string
+}
+
+export interface RefundPaymentResult {
+  readonly refundId: string
+  readonly captureId: string
+  readonly status: "REFUNDED"
+  readonly amountCents: number
+  readonly refundedAt: string
+}
+
 export class PaymentsClient extends Context.Tag("PaymentsClient")<
   PaymentsClient,
   {
@@ -47,5 +63,14 @@ export class PaymentsClient extends Context.Tag("PaymentsClient")<
     readonly voidPayment: (
       params: VoidPaymentParams
     ) => Effect.Effect<VoidPaymentResult, PaymentVoidError | ServiceConnectionError>
+
+    /**
+     * Refund a captured payment (compensation after capture).
+     * Idempotent: returns the existing refund for the same idempotency key,
+     * and treats an already fully refunded capture as success for full refunds.
+     */
+    readonly refundPayment: (
+      params: RefundPaymentParams
+    ) => Effect.Effect<RefundPaymentResult, PaymentRefundError | ServiceConnectionError>
   }
 >() {}
@@ -1,7 +1,15 @@
 import { Layer, Effect, Config, Duration, Schema } from "effect"
 import { HttpClient, HttpClientRequest } from "@effect/platform"
-import { PaymentsClient, type CapturePaymentParams, type CapturePaymentResult, type VoidPaymentParams, type VoidPaymentResult } from "./PaymentsClient.js"
-import { PaymentCaptureError, PaymentVoidError, ServiceConnectionError } from "../domain/errors.js"
+import {
+  PaymentsClient,
+  type CapturePaymentParams,
+  type CapturePaymentResult,
+  type VoidPaymentParams,
+  type VoidPaymentResult,
+  type RefundPaymentParams,
+  type RefundPaymentResult
+} from "./PaymentsClient.js"
+import { PaymentCaptureError, PaymentVoidError, PaymentRefundError, ServiceConnectionError } from "../domain/errors.js"
 
 const CaptureSuccessResponse = Schema.Struct({
   capture_id: Schema.String,
@@ -19,6 +27,14 @@ const VoidSuccessResponse = Schema.Struct({
   voided_at: Schema.String
 })
 
+const RefundSuccessResponse = Schema.Struct({
+  refund_id: Schema.String,
+  capture_id: Schema.String,
+  status: Schema.Literal("REFUNDED"),
+  amount_cents: Schema.Number,
+  refunded_at: Schema.String
+})
+
 export const PaymentsClientLive = Layer.effect(
   PaymentsClient,
   Effect.gen(function* () {
@@ -105,12 +121,21 @@ export const PaymentsClientLive = Layer.effect(
           if (response.status === 409) {
             return yield* Effect.fail(new PaymentCaptureError({
               authorizationId: params.authorizationId,
-              reason: "Authorization already voided",
+              reason: "Authorization already voided or capture exceeds authorized amount",
               statusCode: 409,
               isRetryable: false
             }))
           }
 
+          if (response.status === 410) {
+            return yield* Effect.fail(new PaymentCaptureError({
+              authorizationId: params.authorizationId,
+              reason: "Authorization expired",
+              statusCode: 410,
+              isRetryable: false
+            }))
+          }
+
           if (response.status === 503) {
             return yield* Effect.fail(new PaymentCaptureError({
               authorizationId: params.authorizationId,
@@ -239,6 +264,124 @@ export const PaymentsClientLive = Layer.effect(
             statusCode: response.status,
             isRetryable: false
           }))
+        }),
+
+      refundPayment: (params: RefundPaymentParams) =>
+        Effect.gen(function* () {
+          yield* Effect.logDebug("Refunding payment via Payments Service", {
+            captureId: params.captureId
+          })
+
+          const requestBody: Record<string, unknown> = {
+            idempotency_key: params.idempotencyKey
+          }
+          if (params.amountCents !== undefined) {
+            requestBody.amount_cents = params.amountCents
+          }
+          if (params.reason !== undefined) {
+            requestBody.reason = params.reason
+          }
+
+          const request = HttpClientRequest.post(
+            `${baseUrl}/payments/refund/${params.captureId}`
+          ).pipe(HttpClientRequest.bodyUnsafeJson(requestBody))
+
+          const response = yield* client.execute(request).pipe(
+            Effect.timeout(Duration.seconds(10)),
+            Effect.catchTag("TimeoutException", handleConnectionError("refundPayment")),
+            Effect.catchTag("RequestError", handleConnectionError("refundPayment")),
+            Effect.catchTag("ResponseError", handleConnectionError("refundPayment"))
+          )
+
+          if (response.status === 200) {
+            const rawBody = yield* response.json.pipe(
+              Effect.catchAll(() =>
+                Effect.fail(new PaymentRefundError({
+                  captureId: params.captureId,
+                  reason: "Failed to parse response JSON",
+                  isRetryable: false
+                }))
+              )
+            )
+            const body = yield* Schema.decodeUnknown(RefundSuccessResponse)(rawBody).pipe(
+              Effect.mapError(() => new PaymentRefundError({
+                captureId: params.captureId,
+                reason: "Invalid response format",
+                isRetryable: false
+              }))
+            )
+
+            yield* Effect.logInfo("Payment refunded successfully", {
+              captureId: params.captureId,
+              refundId: body.refund_id,
+              amountCents: body.amount_cents
+            })
+
+            return {
+              refundId: body.refund_id,
+              captureId: body.capture_id,
+              status: body.status,
+              amountCents: body.amount_cents,
+              refundedAt: body.refunded_at
+            } satisfies RefundPaymentResult
+          }
+
+          // 409 on a full refund: nothing left to refund - treat as success (idempotent)
+          if (response.status === 409 && params.amountCents === undefined) {
+            yield* Effect.logInfo("Capture already fully refunded - treating as refunded", {
+              captureId: params.captureId
+            })
+            return {
+              refundId: `refund-settled-${params.captureId}`,
+              captureId: params.captureId,
+              status: "REFUNDED",
+              amountCents: 0,
+              refundedAt: new Date().toISOString()
+            } satisfies RefundPaymentResult
+          }
+
+          if (response.status === 409) {
+            return yield* Effect.fail(new PaymentRefundError({
+              captureId: params.captureId,
+              reason: "Refund exceeds the amount left on the capture",
+              statusCode: 409,
+              isRetryable: false
+            }))
+          }
+
+          if (response.status === 404) {
+            return yield* Effect.fail(new PaymentRefundError({
+              captureId: params.captureId,
+              reason: "Capture not found",
+              statusCode: 404,
+              isRetryable: false
+            }))
+          }
+
+          if (response.status === 503) {
+            return yield* Effect.fail(new PaymentRefundError({
+              captureId: params.captureId,
+              reason: "Payment gateway unavailable",
+              statusCode: 503,
+              isRetryable: true
+            }))
+          }
+
+          if (response.status >= 500) {
+            return yield* Effect.fail(new PaymentRefundError({
+              captureId: params.captureId,
+              reason: `Server error: ${response.status}`,
+              statusCode: response.status,
+              isRetryable: true
+            }))
+          }
+
+          return yield* Effect.fail(new PaymentRefundError({
+            captureId: params.captureId,
+            reason: `Client error: ${response.status}`,
+            statusCode: response.status,
+            isRetryable: false
+          }))
         })
     }
   })
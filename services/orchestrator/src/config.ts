@@ -4,6 +4,7 @@ export class OrchestratorConfig extends Context.Tag("OrchestratorConfig")<
   OrchestratorConfig,
   {
     readonly pollIntervalMs: number
+    readonly adminPort: number
     readonly ordersServiceUrl: string
     readonly inventoryServiceUrl: string
     readonly paymentsServiceUrl: string
@@ -11,6 +12,10 @@ export class OrchestratorConfig extends Context.Tag("OrchestratorConfig")<
     readonly maxRetryAttempts: number
     readonly retryBaseDelayMs: number
     readonly retryBackoffMultiplier: number
+    // Compensation has its own budget - giving up leaves funds held (Section 4.4)
+    readonly compensationMaxRetryAttempts: number
+    readonly compensationRetryBaseDelayMs: number
+    readonly compensationRetryBackoffMultiplier: number
   }
 >() {}
 
@@ -21,6 +26,9 @@ export const OrchestratorConfigLive = Layer.effect(
       pollIntervalMs: yield* Config.number("POLL_INTERVAL_MS").pipe(
         Config.withDefault(5000)
       ),
+      adminPort: yield* Config.number("ADMIN_PORT").pipe(
+        Config.withDefault(3004)
+      ),
       ordersServiceUrl: yield* Config.string("ORDERS_SERVICE_URL").pipe(
         Config.withDefault("http://localhost:3003")
       ),
@@ -39,6 +47,15 @@ export const OrchestratorConfigLive = Layer.effect(
       ),
       retryBackoffMultiplier: yield* Config.number("RETRY_BACKOFF_MULTIPLIER").pipe(
         Config.withDefault(4)
+      ),
+      compensationMaxRetryAttempts: yield* Config.number("COMPENSATION_MAX_RETRY_ATTEMPTS").pipe(
+        Config.withDefault(8)
+      ),
+      compensationRetryBaseDelayMs: yield* Config.number("COMPENSATION_RETRY_BASE_DELAY_MS").pipe(
+        Config.withDefault(1000)
+      ),
+      compensationRetryBackoffMultiplier: yield* Config.number("COMPENSATION_RETRY_BACKOFF_MULTIPLIER").pipe(
+        Config.withDefault(3)
       )
     }
   })
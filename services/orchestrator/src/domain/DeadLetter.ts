@@ -0,0 +1,46 @@
+import { Schema } from "effect"
+import { AttemptRecord, OutboxEventId, OutboxEventType } from "./OutboxEvent.js"
+
+export const DeadLetterId = Schema.String.pipe(Schema.brand("DeadLetterId"))
+export type DeadLetterId = typeof DeadLetterId.Type
+
+// Why an event was dead-lettered
+export const DeadLetterReason = Schema.Literal(
+  "MAX_RETRIES_EXCEEDED",  // Transient failures outlasted the retry budget
+  "COMPENSATION_FAILED",   // One or more compensation steps failed
+  "UNPROCESSABLE"          // Bad payload, missing ledger or ledger already terminal
+)
+export type DeadLetterReason = typeof DeadLetterReason.Type
+
+export class DeadLetter extends Schema.Class<DeadLetter>("DeadLetter")({
+  id: DeadLetterId,
+  outboxEventId: OutboxEventId,
+  aggregateType: Schema.String,
+  aggregateId: Schema.String,
+  eventType: OutboxEventType,
+  payload: Schema.Unknown,
+  reason: DeadLetterReason,
+  errorTag: Schema.String,
+  errorMessage: Schema.NullOr(Schema.String),
+  retryCount: Schema.Number,
+  attemptHistory: Schema.Array(AttemptRecord),
+  compensationErrors: Schema.Array(Schema.String),
+  eventCreatedAt: Schema.DateTimeUtc,
+  deadLetteredAt: Schema.DateTimeUtc,
+  replayedAt: Schema.NullOr(Schema.DateTimeUtc),
+  replayedEventId: Schema.NullOr(OutboxEventId)
+}) {}
+
+// Path parameter schema for /admin/dead-letters/:dead_letter_id routes
+export const DeadLetterIdParams = Schema.Struct({
+  dead_letter_id: Schema.UUID
+})
+
+// Query string schema for GET /admin/dead-letters
+export const ListDeadLettersParams = Schema.Struct({
+  include_replayed: Schema.optionalWith(Schema.BooleanFromString, { default: () => false }),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 500)),
+    { default: () => 50 }
+  )
+})
@@ -12,6 +12,8 @@ export type ProductId = typeof ProductId.Type
 // All possible ledger statuses (state machine)
 export const OrderLedgerStatus = Schema.Literal(
   "AWAITING_AUTHORIZATION",
+  // Payment needs 3-D Secure; the Edge API finishes authorization from the customer's callback
+  "AWAITING_CUSTOMER_ACTION",
   "AUTHORIZED",
   "AUTHORIZATION_FAILED",
   "ORDER_CREATED",
@@ -19,7 +21,13 @@ export const OrderLedgerStatus = Schema.Literal(
   "PAYMENT_CAPTURED",
   "COMPLETED",
   "COMPENSATING",
-  "FAILED"
+  "FAILED",
+  // Compensation retries exhausted - funds or stock may still be held, needs an operator
+  "COMPENSATION_FAILED",
+  // Customer asked to cancel; the saga stops at its next step and hands off to compensation
+  "CANCELLATION_REQUESTED",
+  // Terminal state for a customer cancellation whose compensation finished
+  "CANCELLED"
 )
 export type OrderLedgerStatus = typeof OrderLedgerStatus.Type
 
@@ -32,6 +40,8 @@ export class OrderLedger extends Schema.Class<OrderLedger>("OrderLedger")({
   totalAmountCents: Schema.Number,
   currency: Schema.String,
   paymentAuthorizationId: Schema.NullOr(Schema.String),
+  // Set by saga step 3; needed to refund if the saga fails after capture
+  paymentCaptureId: Schema.NullOr(Schema.String),
   orderId: Schema.NullOr(Schema.String),
   // Retry tracking fields moved to outbox table (see OutboxEvent.ts)
   createdAt: Schema.DateTimeUtc,
@@ -44,5 +54,95 @@ export class OrderLedgerItem extends Schema.Class<OrderLedgerItem>("OrderLedgerI
   productId: ProductId,
   quantity: Schema.Number.pipe(Schema.positive()),
   unitPriceCents: Schema.Number,
+  // Set by saga step 2 when only part of the quantity could be reserved; null when filled in full
+  fulfilledQuantity: Schema.NullOr(Schema.Number),
   createdAt: Schema.DateTimeUtc
 }) {}
+
+// One payment instrument of a split-tender order, written by the Edge API at authorization
+export class OrderLedgerPayment extends Schema.Class<OrderLedgerPayment>("OrderLedgerPayment")({
+  id: Schema.String,
+  orderLedgerId: OrderLedgerId,
+  // Authorization order - the primary payment method is last
+  sequence: Schema.Number,
+  method: Schema.String,
+  amountCents: Schema.Number,
+  status: Schema.String,
+  paymentAuthorizationId: Schema.NullOr(Schema.String),
+  // Set by saga step 3 as each instrument is captured
+  paymentCaptureId: Schema.NullOr(Schema.String),
+  createdAt: Schema.DateTimeUtc
+}) {}
+
+/**
+ * Idempotency key for a capture, void or refund of one payment instrument.
+ * The first instrument keeps the per-ledger key used before split tender,
+ * so replays of older sagas stay idempotent.
+ */
+export const paymentIdempotencyKey = (
+  action: "capture" | "void" | "refund",
+  orderLedgerId: string,
+  sequence: number
+): string => sequence === 0 ? `${action}-${orderLedgerId}` : `${action}-${orderLedgerId}-${sequence}`
+
+/**
+ * Spread the quantity reserved of each short product over its items, earliest
+ * first - the same way the Orders Service reduces the order's items.
+ * Returns every item, the reduced ones with their fulfilled quantity set.
+ */
+export const applyShortfalls = (
+  items: ReadonlyArray<OrderLedgerItem>,
+  shortfalls: ReadonlyArray<{ readonly productId: string; readonly reservedQuantity: number }>
+): ReadonlyArray<OrderLedgerItem> => {
+  const ordered = [...items].sort((a, b) =>
+    a.createdAt.epochMillis - b.createdAt.epochMillis || a.id.localeCompare(b.id)
+  )
+  const remaining = new Map(shortfalls.map((shortfall) => [shortfall.productId, shortfall.reservedQuantity]))
+  const fulfilled = new Map<string, number>()
+  for (const item of ordered) {
+    const available = remaining.get(item.productId)
+    if (available === undefined) continue
+    const kept = Math.min(item.quantity, available)
+    remaining.set(item.productId, available - kept)
+    if (kept < item.quantity) fulfilled.set(item.id, kept)
+  }
+  return items.map((item) =>
+    fulfilled.has(item.id) ? new OrderLedgerItem({ ...item, fulfilledQuantity: fulfilled.get(item.id)! }) : item
+  )
+}
+
+// Value of the quantities that could not be fulfilled
+export const unfulfilledAmountCents = (items: ReadonlyArray<OrderLedgerItem>): number =>
+  items.reduce(
+    (sum, item) =>
+      item.fulfilledQuantity === null ? sum : sum + (item.quantity - item.fulfilledQuantity) * item.unitPriceCents,
+    0
+  )
+
+/**
+ * Amount to capture from each payment instrument once the order total is
+ * reduced. The reduction comes off the primary instrument (last by sequence)
+ * first, so gift cards and store credit are still used before the card.
+ * Returned in the order given; 0 means the instrument is not captured.
+ */
+export const captureAmounts = (
+  instruments: ReadonlyArray<{ readonly sequence: number; readonly amountCents: number }>,
+  reductionCents: number
+): ReadonlyArray<number> => {
+  const amounts = instruments.map((instrument) => instrument.amountCents)
+  const bySequenceDesc = instruments
+    .map((instrument, index) => ({ sequence: instrument.sequence, index }))
+    .sort((a, b) => b.sequence - a.sequence)
+  let remaining = reductionCents
+  for (const { index } of bySequenceDesc) {
+    const reduction = Math.min(amounts[index], remaining)
+    amounts[index] -= reduction
+    remaining -= reduction
+  }
+  return amounts
+}
+
+// Path parameter schema for /admin/sagas/:order_ledger_id routes
+export const OrderLedgerIdParams = Schema.Struct({
+  order_ledger_id: Schema.UUID
+})
@@ -1,4 +1,5 @@
 import { Schema } from "effect"
+import { OrderLedgerStatus } from "./OrderLedger.js"
 
 // Branded types
 export const OutboxEventId = Schema.String.pipe(Schema.brand("OutboxEventId"))
@@ -9,7 +10,9 @@ export const OutboxEventStatus = Schema.Literal("PENDING", "PROCESSED", "FAILED"
 export type OutboxEventStatus = typeof OutboxEventStatus.Type
 
 // Outbox event type
-export const OutboxEventType = Schema.Literal("OrderAuthorized")
+// OrderAuthorized drives the forward saga; CompensationRequested unwinds a failed one;
+// CancellationRequested starts unwinding a COMPLETED order the customer cancelled
+export const OutboxEventType = Schema.Literal("OrderAuthorized", "CompensationRequested", "CancellationRequested")
 export type OutboxEventType = typeof OutboxEventType.Type
 
 // Payload schema for OrderAuthorized events
@@ -19,9 +22,43 @@ export class OrderAuthorizedPayload extends Schema.Class<OrderAuthorizedPayload>
   email: Schema.String,
   total_amount_cents: Schema.Number,
   currency: Schema.String,
-  payment_authorization_id: Schema.String
+  payment_authorization_id: Schema.String,
+  // Absent on events written before orders carried a destination
+  shipping_destination: Schema.optionalWith(
+    Schema.NullOr(Schema.Struct({ latitude: Schema.Number, longitude: Schema.Number })),
+    { default: () => null }
+  ),
+  // Ship what is in stock rather than failing; absent on events from before partial fulfilment
+  allow_partial: Schema.optionalWith(Schema.Boolean, { default: () => false })
 }) {}
 
+// Payload schema for CompensationRequested events (written by the orchestrator itself)
+export class CompensationRequestedPayload extends Schema.Class<CompensationRequestedPayload>("CompensationRequestedPayload")({
+  order_ledger_id: Schema.String,
+  // Ledger status before COMPENSATING - decides which steps to unwind
+  last_successful_status: OrderLedgerStatus,
+  failure_reason: Schema.Literal("permanent_failure", "max_retries_exceeded", "cancellation_requested"),
+  // The forward step error that triggered compensation
+  error_tag: Schema.String,
+  error_reason: Schema.NullOr(Schema.String)
+}) {}
+
+// Payload schema for CancellationRequested events (written by the Edge API)
+export class CancellationRequestedPayload extends Schema.Class<CancellationRequestedPayload>("CancellationRequestedPayload")({
+  order_ledger_id: Schema.String,
+  // Ledger status the cancellation was requested from
+  previous_status: OrderLedgerStatus
+}) {}
+
+// One failed attempt, persisted in outbox.attempt_history (snake_case JSON)
+export const AttemptRecord = Schema.Struct({
+  attempt: Schema.Number,
+  error_tag: Schema.String,
+  error_reason: Schema.NullOr(Schema.String),
+  failed_at: Schema.String
+})
+export type AttemptRecord = typeof AttemptRecord.Type
+
 // Full outbox event
 export class OutboxEvent extends Schema.Class<OutboxEvent>("OutboxEvent")({
   id: OutboxEventId,
@@ -34,5 +71,20 @@ export class OutboxEvent extends Schema.Class<OutboxEvent>("OutboxEvent")({
   processedAt: Schema.NullOr(Schema.DateTimeUtc),
   // Retry tracking fields (coordination lives in outbox, not ledger)
   retryCount: Schema.Number,
-  nextRetryAt: Schema.NullOr(Schema.DateTimeUtc)
+  nextRetryAt: Schema.NullOr(Schema.DateTimeUtc),
+  attemptHistory: Schema.optionalWith(Schema.Array(AttemptRecord), { default: () => [] })
 }) {}
+
+// Path parameter schema for /admin/outbox/:event_id routes
+export const OutboxEventIdParams = Schema.Struct({
+  event_id: Schema.UUID
+})
+
+// Query string schema for GET /admin/outbox
+export const ListOutboxEventsParams = Schema.Struct({
+  status: Schema.optionalWith(OutboxEventStatus, { default: () => "PENDING" as const }),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 500)),
+    { default: () => 50 }
+  )
+})
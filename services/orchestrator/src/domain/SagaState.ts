@@ -1,19 +1,25 @@
-import type { OrderLedgerStatus } from "./OrderLedger.js"
+import type { OrderLedger, OrderLedgerStatus } from "./OrderLedger.js"
 
 /**
  * Valid state transitions for the saga.
  * Used to validate transitions before updating ledger status.
  */
 export const VALID_TRANSITIONS: Record<OrderLedgerStatus, readonly OrderLedgerStatus[]> = {
-  AWAITING_AUTHORIZATION: ["AUTHORIZED", "AUTHORIZATION_FAILED"],
-  AUTHORIZED: ["ORDER_CREATED", "COMPENSATING"],
+  AWAITING_AUTHORIZATION: ["AUTHORIZED", "AWAITING_CUSTOMER_ACTION", "AUTHORIZATION_FAILED"],
+  AWAITING_CUSTOMER_ACTION: ["AUTHORIZED", "AUTHORIZATION_FAILED"],
+  AUTHORIZED: ["ORDER_CREATED", "COMPENSATING", "CANCELLATION_REQUESTED"],
   AUTHORIZATION_FAILED: [], // Terminal state
-  ORDER_CREATED: ["INVENTORY_RESERVED", "COMPENSATING"],
-  INVENTORY_RESERVED: ["PAYMENT_CAPTURED", "COMPENSATING"],
-  PAYMENT_CAPTURED: ["COMPLETED", "COMPENSATING"],
-  COMPLETED: [], // Terminal state
-  COMPENSATING: ["FAILED"],
-  FAILED: [] // Terminal state
+  ORDER_CREATED: ["INVENTORY_RESERVED", "COMPENSATING", "CANCELLATION_REQUESTED"],
+  INVENTORY_RESERVED: ["PAYMENT_CAPTURED", "COMPENSATING", "CANCELLATION_REQUESTED"],
+  PAYMENT_CAPTURED: ["COMPLETED", "COMPENSATING", "CANCELLATION_REQUESTED"],
+  // Terminal for the saga; only a customer cancellation moves it on
+  COMPLETED: ["CANCELLATION_REQUESTED"],
+  COMPENSATING: ["FAILED", "COMPENSATION_FAILED", "CANCELLED"],
+  FAILED: [], // Terminal state
+  // Needs an operator; manual compensation or a dead-letter replay can still finish it
+  COMPENSATION_FAILED: ["COMPENSATING", "FAILED", "CANCELLED"],
+  CANCELLATION_REQUESTED: ["COMPENSATING"],
+  CANCELLED: [] // Terminal state
 }
 
 /**
@@ -24,6 +30,16 @@ export const isValidTransition = (
   to: OrderLedgerStatus
 ): boolean => VALID_TRANSITIONS[from].includes(to)
 
+/**
+ * Whether the forward saga has handed the ledger off to compensation or finished
+ * unwinding it. An OrderAuthorized event for such a ledger has nothing left to do.
+ */
+export const isHandedOffToCompensation = (status: OrderLedgerStatus): boolean =>
+  status === "COMPENSATING" ||
+  status === "COMPENSATION_FAILED" ||
+  status === "FAILED" ||
+  status === "CANCELLED"
+
 /**
  * Steps in order of execution.
  * Used to determine which compensations to run on failure.
@@ -42,3 +58,20 @@ export type SagaStep = typeof SAGA_STEPS[number]
  */
 export const getSagaStepIndex = (status: OrderLedgerStatus): number =>
   SAGA_STEPS.indexOf(status as SagaStep)
+
+/**
+ * The step compensation should unwind from. A ledger that is compensating or
+ * awaiting cancellation no longer records how far it got, so assume the furthest
+ * step consistent with its data - release and cancel are idempotent, so
+ * over-compensating is safe.
+ */
+export const lastSuccessfulStatusFor = (ledger: OrderLedger): OrderLedgerStatus =>
+  ledger.status !== "COMPENSATING" &&
+  ledger.status !== "COMPENSATION_FAILED" &&
+  ledger.status !== "CANCELLATION_REQUESTED"
+    ? ledger.status
+    : ledger.paymentCaptureId !== null
+      ? "PAYMENT_CAPTURED"
+      : ledger.orderId !== null
+        ? "INVENTORY_RESERVED"
+        : "AUTHORIZED"
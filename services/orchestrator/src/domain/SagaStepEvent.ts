@@ -0,0 +1,28 @@
+import { Schema } from "effect"
+
+// Every step recorded in saga_step_events
+export const SagaStepName = Schema.Literal(
+  // Forward steps
+  "create_order",
+  "reserve_inventory",
+  // Partial fulfilment: the order reduced to the stock reserved
+  "adjust_order",
+  "extend_reservation",
+  "capture_payment",
+  "confirm_order",
+  "commit_inventory",
+  // Ledger transitions around compensation
+  // The saga picked up a customer cancellation; its compensation ends in CANCELLED
+  "cancellation_requested",
+  "compensation_started",
+  "compensation_finished",
+  // Compensation actions
+  "void_payment",
+  "refund_payment",
+  "release_inventory",
+  "cancel_order"
+)
+export type SagaStepName = typeof SagaStepName.Type
+
+export const SagaStepOutcome = Schema.Literal("SUCCEEDED", "FAILED", "RETRY_SCHEDULED")
+export type SagaStepOutcome = typeof SagaStepOutcome.Type
@@ -14,6 +14,16 @@ export class OrderCreationError extends Data.TaggedError("OrderCreationError")<{
   readonly isRetryable: boolean
 }> {}
 
+/**
+ * Reducing an order to the stock reserved for it failed
+ */
+export class OrderAdjustmentError extends Data.TaggedError("OrderAdjustmentError")<{
+  readonly orderId: string
+  readonly reason: string
+  readonly statusCode?: number
+  readonly isRetryable: boolean
+}> {}
+
 /**
  * Inventory reservation failed
  */
@@ -50,6 +60,16 @@ export class OrderConfirmationError extends Data.TaggedError("OrderConfirmationE
   readonly isRetryable: boolean
 }> {}
 
+/**
+ * Inventory commit failed
+ */
+export class InventoryCommitError extends Data.TaggedError("InventoryCommitError")<{
+  readonly orderId: string
+  readonly reason: string
+  readonly statusCode?: number
+  readonly isRetryable: boolean
+}> {}
+
 /**
  * Generic HTTP client error for connection issues
  */
@@ -103,6 +123,16 @@ export class PaymentVoidError extends Data.TaggedError("PaymentVoidError")<{
   readonly isRetryable: boolean
 }> {}
 
+/**
+ * Payment refund failed
+ */
+export class PaymentRefundError extends Data.TaggedError("PaymentRefundError")<{
+  readonly captureId: string
+  readonly reason: string
+  readonly statusCode?: number
+  readonly isRetryable: boolean
+}> {}
+
 /**
  * Inventory release failed
  */
@@ -123,6 +153,58 @@ export class OrderCancellationError extends Data.TaggedError("OrderCancellationE
   readonly isRetryable: boolean
 }> {}
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Admin Errors
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Outbox event not found
+ */
+export class OutboxEventNotFoundError extends Data.TaggedError("OutboxEventNotFoundError")<{
+  readonly eventId: string
+}> {}
+
+/**
+ * Outbox event cannot be retried (already PROCESSED)
+ */
+export class EventNotRetryableError extends Data.TaggedError("EventNotRetryableError")<{
+  readonly eventId: string
+  readonly status: string
+}> {}
+
+/**
+ * Saga cannot be compensated from its current ledger status
+ */
+export class SagaNotCompensableError extends Data.TaggedError("SagaNotCompensableError")<{
+  readonly orderLedgerId: string
+  readonly status: string
+}> {}
+
+/**
+ * Dead letter not found
+ */
+export class DeadLetterNotFoundError extends Data.TaggedError("DeadLetterNotFoundError")<{
+  readonly deadLetterId: string
+}> {}
+
+/**
+ * Dead letter has already been replayed into the outbox
+ */
+export class DeadLetterAlreadyReplayedError extends Data.TaggedError("DeadLetterAlreadyReplayedError")<{
+  readonly deadLetterId: string
+  readonly replayedEventId: string | null
+}> {}
+
+/**
+ * Dead letter's saga has already been handed off to compensation, so replaying
+ * the event would only be rejected by the executor again
+ */
+export class DeadLetterNotReplayableError extends Data.TaggedError("DeadLetterNotReplayableError")<{
+  readonly deadLetterId: string
+  readonly orderLedgerId: string
+  readonly status: string
+}> {}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Aggregate Error Types for Pattern Matching
 // ═══════════════════════════════════════════════════════════════════════════
@@ -134,8 +216,10 @@ export type SagaStepError =
   | ServiceConnectionError
   | OrderCreationError
   | InventoryReservationError
+  | OrderAdjustmentError
   | PaymentCaptureError
   | OrderConfirmationError
+  | InventoryCommitError
 
 /**
  * All saga compensation errors that can occur during rollback
@@ -143,5 +227,6 @@ export type SagaStepError =
 export type SagaCompensationError =
   | ServiceConnectionError
   | PaymentVoidError
+  | PaymentRefundError
   | InventoryReleaseError
   | OrderCancellationError
@@ -1,10 +1,15 @@
 import { NodeRuntime } from "@effect/platform-node"
-import { Effect } from "effect"
+import { Effect, Layer } from "effect"
 import { main } from "./main.js"
+import { AdminHttpLive } from "./server.js"
 import { AppLive } from "./layers.js"
 import { TelemetryLive } from "./telemetry.js"
 
-const program = main.pipe(
+// Saga processing and the admin HTTP server run side by side
+const program = Effect.all([
+  main,
+  Layer.launch(AdminHttpLive)
+], { concurrency: "unbounded" }).pipe(
   Effect.provide(AppLive),
   Effect.provide(TelemetryLive)
 )
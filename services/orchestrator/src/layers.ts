@@ -4,11 +4,14 @@ import { DatabaseLive } from "./db.js"
 import { OrchestratorConfigLive } from "./config.js"
 import { OutboxRepositoryLive } from "./repositories/OutboxRepositoryLive.js"
 import { LedgerRepositoryLive } from "./repositories/LedgerRepositoryLive.js"
+import { DeadLetterRepositoryLive } from "./repositories/DeadLetterRepositoryLive.js"
+import { SagaStepRepositoryLive } from "./repositories/SagaStepRepositoryLive.js"
 import { OrdersClientLive } from "./clients/OrdersClientLive.js"
 import { InventoryClientLive } from "./clients/InventoryClientLive.js"
 import { PaymentsClientLive } from "./clients/PaymentsClientLive.js"
 import { SagaExecutorLive } from "./services/SagaExecutorLive.js"
 import { CompensationExecutorLive } from "./services/CompensationExecutorLive.js"
+import { SagaAdminLive } from "./services/SagaAdminLive.js"
 
 // HTTP client layer for all service clients (with trace context propagation)
 const HttpClientLive = TracedHttpClientLive
@@ -16,7 +19,9 @@ const HttpClientLive = TracedHttpClientLive
 // Repository layers (depend on Database)
 const RepositoriesLive = Layer.mergeAll(
   OutboxRepositoryLive,
-  LedgerRepositoryLive
+  LedgerRepositoryLive,
+  DeadLetterRepositoryLive,
+  SagaStepRepositoryLive
 ).pipe(Layer.provide(DatabaseLive))
 
 // HTTP client layers (depend on HttpClient)
@@ -26,9 +31,10 @@ const ClientsLive = Layer.mergeAll(
   PaymentsClientLive
 ).pipe(Layer.provide(HttpClientLive))
 
-// Compensation executor (depends on clients)
+// Compensation executor (depends on clients and the saga step repository)
 const CompensationLive = CompensationExecutorLive.pipe(
-  Layer.provide(ClientsLive)
+  Layer.provide(ClientsLive),
+  Layer.provide(RepositoriesLive)
 )
 
 // Service layers (depend on repositories, clients, config, and compensation executor)
@@ -39,6 +45,12 @@ const ServicesLive = SagaExecutorLive.pipe(
   Layer.provide(OrchestratorConfigLive)
 )
 
+// Admin service (depends on repositories and compensation executor)
+const AdminLive = SagaAdminLive.pipe(
+  Layer.provide(RepositoriesLive),
+  Layer.provide(CompensationLive)
+)
+
 // Complete application layer
 export const AppLive = Layer.mergeAll(
   DatabaseLive,
@@ -46,5 +58,6 @@ export const AppLive = Layer.mergeAll(
   RepositoriesLive,
   ClientsLive,
   CompensationLive,
-  ServicesLive
+  ServicesLive,
+  AdminLive
 )
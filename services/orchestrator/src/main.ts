@@ -4,7 +4,72 @@ import { SqlClient } from "@effect/sql"
 import pg from "pg"
 import { OrchestratorConfig } from "./config.js"
 import { OutboxRepository } from "./repositories/OutboxRepository.js"
-import { SagaExecutor } from "./services/SagaExecutor.js"
+import { DeadLetterRepository, type RecordDeadLetterParams } from "./repositories/DeadLetterRepository.js"
+import {
+  SagaExecutor,
+  type SagaFailed,
+  type SagaCompensationScheduled,
+  type SagaCompensationFailed
+} from "./services/SagaExecutor.js"
+import type { OutboxEvent } from "./domain/OutboxEvent.js"
+
+/**
+ * Build the dead-letter record for a failed outbox event.
+ * Returns null for sagas that failed on a permanent business error - the
+ * CompensationRequested event that follows resolves those, they are not stuck.
+ */
+export const toDeadLetter = (
+  event: OutboxEvent,
+  result: SagaFailed | SagaCompensationScheduled | SagaCompensationFailed,
+  failedAt: DateTime.Utc
+): RecordDeadLetterParams | null => {
+  const details = Match.value(result).pipe(
+    Match.tag("Failed", (failed) => ({
+      reason: "UNPROCESSABLE" as const,
+      errorTag: failed.errorTag,
+      errorMessage: failed.error,
+      compensationErrors: [] as readonly string[]
+    })),
+    Match.tag("CompensationScheduled", (scheduled) =>
+      scheduled.failureReason === "max_retries_exceeded"
+        ? {
+          reason: "MAX_RETRIES_EXCEEDED" as const,
+          errorTag: scheduled.errorTag,
+          errorMessage: scheduled.errorReason,
+          compensationErrors: [] as readonly string[]
+        }
+        : null
+    ),
+    Match.tag("CompensationFailed", (failed) => ({
+      reason: "COMPENSATION_FAILED" as const,
+      errorTag: "CompensationFailed",
+      errorMessage: failed.error,
+      compensationErrors: failed.compensationErrors
+    })),
+    Match.exhaustive
+  )
+
+  if (details === null) {
+    return null
+  }
+
+  return {
+    event,
+    reason: details.reason,
+    errorTag: details.errorTag,
+    errorMessage: details.errorMessage,
+    attemptHistory: [
+      ...event.attemptHistory,
+      {
+        attempt: event.retryCount + 1,
+        error_tag: details.errorTag,
+        error_reason: details.errorMessage,
+        failed_at: DateTime.formatIso(failedAt)
+      }
+    ],
+    compensationErrors: details.compensationErrors
+  }
+}
 
 /**
  * Process pending outbox events.
@@ -14,8 +79,26 @@ import { SagaExecutor } from "./services/SagaExecutor.js"
 export const processEvents = Effect.gen(function* () {
   const sql = yield* SqlClient.SqlClient
   const outboxRepo = yield* OutboxRepository
+  const deadLetterRepo = yield* DeadLetterRepository
   const sagaExecutor = yield* SagaExecutor
 
+  // Mark the event FAILED and, if it needs operator attention, copy it to the dead-letter table
+  const failEvent = (event: OutboxEvent, result: SagaFailed | SagaCompensationScheduled | SagaCompensationFailed) =>
+    Effect.gen(function* () {
+      yield* outboxRepo.markFailed(event.id)
+
+      const deadLetter = toDeadLetter(event, result, yield* DateTime.now)
+      if (deadLetter !== null) {
+        yield* deadLetterRepo.record(deadLetter)
+        yield* Effect.logWarning("Outbox event dead-lettered", {
+          eventId: event.id,
+          aggregateId: event.aggregateId,
+          reason: deadLetter.reason,
+          errorTag: deadLetter.errorTag
+        })
+      }
+    })
+
   yield* Effect.logDebug("Processing pending events...")
 
   // Process in a transaction to maintain locks until all events are handled
@@ -42,7 +125,7 @@ export const processEvents = Effect.gen(function* () {
         // Mark based on result
         yield* Match.value(result).pipe(
           Match.tag("Completed", () => outboxRepo.markProcessed(event.id)),
-          Match.tag("Failed", () => outboxRepo.markFailed(event.id)),
+          Match.tag("Failed", (failed) => failEvent(event, failed)),
           Match.tag("RequiresRetry", ({ error, retryCount, nextRetryAt, isLastAttempt }) =>
             Effect.logInfo("Event scheduled for retry", {
               eventId: event.id,
@@ -53,13 +136,45 @@ export const processEvents = Effect.gen(function* () {
               note: "Event remains PENDING with future next_retry_at"
             })
           ),
-          Match.tag("Compensated", ({ orderLedgerId, compensationSteps }) =>
+          Match.tag("CompensationScheduled", (scheduled) =>
+            Effect.gen(function* () {
+              // A customer cancellation is a clean hand-off, not a failed saga
+              if (scheduled.failureReason === "cancellation_requested") {
+                yield* outboxRepo.markProcessed(event.id)
+                yield* Effect.logInfo("Saga cancelled - compensation scheduled", {
+                  eventId: event.id,
+                  orderLedgerId: scheduled.orderLedgerId,
+                  compensationEventId: scheduled.compensationEventId
+                })
+                return
+              }
+
+              yield* failEvent(event, scheduled)
+              yield* Effect.logInfo("Saga failed - compensation scheduled", {
+                eventId: event.id,
+                orderLedgerId: scheduled.orderLedgerId,
+                compensationEventId: scheduled.compensationEventId
+              })
+            })
+          ),
+          Match.tag("Compensated", (compensated) =>
             Effect.gen(function* () {
-              yield* outboxRepo.markFailed(event.id)
+              yield* outboxRepo.markProcessed(event.id)
               yield* Effect.logInfo("Saga compensated and marked as failed", {
                 eventId: event.id,
-                orderLedgerId,
-                compensationSteps
+                orderLedgerId: compensated.orderLedgerId,
+                compensationSteps: compensated.compensationSteps
+              })
+            })
+          ),
+          Match.tag("CompensationFailed", (failed) => failEvent(event, failed)),
+          Match.tag("Skipped", (skipped) =>
+            Effect.gen(function* () {
+              yield* outboxRepo.markProcessed(event.id)
+              yield* Effect.logInfo("Outbox event skipped", {
+                eventId: event.id,
+                orderLedgerId: skipped.orderLedgerId,
+                reason: skipped.reason
               })
             })
           ),
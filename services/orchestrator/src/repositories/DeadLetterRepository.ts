@@ -0,0 +1,51 @@
+import { Context, Effect } from "effect"
+import type { Option } from "effect"
+import type { AttemptRecord, OutboxEvent } from "../domain/OutboxEvent.js"
+import type { DeadLetter, DeadLetterId, DeadLetterReason } from "../domain/DeadLetter.js"
+
+export interface RecordDeadLetterParams {
+  readonly event: OutboxEvent
+  readonly reason: DeadLetterReason
+  readonly errorTag: string
+  readonly errorMessage: string | null
+  // Full attempt history including the final attempt
+  readonly attemptHistory: readonly AttemptRecord[]
+  readonly compensationErrors: readonly string[]
+}
+
+export interface ReplayResult {
+  readonly deadLetter: DeadLetter
+  readonly event: OutboxEvent
+}
+
+export class DeadLetterRepository extends Context.Tag("DeadLetterRepository")<
+  DeadLetterRepository,
+  {
+    /**
+     * Copy a failed outbox event into the dead-letter table.
+     * Idempotent per outbox event - a second call for the same event is a no-op.
+     */
+    readonly record: (params: RecordDeadLetterParams) => Effect.Effect<void>
+
+    /**
+     * Find a single dead letter by ID.
+     */
+    readonly findById: (id: DeadLetterId) => Effect.Effect<Option.Option<DeadLetter>>
+
+    /**
+     * List dead letters, newest first.
+     * Replayed entries are only included when includeReplayed is true.
+     */
+    readonly list: (
+      includeReplayed: boolean,
+      limit: number
+    ) => Effect.Effect<readonly DeadLetter[]>
+
+    /**
+     * Re-enqueue a dead letter as a fresh PENDING outbox event (retry_count = 0)
+     * and mark the dead letter as replayed, in one transaction.
+     * Returns None if the dead letter does not exist or was already replayed.
+     */
+    readonly replay: (id: DeadLetterId) => Effect.Effect<Option.Option<ReplayResult>>
+  }
+>() {}
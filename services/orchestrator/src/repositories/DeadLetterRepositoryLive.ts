@@ -0,0 +1,153 @@
+import { Layer, Effect, DateTime, Option } from "effect"
+import { SqlClient } from "@effect/sql"
+import { DeadLetterRepository, type RecordDeadLetterParams, type ReplayResult } from "./DeadLetterRepository.js"
+import { DeadLetter, type DeadLetterId, type DeadLetterReason } from "../domain/DeadLetter.js"
+import type { AttemptRecord, OutboxEventId, OutboxEventType } from "../domain/OutboxEvent.js"
+import { rowToOutboxEvent, type OutboxRow } from "./OutboxRepositoryLive.js"
+
+interface DeadLetterRow {
+  id: string
+  outbox_event_id: string
+  aggregate_type: string
+  aggregate_id: string
+  event_type: string
+  payload: unknown
+  reason: string
+  error_tag: string
+  error_message: string | null
+  retry_count: number
+  attempt_history: readonly AttemptRecord[]
+  compensation_errors: readonly string[]
+  event_created_at: Date
+  dead_lettered_at: Date
+  replayed_at: Date | null
+  replayed_event_id: string | null
+}
+
+const rowToDeadLetter = (row: DeadLetterRow): DeadLetter =>
+  new DeadLetter({
+    id: row.id as DeadLetterId,
+    outboxEventId: row.outbox_event_id as OutboxEventId,
+    aggregateType: row.aggregate_type,
+    aggregateId: row.aggregate_id,
+    eventType: row.event_type as OutboxEventType,
+    payload: row.payload,
+    reason: row.reason as DeadLetterReason,
+    errorTag: row.error_tag,
+    errorMessage: row.error_message,
+    retryCount: row.retry_count,
+    attemptHistory: row.attempt_history,
+    compensationErrors: row.compensation_errors,
+    eventCreatedAt: DateTime.unsafeFromDate(row.event_created_at),
+    deadLetteredAt: DateTime.unsafeFromDate(row.dead_lettered_at),
+    replayedAt: row.replayed_at ? DateTime.unsafeFromDate(row.replayed_at) : null,
+    replayedEventId: row.replayed_event_id as OutboxEventId | null
+  })
+
+export const DeadLetterRepositoryLive = Layer.effect(
+  DeadLetterRepository,
+  Effect.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+
+    return {
+      record: (params: RecordDeadLetterParams) =>
+        Effect.gen(function* () {
+          const { event } = params
+          yield* sql`
+            INSERT INTO outbox_dead_letters (
+              outbox_event_id, aggregate_type, aggregate_id, event_type, payload,
+              reason, error_tag, error_message, retry_count,
+              attempt_history, compensation_errors, event_created_at
+            )
+            VALUES (
+              ${event.id}, ${event.aggregateType}, ${event.aggregateId}, ${event.eventType},
+              ${JSON.stringify(event.payload)}::jsonb,
+              ${params.reason}, ${params.errorTag}, ${params.errorMessage}, ${event.retryCount},
+              ${JSON.stringify(params.attemptHistory)}::jsonb,
+              ${JSON.stringify(params.compensationErrors)}::jsonb,
+              ${DateTime.toDate(event.createdAt)}
+            )
+            ON CONFLICT (outbox_event_id) DO NOTHING
+          `
+          yield* Effect.logDebug("Recorded dead letter", {
+            eventId: event.id,
+            reason: params.reason,
+            errorTag: params.errorTag
+          })
+        }).pipe(Effect.orDie),
+
+      findById: (id: DeadLetterId) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<DeadLetterRow>`
+            SELECT * FROM outbox_dead_letters WHERE id = ${id}
+          `
+          return rows.length > 0 ? Option.some(rowToDeadLetter(rows[0])) : Option.none()
+        }).pipe(Effect.orDie),
+
+      list: (includeReplayed: boolean, limit: number) =>
+        Effect.gen(function* () {
+          const rows = includeReplayed
+            ? yield* sql<DeadLetterRow>`
+                SELECT * FROM outbox_dead_letters
+                ORDER BY dead_lettered_at DESC
+                LIMIT ${limit}
+              `
+            : yield* sql<DeadLetterRow>`
+                SELECT * FROM outbox_dead_letters
+                WHERE replayed_at IS NULL
+                ORDER BY dead_lettered_at DESC
+                LIMIT ${limit}
+              `
+          return rows.map(rowToDeadLetter)
+        }).pipe(Effect.orDie),
+
+      replay: (id: DeadLetterId) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // Lock the dead letter so concurrent replays cannot enqueue it twice
+            const existing = yield* sql<DeadLetterRow>`
+              SELECT * FROM outbox_dead_letters
+              WHERE id = ${id} AND replayed_at IS NULL
+              FOR UPDATE
+            `
+            if (existing.length === 0) {
+              return Option.none<ReplayResult>()
+            }
+            const deadLetter = existing[0]
+
+            // Fresh event: new id, PENDING, retry_count 0, empty attempt history
+            const inserted = yield* sql<OutboxRow>`
+              INSERT INTO outbox (aggregate_type, aggregate_id, event_type, payload)
+              VALUES (
+                ${deadLetter.aggregate_type}, ${deadLetter.aggregate_id},
+                ${deadLetter.event_type}, ${JSON.stringify(deadLetter.payload)}::jsonb
+              )
+              RETURNING
+                id, aggregate_type, aggregate_id, event_type,
+                payload, status, created_at, processed_at,
+                retry_count, next_retry_at, attempt_history
+            `
+            const event = inserted[0]
+
+            const updated = yield* sql<DeadLetterRow>`
+              UPDATE outbox_dead_letters
+              SET replayed_at = NOW(), replayed_event_id = ${event.id}
+              WHERE id = ${id}
+              RETURNING *
+            `
+
+            yield* sql`SELECT pg_notify('order_events', ${event.event_type})`
+            yield* Effect.logDebug("Replayed dead letter into outbox", {
+              deadLetterId: id,
+              eventId: event.id
+            })
+
+            return Option.some({
+              deadLetter: rowToDeadLetter(updated[0]),
+              event: rowToOutboxEvent(event)
+            } satisfies ReplayResult)
+          })
+        ).pipe(Effect.orDie)
+    }
+  })
+)
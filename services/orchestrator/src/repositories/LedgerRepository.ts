@@ -1,5 +1,5 @@
 import { Context, Effect, Option } from "effect"
-import type { OrderLedger, OrderLedgerItem, OrderLedgerId, OrderLedgerStatus } from "../domain/OrderLedger.js"
+import type { OrderLedger, OrderLedgerItem, OrderLedgerId, OrderLedgerPayment, OrderLedgerStatus } from "../domain/OrderLedger.js"
 
 export interface LedgerWithItems {
   readonly ledger: OrderLedger
@@ -14,20 +14,61 @@ export class LedgerRepository extends Context.Tag("LedgerRepository")<
      */
     readonly findByIdWithItems: (id: OrderLedgerId) => Effect.Effect<Option.Option<LedgerWithItems>>
 
+    /**
+     * Find the ledger's payment instruments in authorization order.
+     * Empty for ledgers authorized before split tender - their single
+     * authorization is the ledger's payment_authorization_id.
+     */
+    readonly findPayments: (id: OrderLedgerId) => Effect.Effect<readonly OrderLedgerPayment[]>
+
+    /**
+     * Store the capture ID of one payment instrument.
+     * Written as each instrument is captured so a retried step 3 skips it
+     * and compensation refunds it.
+     */
+    readonly recordPaymentCapture: (paymentId: string, captureId: string) => Effect.Effect<void>
+
+    /**
+     * Store the fulfilled quantity of items only partly reserved.
+     * Written by saga step 2 so step 3 captures the reduced total and the
+     * Edge API can show what ships.
+     */
+    readonly recordFulfilledQuantities: (items: readonly OrderLedgerItem[]) => Effect.Effect<void>
+
     /**
      * Update the ledger status.
      * Also updates the `updated_at` timestamp automatically via trigger.
      */
     readonly updateStatus: (id: OrderLedgerId, newStatus: OrderLedgerStatus) => Effect.Effect<OrderLedger>
 
+    /**
+     * Move the ledger forward to the status reached by a saga step.
+     * A pending CANCELLATION_REQUESTED is never overwritten; the returned
+     * ledger keeps that status so the caller can stop the saga.
+     */
+    readonly advanceStatus: (id: OrderLedgerId, newStatus: OrderLedgerStatus) => Effect.Effect<OrderLedger>
+
     /**
      * Update ledger status and store the created order ID.
      * Used after Step 1 (create order) to record the order reference.
+     * Like advanceStatus, a pending CANCELLATION_REQUESTED is kept.
      */
     readonly updateStatusWithOrderId: (
       id: OrderLedgerId,
       newStatus: OrderLedgerStatus,
       orderId: string
     ) => Effect.Effect<OrderLedger>
+
+    /**
+     * Update ledger status and store the payment capture ID.
+     * Used after Step 3 (capture payment) so compensation can refund it.
+     * For a split-tender order this is the primary payment's capture.
+     * Like advanceStatus, a pending CANCELLATION_REQUESTED is kept.
+     */
+    readonly updateStatusWithCaptureId: (
+      id: OrderLedgerId,
+      newStatus: OrderLedgerStatus,
+      captureId: string
+    ) => Effect.Effect<OrderLedger>
   }
 >() {}
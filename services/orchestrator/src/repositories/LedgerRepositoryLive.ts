@@ -4,6 +4,7 @@ import { LedgerRepository, type LedgerWithItems } from "./LedgerRepository.js"
 import {
   OrderLedger,
   OrderLedgerItem,
+  OrderLedgerPayment,
   type OrderLedgerId,
   type OrderLedgerStatus,
   type UserId,
@@ -19,6 +20,7 @@ interface LedgerRow {
   total_amount_cents: number
   currency: string
   payment_authorization_id: string | null
+  payment_capture_id: string | null
   order_id: string | null
   created_at: Date
   updated_at: Date
@@ -29,9 +31,22 @@ interface LedgerWithItemsRow extends LedgerRow {
   product_id: string | null
   quantity: number | null
   unit_price_cents: number | null
+  fulfilled_quantity: number | null
   item_created_at: Date | null
 }
 
+interface LedgerPaymentRow {
+  id: string
+  order_ledger_id: string
+  sequence: number
+  method: string
+  amount_cents: number
+  status: string
+  payment_authorization_id: string | null
+  payment_capture_id: string | null
+  created_at: Date
+}
+
 const rowToLedger = (row: LedgerRow): OrderLedger =>
   new OrderLedger({
     id: row.id as OrderLedgerId,
@@ -42,11 +57,25 @@ const rowToLedger = (row: LedgerRow): OrderLedger =>
     totalAmountCents: row.total_amount_cents,
     currency: row.currency,
     paymentAuthorizationId: row.payment_authorization_id,
+    paymentCaptureId: row.payment_capture_id,
     orderId: row.order_id,
     createdAt: DateTime.unsafeFromDate(row.created_at),
     updatedAt: DateTime.unsafeFromDate(row.updated_at)
   })
 
+const rowToLedgerPayment = (row: LedgerPaymentRow): OrderLedgerPayment =>
+  new OrderLedgerPayment({
+    id: row.id,
+    orderLedgerId: row.order_ledger_id as OrderLedgerId,
+    sequence: row.sequence,
+    method: row.method,
+    amountCents: row.amount_cents,
+    status: row.status,
+    paymentAuthorizationId: row.payment_authorization_id,
+    paymentCaptureId: row.payment_capture_id,
+    createdAt: DateTime.unsafeFromDate(row.created_at)
+  })
+
 export const LedgerRepositoryLive = Layer.effect(
   LedgerRepository,
   Effect.gen(function* () {
@@ -59,9 +88,9 @@ export const LedgerRepositoryLive = Layer.effect(
             SELECT
               ol.id, ol.client_request_id, ol.user_id, ol.email, ol.status,
               ol.total_amount_cents, ol.currency, ol.payment_authorization_id,
-              ol.order_id, ol.created_at, ol.updated_at,
+              ol.payment_capture_id, ol.order_id, ol.created_at, ol.updated_at,
               oli.id as item_id, oli.product_id, oli.quantity, oli.unit_price_cents,
-              oli.created_at as item_created_at
+              oli.fulfilled_quantity, oli.created_at as item_created_at
             FROM order_ledger ol
             LEFT JOIN order_ledger_items oli ON oli.order_ledger_id = ol.id
             WHERE ol.id = ${id}
@@ -81,6 +110,7 @@ export const LedgerRepositoryLive = Layer.effect(
                 productId: row.product_id as ProductId,
                 quantity: row.quantity!,
                 unitPriceCents: row.unit_price_cents!,
+                fulfilledQuantity: row.fulfilled_quantity,
                 createdAt: DateTime.unsafeFromDate(row.item_created_at!)
               })
             )
@@ -88,6 +118,40 @@ export const LedgerRepositoryLive = Layer.effect(
           return Option.some({ ledger, items } satisfies LedgerWithItems)
         }).pipe(Effect.orDie),
 
+      findPayments: (id: OrderLedgerId) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<LedgerPaymentRow>`
+            SELECT id, order_ledger_id, sequence, method, amount_cents, status,
+                   payment_authorization_id, payment_capture_id, created_at
+            FROM order_ledger_payments
+            WHERE order_ledger_id = ${id}
+            ORDER BY sequence ASC
+          `
+          return rows.map(rowToLedgerPayment)
+        }).pipe(Effect.orDie),
+
+      recordPaymentCapture: (paymentId: string, captureId: string) =>
+        Effect.gen(function* () {
+          yield* sql`
+            UPDATE order_ledger_payments
+            SET payment_capture_id = ${captureId}
+            WHERE id = ${paymentId}
+          `
+          yield* Effect.logDebug("Recorded payment capture", { paymentId, captureId })
+        }).pipe(Effect.orDie),
+
+      recordFulfilledQuantities: (items: readonly OrderLedgerItem[]) =>
+        Effect.gen(function* () {
+          for (const item of items) {
+            yield* sql`
+              UPDATE order_ledger_items
+              SET fulfilled_quantity = ${item.fulfilledQuantity}
+              WHERE id = ${item.id}
+            `
+          }
+          yield* Effect.logDebug("Recorded fulfilled quantities", { itemCount: items.length })
+        }).pipe(Effect.orDie),
+
       updateStatus: (id: OrderLedgerId, newStatus: OrderLedgerStatus) =>
         Effect.gen(function* () {
           const rows = yield* sql<LedgerRow>`
@@ -100,16 +164,45 @@ export const LedgerRepositoryLive = Layer.effect(
           return rowToLedger(rows[0])
         }).pipe(Effect.orDie),
 
+      advanceStatus: (id: OrderLedgerId, newStatus: OrderLedgerStatus) =>
+        Effect.gen(function* () {
+          // The Edge API may have requested cancellation while the step ran
+          const rows = yield* sql<LedgerRow>`
+            UPDATE order_ledger
+            SET status = CASE WHEN status = 'CANCELLATION_REQUESTED' THEN status ELSE ${newStatus} END
+            WHERE id = ${id}
+            RETURNING *
+          `
+          yield* Effect.logDebug("Advanced ledger status", { id, newStatus, status: rows[0].status })
+          return rowToLedger(rows[0])
+        }).pipe(Effect.orDie),
+
       updateStatusWithOrderId: (id: OrderLedgerId, newStatus: OrderLedgerStatus, orderId: string) =>
         Effect.gen(function* () {
+          // Keep the order ID even when cancelled - compensation needs it
           const rows = yield* sql<LedgerRow>`
             UPDATE order_ledger
-            SET status = ${newStatus}, order_id = ${orderId}
+            SET status = CASE WHEN status = 'CANCELLATION_REQUESTED' THEN status ELSE ${newStatus} END,
+                order_id = ${orderId}
             WHERE id = ${id}
             RETURNING *
           `
           yield* Effect.logDebug("Updated ledger status with order ID", { id, newStatus, orderId })
           return rowToLedger(rows[0])
+        }).pipe(Effect.orDie),
+
+      updateStatusWithCaptureId: (id: OrderLedgerId, newStatus: OrderLedgerStatus, captureId: string) =>
+        Effect.gen(function* () {
+          // Keep the capture ID even when cancelled - compensation needs it
+          const rows = yield* sql<LedgerRow>`
+            UPDATE order_ledger
+            SET status = CASE WHEN status = 'CANCELLATION_REQUESTED' THEN status ELSE ${newStatus} END,
+                payment_capture_id = ${captureId}
+            WHERE id = ${id}
+            RETURNING *
+          `
+          yield* Effect.logDebug("Updated ledger status with capture ID", { id, newStatus, captureId })
+          return rowToLedger(rows[0])
         }).pipe(Effect.orDie)
     }
   })
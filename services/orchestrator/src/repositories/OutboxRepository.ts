@@ -1,11 +1,18 @@
 import { Context, Effect } from "effect"
-import type { DateTime } from "effect"
-import type { OutboxEvent, OutboxEventId } from "../domain/OutboxEvent.js"
+import type { DateTime, Option } from "effect"
+import type { AttemptRecord, OutboxEvent, OutboxEventId, OutboxEventStatus, OutboxEventType } from "../domain/OutboxEvent.js"
 
 export interface ClaimResult {
   readonly events: readonly OutboxEvent[]
 }
 
+export interface EnqueueEventParams {
+  readonly aggregateType: string
+  readonly aggregateId: string
+  readonly eventType: OutboxEventType
+  readonly payload: unknown
+}
+
 export class OutboxRepository extends Context.Tag("OutboxRepository")<
   OutboxRepository,
   {
@@ -35,11 +42,52 @@ export class OutboxRepository extends Context.Tag("OutboxRepository")<
      *
      * @param eventId - The event to schedule for retry
      * @param nextRetryAt - When to retry next
+     * @param attempt - The failed attempt, appended to attempt_history
      * @returns Updated retry count
      */
     readonly scheduleRetry: (
       eventId: OutboxEventId,
-      nextRetryAt: DateTime.Utc
+      nextRetryAt: DateTime.Utc,
+      attempt: AttemptRecord
     ) => Effect.Effect<{ retryCount: number }>
+
+    /**
+     * Find a single event by ID.
+     */
+    readonly findById: (eventId: OutboxEventId) => Effect.Effect<Option.Option<OutboxEvent>>
+
+    /**
+     * List events with the given status, oldest first.
+     */
+    readonly listByStatus: (
+      status: OutboxEventStatus,
+      limit: number
+    ) => Effect.Effect<readonly OutboxEvent[]>
+
+    /**
+     * All events for an aggregate (e.g. an order ledger), oldest first.
+     */
+    readonly findByAggregateId: (aggregateId: string) => Effect.Effect<readonly OutboxEvent[]>
+
+    /**
+     * Make a PENDING or FAILED event immediately claimable again:
+     * status back to PENDING, next_retry_at cleared, and a NOTIFY sent.
+     * retry_count is preserved. Returns None if the event is missing or PROCESSED.
+     */
+    readonly resetForRetry: (eventId: OutboxEventId) => Effect.Effect<Option.Option<OutboxEvent>>
+
+    /**
+     * Mark every PENDING event for an aggregate as FAILED.
+     * Used when a saga is compensated out-of-band so it is not resumed.
+     *
+     * @returns Number of events marked failed
+     */
+    readonly failPendingForAggregate: (aggregateId: string) => Effect.Effect<number>
+
+    /**
+     * Insert a new PENDING event and NOTIFY listeners.
+     * Runs inside the caller's transaction, so the event is only visible on commit.
+     */
+    readonly enqueue: (params: EnqueueEventParams) => Effect.Effect<OutboxEvent>
   }
 >() {}
@@ -1,9 +1,9 @@
-import { Layer, Effect, DateTime } from "effect"
+import { Layer, Effect, DateTime, Option } from "effect"
 import { SqlClient } from "@effect/sql"
-import { OutboxRepository, type ClaimResult } from "./OutboxRepository.js"
-import { OutboxEvent, type OutboxEventId, type OutboxEventType, type OutboxEventStatus } from "../domain/OutboxEvent.js"
+import { OutboxRepository, type ClaimResult, type EnqueueEventParams } from "./OutboxRepository.js"
+import { OutboxEvent, type AttemptRecord, type OutboxEventId, type OutboxEventType, type OutboxEventStatus } from "../domain/OutboxEvent.js"
 
-interface OutboxRow {
+export interface OutboxRow {
   id: string
   aggregate_type: string
   aggregate_id: string
@@ -14,9 +14,10 @@ interface OutboxRow {
   processed_at: Date | null
   retry_count: number
   next_retry_at: Date | null
+  attempt_history: readonly AttemptRecord[]
 }
 
-const rowToOutboxEvent = (row: OutboxRow): OutboxEvent =>
+export const rowToOutboxEvent = (row: OutboxRow): OutboxEvent =>
   new OutboxEvent({
     id: row.id as OutboxEventId,
     aggregateType: row.aggregate_type,
@@ -27,7 +28,8 @@ const rowToOutboxEvent = (row: OutboxRow): OutboxEvent =>
     createdAt: DateTime.unsafeFromDate(row.created_at),
     processedAt: row.processed_at ? DateTime.unsafeFromDate(row.processed_at) : null,
     retryCount: row.retry_count,
-    nextRetryAt: row.next_retry_at ? DateTime.unsafeFromDate(row.next_retry_at) : null
+    nextRetryAt: row.next_retry_at ? DateTime.unsafeFromDate(row.next_retry_at) : null,
+    attemptHistory: row.attempt_history
   })
 
 export const OutboxRepositoryLive = Layer.effect(
@@ -42,7 +44,7 @@ export const OutboxRepositoryLive = Layer.effect(
             SELECT
               id, aggregate_type, aggregate_id, event_type,
               payload, status, created_at, processed_at,
-              retry_count, next_retry_at
+              retry_count, next_retry_at, attempt_history
             FROM outbox
             WHERE status = 'PENDING'
               AND (next_retry_at IS NULL OR next_retry_at <= NOW())
@@ -79,7 +81,7 @@ export const OutboxRepositoryLive = Layer.effect(
           yield* Effect.logDebug("Marked outbox event as failed", { eventId })
         }).pipe(Effect.orDie),
 
-      scheduleRetry: (eventId: OutboxEventId, nextRetryAt: DateTime.Utc) =>
+      scheduleRetry: (eventId: OutboxEventId, nextRetryAt: DateTime.Utc, attempt: AttemptRecord) =>
         Effect.gen(function* () {
           const nextRetryDate = DateTime.toDate(nextRetryAt)
 
@@ -87,7 +89,8 @@ export const OutboxRepositoryLive = Layer.effect(
             UPDATE outbox
             SET
               retry_count = retry_count + 1,
-              next_retry_at = ${nextRetryDate}
+              next_retry_at = ${nextRetryDate},
+              attempt_history = attempt_history || ${JSON.stringify([attempt])}::jsonb
             WHERE id = ${eventId}
             RETURNING retry_count
           `
@@ -101,6 +104,107 @@ export const OutboxRepositoryLive = Layer.effect(
           })
 
           return { retryCount: newRetryCount }
+        }).pipe(Effect.orDie),
+
+      findById: (eventId: OutboxEventId) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OutboxRow>`
+            SELECT
+              id, aggregate_type, aggregate_id, event_type,
+              payload, status, created_at, processed_at,
+              retry_count, next_retry_at, attempt_history
+            FROM outbox
+            WHERE id = ${eventId}
+          `
+          return rows.length > 0 ? Option.some(rowToOutboxEvent(rows[0])) : Option.none()
+        }).pipe(Effect.orDie),
+
+      listByStatus: (status: OutboxEventStatus, limit: number) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OutboxRow>`
+            SELECT
+              id, aggregate_type, aggregate_id, event_type,
+              payload, status, created_at, processed_at,
+              retry_count, next_retry_at, attempt_history
+            FROM outbox
+            WHERE status = ${status}
+            ORDER BY created_at ASC
+            LIMIT ${limit}
+          `
+          return rows.map(rowToOutboxEvent)
+        }).pipe(Effect.orDie),
+
+      findByAggregateId: (aggregateId: string) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OutboxRow>`
+            SELECT
+              id, aggregate_type, aggregate_id, event_type,
+              payload, status, created_at, processed_at,
+              retry_count, next_retry_at, attempt_history
+            FROM outbox
+            WHERE aggregate_id = ${aggregateId}
+            ORDER BY created_at ASC
+          `
+          return rows.map(rowToOutboxEvent)
+        }).pipe(Effect.orDie),
+
+      resetForRetry: (eventId: OutboxEventId) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OutboxRow>`
+            UPDATE outbox
+            SET status = 'PENDING', next_retry_at = NULL, processed_at = NULL
+            WHERE id = ${eventId}
+              AND status IN ('PENDING', 'FAILED')
+            RETURNING
+              id, aggregate_type, aggregate_id, event_type,
+              payload, status, created_at, processed_at,
+              retry_count, next_retry_at, attempt_history
+          `
+
+          if (rows.length === 0) {
+            return Option.none()
+          }
+
+          // Wake the LISTEN loop so the event is picked up without waiting for the next poll
+          yield* sql`SELECT pg_notify('order_events', ${rows[0].event_type})`
+          yield* Effect.logDebug("Reset outbox event for immediate retry", { eventId })
+
+          return Option.some(rowToOutboxEvent(rows[0]))
+        }).pipe(Effect.orDie),
+
+      failPendingForAggregate: (aggregateId: string) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<{ id: string }>`
+            UPDATE outbox
+            SET status = 'FAILED', processed_at = NOW()
+            WHERE aggregate_id = ${aggregateId}
+              AND status = 'PENDING'
+            RETURNING id
+          `
+          yield* Effect.logDebug("Marked pending outbox events as failed", { aggregateId, count: rows.length })
+          return rows.length
+        }).pipe(Effect.orDie),
+
+      enqueue: (params: EnqueueEventParams) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<OutboxRow>`
+            INSERT INTO outbox (aggregate_type, aggregate_id, event_type, payload)
+            VALUES (
+              ${params.aggregateType}, ${params.aggregateId},
+              ${params.eventType}, ${JSON.stringify(params.payload)}::jsonb
+            )
+            RETURNING
+              id, aggregate_type, aggregate_id, event_type,
+              payload, status, created_at, processed_at,
+              retry_count, next_retry_at, attempt_history
+          `
+          yield* sql`SELECT pg_notify('order_events', ${params.eventType})`
+          yield* Effect.logDebug("Enqueued outbox event", {
+            eventId: rows[0].id,
+            aggregateId: params.aggregateId,
+            eventType: params.eventType
+          })
+          return rowToOutboxEvent(rows[0])
         }).pipe(Effect.orDie)
     }
   })
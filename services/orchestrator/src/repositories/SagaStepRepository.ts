@@ -0,0 +1,47 @@
+import { Clock, Context, Effect } from "effect"
+import type { OrderLedgerStatus } from "../domain/OrderLedger.js"
+import type { SagaStepName, SagaStepOutcome } from "../domain/SagaStepEvent.js"
+
+export interface RecordSagaStepParams {
+  readonly orderLedgerId: string
+  readonly stepName: SagaStepName
+  readonly outcome: SagaStepOutcome
+  readonly fromStatus: OrderLedgerStatus
+  // null when the step did not change the ledger status
+  readonly toStatus: OrderLedgerStatus | null
+  readonly attempt: number
+  readonly errorTag: string | null
+  readonly errorReason: string | null
+  readonly durationMs: number
+}
+
+export class SagaStepRepository extends Context.Tag("SagaStepRepository")<
+  SagaStepRepository,
+  {
+    /**
+     * Append a step to the saga_step_events audit trail.
+     * The trace ID is taken from the current span, if any.
+     * A failed write is logged and skipped, never failing the caller.
+     */
+    readonly record: (params: RecordSagaStepParams) => Effect.Effect<void>
+
+    /**
+     * Names of the steps that have ever succeeded for a ledger.
+     * Compensation retries use this to skip actions that already went through.
+     */
+    readonly findSucceededSteps: (orderLedgerId: string) => Effect.Effect<readonly SagaStepName[]>
+  }
+>() {}
+
+/**
+ * Record a step whose timing started at `startedAt` (Clock.currentTimeMillis).
+ */
+export const recordSagaStep = (
+  params: Omit<RecordSagaStepParams, "durationMs"> & { readonly startedAt: number }
+): Effect.Effect<void, never, SagaStepRepository> =>
+  Effect.gen(function* () {
+    const sagaStepRepo = yield* SagaStepRepository
+    const now = yield* Clock.currentTimeMillis
+    const { startedAt, ...step } = params
+    yield* sagaStepRepo.record({ ...step, durationMs: now - startedAt })
+  })
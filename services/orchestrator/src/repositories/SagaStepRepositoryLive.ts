@@ -0,0 +1,57 @@
+import { Layer, Effect, Option } from "effect"
+import { SqlClient } from "@effect/sql"
+import { SagaStepRepository, type RecordSagaStepParams } from "./SagaStepRepository.js"
+import type { SagaStepName } from "../domain/SagaStepEvent.js"
+
+export const SagaStepRepositoryLive = Layer.effect(
+  SagaStepRepository,
+  Effect.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+
+    return {
+      record: (params: RecordSagaStepParams) =>
+        Effect.gen(function* () {
+          const span = yield* Effect.option(Effect.currentSpan)
+          const traceId = Option.isSome(span) ? span.value.traceId : null
+
+          yield* sql`
+            INSERT INTO saga_step_events (
+              order_ledger_id, step_name, outcome, from_status, to_status,
+              attempt, error_tag, error_reason, duration_ms, trace_id
+            )
+            VALUES (
+              ${params.orderLedgerId}, ${params.stepName}, ${params.outcome},
+              ${params.fromStatus}, ${params.toStatus}, ${params.attempt},
+              ${params.errorTag}, ${params.errorReason}, ${Math.round(params.durationMs)}, ${traceId}
+            )
+          `
+          yield* Effect.logDebug("Recorded saga step", {
+            orderLedgerId: params.orderLedgerId,
+            stepName: params.stepName,
+            outcome: params.outcome
+          })
+        }).pipe(
+          // The history is an audit trail - losing an entry must not fail the step it describes
+          Effect.catchAll((error) =>
+            Effect.logWarning("Failed to record saga step", {
+              orderLedgerId: params.orderLedgerId,
+              stepName: params.stepName,
+              outcome: params.outcome,
+              error
+            })
+          )
+        ),
+
+      findSucceededSteps: (orderLedgerId: string) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<{ step_name: SagaStepName }>`
+            SELECT DISTINCT step_name
+            FROM saga_step_events
+            WHERE order_ledger_id = ${orderLedgerId}
+              AND outcome = 'SUCCEEDED'
+          `
+          return rows.map((row) => row.step_name)
+        }).pipe(Effect.orDie)
+    }
+  })
+)
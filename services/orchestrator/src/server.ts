@@ -0,0 +1,39 @@
+import { HttpRouter, HttpServer, HttpServerResponse } from "@effect/platform"
+import { NodeHttpServer } from "@effect/platform-node"
+import { Effect, Layer } from "effect"
+import { createServer } from "node:http"
+import { AdminRoutes } from "./api/admin.js"
+import { OrchestratorConfig } from "./config.js"
+
+// Root route - service identification
+const rootRoute = HttpRouter.empty.pipe(
+  HttpRouter.get(
+    "/",
+    Effect.succeed(
+      HttpServerResponse.text("Orchestrator Admin API - E-commerce Demo")
+    )
+  )
+)
+
+const router = HttpRouter.empty.pipe(
+  HttpRouter.mount("/", rootRoute),
+  HttpRouter.mount("/", AdminRoutes)
+)
+
+/**
+ * Operator-facing admin HTTP server.
+ * Runs alongside the saga loops; exposes inspection and manual recovery actions.
+ */
+export const AdminHttpLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const config = yield* OrchestratorConfig
+
+    return router.pipe(
+      HttpServer.serve(),
+      HttpServer.withLogAddress,
+      Layer.provide(
+        NodeHttpServer.layer(createServer, { port: config.adminPort })
+      )
+    )
+  })
+)
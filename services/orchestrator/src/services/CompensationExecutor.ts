@@ -1,11 +1,21 @@
 import { Context, Effect } from "effect"
-import type { OrderLedgerStatus } from "../domain/OrderLedger.js"
+import type { OrderLedgerPayment, OrderLedgerStatus } from "../domain/OrderLedger.js"
+import type { SagaStepName } from "../domain/SagaStepEvent.js"
 
 export interface CompensationContext {
   readonly orderLedgerId: string
   readonly orderId: string | null
   readonly paymentAuthorizationId: string | null
+  readonly paymentCaptureId: string | null
+  // Split-tender instruments; when present they replace the ledger-level authorization and capture
+  readonly payments?: readonly OrderLedgerPayment[]
+  // Value taken off the order by partial fulfilment; instruments it reduced to 0 were never captured
+  readonly unfulfilledAmountCents?: number
   readonly lastSuccessfulStatus: OrderLedgerStatus
+  // Steps that succeeded on an earlier attempt and are skipped this time
+  readonly completedSteps?: readonly SagaStepName[]
+  // 1-based attempt number, recorded in the step history
+  readonly attempt?: number
 }
 
 export interface CompensationCompleted {
@@ -19,6 +29,8 @@ export interface CompensationFailed {
   readonly orderLedgerId: string
   readonly stepsExecuted: readonly string[]
   readonly error: string
+  // One entry per failed step, e.g. "void_payment: PaymentVoidError"
+  readonly errors: readonly string[]
 }
 
 export type CompensationResult = CompensationCompleted | CompensationFailed
@@ -28,7 +40,8 @@ export class CompensationExecutor extends Context.Tag("CompensationExecutor")<
   {
     /**
      * Execute compensating actions based on the last successful saga step.
-     * Compensations run in reverse order: void payment → release inventory → cancel order
+     * Compensations run in reverse order: void or refund payment → release inventory → cancel order
+     * Split-tender instruments are voided or refunded last-authorized first.
      * All operations are idempotent - safe to retry.
      */
     readonly executeCompensation: (
@@ -1,5 +1,9 @@
-import { Layer, Effect } from "effect"
+import { Layer, Effect, Clock } from "effect"
 import { CompensationExecutor, type CompensationContext, type CompensationResult } from "./CompensationExecutor.js"
+import { SagaStepRepository, recordSagaStep } from "../repositories/SagaStepRepository.js"
+import type { SagaStepName } from "../domain/SagaStepEvent.js"
+import { captureAmounts, paymentIdempotencyKey } from "../domain/OrderLedger.js"
+import type { SagaCompensationError } from "../domain/errors.js"
 import { OrdersClient } from "../clients/OrdersClient.js"
 import { InventoryClient } from "../clients/InventoryClient.js"
 import { PaymentsClient } from "../clients/PaymentsClient.js"
@@ -10,39 +14,75 @@ export const CompensationExecutorLive = Layer.effect(
     const ordersClient = yield* OrdersClient
     const inventoryClient = yield* InventoryClient
     const paymentsClient = yield* PaymentsClient
+    const sagaStepRepo = yield* SagaStepRepository
 
     const executeCompensation = (ctx: CompensationContext): Effect.Effect<CompensationResult> =>
       Effect.gen(function* () {
         const stepsExecuted: string[] = []
         const errors: string[] = []
-        const { lastSuccessfulStatus, orderLedgerId, orderId, paymentAuthorizationId } = ctx
+        const { lastSuccessfulStatus, orderLedgerId, orderId, paymentAuthorizationId, paymentCaptureId } = ctx
+        const completedSteps = ctx.completedSteps ?? []
+        const attempt = ctx.attempt ?? 1
+        const payments = ctx.payments ?? []
+
+        // Audit trail entry for one compensation action (the ledger stays COMPENSATING)
+        const recordAction = (stepName: SagaStepName, startedAt: number, error?: SagaCompensationError) =>
+          recordSagaStep({
+            orderLedgerId,
+            stepName,
+            outcome: error ? "FAILED" : "SUCCEEDED",
+            fromStatus: "COMPENSATING",
+            toStatus: null,
+            attempt,
+            errorTag: error ? error._tag : null,
+            errorReason: error && "reason" in error ? error.reason : null,
+            startedAt
+          })
 
         yield* Effect.logInfo("Starting compensation", {
           orderLedgerId,
           lastSuccessfulStatus,
           orderId,
-          paymentAuthorizationId
+          paymentAuthorizationId,
+          paymentCaptureId,
+          attempt,
+          completedSteps
         })
 
-        // Determine required compensations based on last successful status
+        // Determine required compensations based on last successful status,
+        // skipping any that already succeeded on an earlier attempt.
+        // COMPLETED only reaches compensation through a customer cancellation
+        const paymentCaptured = lastSuccessfulStatus === "PAYMENT_CAPTURED" || lastSuccessfulStatus === "COMPLETED"
+
         const requiresPaymentVoid =
-          lastSuccessfulStatus !== "PAYMENT_CAPTURED" &&
-          paymentAuthorizationId !== null
+          payments.length === 0 &&
+          !paymentCaptured &&
+          paymentAuthorizationId !== null &&
+          !completedSteps.includes("void_payment")
+
+        // Once captured the authorization can no longer be voided - refund the capture instead
+        const requiresPaymentRefund =
+          payments.length === 0 &&
+          paymentCaptured &&
+          paymentCaptureId !== null &&
+          !completedSteps.includes("refund_payment")
 
         const requiresInventoryRelease =
-          lastSuccessfulStatus === "INVENTORY_RESERVED" ||
-          lastSuccessfulStatus === "PAYMENT_CAPTURED"
+          (lastSuccessfulStatus === "INVENTORY_RESERVED" || paymentCaptured) &&
+          !completedSteps.includes("release_inventory")
 
         const requiresOrderCancel =
           orderId !== null && (
             lastSuccessfulStatus === "ORDER_CREATED" ||
             lastSuccessfulStatus === "INVENTORY_RESERVED" ||
-            lastSuccessfulStatus === "PAYMENT_CAPTURED"
-          )
+            paymentCaptured
+          ) &&
+          !completedSteps.includes("cancel_order")
 
         // Step 1: Void payment authorization (if applicable and not already captured)
         if (requiresPaymentVoid) {
           yield* Effect.logInfo("Compensation: Voiding payment", { authorizationId: paymentAuthorizationId })
+          const startedAt = yield* Clock.currentTimeMillis
           yield* paymentsClient.voidPayment({
             authorizationId: paymentAuthorizationId!,
             idempotencyKey: `void-${orderLedgerId}`,
@@ -50,26 +90,131 @@ export const CompensationExecutorLive = Layer.effect(
           }).pipe(
             Effect.tap(() => {
               stepsExecuted.push("void_payment")
-              return Effect.logInfo("Compensation: Payment voided successfully", { authorizationId: paymentAuthorizationId })
+              return recordAction("void_payment", startedAt).pipe(
+                Effect.zipRight(Effect.logInfo("Compensation: Payment voided successfully", { authorizationId: paymentAuthorizationId }))
+              )
             }),
             Effect.catchAll((error) => {
               errors.push(`void_payment: ${error._tag}`)
-              return Effect.logError("Compensation: Failed to void payment", { error: error._tag, authorizationId: paymentAuthorizationId })
+              return recordAction("void_payment", startedAt, error).pipe(
+                Effect.zipRight(Effect.logError("Compensation: Failed to void payment", { error: error._tag, authorizationId: paymentAuthorizationId }))
+              )
+            })
+          )
+        }
+
+        // Step 1b: Refund captured payment (if applicable)
+        if (requiresPaymentRefund) {
+          yield* Effect.logInfo("Compensation: Refunding payment", { captureId: paymentCaptureId })
+          const startedAt = yield* Clock.currentTimeMillis
+          yield* paymentsClient.refundPayment({
+            captureId: paymentCaptureId!,
+            idempotencyKey: `refund-${orderLedgerId}`,
+            reason: "Saga compensation"
+          }).pipe(
+            Effect.tap(() => {
+              stepsExecuted.push("refund_payment")
+              return recordAction("refund_payment", startedAt).pipe(
+                Effect.zipRight(Effect.logInfo("Compensation: Payment refunded successfully", { captureId: paymentCaptureId }))
+              )
+            }),
+            Effect.catchAll((error) => {
+              errors.push(`refund_payment: ${error._tag}`)
+              return recordAction("refund_payment", startedAt, error).pipe(
+                Effect.zipRight(Effect.logError("Compensation: Failed to refund payment", { error: error._tag, captureId: paymentCaptureId }))
+              )
             })
           )
         }
 
+        // Step 1 (split tender): undo each instrument, last authorized first. A capture
+        // step that failed part-way leaves earlier instruments captured, so each one is
+        // refunded if it has a capture and voided otherwise. Partial fulfilment can
+        // leave an instrument with nothing to capture; its authorization is voided too.
+        const amounts = captureAmounts(payments, ctx.unfulfilledAmountCents ?? 0)
+        const capturedWithoutId = (payment: (typeof payments)[number]) =>
+          paymentCaptured && payment.paymentCaptureId === null && amounts[payments.indexOf(payment)] > 0
+        const instrumentActions = [...payments]
+          .sort((a, b) => b.sequence - a.sequence)
+          .flatMap((payment): Array<{ readonly stepName: SagaStepName; readonly payment: typeof payment }> => {
+            if (payment.paymentCaptureId !== null) {
+              return [{ stepName: "refund_payment", payment }]
+            }
+            // Captured without a recorded capture ID - warned about below
+            if (capturedWithoutId(payment) || payment.paymentAuthorizationId === null) {
+              return []
+            }
+            return [{ stepName: "void_payment", payment }]
+          })
+          .filter(({ stepName }) => !completedSteps.includes(stepName))
+
+        if (instrumentActions.length > 0) {
+          const startedAt = yield* Clock.currentTimeMillis
+          const failures = new Map<SagaStepName, SagaCompensationError>()
+
+          for (const { stepName, payment } of instrumentActions) {
+            const logContext = {
+              paymentId: payment.id,
+              sequence: payment.sequence,
+              authorizationId: payment.paymentAuthorizationId,
+              captureId: payment.paymentCaptureId
+            }
+            yield* Effect.logInfo("Compensation: Undoing payment instrument", { stepName, ...logContext })
+
+            const action: Effect.Effect<unknown, SagaCompensationError> = stepName === "refund_payment"
+              ? paymentsClient.refundPayment({
+                  captureId: payment.paymentCaptureId!,
+                  idempotencyKey: paymentIdempotencyKey("refund", orderLedgerId, payment.sequence),
+                  reason: "Saga compensation"
+                })
+              : paymentsClient.voidPayment({
+                  authorizationId: payment.paymentAuthorizationId!,
+                  idempotencyKey: paymentIdempotencyKey("void", orderLedgerId, payment.sequence),
+                  reason: "Saga compensation"
+                })
+
+            yield* action.pipe(
+              Effect.zipRight(Effect.logInfo("Compensation: Payment instrument undone", { stepName, ...logContext })),
+              Effect.catchAll((error) => {
+                failures.set(stepName, error)
+                return Effect.logError("Compensation: Failed to undo payment instrument", {
+                  stepName,
+                  error: error._tag,
+                  ...logContext
+                })
+              })
+            )
+          }
+
+          // One history entry per step; retries repeat only the instruments of a failed step
+          const stepNames = Array.from(new Set(instrumentActions.map(({ stepName }) => stepName)))
+          for (const stepName of stepNames) {
+            const error = failures.get(stepName)
+            if (error) {
+              errors.push(`${stepName}: ${error._tag}`)
+            } else {
+              stepsExecuted.push(stepName)
+            }
+            yield* recordAction(stepName, startedAt, error)
+          }
+        }
+
         // Step 2: Release inventory reservation (if applicable)
         if (requiresInventoryRelease && orderId) {
           yield* Effect.logInfo("Compensation: Releasing inventory", { orderId })
+          const startedAt = yield* Clock.currentTimeMillis
           yield* inventoryClient.releaseStock({ orderId }).pipe(
             Effect.tap(() => {
               stepsExecuted.push("release_inventory")
-              return Effect.logInfo("Compensation: Inventory released successfully", { orderId })
+              return recordAction("release_inventory", startedAt).pipe(
+                Effect.zipRight(Effect.logInfo("Compensation: Inventory released successfully", { orderId }))
+              )
             }),
             Effect.catchAll((error) => {
               errors.push(`release_inventory: ${error._tag}`)
-              return Effect.logError("Compensation: Failed to release inventory", { error: error._tag, orderId })
+              return recordAction("release_inventory", startedAt, error).pipe(
+                Effect.zipRight(Effect.logError("Compensation: Failed to release inventory", { error: error._tag, orderId }))
+              )
             })
           )
         }
@@ -77,25 +222,38 @@ export const CompensationExecutorLive = Layer.effect(
         // Step 3: Cancel order (if applicable)
         if (requiresOrderCancel && orderId) {
           yield* Effect.logInfo("Compensation: Cancelling order", { orderId })
+          const startedAt = yield* Clock.currentTimeMillis
           yield* ordersClient.cancelOrder(orderId).pipe(
             Effect.tap(() => {
               stepsExecuted.push("cancel_order")
-              return Effect.logInfo("Compensation: Order cancelled successfully", { orderId })
+              return recordAction("cancel_order", startedAt).pipe(
+                Effect.zipRight(Effect.logInfo("Compensation: Order cancelled successfully", { orderId }))
+              )
             }),
             Effect.catchAll((error) => {
               errors.push(`cancel_order: ${error._tag}`)
-              return Effect.logError("Compensation: Failed to cancel order", { error: error._tag, orderId })
+              return recordAction("cancel_order", startedAt, error).pipe(
+                Effect.zipRight(Effect.logError("Compensation: Failed to cancel order", { error: error._tag, orderId }))
+              )
             })
           )
         }
 
-        // If payment was already captured, log a warning about manual refund needed
-        if (lastSuccessfulStatus === "PAYMENT_CAPTURED") {
+        // Ledgers captured before the capture ID was recorded cannot be refunded automatically
+        if (paymentCaptured && payments.length === 0 && paymentCaptureId === null) {
           yield* Effect.logWarning(
-            "Payment was already captured - manual refund may be required",
+            "Payment was captured but no capture ID is recorded - manual refund required",
             { orderLedgerId, paymentAuthorizationId }
           )
         }
+        for (const payment of payments) {
+          if (capturedWithoutId(payment)) {
+            yield* Effect.logWarning(
+              "Payment instrument was captured but no capture ID is recorded - manual refund required",
+              { orderLedgerId, paymentId: payment.id, authorizationId: payment.paymentAuthorizationId }
+            )
+          }
+        }
 
         if (errors.length > 0) {
           yield* Effect.logError("Compensation completed with errors", {
@@ -107,7 +265,8 @@ export const CompensationExecutorLive = Layer.effect(
             _tag: "CompensationFailed" as const,
             orderLedgerId,
             stepsExecuted,
-            error: errors.join("; ")
+            error: errors.join("; "),
+            errors
           }
         }
 
@@ -120,7 +279,7 @@ export const CompensationExecutorLive = Layer.effect(
           orderLedgerId,
           stepsExecuted
         }
-      })
+      }).pipe(Effect.provideService(SagaStepRepository, sagaStepRepo))
 
     return { executeCompensation }
   })
@@ -0,0 +1,94 @@
+import { Context, Effect } from "effect"
+import type { OutboxEvent, OutboxEventId, OutboxEventStatus } from "../domain/OutboxEvent.js"
+import type { OrderLedger, OrderLedgerItem, OrderLedgerStatus } from "../domain/OrderLedger.js"
+import type { DeadLetter, DeadLetterId } from "../domain/DeadLetter.js"
+import type { CompensationResult } from "./CompensationExecutor.js"
+import type { ReplayResult } from "../repositories/DeadLetterRepository.js"
+import type {
+  LedgerNotFoundError,
+  OutboxEventNotFoundError,
+  EventNotRetryableError,
+  SagaNotCompensableError,
+  DeadLetterNotFoundError,
+  DeadLetterAlreadyReplayedError,
+  DeadLetterNotReplayableError
+} from "../domain/errors.js"
+
+export interface SagaView {
+  readonly ledger: OrderLedger
+  readonly items: readonly OrderLedgerItem[]
+  // Every outbox event for the ledger; retry_count / next_retry_at carry the retry history
+  readonly events: readonly OutboxEvent[]
+}
+
+export interface ManualCompensationResult {
+  readonly orderLedgerId: string
+  readonly previousStatus: OrderLedgerStatus
+  readonly finalStatus: OrderLedgerStatus
+  readonly compensation: CompensationResult
+  readonly eventsFailed: number
+}
+
+export class SagaAdmin extends Context.Tag("SagaAdmin")<
+  SagaAdmin,
+  {
+    /**
+     * List outbox events by status, oldest first.
+     */
+    readonly listEvents: (
+      status: OutboxEventStatus,
+      limit: number
+    ) => Effect.Effect<readonly OutboxEvent[]>
+
+    /**
+     * Ledger, items and outbox history for a single saga.
+     */
+    readonly getSaga: (orderLedgerId: string) => Effect.Effect<SagaView, LedgerNotFoundError>
+
+    /**
+     * Make a PENDING or FAILED event claimable immediately (clears next_retry_at).
+     */
+    readonly forceRetry: (
+      eventId: OutboxEventId
+    ) => Effect.Effect<OutboxEvent, OutboxEventNotFoundError | EventNotRetryableError>
+
+    /**
+     * Run compensation for a stuck saga via CompensationExecutor.
+     * The ledger is moved to COMPENSATING first so the saga loop will not resume it,
+     * then to FAILED once every compensation step succeeds - or CANCELLED when the
+     * compensation unwinds a customer cancellation. On partial failure the
+     * ledger moves to COMPENSATION_FAILED; the operator can trigger compensation again
+     * and steps that already succeeded are skipped.
+     */
+    readonly compensate: (
+      orderLedgerId: string
+    ) => Effect.Effect<ManualCompensationResult, LedgerNotFoundError | SagaNotCompensableError>
+
+    /**
+     * List dead letters, newest first. Replayed entries are hidden unless requested.
+     */
+    readonly listDeadLetters: (
+      includeReplayed: boolean,
+      limit: number
+    ) => Effect.Effect<readonly DeadLetter[]>
+
+    /**
+     * Single dead letter with its full attempt history and compensation errors.
+     */
+    readonly getDeadLetter: (id: DeadLetterId) => Effect.Effect<DeadLetter, DeadLetterNotFoundError>
+
+    /**
+     * Re-enqueue a dead letter into the outbox with a fresh retry budget.
+     * The saga resumes from the ledger's current status, so fix the root cause first.
+     * An OrderAuthorized dead letter whose saga was already handed off to compensation
+     * (e.g. after its retries ran out) is rejected - recover it through its
+     * CompensationRequested event or manual compensation instead.
+     */
+    readonly replayDeadLetter: (
+      id: DeadLetterId
+    ) => Effect.Effect<
+      ReplayResult,
+      DeadLetterNotFoundError | DeadLetterAlreadyReplayedError | DeadLetterNotReplayableError
+    >
+  }
+>() {}
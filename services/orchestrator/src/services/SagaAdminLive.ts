@@ -0,0 +1,251 @@
+import { Layer, Effect, Option, Clock } from "effect"
+import { SagaAdmin, type ManualCompensationResult, type SagaView } from "./SagaAdmin.js"
+import { CompensationExecutor } from "./CompensationExecutor.js"
+import { LedgerRepository } from "../repositories/LedgerRepository.js"
+import { OutboxRepository } from "../repositories/OutboxRepository.js"
+import { DeadLetterRepository } from "../repositories/DeadLetterRepository.js"
+import { SagaStepRepository, recordSagaStep } from "../repositories/SagaStepRepository.js"
+import type { OutboxEventId, OutboxEventStatus } from "../domain/OutboxEvent.js"
+import type { DeadLetterId } from "../domain/DeadLetter.js"
+import { unfulfilledAmountCents, type OrderLedgerId, type OrderLedgerStatus } from "../domain/OrderLedger.js"
+import { isHandedOffToCompensation, lastSuccessfulStatusFor } from "../domain/SagaState.js"
+import {
+  LedgerNotFoundError,
+  OutboxEventNotFoundError,
+  EventNotRetryableError,
+  SagaNotCompensableError,
+  DeadLetterNotFoundError,
+  DeadLetterAlreadyReplayedError,
+  DeadLetterNotReplayableError
+} from "../domain/errors.js"
+
+/**
+ * Ledger statuses an operator may compensate from.
+ * COMPENSATING and COMPENSATION_FAILED are included so a saga whose
+ * compensation stalled or ran out of retries can be re-driven, and
+ * CANCELLATION_REQUESTED so a cancellation nothing picked up can be finished.
+ */
+const COMPENSABLE_STATUSES: readonly OrderLedgerStatus[] = [
+  "AUTHORIZED",
+  "ORDER_CREATED",
+  "INVENTORY_RESERVED",
+  "PAYMENT_CAPTURED",
+  "COMPENSATING",
+  "COMPENSATION_FAILED",
+  "CANCELLATION_REQUESTED"
+]
+
+export const SagaAdminLive = Layer.effect(
+  SagaAdmin,
+  Effect.gen(function* () {
+    const ledgerRepo = yield* LedgerRepository
+    const outboxRepo = yield* OutboxRepository
+    const deadLetterRepo = yield* DeadLetterRepository
+    const compensationExecutor = yield* CompensationExecutor
+    const sagaStepRepo = yield* SagaStepRepository
+
+    return {
+      listEvents: (status: OutboxEventStatus, limit: number) =>
+        outboxRepo.listByStatus(status, limit),
+
+      getSaga: (orderLedgerId: string) =>
+        Effect.gen(function* () {
+          const result = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
+          if (Option.isNone(result)) {
+            return yield* Effect.fail(new LedgerNotFoundError({ orderLedgerId }))
+          }
+
+          const events = yield* outboxRepo.findByAggregateId(orderLedgerId)
+
+          return {
+            ledger: result.value.ledger,
+            items: result.value.items,
+            events
+          } satisfies SagaView
+        }),
+
+      forceRetry: (eventId: OutboxEventId) =>
+        Effect.gen(function* () {
+          const existing = yield* outboxRepo.findById(eventId)
+          if (Option.isNone(existing)) {
+            return yield* Effect.fail(new OutboxEventNotFoundError({ eventId }))
+          }
+
+          const reset = yield* outboxRepo.resetForRetry(eventId)
+          if (Option.isNone(reset)) {
+            return yield* Effect.fail(new EventNotRetryableError({
+              eventId,
+              status: existing.value.status
+            }))
+          }
+
+          yield* Effect.logInfo("Admin: forced outbox event retry", {
+            eventId,
+            previousStatus: existing.value.status,
+            retryCount: reset.value.retryCount
+          })
+
+          return reset.value
+        }),
+
+      compensate: (orderLedgerId: string) =>
+        Effect.gen(function* () {
+          const result = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
+          if (Option.isNone(result)) {
+            return yield* Effect.fail(new LedgerNotFoundError({ orderLedgerId }))
+          }
+
+          const { ledger, items } = result.value
+          if (!COMPENSABLE_STATUSES.includes(ledger.status)) {
+            return yield* Effect.fail(new SagaNotCompensableError({
+              orderLedgerId,
+              status: ledger.status
+            }))
+          }
+
+          yield* Effect.logWarning("Admin: manual compensation requested", {
+            orderLedgerId,
+            status: ledger.status
+          })
+
+          // Steps that already went through on an automatic attempt are skipped
+          const completedSteps = yield* sagaStepRepo.findSucceededSteps(orderLedgerId)
+
+          // A customer cancellation ends in CANCELLED, as on the automatic path
+          const isCancellation =
+            ledger.status === "CANCELLATION_REQUESTED" || completedSteps.includes("cancellation_requested")
+
+          // Park the ledger first - OrderAuthorized events treat COMPENSATING as terminal
+          const startedAt = yield* Clock.currentTimeMillis
+          if (ledger.status === "CANCELLATION_REQUESTED") {
+            yield* recordSagaStep({
+              orderLedgerId,
+              stepName: "cancellation_requested",
+              outcome: "SUCCEEDED",
+              fromStatus: ledger.status,
+              toStatus: null,
+              attempt: 1,
+              errorTag: null,
+              errorReason: null,
+              startedAt
+            })
+          }
+          if (ledger.status !== "COMPENSATING") {
+            yield* ledgerRepo.updateStatus(ledger.id, "COMPENSATING")
+            yield* recordSagaStep({
+              orderLedgerId,
+              stepName: "compensation_started",
+              outcome: "SUCCEEDED",
+              fromStatus: ledger.status,
+              toStatus: "COMPENSATING",
+              attempt: 1,
+              errorTag: "ManualCompensation",
+              errorReason: "Compensation requested by operator",
+              startedAt
+            })
+          }
+
+          const payments = yield* ledgerRepo.findPayments(ledger.id)
+          const compensation = yield* compensationExecutor.executeCompensation({
+            orderLedgerId,
+            orderId: ledger.orderId,
+            paymentAuthorizationId: ledger.paymentAuthorizationId,
+            paymentCaptureId: ledger.paymentCaptureId,
+            payments,
+            unfulfilledAmountCents: unfulfilledAmountCents(items),
+            lastSuccessfulStatus: lastSuccessfulStatusFor(ledger),
+            completedSteps
+          })
+
+          const finalStatus: OrderLedgerStatus =
+            compensation._tag === "CompensationFailed"
+              ? "COMPENSATION_FAILED"
+              : isCancellation ? "CANCELLED" : "FAILED"
+
+          yield* ledgerRepo.updateStatus(ledger.id, finalStatus)
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "compensation_finished",
+            outcome: compensation._tag === "CompensationCompleted" ? "SUCCEEDED" : "FAILED",
+            fromStatus: "COMPENSATING",
+            toStatus: finalStatus,
+            attempt: 1,
+            errorTag: null,
+            errorReason: compensation._tag === "CompensationFailed" ? compensation.error : null,
+            startedAt
+          })
+
+          const eventsFailed = yield* outboxRepo.failPendingForAggregate(orderLedgerId)
+
+          yield* Effect.logInfo("Admin: manual compensation finished", {
+            orderLedgerId,
+            result: compensation._tag,
+            stepsExecuted: compensation.stepsExecuted,
+            finalStatus,
+            eventsFailed
+          })
+
+          return {
+            orderLedgerId,
+            previousStatus: ledger.status,
+            finalStatus,
+            compensation,
+            eventsFailed
+          } satisfies ManualCompensationResult
+        }).pipe(Effect.provideService(SagaStepRepository, sagaStepRepo)),
+
+      listDeadLetters: (includeReplayed: boolean, limit: number) =>
+        deadLetterRepo.list(includeReplayed, limit),
+
+      getDeadLetter: (id: DeadLetterId) =>
+        Effect.gen(function* () {
+          const deadLetter = yield* deadLetterRepo.findById(id)
+          if (Option.isNone(deadLetter)) {
+            return yield* Effect.fail(new DeadLetterNotFoundError({ deadLetterId: id }))
+          }
+          return deadLetter.value
+        }),
+
+      replayDeadLetter: (id: DeadLetterId) =>
+        Effect.gen(function* () {
+          const existing = yield* deadLetterRepo.findById(id)
+          if (Option.isNone(existing)) {
+            return yield* Effect.fail(new DeadLetterNotFoundError({ deadLetterId: id }))
+          }
+
+          // The executor treats OrderAuthorized for a compensating or unwound saga as
+          // terminal, so the replayed event would just be dead-lettered again
+          if (existing.value.eventType === "OrderAuthorized") {
+            const orderLedgerId = existing.value.aggregateId
+            const saga = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
+            if (Option.isSome(saga) && isHandedOffToCompensation(saga.value.ledger.status)) {
+              return yield* Effect.fail(new DeadLetterNotReplayableError({
+                deadLetterId: id,
+                orderLedgerId,
+                status: saga.value.ledger.status
+              }))
+            }
+          }
+
+          const replayed = yield* deadLetterRepo.replay(id)
+          if (Option.isNone(replayed)) {
+            // Lost the race or already replayed - re-read for the winning event id
+            const current = yield* deadLetterRepo.findById(id)
+            return yield* Effect.fail(new DeadLetterAlreadyReplayedError({
+              deadLetterId: id,
+              replayedEventId: Option.isSome(current) ? current.value.replayedEventId : null
+            }))
+          }
+
+          yield* Effect.logWarning("Admin: dead letter replayed", {
+            deadLetterId: id,
+            aggregateId: replayed.value.deadLetter.aggregateId,
+            reason: replayed.value.deadLetter.reason,
+            newEventId: replayed.value.event.id
+          })
+
+          return replayed.value
+        })
+    }
+  })
+)
@@ -1,5 +1,5 @@
 import { Context, Effect, DateTime } from "effect"
-import type { OutboxEvent } from "../domain/OutboxEvent.js"
+import type { OutboxEvent, OutboxEventId } from "../domain/OutboxEvent.js"
 
 export interface SagaCompleted {
   readonly _tag: "Completed"
@@ -12,6 +12,7 @@ export interface SagaFailed {
   readonly orderLedgerId: string
   readonly finalStatus: string
   readonly error: string
+  readonly errorTag: string
 }
 
 export interface SagaRequiresRetry {
@@ -25,25 +26,68 @@ export interface SagaRequiresRetry {
   readonly isLastAttempt: boolean
 }
 
+// Forward saga gave up or was cancelled; a CompensationRequested event now owns the ledger
+export interface SagaCompensationScheduled {
+  readonly _tag: "CompensationScheduled"
+  readonly orderLedgerId: string
+  readonly finalStatus: "COMPENSATING"
+  readonly compensationEventId: OutboxEventId
+  // Why compensation was triggered and the step error that caused it
+  readonly failureReason: "permanent_failure" | "max_retries_exceeded" | "cancellation_requested"
+  readonly errorTag: string
+  readonly errorReason: string | null
+}
+
+// Every compensation step has succeeded (CompensationRequested events only)
 export interface SagaCompensated {
   readonly _tag: "Compensated"
   readonly orderLedgerId: string
-  readonly finalStatus: "FAILED"
+  // CANCELLED when the compensation unwound a customer cancellation
+  readonly finalStatus: "FAILED" | "CANCELLED"
+  // Steps executed on this attempt; earlier attempts are in the step history
+  readonly compensationSteps: readonly string[]
+}
+
+// Compensation retries exhausted (CompensationRequested events only)
+export interface SagaCompensationFailed {
+  readonly _tag: "CompensationFailed"
+  readonly orderLedgerId: string
+  readonly finalStatus: "COMPENSATION_FAILED"
   readonly compensationSteps: readonly string[]
+  readonly error: string
+  // One entry per failed step, e.g. "void_payment: PaymentVoidError"
+  readonly compensationErrors: readonly string[]
+}
+
+// The event's work is already owned by another event - e.g. a CancellationRequested
+// event the forward saga picked up first - so there is nothing to do
+export interface SagaSkipped {
+  readonly _tag: "Skipped"
+  readonly orderLedgerId: string
+  readonly finalStatus: string
+  readonly reason: string
 }
 
 export type SagaExecutionResult =
   | SagaCompleted
   | SagaFailed
   | SagaRequiresRetry
+  | SagaCompensationScheduled
   | SagaCompensated
+  | SagaCompensationFailed
+  | SagaSkipped
 
 export class SagaExecutor extends Context.Tag("SagaExecutor")<
   SagaExecutor,
   {
     /**
      * Execute the saga for an outbox event.
-     * Processes from current ledger status to COMPLETED.
+     * OrderAuthorized events process from the current ledger status to COMPLETED,
+     * handing off to a CompensationRequested event on failure or when the customer has
+     * asked to cancel. CompensationRequested events unwind the saga, retrying failed
+     * steps with the compensation retry policy. CancellationRequested events hand a
+     * cancelled order off to compensation, unless a pending OrderAuthorized event or
+     * an earlier copy of the event already does.
      * Returns result indicating success, failure, or need for retry/compensation.
      */
     readonly executeSaga: (event: OutboxEvent) => Effect.Effect<SagaExecutionResult>
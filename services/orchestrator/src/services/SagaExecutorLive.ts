@@ -1,15 +1,43 @@
-import { Layer, Effect, Option, Schema, DateTime } from "effect"
-import { SagaExecutor, type SagaExecutionResult, type SagaCompleted, type SagaFailed, type SagaRequiresRetry, type SagaCompensated } from "./SagaExecutor.js"
+import { Layer, Effect, Option, Schema, DateTime, Clock, Match } from "effect"
+import {
+  SagaExecutor,
+  type SagaExecutionResult,
+  type SagaCompleted,
+  type SagaFailed,
+  type SagaRequiresRetry,
+  type SagaCompensationScheduled,
+  type SagaCompensated,
+  type SagaCompensationFailed,
+  type SagaSkipped
+} from "./SagaExecutor.js"
 import { CompensationExecutor } from "./CompensationExecutor.js"
 import { LedgerRepository } from "../repositories/LedgerRepository.js"
 import { OutboxRepository } from "../repositories/OutboxRepository.js"
+import { SagaStepRepository, recordSagaStep } from "../repositories/SagaStepRepository.js"
 import { OrdersClient } from "../clients/OrdersClient.js"
-import { InventoryClient } from "../clients/InventoryClient.js"
+import { InventoryClient, type ReservationShortfall } from "../clients/InventoryClient.js"
 import { PaymentsClient } from "../clients/PaymentsClient.js"
 import { OrchestratorConfig } from "../config.js"
-import { OutboxEvent, OrderAuthorizedPayload, type OutboxEventId } from "../domain/OutboxEvent.js"
-import type { OrderLedger, OrderLedgerItem, OrderLedgerId, OrderLedgerStatus } from "../domain/OrderLedger.js"
-import { InvalidPayloadError, type SagaStepError } from "../domain/errors.js"
+import {
+  OutboxEvent,
+  OrderAuthorizedPayload,
+  CompensationRequestedPayload,
+  CancellationRequestedPayload,
+  type OutboxEventId
+} from "../domain/OutboxEvent.js"
+import {
+  applyShortfalls,
+  captureAmounts,
+  paymentIdempotencyKey,
+  unfulfilledAmountCents,
+  type OrderLedger,
+  type OrderLedgerItem,
+  type OrderLedgerId,
+  type OrderLedgerStatus
+} from "../domain/OrderLedger.js"
+import type { SagaStepName } from "../domain/SagaStepEvent.js"
+import { isHandedOffToCompensation, lastSuccessfulStatusFor } from "../domain/SagaState.js"
+import { InvalidPayloadError, PaymentCaptureError, type SagaStepError } from "../domain/errors.js"
 import {
   calculateNextRetryAt,
   isMaxRetriesExceeded,
@@ -17,44 +45,167 @@ import {
 } from "../domain/RetryPolicy.js"
 
 type StepResult =
-  | { readonly _tag: "StepSuccess"; readonly orderId?: string }
+  | {
+      readonly _tag: "StepSuccess"
+      readonly orderId?: string
+      readonly captureId?: string
+      readonly shortfalls?: readonly ReservationShortfall[]
+    }
   | { readonly _tag: "StepFailed"; readonly result: SagaExecutionResult }
 
+interface ScheduleCompensationParams {
+  readonly orderLedgerId: string
+  // Ledger status being left for COMPENSATING
+  readonly fromStatus: OrderLedgerStatus
+  readonly lastSuccessfulStatus: OrderLedgerStatus
+  readonly failureReason: SagaCompensationScheduled["failureReason"]
+  readonly errorTag: string
+  readonly errorReason: string | null
+  readonly attempt: number
+}
+
+/**
+ * Park the ledger in COMPENSATING and hand off to a CompensationRequested event,
+ * which retries failed compensation steps with its own backoff.
+ */
+const scheduleCompensation = (
+  params: ScheduleCompensationParams
+): Effect.Effect<SagaCompensationScheduled, never, LedgerRepository | OutboxRepository | SagaStepRepository> =>
+  Effect.gen(function* () {
+    const { orderLedgerId, fromStatus, lastSuccessfulStatus, failureReason, errorTag, errorReason, attempt } = params
+    const ledgerRepo = yield* LedgerRepository
+    const outboxRepo = yield* OutboxRepository
+
+    const startedAt = yield* Clock.currentTimeMillis
+    yield* ledgerRepo.updateStatus(orderLedgerId as OrderLedgerId, "COMPENSATING")
+    const compensationEvent = yield* outboxRepo.enqueue({
+      aggregateType: "OrderLedger",
+      aggregateId: orderLedgerId,
+      eventType: "CompensationRequested",
+      payload: {
+        order_ledger_id: orderLedgerId,
+        last_successful_status: lastSuccessfulStatus,
+        failure_reason: failureReason,
+        error_tag: errorTag,
+        error_reason: errorReason
+      } satisfies typeof CompensationRequestedPayload.Encoded
+    })
+    yield* recordSagaStep({
+      orderLedgerId,
+      stepName: "compensation_started",
+      outcome: "SUCCEEDED",
+      fromStatus,
+      toStatus: "COMPENSATING",
+      attempt,
+      errorTag,
+      errorReason,
+      startedAt
+    })
+
+    return {
+      _tag: "CompensationScheduled",
+      orderLedgerId,
+      finalStatus: "COMPENSATING",
+      compensationEventId: compensationEvent.id,
+      failureReason,
+      errorTag,
+      errorReason
+    } satisfies SagaCompensationScheduled
+  })
+
+/**
+ * Stop the forward saga for a customer cancellation and unwind from the given step.
+ */
+const scheduleCancellation = (
+  orderLedgerId: string,
+  lastSuccessfulStatus: OrderLedgerStatus,
+  attempt: number
+): Effect.Effect<SagaCompensationScheduled, never, LedgerRepository | OutboxRepository | SagaStepRepository> =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo("Cancellation requested - handing saga off to compensation", {
+      orderLedgerId,
+      lastSuccessfulStatus
+    })
+
+    // Lets a later manual compensation tell a cancellation from a failure
+    yield* recordSagaStep({
+      orderLedgerId,
+      stepName: "cancellation_requested",
+      outcome: "SUCCEEDED",
+      fromStatus: "CANCELLATION_REQUESTED",
+      toStatus: null,
+      attempt,
+      errorTag: null,
+      errorReason: null,
+      startedAt: yield* Clock.currentTimeMillis
+    })
+
+    return yield* scheduleCompensation({
+      orderLedgerId,
+      fromStatus: "CANCELLATION_REQUESTED",
+      lastSuccessfulStatus,
+      failureReason: "cancellation_requested",
+      errorTag: "CancellationRequested",
+      errorReason: null,
+      attempt
+    })
+  })
+
 interface HandleStepErrorParams {
   readonly eventId: OutboxEventId
   readonly orderLedgerId: string
   readonly currentStatus: OrderLedgerStatus
-  readonly orderId: string | null
-  readonly paymentAuthorizationId: string | null
   readonly error: SagaStepError
   readonly currentRetryCount: number
   readonly retryPolicy: RetryPolicy
+  readonly stepName: SagaStepName
+  readonly startedAt: number
 }
 
 const handleStepError = (
   params: HandleStepErrorParams
-): Effect.Effect<StepResult, never, CompensationExecutor | LedgerRepository | OutboxRepository> =>
+): Effect.Effect<StepResult, never, LedgerRepository | OutboxRepository | SagaStepRepository> =>
   Effect.gen(function* () {
     const {
       eventId,
       orderLedgerId,
       currentStatus,
-      orderId,
-      paymentAuthorizationId,
       error,
       currentRetryCount,
-      retryPolicy
+      retryPolicy,
+      stepName,
+      startedAt
     } = params
 
     const isRetryable = "isRetryable" in error && error.isRetryable
+    const willRetry = isRetryable && !isMaxRetriesExceeded(currentRetryCount, retryPolicy.maxAttempts)
+    const attempt = currentRetryCount + 1
+    const errorReason = "reason" in error ? error.reason : null
+
+    yield* recordSagaStep({
+      orderLedgerId,
+      stepName,
+      outcome: willRetry ? "RETRY_SCHEDULED" : "FAILED",
+      fromStatus: currentStatus,
+      toStatus: null,
+      attempt,
+      errorTag: error._tag,
+      errorReason,
+      startedAt
+    })
 
-    if (isRetryable && !isMaxRetriesExceeded(currentRetryCount, retryPolicy.maxAttempts)) {
+    if (willRetry) {
       // Schedule retry via outbox
       const outboxRepo = yield* OutboxRepository
       const nextAttemptNumber = currentRetryCount + 2 // +1 for increment, +1 for next attempt
       const nextRetryAt = calculateNextRetryAt(nextAttemptNumber, retryPolicy)
 
-      const { retryCount: newRetryCount } = yield* outboxRepo.scheduleRetry(eventId, nextRetryAt)
+      const { retryCount: newRetryCount } = yield* outboxRepo.scheduleRetry(eventId, nextRetryAt, {
+        attempt,
+        error_tag: error._tag,
+        error_reason: errorReason,
+        failed_at: DateTime.formatIso(yield* DateTime.now)
+      })
 
       yield* Effect.logWarning("Saga step failed - scheduled retry", {
         orderLedgerId,
@@ -81,10 +232,10 @@ const handleStepError = (
       } satisfies StepResult
     }
 
-    // Permanent failure OR max retries exceeded - execute compensation
-    const failureReason = isRetryable ? "max_retries_exceeded" : "permanent_failure"
+    // Permanent failure OR max retries exceeded - schedule compensation
+    const failureReason: SagaCompensationScheduled["failureReason"] = isRetryable ? "max_retries_exceeded" : "permanent_failure"
 
-    yield* Effect.logError("Saga step failed - starting compensation", {
+    yield* Effect.logError("Saga step failed - scheduling compensation", {
       orderLedgerId,
       eventId,
       errorType: error._tag,
@@ -94,32 +245,17 @@ const handleStepError = (
       lastSuccessfulStatus: currentStatus
     })
 
-    const ledgerRepo = yield* LedgerRepository
-    const compensationExecutor = yield* CompensationExecutor
-
-    // Transition ledger to COMPENSATING
-    yield* ledgerRepo.updateStatus(orderLedgerId as OrderLedgerId, "COMPENSATING")
-
-    // Execute compensation
-    const compensationResult = yield* compensationExecutor.executeCompensation({
+    const result = yield* scheduleCompensation({
       orderLedgerId,
-      orderId,
-      paymentAuthorizationId,
-      lastSuccessfulStatus: currentStatus
+      fromStatus: currentStatus,
+      lastSuccessfulStatus: currentStatus,
+      failureReason,
+      errorTag: error._tag,
+      errorReason,
+      attempt
     })
 
-    // Transition ledger to FAILED
-    yield* ledgerRepo.updateStatus(orderLedgerId as OrderLedgerId, "FAILED")
-
-    return {
-      _tag: "StepFailed",
-      result: {
-        _tag: "Compensated",
-        orderLedgerId,
-        finalStatus: "FAILED",
-        compensationSteps: compensationResult.stepsExecuted
-      } satisfies SagaCompensated
-    } satisfies StepResult
+    return { _tag: "StepFailed", result } satisfies StepResult
   })
 
 export const SagaExecutorLive = Layer.effect(
@@ -131,6 +267,7 @@ export const SagaExecutorLive = Layer.effect(
     const inventoryClient = yield* InventoryClient
     const paymentsClient = yield* PaymentsClient
     const compensationExecutor = yield* CompensationExecutor
+    const sagaStepRepo = yield* SagaStepRepository
     const config = yield* OrchestratorConfig
 
     // Build retry policy from config
@@ -140,6 +277,13 @@ export const SagaExecutorLive = Layer.effect(
       backoffMultiplier: config.retryBackoffMultiplier
     }
 
+    // Compensation retries get their own, longer budget - giving up leaves funds or stock held
+    const compensationRetryPolicy: RetryPolicy = {
+      maxAttempts: config.compensationMaxRetryAttempts,
+      baseDelayMs: config.compensationRetryBaseDelayMs,
+      backoffMultiplier: config.compensationRetryBackoffMultiplier
+    }
+
     const executeSagaSteps = (
       event: OutboxEvent,
       ledger: OrderLedger,
@@ -152,8 +296,15 @@ export const SagaExecutorLive = Layer.effect(
         const paymentAuthorizationId = payload.payment_authorization_id
         let currentStatus = ledger.status
         let orderId: string | null = ledger.orderId
+        // Carries the fulfilled quantities from step 2 into step 3 of the same attempt
+        let ledgerItems = items
         const currentRetryCount = event.retryCount  // Retry count from outbox, not ledger
 
+        // The customer cancelled before this attempt started
+        if (currentStatus === "CANCELLATION_REQUESTED") {
+          return yield* scheduleCancellation(orderLedgerId, lastSuccessfulStatusFor(ledger), currentRetryCount + 1)
+        }
+
         // Step 1: Create Order (if not already created)
         if (currentStatus === "AUTHORIZED") {
           yield* Effect.logInfo("Executing Step 1: Create Order", {
@@ -161,6 +312,7 @@ export const SagaExecutorLive = Layer.effect(
             attempt: currentRetryCount + 1
           })
 
+          const startedAt = yield* Clock.currentTimeMillis
           const stepResult = yield* ordersClient.createOrder({
             orderLedgerId,
             userId: payload.user_id,
@@ -180,11 +332,11 @@ export const SagaExecutorLive = Layer.effect(
               eventId,
               orderLedgerId,
               currentStatus,
-              orderId,
-              paymentAuthorizationId,
               error,
               currentRetryCount,
-              retryPolicy
+              retryPolicy,
+              stepName: "create_order",
+              startedAt
             }))
           )
 
@@ -193,7 +345,21 @@ export const SagaExecutorLive = Layer.effect(
           }
 
           orderId = stepResult.orderId!
-          yield* ledgerRepo.updateStatusWithOrderId(orderLedgerId as OrderLedgerId, "ORDER_CREATED", orderId)
+          const updated = yield* ledgerRepo.updateStatusWithOrderId(orderLedgerId as OrderLedgerId, "ORDER_CREATED", orderId)
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "create_order",
+            outcome: "SUCCEEDED",
+            fromStatus: "AUTHORIZED",
+            toStatus: "ORDER_CREATED",
+            attempt: currentRetryCount + 1,
+            errorTag: null,
+            errorReason: null,
+            startedAt
+          })
+          if (updated.status === "CANCELLATION_REQUESTED") {
+            return yield* scheduleCancellation(orderLedgerId, "ORDER_CREATED", currentRetryCount + 1)
+          }
           currentStatus = "ORDER_CREATED"
           yield* Effect.logInfo("Step 1 completed: Order created", { orderLedgerId, orderId })
         }
@@ -206,23 +372,26 @@ export const SagaExecutorLive = Layer.effect(
             attempt: currentRetryCount + 1
           })
 
+          const startedAt = yield* Clock.currentTimeMillis
           const stepResult = yield* inventoryClient.reserveStock({
             orderId: orderId!,
             items: items.map((item) => ({
               productId: item.productId,
               quantity: item.quantity
-            }))
+            })),
+            destination: payload.shipping_destination,
+            allowPartial: payload.allow_partial
           }).pipe(
-            Effect.map((): StepResult => ({ _tag: "StepSuccess" })),
+            Effect.map((result): StepResult => ({ _tag: "StepSuccess", shortfalls: result.shortfalls })),
             Effect.catchAll((error) => handleStepError({
               eventId,
               orderLedgerId,
               currentStatus,
-              orderId,
-              paymentAuthorizationId,
               error,
               currentRetryCount,
-              retryPolicy
+              retryPolicy,
+              stepName: "reserve_inventory",
+              startedAt
             }))
           )
 
@@ -230,7 +399,74 @@ export const SagaExecutorLive = Layer.effect(
             return stepResult.result
           }
 
-          yield* ledgerRepo.updateStatus(orderLedgerId as OrderLedgerId, "INVENTORY_RESERVED")
+          // Partial fulfilment: reduce the order to what was reserved before any money is taken.
+          // A retry reserves idempotently and gets the same shortfalls back, and the
+          // adjustment is idempotent on the Orders side.
+          const shortfalls = stepResult.shortfalls ?? []
+          if (shortfalls.length > 0) {
+            yield* Effect.logInfo("Reserved part of the order - adjusting order items", {
+              orderLedgerId,
+              orderId,
+              shortProducts: shortfalls.length
+            })
+
+            const adjustStartedAt = yield* Clock.currentTimeMillis
+            const adjustResult = yield* ordersClient.adjustOrder({
+              orderId: orderId!,
+              items: shortfalls.map((shortfall) => ({
+                productId: shortfall.productId,
+                quantity: shortfall.reservedQuantity
+              }))
+            }).pipe(
+              Effect.map((): StepResult => ({ _tag: "StepSuccess" })),
+              Effect.catchAll((error) => handleStepError({
+                eventId,
+                orderLedgerId,
+                currentStatus,
+                error,
+                currentRetryCount,
+                retryPolicy,
+                stepName: "adjust_order",
+                startedAt: adjustStartedAt
+              }))
+            )
+
+            if (adjustResult._tag === "StepFailed") {
+              return adjustResult.result
+            }
+
+            ledgerItems = applyShortfalls(items, shortfalls)
+            yield* ledgerRepo.recordFulfilledQuantities(
+              ledgerItems.filter((item) => item.fulfilledQuantity !== null)
+            )
+            yield* recordSagaStep({
+              orderLedgerId,
+              stepName: "adjust_order",
+              outcome: "SUCCEEDED",
+              fromStatus: "ORDER_CREATED",
+              toStatus: null,
+              attempt: currentRetryCount + 1,
+              errorTag: null,
+              errorReason: null,
+              startedAt: adjustStartedAt
+            })
+          }
+
+          const updated = yield* ledgerRepo.advanceStatus(orderLedgerId as OrderLedgerId, "INVENTORY_RESERVED")
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "reserve_inventory",
+            outcome: "SUCCEEDED",
+            fromStatus: "ORDER_CREATED",
+            toStatus: "INVENTORY_RESERVED",
+            attempt: currentRetryCount + 1,
+            errorTag: null,
+            errorReason: null,
+            startedAt
+          })
+          if (updated.status === "CANCELLATION_REQUESTED") {
+            return yield* scheduleCancellation(orderLedgerId, "INVENTORY_RESERVED", currentRetryCount + 1)
+          }
           currentStatus = "INVENTORY_RESERVED"
           yield* Effect.logInfo("Step 2 completed: Inventory reserved", { orderLedgerId })
         }
@@ -242,33 +478,142 @@ export const SagaExecutorLive = Layer.effect(
             attempt: currentRetryCount + 1
           })
 
-          const stepResult = yield* paymentsClient.capturePayment({
-            authorizationId: paymentAuthorizationId,
-            idempotencyKey: `capture-${orderLedgerId}`
-          }).pipe(
+          // Hold the reservation before taking the money: once captured, the
+          // stock must not be swept on expiry. If it already expired, fail
+          // here while compensation is still just a void.
+          const extendStartedAt = yield* Clock.currentTimeMillis
+          const extendResult = yield* inventoryClient.extendReservation({ orderId: orderId! }).pipe(
             Effect.map((): StepResult => ({ _tag: "StepSuccess" })),
             Effect.catchAll((error) => handleStepError({
               eventId,
               orderLedgerId,
               currentStatus,
-              orderId,
-              paymentAuthorizationId,
               error,
               currentRetryCount,
-              retryPolicy
+              retryPolicy,
+              stepName: "extend_reservation",
+              startedAt: extendStartedAt
             }))
           )
 
-          if (stepResult._tag === "StepFailed") {
-            return stepResult.result
+          if (extendResult._tag === "StepFailed") {
+            return extendResult.result
           }
 
-          yield* ledgerRepo.updateStatus(orderLedgerId as OrderLedgerId, "PAYMENT_CAPTURED")
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "extend_reservation",
+            outcome: "SUCCEEDED",
+            fromStatus: "INVENTORY_RESERVED",
+            toStatus: null,
+            attempt: currentRetryCount + 1,
+            errorTag: null,
+            errorReason: null,
+            startedAt: extendStartedAt
+          })
+
+          // Split tender captures every instrument; ledgers from before it carry one authorization
+          const payments = yield* ledgerRepo.findPayments(orderLedgerId as OrderLedgerId)
+          const instruments = payments.length > 0
+            ? payments.map((payment) => ({
+                paymentId: payment.id as string | null,
+                sequence: payment.sequence,
+                authorizationId: payment.paymentAuthorizationId!,
+                captureId: payment.paymentCaptureId,
+                amountCents: payment.amountCents
+              }))
+            : [{
+                paymentId: null,
+                sequence: 0,
+                authorizationId: paymentAuthorizationId,
+                captureId: null,
+                amountCents: payload.total_amount_cents
+              }]
+
+          // A partly fulfilled order captures only the reduced total (partial capture);
+          // the rest of each authorization is left to expire
+          const reductionCents = unfulfilledAmountCents(ledgerItems)
+          const amounts = captureAmounts(instruments, reductionCents)
+
+          const startedAt = yield* Clock.currentTimeMillis
+          let primaryCaptureId: string | null = null
+
+          for (const [index, instrument] of instruments.entries()) {
+            // Captured on an earlier attempt - the failure came from a later instrument
+            if (instrument.captureId !== null) {
+              primaryCaptureId = instrument.captureId
+              continue
+            }
+
+            // The whole instrument was taken off by partial fulfilment
+            if (amounts[index] === 0) {
+              continue
+            }
+
+            const stepResult = yield* paymentsClient.capturePayment({
+              authorizationId: instrument.authorizationId,
+              idempotencyKey: paymentIdempotencyKey("capture", orderLedgerId, instrument.sequence),
+              ...(reductionCents > 0 ? { amountCents: amounts[index] } : {})
+            }).pipe(
+              // Money taken in another currency does not settle the ledger total - unwind the order
+              Effect.filterOrFail(
+                (result) => result.currency === payload.currency,
+                (result) => new PaymentCaptureError({
+                  authorizationId: instrument.authorizationId,
+                  reason: `Captured in ${result.currency}, expected ${payload.currency}`,
+                  isRetryable: false
+                })
+              ),
+              Effect.map((result): StepResult => ({
+                _tag: "StepSuccess",
+                captureId: result.captureId
+              })),
+              Effect.catchAll((error) => handleStepError({
+                eventId,
+                orderLedgerId,
+                currentStatus,
+                error,
+                currentRetryCount,
+                retryPolicy,
+                stepName: "capture_payment",
+                startedAt
+              }))
+            )
+
+            if (stepResult._tag === "StepFailed") {
+              return stepResult.result
+            }
+
+            if (instrument.paymentId !== null) {
+              yield* ledgerRepo.recordPaymentCapture(instrument.paymentId, stepResult.captureId!)
+            }
+            primaryCaptureId = stepResult.captureId!
+          }
+
+          const updated = yield* ledgerRepo.updateStatusWithCaptureId(
+            orderLedgerId as OrderLedgerId,
+            "PAYMENT_CAPTURED",
+            primaryCaptureId!
+          )
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "capture_payment",
+            outcome: "SUCCEEDED",
+            fromStatus: "INVENTORY_RESERVED",
+            toStatus: "PAYMENT_CAPTURED",
+            attempt: currentRetryCount + 1,
+            errorTag: null,
+            errorReason: null,
+            startedAt
+          })
+          if (updated.status === "CANCELLATION_REQUESTED") {
+            return yield* scheduleCancellation(orderLedgerId, "PAYMENT_CAPTURED", currentRetryCount + 1)
+          }
           currentStatus = "PAYMENT_CAPTURED"
           yield* Effect.logInfo("Step 3 completed: Payment captured", { orderLedgerId })
         }
 
-        // Step 4: Confirm Order (final step)
+        // Step 4: Confirm Order
         if (currentStatus === "PAYMENT_CAPTURED") {
           yield* Effect.logInfo("Executing Step 4: Confirm Order", {
             orderLedgerId,
@@ -276,17 +621,18 @@ export const SagaExecutorLive = Layer.effect(
             attempt: currentRetryCount + 1
           })
 
+          const startedAt = yield* Clock.currentTimeMillis
           const stepResult = yield* ordersClient.confirmOrder(orderId!).pipe(
             Effect.map((): StepResult => ({ _tag: "StepSuccess" })),
             Effect.catchAll((error) => handleStepError({
               eventId,
               orderLedgerId,
               currentStatus,
-              orderId,
-              paymentAuthorizationId,
               error,
               currentRetryCount,
-              retryPolicy
+              retryPolicy,
+              stepName: "confirm_order",
+              startedAt
             }))
           )
 
@@ -294,8 +640,63 @@ export const SagaExecutorLive = Layer.effect(
             return stepResult.result
           }
 
-          yield* ledgerRepo.updateStatus(orderLedgerId as OrderLedgerId, "COMPLETED")
+          // The ledger only moves to COMPLETED once inventory is committed (Step 5)
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "confirm_order",
+            outcome: "SUCCEEDED",
+            fromStatus: "PAYMENT_CAPTURED",
+            toStatus: null,
+            attempt: currentRetryCount + 1,
+            errorTag: null,
+            errorReason: null,
+            startedAt
+          })
           yield* Effect.logInfo("Step 4 completed: Order confirmed", { orderLedgerId })
+
+          // Step 5: Commit Inventory - reservations become permanent deductions
+          // A retry re-runs Step 4 first, which is idempotent on the Orders side
+          yield* Effect.logInfo("Executing Step 5: Commit Inventory", {
+            orderLedgerId,
+            orderId,
+            attempt: currentRetryCount + 1
+          })
+
+          const commitStartedAt = yield* Clock.currentTimeMillis
+          const commitResult = yield* inventoryClient.commitReservation({ orderId: orderId! }).pipe(
+            Effect.map((): StepResult => ({ _tag: "StepSuccess" })),
+            Effect.catchAll((error) => handleStepError({
+              eventId,
+              orderLedgerId,
+              currentStatus,
+              error,
+              currentRetryCount,
+              retryPolicy,
+              stepName: "commit_inventory",
+              startedAt: commitStartedAt
+            }))
+          )
+
+          if (commitResult._tag === "StepFailed") {
+            return commitResult.result
+          }
+
+          const updated = yield* ledgerRepo.advanceStatus(orderLedgerId as OrderLedgerId, "COMPLETED")
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "commit_inventory",
+            outcome: "SUCCEEDED",
+            fromStatus: "PAYMENT_CAPTURED",
+            toStatus: "COMPLETED",
+            attempt: currentRetryCount + 1,
+            errorTag: null,
+            errorReason: null,
+            startedAt: commitStartedAt
+          })
+          if (updated.status === "CANCELLATION_REQUESTED") {
+            return yield* scheduleCancellation(orderLedgerId, "COMPLETED", currentRetryCount + 1)
+          }
+          yield* Effect.logInfo("Step 5 completed: Inventory committed", { orderLedgerId })
         }
 
         yield* Effect.logInfo("Saga completed successfully", { orderLedgerId })
@@ -308,87 +709,354 @@ export const SagaExecutorLive = Layer.effect(
       }).pipe(
         Effect.provideService(LedgerRepository, ledgerRepo),
         Effect.provideService(OutboxRepository, outboxRepo),
-        Effect.provideService(CompensationExecutor, compensationExecutor)
+        Effect.provideService(CompensationExecutor, compensationExecutor),
+        Effect.provideService(SagaStepRepository, sagaStepRepo)
       )
 
-    return {
-      executeSaga: (event: OutboxEvent) =>
-        Effect.gen(function* () {
-          const eventId = event.id
-          const aggregateId = event.aggregateId
+    const executeOrderAuthorized = (
+      event: OutboxEvent
+    ): Effect.Effect<SagaExecutionResult, InvalidPayloadError> =>
+      Effect.gen(function* () {
+        // 1. Parse the payload
+        const payload = yield* Schema.decodeUnknown(OrderAuthorizedPayload)(event.payload).pipe(
+          Effect.mapError(() =>
+            new InvalidPayloadError({
+              eventId: event.id,
+              eventType: event.eventType,
+              reason: "Failed to parse OrderAuthorized payload"
+            })
+          )
+        )
 
-          yield* Effect.logInfo("Starting saga execution", {
-            eventId,
-            aggregateId,
-            eventType: event.eventType,
-            retryCount: event.retryCount,
-            isRetry: event.retryCount > 0
+        const orderLedgerId = payload.order_ledger_id
+
+        // 2. Load the ledger entry with items
+        const ledgerResult = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
+        if (Option.isNone(ledgerResult)) {
+          yield* Effect.logError("Ledger entry not found", { orderLedgerId })
+          return {
+            _tag: "Failed",
+            orderLedgerId,
+            finalStatus: "UNKNOWN",
+            error: "Ledger entry not found",
+            errorTag: "LedgerNotFoundError"
+          } satisfies SagaFailed
+        }
+
+        const { ledger, items } = ledgerResult.value
+
+        yield* Effect.logDebug("Loaded ledger entry", {
+          orderLedgerId,
+          status: ledger.status,
+          itemCount: items.length
+        })
+
+        // 3. Check current status
+        const currentStatus = ledger.status
+
+        // If already completed, nothing to do
+        if (currentStatus === "COMPLETED") {
+          yield* Effect.logInfo("Saga already completed", { orderLedgerId })
+          return {
+            _tag: "Completed",
+            orderLedgerId,
+            finalStatus: "COMPLETED"
+          } satisfies SagaCompleted
+        }
+
+        // If in terminal/compensation state, report failure
+        if (isHandedOffToCompensation(currentStatus)) {
+          yield* Effect.logWarning("Saga already in terminal/compensation state", {
+            orderLedgerId,
+            status: currentStatus
           })
+          return {
+            _tag: "Failed",
+            orderLedgerId,
+            finalStatus: currentStatus,
+            error: `Saga already in ${currentStatus} state`,
+            errorTag: "SagaAlreadyTerminal"
+          } satisfies SagaFailed
+        }
 
-          // 1. Parse the payload
-          const payload = yield* Schema.decodeUnknown(OrderAuthorizedPayload)(event.payload).pipe(
-            Effect.mapError(() =>
-              new InvalidPayloadError({
-                eventId,
-                eventType: event.eventType,
-                reason: "Failed to parse OrderAuthorized payload"
-              })
-            )
+        // 4. Execute saga steps based on current status
+        return yield* executeSagaSteps(event, ledger, items, payload)
+      })
+
+    const executeCompensationRequested = (
+      event: OutboxEvent
+    ): Effect.Effect<SagaExecutionResult, InvalidPayloadError> =>
+      Effect.gen(function* () {
+        // 1. Parse the payload
+        const payload = yield* Schema.decodeUnknown(CompensationRequestedPayload)(event.payload).pipe(
+          Effect.mapError(() =>
+            new InvalidPayloadError({
+              eventId: event.id,
+              eventType: event.eventType,
+              reason: "Failed to parse CompensationRequested payload"
+            })
           )
+        )
 
-          const orderLedgerId = payload.order_ledger_id
+        const orderLedgerId = payload.order_ledger_id
 
-          // 2. Load the ledger entry with items
-          const ledgerResult = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
-          if (Option.isNone(ledgerResult)) {
-            yield* Effect.logError("Ledger entry not found", { orderLedgerId })
-            return {
-              _tag: "Failed",
-              orderLedgerId,
-              finalStatus: "UNKNOWN",
-              error: "Ledger entry not found"
-            } satisfies SagaFailed
-          }
+        // 2. Load the ledger entry
+        const ledgerResult = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
+        if (Option.isNone(ledgerResult)) {
+          yield* Effect.logError("Ledger entry not found", { orderLedgerId })
+          return {
+            _tag: "Failed",
+            orderLedgerId,
+            finalStatus: "UNKNOWN",
+            error: "Ledger entry not found",
+            errorTag: "LedgerNotFoundError"
+          } satisfies SagaFailed
+        }
+
+        const { ledger, items } = ledgerResult.value
 
-          const { ledger, items } = ledgerResult.value
+        // Already unwound, e.g. by an operator - nothing left to do
+        if (ledger.status === "FAILED" || ledger.status === "CANCELLED") {
+          yield* Effect.logInfo("Saga already compensated", { orderLedgerId })
+          return {
+            _tag: "Compensated",
+            orderLedgerId,
+            finalStatus: ledger.status,
+            compensationSteps: []
+          } satisfies SagaCompensated
+        }
 
-          yield* Effect.logDebug("Loaded ledger entry", {
+        // COMPENSATION_FAILED is accepted so a replayed dead letter can finish the job
+        if (ledger.status !== "COMPENSATING" && ledger.status !== "COMPENSATION_FAILED") {
+          yield* Effect.logWarning("Compensation requested for saga that is not compensating", {
             orderLedgerId,
-            status: ledger.status,
-            itemCount: items.length
+            status: ledger.status
           })
+          return {
+            _tag: "Failed",
+            orderLedgerId,
+            finalStatus: ledger.status,
+            error: `Saga is in ${ledger.status} state, not COMPENSATING`,
+            errorTag: "SagaNotCompensating"
+          } satisfies SagaFailed
+        }
 
-          // 3. Check current status
-          const currentStatus = ledger.status
+        // 3. Run the compensation steps that have not succeeded yet
+        const attempt = event.retryCount + 1
+        const startedAt = yield* Clock.currentTimeMillis
+        const completedSteps = yield* sagaStepRepo.findSucceededSteps(orderLedgerId)
 
-          // If already completed, nothing to do
-          if (currentStatus === "COMPLETED") {
-            yield* Effect.logInfo("Saga already completed", { orderLedgerId })
-            return {
-              _tag: "Completed",
-              orderLedgerId,
-              finalStatus: "COMPLETED"
-            } satisfies SagaCompleted
-          }
+        const payments = yield* ledgerRepo.findPayments(ledger.id)
 
-          // If in terminal/compensation state, report failure
-          if (currentStatus === "FAILED" || currentStatus === "COMPENSATING") {
-            yield* Effect.logWarning("Saga already in terminal/compensation state", {
-              orderLedgerId,
-              status: currentStatus
+        const compensation = yield* compensationExecutor.executeCompensation({
+          orderLedgerId,
+          orderId: ledger.orderId,
+          paymentAuthorizationId: ledger.paymentAuthorizationId,
+          paymentCaptureId: ledger.paymentCaptureId,
+          payments,
+          unfulfilledAmountCents: unfulfilledAmountCents(items),
+          lastSuccessfulStatus: payload.last_successful_status,
+          completedSteps,
+          attempt
+        })
+
+        if (compensation._tag === "CompensationCompleted") {
+          // A customer cancellation is not a failure - it ends in CANCELLED
+          const finalStatus = payload.failure_reason === "cancellation_requested" ? "CANCELLED" : "FAILED"
+          yield* ledgerRepo.updateStatus(ledger.id, finalStatus)
+          yield* recordSagaStep({
+            orderLedgerId,
+            stepName: "compensation_finished",
+            outcome: "SUCCEEDED",
+            fromStatus: ledger.status,
+            toStatus: finalStatus,
+            attempt,
+            errorTag: null,
+            errorReason: null,
+            startedAt
+          })
+          yield* Effect.logInfo("Compensation completed", {
+            orderLedgerId,
+            attempt,
+            finalStatus,
+            stepsExecuted: compensation.stepsExecuted
+          })
+          return {
+            _tag: "Compensated",
+            orderLedgerId,
+            finalStatus,
+            compensationSteps: compensation.stepsExecuted
+          } satisfies SagaCompensated
+        }
+
+        // 4. Some steps failed - retry them later, or give up and flag the ledger
+        if (!isMaxRetriesExceeded(event.retryCount, compensationRetryPolicy.maxAttempts)) {
+          const nextRetryAt = calculateNextRetryAt(event.retryCount + 2, compensationRetryPolicy)
+          const { retryCount } = yield* outboxRepo.scheduleRetry(event.id, nextRetryAt, {
+            attempt,
+            error_tag: "CompensationFailed",
+            error_reason: compensation.error,
+            failed_at: DateTime.formatIso(yield* DateTime.now)
+          })
+
+          yield* Effect.logWarning("Compensation step failed - scheduling retry", {
+            orderLedgerId,
+            attempt,
+            errors: compensation.errors,
+            nextRetryAt: DateTime.formatIso(nextRetryAt)
+          })
+
+          return {
+            _tag: "RequiresRetry",
+            orderLedgerId,
+            finalStatus: ledger.status,
+            error: "CompensationFailed",
+            retryCount,
+            nextRetryAt,
+            isLastAttempt: retryCount >= compensationRetryPolicy.maxAttempts - 1
+          } satisfies SagaRequiresRetry
+        }
+
+        yield* ledgerRepo.updateStatus(ledger.id, "COMPENSATION_FAILED")
+        yield* recordSagaStep({
+          orderLedgerId,
+          stepName: "compensation_finished",
+          outcome: "FAILED",
+          fromStatus: ledger.status,
+          toStatus: "COMPENSATION_FAILED",
+          attempt,
+          errorTag: "CompensationFailed",
+          errorReason: compensation.error,
+          startedAt
+        })
+        yield* Effect.logError("Compensation retries exhausted - manual intervention required", {
+          orderLedgerId,
+          totalAttempts: attempt,
+          errors: compensation.errors
+        })
+
+        return {
+          _tag: "CompensationFailed",
+          orderLedgerId,
+          finalStatus: "COMPENSATION_FAILED",
+          compensationSteps: compensation.stepsExecuted,
+          error: compensation.error,
+          compensationErrors: compensation.errors
+        } satisfies SagaCompensationFailed
+      }).pipe(Effect.provideService(SagaStepRepository, sagaStepRepo))
+
+    const executeCancellationRequested = (
+      event: OutboxEvent
+    ): Effect.Effect<SagaExecutionResult, InvalidPayloadError> =>
+      Effect.gen(function* () {
+        // 1. Parse the payload
+        const payload = yield* Schema.decodeUnknown(CancellationRequestedPayload)(event.payload).pipe(
+          Effect.mapError(() =>
+            new InvalidPayloadError({
+              eventId: event.id,
+              eventType: event.eventType,
+              reason: "Failed to parse CancellationRequested payload"
             })
+          )
+        )
+
+        const orderLedgerId = payload.order_ledger_id
+
+        // 2. Load the ledger entry
+        const ledgerResult = yield* ledgerRepo.findByIdWithItems(orderLedgerId as OrderLedgerId)
+        if (Option.isNone(ledgerResult)) {
+          yield* Effect.logError("Ledger entry not found", { orderLedgerId })
+          return {
+            _tag: "Failed",
+            orderLedgerId,
+            finalStatus: "UNKNOWN",
+            error: "Ledger entry not found",
+            errorTag: "LedgerNotFoundError"
+          } satisfies SagaFailed
+        }
+
+        const { ledger } = ledgerResult.value
+
+        if (ledger.status === "CANCELLED") {
+          yield* Effect.logInfo("Order already cancelled", { orderLedgerId })
+          return {
+            _tag: "Compensated",
+            orderLedgerId,
+            finalStatus: "CANCELLED",
+            compensationSteps: []
+          } satisfies SagaCompensated
+        }
+
+        // Already handed off - by the forward saga, or an earlier copy of this event
+        if (isHandedOffToCompensation(ledger.status)) {
+          yield* Effect.logInfo("Cancellation already handed off to compensation", {
+            orderLedgerId,
+            status: ledger.status
+          })
+          return {
+            _tag: "Skipped",
+            orderLedgerId,
+            finalStatus: ledger.status,
+            reason: "Cancellation already handed off to compensation"
+          } satisfies SagaSkipped
+        }
+
+        if (ledger.status !== "CANCELLATION_REQUESTED") {
+          yield* Effect.logWarning("Cancellation event for saga that is not awaiting cancellation", {
+            orderLedgerId,
+            status: ledger.status
+          })
+          return {
+            _tag: "Failed",
+            orderLedgerId,
+            finalStatus: ledger.status,
+            error: `Saga is in ${ledger.status} state, not CANCELLATION_REQUESTED`,
+            errorTag: "SagaNotCancelling"
+          } satisfies SagaFailed
+        }
+
+        // 3. An in-flight saga stops at its next step; leave it to the pending OrderAuthorized
+        // event so the two do not race, and only act if nothing is left to notice
+        if (payload.previous_status !== "COMPLETED") {
+          const events = yield* outboxRepo.findByAggregateId(orderLedgerId)
+          if (events.some((e) => e.eventType === "OrderAuthorized" && e.status === "PENDING")) {
+            yield* Effect.logInfo("Cancellation left to the pending OrderAuthorized event", { orderLedgerId })
             return {
-              _tag: "Failed",
+              _tag: "Skipped",
               orderLedgerId,
-              finalStatus: currentStatus,
-              error: `Saga already in ${currentStatus} state`
-            } satisfies SagaFailed
+              finalStatus: ledger.status,
+              reason: "Pending OrderAuthorized event will hand the cancellation off"
+            } satisfies SagaSkipped
           }
+        }
 
-          // 4. Execute saga steps based on current status
-          const sagaResult = yield* executeSagaSteps(event, ledger, items, payload)
+        // 4. Unwind from where the order got to - an in-flight step may have finished after the request
+        const lastSuccessfulStatus =
+          payload.previous_status === "COMPLETED" ? "COMPLETED" : lastSuccessfulStatusFor(ledger)
+        return yield* scheduleCancellation(orderLedgerId, lastSuccessfulStatus, event.retryCount + 1)
+      }).pipe(
+        Effect.provideService(LedgerRepository, ledgerRepo),
+        Effect.provideService(OutboxRepository, outboxRepo),
+        Effect.provideService(SagaStepRepository, sagaStepRepo)
+      )
+
+    return {
+      executeSaga: (event: OutboxEvent) =>
+        Effect.gen(function* () {
+          yield* Effect.logInfo("Starting saga execution", {
+            eventId: event.id,
+            aggregateId: event.aggregateId,
+            eventType: event.eventType,
+            retryCount: event.retryCount,
+            isRetry: event.retryCount > 0
+          })
 
-          return sagaResult
+          return yield* Match.value(event.eventType).pipe(
+            Match.when("OrderAuthorized", () => executeOrderAuthorized(event)),
+            Match.when("CompensationRequested", () => executeCompensationRequested(event)),
+            Match.when("CancellationRequested", () => executeCancellationRequested(event)),
+            Match.exhaustive
+          )
         }).pipe(
           Effect.withSpan("saga-execution", {
             attributes: {
@@ -401,7 +1069,8 @@ export const SagaExecutorLive = Layer.effect(
               _tag: "Failed",
               orderLedgerId: event.aggregateId,
               finalStatus: "UNKNOWN",
-              error: error.reason
+              error: error.reason,
+              errorTag: error._tag
             } satisfies SagaFailed)
           )
         )
@@ -80,7 +80,7 @@ describe("Order Domain Types", () => {
           }
         ]
       }
-      const result = Schema.decodeEither(CreateOrderRequest)(validRequest)
+      const result = Schema.decodeUnknownEither(CreateOrderRequest)(validRequest)
       expect(Either.isRight(result)).toBe(true)
     })
 
@@ -204,7 +204,7 @@ describe("Order Domain Types", () => {
           }
         ]
       }
-      const result = Schema.decodeEither(CreateOrderRequest)(invalidRequest)
+      const result = Schema.decodeUnknownEither(CreateOrderRequest)(invalidRequest)
       expect(Either.isLeft(result)).toBe(true)
     })
   })
@@ -233,6 +233,25 @@ describe("Order Domain Types", () => {
     })
   })
 
+  describe("AdjustOrderRequest", () => {
+    it("should accept a zero quantity (product dropped)", async () => {
+      const { AdjustOrderRequest } = await import("../domain/Order.js")
+      const result = Schema.decodeUnknownEither(AdjustOrderRequest)({
+        items: [{ productId: "770e8400-e29b-41d4-a716-446655440002", quantity: 0 }]
+      })
+      expect(Either.isRight(result)).toBe(true)
+    })
+
+    it("should reject negative quantities and empty adjustments", async () => {
+      const { AdjustOrderRequest } = await import("../domain/Order.js")
+      const decode = Schema.decodeUnknownEither(AdjustOrderRequest)
+      expect(Either.isLeft(decode({
+        items: [{ productId: "770e8400-e29b-41d4-a716-446655440002", quantity: -1 }]
+      }))).toBe(true)
+      expect(Either.isLeft(decode({ items: [] }))).toBe(true)
+    })
+  })
+
   describe("OrderIdParams", () => {
     it("should accept valid order_id path parameter", async () => {
       const { OrderIdParams } = await import("../domain/Order.js")
@@ -252,4 +271,58 @@ describe("Order Domain Types", () => {
       expect(Either.isLeft(result)).toBe(true)
     })
   })
+
+  describe("ListOrdersParams", () => {
+    it("should default sort and limit when no query parameters are given", async () => {
+      const { ListOrdersParams } = await import("../domain/Order.js")
+      const result = Schema.decodeUnknownEither(ListOrdersParams)({})
+      expect(Either.isRight(result)).toBe(true)
+      if (Either.isRight(result)) {
+        expect(result.right.sort).toBe("created_at_desc")
+        expect(result.right.limit).toBe(20)
+        expect(result.right.cursor).toBeUndefined()
+      }
+    })
+
+    it("should accept filters, a date range and a cursor", async () => {
+      const { ListOrdersParams } = await import("../domain/Order.js")
+      const result = Schema.decodeUnknownEither(ListOrdersParams)({
+        user_id: "660e8400-e29b-41d4-a716-446655440001",
+        status: "CONFIRMED",
+        created_from: "2024-01-01T00:00:00Z",
+        created_to: "2024-02-01T00:00:00Z",
+        sort: "created_at_asc",
+        limit: "50",
+        cursor: "550e8400-e29b-41d4-a716-446655440000"
+      })
+      expect(Either.isRight(result)).toBe(true)
+      if (Either.isRight(result)) {
+        expect(result.right.limit).toBe(50)
+        expect(result.right.status).toBe("CONFIRMED")
+      }
+    })
+
+    it("should split comma-separated order ledger IDs", async () => {
+      const { ListOrdersParams } = await import("../domain/Order.js")
+      const result = Schema.decodeUnknownEither(ListOrdersParams)({
+        order_ledger_ids: "550e8400-e29b-41d4-a716-446655440000,550e8400-e29b-41d4-a716-446655440001"
+      })
+      expect(Either.isRight(result)).toBe(true)
+      if (Either.isRight(result)) {
+        expect(result.right.order_ledger_ids).toHaveLength(2)
+      }
+    })
+
+    it("should reject a limit above 100", async () => {
+      const { ListOrdersParams } = await import("../domain/Order.js")
+      const result = Schema.decodeUnknownEither(ListOrdersParams)({ limit: "101" })
+      expect(Either.isLeft(result)).toBe(true)
+    })
+
+    it("should reject a cursor that is not an order ID", async () => {
+      const { ListOrdersParams } = await import("../domain/Order.js")
+      const result = Schema.decodeUnknownEither(ListOrdersParams)({ cursor: "page-2" })
+      expect(Either.isLeft(result)).toBe(true)
+    })
+  })
 })
@@ -162,6 +162,38 @@ describe("OrderRepository", () => {
     })
   })
 
+  describe("getItemsForOrders", () => {
+    it("should not query when given no order IDs", async () => {
+      let queried = false
+      const mockSqlClient = createMockSqlClient(() => {
+        queried = true
+        return []
+      })
+      const testLayer = OrderRepositoryLive.pipe(Layer.provide(mockSqlClient))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* OrderRepository
+        return yield* repo.getItemsForOrders([])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result).toEqual([])
+      expect(queried).toBe(false)
+    })
+
+    it("should return mapped items for the requested orders", async () => {
+      const mockSqlClient = createMockSqlClient(() => [mockOrderItemRow])
+      const testLayer = OrderRepositoryLive.pipe(Layer.provide(mockSqlClient))
+
+      const result = await Effect.gen(function* () {
+        const repo = yield* OrderRepository
+        return yield* repo.getItemsForOrders([testOrderId])
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(result.length).toBe(1)
+      expect(result[0].orderId).toBe(testOrderId)
+    })
+  })
+
   describe("createWithItems", () => {
     it("should return Created tag when order is new", async () => {
       let queryCount = 0
@@ -2,7 +2,12 @@ import { describe, it, expect } from "vitest"
 import { Effect, Layer, Option, DateTime, Exit } from "effect"
 import { OrderService } from "../services/OrderService.js"
 import { OrderServiceLive } from "../services/OrderServiceLive.js"
-import { OrderRepository, type CreateOrderResult } from "../repositories/OrderRepository.js"
+import {
+  OrderRepository,
+  type CreateOrderResult,
+  type ListOrdersQuery,
+  type OrderItemAdjustment
+} from "../repositories/OrderRepository.js"
 import {
   Order,
   OrderId,
@@ -12,9 +17,16 @@ import {
   OrderItem,
   OrderItemId,
   CreateOrderRequest,
-  CreateOrderItemRequest
+  CreateOrderItemRequest,
+  AdjustOrderRequest,
+  AdjustOrderItemRequest
 } from "../domain/Order.js"
-import { OrderNotFoundError, InvalidOrderStatusError } from "../domain/errors.js"
+import {
+  OrderNotFoundError,
+  InvalidOrderStatusError,
+  InvalidOrderAdjustmentError,
+  InvalidCursorError
+} from "../domain/errors.js"
 
 // Test fixtures
 const testOrderLedgerId = "550e8400-e29b-41d4-a716-446655440000" as OrderLedgerId
@@ -86,6 +98,13 @@ const createMockRepo = (overrides: {
   findByLedgerId?: (ledgerId: OrderLedgerId) => Effect.Effect<Option.Option<Order>>
   getItems?: (orderId: OrderId) => Effect.Effect<readonly OrderItem[]>
   updateStatus?: (orderId: OrderId, status: any) => Effect.Effect<Option.Option<Order>>
+  list?: (query: ListOrdersQuery) => Effect.Effect<readonly Order[]>
+  getItemsForOrders?: (orderIds: readonly OrderId[]) => Effect.Effect<readonly OrderItem[]>
+  adjustItems?: (
+    orderId: OrderId,
+    adjustments: readonly OrderItemAdjustment[],
+    totalAmountCents: number
+  ) => Effect.Effect<Option.Option<Order>>
 } = {}) => {
   return Layer.succeed(OrderRepository, {
     createWithItems: overrides.createWithItems ?? (() =>
@@ -94,7 +113,10 @@ const createMockRepo = (overrides: {
     findById: overrides.findById ?? (() => Effect.succeed(Option.some(testOrder))),
     findByLedgerId: overrides.findByLedgerId ?? (() => Effect.succeed(Option.some(testOrder))),
     getItems: overrides.getItems ?? (() => Effect.succeed([testOrderItem])),
-    updateStatus: overrides.updateStatus ?? (() => Effect.succeed(Option.some(testOrder)))
+    updateStatus: overrides.updateStatus ?? (() => Effect.succeed(Option.some(testOrder))),
+    list: overrides.list ?? (() => Effect.succeed([testOrder])),
+    getItemsForOrders: overrides.getItemsForOrders ?? (() => Effect.succeed([testOrderItem])),
+    adjustItems: overrides.adjustItems ?? (() => Effect.succeed(Option.some(testOrder)))
   })
 }
 
@@ -275,28 +297,20 @@ describe("OrderService", () => {
       expect(result.items.length).toBe(1)
     })
 
-    it("should fail with InvalidOrderStatusError when order is CONFIRMED", async () => {
+    it("should cancel a CONFIRMED order", async () => {
       const mockRepo = createMockRepo({
-        findById: () => Effect.succeed(Option.some(confirmedOrder))
+        findById: () => Effect.succeed(Option.some(confirmedOrder)),
+        updateStatus: () => Effect.succeed(Option.some(cancelledOrder))
       })
 
       const testLayer = OrderServiceLive.pipe(Layer.provide(mockRepo))
 
-      const exit = await Effect.gen(function* () {
+      const result = await Effect.gen(function* () {
         const service = yield* OrderService
         return yield* service.cancel(testOrderId)
-      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
 
-      expect(Exit.isFailure(exit)).toBe(true)
-      if (Exit.isFailure(exit)) {
-        const error = exit.cause
-        expect(error._tag).toBe("Fail")
-        if (error._tag === "Fail") {
-          expect(error.error._tag).toBe("InvalidOrderStatusError")
-          expect((error.error as InvalidOrderStatusError).currentStatus).toBe("CONFIRMED")
-          expect((error.error as InvalidOrderStatusError).attemptedStatus).toBe("CANCELLED")
-        }
-      }
+      expect(result.order.status).toBe("CANCELLED")
     })
 
     it("should fail with OrderNotFoundError when order does not exist", async () => {
@@ -455,4 +469,240 @@ describe("OrderService", () => {
       expect(capturedStatus).toBe("CONFIRMED")
     })
   })
+
+  describe("adjust", () => {
+    const secondProductId = "880e8400-e29b-41d4-a716-446655440005" as ProductId
+    // Two lines of the same product, then a second product: 2 x 2999 + 1 x 2999 + 3 x 500 = 10497
+    const laterItem = new OrderItem({
+      ...testOrderItem,
+      id: "990e8400-e29b-41d4-a716-446655440006" as OrderItemId,
+      quantity: 1,
+      createdAt: DateTime.add(testOrderItem.createdAt, { seconds: 1 })
+    })
+    const secondProductItem = new OrderItem({
+      ...testOrderItem,
+      id: "990e8400-e29b-41d4-a716-446655440007" as OrderItemId,
+      productId: secondProductId,
+      quantity: 3,
+      unitPriceCents: 500
+    })
+    const orderWithItems = new Order({ ...testOrder, totalAmountCents: 10497 })
+
+    const adjustRequest = (items: ReadonlyArray<{ productId: ProductId; quantity: number }>) =>
+      new AdjustOrderRequest({ items: items.map((item) => new AdjustOrderItemRequest(item)) })
+
+    const runAdjust = (request: AdjustOrderRequest, repo: Layer.Layer<OrderRepository>) =>
+      Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.adjust(testOrderId, request)
+      }).pipe(Effect.provide(OrderServiceLive.pipe(Layer.provide(repo))), Effect.runPromiseExit)
+
+    it("should take the reduction off a product's later items and lower the total", async () => {
+      let captured: { adjustments: readonly OrderItemAdjustment[]; total: number } | null = null
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.some(orderWithItems)),
+        // Stored order is not significant - items are ordered by creation
+        getItems: () => Effect.succeed([secondProductItem, laterItem, testOrderItem]),
+        adjustItems: (_orderId, adjustments, totalAmountCents) => {
+          captured = { adjustments, total: totalAmountCents }
+          return Effect.succeed(Option.some(new Order({ ...orderWithItems, totalAmountCents })))
+        }
+      })
+
+      const exit = await runAdjust(
+        adjustRequest([
+          { productId: testProductId, quantity: 1 },
+          { productId: secondProductId, quantity: 2 }
+        ]),
+        mockRepo
+      )
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      expect(captured).toEqual({
+        adjustments: [
+          { itemId: testOrderItemId, quantity: 1 },
+          { itemId: laterItem.id, quantity: 0 },
+          { itemId: secondProductItem.id, quantity: 2 }
+        ],
+        // 2 x 2999 and 1 x 500 removed
+        total: 10497 - 5998 - 500
+      })
+    })
+
+    it("should not touch the order when the adjustment is already applied (idempotent)", async () => {
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.some(testOrder)),
+        getItems: () => Effect.succeed([testOrderItem]),
+        adjustItems: () => Effect.die("adjustItems not expected")
+      })
+
+      const exit = await runAdjust(adjustRequest([{ productId: testProductId, quantity: 2 }]), mockRepo)
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      if (Exit.isSuccess(exit)) {
+        expect(exit.value.order.totalAmountCents).toBe(5998)
+      }
+    })
+
+    it("should accept the same adjustment twice after its dropped lines were deleted", async () => {
+      // Repository state the adjustment changes - dropped lines are deleted
+      let storedItems: readonly OrderItem[] = [testOrderItem, secondProductItem]
+      let adjustCalls = 0
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.some(orderWithItems)),
+        getItems: () => Effect.sync(() => storedItems),
+        adjustItems: (_orderId, adjustments, totalAmountCents) =>
+          Effect.sync(() => {
+            adjustCalls++
+            const dropped = new Set(adjustments.filter((a) => a.quantity === 0).map((a) => a.itemId))
+            storedItems = storedItems.filter((item) => !dropped.has(item.id))
+            return Option.some(new Order({ ...orderWithItems, totalAmountCents }))
+          })
+      })
+
+      const request = adjustRequest([{ productId: testProductId, quantity: 0 }])
+      const first = await runAdjust(request, mockRepo)
+      const second = await runAdjust(request, mockRepo)
+
+      expect(Exit.isSuccess(first)).toBe(true)
+      expect(Exit.isSuccess(second)).toBe(true)
+      if (Exit.isSuccess(second)) {
+        expect(second.value.items.map((item) => item.id)).toEqual([secondProductItem.id])
+      }
+      expect(adjustCalls).toBe(1)
+    })
+
+    it("should reject an increase, an unknown product and removing every item", async () => {
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.some(testOrder)),
+        getItems: () => Effect.succeed([testOrderItem]),
+        adjustItems: () => Effect.die("adjustItems not expected")
+      })
+
+      const reasons: Array<string> = []
+      for (const request of [
+        adjustRequest([{ productId: testProductId, quantity: 3 }]),
+        adjustRequest([{ productId: secondProductId, quantity: 1 }]),
+        adjustRequest([{ productId: testProductId, quantity: 0 }])
+      ]) {
+        const exit = await runAdjust(request, mockRepo)
+        if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+          reasons.push((exit.cause.error as InvalidOrderAdjustmentError).reason)
+        }
+      }
+
+      expect(reasons).toEqual(["quantity_increase", "unknown_product", "no_items_left"])
+    })
+
+    it("should fail with InvalidOrderStatusError when order is CONFIRMED", async () => {
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.some(confirmedOrder)),
+        adjustItems: () => Effect.die("adjustItems not expected")
+      })
+
+      const exit = await runAdjust(adjustRequest([{ productId: testProductId, quantity: 1 }]), mockRepo)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("InvalidOrderStatusError")
+        expect((exit.cause.error as InvalidOrderStatusError).currentStatus).toBe("CONFIRMED")
+      }
+    })
+  })
+
+  describe("list", () => {
+    const secondOrderId = "660e8400-e29b-41d4-a716-446655440009" as OrderId
+    const secondOrder = new Order({ ...testOrder, id: secondOrderId })
+
+    it("should fetch one extra row and return a cursor when another page follows", async () => {
+      let capturedQuery: ListOrdersQuery | null = null
+      const mockRepo = createMockRepo({
+        list: (query) => {
+          capturedQuery = query
+          return Effect.succeed([testOrder, secondOrder])
+        }
+      })
+
+      const testLayer = OrderServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.list({ userId: testUserId, sort: "created_at_desc", limit: 1 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedQuery!.limit).toBe(2)
+      expect(capturedQuery!.userId).toBe(testUserId)
+      expect(result.orders.length).toBe(1)
+      expect(result.orders[0].order.id).toBe(testOrderId)
+      expect(result.nextCursor).toBe(testOrderId)
+    })
+
+    it("should return no cursor on the last page and attach each order's own items", async () => {
+      let capturedOrderIds: readonly OrderId[] = []
+      const mockRepo = createMockRepo({
+        list: () => Effect.succeed([testOrder, secondOrder]),
+        getItemsForOrders: (orderIds) => {
+          capturedOrderIds = orderIds
+          return Effect.succeed([testOrderItem])
+        }
+      })
+
+      const testLayer = OrderServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.list({ sort: "created_at_asc", limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedOrderIds).toEqual([testOrderId, secondOrderId])
+      expect(result.nextCursor).toBeNull()
+      expect(result.orders[0].items.length).toBe(1)
+      expect(result.orders[1].items.length).toBe(0)
+    })
+
+    it("should resume after an order that exists", async () => {
+      let capturedQuery: ListOrdersQuery | null = null
+      const mockRepo = createMockRepo({
+        list: (query) => {
+          capturedQuery = query
+          return Effect.succeed([secondOrder])
+        }
+      })
+
+      const testLayer = OrderServiceLive.pipe(Layer.provide(mockRepo))
+
+      const result = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.list({ sort: "created_at_desc", after: testOrderId, limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromise)
+
+      expect(capturedQuery!.after).toBe(testOrderId)
+      expect(result.orders[0].order.id).toBe(secondOrderId)
+    })
+
+    it("should fail with InvalidCursorError when the cursor names no order", async () => {
+      let listed = false
+      const mockRepo = createMockRepo({
+        findById: () => Effect.succeed(Option.none()),
+        list: () => {
+          listed = true
+          return Effect.succeed([])
+        }
+      })
+
+      const testLayer = OrderServiceLive.pipe(Layer.provide(mockRepo))
+
+      const exit = await Effect.gen(function* () {
+        const service = yield* OrderService
+        return yield* service.list({ sort: "created_at_desc", after: testOrderId, limit: 20 })
+      }).pipe(Effect.provide(testLayer), Effect.runPromiseExit)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("InvalidCursorError")
+        expect((exit.cause.error as InvalidCursorError).cursor).toBe(testOrderId)
+      }
+      expect(listed).toBe(false)
+    })
+  })
 })
@@ -116,7 +116,9 @@ const createMockOrderService = (overrides: {
   return Layer.succeed(OrderService, {
     create: () => Effect.succeed({ order: testOrder, items: [testOrderItem] }),
     findById: () => Effect.succeed({ order: testOrder, items: [testOrderItem] }),
+    list: () => Effect.succeed({ orders: [], nextCursor: null }),
     cancel: () => Effect.succeed({ order: cancelledOrder, items: [testOrderItem] }),
+    adjust: () => Effect.succeed({ order: testOrder, items: [testOrderItem] }),
     confirm: overrides.confirm ?? (() =>
       Effect.succeed({ order: confirmedOrder, items: [testOrderItem] })
     )
@@ -100,7 +100,9 @@ const createMockOrderService = (overrides: {
     findById: overrides.findById ?? (() =>
       Effect.succeed({ order: testOrder, items: [testOrderItem] })
     ),
+    list: () => Effect.succeed({ orders: [], nextCursor: null }),
     cancel: () => Effect.succeed({ order: testOrder, items: [testOrderItem] }),
+    adjust: () => Effect.succeed({ order: testOrder, items: [testOrderItem] }),
     confirm: () => Effect.succeed({ order: testOrder, items: [testOrderItem] })
   })
 }
@@ -317,6 +319,25 @@ describe("POST /orders", () => {
   })
 
   describe("validation errors", () => {
+    it("should return 400 for an unsupported currency", async () => {
+      const mockService = createMockOrderService()
+
+      const requestBody = {
+        orderLedgerId: testOrderLedgerId,
+        userId: testUserId,
+        totalAmountCents: 5998,
+        currency: "JPY",
+        items: [
+          { productId: testProductId, quantity: 2, unitPriceCents: 2999 }
+        ]
+      }
+
+      const result = await runCreateOrder(requestBody, mockService)
+
+      expect(result.status).toBe(400)
+      expect(result.body.error).toBe("validation_error")
+    })
+
     it("should return 400 for missing orderLedgerId", async () => {
       const mockService = createMockOrderService()
 
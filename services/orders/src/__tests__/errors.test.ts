@@ -91,4 +91,18 @@ describe("Order Domain Errors", () => {
       expect(error.attemptedStatus).toBe("CREATED")
     })
   })
+
+  describe("InvalidOrderAdjustmentError", () => {
+    it("should capture the product and reason", async () => {
+      const { InvalidOrderAdjustmentError } = await import("../domain/errors.js")
+      const error = new InvalidOrderAdjustmentError({
+        orderId: "550e8400-e29b-41d4-a716-446655440000",
+        productId: "770e8400-e29b-41d4-a716-446655440002",
+        reason: "quantity_increase"
+      })
+      expect(error._tag).toBe("InvalidOrderAdjustmentError")
+      expect(error.productId).toBe("770e8400-e29b-41d4-a716-446655440002")
+      expect(error.reason).toBe("quantity_increase")
+    })
+  })
 })
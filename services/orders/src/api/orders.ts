@@ -2,7 +2,7 @@ import { HttpRouter, HttpServerRequest, HttpServerResponse } from "@effect/platf
 import { Effect } from "effect"
 import { withTraceContext } from "@ecommerce/tracing"
 import { OrderService } from "../services/OrderService.js"
-import { CreateOrderRequest, OrderIdParams } from "../domain/Order.js"
+import { AdjustOrderRequest, CreateOrderRequest, ListOrdersParams, OrderIdParams } from "../domain/Order.js"
 import type { Order, OrderItem } from "../domain/Order.js"
 
 // Map domain order + items to snake_case API response
@@ -86,6 +86,54 @@ const getOrderById = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// GET /orders?user_id=&order_ledger_ids=&status=&created_from=&created_to=&sort=&limit=&cursor= - List orders
+const listOrders = withTraceContext(Effect.gen(function* () {
+  const service = yield* OrderService
+  const params = yield* HttpServerRequest.schemaSearchParams(ListOrdersParams)
+
+  const page = yield* service.list({
+    userId: params.user_id,
+    orderLedgerIds: params.order_ledger_ids,
+    status: params.status,
+    createdFrom: params.created_from,
+    createdTo: params.created_to,
+    sort: params.sort,
+    after: params.cursor,
+    limit: params.limit
+  })
+
+  return yield* HttpServerResponse.json({
+    orders: page.orders.map(({ order, items }) => toOrderResponse(order, items)),
+    next_cursor: page.nextCursor
+  })
+})).pipe(
+  Effect.withSpan("GET /orders"),
+  Effect.catchTags({
+    ParseError: (error) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid query parameters. user_id and cursor must be UUIDs; order_ledger_ids must be at most 100 comma-separated UUIDs; status must be CREATED, CONFIRMED or CANCELLED; created_from/created_to must be ISO 8601 timestamps; sort must be created_at_desc or created_at_asc; limit must be 1-100.",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+    InvalidCursorError: (error) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: `Invalid cursor ${error.cursor}. Pass the next_cursor of a previous page.`
+        },
+        { status: 400 }
+      ),
+    SqlError: () =>
+      HttpServerResponse.json(
+        { error: "internal_error", message: "An unexpected error occurred" },
+        { status: 500 }
+      )
+  })
+)
+
 // POST /orders/:order_id/cancellation - Cancel order (compensation)
 const cancelOrder = withTraceContext(Effect.gen(function* () {
   const service = yield* OrderService
@@ -125,6 +173,69 @@ const cancelOrder = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// POST /orders/:order_id/adjustment - Reduce order items to what could be fulfilled
+const adjustOrder = withTraceContext(Effect.gen(function* () {
+  const service = yield* OrderService
+  const { order_id: orderId } = yield* HttpRouter.schemaPathParams(OrderIdParams)
+  const request = yield* HttpServerRequest.schemaBodyJson(AdjustOrderRequest)
+
+  const { order, items } = yield* service.adjust(orderId, request)
+
+  return yield* HttpServerResponse.json(toOrderResponse(order, items))
+})).pipe(
+  Effect.withSpan("POST /orders/:order_id/adjustment"),
+  Effect.catchTags({
+    ParseError: (error) =>
+      HttpServerResponse.json(
+        {
+          error: "validation_error",
+          message: "Invalid order_id or request body",
+          details: error.message
+        },
+        { status: 400 }
+      ),
+    RequestError: () =>
+      HttpServerResponse.json(
+        { error: "request_error", message: "Failed to read request body" },
+        { status: 400 }
+      ),
+    OrderNotFoundError: (error) =>
+      HttpServerResponse.json(
+        { error: "not_found", message: `Order with ID ${error.orderId} not found` },
+        { status: 404 }
+      ),
+    InvalidOrderStatusError: (error) =>
+      HttpServerResponse.json(
+        {
+          error: "invalid_status_transition",
+          message: `Cannot adjust order in ${error.currentStatus} status`,
+          current_status: error.currentStatus,
+          attempted_status: error.attemptedStatus
+        },
+        { status: 409 }
+      ),
+    InvalidOrderAdjustmentError: (error) =>
+      HttpServerResponse.json(
+        {
+          error: "invalid_adjustment",
+          message: error.reason === "unknown_product"
+            ? `Product ${error.productId} is not on the order`
+            : error.reason === "quantity_increase"
+              ? `Cannot increase the quantity of product ${error.productId}`
+              : "Adjustment would leave the order without items",
+          reason: error.reason,
+          product_id: error.productId
+        },
+        { status: 422 }
+      ),
+    SqlError: () =>
+      HttpServerResponse.json(
+        { error: "internal_error", message: "An unexpected error occurred" },
+        { status: 500 }
+      )
+  })
+)
+
 // POST /orders/:order_id/confirmation - Confirm order (final saga step)
 const confirmOrder = withTraceContext(Effect.gen(function* () {
   const service = yield* OrderService
@@ -166,7 +277,9 @@ const confirmOrder = withTraceContext(Effect.gen(function* () {
 
 export const OrderRoutes = HttpRouter.empty.pipe(
   HttpRouter.post("/orders", createOrder),
+  HttpRouter.get("/orders", listOrders),
   HttpRouter.get("/orders/:order_id", getOrderById),
   HttpRouter.post("/orders/:order_id/cancellation", cancelOrder),
+  HttpRouter.post("/orders/:order_id/adjustment", adjustOrder),
   HttpRouter.post("/orders/:order_id/confirmation", confirmOrder)
 )
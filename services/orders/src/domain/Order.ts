@@ -58,16 +58,56 @@ export class CreateOrderRequest extends Schema.Class<CreateOrderRequest>("Create
   totalAmountCents: Schema.Int.pipe(
     Schema.nonNegative({ message: () => "Total amount cannot be negative" })
   ),
+  // Must be a currency the Edge API prices and the Payment Service authorizes in
   currency: Schema.optionalWith(
-    Schema.String.pipe(Schema.minLength(3), Schema.maxLength(3)),
-    { default: () => "USD" }
+    Schema.Literal("USD", "EUR", "GBP"),
+    { default: () => "USD" as const }
   ),
   items: Schema.Array(CreateOrderItemRequest).pipe(
     Schema.minItems(1, { message: () => "Order must have at least one item" })
   )
 }) {}
 
+// The quantity of a product the order keeps; 0 drops the product from the order
+export class AdjustOrderItemRequest extends Schema.Class<AdjustOrderItemRequest>("AdjustOrderItemRequest")({
+  productId: ProductId,
+  quantity: Schema.Int.pipe(
+    Schema.nonNegative({ message: () => "Quantity cannot be negative" })
+  )
+}) {}
+
+// Reduces an order to what could be fulfilled (partial fulfilment)
+// Products left out keep their quantity
+export class AdjustOrderRequest extends Schema.Class<AdjustOrderRequest>("AdjustOrderRequest")({
+  items: Schema.Array(AdjustOrderItemRequest).pipe(
+    Schema.minItems(1, { message: () => "Adjustment must have at least one item" })
+  )
+}) {}
+
 // Path parameter schema for routes
 export const OrderIdParams = Schema.Struct({
   order_id: OrderId
 })
+
+// Listing sort order - by creation time, newest first by default
+export const OrderSort = Schema.Literal("created_at_desc", "created_at_asc")
+export type OrderSort = typeof OrderSort.Type
+
+// Query string schema for GET /orders
+// cursor is the next_cursor of the previous page - the ID of its last order
+export const ListOrdersParams = Schema.Struct({
+  user_id: Schema.optional(UserId),
+  // Comma-separated - lets the Edge API look up the orders behind a page of ledger entries
+  order_ledger_ids: Schema.optional(
+    Schema.compose(Schema.split(","), Schema.Array(OrderLedgerId)).pipe(Schema.maxItems(100))
+  ),
+  status: Schema.optional(OrderStatus),
+  created_from: Schema.optional(Schema.DateTimeUtc),
+  created_to: Schema.optional(Schema.DateTimeUtc),
+  sort: Schema.optionalWith(OrderSort, { default: () => "created_at_desc" as const }),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100)),
+    { default: () => 20 }
+  ),
+  cursor: Schema.optional(OrderId)
+})
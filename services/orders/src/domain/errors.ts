@@ -27,3 +27,22 @@ export class InvalidOrderStatusError extends Data.TaggedError("InvalidOrderStatu
   readonly currentStatus: string
   readonly attemptedStatus: string
 }> {}
+
+/**
+ * An order adjustment cannot be applied.
+ * Adjustments only ever reduce quantities of products already on the order,
+ * and must leave at least one item.
+ */
+export class InvalidOrderAdjustmentError extends Data.TaggedError("InvalidOrderAdjustmentError")<{
+  readonly orderId: string
+  readonly productId: string | null
+  readonly reason: "unknown_product" | "quantity_increase" | "no_items_left"
+}> {}
+
+/**
+ * A list cursor names no order.
+ * Without this check a stale or mistyped cursor reads as an empty last page.
+ */
+export class InvalidCursorError extends Data.TaggedError("InvalidCursorError")<{
+  readonly cursor: string
+}> {}
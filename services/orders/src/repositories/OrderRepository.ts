@@ -1,11 +1,14 @@
-import { Context, Effect, Option } from "effect"
+import { Context, DateTime, Effect, Option } from "effect"
 import { SqlError } from "@effect/sql"
 import type {
   Order,
   OrderId,
   OrderLedgerId,
   OrderItem,
-  OrderStatus
+  OrderItemId,
+  OrderSort,
+  OrderStatus,
+  UserId
 } from "../domain/Order.js"
 import type { CreateOrderRequest } from "../domain/Order.js"
 
@@ -14,6 +17,26 @@ export type CreateOrderResult =
   | { readonly _tag: "Created"; readonly order: Order; readonly items: readonly OrderItem[] }
   | { readonly _tag: "AlreadyExists"; readonly order: Order; readonly items: readonly OrderItem[] }
 
+// New quantity for an order item; 0 removes the item
+export interface OrderItemAdjustment {
+  readonly itemId: OrderItemId
+  readonly quantity: number
+}
+
+// Filters and keyset position for listing orders; every filter is optional
+export interface ListOrdersQuery {
+  readonly userId?: UserId
+  readonly orderLedgerIds?: readonly OrderLedgerId[]
+  readonly status?: OrderStatus
+  // Inclusive lower and exclusive upper bound on created_at
+  readonly createdFrom?: DateTime.Utc
+  readonly createdTo?: DateTime.Utc
+  readonly sort: OrderSort
+  // Return orders after this one in sort order
+  readonly after?: OrderId
+  readonly limit: number
+}
+
 export class OrderRepository extends Context.Tag("OrderRepository")<
   OrderRepository,
   {
@@ -49,6 +72,33 @@ export class OrderRepository extends Context.Tag("OrderRepository")<
       orderId: OrderId
     ) => Effect.Effect<readonly OrderItem[], SqlError.SqlError>
 
+    /**
+     * Lists orders matching the query, ordered by (created_at, id).
+     * Keyset pagination: `after` resumes from an order's position, so pages
+     * stay stable while new orders arrive.
+     */
+    readonly list: (
+      query: ListOrdersQuery
+    ) => Effect.Effect<readonly Order[], SqlError.SqlError>
+
+    /**
+     * Gets the items of several orders in one query.
+     */
+    readonly getItemsForOrders: (
+      orderIds: readonly OrderId[]
+    ) => Effect.Effect<readonly OrderItem[], SqlError.SqlError>
+
+    /**
+     * Applies item adjustments and the new total in one transaction.
+     * Only a CREATED order is changed; returns Option.none() otherwise, leaving
+     * its items untouched.
+     */
+    readonly adjustItems: (
+      orderId: OrderId,
+      adjustments: readonly OrderItemAdjustment[],
+      totalAmountCents: number
+    ) => Effect.Effect<Option.Option<Order>, SqlError.SqlError>
+
     /**
      * Updates the status of an order.
      * Returns the updated order if successful.
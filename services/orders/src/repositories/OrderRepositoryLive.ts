@@ -1,6 +1,11 @@
 import { Layer, Effect, Option, DateTime } from "effect"
 import { SqlClient } from "@effect/sql"
-import { OrderRepository, type CreateOrderResult } from "./OrderRepository.js"
+import {
+  OrderRepository,
+  type CreateOrderResult,
+  type ListOrdersQuery,
+  type OrderItemAdjustment
+} from "./OrderRepository.js"
 import {
   Order,
   OrderId,
@@ -155,6 +160,83 @@ export const OrderRepositoryLive = Layer.effect(
           return result.map(mapRowToOrderItem)
         }),
 
+      list: (query: ListOrdersQuery) =>
+        Effect.gen(function* () {
+          const descending = query.sort === "created_at_desc"
+          const conditions = [
+            ...(query.userId !== undefined ? [sql`user_id = ${query.userId}`] : []),
+            ...(query.orderLedgerIds !== undefined
+              ? [sql`order_ledger_id = ANY(${query.orderLedgerIds}::uuid[])`]
+              : []),
+            ...(query.status !== undefined ? [sql`status = ${query.status}`] : []),
+            ...(query.createdFrom !== undefined
+              ? [sql`created_at >= ${DateTime.toDateUtc(query.createdFrom)}`]
+              : []),
+            ...(query.createdTo !== undefined
+              ? [sql`created_at < ${DateTime.toDateUtc(query.createdTo)}`]
+              : []),
+            // Resolve the cursor's position in SQL so it keeps the column's full precision
+            ...(query.after !== undefined
+              ? [descending
+                  ? sql`(created_at, id) < (SELECT created_at, id FROM orders WHERE id = ${query.after})`
+                  : sql`(created_at, id) > (SELECT created_at, id FROM orders WHERE id = ${query.after})`]
+              : [])
+          ]
+
+          const result = yield* sql<OrderRow>`
+            SELECT * FROM orders
+            WHERE ${sql.and(conditions)}
+            ${descending ? sql`ORDER BY created_at DESC, id DESC` : sql`ORDER BY created_at ASC, id ASC`}
+            LIMIT ${query.limit}
+          `
+          return result.map(mapRowToOrder)
+        }),
+
+      getItemsForOrders: (orderIds: readonly OrderId[]) =>
+        Effect.gen(function* () {
+          if (orderIds.length === 0) {
+            return []
+          }
+          const result = yield* sql<OrderItemRow>`
+            SELECT * FROM order_items WHERE order_id = ANY(${orderIds}::uuid[])
+            ORDER BY created_at
+          `
+          return result.map(mapRowToOrderItem)
+        }),
+
+      adjustItems: (orderId: OrderId, adjustments: readonly OrderItemAdjustment[], totalAmountCents: number) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // Update the order first so a concurrent cancel or confirm leaves the items alone
+            const result = yield* sql<OrderRow>`
+              UPDATE orders
+              SET total_amount_cents = ${totalAmountCents}, updated_at = NOW()
+              WHERE id = ${orderId} AND status = 'CREATED'
+              RETURNING *
+            `
+            if (result.length === 0) {
+              return Option.none()
+            }
+
+            for (const adjustment of adjustments) {
+              if (adjustment.quantity === 0) {
+                yield* sql`
+                  DELETE FROM order_items
+                  WHERE id = ${adjustment.itemId} AND order_id = ${orderId}
+                `
+              } else {
+                yield* sql`
+                  UPDATE order_items
+                  SET quantity = ${adjustment.quantity}
+                  WHERE id = ${adjustment.itemId} AND order_id = ${orderId}
+                `
+              }
+            }
+
+            return Option.some(mapRowToOrder(result[0]))
+          })
+        ),
+
       updateStatus: (orderId: OrderId, status: OrderStatus) =>
         Effect.gen(function* () {
           const result = yield* sql<OrderRow>`
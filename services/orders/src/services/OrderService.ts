@@ -4,9 +4,16 @@ import type {
   Order,
   OrderId,
   OrderItem,
-  CreateOrderRequest
+  CreateOrderRequest,
+  AdjustOrderRequest
 } from "../domain/Order.js"
-import type { OrderNotFoundError, InvalidOrderStatusError } from "../domain/errors.js"
+import type {
+  OrderNotFoundError,
+  InvalidOrderStatusError,
+  InvalidOrderAdjustmentError,
+  InvalidCursorError
+} from "../domain/errors.js"
+import type { ListOrdersQuery } from "../repositories/OrderRepository.js"
 
 // Response type that includes order with its items
 export interface OrderWithItems {
@@ -14,6 +21,13 @@ export interface OrderWithItems {
   readonly items: readonly OrderItem[]
 }
 
+// One page of an order listing
+export interface OrderPage {
+  readonly orders: readonly OrderWithItems[]
+  // Pass as `after` to fetch the next page; null on the last page
+  readonly nextCursor: OrderId | null
+}
+
 export class OrderService extends Context.Tag("OrderService")<
   OrderService,
   {
@@ -39,10 +53,21 @@ export class OrderService extends Context.Tag("OrderService")<
     ) => Effect.Effect<OrderWithItems, OrderNotFoundError | SqlError.SqlError>
 
     /**
-     * Cancels an order (compensation action).
+     * Lists orders with their items, one keyset page at a time.
+     *
+     * @param query - Filters, sort order, page size and the cursor to resume from
+     * @returns The page of orders and the cursor for the next one, or fails
+     *   with InvalidCursorError when the cursor names no order
+     */
+    readonly list: (
+      query: ListOrdersQuery
+    ) => Effect.Effect<OrderPage, InvalidCursorError | SqlError.SqlError>
+
+    /**
+     * Cancels an order (compensation action or customer cancellation).
+     * CONFIRMED orders can be cancelled so a completed order can still be unwound.
      * Idempotent: if order is already CANCELLED, returns the order without error.
      * Fails with OrderNotFoundError if order doesn't exist.
-     * Fails with InvalidOrderStatusError if order is in CONFIRMED state.
      *
      * @param id - The order ID to cancel
      * @returns The order with items after cancellation
@@ -51,6 +76,27 @@ export class OrderService extends Context.Tag("OrderService")<
       id: OrderId
     ) => Effect.Effect<OrderWithItems, OrderNotFoundError | InvalidOrderStatusError | SqlError.SqlError>
 
+    /**
+     * Reduces an order to the quantities that could be fulfilled, lowering its
+     * total by the value removed. A product's quantity is taken off its last
+     * items first, and items left with nothing are removed.
+     * Idempotent: repeating an adjustment changes nothing.
+     * Fails with InvalidOrderStatusError unless the order is CREATED.
+     * Fails with InvalidOrderAdjustmentError for a product not on the order,
+     * a quantity above the current one, or an adjustment that leaves no items.
+     *
+     * @param id - The order ID to adjust
+     * @param request - The quantity to keep of each product being reduced
+     * @returns The order with items after the adjustment
+     */
+    readonly adjust: (
+      id: OrderId,
+      request: AdjustOrderRequest
+    ) => Effect.Effect<
+      OrderWithItems,
+      OrderNotFoundError | InvalidOrderStatusError | InvalidOrderAdjustmentError | SqlError.SqlError
+    >
+
     /**
      * Confirms an order (final saga step).
      * Idempotent: if order is already CONFIRMED, returns the order without error.
@@ -1,8 +1,69 @@
 import { Layer, Effect, Option, Match } from "effect"
-import { OrderService, type OrderWithItems } from "./OrderService.js"
-import { OrderRepository } from "../repositories/OrderRepository.js"
-import { OrderNotFoundError, InvalidOrderStatusError } from "../domain/errors.js"
-import type { CreateOrderRequest, OrderId } from "../domain/Order.js"
+import { OrderService, type OrderPage, type OrderWithItems } from "./OrderService.js"
+import {
+  OrderRepository,
+  type ListOrdersQuery,
+  type OrderItemAdjustment
+} from "../repositories/OrderRepository.js"
+import {
+  OrderNotFoundError,
+  InvalidOrderStatusError,
+  InvalidOrderAdjustmentError,
+  InvalidCursorError
+} from "../domain/errors.js"
+import type { AdjustOrderRequest, CreateOrderRequest, Order, OrderId, OrderItem } from "../domain/Order.js"
+
+// Work out the item changes for an adjustment and the value they remove.
+// Each product's quantity is kept on its earliest items, so repeating the
+// same adjustment yields no changes - including a drop whose lines are gone.
+const planAdjustment = (
+  order: Order,
+  items: readonly OrderItem[],
+  request: AdjustOrderRequest
+) =>
+  Effect.gen(function* () {
+    const ordered = [...items].sort((a, b) =>
+      a.createdAt.epochMillis - b.createdAt.epochMillis || a.id.localeCompare(b.id)
+    )
+    const adjustments: OrderItemAdjustment[] = []
+    let removedCents = 0
+
+    for (const { productId, quantity } of request.items) {
+      const productItems = ordered.filter((item) => item.productId === productId)
+      if (productItems.length === 0) {
+        // Dropped lines are deleted, so a repeated drop finds none and is already applied
+        if (quantity === 0) continue
+        return yield* Effect.fail(
+          new InvalidOrderAdjustmentError({ orderId: order.id, productId, reason: "unknown_product" })
+        )
+      }
+      const current = productItems.reduce((sum, item) => sum + item.quantity, 0)
+      if (quantity > current) {
+        return yield* Effect.fail(
+          new InvalidOrderAdjustmentError({ orderId: order.id, productId, reason: "quantity_increase" })
+        )
+      }
+
+      let remaining = quantity
+      for (const item of productItems) {
+        const kept = Math.min(item.quantity, remaining)
+        remaining -= kept
+        if (kept !== item.quantity) {
+          adjustments.push({ itemId: item.id, quantity: kept })
+          removedCents += (item.quantity - kept) * item.unitPriceCents
+        }
+      }
+    }
+
+    const removedItems = adjustments.filter((adjustment) => adjustment.quantity === 0).length
+    if (removedItems === items.length) {
+      return yield* Effect.fail(
+        new InvalidOrderAdjustmentError({ orderId: order.id, productId: null, reason: "no_items_left" })
+      )
+    }
+
+    return { adjustments, totalAmountCents: order.totalAmountCents - removedCents }
+  })
 
 export const OrderServiceLive = Layer.effect(
   OrderService,
@@ -41,6 +102,27 @@ export const OrderServiceLive = Layer.effect(
           return { order, items } as OrderWithItems
         }),
 
+      list: (query: ListOrdersQuery) =>
+        Effect.gen(function* () {
+          // A cursor that names no order would otherwise read as an empty last page
+          if (query.after !== undefined && Option.isNone(yield* repo.findById(query.after))) {
+            return yield* Effect.fail(new InvalidCursorError({ cursor: query.after }))
+          }
+
+          // Fetch one extra row to learn whether another page follows
+          const rows = yield* repo.list({ ...query, limit: query.limit + 1 })
+          const orders = rows.slice(0, query.limit)
+          const items = yield* repo.getItemsForOrders(orders.map((order) => order.id))
+
+          return {
+            orders: orders.map((order) => ({
+              order,
+              items: items.filter((item) => item.orderId === order.id)
+            })),
+            nextCursor: rows.length > query.limit ? orders[orders.length - 1].id : null
+          } satisfies OrderPage
+        }),
+
       cancel: (id: OrderId) =>
         Effect.gen(function* () {
           const orderOpt = yield* repo.findById(id)
@@ -59,8 +141,8 @@ export const OrderServiceLive = Layer.effect(
             return { order, items } as OrderWithItems
           }
 
-          // Only CREATED orders can be cancelled
-          if (order.status !== "CREATED") {
+          // CONFIRMED orders can be cancelled too - the customer may cancel after completion
+          if (order.status !== "CREATED" && order.status !== "CONFIRMED") {
             return yield* Effect.fail(
               new InvalidOrderStatusError({
                 orderId: id,
@@ -85,6 +167,55 @@ export const OrderServiceLive = Layer.effect(
           return { order: updated, items } as OrderWithItems
         }),
 
+      adjust: (id: OrderId, request: AdjustOrderRequest) =>
+        Effect.gen(function* () {
+          const orderOpt = yield* repo.findById(id)
+
+          if (Option.isNone(orderOpt)) {
+            return yield* Effect.fail(
+              new OrderNotFoundError({ orderId: id, searchedBy: "id" })
+            )
+          }
+
+          const order = orderOpt.value
+
+          // Only a CREATED order can still change - the saga adjusts before confirming
+          if (order.status !== "CREATED") {
+            return yield* Effect.fail(
+              new InvalidOrderStatusError({
+                orderId: id,
+                currentStatus: order.status,
+                attemptedStatus: "CREATED"
+              })
+            )
+          }
+
+          const items = yield* repo.getItems(id)
+          const { adjustments, totalAmountCents } = yield* planAdjustment(order, items, request)
+
+          // Idempotency: already adjusted → return as-is
+          if (adjustments.length === 0) {
+            return { order, items } as OrderWithItems
+          }
+
+          const updated = yield* repo.adjustItems(id, adjustments, totalAmountCents)
+
+          // The order was cancelled or confirmed since it was read
+          if (Option.isNone(updated)) {
+            const current = yield* repo.findById(id)
+            return yield* Effect.fail(
+              new InvalidOrderStatusError({
+                orderId: id,
+                currentStatus: Option.match(current, { onNone: () => "UNKNOWN", onSome: (o) => o.status }),
+                attemptedStatus: "CREATED"
+              })
+            )
+          }
+
+          const adjustedItems = yield* repo.getItems(id)
+          return { order: updated.value, items: adjustedItems } as OrderWithItems
+        }),
+
       confirm: (id: OrderId) =>
         Effect.gen(function* () {
           const orderOpt = yield* repo.findById(id)
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Exit, Option, Schema } from "effect"
+import { FaultInjector } from "../services/FaultInjector.js"
+import { FaultInjectorLive } from "../services/FaultInjectorLive.js"
+import { CreateFaultScenarioRequest } from "../domain/FaultScenario.js"
+
+const scenario = (input: Record<string, unknown>) =>
+  Schema.decodeUnknownSync(CreateFaultScenarioRequest)(input)
+
+const runTest = <A, E>(effect: Effect.Effect<A, E, FaultInjector>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(FaultInjectorLive)))
+
+describe("FaultInjector", () => {
+  it("should fault the next N matching requests, then let requests through", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const injector = yield* FaultInjector
+        yield* injector.register(scenario({
+          operation: "capture",
+          fault: { type: "gateway_error" },
+          times: 2
+        }))
+
+        const faults = []
+        for (let i = 0; i < 3; i++) {
+          faults.push(yield* injector.next("capture", {}))
+        }
+        return { faults, remaining: yield* injector.list() }
+      })
+    )
+
+    expect(Option.isSome(result.faults[0]!)).toBe(true)
+    expect(Option.isSome(result.faults[1]!)).toBe(true)
+    expect(Option.isNone(result.faults[2]!)).toBe(true)
+    expect(result.remaining).toHaveLength(0)
+  })
+
+  it("should keep faulting without a times budget", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const injector = yield* FaultInjector
+        yield* injector.register(scenario({ operation: "void", fault: { type: "timeout", delay_ms: 15000 } }))
+        yield* injector.next("void", {})
+        yield* injector.next("void", {})
+        return yield* injector.list()
+      })
+    )
+
+    expect(result).toHaveLength(1)
+    expect(result[0]!.remaining).toBeNull()
+    expect(result[0]!.triggeredCount).toBe(2)
+    expect(result[0]!.fault).toEqual({ _tag: "Timeout", delayMs: 15000 })
+  })
+
+  it("should only match the scenario's operation, payment token and user", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const injector = yield* FaultInjector
+        yield* injector.register(scenario({
+          operation: "authorize",
+          payment_token: "tok_flaky",
+          user_id: "550e8400-e29b-41d4-a716-446655440000",
+          fault: { type: "decline", decline_code: "do_not_honor" }
+        }))
+
+        return {
+          otherOperation: yield* injector.next("capture", { userId: "550e8400-e29b-41d4-a716-446655440000" }),
+          otherToken: yield* injector.next("authorize", {
+            paymentToken: "tok_valid",
+            userId: "550e8400-e29b-41d4-a716-446655440000"
+          }),
+          otherUser: yield* injector.next("authorize", {
+            paymentToken: "tok_flaky",
+            userId: "550e8400-e29b-41d4-a716-446655440001"
+          }),
+          match: yield* injector.next("authorize", {
+            paymentToken: "tok_flaky",
+            userId: "550e8400-e29b-41d4-a716-446655440000"
+          })
+        }
+      })
+    )
+
+    expect(Option.isNone(result.otherOperation)).toBe(true)
+    expect(Option.isNone(result.otherToken)).toBe(true)
+    expect(Option.isNone(result.otherUser)).toBe(true)
+    expect(Option.getOrThrow(result.match)).toEqual({
+      _tag: "Decline",
+      declineCode: "do_not_honor",
+      reason: "Payment declined"
+    })
+  })
+
+  it("should reject a decline scenario for an operation other than authorize", async () => {
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const injector = yield* FaultInjector
+        return yield* injector.register(scenario({
+          operation: "capture",
+          fault: { type: "decline", decline_code: "card_declined" }
+        }))
+      }).pipe(Effect.provide(FaultInjectorLive))
+    )
+
+    expect(Exit.isFailure(exit)).toBe(true)
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("InvalidFaultScenarioError")
+    }
+  })
+
+  it("should remove a single scenario and clear all scenarios", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const injector = yield* FaultInjector
+        const first = yield* injector.register(scenario({ operation: "refund", fault: { type: "gateway_error" } }))
+        yield* injector.register(scenario({ operation: "capture", fault: { type: "latency", delay_ms: 50 } }))
+        yield* injector.register(scenario({ operation: "void", fault: { type: "gateway_error" } }))
+
+        yield* injector.remove(first.id)
+        const afterRemove = yield* injector.list()
+        const missing = yield* injector.remove(first.id).pipe(Effect.flip)
+        const cleared = yield* injector.clear()
+
+        return { afterRemove, missing, cleared, afterClear: yield* injector.list() }
+      })
+    )
+
+    expect(result.afterRemove.map((s) => s.operation)).toEqual(["capture", "void"])
+    expect(result.missing._tag).toBe("FaultScenarioNotFoundError")
+    expect(result.cleared).toBe(2)
+    expect(result.afterClear).toHaveLength(0)
+  })
+})
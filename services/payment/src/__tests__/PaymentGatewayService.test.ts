@@ -1,34 +1,74 @@
 import { describe, it, expect } from "vitest"
-import { Effect, Layer, Option, Exit } from "effect"
+import { Effect, Layer, Option, Exit, Schema } from "effect"
 import { PaymentGatewayService } from "../services/PaymentGatewayService.js"
 import { PaymentGatewayServiceLive } from "../services/PaymentGatewayServiceLive.js"
 import { PaymentConfig } from "../config.js"
-import { AuthorizePaymentRequest } from "../domain/Authorization.js"
+import { PaymentRepositoryInMemory } from "../repositories/PaymentRepositoryInMemory.js"
+import { FaultInjector } from "../services/FaultInjector.js"
+import { FaultInjectorLive } from "../services/FaultInjectorLive.js"
+import { CreateFaultScenarioRequest } from "../domain/FaultScenario.js"
+import { AuthorizePaymentRequest, CompleteAuthenticationRequest } from "../domain/Authorization.js"
 import { CapturePaymentRequest } from "../domain/Capture.js"
 import { VoidPaymentRequest } from "../domain/Void.js"
+import { RefundPaymentRequest } from "../domain/Refund.js"
 import type {
   PaymentDeclinedError,
   AuthorizationNotFoundError,
   AlreadyVoidedError,
-  AlreadyCapturedError
+  AlreadyCapturedError,
+  CaptureNotFoundError,
+  RefundExceedsCaptureError,
+  AuthorizationExpiredError,
+  AuthorizationNotCompletedError,
+  CaptureExceedsAuthorizationError
 } from "../domain/errors.js"
 
 // Test config with no latency and no random failures
 const TestConfigLive = Layer.succeed(PaymentConfig, {
   port: 3099,
   mockLatencyMs: 0,
-  mockFailureRate: 0
+  mockFailureRate: 0,
+  authorizationTtlSeconds: 3600,
+  store: "memory"
 })
 
+// Fault injector is exposed too so tests can register scenarios
 const TestServiceLive = PaymentGatewayServiceLive.pipe(
-  Layer.provide(TestConfigLive)
+  Layer.provideMerge(FaultInjectorLive),
+  Layer.provide(Layer.mergeAll(TestConfigLive, PaymentRepositoryInMemory))
 )
 
-const runTest = <A, E>(effect: Effect.Effect<A, E, PaymentGatewayService>) =>
+const runTest = <A, E>(effect: Effect.Effect<A, E, PaymentGatewayService | FaultInjector>) =>
   Effect.runPromise(
     effect.pipe(Effect.provide(TestServiceLive))
   )
 
+// Authorize and capture a payment, returning the capture
+const authorizeAndCapture = (amountCents: number, key: string) =>
+  Effect.gen(function* () {
+    const gateway = yield* PaymentGatewayService
+    const auth = yield* gateway.authorize(
+      new AuthorizePaymentRequest({
+        user_id: "550e8400-e29b-41d4-a716-446655440000",
+        amount_cents: amountCents,
+        currency: "USD",
+        payment_token: "tok_valid",
+        idempotency_key: `auth-${key}`
+      })
+    )
+    return yield* gateway.capture(
+      auth.authorization_id,
+      new CapturePaymentRequest({ idempotency_key: `capture-${key}`, amount_cents: Option.none() })
+    )
+  })
+
+const refundRequest = (key: string, amountCents?: number) =>
+  new RefundPaymentRequest({
+    idempotency_key: key,
+    amount_cents: amountCents === undefined ? Option.none() : Option.some(amountCents),
+    reason: Option.none()
+  })
+
 describe("PaymentGatewayService", () => {
   describe("authorize", () => {
     it("should authorize a valid payment", async () => {
@@ -423,6 +463,278 @@ describe("PaymentGatewayService", () => {
     })
   })
 
+  describe("capture - partial and multiple captures", () => {
+    const authorizeFor = (amountCents: number, key: string) =>
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        return yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: amountCents,
+            currency: "USD",
+            payment_token: "tok_valid",
+            idempotency_key: `auth-${key}`
+          })
+        )
+      })
+
+    const captureRequest = (key: string, amountCents?: number) =>
+      new CapturePaymentRequest({
+        idempotency_key: key,
+        amount_cents: amountCents === undefined ? Option.none() : Option.some(amountCents)
+      })
+
+    it("should allow multiple partial captures up to the authorized amount", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* authorizeFor(5000, "multi-capture")
+
+          const first = yield* gateway.capture(auth.authorization_id, captureRequest("multi-capture-1", 2000))
+          const afterFirst = yield* gateway.getAuthorization(auth.authorization_id)
+          const second = yield* gateway.capture(auth.authorization_id, captureRequest("multi-capture-2", 1000))
+          // No amount captures whatever is left
+          const third = yield* gateway.capture(auth.authorization_id, captureRequest("multi-capture-3"))
+          const afterThird = yield* gateway.getAuthorization(auth.authorization_id)
+
+          return { first, afterFirst, second, third, afterThird }
+        })
+      )
+
+      expect(result.first.total_captured_cents).toBe(2000)
+      expect(result.first.remaining_capturable_cents).toBe(3000)
+      expect(Option.getOrThrow(result.afterFirst).status).toBe("PARTIALLY_CAPTURED")
+      expect(result.second.remaining_capturable_cents).toBe(2000)
+      expect(result.third.amount_cents).toBe(2000)
+      expect(result.third.total_captured_cents).toBe(5000)
+      expect(result.third.remaining_capturable_cents).toBe(0)
+      expect(new Set([result.first.capture_id, result.second.capture_id, result.third.capture_id]).size).toBe(3)
+      expect(Option.getOrThrow(result.afterThird).status).toBe("CAPTURED")
+    })
+
+    it("should fail with CaptureExceedsAuthorizationError when capturing more than remains", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* authorizeFor(3000, "over-capture")
+          yield* gateway.capture(auth.authorization_id, captureRequest("over-capture-1", 2000))
+          return yield* gateway.capture(auth.authorization_id, captureRequest("over-capture-2", 1500))
+        }).pipe(Effect.provide(TestServiceLive))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as CaptureExceedsAuthorizationError
+        expect(error._tag).toBe("CaptureExceedsAuthorizationError")
+        expect(error.requestedCents).toBe(1500)
+        expect(error.capturableCents).toBe(1000)
+      }
+    })
+
+    it("should release the remainder when voiding a partially captured authorization", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* authorizeFor(4000, "partial-void")
+          yield* gateway.capture(auth.authorization_id, captureRequest("partial-void-1", 1000))
+
+          const voided = yield* gateway.voidAuthorization(
+            auth.authorization_id,
+            new VoidPaymentRequest({ idempotency_key: "partial-void-void", reason: Option.none() })
+          )
+          expect(voided.status).toBe("VOIDED")
+
+          // The replayed capture still reports, but nothing more can be captured
+          const replayed = yield* gateway.capture(auth.authorization_id, captureRequest("partial-void-1", 1000))
+          expect(replayed.remaining_capturable_cents).toBe(0)
+
+          return yield* gateway.capture(auth.authorization_id, captureRequest("partial-void-2", 1000))
+        }).pipe(Effect.provide(TestServiceLive))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect((exit.cause.error as AlreadyVoidedError)._tag).toBe("AlreadyVoidedError")
+      }
+    })
+  })
+
+  describe("capture - authorization expiry", () => {
+    const ExpiringServiceLive = (authorizationTtlSeconds: number) =>
+      PaymentGatewayServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(
+          Layer.succeed(PaymentConfig, {
+            port: 3099,
+            mockLatencyMs: 0,
+            mockFailureRate: 0,
+            authorizationTtlSeconds,
+            store: "memory"
+          }),
+          PaymentRepositoryInMemory,
+          FaultInjectorLive
+        ))
+      )
+
+    it("should set expires_at from the configured TTL", async () => {
+      const result = await Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        return yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 1000,
+            currency: "USD",
+            payment_token: "tok_valid",
+            idempotency_key: "auth-ttl"
+          })
+        )
+      }).pipe(Effect.provide(ExpiringServiceLive(600)), Effect.runPromise)
+
+      expect(Date.parse(result.expires_at) - Date.parse(result.created_at)).toBe(600 * 1000)
+    })
+
+    it("should reject capture of an expired authorization", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* gateway.authorize(
+            new AuthorizePaymentRequest({
+              user_id: "550e8400-e29b-41d4-a716-446655440000",
+              amount_cents: 1000,
+              currency: "USD",
+              payment_token: "tok_valid",
+              idempotency_key: "auth-expired"
+            })
+          )
+          return yield* gateway.capture(
+            auth.authorization_id,
+            new CapturePaymentRequest({ idempotency_key: "capture-expired", amount_cents: Option.none() })
+          )
+        }).pipe(Effect.provide(ExpiringServiceLive(0)))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as AuthorizationExpiredError
+        expect(error._tag).toBe("AuthorizationExpiredError")
+        expect(error.expiredAt).toBeDefined()
+      }
+    })
+  })
+
+  describe("3-D Secure authentication", () => {
+    const authorizeWith3ds = (key: string) =>
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        return yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 2500,
+            currency: "USD",
+            payment_token: "tok_3ds_required",
+            idempotency_key: `auth-${key}`
+          })
+        )
+      })
+
+    it("should return REQUIRES_ACTION with a challenge URL for a 3DS token", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* authorizeWith3ds("3ds-challenge")
+          const replayed = yield* authorizeWith3ds("3ds-challenge")
+          const state = yield* gateway.getAuthorization(auth.authorization_id)
+          return { auth, replayed, state }
+        })
+      )
+
+      expect(result.auth.status).toBe("REQUIRES_ACTION")
+      expect(result.auth.challenge_url).toContain(result.auth.authorization_id)
+      expect(result.replayed.status).toBe("REQUIRES_ACTION")
+      expect(result.replayed.challenge_url).toBe(result.auth.challenge_url)
+      expect(Option.getOrThrow(result.state).status).toBe("REQUIRES_ACTION")
+    })
+
+    it("should refuse to capture until authentication completes, then capture", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* authorizeWith3ds("3ds-capture")
+          const captureRequest = new CapturePaymentRequest({
+            idempotency_key: "3ds-capture-capture",
+            amount_cents: Option.none()
+          })
+
+          const early = yield* gateway.capture(auth.authorization_id, captureRequest).pipe(Effect.flip)
+          const completed = yield* gateway.completeAuthentication(
+            auth.authorization_id,
+            new CompleteAuthenticationRequest({ authentication_result: "succeeded" })
+          )
+          // A repeated callback reports the same outcome
+          const repeated = yield* gateway.completeAuthentication(
+            auth.authorization_id,
+            new CompleteAuthenticationRequest({ authentication_result: "failed" })
+          )
+          const capture = yield* gateway.capture(auth.authorization_id, captureRequest)
+          return { early, completed, repeated, capture }
+        })
+      )
+
+      expect(result.early._tag).toBe("AuthorizationNotCompletedError")
+      expect((result.early as AuthorizationNotCompletedError).status).toBe("REQUIRES_ACTION")
+      expect(result.completed.status).toBe("AUTHORIZED")
+      expect(result.completed.challenge_url).toBeUndefined()
+      expect(result.repeated.status).toBe("AUTHORIZED")
+      expect(result.capture.status).toBe("CAPTURED")
+      expect(result.capture.amount_cents).toBe(2500)
+    })
+
+    it("should decline the authorization when authentication fails", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const auth = yield* authorizeWith3ds("3ds-failed")
+          const declined = yield* gateway.completeAuthentication(
+            auth.authorization_id,
+            new CompleteAuthenticationRequest({ authentication_result: "failed" })
+          ).pipe(Effect.flip)
+          const repeated = yield* gateway.completeAuthentication(
+            auth.authorization_id,
+            new CompleteAuthenticationRequest({ authentication_result: "succeeded" })
+          ).pipe(Effect.flip)
+          const capture = yield* gateway.capture(
+            auth.authorization_id,
+            new CapturePaymentRequest({ idempotency_key: "3ds-failed-capture", amount_cents: Option.none() })
+          ).pipe(Effect.flip)
+          const replayed = yield* authorizeWith3ds("3ds-failed")
+          return { declined, repeated, capture, replayed }
+        })
+      )
+
+      expect(result.declined._tag).toBe("PaymentDeclinedError")
+      expect((result.declined as PaymentDeclinedError).declineCode).toBe("authentication_failed")
+      expect((result.repeated as PaymentDeclinedError).declineCode).toBe("authentication_failed")
+      expect((result.capture as AuthorizationNotCompletedError).status).toBe("DECLINED")
+      expect(result.replayed.status).toBe("DECLINED")
+    })
+
+    it("should fail to complete a non-existent authorization", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          return yield* gateway.completeAuthentication(
+            "auth_nonexistent",
+            new CompleteAuthenticationRequest({ authentication_result: "succeeded" })
+          )
+        }).pipe(Effect.provide(TestServiceLive))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect((exit.cause.error as AuthorizationNotFoundError)._tag).toBe("AuthorizationNotFoundError")
+      }
+    })
+  })
+
   describe("voidAuthorization", () => {
     it("should void an authorized payment", async () => {
       const result = await runTest(
@@ -578,6 +890,108 @@ describe("PaymentGatewayService", () => {
     })
   })
 
+  describe("refund", () => {
+    it("should refund the full captured amount by default", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const capture = yield* authorizeAndCapture(2500, "refund-full")
+          const refund = yield* gateway.refund(capture.capture_id, refundRequest("refund-full"))
+          return { capture, refund }
+        })
+      )
+
+      expect(result.refund.status).toBe("REFUNDED")
+      expect(result.refund.refund_id).toMatch(/^ref_[a-zA-Z0-9]{24}$/)
+      expect(result.refund.capture_id).toBe(result.capture.capture_id)
+      expect(result.refund.authorization_id).toBe(result.capture.authorization_id)
+      expect(result.refund.amount_cents).toBe(2500)
+      expect(result.refund.total_refunded_cents).toBe(2500)
+    })
+
+    it("should accumulate partial refunds", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const capture = yield* authorizeAndCapture(5000, "refund-partial")
+          const first = yield* gateway.refund(capture.capture_id, refundRequest("refund-partial-1", 1000))
+          const rest = yield* gateway.refund(capture.capture_id, refundRequest("refund-partial-2"))
+          return { first, rest }
+        })
+      )
+
+      expect(result.first.amount_cents).toBe(1000)
+      expect(result.first.total_refunded_cents).toBe(1000)
+      expect(result.rest.amount_cents).toBe(4000)
+      expect(result.rest.total_refunded_cents).toBe(5000)
+    })
+
+    it("should return existing refund for duplicate idempotency key", async () => {
+      const result = await runTest(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const capture = yield* authorizeAndCapture(3000, "refund-idem")
+          const first = yield* gateway.refund(capture.capture_id, refundRequest("refund-idem", 1200))
+          const second = yield* gateway.refund(capture.capture_id, refundRequest("refund-idem", 1200))
+          return { first, second }
+        })
+      )
+
+      expect(result.second.refund_id).toBe(result.first.refund_id)
+      expect(result.second.total_refunded_cents).toBe(1200)
+    })
+
+    it("should fail when refund exceeds the remaining captured amount", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const capture = yield* authorizeAndCapture(2000, "refund-exceeds")
+          yield* gateway.refund(capture.capture_id, refundRequest("refund-exceeds-1", 1500))
+          return yield* gateway.refund(capture.capture_id, refundRequest("refund-exceeds-2", 1000))
+        }).pipe(Effect.provide(TestServiceLive))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as RefundExceedsCaptureError
+        expect(error._tag).toBe("RefundExceedsCaptureError")
+        expect(error.requestedCents).toBe(1000)
+        expect(error.refundableCents).toBe(500)
+      }
+    })
+
+    it("should fail a full refund of an already fully refunded capture", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          const capture = yield* authorizeAndCapture(2000, "refund-twice")
+          yield* gateway.refund(capture.capture_id, refundRequest("refund-twice-1"))
+          return yield* gateway.refund(capture.capture_id, refundRequest("refund-twice-2"))
+        }).pipe(Effect.provide(TestServiceLive))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("RefundExceedsCaptureError")
+      }
+    })
+
+    it("should fail to refund non-existent capture", async () => {
+      const exit = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          const gateway = yield* PaymentGatewayService
+          return yield* gateway.refund("cap_nonexistent12345678901", refundRequest("refund-missing"))
+        }).pipe(Effect.provide(TestServiceLive))
+      )
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as CaptureNotFoundError
+        expect(error._tag).toBe("CaptureNotFoundError")
+      }
+    })
+  })
+
   describe("getAuthorization", () => {
     it("should return authorization state when it exists", async () => {
       const result = await runTest(
@@ -685,11 +1099,13 @@ describe("PaymentGatewayService with failure rate", () => {
     const FailingConfigLive = Layer.succeed(PaymentConfig, {
       port: 3099,
       mockLatencyMs: 0,
-      mockFailureRate: 1.0 // Always fail
+      mockFailureRate: 1.0, // Always fail
+      authorizationTtlSeconds: 3600,
+      store: "memory"
     })
 
     const FailingServiceLive = PaymentGatewayServiceLive.pipe(
-      Layer.provide(FailingConfigLive)
+      Layer.provide(Layer.mergeAll(FailingConfigLive, PaymentRepositoryInMemory, FaultInjectorLive))
     )
 
     const exit = await Effect.runPromiseExit(
@@ -713,3 +1129,209 @@ describe("PaymentGatewayService with failure rate", () => {
     }
   })
 })
+
+describe("PaymentGatewayService with fault scenarios", () => {
+  const scenario = (input: Record<string, unknown>) =>
+    Schema.decodeUnknownSync(CreateFaultScenarioRequest)(input)
+
+  it("should fail the next captures with a gateway error, then capture normally", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        const injector = yield* FaultInjector
+        const auth = yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 1000,
+            currency: "USD",
+            payment_token: "tok_valid",
+            idempotency_key: "auth-fault-capture"
+          })
+        )
+        yield* injector.register(scenario({ operation: "capture", fault: { type: "gateway_error" }, times: 2 }))
+
+        const captureRequest = new CapturePaymentRequest({
+          idempotency_key: "capture-fault",
+          amount_cents: Option.none()
+        })
+        const first = yield* gateway.capture(auth.authorization_id, captureRequest).pipe(Effect.flip)
+        const second = yield* gateway.capture(auth.authorization_id, captureRequest).pipe(Effect.flip)
+        const third = yield* gateway.capture(auth.authorization_id, captureRequest)
+        return { first, second, third }
+      })
+    )
+
+    expect(result.first._tag).toBe("GatewayConnectionError")
+    expect(result.second._tag).toBe("GatewayConnectionError")
+    expect(result.third.status).toBe("CAPTURED")
+  })
+
+  it("should decline authorizations for a scripted payment token", async () => {
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        const injector = yield* FaultInjector
+        yield* injector.register(scenario({
+          operation: "authorize",
+          payment_token: "tok_scripted",
+          fault: { type: "decline", decline_code: "do_not_honor", reason: "Do not honor" }
+        }))
+        return yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 1000,
+            currency: "USD",
+            payment_token: "tok_scripted",
+            idempotency_key: "auth-fault-decline"
+          })
+        )
+      }).pipe(Effect.provide(TestServiceLive))
+    )
+
+    expect(Exit.isFailure(exit)).toBe(true)
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      const error = exit.cause.error as PaymentDeclinedError
+      expect(error._tag).toBe("PaymentDeclinedError")
+      expect(error.declineCode).toBe("do_not_honor")
+    }
+  })
+
+  it("should replay an existing authorization without applying or using up a decline", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        const injector = yield* FaultInjector
+        const authorize = (key: string) =>
+          gateway.authorize(
+            new AuthorizePaymentRequest({
+              user_id: "550e8400-e29b-41d4-a716-446655440000",
+              amount_cents: 1000,
+              currency: "USD",
+              payment_token: "tok_valid",
+              idempotency_key: key
+            })
+          )
+        const original = yield* authorize("auth-fault-replay")
+        yield* injector.register(scenario({
+          operation: "authorize",
+          fault: { type: "decline", decline_code: "do_not_honor", reason: "Do not honor" },
+          times: 1
+        }))
+
+        const replayed = yield* authorize("auth-fault-replay")
+        const declined = yield* authorize("auth-fault-new").pipe(Effect.flip)
+        return { original, replayed, declined }
+      })
+    )
+
+    expect(result.replayed.authorization_id).toBe(result.original.authorization_id)
+    // The one-shot decline was still there for the new request
+    expect(result.declined._tag).toBe("PaymentDeclinedError")
+  })
+
+  it("should only fault the scenario's user", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        const injector = yield* FaultInjector
+        const authorizeFor = (userId: string, key: string) =>
+          gateway.authorize(
+            new AuthorizePaymentRequest({
+              user_id: userId,
+              amount_cents: 1000,
+              currency: "USD",
+              payment_token: "tok_valid",
+              idempotency_key: key
+            })
+          )
+        const faulted = yield* authorizeFor("550e8400-e29b-41d4-a716-446655440000", "auth-fault-user-1")
+        const unaffected = yield* authorizeFor("550e8400-e29b-41d4-a716-446655440001", "auth-fault-user-2")
+        yield* injector.register(scenario({
+          operation: "void",
+          user_id: "550e8400-e29b-41d4-a716-446655440000",
+          fault: { type: "timeout", delay_ms: 10 }
+        }))
+
+        const voidRequest = (key: string) => new VoidPaymentRequest({ idempotency_key: key, reason: Option.none() })
+        return {
+          faulted: yield* gateway.voidAuthorization(faulted.authorization_id, voidRequest("void-1")).pipe(Effect.flip),
+          unaffected: yield* gateway.voidAuthorization(unaffected.authorization_id, voidRequest("void-2"))
+        }
+      })
+    )
+
+    expect(result.faulted._tag).toBe("GatewayConnectionError")
+    expect(result.unaffected.status).toBe("VOIDED")
+  })
+})
+
+describe("PaymentGatewayService repository", () => {
+  it("should keep payment state in the repository across service instances", async () => {
+    const result = await Effect.gen(function* () {
+      // One repository, two service instances - as across a restart with PAYMENT_STORE=postgres
+      const repositoryContext = yield* Layer.build(PaymentRepositoryInMemory)
+      const RestartableServiceLive = PaymentGatewayServiceLive.pipe(
+        Layer.provide(Layer.mergeAll(TestConfigLive, Layer.succeedContext(repositoryContext), FaultInjectorLive))
+      )
+
+      const auth = yield* Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        return yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 2500,
+            currency: "USD",
+            payment_token: "tok_valid",
+            idempotency_key: "auth-restart"
+          })
+        )
+      }).pipe(Effect.provide(RestartableServiceLive))
+
+      return yield* Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        const replayed = yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 2500,
+            currency: "USD",
+            payment_token: "tok_valid",
+            idempotency_key: "auth-restart"
+          })
+        )
+        const capture = yield* gateway.capture(
+          auth.authorization_id,
+          new CapturePaymentRequest({ idempotency_key: "capture-restart", amount_cents: Option.none() })
+        )
+        return { auth, replayed, capture }
+      }).pipe(Effect.provide(RestartableServiceLive))
+    }).pipe(Effect.scoped, Effect.runPromise)
+
+    expect(result.replayed.authorization_id).toBe(result.auth.authorization_id)
+    expect(result.capture.authorization_id).toBe(result.auth.authorization_id)
+    expect(result.capture.amount_cents).toBe(2500)
+  })
+
+  it("should report the original void time when voiding again", async () => {
+    const result = await runTest(
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        const auth = yield* gateway.authorize(
+          new AuthorizePaymentRequest({
+            user_id: "550e8400-e29b-41d4-a716-446655440000",
+            amount_cents: 1000,
+            currency: "USD",
+            payment_token: "tok_valid",
+            idempotency_key: "auth-void-twice"
+          })
+        )
+        const voidRequest = new VoidPaymentRequest({ idempotency_key: "void-twice", reason: Option.none() })
+        const first = yield* gateway.voidAuthorization(auth.authorization_id, voidRequest)
+        yield* Effect.sleep("5 millis")
+        const second = yield* gateway.voidAuthorization(auth.authorization_id, voidRequest)
+        return { first, second }
+      })
+    )
+
+    expect(result.second.voided_at).toBe(result.first.voided_at)
+  })
+})
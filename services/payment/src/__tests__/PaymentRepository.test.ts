@@ -0,0 +1,391 @@
+import { describe, it, expect } from "vitest"
+import { Effect, Exit, Layer, Option } from "effect"
+import { SqlClient, SqlError } from "@effect/sql"
+import { PaymentRepository, type CaptureRecord, type RefundRecord } from "../repositories/PaymentRepository.js"
+import { PaymentRepositoryInMemory } from "../repositories/PaymentRepositoryInMemory.js"
+import { PaymentRepositoryLive } from "../repositories/PaymentRepositoryLive.js"
+import { PaymentGatewayService } from "../services/PaymentGatewayService.js"
+import { PaymentGatewayServiceLive } from "../services/PaymentGatewayServiceLive.js"
+import { FaultInjectorLive } from "../services/FaultInjectorLive.js"
+import { PaymentConfig } from "../config.js"
+import { CapturePaymentRequest } from "../domain/Capture.js"
+import type { AuthorizationState } from "../domain/Authorization.js"
+import type {
+  AuthorizationExpiredError,
+  AuthorizationNotFoundError,
+  GatewayConnectionError
+} from "../domain/errors.js"
+
+interface ExecutedQuery {
+  readonly text: string
+  readonly values: readonly unknown[]
+}
+
+// Mock SQL client that records every statement and answers from the handler.
+// A handler returning a SqlError fails the statement instead.
+const createMockSqlClient = (
+  queryHandler: (text: string, values: readonly unknown[]) => unknown[] | SqlError.SqlError,
+  executed: ExecutedQuery[] = []
+) => {
+  const mockSql = Object.assign(
+    (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?").replace(/\s+/g, " ").trim()
+      executed.push({ text, values })
+      const result = queryHandler(text, values)
+      return result instanceof SqlError.SqlError ? Effect.fail(result) : Effect.succeed(result)
+    },
+    {
+      withTransaction: <A, E, R>(effect: Effect.Effect<A, E, R>) => effect
+    }
+  )
+
+  return Layer.succeed(SqlClient.SqlClient, mockSql as any)
+}
+
+const liveRepository = (
+  queryHandler: (text: string, values: readonly unknown[]) => unknown[] | SqlError.SqlError,
+  executed: ExecutedQuery[] = []
+) => PaymentRepositoryLive.pipe(Layer.provide(createMockSqlClient(queryHandler, executed)))
+
+const runRepository = <A, E>(
+  effect: Effect.Effect<A, E, PaymentRepository>,
+  layer: Layer.Layer<PaymentRepository> = PaymentRepositoryInMemory
+) => Effect.runPromiseExit(effect.pipe(Effect.provide(layer)))
+
+const expectGatewayConnectionError = <A, E>(exit: Exit.Exit<A, E>) => {
+  expect(Exit.isFailure(exit)).toBe(true)
+  if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+    const error = exit.cause.error as GatewayConnectionError
+    expect(error._tag).toBe("GatewayConnectionError")
+    expect(error.isRetryable).toBe(true)
+    return error
+  }
+  throw new Error("Expected a GatewayConnectionError failure")
+}
+
+// Test fixtures
+const AUTHORIZATION_ID = "auth_test_1"
+const CAPTURE_ID = "cap_test_1"
+const USER_ID = "550e8400-e29b-41d4-a716-446655440000"
+
+const authorization = (overrides: Partial<AuthorizationState> = {}): AuthorizationState => ({
+  authorizationId: AUTHORIZATION_ID,
+  userId: USER_ID,
+  amountCents: 5000,
+  currency: "USD",
+  status: "AUTHORIZED",
+  idempotencyKey: "auth-key-1",
+  createdAt: new Date("2024-01-15T10:00:00Z"),
+  expiresAt: new Date(Date.now() + 3600_000),
+  ...overrides
+})
+
+const capture = (overrides: Partial<CaptureRecord> = {}): CaptureRecord => ({
+  captureId: CAPTURE_ID,
+  authorizationId: AUTHORIZATION_ID,
+  idempotencyKey: "capture-key-1",
+  amountCents: 5000,
+  capturedAt: new Date("2024-01-15T10:05:00Z"),
+  ...overrides
+})
+
+const refund = (overrides: Partial<RefundRecord> = {}): RefundRecord => ({
+  refundId: "ref_test_1",
+  captureId: CAPTURE_ID,
+  idempotencyKey: "refund-key-1",
+  amountCents: 1000,
+  reason: null,
+  refundedAt: new Date("2024-01-15T11:00:00Z"),
+  ...overrides
+})
+
+const authorizationRow = (overrides: Record<string, unknown> = {}) => ({
+  id: AUTHORIZATION_ID,
+  user_id: USER_ID,
+  amount_cents: 5000,
+  currency: "USD",
+  status: "AUTHORIZED",
+  idempotency_key: "auth-key-1",
+  created_at: new Date("2024-01-15T10:00:00Z"),
+  expires_at: new Date(Date.now() + 3600_000),
+  ...overrides
+})
+
+const captureRow = {
+  id: CAPTURE_ID,
+  authorization_id: AUTHORIZATION_ID,
+  amount_cents: 5000,
+  idempotency_key: "capture-key-1",
+  captured_at: new Date("2024-01-15T10:05:00Z")
+}
+
+describe("PaymentRepository", () => {
+  describe("PaymentRepositoryInMemory", () => {
+    it("should find a capture again by its idempotency key", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertAuthorization(authorization())
+          yield* repo.insertCapture(capture())
+          return yield* repo.findCaptureByIdempotencyKey("capture-key-1")
+        })
+      )
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      if (Exit.isSuccess(exit)) {
+        expect(Option.getOrThrow(exit.value).captureId).toBe(CAPTURE_ID)
+      }
+    })
+
+    it("should reject a second capture with the same idempotency key", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertAuthorization(authorization())
+          yield* repo.insertCapture(capture({ amountCents: 1000 }))
+          yield* repo.insertCapture(capture({ captureId: "cap_test_2", amountCents: 1000 }))
+        })
+      )
+
+      expect(expectGatewayConnectionError(exit).reason).toContain("changed during capture")
+    })
+
+    it("should reject a capture for a missing authorization", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertCapture(capture())
+        })
+      )
+
+      expectGatewayConnectionError(exit)
+    })
+
+    it("should move to PARTIALLY_CAPTURED and reject captures beyond the authorization", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertAuthorization(authorization())
+          yield* repo.insertCapture(capture({ amountCents: 3000 }))
+          const auth = yield* repo.findAuthorizationById(AUTHORIZATION_ID)
+          expect(Option.getOrThrow(auth).status).toBe("PARTIALLY_CAPTURED")
+          yield* repo.insertCapture(capture({ captureId: "cap_test_2", idempotencyKey: "capture-key-2", amountCents: 3000 }))
+        })
+      )
+
+      expectGatewayConnectionError(exit)
+    })
+
+    it("should reject a refund beyond the captured amount", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertAuthorization(authorization())
+          yield* repo.insertCapture(capture())
+          yield* repo.insertRefund(refund({ amountCents: 4000 }))
+          expect(yield* repo.totalRefundedCents(CAPTURE_ID)).toBe(4000)
+          yield* repo.insertRefund(refund({ refundId: "ref_test_2", idempotencyKey: "refund-key-2", amountCents: 2000 }))
+        })
+      )
+
+      expect(expectGatewayConnectionError(exit).reason).toContain("changed during refund")
+    })
+  })
+
+  describe("PaymentRepositoryLive", () => {
+    it("should map a capture found by idempotency key", async () => {
+      const executed: ExecutedQuery[] = []
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          return yield* repo.findCaptureByIdempotencyKey("capture-key-1")
+        }),
+        liveRepository(() => [captureRow], executed)
+      )
+
+      expect(executed[0].values).toEqual(["capture-key-1"])
+      expect(Exit.isSuccess(exit)).toBe(true)
+      if (Exit.isSuccess(exit)) {
+        expect(Option.getOrThrow(exit.value)).toEqual(capture())
+      }
+    })
+
+    it("should return None for a missing authorization", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          return yield* repo.findAuthorizationById("auth_missing")
+        }),
+        liveRepository(() => [])
+      )
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      if (Exit.isSuccess(exit)) {
+        expect(Option.isNone(exit.value)).toBe(true)
+      }
+    })
+
+    it("should map a store error to a retryable GatewayConnectionError", async () => {
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          return yield* repo.findAuthorizationById(AUTHORIZATION_ID)
+        }),
+        liveRepository(() => new SqlError.SqlError({ cause: new Error("connection refused"), message: "connection refused" }))
+      )
+
+      expect(expectGatewayConnectionError(exit).reason).toBe("Payment store error: connection refused")
+    })
+
+    it("should lock the authorization, insert the capture and update its status", async () => {
+      const executed: ExecutedQuery[] = []
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertCapture(capture({ amountCents: 2000 }))
+        }),
+        liveRepository((text) => {
+          if (text.startsWith("SELECT amount_cents, status FROM payment_authorizations")) {
+            return [{ amount_cents: 5000, status: "PARTIALLY_CAPTURED" }]
+          }
+          if (text.includes("FROM payment_captures")) return [{ total: 3000 }]
+          return []
+        }, executed)
+      )
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      expect(executed.map((query) => query.text.split(" ")[0])).toEqual(["SELECT", "SELECT", "INSERT", "UPDATE"])
+      expect(executed[0].text).toContain("FOR UPDATE")
+      expect(executed[2].values).toContain(CAPTURE_ID)
+      // 3000 already captured + 2000 now fills the authorization
+      expect(executed[3].values).toEqual(["CAPTURED", AUTHORIZATION_ID])
+    })
+
+    it("should reject a capture for a missing authorization without inserting", async () => {
+      const executed: ExecutedQuery[] = []
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertCapture(capture())
+        }),
+        liveRepository(() => [], executed)
+      )
+
+      expect(expectGatewayConnectionError(exit).reason).toContain("changed during capture")
+      expect(executed.some((query) => query.text.startsWith("INSERT"))).toBe(false)
+    })
+
+    it("should reject a capture beyond the authorization without inserting", async () => {
+      const executed: ExecutedQuery[] = []
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertCapture(capture({ amountCents: 3000 }))
+        }),
+        liveRepository((text) => {
+          if (text.startsWith("SELECT amount_cents, status FROM payment_authorizations")) {
+            return [{ amount_cents: 5000, status: "PARTIALLY_CAPTURED" }]
+          }
+          if (text.includes("FROM payment_captures")) return [{ total: 3000 }]
+          return []
+        }, executed)
+      )
+
+      expectGatewayConnectionError(exit)
+      expect(executed.some((query) => query.text.startsWith("INSERT"))).toBe(false)
+    })
+
+    it("should lock the capture and reject a refund beyond it", async () => {
+      const executed: ExecutedQuery[] = []
+      const exit = await runRepository(
+        Effect.gen(function* () {
+          const repo = yield* PaymentRepository
+          yield* repo.insertRefund(refund({ amountCents: 2000 }))
+        }),
+        liveRepository((text) => {
+          if (text.startsWith("SELECT amount_cents FROM payment_captures")) return [{ amount_cents: 5000 }]
+          if (text.includes("FROM payment_refunds")) return [{ total: 4000 }]
+          return []
+        }, executed)
+      )
+
+      expect(expectGatewayConnectionError(exit).reason).toContain("changed during refund")
+      expect(executed[0].text).toContain("FOR UPDATE")
+      expect(executed.some((query) => query.text.startsWith("INSERT"))).toBe(false)
+    })
+  })
+
+  // The gateway's idempotency and not-found/expired checks against rows read through the Postgres repository
+  describe("PaymentGatewayService over PaymentRepositoryLive", () => {
+    const TestConfigLive = Layer.succeed(PaymentConfig, {
+      port: 3099,
+      mockLatencyMs: 0,
+      mockFailureRate: 0,
+      authorizationTtlSeconds: 3600,
+      store: "postgres"
+    })
+
+    const runCapture = (
+      queryHandler: (text: string, values: readonly unknown[]) => unknown[],
+      executed: ExecutedQuery[] = []
+    ) =>
+      Effect.gen(function* () {
+        const gateway = yield* PaymentGatewayService
+        return yield* gateway.capture(
+          AUTHORIZATION_ID,
+          new CapturePaymentRequest({ idempotency_key: "capture-key-1", amount_cents: Option.none() })
+        )
+      }).pipe(
+        Effect.provide(
+          PaymentGatewayServiceLive.pipe(
+            Layer.provide(Layer.mergeAll(TestConfigLive, FaultInjectorLive, liveRepository(queryHandler, executed)))
+          )
+        ),
+        Effect.runPromiseExit
+      )
+
+    it("should replay an existing capture without writing", async () => {
+      const executed: ExecutedQuery[] = []
+      const exit = await runCapture((text) => {
+        if (text.includes("FROM payment_captures")) return [captureRow]
+        if (text.includes("FROM payment_authorizations")) return [authorizationRow({ status: "CAPTURED" })]
+        return []
+      }, executed)
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      if (Exit.isSuccess(exit)) {
+        expect(exit.value.capture_id).toBe(CAPTURE_ID)
+        expect(exit.value.amount_cents).toBe(5000)
+      }
+      expect(executed.some((query) => /^(INSERT|UPDATE)/.test(query.text))).toBe(false)
+    })
+
+    it("should fail with AuthorizationNotFoundError when no authorization row exists", async () => {
+      const exit = await runCapture(() => [])
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as AuthorizationNotFoundError
+        expect(error._tag).toBe("AuthorizationNotFoundError")
+        expect(error.authorizationId).toBe(AUTHORIZATION_ID)
+      }
+    })
+
+    it("should fail with AuthorizationExpiredError once the authorization row has expired", async () => {
+      const expiresAt = new Date(Date.now() - 1000)
+      const executed: ExecutedQuery[] = []
+      const exit = await runCapture((text) => {
+        if (text.includes("FROM payment_authorizations")) return [authorizationRow({ expires_at: expiresAt })]
+        return []
+      }, executed)
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        const error = exit.cause.error as AuthorizationExpiredError
+        expect(error._tag).toBe("AuthorizationExpiredError")
+        expect(error.expiredAt).toBe(expiresAt.toISOString())
+      }
+      expect(executed.some((query) => query.text.startsWith("INSERT"))).toBe(false)
+    })
+  })
+})
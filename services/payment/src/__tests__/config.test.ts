@@ -15,6 +15,39 @@ describe("PaymentConfig", () => {
     expect(result.port).toBe(3002)
     expect(result.mockLatencyMs).toBe(100)
     expect(result.mockFailureRate).toBe(0.0)
+    expect(result.store).toBe("memory")
+    expect(result.authorizationTtlSeconds).toBe(604800)
+  })
+
+  it("should read PAYMENT_STORE from environment", async () => {
+    const configProvider = ConfigProvider.fromMap(new Map([
+      ["PAYMENT_STORE", "postgres"]
+    ]))
+
+    const result = await Effect.gen(function* () {
+      const config = yield* PaymentConfig
+      return config
+    }).pipe(
+      Effect.provide(PaymentConfigLive.pipe(Layer.provide(Layer.setConfigProvider(configProvider)))),
+      Effect.runPromise
+    )
+
+    expect(result.store).toBe("postgres")
+  })
+
+  it("should reject an unknown PAYMENT_STORE", async () => {
+    const configProvider = ConfigProvider.fromMap(new Map([
+      ["PAYMENT_STORE", "redis"]
+    ]))
+
+    const exit = await Effect.gen(function* () {
+      return yield* PaymentConfig
+    }).pipe(
+      Effect.provide(PaymentConfigLive.pipe(Layer.provide(Layer.setConfigProvider(configProvider)))),
+      Effect.runPromiseExit
+    )
+
+    expect(exit._tag).toBe("Failure")
   })
 
   it("should read PORT from environment", async () => {
@@ -3,13 +3,17 @@ import { Schema, Effect, Exit, Option } from "effect"
 import { AuthorizePaymentRequest, AuthorizationResponse, AuthorizationId } from "../domain/Authorization.js"
 import { CapturePaymentRequest, CaptureResponse, AuthorizationIdParams, CaptureId } from "../domain/Capture.js"
 import { VoidPaymentRequest, VoidResponse } from "../domain/Void.js"
+import { RefundPaymentRequest, CaptureIdParams, RefundId } from "../domain/Refund.js"
 import {
   PaymentDeclinedError,
   GatewayConnectionError,
   AuthorizationNotFoundError,
   AlreadyCapturedError,
   AlreadyVoidedError,
-  IdempotencyKeyConflictError
+  IdempotencyKeyConflictError,
+  RefundExceedsCaptureError,
+  AuthorizationExpiredError,
+  CaptureExceedsAuthorizationError
 } from "../domain/errors.js"
 
 describe("Domain Models", () => {
@@ -47,6 +51,24 @@ describe("Domain Models", () => {
       expect(result.currency).toBe("USD")
     })
 
+    it("should default payment_method to card and accept other instruments", async () => {
+      const decode = Schema.decodeUnknown(AuthorizePaymentRequest)
+      const base = {
+        user_id: "550e8400-e29b-41d4-a716-446655440000",
+        amount_cents: 1000,
+        payment_token: "tok_valid",
+        idempotency_key: "idem-123"
+      }
+
+      const card = await Effect.runPromise(decode(base))
+      const giftCard = await Effect.runPromise(decode({ ...base, payment_method: "gift_card" }))
+      const unknown = await Effect.runPromiseExit(decode({ ...base, payment_method: "cheque" }))
+
+      expect(card.payment_method).toBe("card")
+      expect(giftCard.payment_method).toBe("gift_card")
+      expect(Exit.isFailure(unknown)).toBe(true)
+    })
+
     it("should reject invalid UUID", async () => {
       const decode = Schema.decodeUnknown(AuthorizePaymentRequest)
       const exit = await Effect.runPromiseExit(
@@ -290,6 +312,55 @@ describe("Domain Models", () => {
     })
   })
 
+  describe("RefundPaymentRequest", () => {
+    it("should decode a full refund request", async () => {
+      const decode = Schema.decodeUnknown(RefundPaymentRequest)
+      const result = await Effect.runPromise(decode({ idempotency_key: "refund-123" }))
+
+      expect(result.idempotency_key).toBe("refund-123")
+      expect(Option.isNone(result.amount_cents)).toBe(true)
+      expect(Option.isNone(result.reason)).toBe(true)
+    })
+
+    it("should decode a partial refund request", async () => {
+      const decode = Schema.decodeUnknown(RefundPaymentRequest)
+      const result = await Effect.runPromise(
+        decode({ idempotency_key: "refund-123", amount_cents: 500, reason: "Damaged item" })
+      )
+
+      expect(Option.getOrNull(result.amount_cents)).toBe(500)
+      expect(Option.getOrNull(result.reason)).toBe("Damaged item")
+    })
+
+    it("should reject non-positive amount", async () => {
+      const decode = Schema.decodeUnknown(RefundPaymentRequest)
+      const exit = await Effect.runPromiseExit(decode({ idempotency_key: "refund-123", amount_cents: 0 }))
+      expect(Exit.isFailure(exit)).toBe(true)
+    })
+  })
+
+  describe("CaptureIdParams", () => {
+    it("should accept valid capture ID", async () => {
+      const decode = Schema.decodeUnknown(CaptureIdParams)
+      const result = await Effect.runPromise(decode({ capture_id: "cap_ABCDEFghijklmnop12345678" }))
+      expect(result.capture_id).toBe("cap_ABCDEFghijklmnop12345678")
+    })
+
+    it("should reject authorization ID", async () => {
+      const decode = Schema.decodeUnknown(CaptureIdParams)
+      const exit = await Effect.runPromiseExit(decode({ capture_id: "auth_ABCDEFghijklmnop12345678" }))
+      expect(Exit.isFailure(exit)).toBe(true)
+    })
+  })
+
+  describe("RefundId", () => {
+    it("should accept valid refund ID", async () => {
+      const decode = Schema.decodeUnknown(RefundId)
+      const result = await Effect.runPromise(decode("ref_ABCDEFghijklmnop12345678"))
+      expect(result).toBe("ref_ABCDEFghijklmnop12345678")
+    })
+  })
+
   describe("AuthorizationResponse", () => {
     it("should decode valid response", async () => {
       const decode = Schema.decodeUnknown(AuthorizationResponse)
@@ -299,7 +370,8 @@ describe("Domain Models", () => {
           status: "AUTHORIZED",
           amount_cents: 2999,
           currency: "USD",
-          created_at: "2024-01-15T10:30:00.000Z"
+          created_at: "2024-01-15T10:30:00.000Z",
+          expires_at: "2024-01-22T10:30:00.000Z"
         })
       )
 
@@ -314,7 +386,8 @@ describe("Domain Models", () => {
           status: "DECLINED",
           amount_cents: 2999,
           currency: "USD",
-          created_at: "2024-01-15T10:30:00.000Z"
+          created_at: "2024-01-15T10:30:00.000Z",
+          expires_at: "2024-01-22T10:30:00.000Z"
         })
       )
 
@@ -332,6 +405,8 @@ describe("Domain Models", () => {
           status: "CAPTURED",
           amount_cents: 2999,
           currency: "USD",
+          total_captured_cents: 2999,
+          remaining_capturable_cents: 0,
           captured_at: "2024-01-15T10:30:00.000Z"
         })
       )
@@ -426,6 +501,46 @@ describe("Error Types", () => {
     })
   })
 
+  describe("RefundExceedsCaptureError", () => {
+    it("should create error with correct properties", () => {
+      const error = new RefundExceedsCaptureError({
+        captureId: "cap_12345",
+        requestedCents: 1000,
+        refundableCents: 500
+      })
+
+      expect(error._tag).toBe("RefundExceedsCaptureError")
+      expect(error.requestedCents).toBe(1000)
+      expect(error.refundableCents).toBe(500)
+    })
+  })
+
+  describe("AuthorizationExpiredError", () => {
+    it("should create error with correct properties", () => {
+      const error = new AuthorizationExpiredError({
+        authorizationId: "auth_12345",
+        expiredAt: "2024-01-22T10:30:00.000Z"
+      })
+
+      expect(error._tag).toBe("AuthorizationExpiredError")
+      expect(error.expiredAt).toBe("2024-01-22T10:30:00.000Z")
+    })
+  })
+
+  describe("CaptureExceedsAuthorizationError", () => {
+    it("should create error with correct properties", () => {
+      const error = new CaptureExceedsAuthorizationError({
+        authorizationId: "auth_12345",
+        requestedCents: 1000,
+        capturableCents: 400
+      })
+
+      expect(error._tag).toBe("CaptureExceedsAuthorizationError")
+      expect(error.requestedCents).toBe(1000)
+      expect(error.capturableCents).toBe(400)
+    })
+  })
+
   describe("IdempotencyKeyConflictError", () => {
     it("should create error with correct properties", () => {
       const error = new IdempotencyKeyConflictError({
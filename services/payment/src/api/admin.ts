@@ -0,0 +1,128 @@
+import { HttpRouter, HttpServerRequest, HttpServerResponse } from "@effect/platform"
+import type { HttpServerError } from "@effect/platform"
+import { Effect, type ParseResult } from "effect"
+import { withTraceContext } from "@ecommerce/tracing"
+import { FaultInjector } from "../services/FaultInjector.js"
+import {
+  CreateFaultScenarioRequest,
+  FaultScenarioIdParams,
+  type Fault,
+  type FaultScenario
+} from "../domain/FaultScenario.js"
+import type { FaultScenarioNotFoundError, InvalidFaultScenarioError } from "../domain/errors.js"
+
+// Map domain models to snake_case JSON
+const toFaultResponse = (fault: Fault) => {
+  switch (fault._tag) {
+    case "GatewayError":
+      return { type: "gateway_error" }
+    case "Timeout":
+      return { type: "timeout", delay_ms: fault.delayMs }
+    case "Latency":
+      return { type: "latency", delay_ms: fault.delayMs }
+    case "Decline":
+      return { type: "decline", decline_code: fault.declineCode, reason: fault.reason }
+  }
+}
+
+const toScenarioResponse = (scenario: FaultScenario) => ({
+  scenario_id: scenario.id,
+  operation: scenario.operation,
+  payment_token: scenario.paymentToken,
+  user_id: scenario.userId,
+  fault: toFaultResponse(scenario.fault),
+  remaining: scenario.remaining,
+  triggered_count: scenario.triggeredCount,
+  created_at: scenario.createdAt.toISOString()
+})
+
+// POST /admin/fault-scenarios - Register a fault scenario
+const createFaultScenario = withTraceContext(Effect.gen(function* () {
+  const body = yield* HttpServerRequest.schemaBodyJson(CreateFaultScenarioRequest)
+
+  const faultInjector = yield* FaultInjector
+  const scenario = yield* faultInjector.register(body)
+
+  return HttpServerResponse.json(toScenarioResponse(scenario), { status: 201 })
+})).pipe(
+  Effect.withSpan("POST /admin/fault-scenarios"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        { error: "validation_error", message: "Invalid request body", details: error.message },
+        { status: 400 }
+      ),
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        { error: "request_error", message: "Failed to parse request body" },
+        { status: 400 }
+      ),
+    InvalidFaultScenarioError: (error: InvalidFaultScenarioError) =>
+      HttpServerResponse.json(
+        { error: "invalid_scenario", message: error.reason },
+        { status: 400 }
+      )
+  })
+)
+
+// GET /admin/fault-scenarios - List active fault scenarios in matching order
+const listFaultScenarios = withTraceContext(Effect.gen(function* () {
+  const faultInjector = yield* FaultInjector
+  const scenarios = yield* faultInjector.list()
+
+  return HttpServerResponse.json({
+    count: scenarios.length,
+    scenarios: scenarios.map(toScenarioResponse)
+  })
+})).pipe(
+  Effect.withSpan("GET /admin/fault-scenarios"),
+  Effect.flatten
+)
+
+// DELETE /admin/fault-scenarios/:scenario_id - Remove one fault scenario
+const deleteFaultScenario = withTraceContext(Effect.gen(function* () {
+  const { scenario_id: scenarioId } = yield* HttpRouter.schemaPathParams(FaultScenarioIdParams)
+
+  const faultInjector = yield* FaultInjector
+  yield* faultInjector.remove(scenarioId)
+
+  return HttpServerResponse.json({ scenario_id: scenarioId, message: "Fault scenario removed" })
+})).pipe(
+  Effect.withSpan("DELETE /admin/fault-scenarios/:scenario_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: () =>
+      HttpServerResponse.json(
+        { error: "validation_error", message: "Invalid scenario_id format. Must be a valid UUID." },
+        { status: 400 }
+      ),
+    FaultScenarioNotFoundError: (error: FaultScenarioNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "scenario_not_found",
+          scenario_id: error.scenarioId,
+          message: "Fault scenario not found"
+        },
+        { status: 404 }
+      )
+  })
+)
+
+// DELETE /admin/fault-scenarios - Remove all fault scenarios (test teardown)
+const clearFaultScenarios = withTraceContext(Effect.gen(function* () {
+  const faultInjector = yield* FaultInjector
+  const removedCount = yield* faultInjector.clear()
+
+  return HttpServerResponse.json({ removed_count: removedCount })
+})).pipe(
+  Effect.withSpan("DELETE /admin/fault-scenarios"),
+  Effect.flatten
+)
+
+export const AdminRoutes = HttpRouter.empty.pipe(
+  HttpRouter.post("/admin/fault-scenarios", createFaultScenario),
+  HttpRouter.get("/admin/fault-scenarios", listFaultScenarios),
+  HttpRouter.del("/admin/fault-scenarios", clearFaultScenarios),
+  HttpRouter.del("/admin/fault-scenarios/:scenario_id", deleteFaultScenario)
+)
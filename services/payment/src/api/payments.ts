@@ -3,15 +3,21 @@ import type { HttpServerError } from "@effect/platform"
 import { Effect, type ParseResult } from "effect"
 import { withTraceContext } from "@ecommerce/tracing"
 import { PaymentGatewayService } from "../services/PaymentGatewayService.js"
-import { AuthorizePaymentRequest } from "../domain/Authorization.js"
+import { AuthorizePaymentRequest, CompleteAuthenticationRequest } from "../domain/Authorization.js"
 import { AuthorizationIdParams, CapturePaymentRequest } from "../domain/Capture.js"
 import { VoidPaymentRequest } from "../domain/Void.js"
+import { CaptureIdParams, RefundPaymentRequest } from "../domain/Refund.js"
 import type {
   PaymentDeclinedError,
   GatewayConnectionError,
   AuthorizationNotFoundError,
   AlreadyVoidedError,
-  AlreadyCapturedError
+  AlreadyCapturedError,
+  AuthorizationExpiredError,
+  AuthorizationNotCompletedError,
+  CaptureExceedsAuthorizationError,
+  CaptureNotFoundError,
+  RefundExceedsCaptureError
 } from "../domain/errors.js"
 
 // POST /payments/authorize
@@ -66,6 +72,73 @@ const authorizePayment = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// POST /payments/authorize/:authorization_id/complete
+const completeAuthentication = withTraceContext(Effect.gen(function* () {
+  // 1. Parse path params
+  const params = yield* HttpRouter.schemaPathParams(AuthorizationIdParams)
+
+  // 2. Parse body
+  const body = yield* HttpServerRequest.schemaBodyJson(CompleteAuthenticationRequest)
+
+  // 3. Get service and execute
+  const gateway = yield* PaymentGatewayService
+  const result = yield* gateway.completeAuthentication(params.authorization_id, body)
+
+  return HttpServerResponse.json(result, { status: 200 })
+})).pipe(
+  Effect.withSpan("POST /payments/authorize/:authorization_id/complete"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        { error: "validation_error", message: error.message },
+        { status: 400 }
+      ),
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        { error: "request_error", message: "Failed to parse request body" },
+        { status: 400 }
+      ),
+    AuthorizationNotFoundError: (error: AuthorizationNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "authorization_not_found",
+          authorization_id: error.authorizationId,
+          message: error.reason
+        },
+        { status: 404 }
+      ),
+    AlreadyVoidedError: (error: AlreadyVoidedError) =>
+      HttpServerResponse.json(
+        {
+          error: "already_voided",
+          authorization_id: error.authorizationId,
+          voided_at: error.voidedAt,
+          message: "Authorization was voided before customer authentication completed"
+        },
+        { status: 409 }
+      ),
+    PaymentDeclinedError: (error: PaymentDeclinedError) =>
+      HttpServerResponse.json(
+        {
+          error: "payment_declined",
+          decline_code: error.declineCode,
+          message: error.reason,
+          is_retryable: error.isRetryable
+        },
+        { status: 402 }
+      ),
+    GatewayConnectionError: (error: GatewayConnectionError) =>
+      Effect.gen(function* () {
+        yield* Effect.logWarning("Gateway connection error during authentication", { reason: error.reason })
+        return HttpServerResponse.json(
+          { error: "gateway_error", message: "Gateway unavailable", is_retryable: true },
+          { status: 503 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
 // POST /payments/capture/:authorization_id
 const capturePayment = withTraceContext(Effect.gen(function* () {
   // 1. Parse path params
@@ -112,6 +185,37 @@ const capturePayment = withTraceContext(Effect.gen(function* () {
         },
         { status: 409 } // 409 Conflict
       ),
+    AuthorizationNotCompletedError: (error: AuthorizationNotCompletedError) =>
+      HttpServerResponse.json(
+        {
+          error: "authorization_not_completed",
+          authorization_id: error.authorizationId,
+          status: error.status,
+          message: "Authorization has not completed customer authentication and cannot be captured"
+        },
+        { status: 409 }
+      ),
+    AuthorizationExpiredError: (error: AuthorizationExpiredError) =>
+      HttpServerResponse.json(
+        {
+          error: "authorization_expired",
+          authorization_id: error.authorizationId,
+          expired_at: error.expiredAt,
+          message: "Authorization has expired and can no longer be captured"
+        },
+        { status: 410 } // 410 Gone
+      ),
+    CaptureExceedsAuthorizationError: (error: CaptureExceedsAuthorizationError) =>
+      HttpServerResponse.json(
+        {
+          error: "capture_exceeds_authorization",
+          authorization_id: error.authorizationId,
+          requested_cents: error.requestedCents,
+          capturable_cents: error.capturableCents,
+          message: "Capture amount exceeds the remaining authorized amount"
+        },
+        { status: 409 }
+      ),
     GatewayConnectionError: (error: GatewayConnectionError) =>
       Effect.gen(function* () {
         yield* Effect.logWarning("Gateway connection error during capture", { reason: error.reason })
@@ -170,6 +274,16 @@ const voidPayment = withTraceContext(Effect.gen(function* () {
         },
         { status: 409 }
       ),
+    AuthorizationNotCompletedError: (error: AuthorizationNotCompletedError) =>
+      HttpServerResponse.json(
+        {
+          error: "authorization_not_completed",
+          authorization_id: error.authorizationId,
+          status: error.status,
+          message: "Authorization was declined and has nothing to void"
+        },
+        { status: 409 }
+      ),
     GatewayConnectionError: (error: GatewayConnectionError) =>
       Effect.gen(function* () {
         yield* Effect.logWarning("Gateway connection error during void", { reason: error.reason })
@@ -181,9 +295,69 @@ const voidPayment = withTraceContext(Effect.gen(function* () {
   })
 )
 
+// POST /payments/refund/:capture_id
+const refundPayment = withTraceContext(Effect.gen(function* () {
+  // 1. Parse path params
+  const params = yield* HttpRouter.schemaPathParams(CaptureIdParams)
+
+  // 2. Parse body
+  const body = yield* HttpServerRequest.schemaBodyJson(RefundPaymentRequest)
+
+  // 3. Get service and execute
+  const gateway = yield* PaymentGatewayService
+  const result = yield* gateway.refund(params.capture_id, body)
+
+  return HttpServerResponse.json(result, { status: 200 })
+})).pipe(
+  Effect.withSpan("POST /payments/refund/:capture_id"),
+  Effect.flatten,
+  Effect.catchTags({
+    ParseError: (error: ParseResult.ParseError) =>
+      HttpServerResponse.json(
+        { error: "validation_error", message: error.message },
+        { status: 400 }
+      ),
+    RequestError: (_error: HttpServerError.RequestError) =>
+      HttpServerResponse.json(
+        { error: "request_error", message: "Failed to parse request body" },
+        { status: 400 }
+      ),
+    CaptureNotFoundError: (error: CaptureNotFoundError) =>
+      HttpServerResponse.json(
+        {
+          error: "capture_not_found",
+          capture_id: error.captureId,
+          message: error.reason
+        },
+        { status: 404 }
+      ),
+    RefundExceedsCaptureError: (error: RefundExceedsCaptureError) =>
+      HttpServerResponse.json(
+        {
+          error: "refund_exceeds_capture",
+          capture_id: error.captureId,
+          requested_cents: error.requestedCents,
+          refundable_cents: error.refundableCents,
+          message: "Refund amount exceeds the amount left on the capture"
+        },
+        { status: 409 }
+      ),
+    GatewayConnectionError: (error: GatewayConnectionError) =>
+      Effect.gen(function* () {
+        yield* Effect.logWarning("Gateway connection error during refund", { reason: error.reason })
+        return HttpServerResponse.json(
+          { error: "gateway_error", message: "Gateway unavailable", is_retryable: true },
+          { status: 503 }
+        )
+      }).pipe(Effect.flatten)
+  })
+)
+
 // Combine all payment routes
 export const PaymentRoutes = HttpRouter.empty.pipe(
   HttpRouter.post("/payments/authorize", authorizePayment),
+  HttpRouter.post("/payments/authorize/:authorization_id/complete", completeAuthentication),
   HttpRouter.post("/payments/capture/:authorization_id", capturePayment),
-  HttpRouter.post("/payments/void/:authorization_id", voidPayment)
+  HttpRouter.post("/payments/void/:authorization_id", voidPayment),
+  HttpRouter.post("/payments/refund/:capture_id", refundPayment)
 )
@@ -1,11 +1,16 @@
 import { Config, Context, Effect, Layer } from "effect"
 
+// Where the mock gateway keeps its payment state
+export type PaymentStore = "memory" | "postgres"
+
 export class PaymentConfig extends Context.Tag("PaymentConfig")<
   PaymentConfig,
   {
     readonly port: number
     readonly mockLatencyMs: number
     readonly mockFailureRate: number // 0.0 to 1.0
+    readonly authorizationTtlSeconds: number
+    readonly store: PaymentStore
   }
 >() {}
 
@@ -15,7 +20,14 @@ export const PaymentConfigLive = Layer.effect(
     return {
       port: yield* Config.number("PORT").pipe(Config.withDefault(3002)),
       mockLatencyMs: yield* Config.number("MOCK_LATENCY_MS").pipe(Config.withDefault(100)),
-      mockFailureRate: yield* Config.number("MOCK_FAILURE_RATE").pipe(Config.withDefault(0.0))
+      mockFailureRate: yield* Config.number("MOCK_FAILURE_RATE").pipe(Config.withDefault(0.0)),
+      // Card networks typically hold an authorization for about 7 days
+      authorizationTtlSeconds: yield* Config.number("AUTHORIZATION_TTL_SECONDS").pipe(
+        Config.withDefault(7 * 24 * 60 * 60)
+      ),
+      store: yield* Config.literal("memory", "postgres")("PAYMENT_STORE").pipe(
+        Config.withDefault("memory" as const)
+      )
     }
   })
 )
@@ -20,6 +20,11 @@ export class AuthorizePaymentRequest extends Schema.Class<AuthorizePaymentReques
   payment_token: Schema.String.pipe(
     Schema.minLength(1, { message: () => "Payment token is required" })
   ),
+  // Instrument the token belongs to; one order may authorize several (split tender)
+  payment_method: Schema.optionalWith(
+    Schema.Literal("card", "wallet", "store_credit", "gift_card"),
+    { default: () => "card" as const }
+  ),
   idempotency_key: Schema.String.pipe(
     Schema.minLength(1, { message: () => "Idempotency key is required" })
   )
@@ -28,10 +33,18 @@ export class AuthorizePaymentRequest extends Schema.Class<AuthorizePaymentReques
 // Authorization response
 export class AuthorizationResponse extends Schema.Class<AuthorizationResponse>("AuthorizationResponse")({
   authorization_id: Schema.String,
-  status: Schema.Literal("AUTHORIZED", "DECLINED"),
+  // REQUIRES_ACTION: the customer must complete a 3-D Secure challenge at challenge_url
+  status: Schema.Literal("AUTHORIZED", "REQUIRES_ACTION", "DECLINED"),
   amount_cents: Schema.Int,
   currency: Schema.String,
-  created_at: Schema.String // ISO timestamp
+  created_at: Schema.String, // ISO timestamp
+  expires_at: Schema.String, // ISO timestamp - captures are rejected after this
+  challenge_url: Schema.optional(Schema.String)
+}) {}
+
+// Outcome of the customer's 3-D Secure challenge, reported by the merchant
+export class CompleteAuthenticationRequest extends Schema.Class<CompleteAuthenticationRequest>("CompleteAuthenticationRequest")({
+  authentication_result: Schema.Literal("succeeded", "failed")
 }) {}
 
 // Internal authorization state (for idempotency tracking)
@@ -40,7 +53,16 @@ export interface AuthorizationState {
   readonly userId: string
   readonly amountCents: number
   readonly currency: string
-  readonly status: "AUTHORIZED" | "CAPTURED" | "VOIDED"
+  // REQUIRES_ACTION: waiting on a 3-D Secure challenge; DECLINED: the challenge failed
+  // PARTIALLY_CAPTURED: at least one capture, with part of the amount still capturable
+  readonly status:
+    | "REQUIRES_ACTION"
+    | "DECLINED"
+    | "AUTHORIZED"
+    | "PARTIALLY_CAPTURED"
+    | "CAPTURED"
+    | "VOIDED"
   readonly idempotencyKey: string
   readonly createdAt: Date
+  readonly expiresAt: Date
 }
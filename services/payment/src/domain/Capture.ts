@@ -20,7 +20,7 @@ export class CapturePaymentRequest extends Schema.Class<CapturePaymentRequest>("
   idempotency_key: Schema.String.pipe(
     Schema.minLength(1, { message: () => "Idempotency key is required" })
   ),
-  // Optional: capture a different amount than authorized (partial capture)
+  // Optional: capture part of the authorization; defaults to everything still capturable
   amount_cents: Schema.optionalWith(
     Schema.Int.pipe(Schema.positive()),
     { as: "Option" }
@@ -34,5 +34,9 @@ export class CaptureResponse extends Schema.Class<CaptureResponse>("CaptureRespo
   status: Schema.Literal("CAPTURED", "FAILED"),
   amount_cents: Schema.Int,
   currency: Schema.String,
+  // Sum of all captures against the authorization, including this one
+  total_captured_cents: Schema.Int,
+  // What is left of the authorization for further captures
+  remaining_capturable_cents: Schema.Int,
   captured_at: Schema.String // ISO timestamp
 }) {}
@@ -0,0 +1,68 @@
+import { Schema } from "effect"
+
+// Gateway operations a fault scenario can target
+export const FaultOperation = Schema.Literal("authorize", "capture", "void", "refund")
+export type FaultOperation = typeof FaultOperation.Type
+
+const DelayMs = Schema.Int.pipe(
+  Schema.between(0, 120_000, { message: () => "delay_ms must be between 0 and 120000" })
+)
+
+// What happens to a matching request (request body form)
+export const FaultSpec = Schema.Union(
+  // Fail with a retryable gateway error (HTTP 503)
+  Schema.Struct({ type: Schema.Literal("gateway_error") }),
+  // Hang for delay_ms, then fail with a retryable gateway error
+  Schema.Struct({ type: Schema.Literal("timeout"), delay_ms: DelayMs }),
+  // Add delay_ms of latency, then process the request normally
+  Schema.Struct({ type: Schema.Literal("latency"), delay_ms: DelayMs }),
+  // Decline the authorization with the given code (authorize only)
+  Schema.Struct({
+    type: Schema.Literal("decline"),
+    decline_code: Schema.String.pipe(Schema.minLength(1)),
+    reason: Schema.optionalWith(Schema.String.pipe(Schema.maxLength(255)), { as: "Option" })
+  })
+)
+
+// Register a scenario: POST /admin/fault-scenarios
+export class CreateFaultScenarioRequest extends Schema.Class<CreateFaultScenarioRequest>("CreateFaultScenarioRequest")({
+  operation: FaultOperation,
+  // Only matches requests with this exact payment token (authorize only - later operations never see the token)
+  payment_token: Schema.optionalWith(Schema.String.pipe(Schema.minLength(1)), { as: "Option" }),
+  // Only matches requests for this user's authorizations
+  user_id: Schema.optionalWith(Schema.UUID, { as: "Option" }),
+  fault: FaultSpec,
+  // Number of matching requests to fault; omit to fault every match until the scenario is removed
+  times: Schema.optionalWith(Schema.Int.pipe(Schema.positive()), { as: "Option" })
+}) {}
+
+// Path parameter schema for scenario_id
+export const FaultScenarioIdParams = Schema.Struct({
+  scenario_id: Schema.UUID
+})
+
+// Internal fault - discriminated union
+export type Fault =
+  | { readonly _tag: "GatewayError" }
+  | { readonly _tag: "Timeout"; readonly delayMs: number }
+  | { readonly _tag: "Latency"; readonly delayMs: number }
+  | { readonly _tag: "Decline"; readonly declineCode: string; readonly reason: string }
+
+// A registered scenario. Scenarios live in memory and are matched in registration order
+export interface FaultScenario {
+  readonly id: string
+  readonly operation: FaultOperation
+  readonly paymentToken: string | null
+  readonly userId: string | null
+  readonly fault: Fault
+  // Matching requests still to fault; null means unlimited
+  readonly remaining: number | null
+  readonly triggeredCount: number
+  readonly createdAt: Date
+}
+
+// What a request exposes to scenario matching
+export interface FaultTarget {
+  readonly paymentToken?: string | undefined
+  readonly userId?: string | undefined
+}
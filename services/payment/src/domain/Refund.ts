@@ -0,0 +1,45 @@
+import { Schema } from "effect"
+
+export const RefundId = Schema.String.pipe(
+  Schema.pattern(/^ref_[a-zA-Z0-9]{24}$/),
+  Schema.brand("RefundId")
+)
+export type RefundId = typeof RefundId.Type
+
+// Path parameter schema for capture_id
+export const CaptureIdParams = Schema.Struct({
+  capture_id: Schema.String.pipe(
+    Schema.pattern(/^cap_[a-zA-Z0-9]{24}$/, {
+      message: () => "Invalid capture ID format"
+    })
+  )
+})
+
+// Refund request
+export class RefundPaymentRequest extends Schema.Class<RefundPaymentRequest>("RefundPaymentRequest")({
+  idempotency_key: Schema.String.pipe(
+    Schema.minLength(1, { message: () => "Idempotency key is required" })
+  ),
+  // Optional: refund part of the capture. Defaults to everything not yet refunded
+  amount_cents: Schema.optionalWith(
+    Schema.Int.pipe(Schema.positive()),
+    { as: "Option" }
+  ),
+  reason: Schema.optionalWith(
+    Schema.String.pipe(Schema.maxLength(255)),
+    { as: "Option" }
+  )
+}) {}
+
+// Refund response
+export class RefundResponse extends Schema.Class<RefundResponse>("RefundResponse")({
+  refund_id: Schema.String,
+  capture_id: Schema.String,
+  authorization_id: Schema.String,
+  status: Schema.Literal("REFUNDED"),
+  amount_cents: Schema.Int,
+  currency: Schema.String,
+  // Sum of all refunds against the capture, including this one
+  total_refunded_cents: Schema.Int,
+  refunded_at: Schema.String // ISO timestamp
+}) {}
@@ -28,6 +28,33 @@ export class AuthorizationNotFoundError extends Data.TaggedError("AuthorizationN
   readonly reason: string
 }> {}
 
+/**
+ * Authorization hold lapsed before it was (fully) captured.
+ * PERMANENT for this authorization - a new one is needed.
+ */
+export class AuthorizationExpiredError extends Data.TaggedError("AuthorizationExpiredError")<{
+  readonly authorizationId: string
+  readonly expiredAt: string
+}> {}
+
+/**
+ * Authorization never completed customer authentication (3-D Secure) - it is
+ * still waiting on the challenge or the challenge failed, so no funds are held.
+ */
+export class AuthorizationNotCompletedError extends Data.TaggedError("AuthorizationNotCompletedError")<{
+  readonly authorizationId: string
+  readonly status: "REQUIRES_ACTION" | "DECLINED"
+}> {}
+
+/**
+ * Capture amount is more than what is left on the authorization.
+ */
+export class CaptureExceedsAuthorizationError extends Data.TaggedError("CaptureExceedsAuthorizationError")<{
+  readonly authorizationId: string
+  readonly requestedCents: number
+  readonly capturableCents: number
+}> {}
+
 /**
  * Authorization already captured - cannot capture again.
  * Return existing capture for idempotency.
@@ -46,6 +73,24 @@ export class AlreadyVoidedError extends Data.TaggedError("AlreadyVoidedError")<{
   readonly voidedAt: string
 }> {}
 
+/**
+ * Capture not found for refund.
+ */
+export class CaptureNotFoundError extends Data.TaggedError("CaptureNotFoundError")<{
+  readonly captureId: string
+  readonly reason: string
+}> {}
+
+/**
+ * Refund amount is more than what is left on the capture.
+ * Includes a full refund of a capture that has already been fully refunded.
+ */
+export class RefundExceedsCaptureError extends Data.TaggedError("RefundExceedsCaptureError")<{
+  readonly captureId: string
+  readonly requestedCents: number
+  readonly refundableCents: number
+}> {}
+
 /**
  * Duplicate idempotency key with different parameters.
  * This indicates a client bug - same key used for different requests.
@@ -54,3 +99,18 @@ export class IdempotencyKeyConflictError extends Data.TaggedError("IdempotencyKe
   readonly idempotencyKey: string
   readonly message: string
 }> {}
+
+/**
+ * No registered fault scenario with this ID.
+ */
+export class FaultScenarioNotFoundError extends Data.TaggedError("FaultScenarioNotFoundError")<{
+  readonly scenarioId: string
+}> {}
+
+/**
+ * Fault scenario is well-formed but cannot apply to its operation
+ * (e.g. a decline on capture).
+ */
+export class InvalidFaultScenarioError extends Data.TaggedError("InvalidFaultScenarioError")<{
+  readonly reason: string
+}> {}
@@ -1,10 +1,26 @@
-import { Layer } from "effect"
-import { PaymentConfigLive } from "./config.js"
+import { Effect, Layer } from "effect"
+import { PaymentConfig, PaymentConfigLive } from "./config.js"
+import { DatabaseLive } from "./db.js"
+import { PaymentRepositoryInMemory } from "./repositories/PaymentRepositoryInMemory.js"
+import { PaymentRepositoryLive } from "./repositories/PaymentRepositoryLive.js"
 import { PaymentGatewayServiceLive } from "./services/PaymentGatewayServiceLive.js"
+import { FaultInjectorLive } from "./services/FaultInjectorLive.js"
 
-// Service depends on config
+// PAYMENT_STORE picks the repository; only the postgres store opens a database pool
+export const RepositoryLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const config = yield* PaymentConfig
+    return config.store === "postgres"
+      ? PaymentRepositoryLive.pipe(Layer.provide(DatabaseLive))
+      : PaymentRepositoryInMemory
+  })
+).pipe(Layer.provide(PaymentConfigLive))
+
+// Service depends on config, repository and fault injector; the injector is
+// shared with the admin routes so registered scenarios reach the service
 const ServiceLive = PaymentGatewayServiceLive.pipe(
-  Layer.provide(PaymentConfigLive)
+  Layer.provideMerge(FaultInjectorLive),
+  Layer.provide(Layer.mergeAll(PaymentConfigLive, RepositoryLive))
 )
 
 // Export composed application layer
@@ -0,0 +1,109 @@
+import { Context, Effect, Option } from "effect"
+import type { AuthorizationState } from "../domain/Authorization.js"
+import type { GatewayConnectionError } from "../domain/errors.js"
+
+export interface CaptureRecord {
+  readonly captureId: string
+  readonly authorizationId: string
+  readonly idempotencyKey: string
+  readonly amountCents: number
+  readonly capturedAt: Date
+}
+
+export interface VoidRecord {
+  readonly authorizationId: string
+  readonly idempotencyKey: string
+  readonly reason: string | null
+  readonly voidedAt: Date
+}
+
+export interface RefundRecord {
+  readonly refundId: string
+  readonly captureId: string
+  readonly idempotencyKey: string
+  readonly amountCents: number
+  readonly reason: string | null
+  readonly refundedAt: Date
+}
+
+/**
+ * Storage for the mock gateway's authorizations, captures, voids and refunds.
+ * Storage failures surface as retryable GatewayConnectionErrors - to callers
+ * an unavailable store looks like an unavailable gateway.
+ */
+export class PaymentRepository extends Context.Tag("PaymentRepository")<
+  PaymentRepository,
+  {
+    readonly findAuthorizationById: (
+      authorizationId: string
+    ) => Effect.Effect<Option.Option<AuthorizationState>, GatewayConnectionError>
+
+    readonly findAuthorizationByIdempotencyKey: (
+      idempotencyKey: string
+    ) => Effect.Effect<Option.Option<AuthorizationState>, GatewayConnectionError>
+
+    readonly insertAuthorization: (
+      authorization: AuthorizationState
+    ) => Effect.Effect<void, GatewayConnectionError>
+
+    /**
+     * Resolve a REQUIRES_ACTION authorization once the customer's challenge
+     * finishes. Fails if the authorization is no longer REQUIRES_ACTION.
+     */
+    readonly resolveRequiredAction: (
+      authorizationId: string,
+      status: "AUTHORIZED" | "DECLINED"
+    ) => Effect.Effect<void, GatewayConnectionError>
+
+    readonly findCaptureById: (
+      captureId: string
+    ) => Effect.Effect<Option.Option<CaptureRecord>, GatewayConnectionError>
+
+    readonly findCaptureByIdempotencyKey: (
+      idempotencyKey: string
+    ) => Effect.Effect<Option.Option<CaptureRecord>, GatewayConnectionError>
+
+    /**
+     * All captures against an authorization, oldest first.
+     */
+    readonly findCapturesByAuthorizationId: (
+      authorizationId: string
+    ) => Effect.Effect<ReadonlyArray<CaptureRecord>, GatewayConnectionError>
+
+    /**
+     * Store a capture and move its authorization to PARTIALLY_CAPTURED or
+     * CAPTURED, atomically. Fails if the captures would exceed the authorization.
+     */
+    readonly insertCapture: (
+      capture: CaptureRecord
+    ) => Effect.Effect<void, GatewayConnectionError>
+
+    readonly findVoidByAuthorizationId: (
+      authorizationId: string
+    ) => Effect.Effect<Option.Option<VoidRecord>, GatewayConnectionError>
+
+    /**
+     * Store a void and mark its authorization VOIDED, atomically.
+     * Partially captured authorizations can be voided to release the remainder,
+     * and REQUIRES_ACTION ones to abandon the challenge.
+     */
+    readonly insertVoid: (
+      voidRecord: VoidRecord
+    ) => Effect.Effect<void, GatewayConnectionError>
+
+    readonly findRefundByIdempotencyKey: (
+      idempotencyKey: string
+    ) => Effect.Effect<Option.Option<RefundRecord>, GatewayConnectionError>
+
+    /**
+     * Sum of all refunds issued against a capture.
+     */
+    readonly totalRefundedCents: (
+      captureId: string
+    ) => Effect.Effect<number, GatewayConnectionError>
+
+    readonly insertRefund: (
+      refund: RefundRecord
+    ) => Effect.Effect<void, GatewayConnectionError>
+  }
+>() {}
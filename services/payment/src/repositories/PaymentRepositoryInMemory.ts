@@ -0,0 +1,228 @@
+import { Effect, Layer, Option, Ref } from "effect"
+import {
+  PaymentRepository,
+  type CaptureRecord,
+  type RefundRecord,
+  type VoidRecord
+} from "./PaymentRepository.js"
+import type { AuthorizationState } from "../domain/Authorization.js"
+import { GatewayConnectionError } from "../domain/errors.js"
+
+// In-memory state (reset on service restart)
+interface MemoryState {
+  // Map authorization_id -> state
+  readonly authorizations: ReadonlyMap<string, AuthorizationState>
+  // Map idempotency_key -> authorization_id for authorize requests
+  readonly authorizeIdempotencyMap: ReadonlyMap<string, string>
+  // Map capture_id -> capture
+  readonly captures: ReadonlyMap<string, CaptureRecord>
+  // Map idempotency_key -> capture_id for capture requests
+  readonly captureIdempotencyMap: ReadonlyMap<string, string>
+  // Map authorization_id -> void
+  readonly voids: ReadonlyMap<string, VoidRecord>
+  // Map refund_id -> refund
+  readonly refunds: ReadonlyMap<string, RefundRecord>
+  // Map idempotency_key -> refund_id for refund requests
+  readonly refundIdempotencyMap: ReadonlyMap<string, string>
+}
+
+const sumRefunds = (state: MemoryState, captureId: string): number => {
+  let total = 0
+  for (const refund of state.refunds.values()) {
+    if (refund.captureId === captureId) {
+      total += refund.amountCents
+    }
+  }
+  return total
+}
+
+// Captures in insertion order (Map iteration order), i.e. oldest first
+const capturesFor = (state: MemoryState, authorizationId: string): ReadonlyArray<CaptureRecord> =>
+  Array.from(state.captures.values()).filter((c) => c.authorizationId === authorizationId)
+
+const isCapturable = (auth: AuthorizationState): boolean =>
+  auth.status === "AUTHORIZED" || auth.status === "PARTIALLY_CAPTURED"
+
+// Same failure the Postgres repository reports when a guarded write loses a race
+const concurrentUpdate = (reason: string) =>
+  Effect.fail(new GatewayConnectionError({ reason, isRetryable: true }))
+
+/**
+ * Ref-backed repository. Used by unit tests and when PAYMENT_STORE=memory.
+ * Writes apply the same guards as the Postgres repository so both behave
+ * identically under concurrent requests.
+ */
+export const PaymentRepositoryInMemory = Layer.effect(
+  PaymentRepository,
+  Effect.gen(function* () {
+    const stateRef = yield* Ref.make<MemoryState>({
+      authorizations: new Map(),
+      authorizeIdempotencyMap: new Map(),
+      captures: new Map(),
+      captureIdempotencyMap: new Map(),
+      voids: new Map(),
+      refunds: new Map(),
+      refundIdempotencyMap: new Map()
+    })
+
+    const lookup = <A>(f: (state: MemoryState) => A | undefined) =>
+      Ref.get(stateRef).pipe(Effect.map((state) => Option.fromNullable(f(state))))
+
+    return {
+      findAuthorizationById: (authorizationId: string) =>
+        lookup((s) => s.authorizations.get(authorizationId)),
+
+      findAuthorizationByIdempotencyKey: (idempotencyKey: string) =>
+        lookup((s) => {
+          const authorizationId = s.authorizeIdempotencyMap.get(idempotencyKey)
+          return authorizationId ? s.authorizations.get(authorizationId) : undefined
+        }),
+
+      insertAuthorization: (authorization: AuthorizationState) =>
+        Ref.modify(stateRef, (s): [boolean, MemoryState] => {
+          if (s.authorizeIdempotencyMap.has(authorization.idempotencyKey)) {
+            return [false, s]
+          }
+          return [true, {
+            ...s,
+            authorizations: new Map(s.authorizations).set(authorization.authorizationId, authorization),
+            authorizeIdempotencyMap: new Map(s.authorizeIdempotencyMap).set(
+              authorization.idempotencyKey,
+              authorization.authorizationId
+            )
+          }]
+        }).pipe(
+          Effect.flatMap((inserted) =>
+            inserted
+              ? Effect.void
+              : concurrentUpdate(`Idempotency key ${authorization.idempotencyKey} was used concurrently`)
+          )
+        ),
+
+      resolveRequiredAction: (authorizationId: string, status: "AUTHORIZED" | "DECLINED") =>
+        Ref.modify(stateRef, (s): [boolean, MemoryState] => {
+          const auth = s.authorizations.get(authorizationId)
+          if (!auth || auth.status !== "REQUIRES_ACTION") {
+            return [false, s]
+          }
+          return [true, {
+            ...s,
+            authorizations: new Map(s.authorizations).set(authorizationId, { ...auth, status })
+          }]
+        }).pipe(
+          Effect.flatMap((updated) =>
+            updated
+              ? Effect.void
+              : concurrentUpdate(`Authorization ${authorizationId} changed during authentication`)
+          )
+        ),
+
+      findCaptureById: (captureId: string) =>
+        lookup((s) => s.captures.get(captureId)),
+
+      findCaptureByIdempotencyKey: (idempotencyKey: string) =>
+        lookup((s) => {
+          const captureId = s.captureIdempotencyMap.get(idempotencyKey)
+          return captureId ? s.captures.get(captureId) : undefined
+        }),
+
+      findCapturesByAuthorizationId: (authorizationId: string) =>
+        Ref.get(stateRef).pipe(Effect.map((s) => capturesFor(s, authorizationId))),
+
+      insertCapture: (capture: CaptureRecord) =>
+        Ref.modify(stateRef, (s): [boolean, MemoryState] => {
+          const auth = s.authorizations.get(capture.authorizationId)
+          if (
+            !auth ||
+            !isCapturable(auth) ||
+            s.captureIdempotencyMap.has(capture.idempotencyKey)
+          ) {
+            return [false, s]
+          }
+          const capturedCents = capturesFor(s, capture.authorizationId)
+            .reduce((total, c) => total + c.amountCents, 0) + capture.amountCents
+          if (capturedCents > auth.amountCents) {
+            return [false, s]
+          }
+          return [true, {
+            ...s,
+            authorizations: new Map(s.authorizations).set(capture.authorizationId, {
+              ...auth,
+              status: capturedCents === auth.amountCents ? "CAPTURED" : "PARTIALLY_CAPTURED"
+            }),
+            captures: new Map(s.captures).set(capture.captureId, capture),
+            captureIdempotencyMap: new Map(s.captureIdempotencyMap).set(
+              capture.idempotencyKey,
+              capture.captureId
+            )
+          }]
+        }).pipe(
+          Effect.flatMap((inserted) =>
+            inserted
+              ? Effect.void
+              : concurrentUpdate(`Authorization ${capture.authorizationId} changed during capture`)
+          )
+        ),
+
+      findVoidByAuthorizationId: (authorizationId: string) =>
+        lookup((s) => s.voids.get(authorizationId)),
+
+      insertVoid: (voidRecord: VoidRecord) =>
+        Ref.modify(stateRef, (s): [boolean, MemoryState] => {
+          const auth = s.authorizations.get(voidRecord.authorizationId)
+          if (!auth || !(isCapturable(auth) || auth.status === "REQUIRES_ACTION")) {
+            return [false, s]
+          }
+          return [true, {
+            ...s,
+            authorizations: new Map(s.authorizations).set(voidRecord.authorizationId, {
+              ...auth,
+              status: "VOIDED"
+            }),
+            voids: new Map(s.voids).set(voidRecord.authorizationId, voidRecord)
+          }]
+        }).pipe(
+          Effect.flatMap((inserted) =>
+            inserted
+              ? Effect.void
+              : concurrentUpdate(`Authorization ${voidRecord.authorizationId} changed during void`)
+          )
+        ),
+
+      findRefundByIdempotencyKey: (idempotencyKey: string) =>
+        lookup((s) => {
+          const refundId = s.refundIdempotencyMap.get(idempotencyKey)
+          return refundId ? s.refunds.get(refundId) : undefined
+        }),
+
+      totalRefundedCents: (captureId: string) =>
+        Ref.get(stateRef).pipe(Effect.map((s) => sumRefunds(s, captureId))),
+
+      insertRefund: (refund: RefundRecord) =>
+        Ref.modify(stateRef, (s): [boolean, MemoryState] => {
+          const capture = s.captures.get(refund.captureId)
+          if (
+            !capture ||
+            s.refundIdempotencyMap.has(refund.idempotencyKey) ||
+            sumRefunds(s, refund.captureId) + refund.amountCents > capture.amountCents
+          ) {
+            return [false, s]
+          }
+          return [true, {
+            ...s,
+            refunds: new Map(s.refunds).set(refund.refundId, refund),
+            refundIdempotencyMap: new Map(s.refundIdempotencyMap).set(
+              refund.idempotencyKey,
+              refund.refundId
+            )
+          }]
+        }).pipe(
+          Effect.flatMap((inserted) =>
+            inserted
+              ? Effect.void
+              : concurrentUpdate(`Capture ${refund.captureId} changed during refund`)
+          )
+        )
+    }
+  })
+)
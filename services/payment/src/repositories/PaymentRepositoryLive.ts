@@ -0,0 +1,329 @@
+import { Effect, Layer, Option, Schema } from "effect"
+import { SqlClient, type SqlError } from "@effect/sql"
+import {
+  PaymentRepository,
+  type CaptureRecord,
+  type RefundRecord,
+  type VoidRecord
+} from "./PaymentRepository.js"
+import type { AuthorizationState } from "../domain/Authorization.js"
+import { GatewayConnectionError } from "../domain/errors.js"
+
+// Row types for database results
+interface AuthorizationRow {
+  id: string
+  user_id: string
+  amount_cents: number
+  currency: string
+  status: string
+  idempotency_key: string
+  created_at: Date
+  expires_at: Date
+}
+
+interface CaptureRow {
+  id: string
+  authorization_id: string
+  amount_cents: number
+  idempotency_key: string
+  captured_at: Date
+}
+
+interface VoidRow {
+  authorization_id: string
+  idempotency_key: string
+  reason: string | null
+  voided_at: Date
+}
+
+interface RefundRow {
+  id: string
+  capture_id: string
+  amount_cents: number
+  idempotency_key: string
+  reason: string | null
+  refunded_at: Date
+}
+
+const AuthorizationStatus = Schema.Literal(
+  "REQUIRES_ACTION",
+  "DECLINED",
+  "AUTHORIZED",
+  "PARTIALLY_CAPTURED",
+  "CAPTURED",
+  "VOIDED"
+)
+
+const mapRowToAuthorization = (row: AuthorizationRow): AuthorizationState => ({
+  authorizationId: row.id,
+  userId: row.user_id,
+  amountCents: row.amount_cents,
+  currency: row.currency,
+  status: Schema.decodeUnknownSync(AuthorizationStatus)(row.status),
+  idempotencyKey: row.idempotency_key,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at
+})
+
+const mapRowToCapture = (row: CaptureRow): CaptureRecord => ({
+  captureId: row.id,
+  authorizationId: row.authorization_id,
+  idempotencyKey: row.idempotency_key,
+  amountCents: row.amount_cents,
+  capturedAt: row.captured_at
+})
+
+const mapRowToVoid = (row: VoidRow): VoidRecord => ({
+  authorizationId: row.authorization_id,
+  idempotencyKey: row.idempotency_key,
+  reason: row.reason,
+  voidedAt: row.voided_at
+})
+
+const mapRowToRefund = (row: RefundRow): RefundRecord => ({
+  refundId: row.id,
+  captureId: row.capture_id,
+  idempotencyKey: row.idempotency_key,
+  amountCents: row.amount_cents,
+  reason: row.reason,
+  refundedAt: row.refunded_at
+})
+
+// A store outage looks like a gateway outage to callers - both are transient.
+// Unique-key violations from concurrent requests land here too; the retry then
+// finds the winning row through the idempotency lookup.
+const toGatewayError = <A, R>(effect: Effect.Effect<A, SqlError.SqlError | GatewayConnectionError, R>) =>
+  effect.pipe(
+    Effect.mapError((error) =>
+      error._tag === "GatewayConnectionError"
+        ? error
+        : new GatewayConnectionError({
+            reason: `Payment store error: ${error.message}`,
+            isRetryable: true
+          })
+    )
+  )
+
+const concurrentUpdate = (reason: string) =>
+  Effect.fail(new GatewayConnectionError({ reason, isRetryable: true }))
+
+export const PaymentRepositoryLive = Layer.effect(
+  PaymentRepository,
+  Effect.gen(function* () {
+    const sql = yield* SqlClient.SqlClient
+
+    return {
+      findAuthorizationById: (authorizationId: string) =>
+        sql<AuthorizationRow>`
+          SELECT id, user_id, amount_cents, currency, status, idempotency_key, created_at, expires_at
+          FROM payment_authorizations
+          WHERE id = ${authorizationId}
+        `.pipe(
+          Effect.map((rows) => Option.fromNullable(rows[0]).pipe(Option.map(mapRowToAuthorization))),
+          toGatewayError
+        ),
+
+      findAuthorizationByIdempotencyKey: (idempotencyKey: string) =>
+        sql<AuthorizationRow>`
+          SELECT id, user_id, amount_cents, currency, status, idempotency_key, created_at, expires_at
+          FROM payment_authorizations
+          WHERE idempotency_key = ${idempotencyKey}
+        `.pipe(
+          Effect.map((rows) => Option.fromNullable(rows[0]).pipe(Option.map(mapRowToAuthorization))),
+          toGatewayError
+        ),
+
+      insertAuthorization: (authorization: AuthorizationState) =>
+        sql`
+          INSERT INTO payment_authorizations
+            (id, user_id, amount_cents, currency, status, idempotency_key, created_at, updated_at, expires_at)
+          VALUES (
+            ${authorization.authorizationId},
+            ${authorization.userId},
+            ${authorization.amountCents},
+            ${authorization.currency},
+            ${authorization.status},
+            ${authorization.idempotencyKey},
+            ${authorization.createdAt},
+            ${authorization.createdAt},
+            ${authorization.expiresAt}
+          )
+        `.pipe(Effect.asVoid, toGatewayError),
+
+      resolveRequiredAction: (authorizationId: string, status: "AUTHORIZED" | "DECLINED") =>
+        Effect.gen(function* () {
+          const updated = yield* sql<{ id: string }>`
+            UPDATE payment_authorizations
+            SET status = ${status}, updated_at = NOW()
+            WHERE id = ${authorizationId} AND status = 'REQUIRES_ACTION'
+            RETURNING id
+          `
+          if (updated.length === 0) {
+            return yield* concurrentUpdate(`Authorization ${authorizationId} changed during authentication`)
+          }
+        }).pipe(toGatewayError),
+
+      findCaptureById: (captureId: string) =>
+        sql<CaptureRow>`
+          SELECT id, authorization_id, amount_cents, idempotency_key, captured_at
+          FROM payment_captures
+          WHERE id = ${captureId}
+        `.pipe(
+          Effect.map((rows) => Option.fromNullable(rows[0]).pipe(Option.map(mapRowToCapture))),
+          toGatewayError
+        ),
+
+      findCaptureByIdempotencyKey: (idempotencyKey: string) =>
+        sql<CaptureRow>`
+          SELECT id, authorization_id, amount_cents, idempotency_key, captured_at
+          FROM payment_captures
+          WHERE idempotency_key = ${idempotencyKey}
+        `.pipe(
+          Effect.map((rows) => Option.fromNullable(rows[0]).pipe(Option.map(mapRowToCapture))),
+          toGatewayError
+        ),
+
+      findCapturesByAuthorizationId: (authorizationId: string) =>
+        sql<CaptureRow>`
+          SELECT id, authorization_id, amount_cents, idempotency_key, captured_at
+          FROM payment_captures
+          WHERE authorization_id = ${authorizationId}
+          ORDER BY captured_at, id
+        `.pipe(
+          Effect.map((rows) => rows.map(mapRowToCapture)),
+          toGatewayError
+        ),
+
+      insertCapture: (capture: CaptureRecord) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // Lock the authorization so concurrent partial captures can't together exceed it
+            const auths = yield* sql<{ amount_cents: number; status: string }>`
+              SELECT amount_cents, status FROM payment_authorizations
+              WHERE id = ${capture.authorizationId}
+              FOR UPDATE
+            `
+            const captured = yield* sql<{ total: number }>`
+              SELECT COALESCE(SUM(amount_cents), 0)::int AS total
+              FROM payment_captures
+              WHERE authorization_id = ${capture.authorizationId}
+            `
+            const auth = auths[0]
+            const capturedCents = (captured[0]?.total ?? 0) + capture.amountCents
+            if (
+              !auth ||
+              (auth.status !== "AUTHORIZED" && auth.status !== "PARTIALLY_CAPTURED") ||
+              capturedCents > auth.amount_cents
+            ) {
+              return yield* concurrentUpdate(`Authorization ${capture.authorizationId} changed during capture`)
+            }
+
+            yield* sql`
+              INSERT INTO payment_captures (id, authorization_id, amount_cents, idempotency_key, captured_at)
+              VALUES (
+                ${capture.captureId},
+                ${capture.authorizationId},
+                ${capture.amountCents},
+                ${capture.idempotencyKey},
+                ${capture.capturedAt}
+              )
+            `
+            const status = capturedCents === auth.amount_cents ? "CAPTURED" : "PARTIALLY_CAPTURED"
+            yield* sql`
+              UPDATE payment_authorizations
+              SET status = ${status}, updated_at = NOW()
+              WHERE id = ${capture.authorizationId}
+            `
+          })
+        ).pipe(toGatewayError),
+
+      findVoidByAuthorizationId: (authorizationId: string) =>
+        sql<VoidRow>`
+          SELECT authorization_id, idempotency_key, reason, voided_at
+          FROM payment_voids
+          WHERE authorization_id = ${authorizationId}
+        `.pipe(
+          Effect.map((rows) => Option.fromNullable(rows[0]).pipe(Option.map(mapRowToVoid))),
+          toGatewayError
+        ),
+
+      insertVoid: (voidRecord: VoidRecord) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            const updated = yield* sql<{ id: string }>`
+              UPDATE payment_authorizations
+              SET status = 'VOIDED', updated_at = NOW()
+              WHERE id = ${voidRecord.authorizationId} AND status IN ('AUTHORIZED', 'PARTIALLY_CAPTURED', 'REQUIRES_ACTION')
+              RETURNING id
+            `
+            if (updated.length === 0) {
+              return yield* concurrentUpdate(`Authorization ${voidRecord.authorizationId} changed during void`)
+            }
+
+            yield* sql`
+              INSERT INTO payment_voids (authorization_id, idempotency_key, reason, voided_at)
+              VALUES (
+                ${voidRecord.authorizationId},
+                ${voidRecord.idempotencyKey},
+                ${voidRecord.reason},
+                ${voidRecord.voidedAt}
+              )
+            `
+          })
+        ).pipe(toGatewayError),
+
+      findRefundByIdempotencyKey: (idempotencyKey: string) =>
+        sql<RefundRow>`
+          SELECT id, capture_id, amount_cents, idempotency_key, reason, refunded_at
+          FROM payment_refunds
+          WHERE idempotency_key = ${idempotencyKey}
+        `.pipe(
+          Effect.map((rows) => Option.fromNullable(rows[0]).pipe(Option.map(mapRowToRefund))),
+          toGatewayError
+        ),
+
+      totalRefundedCents: (captureId: string) =>
+        sql<{ total: number }>`
+          SELECT COALESCE(SUM(amount_cents), 0)::int AS total
+          FROM payment_refunds
+          WHERE capture_id = ${captureId}
+        `.pipe(
+          Effect.map((rows) => rows[0]?.total ?? 0),
+          toGatewayError
+        ),
+
+      insertRefund: (refund: RefundRecord) =>
+        sql.withTransaction(
+          Effect.gen(function* () {
+            // Lock the capture so concurrent partial refunds can't together exceed it
+            const captures = yield* sql<{ amount_cents: number }>`
+              SELECT amount_cents FROM payment_captures
+              WHERE id = ${refund.captureId}
+              FOR UPDATE
+            `
+            const refunded = yield* sql<{ total: number }>`
+              SELECT COALESCE(SUM(amount_cents), 0)::int AS total
+              FROM payment_refunds
+              WHERE capture_id = ${refund.captureId}
+            `
+            const captured = captures[0]?.amount_cents ?? 0
+            if ((refunded[0]?.total ?? 0) + refund.amountCents > captured) {
+              return yield* concurrentUpdate(`Capture ${refund.captureId} changed during refund`)
+            }
+
+            yield* sql`
+              INSERT INTO payment_refunds (id, capture_id, amount_cents, idempotency_key, reason, refunded_at)
+              VALUES (
+                ${refund.refundId},
+                ${refund.captureId},
+                ${refund.amountCents},
+                ${refund.idempotencyKey},
+                ${refund.reason},
+                ${refund.refundedAt}
+              )
+            `
+          })
+        ).pipe(toGatewayError)
+    }
+  })
+)
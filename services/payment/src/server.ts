@@ -2,6 +2,7 @@ import { HttpRouter, HttpServer, HttpServerResponse } from "@effect/platform"
 import { NodeHttpServer, NodeRuntime } from "@effect/platform-node"
 import { Effect, Layer } from "effect"
 import { createServer } from "node:http"
+import { AdminRoutes } from "./api/admin.js"
 import { HealthRoutes } from "./api/health.js"
 import { PaymentRoutes } from "./api/payments.js"
 import { AppLive } from "./layers.js"
@@ -15,7 +16,8 @@ const rootRoute = HttpRouter.empty.pipe(
 const router = HttpRouter.empty.pipe(
   HttpRouter.mount("/", rootRoute),
   HttpRouter.mount("/", HealthRoutes),
-  HttpRouter.mount("/", PaymentRoutes)
+  HttpRouter.mount("/", PaymentRoutes),
+  HttpRouter.mount("/", AdminRoutes)
 )
 
 // Create server with dynamic port from config
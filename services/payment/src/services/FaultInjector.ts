@@ -0,0 +1,45 @@
+import { Context, Effect, Option } from "effect"
+import type {
+  CreateFaultScenarioRequest,
+  Fault,
+  FaultOperation,
+  FaultScenario,
+  FaultTarget
+} from "../domain/FaultScenario.js"
+import type { FaultScenarioNotFoundError, InvalidFaultScenarioError } from "../domain/errors.js"
+
+export class FaultInjector extends Context.Tag("FaultInjector")<
+  FaultInjector,
+  {
+    /**
+     * Register a fault scenario. Later requests matching it fail (or slow down)
+     * until its `times` budget is used up or it is removed.
+     */
+    readonly register: (
+      request: CreateFaultScenarioRequest
+    ) => Effect.Effect<FaultScenario, InvalidFaultScenarioError>
+
+    /**
+     * All active scenarios, in matching order.
+     */
+    readonly list: () => Effect.Effect<ReadonlyArray<FaultScenario>>
+
+    readonly remove: (
+      scenarioId: string
+    ) => Effect.Effect<void, FaultScenarioNotFoundError>
+
+    /**
+     * Remove every scenario. Returns how many were removed.
+     */
+    readonly clear: () => Effect.Effect<number>
+
+    /**
+     * Claim the fault for a request: the first active scenario matching the
+     * operation and target. Consumes one of its `times` atomically.
+     */
+    readonly next: (
+      operation: FaultOperation,
+      target: FaultTarget
+    ) => Effect.Effect<Option.Option<Fault>>
+  }
+>() {}
@@ -0,0 +1,128 @@
+import { Effect, Layer, Option, Ref } from "effect"
+import { randomUUID } from "node:crypto"
+import { FaultInjector } from "./FaultInjector.js"
+import type {
+  CreateFaultScenarioRequest,
+  Fault,
+  FaultOperation,
+  FaultScenario,
+  FaultTarget
+} from "../domain/FaultScenario.js"
+import { FaultScenarioNotFoundError, InvalidFaultScenarioError } from "../domain/errors.js"
+
+const toFault = (spec: CreateFaultScenarioRequest["fault"]): Fault => {
+  switch (spec.type) {
+    case "gateway_error":
+      return { _tag: "GatewayError" }
+    case "timeout":
+      return { _tag: "Timeout", delayMs: spec.delay_ms }
+    case "latency":
+      return { _tag: "Latency", delayMs: spec.delay_ms }
+    case "decline":
+      return {
+        _tag: "Decline",
+        declineCode: spec.decline_code,
+        reason: Option.getOrElse(spec.reason, () => "Payment declined")
+      }
+  }
+}
+
+const matches = (scenario: FaultScenario, operation: FaultOperation, target: FaultTarget): boolean =>
+  scenario.operation === operation &&
+  (scenario.paymentToken === null || scenario.paymentToken === target.paymentToken) &&
+  (scenario.userId === null || scenario.userId === target.userId)
+
+/**
+ * In-memory scenario registry. Scenarios are runtime test fixtures, so they
+ * are never persisted, even with PAYMENT_STORE=postgres.
+ */
+export const FaultInjectorLive = Layer.effect(
+  FaultInjector,
+  Effect.gen(function* () {
+    const scenariosRef = yield* Ref.make<ReadonlyArray<FaultScenario>>([])
+
+    return {
+      register: (request: CreateFaultScenarioRequest) =>
+        Effect.gen(function* () {
+          if (request.fault.type === "decline" && request.operation !== "authorize") {
+            return yield* Effect.fail(new InvalidFaultScenarioError({
+              reason: "decline faults only apply to authorize"
+            }))
+          }
+          if (Option.isSome(request.payment_token) && request.operation !== "authorize") {
+            return yield* Effect.fail(new InvalidFaultScenarioError({
+              reason: "payment_token only matches authorize requests"
+            }))
+          }
+
+          const scenario: FaultScenario = {
+            id: randomUUID(),
+            operation: request.operation,
+            paymentToken: Option.getOrNull(request.payment_token),
+            userId: Option.getOrNull(request.user_id),
+            fault: toFault(request.fault),
+            remaining: Option.getOrNull(request.times),
+            triggeredCount: 0,
+            createdAt: new Date()
+          }
+          yield* Ref.update(scenariosRef, (scenarios) => [...scenarios, scenario])
+
+          yield* Effect.logInfo("Fault scenario registered", {
+            scenarioId: scenario.id,
+            operation: scenario.operation,
+            fault: scenario.fault._tag,
+            remaining: scenario.remaining
+          })
+
+          return scenario
+        }),
+
+      list: () => Ref.get(scenariosRef),
+
+      remove: (scenarioId: string) =>
+        Ref.modify(scenariosRef, (scenarios): [boolean, ReadonlyArray<FaultScenario>] => {
+          const remaining = scenarios.filter((s) => s.id !== scenarioId)
+          return [remaining.length < scenarios.length, remaining]
+        }).pipe(
+          Effect.flatMap((removed) =>
+            removed ? Effect.void : Effect.fail(new FaultScenarioNotFoundError({ scenarioId }))
+          )
+        ),
+
+      clear: () =>
+        Ref.getAndSet(scenariosRef, []).pipe(Effect.map((scenarios) => scenarios.length)),
+
+      next: (operation: FaultOperation, target: FaultTarget) =>
+        Ref.modify(scenariosRef, (scenarios): [Option.Option<FaultScenario>, ReadonlyArray<FaultScenario>] => {
+          const index = scenarios.findIndex((s) => matches(s, operation, target))
+          const scenario = scenarios[index]
+          if (!scenario) {
+            return [Option.none(), scenarios]
+          }
+
+          const triggered: FaultScenario = {
+            ...scenario,
+            remaining: scenario.remaining === null ? null : scenario.remaining - 1,
+            triggeredCount: scenario.triggeredCount + 1
+          }
+          // Exhausted scenarios drop out so the next request goes through
+          const updated = triggered.remaining === 0
+            ? scenarios.filter((_, i) => i !== index)
+            : scenarios.map((s, i) => (i === index ? triggered : s))
+          return [Option.some(triggered), updated]
+        }).pipe(
+          Effect.tap((triggered) =>
+            Option.isSome(triggered)
+              ? Effect.logWarning("Injecting fault", {
+                  scenarioId: triggered.value.id,
+                  operation,
+                  fault: triggered.value.fault._tag,
+                  remaining: triggered.value.remaining
+                })
+              : Effect.void
+          ),
+          Effect.map(Option.map((scenario) => scenario.fault))
+        )
+    }
+  })
+)
@@ -2,16 +2,23 @@ import { Context, Effect, Option } from "effect"
 import type {
   AuthorizePaymentRequest,
   AuthorizationResponse,
-  AuthorizationState
+  AuthorizationState,
+  CompleteAuthenticationRequest
 } from "../domain/Authorization.js"
 import type { CapturePaymentRequest, CaptureResponse } from "../domain/Capture.js"
 import type { VoidPaymentRequest, VoidResponse } from "../domain/Void.js"
+import type { RefundPaymentRequest, RefundResponse } from "../domain/Refund.js"
 import type {
   PaymentDeclinedError,
   GatewayConnectionError,
   AuthorizationNotFoundError,
   AlreadyCapturedError,
-  AlreadyVoidedError
+  AlreadyVoidedError,
+  AuthorizationExpiredError,
+  AuthorizationNotCompletedError,
+  CaptureExceedsAuthorizationError,
+  CaptureNotFoundError,
+  RefundExceedsCaptureError
 } from "../domain/errors.js"
 
 export class PaymentGatewayService extends Context.Tag("PaymentGatewayService")<
@@ -29,19 +36,44 @@ export class PaymentGatewayService extends Context.Tag("PaymentGatewayService")<
     >
 
     /**
-     * Capture an authorized payment. Actually charges the customer.
-     * Idempotent: capturing already-captured auth returns existing capture.
+     * Finish a REQUIRES_ACTION authorization once the customer's 3-D Secure
+     * challenge is done: AUTHORIZED on success, declined with
+     * "authentication_failed" otherwise.
+     * Idempotent: repeats report the first outcome.
+     */
+    readonly completeAuthentication: (
+      authorizationId: string,
+      request: CompleteAuthenticationRequest
+    ) => Effect.Effect<
+      AuthorizationResponse,
+      | AuthorizationNotFoundError
+      | AlreadyVoidedError
+      | PaymentDeclinedError
+      | GatewayConnectionError
+    >
+
+    /**
+     * Capture an authorized payment, fully or partially. Actually charges the customer.
+     * Repeated partial captures are allowed up to the authorized amount, until it expires.
+     * Idempotent: same idempotency_key returns the existing capture, and capturing a
+     * fully captured auth returns its latest capture.
      */
     readonly capture: (
       authorizationId: string,
       request: CapturePaymentRequest
     ) => Effect.Effect<
       CaptureResponse,
-      AuthorizationNotFoundError | AlreadyVoidedError | GatewayConnectionError
+      | AuthorizationNotFoundError
+      | AlreadyVoidedError
+      | AuthorizationNotCompletedError
+      | AuthorizationExpiredError
+      | CaptureExceedsAuthorizationError
+      | GatewayConnectionError
     >
 
     /**
-     * Void an authorization. Releases held funds without charging.
+     * Void an authorization. Releases held funds without charging; on a partially
+     * captured auth this releases the uncaptured remainder.
      * Idempotent: voiding already-voided auth succeeds.
      */
     readonly voidAuthorization: (
@@ -49,7 +81,22 @@ export class PaymentGatewayService extends Context.Tag("PaymentGatewayService")<
       request: VoidPaymentRequest
     ) => Effect.Effect<
       VoidResponse,
-      AuthorizationNotFoundError | AlreadyCapturedError | GatewayConnectionError
+      | AuthorizationNotFoundError
+      | AlreadyCapturedError
+      | AuthorizationNotCompletedError
+      | GatewayConnectionError
+    >
+
+    /**
+     * Refund a captured payment, fully or partially. Returns money to the customer.
+     * Idempotent: same idempotency_key returns the existing refund.
+     */
+    readonly refund: (
+      captureId: string,
+      request: RefundPaymentRequest
+    ) => Effect.Effect<
+      RefundResponse,
+      CaptureNotFoundError | RefundExceedsCaptureError | GatewayConnectionError
     >
 
     /**
@@ -58,6 +105,6 @@ export class PaymentGatewayService extends Context.Tag("PaymentGatewayService")<
      */
     readonly getAuthorization: (
       authorizationId: string
-    ) => Effect.Effect<Option.Option<AuthorizationState>, never>
+    ) => Effect.Effect<Option.Option<AuthorizationState>, GatewayConnectionError>
   }
 >() {}
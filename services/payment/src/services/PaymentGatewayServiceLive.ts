@@ -1,35 +1,33 @@
-import { Effect, Layer, Option, Ref, Duration } from "effect"
+import { Effect, Layer, Option, Duration } from "effect"
 import { PaymentGatewayService } from "./PaymentGatewayService.js"
 import { PaymentConfig } from "../config.js"
+import { PaymentRepository, type CaptureRecord } from "../repositories/PaymentRepository.js"
+import { FaultInjector } from "./FaultInjector.js"
+import type { FaultOperation, FaultTarget } from "../domain/FaultScenario.js"
 import type {
   AuthorizePaymentRequest,
   AuthorizationState
 } from "../domain/Authorization.js"
-import { AuthorizationResponse } from "../domain/Authorization.js"
+import { AuthorizationResponse, type CompleteAuthenticationRequest } from "../domain/Authorization.js"
 import type { CapturePaymentRequest } from "../domain/Capture.js"
 import { CaptureResponse } from "../domain/Capture.js"
 import type { VoidPaymentRequest } from "../domain/Void.js"
 import { VoidResponse } from "../domain/Void.js"
+import type { RefundPaymentRequest } from "../domain/Refund.js"
+import { RefundResponse } from "../domain/Refund.js"
 import {
   PaymentDeclinedError,
   GatewayConnectionError,
   AuthorizationNotFoundError,
   AlreadyCapturedError,
-  AlreadyVoidedError
+  AlreadyVoidedError,
+  AuthorizationExpiredError,
+  AuthorizationNotCompletedError,
+  CaptureExceedsAuthorizationError,
+  CaptureNotFoundError,
+  RefundExceedsCaptureError
 } from "../domain/errors.js"
 
-// In-memory state for mock (reset on service restart)
-interface MockState {
-  // Map idempotency_key -> authorization_id for authorize requests
-  authorizeIdempotencyMap: Map<string, string>
-  // Map authorization_id -> state
-  authorizations: Map<string, AuthorizationState>
-  // Map idempotency_key -> capture_id for capture requests
-  captureIdempotencyMap: Map<string, string>
-  // Map capture_id -> { authorizationId, amountCents, capturedAt }
-  captures: Map<string, { authorizationId: string; amountCents: number; capturedAt: Date }>
-}
-
 // Generate random IDs matching pattern
 const generateAuthorizationId = (): string =>
   `auth_${Array.from({ length: 24 }, () =>
@@ -45,6 +43,39 @@ const generateCaptureId = (): string =>
     ]
   ).join("")}`
 
+const generateRefundId = (): string =>
+  `ref_${Array.from({ length: 24 }, () =>
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"[
+      Math.floor(Math.random() * 62)
+    ]
+  ).join("")}`
+
+const sumCaptured = (captures: ReadonlyArray<CaptureRecord>): number =>
+  captures.reduce((total, capture) => total + capture.amountCents, 0)
+
+// Build a capture response with the authorization's running capture totals
+const toCaptureResponse = (
+  capture: CaptureRecord,
+  auth: Option.Option<AuthorizationState>,
+  captures: ReadonlyArray<CaptureRecord>
+): CaptureResponse => {
+  const totalCaptured = sumCaptured(captures)
+  return new CaptureResponse({
+    capture_id: capture.captureId,
+    authorization_id: capture.authorizationId,
+    status: "CAPTURED",
+    amount_cents: capture.amountCents,
+    currency: Option.match(auth, { onNone: () => "USD", onSome: (a) => a.currency }),
+    total_captured_cents: totalCaptured,
+    // Nothing more can be captured once the authorization is voided
+    remaining_capturable_cents: Option.match(auth, {
+      onNone: () => 0,
+      onSome: (a) => (a.status === "VOIDED" ? 0 : a.amountCents - totalCaptured)
+    }),
+    captured_at: capture.capturedAt.toISOString()
+  })
+}
+
 // Simulate gateway decline based on payment token patterns
 const shouldDeclinePayment = (paymentToken: string): { decline: boolean; code: string; reason: string } => {
   // Magic tokens for testing different scenarios
@@ -63,18 +94,30 @@ const shouldDeclinePayment = (paymentToken: string): { decline: boolean; code: s
   return { decline: false, code: "", reason: "" }
 }
 
+// Magic token for the 3-D Secure flow: authorize returns REQUIRES_ACTION
+const shouldRequireAction = (paymentToken: string): boolean =>
+  paymentToken.includes("3ds_required")
+
+// Where the customer would complete the challenge; the mock never serves it
+const CHALLENGE_BASE_URL = "https://3ds.mock-gateway.test/challenge"
+
+const toAuthorizationResponse = (auth: AuthorizationState): AuthorizationResponse =>
+  new AuthorizationResponse({
+    authorization_id: auth.authorizationId,
+    status: auth.status === "AUTHORIZED" || auth.status === "REQUIRES_ACTION" ? auth.status : "DECLINED",
+    amount_cents: auth.amountCents,
+    currency: auth.currency,
+    created_at: auth.createdAt.toISOString(),
+    expires_at: auth.expiresAt.toISOString(),
+    ...(auth.status === "REQUIRES_ACTION" ? { challenge_url: `${CHALLENGE_BASE_URL}/${auth.authorizationId}` } : {})
+  })
+
 export const PaymentGatewayServiceLive = Layer.effect(
   PaymentGatewayService,
   Effect.gen(function* () {
     const config = yield* PaymentConfig
-
-    // Initialize in-memory state using Effect Ref for thread-safety
-    const stateRef = yield* Ref.make<MockState>({
-      authorizeIdempotencyMap: new Map(),
-      authorizations: new Map(),
-      captureIdempotencyMap: new Map(),
-      captures: new Map()
-    })
+    const repository = yield* PaymentRepository
+    const faultInjector = yield* FaultInjector
 
     // Helper: simulate network latency
     const simulateLatency = Effect.gen(function* () {
@@ -93,31 +136,71 @@ export const PaymentGatewayServiceLive = Layer.effect(
       }
     })
 
+    // Helper: apply a registered fault scenario, if one matches. Declines are
+    // only registered for authorize, so they are handed back for it to fail with
+    const injectFault = (operation: FaultOperation, target: FaultTarget) =>
+      Effect.gen(function* () {
+        const fault = yield* faultInjector.next(operation, target)
+        if (Option.isNone(fault)) {
+          return Option.none<PaymentDeclinedError>()
+        }
+        switch (fault.value._tag) {
+          case "Latency":
+            yield* Effect.sleep(Duration.millis(fault.value.delayMs))
+            return Option.none<PaymentDeclinedError>()
+          case "Timeout":
+            yield* Effect.sleep(Duration.millis(fault.value.delayMs))
+            return yield* Effect.fail(new GatewayConnectionError({
+              reason: `Injected gateway timeout after ${fault.value.delayMs}ms`,
+              isRetryable: true
+            }))
+          case "GatewayError":
+            return yield* Effect.fail(new GatewayConnectionError({
+              reason: "Injected gateway error",
+              isRetryable: true
+            }))
+          case "Decline":
+            return Option.some(new PaymentDeclinedError({
+              reason: fault.value.reason,
+              declineCode: fault.value.declineCode,
+              isRetryable: false
+            }))
+        }
+      })
+
+    // Helper: the user behind an authorization, for user-scoped fault scenarios
+    const userIdForAuthorization = (authorizationId: string) =>
+      repository.findAuthorizationById(authorizationId).pipe(
+        Effect.map((auth) => Option.getOrUndefined(Option.map(auth, (a) => a.userId)))
+      )
+
     return {
       authorize: (request: AuthorizePaymentRequest) =>
         Effect.gen(function* () {
           yield* simulateLatency
           yield* simulateRandomFailure
 
-          const state = yield* Ref.get(stateRef)
-
           // Check idempotency - return existing authorization if found
-          const existingAuthId = state.authorizeIdempotencyMap.get(request.idempotency_key)
-          if (existingAuthId) {
-            const existing = state.authorizations.get(existingAuthId)
-            if (existing) {
-              yield* Effect.logInfo("Returning existing authorization (idempotent)", {
-                idempotencyKey: request.idempotency_key,
-                authorizationId: existingAuthId
-              })
-              return new AuthorizationResponse({
-                authorization_id: existing.authorizationId,
-                status: existing.status === "AUTHORIZED" ? "AUTHORIZED" : "DECLINED",
-                amount_cents: existing.amountCents,
-                currency: existing.currency,
-                created_at: existing.createdAt.toISOString()
-              })
-            }
+          const existing = yield* repository.findAuthorizationByIdempotencyKey(request.idempotency_key)
+          if (Option.isSome(existing)) {
+            yield* Effect.logInfo("Returning existing authorization (idempotent)", {
+              idempotencyKey: request.idempotency_key,
+              authorizationId: existing.value.authorizationId
+            })
+            return toAuthorizationResponse(existing.value)
+          }
+
+          // Faults apply to new requests only - a replay neither fails nor uses up a scenario
+          const injectedDecline = yield* injectFault("authorize", {
+            paymentToken: request.payment_token,
+            userId: request.user_id
+          })
+          if (Option.isSome(injectedDecline)) {
+            yield* Effect.logWarning("Payment declined (injected)", {
+              userId: request.user_id,
+              code: injectedDecline.value.declineCode
+            })
+            return yield* Effect.fail(injectedDecline.value)
           }
 
           // Check for decline conditions
@@ -134,180 +217,227 @@ export const PaymentGatewayServiceLive = Layer.effect(
             }))
           }
 
-          // Generate new authorization
+          // Generate new authorization - held back as REQUIRES_ACTION if the card needs 3-D Secure
           const authorizationId = generateAuthorizationId()
           const now = new Date()
+          const expiresAt = new Date(now.getTime() + config.authorizationTtlSeconds * 1000)
 
           const authState: AuthorizationState = {
             authorizationId,
             userId: request.user_id,
             amountCents: request.amount_cents,
             currency: request.currency,
-            status: "AUTHORIZED",
+            status: shouldRequireAction(request.payment_token) ? "REQUIRES_ACTION" : "AUTHORIZED",
             idempotencyKey: request.idempotency_key,
-            createdAt: now
+            createdAt: now,
+            expiresAt
           }
 
-          // Update state atomically
-          yield* Ref.update(stateRef, (s) => ({
-            ...s,
-            authorizeIdempotencyMap: new Map(s.authorizeIdempotencyMap).set(
-              request.idempotency_key,
-              authorizationId
-            ),
-            authorizations: new Map(s.authorizations).set(authorizationId, authState)
-          }))
-
-          yield* Effect.logInfo("Payment authorized", {
-            authorizationId,
-            userId: request.user_id,
-            amountCents: request.amount_cents
-          })
+          yield* repository.insertAuthorization(authState)
 
-          return new AuthorizationResponse({
-            authorization_id: authorizationId,
-            status: "AUTHORIZED",
-            amount_cents: request.amount_cents,
-            currency: request.currency,
-            created_at: now.toISOString()
-          })
+          yield* Effect.logInfo(
+            authState.status === "AUTHORIZED" ? "Payment authorized" : "Payment requires customer authentication",
+            {
+              authorizationId,
+              userId: request.user_id,
+              amountCents: request.amount_cents,
+              paymentMethod: request.payment_method
+            }
+          )
+
+          return toAuthorizationResponse(authState)
         }),
 
-      capture: (authorizationId: string, request: CapturePaymentRequest) =>
+      completeAuthentication: (authorizationId: string, request: CompleteAuthenticationRequest) =>
         Effect.gen(function* () {
           yield* simulateLatency
           yield* simulateRandomFailure
 
-          const state = yield* Ref.get(stateRef)
+          const authOption = yield* repository.findAuthorizationById(authorizationId)
+          if (Option.isNone(authOption)) {
+            return yield* Effect.fail(new AuthorizationNotFoundError({
+              authorizationId,
+              reason: "Authorization not found or expired"
+            }))
+          }
+          const auth = authOption.value
 
-          // Check if already captured with this idempotency key
-          const existingCaptureId = state.captureIdempotencyMap.get(request.idempotency_key)
-          if (existingCaptureId) {
-            const existingCapture = state.captures.get(existingCaptureId)
-            if (existingCapture) {
-              yield* Effect.logInfo("Returning existing capture (idempotent)", {
-                idempotencyKey: request.idempotency_key,
-                captureId: existingCaptureId
-              })
-              const auth = state.authorizations.get(existingCapture.authorizationId)
-              return new CaptureResponse({
-                capture_id: existingCaptureId,
-                authorization_id: existingCapture.authorizationId,
-                status: "CAPTURED",
-                amount_cents: existingCapture.amountCents,
-                currency: auth?.currency ?? "USD",
-                captured_at: existingCapture.capturedAt.toISOString()
-              })
+          if (auth.status === "REQUIRES_ACTION") {
+            const succeeded = request.authentication_result === "succeeded"
+            yield* repository.resolveRequiredAction(authorizationId, succeeded ? "AUTHORIZED" : "DECLINED")
+            yield* Effect.logInfo("Customer authentication completed", {
+              authorizationId,
+              result: request.authentication_result
+            })
+            if (succeeded) {
+              return toAuthorizationResponse({ ...auth, status: "AUTHORIZED" })
             }
+          } else {
+            yield* Effect.logInfo("Customer authentication already completed (idempotent)", {
+              authorizationId,
+              status: auth.status
+            })
+          }
+
+          // Repeats report the first outcome, whatever result they carry
+          if (auth.status === "VOIDED") {
+            const voidRecord = yield* repository.findVoidByAuthorizationId(authorizationId)
+            return yield* Effect.fail(new AlreadyVoidedError({
+              authorizationId,
+              voidedAt: Option.match(voidRecord, {
+                onNone: () => new Date().toISOString(),
+                onSome: (v) => v.voidedAt.toISOString()
+              })
+            }))
+          }
+          if (auth.status === "REQUIRES_ACTION" || auth.status === "DECLINED") {
+            return yield* Effect.fail(new PaymentDeclinedError({
+              reason: "Customer authentication failed",
+              declineCode: "authentication_failed",
+              isRetryable: false
+            }))
+          }
+          return toAuthorizationResponse({ ...auth, status: "AUTHORIZED" })
+        }),
+
+      capture: (authorizationId: string, request: CapturePaymentRequest) =>
+        Effect.gen(function* () {
+          yield* simulateLatency
+          yield* simulateRandomFailure
+          yield* injectFault("capture", { userId: yield* userIdForAuthorization(authorizationId) })
+
+          // Check if already captured with this idempotency key
+          const existingCapture = yield* repository.findCaptureByIdempotencyKey(request.idempotency_key)
+          if (Option.isSome(existingCapture)) {
+            yield* Effect.logInfo("Returning existing capture (idempotent)", {
+              idempotencyKey: request.idempotency_key,
+              captureId: existingCapture.value.captureId
+            })
+            const existingAuth = yield* repository.findAuthorizationById(existingCapture.value.authorizationId)
+            const captures = yield* repository.findCapturesByAuthorizationId(existingCapture.value.authorizationId)
+            return toCaptureResponse(existingCapture.value, existingAuth, captures)
           }
 
           // Find authorization
-          const auth = state.authorizations.get(authorizationId)
-          if (!auth) {
+          const authOption = yield* repository.findAuthorizationById(authorizationId)
+          if (Option.isNone(authOption)) {
             return yield* Effect.fail(new AuthorizationNotFoundError({
               authorizationId,
               reason: "Authorization not found or expired"
             }))
           }
+          const auth = authOption.value
 
           // Check status
           if (auth.status === "VOIDED") {
+            const voidRecord = yield* repository.findVoidByAuthorizationId(authorizationId)
             return yield* Effect.fail(new AlreadyVoidedError({
               authorizationId,
-              voidedAt: new Date().toISOString() // Approximate
+              voidedAt: Option.match(voidRecord, {
+                onNone: () => new Date().toISOString(), // Approximate
+                onSome: (v) => v.voidedAt.toISOString()
+              })
             }))
           }
 
-          // If already captured, this is idempotent success
-          if (auth.status === "CAPTURED") {
-            // Find existing capture for this auth
-            for (const [capId, cap] of state.captures) {
-              if (cap.authorizationId === authorizationId) {
-                return new CaptureResponse({
-                  capture_id: capId,
-                  authorization_id: authorizationId,
-                  status: "CAPTURED",
-                  amount_cents: cap.amountCents,
-                  currency: auth.currency,
-                  captured_at: cap.capturedAt.toISOString()
-                })
-              }
-            }
+          if (auth.status === "REQUIRES_ACTION" || auth.status === "DECLINED") {
+            return yield* Effect.fail(new AuthorizationNotCompletedError({
+              authorizationId,
+              status: auth.status
+            }))
+          }
+
+          const captures = yield* repository.findCapturesByAuthorizationId(authorizationId)
+
+          // If fully captured, this is idempotent success - return the latest capture
+          const latestCapture = captures[captures.length - 1]
+          if (auth.status === "CAPTURED" && latestCapture) {
+            return toCaptureResponse(latestCapture, authOption, captures)
           }
 
-          // Perform capture
-          const captureId = generateCaptureId()
-          const captureAmount = Option.getOrElse(request.amount_cents, () => auth.amountCents)
           const now = new Date()
+          if (now.getTime() >= auth.expiresAt.getTime()) {
+            yield* Effect.logWarning("Capture rejected, authorization expired", {
+              authorizationId,
+              expiresAt: auth.expiresAt.toISOString()
+            })
+            return yield* Effect.fail(new AuthorizationExpiredError({
+              authorizationId,
+              expiredAt: auth.expiresAt.toISOString()
+            }))
+          }
 
-          yield* Ref.update(stateRef, (s) => {
-            const newAuths = new Map(s.authorizations)
-            newAuths.set(authorizationId, { ...auth, status: "CAPTURED" })
-
-            return {
-              ...s,
-              authorizations: newAuths,
-              captureIdempotencyMap: new Map(s.captureIdempotencyMap).set(
-                request.idempotency_key,
-                captureId
-              ),
-              captures: new Map(s.captures).set(captureId, {
-                authorizationId,
-                amountCents: captureAmount,
-                capturedAt: now
-              })
-            }
-          })
+          // Default to capturing whatever is left on the authorization
+          const capturableCents = auth.amountCents - sumCaptured(captures)
+          const captureAmount = Option.getOrElse(request.amount_cents, () => capturableCents)
+          if (captureAmount > capturableCents) {
+            return yield* Effect.fail(new CaptureExceedsAuthorizationError({
+              authorizationId,
+              requestedCents: captureAmount,
+              capturableCents
+            }))
+          }
+
+          // Perform capture
+          const capture: CaptureRecord = {
+            captureId: generateCaptureId(),
+            authorizationId,
+            idempotencyKey: request.idempotency_key,
+            amountCents: captureAmount,
+            capturedAt: now
+          }
+          yield* repository.insertCapture(capture)
 
           yield* Effect.logInfo("Payment captured", {
-            captureId,
+            captureId: capture.captureId,
             authorizationId,
-            amountCents: captureAmount
+            amountCents: captureAmount,
+            remainingCapturableCents: capturableCents - captureAmount
           })
 
-          return new CaptureResponse({
-            capture_id: captureId,
-            authorization_id: authorizationId,
-            status: "CAPTURED",
-            amount_cents: captureAmount,
-            currency: auth.currency,
-            captured_at: now.toISOString()
-          })
+          return toCaptureResponse(capture, authOption, [...captures, capture])
         }),
 
       voidAuthorization: (authorizationId: string, request: VoidPaymentRequest) =>
         Effect.gen(function* () {
           yield* simulateLatency
           yield* simulateRandomFailure
-
-          const state = yield* Ref.get(stateRef)
+          yield* injectFault("void", { userId: yield* userIdForAuthorization(authorizationId) })
 
           // Find authorization
-          const auth = state.authorizations.get(authorizationId)
-          if (!auth) {
+          const authOption = yield* repository.findAuthorizationById(authorizationId)
+          if (Option.isNone(authOption)) {
             return yield* Effect.fail(new AuthorizationNotFoundError({
               authorizationId,
               reason: "Authorization not found or expired"
             }))
           }
+          const auth = authOption.value
 
-          // Check status
-          if (auth.status === "CAPTURED") {
-            // Find the capture
-            for (const [capId, cap] of state.captures) {
-              if (cap.authorizationId === authorizationId) {
-                return yield* Effect.fail(new AlreadyCapturedError({
-                  authorizationId,
-                  captureId: capId,
-                  capturedAt: cap.capturedAt.toISOString()
-                }))
-              }
-            }
-            // Fallback if capture not found (shouldn't happen)
-            return yield* Effect.fail(new AlreadyCapturedError({
+          // A declined authorization holds nothing to release
+          if (auth.status === "DECLINED") {
+            return yield* Effect.fail(new AuthorizationNotCompletedError({
               authorizationId,
-              captureId: "unknown",
-              capturedAt: new Date().toISOString()
+              status: auth.status
+            }))
+          }
+
+          // Check status - a partially captured authorization can still be voided
+          // to release the uncaptured remainder
+          if (auth.status === "CAPTURED") {
+            const captures = yield* repository.findCapturesByAuthorizationId(authorizationId)
+            return yield* Effect.fail(Option.match(Option.fromNullable(captures[captures.length - 1]), {
+              // Fallback if capture not found (shouldn't happen)
+              onNone: () => new AlreadyCapturedError({
+                authorizationId,
+                captureId: "unknown",
+                capturedAt: new Date().toISOString()
+              }),
+              onSome: (cap) => new AlreadyCapturedError({
+                authorizationId,
+                captureId: cap.captureId,
+                capturedAt: cap.capturedAt.toISOString()
+              })
             }))
           }
 
@@ -315,18 +445,23 @@ export const PaymentGatewayServiceLive = Layer.effect(
           const now = new Date()
           if (auth.status === "VOIDED") {
             yield* Effect.logInfo("Authorization already voided (idempotent)", { authorizationId })
+            const existingVoid = yield* repository.findVoidByAuthorizationId(authorizationId)
             return new VoidResponse({
               authorization_id: authorizationId,
               status: "VOIDED",
-              voided_at: now.toISOString()
+              voided_at: Option.match(existingVoid, {
+                onNone: () => now,
+                onSome: (v) => v.voidedAt
+              }).toISOString()
             })
           }
 
           // Perform void
-          yield* Ref.update(stateRef, (s) => {
-            const newAuths = new Map(s.authorizations)
-            newAuths.set(authorizationId, { ...auth, status: "VOIDED" })
-            return { ...s, authorizations: newAuths }
+          yield* repository.insertVoid({
+            authorizationId,
+            idempotencyKey: request.idempotency_key,
+            reason: Option.getOrNull(request.reason),
+            voidedAt: now
           })
 
           yield* Effect.logInfo("Payment voided", {
@@ -341,12 +476,107 @@ export const PaymentGatewayServiceLive = Layer.effect(
           })
         }),
 
-      getAuthorization: (authorizationId: string) =>
+      refund: (captureId: string, request: RefundPaymentRequest) =>
         Effect.gen(function* () {
-          const state = yield* Ref.get(stateRef)
-          const auth = state.authorizations.get(authorizationId)
-          return auth ? Option.some(auth) : Option.none()
-        })
+          yield* simulateLatency
+          yield* simulateRandomFailure
+
+          const capturedAuthorizationId = yield* repository.findCaptureById(captureId).pipe(
+            Effect.map(Option.map((c) => c.authorizationId))
+          )
+          yield* injectFault("refund", {
+            userId: Option.isSome(capturedAuthorizationId)
+              ? yield* userIdForAuthorization(capturedAuthorizationId.value)
+              : undefined
+          })
+
+          // Look up the authorization's currency for a capture
+          const currencyFor = (authorizationId: string) =>
+            repository.findAuthorizationById(authorizationId).pipe(
+              Effect.map(Option.match({ onNone: () => "USD", onSome: (a) => a.currency }))
+            )
+
+          // Check if already refunded with this idempotency key
+          const existingRefund = yield* repository.findRefundByIdempotencyKey(request.idempotency_key)
+          if (Option.isSome(existingRefund)) {
+            const refunded = existingRefund.value
+            const capture = yield* repository.findCaptureById(refunded.captureId)
+            if (Option.isSome(capture)) {
+              yield* Effect.logInfo("Returning existing refund (idempotent)", {
+                idempotencyKey: request.idempotency_key,
+                refundId: refunded.refundId
+              })
+              return new RefundResponse({
+                refund_id: refunded.refundId,
+                capture_id: refunded.captureId,
+                authorization_id: capture.value.authorizationId,
+                status: "REFUNDED",
+                amount_cents: refunded.amountCents,
+                currency: yield* currencyFor(capture.value.authorizationId),
+                total_refunded_cents: yield* repository.totalRefundedCents(refunded.captureId),
+                refunded_at: refunded.refundedAt.toISOString()
+              })
+            }
+          }
+
+          // Find capture
+          const captureOption = yield* repository.findCaptureById(captureId)
+          if (Option.isNone(captureOption)) {
+            return yield* Effect.fail(new CaptureNotFoundError({
+              captureId,
+              reason: "Capture not found"
+            }))
+          }
+          const capture = captureOption.value
+
+          // Default to refunding whatever is left on the capture
+          const refundableCents = capture.amountCents - (yield* repository.totalRefundedCents(captureId))
+          const refundAmount = Option.getOrElse(request.amount_cents, () => refundableCents)
+          if (refundAmount <= 0 || refundAmount > refundableCents) {
+            return yield* Effect.fail(new RefundExceedsCaptureError({
+              captureId,
+              requestedCents: refundAmount,
+              refundableCents
+            }))
+          }
+
+          // Perform refund
+          const refundId = generateRefundId()
+          const now = new Date()
+
+          yield* repository.insertRefund({
+            refundId,
+            captureId,
+            idempotencyKey: request.idempotency_key,
+            amountCents: refundAmount,
+            reason: Option.getOrNull(request.reason),
+            refundedAt: now
+          })
+
+          const totalRefunded = capture.amountCents - refundableCents + refundAmount
+
+          yield* Effect.logInfo("Payment refunded", {
+            refundId,
+            captureId,
+            amountCents: refundAmount,
+            totalRefundedCents: totalRefunded,
+            reason: Option.getOrElse(request.reason, () => "No reason provided")
+          })
+
+          return new RefundResponse({
+            refund_id: refundId,
+            capture_id: captureId,
+            authorization_id: capture.authorizationId,
+            status: "REFUNDED",
+            amount_cents: refundAmount,
+            currency: yield* currencyFor(capture.authorizationId),
+            total_refunded_cents: totalRefunded,
+            refunded_at: now.toISOString()
+          })
+        }),
+
+      getAuthorization: (authorizationId: string) =>
+        repository.findAuthorizationById(authorizationId)
     }
   })
 )